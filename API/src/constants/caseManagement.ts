@@ -0,0 +1,13 @@
+/**
+ * Who can read a case note:
+ * - team: staff who can open the beneficiary's record
+ * - managers: the author, program and sub-project managers and administrators
+ * - private: the author only
+ */
+export const CASE_NOTE_VISIBILITIES = ['team', 'managers', 'private'] as const;
+
+export type CaseNoteVisibility = typeof CASE_NOTE_VISIBILITIES[number];
+
+export const FOLLOW_UP_TASK_STATUSES = ['open', 'done', 'cancelled'] as const;
+
+export type FollowUpTaskStatus = typeof FOLLOW_UP_TASK_STATUSES[number];
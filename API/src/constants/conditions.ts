@@ -0,0 +1,41 @@
+/**
+ * ICD-10 chapters, used as the default category of catalog codes. Ranges compare the first three
+ * characters of a code (letter + two digits).
+ */
+export const ICD10_CHAPTERS = [
+  { category: 'infectious', from: 'A00', to: 'B99', title: 'Certain infectious and parasitic diseases' },
+  { category: 'neoplasms', from: 'C00', to: 'D48', title: 'Neoplasms' },
+  { category: 'blood', from: 'D50', to: 'D89', title: 'Diseases of the blood and immune mechanism' },
+  { category: 'endocrine', from: 'E00', to: 'E90', title: 'Endocrine, nutritional and metabolic diseases' },
+  { category: 'mental', from: 'F00', to: 'F99', title: 'Mental and behavioural disorders' },
+  { category: 'nervous', from: 'G00', to: 'G99', title: 'Diseases of the nervous system' },
+  { category: 'eye', from: 'H00', to: 'H59', title: 'Diseases of the eye and adnexa' },
+  { category: 'ear', from: 'H60', to: 'H95', title: 'Diseases of the ear and mastoid process' },
+  { category: 'circulatory', from: 'I00', to: 'I99', title: 'Diseases of the circulatory system' },
+  { category: 'respiratory', from: 'J00', to: 'J99', title: 'Diseases of the respiratory system' },
+  { category: 'digestive', from: 'K00', to: 'K93', title: 'Diseases of the digestive system' },
+  { category: 'skin', from: 'L00', to: 'L99', title: 'Diseases of the skin and subcutaneous tissue' },
+  { category: 'musculoskeletal', from: 'M00', to: 'M99', title: 'Diseases of the musculoskeletal system and connective tissue' },
+  { category: 'genitourinary', from: 'N00', to: 'N99', title: 'Diseases of the genitourinary system' },
+  { category: 'pregnancy', from: 'O00', to: 'O99', title: 'Pregnancy, childbirth and the puerperium' },
+  { category: 'perinatal', from: 'P00', to: 'P96', title: 'Certain conditions originating in the perinatal period' },
+  { category: 'congenital', from: 'Q00', to: 'Q99', title: 'Congenital malformations and chromosomal abnormalities' },
+  { category: 'symptoms', from: 'R00', to: 'R99', title: 'Symptoms, signs and abnormal findings' },
+  { category: 'injury', from: 'S00', to: 'T98', title: 'Injury, poisoning and other consequences of external causes' },
+  { category: 'external_causes', from: 'V01', to: 'Y98', title: 'External causes of morbidity and mortality' },
+  { category: 'health_status', from: 'Z00', to: 'Z99', title: 'Factors influencing health status and contact with health services' },
+  { category: 'special', from: 'U00', to: 'U99', title: 'Codes for special purposes' },
+] as const;
+
+/**
+ * Catalog code for diagnoses that could not be coded; its category is 'other'
+ */
+export const UNSPECIFIED_CONDITION_CODE = 'OTHER';
+
+/**
+ * Status of a beneficiary's condition. Resolved conditions are kept as history but are not
+ * counted as current conditions.
+ */
+export const CONDITION_STATUSES = ['active', 'in_remission', 'resolved'] as const;
+
+export type ConditionStatus = typeof CONDITION_STATUSES[number];
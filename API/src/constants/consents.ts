@@ -0,0 +1,13 @@
+/**
+ * Purposes a beneficiary can consent to:
+ * - data_collection: collecting and processing personal data (decrypted PII in lists, details and the mobile data dump)
+ * - data_sharing: sharing personal data outside the platform (PII in form response exports)
+ */
+export const CONSENT_PURPOSES = ['data_collection', 'data_sharing'] as const;
+
+export type ConsentPurpose = typeof CONSENT_PURPOSES[number];
+
+/** How a consent record was captured */
+export const CONSENT_SOURCES = ['form', 'sync', 'manual'] as const;
+
+export type ConsentSource = typeof CONSENT_SOURCES[number];
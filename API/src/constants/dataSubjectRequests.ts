@@ -0,0 +1,6 @@
+/**
+ * Kinds of data subject request recorded against a beneficiary
+ */
+export const DATA_SUBJECT_REQUEST_TYPES = ['access', 'rectification', 'erasure'] as const;
+
+export type DataSubjectRequestType = typeof DATA_SUBJECT_REQUEST_TYPES[number];
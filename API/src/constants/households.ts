@@ -0,0 +1,6 @@
+/**
+ * Relationship of a household member to the head of household
+ */
+export const HOUSEHOLD_RELATIONSHIPS = ['head', 'spouse', 'child', 'dependent', 'parent', 'sibling', 'other'] as const;
+
+export type HouseholdRelationship = typeof HOUSEHOLD_RELATIONSHIPS[number];
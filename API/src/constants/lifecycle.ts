@@ -0,0 +1,31 @@
+/**
+ * Program-level lifecycle of a beneficiary in a project or subproject (per BeneficiaryAssignment)
+ */
+export const ASSIGNMENT_LIFECYCLE_STATUSES = ['referred', 'enrolled', 'suspended', 'graduated', 'exited', 'deceased'] as const;
+
+export type AssignmentLifecycleStatus = typeof ASSIGNMENT_LIFECYCLE_STATUSES[number];
+
+/**
+ * Statuses a status may change to. Graduated and exited beneficiaries can be re-enrolled;
+ * deceased is final.
+ */
+export const ASSIGNMENT_LIFECYCLE_TRANSITIONS: Record<AssignmentLifecycleStatus, readonly AssignmentLifecycleStatus[]> = {
+  referred: ['enrolled', 'exited', 'deceased'],
+  enrolled: ['suspended', 'graduated', 'exited', 'deceased'],
+  suspended: ['enrolled', 'graduated', 'exited', 'deceased'],
+  graduated: ['enrolled', 'deceased'],
+  exited: ['referred', 'enrolled', 'deceased'],
+  deceased: [],
+};
+
+/**
+ * Statuses counted as active caseload
+ */
+export const ACTIVE_CASELOAD_STATUSES: readonly AssignmentLifecycleStatus[] = ['enrolled'];
+
+/**
+ * Reason recorded when a beneficiary exits a program
+ */
+export const EXIT_REASONS = ['completed', 'moved_away', 'declined', 'lost_to_follow_up', 'ineligible', 'transferred', 'other'] as const;
+
+export type ExitReason = typeof EXIT_REASONS[number];
@@ -0,0 +1,11 @@
+/**
+ * Beneficiary match key types
+ * Exact keys identify one beneficiary (unique per hash) and drive automatic matching;
+ * blocking keys group similar records (shared by many beneficiaries) for duplicate review.
+ */
+export const EXACT_MATCH_KEY_TYPES = ['nationalId', 'phone+dob', 'name+dob'] as const;
+
+export const BLOCKING_KEY_TYPES = ['name-phonetic+yob', 'lastname-phonetic+dob', 'phone'] as const;
+
+export type ExactMatchKeyType = typeof EXACT_MATCH_KEY_TYPES[number];
+export type BlockingKeyType = typeof BLOCKING_KEY_TYPES[number];
@@ -0,0 +1,23 @@
+/**
+ * Referral of a beneficiary from one program entity or partner organization to another
+ */
+export const REFERRAL_STATUSES = ['sent', 'accepted', 'declined', 'completed'] as const;
+
+export type ReferralStatus = typeof REFERRAL_STATUSES[number];
+
+/**
+ * Statuses a referral may move to. Declined and completed referrals are closed.
+ */
+export const REFERRAL_TRANSITIONS: Record<ReferralStatus, readonly ReferralStatus[]> = {
+  sent: ['accepted', 'declined', 'completed'],
+  accepted: ['declined', 'completed'],
+  declined: [],
+  completed: [],
+};
+
+/**
+ * Either side of a referral: a project, subproject or activity, or an outside organization (by name)
+ */
+export const REFERRAL_PARTY_TYPES = ['project', 'subproject', 'activity', 'organization'] as const;
+
+export type ReferralPartyType = typeof REFERRAL_PARTY_TYPES[number];
@@ -0,0 +1,30 @@
+/**
+ * Schema version of the offline SQLite bundle (also set as PRAGMA user_version). Bump it whenever the
+ * bundled models change, and record the outgoing columns in SYNC_BUNDLE_PAST_SCHEMAS.
+ */
+export const SYNC_BUNDLE_SCHEMA_VERSION = 2;
+
+/**
+ * Columns of each bundle table as shipped by earlier schema versions. Migrations shipped in the bundle
+ * add the tables and columns an older local database is missing. Version 1 is the hand-written schema
+ * of the first /sync/full releases.
+ */
+export const SYNC_BUNDLE_PAST_SCHEMAS: Record<number, Record<string, string[]>> = {
+  1: {
+    projects: ['id', 'name', 'description', 'category', 'status', 'createdAt', 'updatedAt'],
+    subprojects: ['id', 'projectId', 'name', 'description', 'category', 'status', 'createdAt', 'updatedAt'],
+    activities: ['id', 'subprojectId', 'name', 'description', 'category', 'frequency', 'reportingFields', 'status', 'createdAt', 'updatedAt'],
+    users: ['id', 'firstName', 'lastName', 'email', 'status', 'createdAt', 'updatedAt'],
+    project_users: ['id', 'projectId', 'userId', 'createdAt', 'updatedAt'],
+    subproject_users: ['id', 'subprojectId', 'userId', 'createdAt', 'updatedAt'],
+    form_templates: ['id', 'name', 'schema', 'version', 'status', 'includeBeneficiaries', 'createdAt', 'updatedAt'],
+    form_entity_associations: ['id', 'formTemplateId', 'entityId', 'entityType', 'createdAt', 'updatedAt'],
+    services: ['id', 'name', 'description', 'category', 'status', 'createdAt', 'updatedAt'],
+    service_assignments: ['id', 'serviceId', 'entityId', 'entityType', 'createdAt', 'updatedAt'],
+    beneficiaries: [
+      'id', 'pseudonym', 'status', 'createdAt', 'updatedAt', 'firstNameEnc', 'lastNameEnc', 'dobEnc', 'genderEnc',
+      'addressEnc', 'municipalityEnc', 'nationalityEnc', 'nationalIdEnc', 'phoneEnc', 'emailEnc', 'ethnicityEnc',
+      'residenceEnc', 'householdMembersEnc',
+    ],
+  },
+};
@@ -0,0 +1,19 @@
+/**
+ * Operations recorded in the sync change log. 'revoke' marks a removed membership: the user it names
+ * lost access to the program, subproject or activity and should drop it from the device.
+ */
+export const SYNC_CHANGE_OPERATIONS = ['upsert', 'delete', 'revoke'] as const;
+
+export type SyncChangeOperation = typeof SYNC_CHANGE_OPERATIONS[number];
+
+/**
+ * Entity types of the change log, named after the keys of the /sync/pull payload
+ */
+export const SYNC_ENTITY_TYPES = [
+  'projects', 'subprojects', 'activities', 'users', 'projectUsers', 'subprojectUsers', 'activityUsers',
+  'formTemplates', 'formEntityAssociations', 'services', 'entityServices', 'beneficiaries',
+  'serviceDeliveries', 'roles', 'permissions', 'rolePermissions', 'userRoles', 'formFields', 'kpis',
+  'beneficiaryDetails', 'beneficiaryAssignments', 'beneficiaryMappings', 'beneficiaryMatchKeys', 'formResponses',
+] as const;
+
+export type SyncEntityType = typeof SYNC_ENTITY_TYPES[number];
@@ -0,0 +1,23 @@
+/**
+ * Status of a conflict between an offline beneficiary edit and the server copy. Open conflicts wait
+ * in the conflict inbox for a manager to pick or merge values.
+ */
+export const SYNC_CONFLICT_STATUSES = ['open', 'resolved'] as const;
+
+export type SyncConflictStatus = typeof SYNC_CONFLICT_STATUSES[number];
+
+/**
+ * Beneficiary fields an offline device can edit through /sync/push. Keys of the extended details are
+ * addressed as 'details.<key>'.
+ */
+export const SYNC_BENEFICIARY_FIELDS = [
+  'firstName', 'lastName', 'dob', 'gender', 'address', 'municipality', 'nationality', 'nationalId',
+  'phone', 'email', 'ethnicity', 'residence', 'householdMembers', 'status',
+] as const;
+
+export type SyncBeneficiaryField = typeof SYNC_BENEFICIARY_FIELDS[number];
+
+/**
+ * Detail keys derived on the server (from condition records) that devices cannot edit
+ */
+export const SYNC_DERIVED_DETAIL_KEYS = ['chronicConditionCodes', 'chronicConditions'];
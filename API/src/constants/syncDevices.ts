@@ -0,0 +1,22 @@
+/**
+ * Status of a registered sync device. A revoked device is refused on its next sync and told to wipe
+ * its local data.
+ */
+export const SYNC_DEVICE_STATUSES = ['active', 'revoked'] as const;
+
+export type SyncDeviceStatus = typeof SYNC_DEVICE_STATUSES[number];
+
+/**
+ * Device-facing sync calls recorded in a device's sync history
+ */
+export const SYNC_DEVICE_OPERATIONS = ['register', 'pull', 'push', 'full', 'upload', 'datadump', 'uploads', 'wipe'] as const;
+
+export type SyncDeviceOperation = typeof SYNC_DEVICE_OPERATIONS[number];
+
+/**
+ * Outcome of a recorded call: `refused` when the device was revoked, `failed` for error responses and
+ * dropped connections
+ */
+export const SYNC_DEVICE_EVENT_OUTCOMES = ['success', 'failed', 'refused'] as const;
+
+export type SyncDeviceEventOutcome = typeof SYNC_DEVICE_EVENT_OUTCOMES[number];
@@ -0,0 +1,204 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize from '../../db/connection';
+import { AuditLog, Beneficiary } from '../../models';
+import { createLogger } from '../../utils/logger';
+import { FOLLOW_UP_TASK_STATUSES, FollowUpTaskStatus } from '../../constants/caseManagement';
+import { hasConsent } from '../../services/beneficiaries/consentService';
+import {
+  CaseManagementResult,
+  CaseViewer,
+  createCaseNote,
+  createFollowUpTask,
+  deleteCaseNote,
+  listCaseNotes,
+  listFollowUpTasks,
+  updateCaseNote,
+  updateFollowUpTask,
+} from '../../services/beneficiaries/caseManagementService';
+
+const logger = createLogger('beneficiaries-case-management-controller');
+
+const sendResult = (res: Response, result: CaseManagementResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+const consentRequired = (res: Response) => res.status(403).json({
+  success: false,
+  code: 'CONSENT_REQUIRED',
+  message: 'The beneficiary has not consented to data collection',
+  purpose: 'data_collection',
+});
+
+const viewerOf = (req: Request): CaseViewer => ({
+  id: req.user.id,
+  roleNames: ((req as any).userRoles || []).map((r: any) => (typeof r === 'string' ? r : r?.name)).filter(Boolean),
+});
+
+const paging = (req: Request) => ({
+  page: req.query.page ? Math.max(parseInt(String(req.query.page), 10) || 1, 1) : 1,
+  limit: req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20,
+});
+
+/**
+ * Case notes the current user may read, with decrypted text. Reads are audited; never cached.
+ */
+const listNotes = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const beneficiary = await Beneficiary.findByPk(id, { attributes: ['id', 'pseudonym'] });
+    if (!beneficiary) return res.status(404).json({ success: false, message: 'Beneficiary not found' });
+    if (!(await hasConsent(id, 'data_collection'))) return consentRequired(res);
+
+    const notes = await listCaseNotes(id, viewerOf(req));
+    try {
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'BENEFICIARY_CASE_NOTES_READ',
+        description: `Read ${notes.length} case notes of beneficiary '${beneficiary.pseudonym}'`,
+        details: JSON.stringify({ beneficiaryId: id, noteIds: notes.map(n => n.id) }),
+        timestamp: new Date(),
+      });
+    } catch (_) { /* ignore */ }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Pragma', 'no-cache');
+    res.setHeader('X-PII-Access', 'decrypt');
+    return res.status(200).json({ success: true, data: notes });
+  } catch (error: any) {
+    logger.error('Error listing case notes', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Add a case note. Body: `body`, optional `visibility` (team|managers|private, default team).
+ */
+const createNote = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    if (!(await hasConsent(id, 'data_collection'))) {
+      const beneficiary = await Beneficiary.findByPk(id, { attributes: ['id'] });
+      if (!beneficiary) return res.status(404).json({ success: false, message: 'Beneficiary not found' });
+      return consentRequired(res);
+    }
+    const { body, visibility } = req.body || {};
+    const result = await sequelize.transaction(async (transaction) =>
+      createCaseNote(id, { body, visibility }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error creating case note', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Edit a case note (author only). Body: `body` and/or `visibility`.
+ */
+const updateNote = async (req: Request, res: Response) => {
+  const { id, noteId } = req.params;
+  try {
+    const { body, visibility } = req.body || {};
+    const result = await sequelize.transaction(async (transaction) =>
+      updateCaseNote(id, noteId, { body, visibility }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error updating case note', { id, noteId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+const deleteNote = async (req: Request, res: Response) => {
+  const { id, noteId } = req.params;
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      deleteCaseNote(id, noteId, viewerOf(req), transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error deleting case note', { id, noteId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Follow-up tasks. `GET /beneficiaries/:id/tasks` lists one beneficiary's tasks; `GET /beneficiaries/tasks`
+ * lists tasks across beneficiaries. Query: `assignedTo` (user id or `me`), `status`, `overdue=true`, `page`, `limit`.
+ */
+const listTasks = async (req: Request, res: Response) => {
+  const beneficiaryId = req.params.id || (req.query.beneficiaryId as string | undefined);
+  const status = req.query.status as string | undefined;
+  if (status && !(FOLLOW_UP_TASK_STATUSES as readonly string[]).includes(status)) {
+    return res.status(400).json({ success: false, message: `status must be one of: ${FOLLOW_UP_TASK_STATUSES.join(', ')}` });
+  }
+  const assignedTo = req.query.assignedTo === 'me' ? req.user.id : (req.query.assignedTo as string | undefined);
+  const { page, limit } = paging(req);
+
+  try {
+    if (req.params.id) {
+      const beneficiary = await Beneficiary.findByPk(req.params.id, { attributes: ['id'] });
+      if (!beneficiary) return res.status(404).json({ success: false, message: 'Beneficiary not found' });
+    }
+    const { items, totalItems } = await listFollowUpTasks({
+      beneficiaryId,
+      assignedTo,
+      status: status as FollowUpTaskStatus | undefined,
+      overdue: req.query.overdue === 'true',
+    }, page, limit);
+    return res.status(200).json({ success: true, items, page, limit, totalItems, totalPages: Math.ceil(totalItems / limit) });
+  } catch (error: any) {
+    logger.error('Error listing follow-up tasks', { beneficiaryId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Create a follow-up task. Body: `title`, `dueDate` (YYYY-MM-DD), optional `assignedTo` (default: current user),
+ * `details`, `caseNoteId`.
+ */
+const createTask = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const { title, details, dueDate, assignedTo, caseNoteId } = req.body || {};
+    const result = await sequelize.transaction(async (transaction) =>
+      createFollowUpTask(id, { title, details, dueDate, assignedTo, caseNoteId }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error creating follow-up task', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Update a task. Body: any of `title`, `details`, `dueDate`, `assignedTo`, `status` (open|done|cancelled).
+ */
+const updateTask = async (req: Request, res: Response) => {
+  const { id, taskId } = req.params;
+  try {
+    const { title, details, dueDate, assignedTo, status } = req.body || {};
+    const result = await sequelize.transaction(async (transaction) =>
+      updateFollowUpTask(id, taskId, { title, details, dueDate, assignedTo, status }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error updating follow-up task', { id, taskId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  listNotes,
+  createNote,
+  updateNote,
+  deleteNote,
+  listTasks,
+  createTask,
+  updateTask,
+};
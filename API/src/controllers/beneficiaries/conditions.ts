@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize from '../../db/connection';
+import { AuditLog, Beneficiary } from '../../models';
+import { createLogger } from '../../utils/logger';
+import { hasConsent } from '../../services/beneficiaries/consentService';
+import {
+  HealthProfileResult,
+  createCondition,
+  deleteCondition,
+  listConditions,
+  updateCondition,
+} from '../../services/beneficiaries/healthProfileService';
+
+const logger = createLogger('beneficiaries-conditions-controller');
+
+const sendResult = (res: Response, result: HealthProfileResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+const consentRequired = (res: Response) => res.status(403).json({
+  success: false,
+  code: 'CONSENT_REQUIRED',
+  message: 'The beneficiary has not consented to data collection',
+  purpose: 'data_collection',
+});
+
+/**
+ * Health profile of a beneficiary: conditions with code, label, category, status, dates and decrypted
+ * notes. Query: `includeResolved` (default true). Reads are audited; never cached.
+ */
+const list = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const beneficiary = await Beneficiary.findByPk(id, { attributes: ['id', 'pseudonym'] });
+    if (!beneficiary) return res.status(404).json({ success: false, message: 'Beneficiary not found' });
+    if (!(await hasConsent(id, 'data_collection'))) return consentRequired(res);
+
+    const conditions = await listConditions(id, { includeResolved: String(req.query.includeResolved) !== 'false' });
+    try {
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'BENEFICIARY_CONDITIONS_READ',
+        description: `Read the health profile of beneficiary '${beneficiary.pseudonym}'`,
+        details: JSON.stringify({ beneficiaryId: id, conditions: conditions.length }),
+        timestamp: new Date(),
+      });
+    } catch (_) { /* ignore */ }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Pragma', 'no-cache');
+    res.setHeader('X-PII-Access', 'decrypt');
+    return res.status(200).json({ success: true, data: conditions });
+  } catch (error: any) {
+    logger.error('Error listing conditions', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Record a condition. Body: `code` (active catalog code), optional `status` (active|in_remission|resolved,
+ * default active), `diagnosedAt`, `resolvedAt` (YYYY-MM-DD), `notes`.
+ */
+const create = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    if (!(await hasConsent(id, 'data_collection'))) {
+      const beneficiary = await Beneficiary.findByPk(id, { attributes: ['id'] });
+      if (!beneficiary) return res.status(404).json({ success: false, message: 'Beneficiary not found' });
+      return consentRequired(res);
+    }
+    const { code, status, diagnosedAt, resolvedAt, notes } = req.body || {};
+    const result = await sequelize.transaction(async (transaction) =>
+      createCondition(id, { code, status, diagnosedAt, resolvedAt, notes }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error recording condition', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Update status, dates or notes of a condition. Body: any of `status`, `diagnosedAt`, `resolvedAt`, `notes`.
+ */
+const update = async (req: Request, res: Response) => {
+  const { id, conditionId } = req.params;
+  try {
+    const { code, status, diagnosedAt, resolvedAt, notes } = req.body || {};
+    const result = await sequelize.transaction(async (transaction) =>
+      updateCondition(id, conditionId, { code, status, diagnosedAt, resolvedAt, notes }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error updating condition', { id, conditionId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+const remove = async (req: Request, res: Response) => {
+  const { id, conditionId } = req.params;
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      deleteCondition(id, conditionId, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error deleting condition', { id, conditionId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  list,
+  create,
+  update,
+  remove,
+};
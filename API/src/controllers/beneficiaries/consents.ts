@@ -0,0 +1,83 @@
+import { Request, Response } from 'express';
+import sequelize from '../../db/connection';
+import { Beneficiary } from '../../models';
+import { createLogger } from '../../utils/logger';
+import {
+  ConsentResult,
+  isConsentEnforced,
+  listConsents,
+  recordConsent,
+  withdrawConsent,
+} from '../../services/beneficiaries/consentService';
+
+const logger = createLogger('beneficiaries-consents-controller');
+
+const sendResult = (res: Response, result: ConsentResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+/**
+ * Consent records of a beneficiary (newest first) and the purposes currently consented to
+ */
+const list = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const beneficiary = await Beneficiary.findByPk(id, { attributes: ['id'] });
+    if (!beneficiary) return res.status(404).json({ success: false, message: 'Beneficiary not found' });
+
+    const consents = await listConsents(id);
+    const activePurposes = Array.from(new Set(consents.filter(c => !c.withdrawnAt).map(c => c.purpose)));
+    return res.status(200).json({ success: true, data: { consents, activePurposes, enforced: isConsentEnforced() } });
+  } catch (error: any) {
+    logger.error('Error listing beneficiary consents', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Record a consent. Body: `purpose`, `consentVersion`, optional `givenAt`, `signatureAttachmentId`
+ * (an upload of the caller not linked to a response), `granted` (false records a refusal).
+ */
+const create = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { purpose, consentVersion, givenAt, signatureAttachmentId, granted } = req.body || {};
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      recordConsent(id, { purpose, consentVersion, givenAt, signatureAttachmentId, granted }, {
+        userId: req.user.id,
+        transaction,
+        source: 'manual',
+      })
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error recording beneficiary consent', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Withdraw a consent. Body: optional `reason`.
+ */
+const withdraw = async (req: Request, res: Response) => {
+  const { id, consentId } = req.params;
+  const reason = req.body?.reason ? String(req.body.reason) : null;
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      withdrawConsent(id, consentId, reason, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error withdrawing beneficiary consent', { id, consentId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  list,
+  create,
+  withdraw,
+};
@@ -0,0 +1,129 @@
+import { Request, Response } from 'express';
+import sequelize from '../../db/connection';
+import { Beneficiary, DataSubjectRequest, User } from '../../models';
+import { createLogger } from '../../utils/logger';
+import { DATA_SUBJECT_REQUEST_TYPES } from '../../constants/dataSubjectRequests';
+import {
+  DataSubjectRequestInfo,
+  DataSubjectResult,
+  eraseBeneficiary,
+  exportBeneficiaryDossier,
+  rectifyBeneficiary,
+} from '../../services/beneficiaries/dataSubjectService';
+
+const logger = createLogger('beneficiaries-data-subject-controller');
+
+const sendResult = (res: Response, result: DataSubjectResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+const requestInfo = (source: any): DataSubjectRequestInfo => ({
+  reference: source?.reference ? String(source.reference).slice(0, 128) : null,
+  reason: source?.reason ? String(source.reason) : null,
+});
+
+/**
+ * Access request: complete decrypted dossier of one beneficiary. Query: optional `reference`, `reason`.
+ */
+const dossier = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      exportBeneficiaryDossier(id, requestInfo(req.query), req.user.id, transaction)
+    );
+    if (result.success) {
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('Pragma', 'no-cache');
+      res.setHeader('X-PII-Access', 'decrypt');
+    }
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error exporting beneficiary dossier', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Rectification request. Body: corrected PII fields plus optional `reference`, `reason`.
+ */
+const rectify = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { reference, reason, ...fields } = req.body || {};
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      rectifyBeneficiary(id, fields, requestInfo({ reference, reason }), req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error rectifying beneficiary', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Erasure request. Body: `confirm` (the beneficiary's pseudonym), optional `reference`, `reason`.
+ */
+const erase = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { confirm } = req.body || {};
+  try {
+    const beneficiary = await Beneficiary.findByPk(id, { attributes: ['id', 'pseudonym'] });
+    if (!beneficiary) return res.status(404).json({ success: false, message: 'Beneficiary not found' });
+    if (confirm !== beneficiary.pseudonym) {
+      return res.status(400).json({ success: false, message: 'Erasure must be confirmed with the beneficiary pseudonym in `confirm`' });
+    }
+
+    const result = await sequelize.transaction(async (transaction) =>
+      eraseBeneficiary(id, requestInfo(req.body), req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error erasing beneficiary', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Register of data subject requests. Query: `beneficiaryId`, `type`, `page`, `limit`.
+ */
+const listRequests = async (req: Request, res: Response) => {
+  const page = req.query.page ? Math.max(parseInt(String(req.query.page), 10) || 1, 1) : 1;
+  const limit = req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20;
+  const type = req.query.type as string | undefined;
+  const beneficiaryId = req.query.beneficiaryId as string | undefined;
+
+  if (type && !(DATA_SUBJECT_REQUEST_TYPES as readonly string[]).includes(type)) {
+    return res.status(400).json({ success: false, message: `type must be one of: ${DATA_SUBJECT_REQUEST_TYPES.join(', ')}` });
+  }
+
+  try {
+    const where: any = {};
+    if (type) where.type = type;
+    if (beneficiaryId) where.beneficiaryId = beneficiaryId;
+
+    const { rows, count } = await DataSubjectRequest.findAndCountAll({
+      where,
+      include: [
+        { model: Beneficiary, as: 'beneficiary', attributes: ['id', 'pseudonym', 'erasedAt'] },
+        { model: User, as: 'processor', attributes: ['id', 'firstName', 'lastName', 'email'] },
+      ],
+      order: [['processedAt', 'DESC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+    return res.status(200).json({ success: true, items: rows, page, limit, totalItems: count, totalPages: Math.ceil(count / limit) });
+  } catch (error: any) {
+    logger.error('Error listing data subject requests', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  dossier,
+  rectify,
+  erase,
+  listRequests,
+};
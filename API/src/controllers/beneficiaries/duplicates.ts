@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize from '../../db/connection';
+import { AuditLog, Beneficiary, BeneficiaryDuplicateCandidate, BeneficiaryMerge } from '../../models';
+import { DUPLICATE_CANDIDATE_STATUSES } from '../../models/BeneficiaryDuplicateCandidate';
+import { createLogger } from '../../utils/logger';
+import { decryptField } from '../../utils/crypto';
+import { scanForDuplicates } from '../../services/beneficiaries/duplicateService';
+import { mergeBeneficiaries, undoBeneficiaryMerge } from '../../services/beneficiaries/mergeService';
+
+const logger = createLogger('beneficiaries-duplicates-controller');
+
+const toReviewBeneficiary = (b: Beneficiary | null) => b && ({
+  id: b.id,
+  pseudonym: b.pseudonym,
+  status: b.status,
+  createdAt: b.get('createdAt'),
+  pii: {
+    firstName: decryptField(b.firstNameEnc),
+    lastName: decryptField(b.lastNameEnc),
+    dob: decryptField(b.dobEnc),
+    nationalId: decryptField(b.nationalIdEnc),
+    phone: decryptField(b.phoneEnc),
+    municipality: decryptField(b.municipalityEnc),
+  },
+});
+
+/**
+ * Review queue of suspected duplicate pairs, highest score first.
+ * Pending pairs involving a merged (archived) beneficiary are left out.
+ */
+const listCandidates = async (req: Request, res: Response) => {
+  const page = req.query.page ? Math.max(parseInt(String(req.query.page), 10) || 1, 1) : 1;
+  const limit = req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20;
+  const status = (req.query.status as string) || 'pending';
+  const minScore = req.query.minScore !== undefined ? Number(req.query.minScore) : undefined;
+
+  if (!(DUPLICATE_CANDIDATE_STATUSES as readonly string[]).includes(status)) {
+    return res.status(400).json({ success: false, message: `status must be one of: ${DUPLICATE_CANDIDATE_STATUSES.join(', ')}` });
+  }
+  if (minScore !== undefined && (Number.isNaN(minScore) || minScore < 0 || minScore > 1)) {
+    return res.status(400).json({ success: false, message: 'minScore must be a number between 0 and 1' });
+  }
+
+  try {
+    const where: any = { status };
+    if (minScore !== undefined) where.score = { [Op.gte]: minScore };
+    const activeOnly = status === 'pending' ? { isArchived: false } : undefined;
+
+    const { rows, count } = await BeneficiaryDuplicateCandidate.findAndCountAll({
+      where,
+      include: [
+        { model: Beneficiary, as: 'beneficiaryA', where: activeOnly, required: true },
+        { model: Beneficiary, as: 'beneficiaryB', where: activeOnly, required: true },
+      ],
+      order: [['score', 'DESC'], ['createdAt', 'ASC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    const items = rows.map(c => ({
+      id: c.id,
+      score: c.score,
+      reasons: c.reasons,
+      status: c.status,
+      reviewedBy: c.reviewedBy ?? null,
+      reviewedAt: c.reviewedAt ?? null,
+      createdAt: c.createdAt,
+      beneficiaries: [
+        toReviewBeneficiary(c.get('beneficiaryA') as Beneficiary),
+        toReviewBeneficiary(c.get('beneficiaryB') as Beneficiary),
+      ],
+    }));
+
+    try {
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'BENEFICIARY_PII_LIST_READ',
+        description: `Read PII for ${items.length * 2} beneficiaries via GET /beneficiaries/duplicates`,
+        details: JSON.stringify({ count: items.length * 2, candidateIds: items.map(i => i.id), page, limit }),
+        timestamp: new Date(),
+      });
+    } catch (_) { /* ignore audit failures */ }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Pragma', 'no-cache');
+    res.setHeader('X-PII-Access', 'decrypt');
+    return res.status(200).json({ success: true, items, page, limit, totalItems: count, totalPages: Math.ceil(count / limit) });
+  } catch (error: any) {
+    logger.error('Error listing duplicate candidates', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Rebuild blocking keys for all beneficiaries and queue new duplicate candidates
+ */
+const scan = async (req: Request, res: Response) => {
+  try {
+    logger.info('Scanning beneficiaries for duplicates', { userId: req.user.id });
+    const result = await scanForDuplicates();
+
+    await AuditLog.create({
+      id: uuidv4(),
+      userId: req.user.id,
+      action: 'BENEFICIARY_DUPLICATE_SCAN',
+      description: `Scanned ${result.processed} beneficiaries for duplicates, found ${result.candidatesCreated} new candidates`,
+      details: JSON.stringify(result),
+      timestamp: new Date(),
+    });
+
+    return res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    logger.error('Error scanning for duplicates', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Mark a pending pair as not a duplicate; it will not be suggested again
+ */
+const dismiss = async (req: Request, res: Response) => {
+  const { candidateId } = req.params;
+  try {
+    const result = await sequelize.transaction(async (transaction) => {
+      const candidate = await BeneficiaryDuplicateCandidate.findByPk(candidateId, { transaction });
+      if (!candidate) return { success: false, status: 404, message: 'Duplicate candidate not found' };
+      if (candidate.status !== 'pending') {
+        return { success: false, status: 409, message: `Only pending candidates can be dismissed (candidate is ${candidate.status})` };
+      }
+
+      await candidate.update({ status: 'dismissed', reviewedBy: req.user.id, reviewedAt: new Date() }, { transaction });
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'BENEFICIARY_DUPLICATE_DISMISS',
+        description: 'Dismissed suspected duplicate beneficiaries',
+        details: JSON.stringify({ candidateId, beneficiaryIds: [candidate.beneficiaryAId, candidate.beneficiaryBId], score: candidate.score }),
+        timestamp: new Date(),
+      }, { transaction });
+      return { success: true, status: 200, data: candidate };
+    });
+
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+    return res.status(200).json({ success: true, data: result.data });
+  } catch (error: any) {
+    logger.error('Error dismissing duplicate candidate', { candidateId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Merge one beneficiary into another. Body: `survivorId`, `mergedId`, optional `candidateId`.
+ */
+const merge = async (req: Request, res: Response) => {
+  const { survivorId, mergedId, candidateId } = req.body || {};
+  if (!survivorId || !mergedId) {
+    return res.status(400).json({ success: false, message: 'survivorId and mergedId are required' });
+  }
+
+  try {
+    logger.info('Merging beneficiaries', { survivorId, mergedId, candidateId, userId: req.user.id });
+    const result = await sequelize.transaction(async (transaction) =>
+      mergeBeneficiaries({ survivorId, mergedId, candidateId, userId: req.user.id }, transaction)
+    );
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+    return res.status(201).json({ success: true, message: 'Beneficiaries merged successfully', data: result.data });
+  } catch (error: any) {
+    logger.error('Error merging beneficiaries', { survivorId, mergedId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Merge history, optionally for one beneficiary (as survivor or merged record)
+ */
+const listMerges = async (req: Request, res: Response) => {
+  const page = req.query.page ? Math.max(parseInt(String(req.query.page), 10) || 1, 1) : 1;
+  const limit = req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20;
+  const beneficiaryId = req.query.beneficiaryId as string | undefined;
+
+  try {
+    const where: any = beneficiaryId ? { [Op.or]: [{ survivorId: beneficiaryId }, { mergedId: beneficiaryId }] } : {};
+    const { rows, count } = await BeneficiaryMerge.findAndCountAll({
+      where,
+      include: [
+        { model: Beneficiary, as: 'survivor', attributes: ['id', 'pseudonym'] },
+        { model: Beneficiary, as: 'merged', attributes: ['id', 'pseudonym'] },
+      ],
+      order: [['mergedAt', 'DESC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+    return res.status(200).json({ success: true, items: rows, page, limit, totalItems: count, totalPages: Math.ceil(count / limit) });
+  } catch (error: any) {
+    logger.error('Error listing beneficiary merges', { beneficiaryId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+const undoMerge = async (req: Request, res: Response) => {
+  const { mergeId } = req.params;
+  try {
+    logger.info('Undoing beneficiary merge', { mergeId, userId: req.user.id });
+    const result = await sequelize.transaction(async (transaction) =>
+      undoBeneficiaryMerge(mergeId, req.user.id, transaction)
+    );
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+    return res.status(200).json({ success: true, message: 'Merge undone successfully', data: result.data });
+  } catch (error: any) {
+    logger.error('Error undoing beneficiary merge', { mergeId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  listCandidates,
+  scan,
+  dismiss,
+  merge,
+  listMerges,
+  undoMerge,
+};
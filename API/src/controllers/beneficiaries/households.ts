@@ -0,0 +1,194 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize from '../../db/connection';
+import { AuditLog, Household, HouseholdMember } from '../../models';
+import { createLogger } from '../../utils/logger';
+import {
+  HouseholdResult,
+  addHouseholdMember,
+  createHousehold,
+  loadHouseholdMembers,
+  recordHouseholdDelivery,
+  removeHouseholdMember,
+  toHouseholdView,
+  updateHousehold,
+  updateHouseholdMember,
+} from '../../services/beneficiaries/householdService';
+
+const logger = createLogger('beneficiaries-households-controller');
+
+const sendResult = (res: Response, result: HouseholdResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message, ...(result.data ? { data: result.data } : {}) });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+/**
+ * List households (no PII). `beneficiaryId` returns the household of one beneficiary.
+ */
+const list = async (req: Request, res: Response) => {
+  const page = req.query.page ? Math.max(parseInt(String(req.query.page), 10) || 1, 1) : 1;
+  const limit = req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20;
+  const status = req.query.status as 'active' | 'inactive' | undefined;
+  const beneficiaryId = req.query.beneficiaryId as string | undefined;
+
+  try {
+    const where: any = {};
+    if (status) where.status = status;
+    if (beneficiaryId) {
+      const membership = await HouseholdMember.findOne({ where: { beneficiaryId } });
+      where.id = membership ? membership.householdId : null;
+    }
+
+    const { rows, count } = await Household.findAndCountAll({
+      where,
+      order: [['createdAt', 'DESC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+    const items = await Promise.all(rows.map(async h => toHouseholdView(h, await loadHouseholdMembers(h.id))));
+    return res.status(200).json({ success: true, items, page, limit, totalItems: count, totalPages: Math.ceil(count / limit) });
+  } catch (error: any) {
+    logger.error('Error listing households', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Household with members and the decrypted shared address
+ */
+const getById = async (req: Request, res: Response) => {
+  const { householdId } = req.params;
+  try {
+    const household = await Household.findByPk(householdId);
+    if (!household) return res.status(404).json({ success: false, message: 'Household not found' });
+
+    const data = toHouseholdView(household, await loadHouseholdMembers(household.id), true);
+    try {
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'HOUSEHOLD_PII_READ',
+        description: `Read address of household '${household.code}'`,
+        details: JSON.stringify({ householdId: household.id }),
+        timestamp: new Date(),
+      });
+    } catch (_) { /* ignore audit failures */ }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Pragma', 'no-cache');
+    res.setHeader('X-PII-Access', 'decrypt');
+    return res.status(200).json({ success: true, data });
+  } catch (error: any) {
+    logger.error('Error fetching household', { householdId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Body: optional `headBeneficiaryId`, `members` [{ beneficiaryId, relationship }], `address`, `municipality`
+ */
+const create = async (req: Request, res: Response) => {
+  const { headBeneficiaryId, members, address, municipality } = req.body || {};
+  if (members !== undefined && !Array.isArray(members)) {
+    return res.status(400).json({ success: false, message: 'members must be an array' });
+  }
+  if (Array.isArray(members) && members.some((m: any) => !m || !m.beneficiaryId)) {
+    return res.status(400).json({ success: false, message: 'Each member requires a beneficiaryId' });
+  }
+
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      createHousehold({ headBeneficiaryId, members, address, municipality }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error creating household', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+const update = async (req: Request, res: Response) => {
+  const { householdId } = req.params;
+  const { address, municipality, status } = req.body || {};
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      updateHousehold(householdId, { address, municipality, status }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error updating household', { householdId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+const addMember = async (req: Request, res: Response) => {
+  const { householdId } = req.params;
+  const { beneficiaryId, relationship } = req.body || {};
+  if (!beneficiaryId) return res.status(400).json({ success: false, message: 'beneficiaryId is required' });
+
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      addHouseholdMember(householdId, { beneficiaryId, relationship }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error adding household member', { householdId, beneficiaryId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+const updateMember = async (req: Request, res: Response) => {
+  const { householdId, beneficiaryId } = req.params;
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      updateHouseholdMember(householdId, beneficiaryId, req.body?.relationship, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error updating household member', { householdId, beneficiaryId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+const removeMember = async (req: Request, res: Response) => {
+  const { householdId, beneficiaryId } = req.params;
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      removeHouseholdMember(householdId, beneficiaryId, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error removing household member', { householdId, beneficiaryId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Record a household-level service delivery. Body: `serviceId`, `entityId`, `entityType`, optional `deliveredAt`, `staffUserId`, `notes`.
+ */
+const recordDelivery = async (req: Request, res: Response) => {
+  const { householdId } = req.params;
+  const { serviceId, entityId, entityType, deliveredAt, staffUserId, notes } = req.body || {};
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      recordHouseholdDelivery(householdId, { serviceId, entityId, entityType, deliveredAt, staffUserId, notes }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error recording household service delivery', { householdId, serviceId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  list,
+  getById,
+  create,
+  update,
+  addMember,
+  updateMember,
+  removeMember,
+  recordDelivery,
+};
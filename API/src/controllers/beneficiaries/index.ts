@@ -1,12 +1,19 @@
 import { Request, Response } from 'express';
 import sequelize from '../../db/connection';
-import { Op } from 'sequelize';
+import { Op, literal } from 'sequelize';
 import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from '../../utils/logger';
 import { AuditLog, Beneficiary, ServiceDelivery, Service, User, Project, Subproject, Activity, FormResponse, BeneficiaryDetails, BeneficiaryAssignment } from '../../models';
 import beneficiariesService from '../../services/beneficiaries/beneficiariesService';
+import searchIndexService from '../../services/beneficiaries/searchIndexService';
+import { hasConsent, redactItemsWithoutConsent } from '../../services/beneficiaries/consentService';
+import { isLifecycleStatus, recordInitialStatus } from '../../services/beneficiaries/lifecycleService';
+import { findCodes, isConditionCategory, normalizeCode } from '../../services/beneficiaries/conditionCatalogService';
+import { beneficiaryIdsWithConditionSql, recordConditionCodes, syncDetailsCodes } from '../../services/beneficiaries/healthProfileService';
+import { CHRONIC_CONDITIONS } from '../../constants/chronicConditions';
 import { decryptField } from '../../utils/crypto';
 import { ROLES } from '../../constants/roles';
+import { ASSIGNMENT_LIFECYCLE_STATUSES, AssignmentLifecycleStatus } from '../../constants/lifecycle';
 
 const logger = createLogger('beneficiaries-controller');
 
@@ -14,7 +21,6 @@ const list = async (req: Request, res: Response) => {
   try {
     const page = req.query.page ? Math.max(parseInt(String(req.query.page), 10) || 1, 1) : 1;
     const limit = req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20;
-    const offset = (page - 1) * limit;
     const status = req.query.status as 'active' | 'inactive' | undefined;
     const searchParam = req.query.search;
     const chronicConditionCodes = req.query.chronicConditionCodes
@@ -71,50 +77,20 @@ const list = async (req: Request, res: Response) => {
       return { mapped: base, pii };
     };
 
-    let items: any[];
-    let totalItems: number;
-    let totalPages: number;
-
-    if (hasSearch || chronicConditionCodes) {
-      // When searching or filtering by chronic conditions, fetch ALL records, decrypt, filter in memory, then paginate
-      const allResult = await beneficiariesService.listBeneficiaries({ page: 1, limit: 100000, status, includeEnc: true });
-      const searchLower = searchParam ? (searchParam as string).trim().toLowerCase() : '';
-
-      const filtered = allResult.items
-        .map((it: any) => {
-          const { mapped, pii } = mapBeneficiary(it);
-          // Load beneficiary details for chronic condition filtering
-          return { mapped, pii, details: it.details?.details || null };
-        })
-        .filter(({ mapped, pii, details }) => {
-          // Search filter
-          if (hasSearch) {
-            if (mapped.pseudonym && mapped.pseudonym.toLowerCase().includes(searchLower)) return true;
-            const piiValues = Object.values(pii) as (string | null)[];
-            if (piiValues.some((val) => val && val.toLowerCase().includes(searchLower))) return true;
-          }
-          // Chronic condition filter (by ICD-10 code)
-          if (chronicConditionCodes && chronicConditionCodes.length > 0) {
-            const beneficiaryConditionCodes = details?.chronicConditionCodes || [];
-            if (!Array.isArray(beneficiaryConditionCodes)) return false;
-            const hasMatchingCode = chronicConditionCodes.some((code: string) =>
-              beneficiaryConditionCodes.includes(code.toUpperCase())
-            );
-            if (!hasMatchingCode) return false;
-          }
-          return hasSearch || true;
-        });
-
-      totalItems = filtered.length;
-      totalPages = Math.ceil(totalItems / limit);
-      items = filtered.slice(offset, offset + limit).map(({ mapped }) => mapped);
-    } else {
-      // No search or chronic condition filter — use efficient DB-level pagination
-      const result = await beneficiariesService.listBeneficiaries({ page, limit, status, includeEnc: true, includeDetails: false });
-      items = result.items.map((it: any) => mapBeneficiary(it).mapped);
-      totalItems = result.totalItems;
-      totalPages = result.totalPages;
-    }
+    // Search (blind index) and chronic condition filters run in SQL, so pagination stays in the database
+    const result = await beneficiariesService.listBeneficiaries({
+      page,
+      limit,
+      status,
+      includeEnc: true,
+      includeDetails: false,
+      search: hasSearch ? (searchParam as string) : undefined,
+      chronicConditionCodes,
+    });
+    const items = result.items.map((it: any) => mapBeneficiary(it).mapped);
+    const { totalItems, totalPages } = result;
+    // No PII for beneficiaries who did not consent to data collection
+    const redacted = await redactItemsWithoutConsent(items, 'data_collection');
 
     if (canDecrypt) {
       // Audit bulk PII read (list)
@@ -123,8 +99,8 @@ const list = async (req: Request, res: Response) => {
           id: uuidv4(),
           userId: req.user.id,
           action: 'BENEFICIARY_PII_LIST_READ',
-          description: `Read PII for ${items.length} beneficiaries via GET /beneficiaries`,
-          details: JSON.stringify({ count: items.length, page, limit, searched: !!hasSearch }),
+          description: `Read PII for ${items.length - redacted} beneficiaries via GET /beneficiaries`,
+          details: JSON.stringify({ count: items.length - redacted, redacted, page, limit, searched: !!hasSearch }),
           timestamp: new Date(),
         });
       } catch (_) { /* ignore audit failures */ }
@@ -169,6 +145,11 @@ const getById = async (req: Request, res: Response) => {
       const canDecrypt = true;
       logger.info('Beneficiaries.getById role evaluation', { id, canDecrypt });
 
+      // Without consent to data collection the record is returned without PII
+      if (!(await hasConsent(b.id, 'data_collection', transaction))) {
+        return { data: { ...base, consentRequired: 'data_collection' }, cacheControl: 'redacted' };
+      }
+
       if (canDecrypt) {
         const piiEnc = {
           firstNameEnc: b.get('firstNameEnc'),
@@ -243,6 +224,9 @@ const getById = async (req: Request, res: Response) => {
     if (!result.cacheControl) {
       res.setHeader('X-PII-Access', 'encrypted');
     }
+    if (result.cacheControl === 'redacted') {
+      res.setHeader('X-PII-Access', 'redacted');
+    }
 
     return res.status(200).json({ success: true, data: result.data });
   } catch (error: any) {
@@ -258,6 +242,7 @@ const getPIIById = async (req: Request, res: Response) => {
     const result = await sequelize.transaction(async (transaction) => {
       const b = await Beneficiary.findByPk(id, { transaction });
       if (!b) return null;
+      if (!(await hasConsent(b.id, 'data_collection', transaction))) return { consentRequired: 'data_collection' as const };
 
       const pii = {
         firstName: decryptField(b.get('firstNameEnc') as any),
@@ -288,6 +273,14 @@ const getPIIById = async (req: Request, res: Response) => {
     });
 
     if (!result) return res.status(404).json({ success: false, message: 'Beneficiary not found' });
+    if ('consentRequired' in result) {
+      return res.status(403).json({
+        success: false,
+        code: 'CONSENT_REQUIRED',
+        message: 'The beneficiary has not consented to data collection',
+        purpose: result.consentRequired,
+      });
+    }
 
     res.setHeader('Cache-Control', 'no-store');
     res.setHeader('Pragma', 'no-cache');
@@ -317,29 +310,44 @@ const create = async (req: Request, res: Response) => {
   } as any;
   const details = (req.body && typeof req.body.details === 'object') ? req.body.details : null;
 
+  // Conditions come as chronicConditionCodes (ICD-10 codes) or legacy chronicConditions (constant keys);
+  // they become condition records and must be active codes of the catalog
+  let conditionCodes: string[] = [];
+  if (details && Array.isArray(details.chronicConditions)) {
+    conditionCodes = details.chronicConditions
+      .map((id: string) => (CHRONIC_CONDITIONS as any)[id]?.code)
+      .filter((code: string) => code !== undefined);
+  } else if (details && Array.isArray(details.chronicConditionCodes)) {
+    conditionCodes = details.chronicConditionCodes.map(normalizeCode).filter(Boolean);
+  }
+
   try {
+    if (conditionCodes.length) {
+      const entries = await findCodes(conditionCodes);
+      const unknown = Array.from(new Set(conditionCodes)).filter(code => !entries.get(code)?.isActive);
+      if (unknown.length) {
+        return res.status(400).json({ success: false, message: `Unknown or inactive ICD-10 codes: ${unknown.join(', ')}` });
+      }
+    }
+
     const created = await sequelize.transaction(async (transaction) => {
       const safe = await beneficiariesService.createBeneficiary(input, { transaction, userId: req.user.id });
 
       // If details provided, upsert BeneficiaryDetails linked to this beneficiary
-      // Convert chronicConditions (IDs) to chronicConditionCodes (ICD-10 codes) if needed
       if (details) {
         const processedDetails = { ...details };
-        // If chronicConditions array is provided, convert to chronicConditionCodes
-        if (details.chronicConditions && Array.isArray(details.chronicConditions)) {
-          const { CHRONIC_CONDITIONS } = await import('../../constants/chronicConditions');
-          const codes = details.chronicConditions
-            .map((id: string) => (CHRONIC_CONDITIONS as any)[id]?.code)
-            .filter((code: string) => code !== undefined);
-          processedDetails.chronicConditionCodes = codes;
-          delete processedDetails.chronicConditions;
-        }
+        delete processedDetails.chronicConditions;
+        delete processedDetails.chronicConditionCodes;
         await BeneficiaryDetails.upsert({
           id: uuidv4(),
           beneficiaryId: safe.id,
           details: processedDetails,
         }, { transaction });
       }
+      if (conditionCodes.length) {
+        await recordConditionCodes(safe.id, conditionCodes, req.user.id, transaction);
+        await syncDetailsCodes(safe.id, transaction);
+      }
 
       await AuditLog.create({
         id: uuidv4(),
@@ -390,6 +398,9 @@ const update = async (req: Request, res: Response) => {
   } as any;
 
   try {
+    const erased = await Beneficiary.findOne({ where: { id, erasedAt: { [Op.ne]: null } }, attributes: ['id'] });
+    if (erased) return res.status(409).json({ success: false, message: 'Beneficiary data has been erased' });
+
     const updated = await sequelize.transaction(async (transaction) => {
       const safe = await beneficiariesService.updateBeneficiary(id, input, { transaction, userId: req.user.id });
       if (!safe) return null;
@@ -747,12 +758,23 @@ const entitiesForBeneficiary = async (req: Request, res: Response) => {
 };
 
 const demographics = async (req: Request, res: Response) => {
+  const { conditionCategory, conditionCode } = req.query as { conditionCategory?: string; conditionCode?: string };
+  if (conditionCategory && !isConditionCategory(conditionCategory)) {
+    return res.status(400).json({ success: false, message: 'Unknown conditionCategory' });
+  }
   try {
     // Policy: All authenticated users with authorized access can decrypt PII
     // Authorization is enforced at the route level via authorize() middleware
     const canDecrypt = true;
 
+    // Optionally only beneficiaries with a current condition of a category and/or code
+    const where: any = { isArchived: false };
+    if (conditionCategory || conditionCode) {
+      where[Op.and] = [literal(`"id" IN (${beneficiaryIdsWithConditionSql({ category: conditionCategory, code: conditionCode })})`)];
+    }
+
     const beneficiaries = await Beneficiary.findAll({
+      where,
       attributes: ['dobEnc', 'genderEnc'],
       order: [['createdAt', 'DESC']],
     });
@@ -795,7 +817,7 @@ const demographics = async (req: Request, res: Response) => {
         userId: req.user.id,
         action: 'BENEFICIARY_PII_AGGREGATE',
         description: 'Computed beneficiary demographics',
-        details: JSON.stringify({ total: beneficiaries.length }),
+        details: JSON.stringify({ total: beneficiaries.length, conditionCategory: conditionCategory ?? null, conditionCode: conditionCode ?? null }),
         timestamp: new Date(),
       });
     } catch (_) { /* ignore */ }
@@ -939,14 +961,14 @@ const associateWithEntity = async (req: Request, res: Response) => {
   const { id } = req.params; // beneficiaryId
   // Accept either an array at root, or { associations: [...] }, or a single object
   const raw = Array.isArray(req.body) ? req.body : (Array.isArray(req.body?.associations) ? req.body.associations : [req.body]);
-  const associations: Array<{ entityId: string; entityType: 'project' | 'subproject' }> = (raw || []).filter(Boolean);
+  const associations: Array<{ entityId: string; entityType: 'project' | 'subproject'; status?: string; effectiveAt?: string }> = (raw || []).filter(Boolean);
 
   if (!associations.length) {
     return res.status(400).json({ success: false, message: "Request body must be an array of {entityId, entityType} (or provide 'associations' array)" });
   }
 
   // Basic validation and deduplication
-  const normalized: Array<{ entityId: string; entityType: 'project' | 'subproject' }> = [];
+  const normalized: Array<{ entityId: string; entityType: 'project' | 'subproject'; status?: AssignmentLifecycleStatus; effectiveAt?: string }> = [];
   const seen = new Set<string>();
   for (const a of associations) {
     const eId = String(a?.entityId || '').trim();
@@ -954,10 +976,17 @@ const associateWithEntity = async (req: Request, res: Response) => {
     if (!eId || !['project', 'subproject'].includes(eType)) {
       return res.status(400).json({ success: false, message: "Each association requires 'entityId' and valid 'entityType' ('project'|'subproject')" });
     }
+    // Optional initial lifecycle status; exits and deaths are recorded as status changes
+    if (a.status !== undefined && (!isLifecycleStatus(a.status) || ['exited', 'deceased'].includes(a.status))) {
+      return res.status(400).json({ success: false, message: "Initial 'status' must be one of: referred, enrolled, suspended, graduated" });
+    }
+    if (a.effectiveAt !== undefined && (Number.isNaN(new Date(a.effectiveAt).getTime()) || new Date(a.effectiveAt).getTime() > Date.now())) {
+      return res.status(400).json({ success: false, message: "'effectiveAt' must be a valid date that is not in the future" });
+    }
     const key = `${eType}:${eId}`;
     if (!seen.has(key)) {
       seen.add(key);
-      normalized.push({ entityId: eId, entityType: eType });
+      normalized.push({ entityId: eId, entityType: eType, status: a.status as AssignmentLifecycleStatus | undefined, effectiveAt: a.effectiveAt });
     }
   }
 
@@ -971,7 +1000,7 @@ const associateWithEntity = async (req: Request, res: Response) => {
     const results: Array<{ entityId: string; entityType: 'project' | 'subproject'; created: boolean; id?: string }> = [];
 
     // Process each association
-    for (const { entityId, entityType } of normalized) {
+    for (const { entityId, entityType, status, effectiveAt } of normalized) {
       // Validate entity and RBAC per-entity
       let projectIdForAuth: string | null = null;
       if (entityType === 'project') {
@@ -1000,6 +1029,9 @@ const associateWithEntity = async (req: Request, res: Response) => {
         where: { beneficiaryId: id, entityId, entityType },
         defaults: { id: undefined as unknown as string, beneficiaryId: id, entityId, entityType },
       });
+      if (created && (status || effectiveAt)) {
+        await recordInitialStatus(row, { status: status || 'enrolled', effectiveAt }, req.user.id);
+      }
       results.push({ entityId, entityType, created, id: String(row.get('id')) });
     }
 
@@ -1079,6 +1111,12 @@ const listByEntity = async (req: Request, res: Response) => {
   if (!entityId || !['project', 'subproject'].includes(entityType)) {
     return res.status(400).json({ success: false, message: "Query params 'entityId' and valid 'entityType' ('project'|'subproject') are required" });
   }
+  const lifecycleStatuses = req.query.lifecycleStatus
+    ? String(req.query.lifecycleStatus).split(',').map(v => v.trim()).filter(Boolean)
+    : [];
+  if (lifecycleStatuses.some(v => !isLifecycleStatus(v))) {
+    return res.status(400).json({ success: false, message: `lifecycleStatus must be one of: ${ASSIGNMENT_LIFECYCLE_STATUSES.join(', ')}` });
+  }
 
   try {
     // RBAC project-level check and gather scope
@@ -1107,16 +1145,17 @@ const listByEntity = async (req: Request, res: Response) => {
     const offset = (page - 1) * limit;
 
     // Gather assignments for the scope
+    const lifecycleWhere = lifecycleStatuses.length ? { lifecycleStatus: lifecycleStatuses } : {};
     let assignments: any[] = [];
     if (entityType === 'project') {
       const projectAssignments = await BeneficiaryAssignment.findAll({
-        where: { entityType: 'project', entityId },
+        where: { entityType: 'project', entityId, ...lifecycleWhere },
         attributes: ['beneficiaryId', 'createdAt'],
         order: [['createdAt', 'DESC']],
       });
       const subAssignments = subprojectIds.length
         ? await BeneficiaryAssignment.findAll({
-            where: { entityType: 'subproject', entityId: subprojectIds },
+            where: { entityType: 'subproject', entityId: subprojectIds, ...lifecycleWhere },
             attributes: ['beneficiaryId', 'createdAt'],
             order: [['createdAt', 'DESC']],
           })
@@ -1124,7 +1163,7 @@ const listByEntity = async (req: Request, res: Response) => {
       assignments = [...projectAssignments, ...subAssignments];
     } else {
       assignments = await BeneficiaryAssignment.findAll({
-        where: { entityType: 'subproject', entityId },
+        where: { entityType: 'subproject', entityId, ...lifecycleWhere },
         attributes: ['beneficiaryId', 'createdAt'],
         order: [['createdAt', 'DESC']],
       });
@@ -1149,13 +1188,22 @@ const listByEntity = async (req: Request, res: Response) => {
       uniqueIds = uniqueIds.filter(id2 => allowedIdSet.has(id2));
     }
 
+    // Optional search: matched against the blind index in SQL, like the status filter
+    const searchParam = req.query.search;
+    const hasSearch = searchParam && typeof searchParam === 'string' && searchParam.trim();
+    if (hasSearch && uniqueIds.length) {
+      const matches = await Beneficiary.findAll({
+        where: { [Op.and]: [{ id: uniqueIds }, searchIndexService.buildSearchCondition(searchParam as string)] },
+        attributes: ['id'],
+      });
+      const matchedIdSet = new Set(matches.map(m => String(m.id)));
+      uniqueIds = uniqueIds.filter(id2 => matchedIdSet.has(id2));
+    }
+
     // Policy: All authenticated users with authorized access can decrypt PII
     // Authorization is enforced at the route level via authorize() middleware
     const canDecrypt = true;
 
-    const searchParam = req.query.search;
-    const hasSearch = searchParam && typeof searchParam === 'string' && searchParam.trim();
-
     // Helper to map a raw beneficiary to response shape
     const mapBeneficiary = (b: any) => {
       const pii = {
@@ -1199,45 +1247,17 @@ const listByEntity = async (req: Request, res: Response) => {
       return { mapped: base, pii };
     };
 
-    let items: any[];
-    let totalItems: number;
-    let totalPages: number;
-
-    if (hasSearch) {
-      // When searching, load ALL beneficiaries, decrypt, filter in memory, then paginate
-      const allBeneficiaries = uniqueIds.length
-        ? await Beneficiary.findAll({ where: { id: uniqueIds } })
-        : [];
-
-      // Preserve order from uniqueIds
-      const byId = new Map(allBeneficiaries.map((b: any) => [String(b.id), b]));
-      const ordered = uniqueIds.map(id2 => byId.get(id2)).filter(Boolean);
-
-      const searchLower = (searchParam as string).trim().toLowerCase();
-      const filtered = ordered
-        .map((b: any) => mapBeneficiary(b))
-        .filter(({ mapped, pii }) => {
-          if (mapped.pseudonym && mapped.pseudonym.toLowerCase().includes(searchLower)) return true;
-          const piiValues = Object.values(pii) as (string | null)[];
-          return piiValues.some((val) => val && val.toLowerCase().includes(searchLower));
-        });
-
-      totalItems = filtered.length;
-      totalPages = Math.ceil(totalItems / limit);
-      items = filtered.slice(offset, offset + limit).map(({ mapped }) => mapped);
-    } else {
-      // No search — use efficient slice-based pagination
-      totalItems = uniqueIds.length;
-      totalPages = Math.ceil(totalItems / limit);
-      const pageIds = uniqueIds.slice(offset, offset + limit);
+    const totalItems = uniqueIds.length;
+    const totalPages = Math.ceil(totalItems / limit);
+    const pageIds = uniqueIds.slice(offset, offset + limit);
 
-      const beneficiaries = pageIds.length
-        ? await Beneficiary.findAll({ where: { id: pageIds } })
-        : [];
+    const beneficiaries = pageIds.length
+      ? await Beneficiary.findAll({ where: { id: pageIds } })
+      : [];
 
-      const byId = new Map(beneficiaries.map((b: any) => [String(b.id), b]));
-      items = pageIds.map(id2 => byId.get(id2)).filter(Boolean).map((b: any) => mapBeneficiary(b).mapped);
-    }
+    const byId = new Map(beneficiaries.map((b: any) => [String(b.id), b]));
+    const items = pageIds.map(id2 => byId.get(id2)).filter(Boolean).map((b: any) => mapBeneficiary(b).mapped);
+    const redacted = await redactItemsWithoutConsent(items, 'data_collection');
 
     if (canDecrypt) {
       // Audit PII list read
@@ -1246,8 +1266,8 @@ const listByEntity = async (req: Request, res: Response) => {
           id: uuidv4(),
           userId: req.user.id,
           action: 'BENEFICIARY_PII_LIST_READ_BY_ENTITY',
-          description: `Read PII for ${items.length} beneficiaries via GET /beneficiaries/by-entity`,
-          details: JSON.stringify({ count: items.length, entityId, entityType, page, limit, searched: !!hasSearch }),
+          description: `Read PII for ${items.length - redacted} beneficiaries via GET /beneficiaries/by-entity`,
+          details: JSON.stringify({ count: items.length - redacted, redacted, entityId, entityType, page, limit, searched: !!hasSearch }),
           timestamp: new Date(),
         });
       } catch (_) { /* ignore */ }
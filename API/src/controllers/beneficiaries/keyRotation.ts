@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { KeyRotationJob } from '../../models';
+import { createLogger } from '../../utils/logger';
+import { getKeyringIds, getActiveKeyIds } from '../../utils/crypto';
+import {
+  getKeyRotationProgress,
+  startKeyRotation,
+  pauseKeyRotation,
+  resumeKeyRotation,
+  KeyRotationResult,
+} from '../../services/beneficiaries/keyRotationService';
+
+const logger = createLogger('beneficiaries-key-rotation-controller');
+
+const sendResult = (res: Response, result: KeyRotationResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message, data: result.data });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+/**
+ * Start re-encrypting all beneficiaries with the active keys
+ */
+const start = async (req: Request, res: Response) => {
+  try {
+    logger.info('Starting key rotation', { userId: req.user.id });
+    return sendResult(res, await startKeyRotation(req.user.id));
+  } catch (error: any) {
+    logger.error('Error starting key rotation', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * List key rotation jobs (newest first) with the configured key ids
+ */
+const list = async (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20;
+    const jobs = await KeyRotationJob.findAll({ order: [['createdAt', 'DESC']], limit });
+    return res.status(200).json({
+      success: true,
+      data: {
+        activeKeys: getActiveKeyIds(),
+        keyring: getKeyringIds(),
+        jobs: jobs.map(getKeyRotationProgress),
+      },
+    });
+  } catch (error: any) {
+    logger.error('Error listing key rotation jobs', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Progress of one key rotation job
+ */
+const getById = async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  try {
+    const job = await KeyRotationJob.findByPk(jobId);
+    if (!job) return res.status(404).json({ success: false, message: 'Key rotation job not found' });
+    return res.status(200).json({ success: true, data: getKeyRotationProgress(job) });
+  } catch (error: any) {
+    logger.error('Error getting key rotation job', { jobId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+const pause = async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  try {
+    logger.info('Pausing key rotation', { jobId, userId: req.user.id });
+    return sendResult(res, await pauseKeyRotation(jobId, req.user.id));
+  } catch (error: any) {
+    logger.error('Error pausing key rotation', { jobId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+const resume = async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  try {
+    logger.info('Resuming key rotation', { jobId, userId: req.user.id });
+    return sendResult(res, await resumeKeyRotation(jobId, req.user.id));
+  } catch (error: any) {
+    logger.error('Error resuming key rotation', { jobId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  start,
+  list,
+  getById,
+  pause,
+  resume,
+};
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import sequelize from '../../db/connection';
+import { Beneficiary, BeneficiaryAssignment, Subproject } from '../../models';
+import { createLogger } from '../../utils/logger';
+import {
+  LifecycleResult,
+  changeAssignmentStatus,
+  listAssignmentLifecycles,
+} from '../../services/beneficiaries/lifecycleService';
+
+const logger = createLogger('beneficiaries-lifecycle-controller');
+
+const sendResult = (res: Response, result: LifecycleResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+const projectIdOf = async (assignment: BeneficiaryAssignment): Promise<string | null> => {
+  if (assignment.entityType === 'project') return String(assignment.entityId);
+  const sub = await Subproject.findByPk(assignment.entityId, { attributes: ['id', 'projectId'] });
+  return sub ? String(sub.projectId) : null;
+};
+
+/**
+ * Program assignments of a beneficiary with lifecycle status and history
+ */
+const list = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const beneficiary = await Beneficiary.findByPk(id, { attributes: ['id'] });
+    if (!beneficiary) return res.status(404).json({ success: false, message: 'Beneficiary not found' });
+
+    const assignments = await listAssignmentLifecycles(id);
+    return res.status(200).json({ success: true, data: assignments });
+  } catch (error: any) {
+    logger.error('Error listing beneficiary assignments', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Change the lifecycle status in one program. Body: `status`, optional `effectiveAt`,
+ * `exitReason` (required when exiting), `note`.
+ */
+const changeStatus = async (req: Request, res: Response) => {
+  const { id, assignmentId } = req.params;
+  const { status, effectiveAt, exitReason, note } = req.body || {};
+  try {
+    const assignment = await BeneficiaryAssignment.findOne({ where: { id: assignmentId, beneficiaryId: id } });
+    if (!assignment) return res.status(404).json({ success: false, message: 'Assignment not found' });
+
+    const allowed = (req.user && Array.isArray(req.user.allowedProgramIds)) ? new Set<string>((req.user.allowedProgramIds as any).map(String)) : null;
+    const projectId = await projectIdOf(assignment);
+    if (allowed && projectId && !allowed.has(projectId)) {
+      return res.status(403).json({ success: false, message: 'Forbidden: not allowed for this entity\'s project' });
+    }
+
+    const result = await sequelize.transaction(async (transaction) =>
+      changeAssignmentStatus(id, assignmentId, { status, effectiveAt, exitReason, note }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error changing beneficiary lifecycle status', { id, assignmentId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  list,
+  changeStatus,
+};
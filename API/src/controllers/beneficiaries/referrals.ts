@@ -0,0 +1,148 @@
+import { Request, Response } from 'express';
+import sequelize from '../../db/connection';
+import { Beneficiary, BeneficiaryReferral } from '../../models';
+import { createLogger } from '../../utils/logger';
+import { REFERRAL_STATUSES, ReferralStatus } from '../../constants/referrals';
+import {
+  ReferralParty,
+  ReferralResult,
+  changeReferralStatus,
+  createReferral,
+  fromParty,
+  listReferrals,
+  projectIdsOfParties,
+  toParty,
+} from '../../services/beneficiaries/referralService';
+
+const logger = createLogger('beneficiaries-referrals-controller');
+
+const ENTITY_TYPES = ['project', 'subproject', 'activity'];
+
+const sendResult = (res: Response, result: ReferralResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+const allowedProgramsOf = (req: Request) =>
+  (req.user && Array.isArray(req.user.allowedProgramIds)) ? new Set<string>((req.user.allowedProgramIds as any).map(String)) : null;
+
+/**
+ * Users restricted to some programs may act on a referral when one of its program sides belongs to them
+ */
+const canActOn = async (req: Request, parties: ReferralParty[]) => {
+  const allowed = allowedProgramsOf(req);
+  if (!allowed) return true;
+  const projects = await projectIdsOfParties(parties);
+  return parties.some(p => {
+    const projectId = projects.get(`${p.type}:${p.entityId}`);
+    return !!projectId && allowed.has(projectId);
+  });
+};
+
+const paging = (req: Request) => ({
+  page: req.query.page ? Math.max(parseInt(String(req.query.page), 10) || 1, 1) : 1,
+  limit: req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20,
+});
+
+/**
+ * Referrals. `GET /beneficiaries/:id/referrals` lists one beneficiary's referrals; `GET /beneficiaries/referrals`
+ * lists referrals across beneficiaries. Query: `status`, `entityId` + `entityType` and/or `organization`,
+ * `direction` (incoming|outgoing, default both), `page`, `limit`.
+ */
+const list = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { status, entityId, entityType, organization, direction } = req.query as Record<string, string | undefined>;
+  if (status && !(REFERRAL_STATUSES as readonly string[]).includes(status)) {
+    return res.status(400).json({ success: false, message: `status must be one of: ${REFERRAL_STATUSES.join(', ')}` });
+  }
+  if (entityId && !ENTITY_TYPES.includes(String(entityType))) {
+    return res.status(400).json({ success: false, message: "entityType must be 'project', 'subproject' or 'activity'" });
+  }
+  if (direction && direction !== 'incoming' && direction !== 'outgoing') {
+    return res.status(400).json({ success: false, message: "direction must be 'incoming' or 'outgoing'" });
+  }
+  const { page, limit } = paging(req);
+
+  try {
+    if (id) {
+      const beneficiary = await Beneficiary.findByPk(id, { attributes: ['id'] });
+      if (!beneficiary) return res.status(404).json({ success: false, message: 'Beneficiary not found' });
+    } else if (allowedProgramsOf(req)) {
+      // Across beneficiaries, restricted users only see referrals of an entity in their programs
+      if (!entityId || !(await canActOn(req, [{ type: entityType as any, entityId, organization: null }]))) {
+        return res.status(403).json({ success: false, message: 'Forbidden: filter by an entity of your programs' });
+      }
+    }
+
+    const { items, totalItems } = await listReferrals({
+      beneficiaryId: id,
+      status: status as ReferralStatus | undefined,
+      entityId,
+      entityType: entityType as any,
+      organization,
+      direction: direction as any,
+    }, page, limit);
+    return res.status(200).json({ success: true, items, page, limit, totalItems, totalPages: Math.ceil(totalItems / limit) });
+  } catch (error: any) {
+    logger.error('Error listing referrals', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Refer a beneficiary. Body: `from` and `to` ({ type: project|subproject|activity, entityId } or
+ * { type: organization, organization }), optional `serviceIds` (services requested), `notes`, `sentAt`.
+ */
+const create = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { from, to, serviceIds, notes, sentAt } = req.body || {};
+  try {
+    const parties = [from, to]
+      .filter(p => p && p.type !== 'organization' && p.entityId)
+      .map(p => ({ type: p.type, entityId: String(p.entityId), organization: null }));
+    if (parties.length && !(await canActOn(req, parties))) {
+      return res.status(403).json({ success: false, message: 'Forbidden: not allowed for this entity\'s project' });
+    }
+
+    const result = await sequelize.transaction(async (transaction) =>
+      createReferral(id, { from, to, serviceIds, notes, sentAt }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error creating referral', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Accept, decline or complete a referral. Body: `status`, optional `at`, `declineReason` (declined),
+ * `serviceDeliveryId` (completed: the delivery that closed the loop).
+ */
+const changeStatus = async (req: Request, res: Response) => {
+  const { id, referralId } = req.params;
+  const { status, at, declineReason, serviceDeliveryId } = req.body || {};
+  try {
+    const referral = await BeneficiaryReferral.findOne({ where: { id: referralId, beneficiaryId: id } });
+    if (!referral) return res.status(404).json({ success: false, message: 'Referral not found' });
+    const parties = [fromParty(referral), toParty(referral)].filter(p => p.type !== 'organization');
+    if (!(await canActOn(req, parties))) {
+      return res.status(403).json({ success: false, message: 'Forbidden: not allowed for this entity\'s project' });
+    }
+
+    const result = await sequelize.transaction(async (transaction) =>
+      changeReferralStatus(id, referralId, { status, at, declineReason, serviceDeliveryId }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error changing referral status', { id, referralId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  list,
+  create,
+  changeStatus,
+};
@@ -0,0 +1,35 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditLog } from '../../models';
+import { createLogger } from '../../utils/logger';
+import { rebuildSearchIndex } from '../../services/beneficiaries/searchIndexService';
+
+const logger = createLogger('beneficiaries-search-index-controller');
+
+/**
+ * Rebuild the blind search index for all beneficiaries (backfill of existing records)
+ */
+const rebuild = async (req: Request, res: Response) => {
+  try {
+    logger.info('Rebuilding beneficiary search index', { userId: req.user.id });
+    const result = await rebuildSearchIndex();
+
+    await AuditLog.create({
+      id: uuidv4(),
+      userId: req.user.id,
+      action: 'BENEFICIARY_SEARCH_INDEX_REBUILD',
+      description: `Rebuilt search index for ${result.processed} beneficiaries`,
+      details: JSON.stringify(result),
+      timestamp: new Date(),
+    });
+
+    return res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    logger.error('Error rebuilding beneficiary search index', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  rebuild,
+};
@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import sequelize from '../../db/connection';
+import { createLogger } from '../../utils/logger';
+import {
+  CONDITION_CATEGORIES,
+  CatalogResult,
+  createCode,
+  isConditionCategory,
+  searchCodes,
+  updateCode,
+} from '../../services/beneficiaries/conditionCatalogService';
+
+const logger = createLogger('conditions-controller');
+
+const sendResult = (res: Response, result: CatalogResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+const paging = (req: Request) => ({
+  page: req.query.page ? Math.max(parseInt(String(req.query.page), 10) || 1, 1) : 1,
+  limit: req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20,
+});
+
+/**
+ * Condition categories (ICD-10 chapters plus 'other')
+ */
+const listCategories = async (_req: Request, res: Response) =>
+  res.status(200).json({ success: true, data: CONDITION_CATEGORIES });
+
+/**
+ * Search the ICD-10 catalog. Query: `q` (code prefix, label or synonym), `category`,
+ * `includeInactive` (default false), `page`, `limit`.
+ */
+const listCodes = async (req: Request, res: Response) => {
+  const { q, category, includeInactive } = req.query as Record<string, string | undefined>;
+  if (category && !isConditionCategory(category)) {
+    return res.status(400).json({ success: false, message: 'Unknown category' });
+  }
+  const { page, limit } = paging(req);
+  try {
+    const { items, totalItems } = await searchCodes({ q, category, includeInactive: includeInactive === 'true' }, page, limit);
+    return res.status(200).json({ success: true, items, page, limit, totalItems, totalPages: Math.ceil(totalItems / limit) });
+  } catch (error: any) {
+    logger.error('Error searching ICD-10 codes', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Add a code to the catalog. Body: `code`, `label`, optional `synonyms`, `category` (defaults to the
+ * ICD-10 chapter of the code), `isActive`.
+ */
+const createEntry = async (req: Request, res: Response) => {
+  const { code, label, synonyms, category, isActive } = req.body || {};
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      createCode({ code, label, synonyms, category, isActive }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error creating ICD-10 code', { code, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Edit a catalog entry. Body: any of `label`, `synonyms`, `category`, `isActive`; the code cannot change.
+ */
+const updateEntry = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { code, label, synonyms, category, isActive } = req.body || {};
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      updateCode(id, { code, label, synonyms, category, isActive }, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error updating ICD-10 code', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  listCategories,
+  listCodes,
+  createEntry,
+  updateEntry,
+};
@@ -2,10 +2,12 @@ import { Request, Response } from 'express';
 import { Op } from 'sequelize';
 import AuditLog from '../../models/AuditLog';
 import FormResponse from '../../models/FormResponse';
+import { countFollowUpTasks } from '../../services/beneficiaries/caseManagementService';
 
 /**
  * GET /dashboard/activity-summary
- * Returns counts for recent activity: total form submissions and total project/subproject changes.
+ * Returns counts for recent activity: total form submissions and total project/subproject changes,
+ * plus open and overdue follow-up tasks (all, and assigned to the current user) as of today.
  * Query params: startDate, endDate (ISO date strings, optional)
  */
 export const getActivitySummary = async (req: Request, res: Response): Promise<void> => {
@@ -31,7 +33,7 @@ export const getActivitySummary = async (req: Request, res: Response): Promise<v
       if (endDate) frWhere.createdAt[Op.lte] = new Date(endDate);
     }
 
-    const [formSubmissionsCount, projectChangesCount] = await Promise.all([
+    const [formSubmissionsCount, projectChangesCount, followUpTasks, myFollowUpTasks] = await Promise.all([
       FormResponse.count({ where: frWhere }),
       AuditLog.count({
         where: {
@@ -44,6 +46,8 @@ export const getActivitySummary = async (req: Request, res: Response): Promise<v
           },
         },
       }),
+      countFollowUpTasks(),
+      countFollowUpTasks({ assignedTo: req.user.id }),
     ]);
 
     res.status(200).json({
@@ -51,6 +55,9 @@ export const getActivitySummary = async (req: Request, res: Response): Promise<v
       data: {
         formSubmissionsCount,
         projectSubprojectChangesCount: projectChangesCount,
+        openFollowUpTasksCount: followUpTasks.open,
+        overdueFollowUpTasksCount: followUpTasks.overdue,
+        myOverdueFollowUpTasksCount: myFollowUpTasks.overdue,
         range: {
           startDate: startDate || null,
           endDate: endDate || null,
@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { Beneficiary, Project, Subproject } from '../../models';
+import { loadScopeAssignments } from '../../services/beneficiaries/lifecycleService';
+import { currentConditionsByBeneficiary, summarizeConditions } from '../../services/beneficiaries/healthProfileService';
+
+/**
+ * GET /dashboard/conditions
+ * Beneficiaries with current (not resolved) conditions per ICD-10 category, by status and per code.
+ * Query params: entityId + entityType ('project' includes its subprojects) to count the beneficiaries
+ * assigned there; without them all active beneficiaries (users restricted to programs must pass them).
+ * Age and gender per category: GET /beneficiaries/demographics?conditionCategory=...
+ */
+export const getConditionReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { entityId, entityType } = req.query as { entityId?: string; entityType?: string };
+    const allowed = (req.user && Array.isArray(req.user.allowedProgramIds)) ? new Set<string>((req.user.allowedProgramIds as any).map(String)) : null;
+    if (!entityId && allowed) {
+      res.status(403).json({ success: false, message: 'Forbidden: filter by an entity of your programs' });
+      return;
+    }
+
+    let beneficiaryIds: string[];
+    if (entityId) {
+      if (entityType !== 'project' && entityType !== 'subproject') {
+        res.status(400).json({ success: false, message: "Query param 'entityType' must be 'project' or 'subproject'" });
+        return;
+      }
+      let projectId: string | null = null;
+      if (entityType === 'project') {
+        const project = await Project.findByPk(entityId, { attributes: ['id'] });
+        projectId = project ? String(project.id) : null;
+      } else {
+        const sub = await Subproject.findByPk(entityId, { attributes: ['id', 'projectId'] });
+        projectId = sub ? String(sub.projectId) : null;
+      }
+      if (!projectId) {
+        res.status(404).json({ success: false, message: `${entityType === 'project' ? 'Project' : 'Subproject'} not found` });
+        return;
+      }
+      if (allowed && !allowed.has(projectId)) {
+        res.status(403).json({ success: false, message: 'Forbidden' });
+        return;
+      }
+      const assignments = await loadScopeAssignments(entityId, entityType);
+      beneficiaryIds = Array.from(new Set(assignments.map(a => a.beneficiaryId)));
+    } else {
+      const beneficiaries = await Beneficiary.findAll({ where: { isArchived: false, erasedAt: null }, attributes: ['id'] });
+      beneficiaryIds = beneficiaries.map(b => b.id);
+    }
+
+    const conditions = await currentConditionsByBeneficiary(entityId ? beneficiaryIds : undefined);
+    res.status(200).json({
+      success: true,
+      data: { entityId: entityId ?? null, entityType: entityId ? entityType : null, ...summarizeConditions(beneficiaryIds, conditions) },
+    });
+  } catch (error) {
+    console.error('Error building condition report:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default { getConditionReport };
@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import { Project, Subproject } from '../../models';
+import { buildLifecycleReport } from '../../services/beneficiaries/lifecycleService';
+
+/**
+ * GET /dashboard/beneficiary-lifecycle
+ * Active caseload at the start and end of a period, beneficiaries per lifecycle status at the end,
+ * the enrollment funnel (referred → enrolled → graduated) and exits by reason within the period,
+ * and open/overdue follow-up tasks of the beneficiaries in scope as of today.
+ * Query params: entityId, entityType ('project' includes its subprojects), startDate (optional),
+ * endDate (optional, default now) — pass only endDate for the caseload at a point in time.
+ */
+export const getLifecycleReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { entityId, entityType, startDate, endDate } = req.query as {
+      entityId?: string; entityType?: string; startDate?: string; endDate?: string;
+    };
+    if (!entityId || (entityType !== 'project' && entityType !== 'subproject')) {
+      res.status(400).json({ success: false, message: "Query params 'entityId' and valid 'entityType' ('project'|'subproject') are required" });
+      return;
+    }
+    const from = startDate ? new Date(startDate) : null;
+    const to = endDate ? new Date(endDate) : new Date();
+    if ((from && Number.isNaN(from.getTime())) || Number.isNaN(to.getTime()) || (from && from > to)) {
+      res.status(400).json({ success: false, message: 'startDate and endDate must be valid dates, startDate before endDate' });
+      return;
+    }
+
+    let projectId: string | null = null;
+    if (entityType === 'project') {
+      const project = await Project.findByPk(entityId, { attributes: ['id'] });
+      projectId = project ? String(project.id) : null;
+    } else {
+      const sub = await Subproject.findByPk(entityId, { attributes: ['id', 'projectId'] });
+      projectId = sub ? String(sub.projectId) : null;
+    }
+    if (!projectId) {
+      res.status(404).json({ success: false, message: `${entityType === 'project' ? 'Project' : 'Subproject'} not found` });
+      return;
+    }
+    const allowed = (req.user && Array.isArray(req.user.allowedProgramIds)) ? new Set<string>((req.user.allowedProgramIds as any).map(String)) : null;
+    if (allowed && !allowed.has(projectId)) {
+      res.status(403).json({ success: false, message: 'Forbidden' });
+      return;
+    }
+
+    const report = await buildLifecycleReport(entityId, entityType, { from, to });
+    res.status(200).json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error building beneficiary lifecycle report:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default { getLifecycleReport };
@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import { buildReferralReport } from '../../services/beneficiaries/referralService';
+
+/**
+ * GET /dashboard/referrals
+ * Referrals sent in a period by status, acceptance and completion rates, referrals closed with a
+ * service delivery, average days to completion and completion per destination.
+ * Query params: entityId + entityType ('project' includes its subprojects and activities; adds
+ * outgoing/incoming splits), organization, startDate (optional), endDate (optional, default now).
+ */
+export const getReferralReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { entityId, entityType, organization, startDate, endDate } = req.query as {
+      entityId?: string; entityType?: string; organization?: string; startDate?: string; endDate?: string;
+    };
+    if (entityId && entityType !== 'project' && entityType !== 'subproject' && entityType !== 'activity') {
+      res.status(400).json({ success: false, message: "Query param 'entityType' must be 'project', 'subproject' or 'activity'" });
+      return;
+    }
+    const from = startDate ? new Date(startDate) : null;
+    const to = endDate ? new Date(endDate) : new Date();
+    if ((from && Number.isNaN(from.getTime())) || Number.isNaN(to.getTime()) || (from && from > to)) {
+      res.status(400).json({ success: false, message: 'startDate and endDate must be valid dates, startDate before endDate' });
+      return;
+    }
+
+    const allowed = (req.user && Array.isArray(req.user.allowedProgramIds)) ? new Set<string>((req.user.allowedProgramIds as any).map(String)) : null;
+    const report = await buildReferralReport({
+      entityId,
+      entityType: entityId ? entityType as 'project' | 'subproject' | 'activity' : undefined,
+      organization: organization || undefined,
+      from,
+      to,
+      allowedProjectIds: allowed,
+    });
+    res.status(200).json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error building referral report:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default { getReferralReport };
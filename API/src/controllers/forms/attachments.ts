@@ -0,0 +1,315 @@
+import { Request, Response } from "express";
+import busboy from "busboy";
+import { FormResponse, FormResponseAttachment, AuditLog } from "../../models";
+import { v4 as uuidv4 } from "uuid";
+import { createLogger } from "../../utils/logger";
+import sequelize from "../../db/connection";
+import { getStorage } from "../../services/storage";
+import {
+  ALLOWED_ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_REQUEST,
+  StoredAttachment,
+  storeAttachmentStream
+} from "../../services/forms/attachmentsService";
+import { EDITABLE_STATUSES } from "../../services/forms/responseWorkflowService";
+import { canAccessFormResponse, getUserRoleNames } from "./responses";
+import { ROLES } from "../../constants/roles";
+
+// Create a logger instance for this module
+const logger = createLogger('forms-attachments-controller');
+
+const ATTACHMENT_ATTRIBUTES = ['id', 'formResponseId', 'fieldName', 'originalName', 'mimeType', 'sizeBytes', 'checksum', 'uploadedBy', 'createdAt'];
+
+/**
+ * Check access to an attachment: linked attachments follow the RBAC of their form response,
+ * unlinked uploads are visible to the uploader and administrators only.
+ */
+const canAccessAttachment = async (req: Request, attachment: FormResponseAttachment): Promise<boolean> => {
+  if (attachment.formResponseId) {
+    const response = await FormResponse.findByPk(attachment.formResponseId);
+    return !!response && canAccessFormResponse(req, response);
+  }
+  if (String(attachment.uploadedBy) === String(req.user.id)) return true;
+  const roleNames = await getUserRoleNames(req);
+  return roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
+};
+
+type UploadedFile = { stored: StoredAttachment; filename: string };
+
+/** Remove blobs stored during a request that ends up not creating their attachments */
+const discardStoredFiles = (files: UploadedFile[]) =>
+  Promise.all(files.map(async ({ stored }) => {
+    if (stored.rejected) return;
+    try {
+      await getStorage(stored.storageDriver).delete(stored.storageKey);
+    } catch (error: any) {
+      logger.error('Error removing stored attachment', { id: stored.id, error: error.message });
+    }
+  }));
+
+/**
+ * Upload one or more attachments (multipart/form-data).
+ * Files are streamed straight to storage and accepted only when their content is of an allowed type.
+ * When called for a form response (`/responses/:id/attachments`) they are linked immediately, as long as
+ * the response can still be edited (draft or rejected); otherwise they stay unlinked until a submission
+ * references them.
+ * Optional text part `fieldName` records the form field the files belong to.
+ * If the request fails, nothing it stored is kept.
+ */
+export const uploadAttachments = async (req: Request, res: Response) => {
+  const formResponseId = req.params.id || null;
+  logger.info('Uploading attachments', { formResponseId, userId: req.user?.id });
+
+  if (!req.headers['content-type']?.toLowerCase().startsWith('multipart/form-data')) {
+    return res.status(400).json({ success: false, message: "Request must be multipart/form-data" });
+  }
+
+  let uploaded: UploadedFile[] = [];
+  try {
+    if (formResponseId) {
+      const response = await FormResponse.findByPk(formResponseId);
+      if (!response) {
+        return res.status(404).json({ success: false, message: 'Form response not found' });
+      }
+      if (!(await canAccessFormResponse(req, response))) {
+        return res.status(403).json({ success: false, message: 'You do not have access to this response' });
+      }
+      if (!EDITABLE_STATUSES.includes(response.status)) {
+        return res.status(409).json({ success: false, message: `Responses in status '${response.status}' cannot be edited` });
+      }
+    }
+
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: req.headers,
+        limits: { fileSize: MAX_ATTACHMENT_BYTES, files: MAX_ATTACHMENTS_PER_REQUEST, fields: 10 }
+      });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message || 'Invalid multipart request' });
+    }
+
+    const fields: Record<string, string> = {};
+    const rejected: Array<{ fileName: string; reason: string }> = [];
+    const pending: Array<Promise<UploadedFile>> = [];
+    let filesLimitReached = false;
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (_name, stream, info) => {
+      const { filename, mimeType } = info;
+      if (!ALLOWED_ATTACHMENT_MIME_TYPES.includes(mimeType)) {
+        rejected.push({ fileName: filename, reason: `Unsupported file type: ${mimeType}` });
+        stream.resume();
+        return;
+      }
+      const storing = storeAttachmentStream(stream).then(stored => ({ stored, filename }));
+      // Settled below, once the whole body is parsed; keep an early failure from going unhandled meanwhile
+      storing.catch(() => undefined);
+      pending.push(storing);
+    });
+
+    parser.on('filesLimit', () => {
+      filesLimitReached = true;
+    });
+
+    let parseError: Error | null = null;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        parser.on('close', () => resolve());
+        parser.on('error', reject);
+        req.on('close', () => {
+          if (!req.complete) parser.destroy(new Error('Request aborted'));
+        });
+        req.pipe(parser);
+      });
+    } catch (error: any) {
+      parseError = error;
+    }
+
+    const settled = await Promise.allSettled(pending);
+    uploaded = settled.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const failed = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    if (parseError) {
+      await discardStoredFiles(uploaded);
+      logger.warn('Malformed multipart upload', { formResponseId, error: parseError.message });
+      return res.status(400).json({ success: false, message: `Malformed multipart request: ${parseError.message}` });
+    }
+    if (failed) throw failed.reason;
+
+    const accepted: Array<{ stored: Extract<StoredAttachment, { rejected: null }>; filename: string }> = [];
+    for (const { stored, filename } of uploaded) {
+      if (stored.rejected === null) {
+        accepted.push({ stored, filename });
+      } else if (stored.rejected === 'too_large') {
+        rejected.push({ fileName: filename, reason: `File exceeds the maximum size of ${MAX_ATTACHMENT_BYTES} bytes` });
+      } else {
+        rejected.push({ fileName: filename, reason: 'File content is not of a supported type' });
+      }
+    }
+
+    if (filesLimitReached) {
+      rejected.push({ fileName: '*', reason: `Only ${MAX_ATTACHMENTS_PER_REQUEST} files are accepted per request` });
+    }
+
+    if (!accepted.length) {
+      const tooLarge = rejected.some(r => r.reason.startsWith('File exceeds'));
+      return res.status(tooLarge ? 413 : 400).json({
+        success: false,
+        message: rejected.length ? "No attachments were accepted" : "No files found in request",
+        errors: rejected
+      });
+    }
+
+    const created = await sequelize.transaction(async (transaction) => {
+      const rows: FormResponseAttachment[] = [];
+      for (const { stored, filename } of accepted) {
+        rows.push(await FormResponseAttachment.create({
+          id: stored.id,
+          formResponseId,
+          fieldName: fields.fieldName || null,
+          originalName: filename || 'attachment',
+          mimeType: stored.mimeType,
+          sizeBytes: stored.sizeBytes,
+          checksum: stored.checksum,
+          storageDriver: stored.storageDriver,
+          storageKey: stored.storageKey,
+          uploadedBy: req.user.id
+        }, { transaction }));
+      }
+
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'FORM_ATTACHMENT_UPLOAD',
+        description: `Uploaded ${rows.length} attachment(s)`,
+        details: JSON.stringify({
+          formResponseId,
+          attachmentIds: rows.map(a => a.id)
+        }),
+        timestamp: new Date()
+      }, { transaction });
+      return rows;
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: "Attachments uploaded successfully",
+      data: created.map(a => ({
+        id: a.id,
+        formResponseId: a.formResponseId,
+        fieldName: a.fieldName,
+        originalName: a.originalName,
+        mimeType: a.mimeType,
+        sizeBytes: a.sizeBytes,
+        checksum: a.checksum
+      })),
+      errors: rejected.length ? rejected : undefined
+    });
+  } catch (error: any) {
+    await discardStoredFiles(uploaded);
+    logger.error('Error uploading attachments', { formResponseId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * List attachments of a form response
+ */
+export const getResponseAttachments = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const response = await FormResponse.findByPk(id);
+    if (!response) {
+      return res.status(404).json({ success: false, message: 'Form response not found' });
+    }
+    if (!(await canAccessFormResponse(req, response))) {
+      return res.status(403).json({ success: false, message: 'You do not have access to this response' });
+    }
+
+    const attachments = await FormResponseAttachment.findAll({
+      where: { formResponseId: id },
+      attributes: ATTACHMENT_ATTRIBUTES,
+      order: [['createdAt', 'ASC']]
+    });
+
+    return res.status(200).json({ success: true, data: attachments });
+  } catch (error: any) {
+    logger.error('Error listing form response attachments', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Get attachment metadata
+ */
+export const getAttachmentById = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const attachment = await FormResponseAttachment.findByPk(id);
+    if (!attachment) {
+      return res.status(404).json({ success: false, message: 'Attachment not found' });
+    }
+    if (!(await canAccessAttachment(req, attachment))) {
+      return res.status(403).json({ success: false, message: 'You do not have access to this attachment' });
+    }
+
+    const data: Record<string, any> = {};
+    for (const key of ATTACHMENT_ATTRIBUTES) data[key] = attachment.get(key);
+    return res.status(200).json({ success: true, data });
+  } catch (error: any) {
+    logger.error('Error fetching attachment', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Stream attachment content
+ */
+export const downloadAttachment = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const attachment = await FormResponseAttachment.findByPk(id);
+    if (!attachment) {
+      return res.status(404).json({ success: false, message: 'Attachment not found' });
+    }
+    if (!(await canAccessAttachment(req, attachment))) {
+      return res.status(403).json({ success: false, message: 'You do not have access to this attachment' });
+    }
+
+    let stream;
+    try {
+      stream = await getStorage(attachment.storageDriver).get(attachment.storageKey);
+    } catch (error: any) {
+      logger.error('Attachment content missing from storage', { id, error: error.message });
+      return res.status(404).json({ success: false, message: 'Attachment content not found' });
+    }
+
+    const safeName = attachment.originalName.replace(/["\r\n]/g, '_');
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Length', String(attachment.sizeBytes));
+    res.setHeader('Content-Disposition', `attachment; filename="${safeName}"`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('ETag', `"${attachment.checksum}"`);
+
+    stream.on('error', (error: any) => {
+      logger.error('Error streaming attachment', { id, error: error.message });
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error: any) {
+    logger.error('Error downloading attachment', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  uploadAttachments,
+  getResponseAttachments,
+  getAttachmentById,
+  downloadAttachment,
+};
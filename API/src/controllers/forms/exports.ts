@@ -0,0 +1,299 @@
+import { Request, Response } from "express";
+import { once } from "events";
+import * as XLSX from "xlsx";
+import { Op } from "sequelize";
+import { FormTemplate, FormResponse, User, AuditLog, Beneficiary, BeneficiaryMapping, Project, Subproject, Activity } from "../../models";
+import FormEntityAssociation from "../../models/FormEntityAssociation";
+import { v4 as uuidv4 } from "uuid";
+import { createLogger } from "../../utils/logger";
+import { decryptField } from "../../utils/crypto";
+import { ROLES } from "../../constants/roles";
+import { buildVisibilityFilters, buildStatusFilters, getUserRoleNames } from "./responses";
+import { resolveLocale } from "../../services/forms/formLocale";
+import { getTemplateVersionSchema } from "../../services/forms/templateVersionService";
+import { getConsentedPurposes } from "../../services/beneficiaries/consentService";
+import { mappedPiiPaths, removeByPath } from "../../services/beneficiaries/dataSubjectService";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportRow,
+  MAX_XLSX_EXPORT_ROWS,
+  PII_EXPORT_FIELDS,
+  buildExportColumns,
+  mergeVersionFields,
+  toCsvLine,
+  toSpssVariableNames,
+  buildSpssHeader,
+  toSpssDataLine,
+  buildSpssFooter
+} from "../../services/forms/exportService";
+
+// Create a logger instance for this module
+const logger = createLogger('forms-exports-controller');
+
+/** Responses loaded per query while streaming */
+const EXPORT_BATCH_SIZE = 500;
+
+/** Roles allowed to read decrypted PII (same as GET /beneficiaries/:id/pii) */
+const PII_ROLES = [ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  spss: 'text/plain; charset=utf-8',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = { csv: 'csv', xlsx: 'xlsx', spss: 'sps' };
+
+/**
+ * Load names for the projects, subprojects and activities of a batch, caching across batches
+ */
+const resolveEntityNames = async (responses: FormResponse[], cache: Map<string, string | null>) => {
+  const models: Record<string, any> = { project: Project, subproject: Subproject, activity: Activity };
+  for (const [entityType, model] of Object.entries(models)) {
+    const ids = Array.from(new Set(
+      responses.filter(r => r.entityType === entityType && !cache.has(`${entityType}:${r.entityId}`)).map(r => r.entityId)
+    ));
+    if (!ids.length) continue;
+    const entities = await model.findAll({ where: { id: { [Op.in]: ids } }, attributes: ['id', 'name'] });
+    const names = new Map<string, string>(entities.map((e: any) => [String(e.id), e.name]));
+    ids.forEach(id => cache.set(`${entityType}:${id}`, names.get(String(id)) ?? null));
+  }
+};
+
+const decryptBeneficiaryPII = (beneficiary: any): Record<string, string | null> => {
+  const pii: Record<string, string | null> = {};
+  for (const key of PII_EXPORT_FIELDS) {
+    pii[key] = decryptField(beneficiary.get(`${key}Enc`) as any);
+  }
+  return pii;
+};
+
+/**
+ * Export the responses of a form template as CSV, XLSX or SPSS syntax.
+ * Query: `format` (csv | xlsx | spss, default csv), `headers` (names | labels; CSV/XLSX header row),
+ * `locale` (sq | sr | en; language of labels and option texts, column names never change),
+ * `includePII` (true to add decrypted beneficiary PII, restricted to PII roles) and the
+ * `entityId`/`entityType`, `fromDate`/`toDate` and `status` filters of the response listing.
+ * CSV and SPSS are streamed in batches; XLSX is limited to MAX_XLSX_EXPORT_ROWS responses.
+ * Responses of beneficiaries who did not consent to data sharing are exported without PII:
+ * no PII columns and no answers the beneficiary mapping takes PII from.
+ */
+export const exportFormResponses = async (req: Request, res: Response) => {
+  const { id } = req.params; // form template id
+  const format = String(req.query.format || 'csv').toLowerCase() as ExportFormat;
+  logger.info('Exporting form responses', { templateId: id, format, userId: req.user?.id });
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ success: false, message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+  }
+  const { locale, error: localeError } = resolveLocale(req.query.locale);
+  if (localeError) {
+    return res.status(400).json({ success: false, message: localeError });
+  }
+
+  try {
+    const template = await FormTemplate.findByPk(id, {
+      include: [{ model: FormEntityAssociation, as: 'entityAssociations' }]
+    });
+    if (!template) {
+      return res.status(404).json({ success: false, message: "Form template not found" });
+    }
+
+    const includePII = String(req.query.includePII) === 'true';
+    if (includePII) {
+      const roleNames = await getUserRoleNames(req);
+      if (!PII_ROLES.some(role => roleNames.includes(role))) {
+        return res.status(403).json({ success: false, message: "You are not allowed to export beneficiary PII" });
+      }
+    }
+
+    // Filters (same as the template response listing)
+    const whereClause: any = { formTemplateId: id };
+    const { entityId, entityType } = req.query;
+    if (entityId && entityType) {
+      const associated = template.entityAssociations?.some(ea => ea.entityId === entityId && ea.entityType === entityType);
+      if (!associated) {
+        return res.status(400).json({ success: false, message: "This entity is not associated with this form template" });
+      }
+      whereClause.entityId = entityId;
+      whereClause.entityType = entityType;
+    }
+    const fromDate = req.query.fromDate ? new Date(req.query.fromDate as string) : null;
+    const toDate = req.query.toDate ? new Date(req.query.toDate as string) : null;
+    if (fromDate && toDate) {
+      whereClause.submittedAt = { [Op.between]: [fromDate, toDate] };
+    } else if (fromDate) {
+      whereClause.submittedAt = { [Op.gte]: fromDate };
+    } else if (toDate) {
+      whereClause.submittedAt = { [Op.lte]: toDate };
+    }
+    whereClause[Op.and] = [...(await buildVisibilityFilters(req)), ...buildStatusFilters(req)];
+
+    const totalCount = await FormResponse.count({ where: whereClause });
+    if (format === 'xlsx' && totalCount > MAX_XLSX_EXPORT_ROWS) {
+      return res.status(400).json({
+        success: false,
+        message: `XLSX exports are limited to ${MAX_XLSX_EXPORT_ROWS} responses; use format=csv or narrow the filters`
+      });
+    }
+
+    // Columns cover every version the exported responses are pinned to, so fields removed since stay exported
+    const pinned = await FormResponse.findAll({
+      where: whereClause,
+      attributes: ['formTemplateVersion'],
+      group: ['formTemplateVersion'],
+      raw: true
+    }) as any[];
+    const olderVersions = pinned
+      .map(r => r.formTemplateVersion)
+      .filter(v => v != null && v !== template.version)
+      .sort((a, b) => b - a);
+    const olderSchemas = await Promise.all(olderVersions.map(v => getTemplateVersionSchema(id, v)));
+    const fields = mergeVersionFields([template.schema, ...olderSchemas].map(schema => schema?.fields || []));
+    const columns = buildExportColumns(fields, { format, includePII, locale });
+    const useLabels = String(req.query.headers) === 'labels';
+    const headerRow = columns.map(c => (useLabels ? c.label : c.name));
+    const spssVariables = format === 'spss' ? toSpssVariableNames(columns.map(c => c.name)) : [];
+
+    await AuditLog.create({
+      id: uuidv4(),
+      userId: req.user.id,
+      action: 'FORM_RESPONSE_EXPORT',
+      description: `Exported ${totalCount} response(s) of form '${template.name}' as ${format}${includePII ? ' with PII' : ''}`,
+      details: JSON.stringify({
+        templateId: id,
+        format,
+        locale,
+        includePII,
+        totalCount,
+        filters: { entityId, entityType, fromDate: req.query.fromDate, toDate: req.query.toDate, status: req.query.status }
+      }),
+      timestamp: new Date()
+    });
+
+    const safeName = String(template.name || 'form').replace(/[^A-Za-z0-9_-]+/g, '_').slice(0, 50);
+    const fileName = `${safeName}_responses_${new Date().toISOString().slice(0, 10)}.${FILE_EXTENSIONS[format]}`;
+    res.status(200);
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    if (includePII) {
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('Pragma', 'no-cache');
+    }
+
+    let aborted = false;
+    req.on('close', () => {
+      if (!res.writableEnded) aborted = true;
+    });
+    const write = async (chunk: string) => {
+      if (!aborted && !res.write(chunk)) await Promise.race([once(res, 'drain'), once(res, 'close')]);
+    };
+
+    const xlsxRows: any[][] = [headerRow];
+    if (format === 'csv') {
+      await write(`\uFEFF${toCsvLine(headerRow)}`); // BOM so Excel detects UTF-8
+    } else if (format === 'spss') {
+      await write(buildSpssHeader(columns, spssVariables));
+    }
+
+    const entityNames = new Map<string, string | null>();
+    const piiCache = new Map<string, Record<string, string | null>>();
+    const mapping = await BeneficiaryMapping.findOne({ where: { formTemplateId: id } });
+    const piiPaths = mapping ? mappedPiiPaths(mapping.mapping) : [];
+    let exported = 0;
+    let consentRedacted = 0;
+
+    for (let offset = 0; offset < totalCount && !aborted; offset += EXPORT_BATCH_SIZE) {
+      const responses = await FormResponse.findAll({
+        where: whereClause,
+        limit: EXPORT_BATCH_SIZE,
+        offset,
+        order: [['submittedAt', 'ASC'], ['id', 'ASC']],
+        include: [
+          { model: User, as: 'submitter', attributes: ['id', 'firstName', 'lastName', 'email'] },
+          includePII
+            ? { model: Beneficiary, as: 'beneficiary' }
+            : { model: Beneficiary, as: 'beneficiary', attributes: ['id', 'pseudonym'] }
+        ]
+      });
+      await resolveEntityNames(responses, entityNames);
+      const consented = await getConsentedPurposes(responses.map(r => r.beneficiaryId).filter(Boolean) as string[]);
+
+      for (const response of responses) {
+        const submitter = (response as any).submitter;
+        const beneficiary = (response as any).beneficiary;
+        const plain: any = response.get({ plain: true });
+        const shareable = !beneficiary || !!consented.get(String(beneficiary.id))?.has('data_sharing');
+        if (!shareable && piiPaths.length && plain.data) {
+          plain.data = JSON.parse(JSON.stringify(plain.data));
+          for (const path of piiPaths) removeByPath(plain.data, path);
+        }
+        if (!shareable) consentRedacted++;
+
+        let pii: Record<string, string | null> | null = null;
+        if (includePII && beneficiary && shareable) {
+          if (!piiCache.has(beneficiary.id)) piiCache.set(beneficiary.id, decryptBeneficiaryPII(beneficiary));
+          pii = piiCache.get(beneficiary.id)!;
+        }
+
+        const row: ExportRow = {
+          response: plain,
+          entityName: entityNames.get(`${response.entityType}:${response.entityId}`),
+          submitterName: submitter ? `${submitter.firstName || ''} ${submitter.lastName || ''}`.trim() : null,
+          submitterEmail: submitter?.email ?? null,
+          pseudonym: beneficiary?.pseudonym ?? null,
+          pii
+        };
+        const values = columns.map(c => c.value(row));
+
+        if (format === 'csv') {
+          await write(toCsvLine(values));
+        } else if (format === 'spss') {
+          await write(toSpssDataLine(columns, values));
+        } else {
+          xlsxRows.push(values);
+        }
+        exported++;
+      }
+    }
+
+    if (aborted) {
+      logger.warn('Form response export aborted by client', { templateId: id, exported });
+      return res.end();
+    }
+
+    if (format === 'xlsx') {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(xlsxRows), 'Responses');
+      res.end(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+    } else {
+      if (format === 'spss') await write(buildSpssFooter(columns, spssVariables));
+      res.end();
+    }
+
+    if (includePII && piiCache.size) {
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'BENEFICIARY_PII_READ',
+        description: `Read PII for ${piiCache.size} beneficiaries via export of form '${template.name}'`,
+        details: JSON.stringify({ templateId: id, beneficiaryIds: Array.from(piiCache.keys()), fields: PII_EXPORT_FIELDS }),
+        timestamp: new Date()
+      });
+    }
+
+    logger.info('Form responses exported', { templateId: id, format, exported, consentRedacted });
+  } catch (error: any) {
+    logger.error('Error exporting form responses', { templateId: id, error: error.message });
+    if (res.headersSent) {
+      // The file is incomplete; end the stream so the client does not hang
+      return res.end();
+    }
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  exportFormResponses,
+};
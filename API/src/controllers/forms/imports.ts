@@ -0,0 +1,178 @@
+import { Request, Response } from "express";
+import busboy from "busboy";
+import { FormTemplate, AuditLog } from "../../models";
+import FormEntityAssociation from "../../models/FormEntityAssociation";
+import { v4 as uuidv4 } from "uuid";
+import { createLogger } from "../../utils/logger";
+import {
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  parseImportFile,
+  validateImportMapping,
+  importFormResponses
+} from "../../services/forms/importService";
+
+// Create a logger instance for this module
+const logger = createLogger('forms-imports-controller');
+
+const IMPORT_FILE_PATTERN = /\.(csv|xlsx|xls)$/i;
+
+/**
+ * Read the multipart import request: one file plus text fields
+ */
+const readImportRequest = (req: Request) =>
+  new Promise<{ file?: { name: string; buffer: Buffer; truncated: boolean }; fields: Record<string, string> }>((resolve, reject) => {
+    const parser = busboy({ headers: req.headers, limits: { fileSize: MAX_IMPORT_BYTES, files: 1, fields: 10 } });
+    const fields: Record<string, string> = {};
+    let file: { name: string; buffer: Buffer; truncated: boolean } | undefined;
+    let pending: Promise<void> = Promise.resolve();
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+    parser.on('file', (_name, stream, info) => {
+      const chunks: Buffer[] = [];
+      pending = new Promise<void>((done, fail) => {
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('error', fail);
+        stream.on('end', () => {
+          file = { name: info.filename || '', buffer: Buffer.concat(chunks), truncated: (stream as any).truncated === true };
+          done();
+        });
+      });
+    });
+    parser.on('close', () => pending.then(() => resolve({ file, fields }), reject));
+    parser.on('error', reject);
+    req.pipe(parser);
+  });
+
+/**
+ * Import historical form responses from a CSV/XLSX file (multipart/form-data).
+ * Text parts: `mapping` (JSON column → field mapping), `entityId`, `entityType` and `dryRun`
+ * (defaults to true; send `false` to commit). Nothing is written unless every row is valid.
+ */
+export const importFormResponsesFromFile = async (req: Request, res: Response) => {
+  const { id } = req.params; // form template id
+  logger.info('Importing form responses', { templateId: id, userId: req.user?.id });
+
+  if (!req.headers['content-type']?.toLowerCase().startsWith('multipart/form-data')) {
+    return res.status(400).json({ success: false, message: "Request must be multipart/form-data" });
+  }
+
+  try {
+    const template = await FormTemplate.findByPk(id, {
+      include: [{ model: FormEntityAssociation, as: 'entityAssociations' }]
+    });
+    if (!template) {
+      return res.status(404).json({ success: false, message: "Form template not found" });
+    }
+
+    let upload;
+    try {
+      upload = await readImportRequest(req);
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message || 'Invalid multipart request' });
+    }
+    const { file, fields } = upload;
+
+    if (!file || !file.buffer.length) {
+      return res.status(400).json({ success: false, message: "An import file is required" });
+    }
+    if (file.truncated) {
+      return res.status(413).json({ success: false, message: `File exceeds the maximum size of ${MAX_IMPORT_BYTES} bytes` });
+    }
+    if (!IMPORT_FILE_PATTERN.test(file.name)) {
+      return res.status(400).json({ success: false, message: "Only .csv, .xlsx and .xls files are supported" });
+    }
+
+    const { entityId, entityType } = fields;
+    if (!entityId || !['project', 'subproject', 'activity'].includes(entityType)) {
+      return res.status(400).json({ success: false, message: "entityId and a valid entityType are required" });
+    }
+    const associated = template.entityAssociations?.some(ea => ea.entityId === entityId && ea.entityType === entityType);
+    if (!associated) {
+      return res.status(400).json({ success: false, message: "This entity is not associated with this form template" });
+    }
+    if (req.user && req.user.allowedProgramIds && !req.user.allowedProgramIds.includes(entityId)) {
+      return res.status(403).json({ success: false, message: "You do not have access to this entity" });
+    }
+
+    let mapping: any;
+    try {
+      mapping = JSON.parse(fields.mapping || '');
+    } catch (_) {
+      return res.status(400).json({ success: false, message: "mapping must be valid JSON" });
+    }
+
+    let parsed;
+    try {
+      parsed = parseImportFile(file.buffer, file.name);
+    } catch (error: any) {
+      logger.warn('Failed to parse import file', { fileName: file.name, error: error.message });
+      return res.status(400).json({ success: false, message: "Could not read the import file" });
+    }
+    if (!parsed.rows.length) {
+      return res.status(400).json({ success: false, message: "The import file contains no data rows" });
+    }
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({ success: false, message: `Imports are limited to ${MAX_IMPORT_ROWS} rows` });
+    }
+
+    const mappingErrors = validateImportMapping(mapping, parsed.headers, template.schema?.fields || []);
+    if (mappingErrors.length) {
+      return res.status(400).json({ success: false, message: "Invalid mapping", errors: mappingErrors });
+    }
+
+    const dryRun = fields.dryRun !== 'false';
+    const report = await importFormResponses({
+      template,
+      rows: parsed.rows,
+      mapping,
+      entityId,
+      entityType: entityType as 'project' | 'subproject' | 'activity',
+      userId: req.user.id,
+      dryRun
+    });
+
+    if (report.committed) {
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'FORM_RESPONSE_IMPORT',
+        description: `Imported ${report.responsesCreated} response(s) to form '${template.name}' from ${file.name}`,
+        details: JSON.stringify({
+          templateId: id,
+          entityId,
+          entityType,
+          fileName: file.name,
+          responsesCreated: report.responsesCreated,
+          beneficiariesCreated: report.beneficiariesCreated,
+          beneficiariesMatched: report.beneficiariesMatched,
+          serviceDeliveriesCreated: report.serviceDeliveriesCreated
+        }),
+        timestamp: new Date()
+      });
+    }
+
+    if (!dryRun && !report.committed) {
+      return res.status(422).json({
+        success: false,
+        message: "Import not committed: some rows are invalid",
+        data: report
+      });
+    }
+
+    return res.status(report.committed ? 201 : 200).json({
+      success: true,
+      message: report.committed ? "Form responses imported successfully" : "Dry run completed",
+      data: report
+    });
+  } catch (error: any) {
+    logger.error('Error importing form responses', { templateId: id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  importFormResponsesFromFile,
+};
@@ -2,10 +2,20 @@ import templateController from "./templates";
 import responseController from "./responses";
 import kpiController from "./kpis";
 import beneficiaryMappingController from "./beneficiaryMapping";
+import attachmentController from "./attachments";
+import reviewController from "./review";
+import importController from "./imports";
+import exportController from "./exports";
+import libraryController from "./library";
 
 export default {
   templates: templateController,
   responses: responseController,
   kpis: kpiController,
-  beneficiaryMapping: beneficiaryMappingController
+  beneficiaryMapping: beneficiaryMappingController,
+  attachments: attachmentController,
+  review: reviewController,
+  imports: importController,
+  exports: exportController,
+  library: libraryController
 };
@@ -200,6 +200,7 @@ export const calculateKpiSeries = async (req: Request, res: Response) => {
     if (req.query.serviceIds) filters.serviceIds = String(req.query.serviceIds).split(',').filter(Boolean);
     if (req.query.formTemplateId) filters.formTemplateId = req.query.formTemplateId as string;
     if (req.query.formTemplateIds) filters.formTemplateIds = String(req.query.formTemplateIds).split(',').filter(Boolean);
+    if (req.query.approvedOnly === 'true') filters.approvedOnly = true;
 
     // Validate and set groupBy
     const allowed = ['day', 'week', 'month', 'quarter', 'year'];
@@ -486,6 +487,7 @@ export const calculateKpi = async (req: Request, res: Response) => {
     if (req.query.serviceIds) filters.serviceIds = String(req.query.serviceIds).split(',').filter(Boolean);
     if (req.query.formTemplateId) filters.formTemplateId = req.query.formTemplateId as string;
     if (req.query.formTemplateIds) filters.formTemplateIds = String(req.query.formTemplateIds).split(',').filter(Boolean);
+    if (req.query.approvedOnly === 'true') filters.approvedOnly = true;
 
     // Calculate the KPI
     const result = await kpiCalculationService.calculateKpi(id, filters);
@@ -534,6 +536,7 @@ export const calculateAllKpisForEntity = async (req: Request, res: Response) =>
     if (req.query.serviceIds) filters.serviceIds = String(req.query.serviceIds).split(',').filter(Boolean);
     if (req.query.formTemplateId) filters.formTemplateId = req.query.formTemplateId as string;
     if (req.query.formTemplateIds) filters.formTemplateIds = String(req.query.formTemplateIds).split(',').filter(Boolean);
+    if (req.query.approvedOnly === 'true') filters.approvedOnly = true;
 
     // Calculate all KPIs
     const results = await kpiCalculationService.calculateAllKpisForEntity(entityId, entityType, filters);
@@ -590,6 +593,7 @@ export const getMetricsSummary = async (req: Request, res: Response) => {
     if (req.query.serviceIds) filters.serviceIds = String(req.query.serviceIds).split(',').filter(Boolean);
     if (req.query.formTemplateId) filters.formTemplateId = req.query.formTemplateId as string;
     if (req.query.formTemplateIds) filters.formTemplateIds = String(req.query.formTemplateIds).split(',').filter(Boolean);
+    if (req.query.approvedOnly === 'true') filters.approvedOnly = true;
 
     // Apply role-based filtering
     const userFilter = await getUserEntityFilter(req.user.id);
@@ -659,8 +663,8 @@ export const getMetricsSummary = async (req: Request, res: Response) => {
 export const getMetricsSeries = async (req: Request, res: Response) => {
   logger.info('Calculating dynamic metrics series');
   try {
-    const metric = (req.query.metric as string) as 'submissions' | 'serviceDeliveries' | 'uniqueBeneficiaries';
-    const allowed = ['submissions', 'serviceDeliveries', 'uniqueBeneficiaries'];
+    const metric = (req.query.metric as string) as 'submissions' | 'serviceDeliveries' | 'uniqueBeneficiaries' | 'householdsReached';
+    const allowed = ['submissions', 'serviceDeliveries', 'uniqueBeneficiaries', 'householdsReached'];
     if (!metric || !allowed.includes(metric)) {
       return res.status(400).json({ success: false, message: `metric must be one of: ${allowed.join(', ')}` });
     }
@@ -682,6 +686,7 @@ export const getMetricsSeries = async (req: Request, res: Response) => {
     if (req.query.serviceIds) filters.serviceIds = String(req.query.serviceIds).split(',').filter(Boolean);
     if (req.query.formTemplateId) filters.formTemplateId = req.query.formTemplateId as string;
     if (req.query.formTemplateIds) filters.formTemplateIds = String(req.query.formTemplateIds).split(',').filter(Boolean);
+    if (req.query.approvedOnly === 'true') filters.approvedOnly = true;
 
     // Optional ad-hoc data filters (JSON array)
     if (req.query.dataFilters) {
@@ -0,0 +1,337 @@
+import { Request, Response } from "express";
+import { FormTemplate, AuditLog } from "../../models";
+import FormEntityAssociation from "../../models/FormEntityAssociation";
+import { v4 as uuidv4 } from "uuid";
+import { createLogger } from "../../utils/logger";
+import sequelize from "../../db/connection";
+import {
+  validateTemplateEntities,
+  cloneFormTemplate,
+  getBlueprintUpdate,
+  applyBlueprintUpdate
+} from "../../services/forms/templateLibraryService";
+
+// Create a logger instance for this module
+const logger = createLogger('forms-library-controller');
+
+/**
+ * Load a template for library operations. Blueprints are visible to everyone;
+ * other templates require access to one of their associated entities.
+ */
+const loadLibraryTemplate = async (req: Request, id: string, options: { requireAccess?: boolean } = {}) => {
+  const template = await FormTemplate.findByPk(id, {
+    include: [{
+      model: FormEntityAssociation,
+      as: 'entityAssociations'
+    }]
+  });
+
+  if (!template) {
+    return { status: 404, message: "Form template not found" };
+  }
+
+  const bypass = template.isBlueprint && !options.requireAccess;
+  if (!bypass && req.user && req.user.allowedProgramIds && template.entityAssociations) {
+    const hasAccess = template.entityAssociations.some(ea =>
+      req.user.allowedProgramIds!.includes(ea.entityId)
+    );
+    if (!hasAccess) {
+      return { status: 403, message: "You do not have access to any entities associated with this form template" };
+    }
+  }
+
+  return { status: 200, template };
+};
+
+/**
+ * List the blueprints in the template library with their derived templates
+ */
+export const listBlueprints = async (req: Request, res: Response) => {
+  logger.info('Listing template blueprints');
+
+  try {
+    const blueprints = await FormTemplate.findAll({
+      where: { isBlueprint: true, status: 'active' },
+      include: [{
+        model: FormTemplate,
+        as: 'derivedTemplates',
+        attributes: ['id', 'name', 'version', 'originVersion', 'status']
+      }],
+      order: [['name', 'ASC']]
+    });
+
+    const data = blueprints.map(b => {
+      const json: any = b.toJSON();
+      const derived = (json.derivedTemplates || []) as any[];
+      return {
+        ...json,
+        derivedCount: derived.length,
+        outdatedCount: derived.filter(d => (d.originVersion ?? 0) < b.version).length
+      };
+    });
+
+    return res.status(200).json({ success: true, data });
+  } catch (error: any) {
+    logger.error('Error listing template blueprints', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Publish a template as a blueprint (`isBlueprint: true`) or remove it from the library
+ */
+export const setBlueprint = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { isBlueprint } = req.body;
+  logger.info('Setting template blueprint flag', { templateId: id, isBlueprint });
+
+  if (typeof isBlueprint !== 'boolean') {
+    return res.status(400).json({ success: false, message: "isBlueprint must be a boolean" });
+  }
+
+  try {
+    const loaded = await loadLibraryTemplate(req, id, { requireAccess: true });
+    if (!loaded.template) {
+      return res.status(loaded.status).json({ success: false, message: loaded.message });
+    }
+    const template = loaded.template;
+
+    await sequelize.transaction(async (transaction) => {
+      await template.update({ isBlueprint }, { transaction });
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: isBlueprint ? 'FORM_TEMPLATE_BLUEPRINT_PUBLISH' : 'FORM_TEMPLATE_BLUEPRINT_UNPUBLISH',
+        description: `${isBlueprint ? 'Published' : 'Unpublished'} form template '${template.name}' as a blueprint`,
+        details: JSON.stringify({ templateId: id, version: template.version }),
+        timestamp: new Date()
+      }, { transaction });
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: isBlueprint ? "Form template published as a blueprint" : "Form template removed from the library",
+      data: template
+    });
+  } catch (error: any) {
+    logger.error('Error setting template blueprint flag', { templateId: id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Clone a template into other entities. Body: `name` (required), `entities` (defaults to the
+ * source's entities) and `includeBeneficiaryMapping` (default true).
+ */
+export const cloneTemplate = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { name, entities, includeBeneficiaryMapping } = req.body;
+  logger.info('Cloning form template', { templateId: id, name });
+
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({ success: false, message: "name is required" });
+  }
+
+  try {
+    const loaded = await loadLibraryTemplate(req, id);
+    if (!loaded.template) {
+      return res.status(loaded.status).json({ success: false, message: loaded.message });
+    }
+    const source = loaded.template;
+
+    const result = await sequelize.transaction(async (transaction) => {
+      if (entities !== undefined) {
+        const entityError = await validateTemplateEntities(entities, transaction);
+        if (entityError) {
+          return { success: false, status: 400, message: entityError };
+        }
+      }
+
+      // Verify user has access to the target entities if req.user.allowedProgramIds exists
+      const targets: any[] = entities ?? (source.entityAssociations || []).map(ea => ({ id: ea.entityId, type: ea.entityType }));
+      if (req.user && req.user.allowedProgramIds) {
+        const denied = targets.find(e => !req.user.allowedProgramIds!.includes(e.id));
+        if (denied) {
+          return { success: false, status: 403, message: `You do not have access to ${denied.type} with ID ${denied.id}` };
+        }
+      }
+
+      const existing = await FormTemplate.findOne({ where: { name }, transaction });
+      if (existing) {
+        return { success: false, status: 409, message: "A form template with this name already exists" };
+      }
+
+      const { clone, mappingCopied } = await cloneFormTemplate(source, {
+        name,
+        entities,
+        includeBeneficiaryMapping,
+        userId: req.user.id,
+        transaction
+      });
+
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'FORM_TEMPLATE_CLONE',
+        description: `Cloned form template '${source.name}' as '${name}'`,
+        details: JSON.stringify({
+          templateId: clone.id,
+          originTemplateId: source.id,
+          originVersion: source.version,
+          entities: targets.map(e => ({ id: e.id, type: e.type })),
+          beneficiaryMappingCopied: mappingCopied
+        }),
+        timestamp: new Date()
+      }, { transaction });
+
+      const created = await FormTemplate.findByPk(clone.id, {
+        include: [{ model: FormEntityAssociation, as: 'entityAssociations' }],
+        transaction
+      });
+      return { success: true, status: 201, data: created };
+    });
+
+    if (!result.success) {
+      return res.status(result.status).json({ success: false, message: result.message });
+    }
+    return res.status(result.status).json({
+      success: true,
+      message: "Form template cloned successfully",
+      data: result.data
+    });
+  } catch (error: any) {
+    logger.error('Error cloning form template', { templateId: id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * List the templates derived from a template, flagging those behind its current version
+ */
+export const getDerivedTemplates = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  logger.info('Listing derived form templates', { templateId: id });
+
+  try {
+    const loaded = await loadLibraryTemplate(req, id);
+    if (!loaded.template) {
+      return res.status(loaded.status).json({ success: false, message: loaded.message });
+    }
+    const template = loaded.template;
+
+    const derived = await FormTemplate.findAll({
+      where: { originTemplateId: id },
+      attributes: ['id', 'name', 'version', 'status', 'originVersion', 'createdAt'],
+      order: [['createdAt', 'ASC']]
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: derived.map(d => ({ ...d.toJSON(), updateAvailable: (d.originVersion ?? 0) < template.version }))
+    });
+  } catch (error: any) {
+    logger.error('Error listing derived form templates', { templateId: id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Show whether the template's origin has a newer version and the schema changes applying it would make
+ */
+export const getTemplateBlueprintUpdate = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  logger.info('Checking blueprint update', { templateId: id });
+
+  try {
+    const loaded = await loadLibraryTemplate(req, id, { requireAccess: true });
+    if (!loaded.template) {
+      return res.status(loaded.status).json({ success: false, message: loaded.message });
+    }
+
+    const update = await getBlueprintUpdate(loaded.template);
+    if (!update) {
+      return res.status(404).json({ success: false, message: "This form template has no origin template" });
+    }
+
+    const { origin, ...data } = update;
+    return res.status(200).json({ success: true, data });
+  } catch (error: any) {
+    logger.error('Error checking blueprint update', { templateId: id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Take the origin's current schema into the derived template as a new version.
+ * Body: `includeBeneficiaryMapping` (default false) also copies the origin's beneficiary mapping.
+ */
+export const applyTemplateBlueprintUpdate = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  logger.info('Applying blueprint update', { templateId: id });
+
+  try {
+    const loaded = await loadLibraryTemplate(req, id, { requireAccess: true });
+    if (!loaded.template) {
+      return res.status(loaded.status).json({ success: false, message: loaded.message });
+    }
+
+    const result = await sequelize.transaction(async (transaction) => {
+      const template = await FormTemplate.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+      const update = template ? await getBlueprintUpdate(template, transaction) : null;
+      if (!template || !update) {
+        return { success: false, status: 404, message: "This form template has no origin template" };
+      }
+      if (!update.updateAvailable) {
+        return { success: false, status: 409, message: "The form template is already up to date with its origin" };
+      }
+
+      const applied = await applyBlueprintUpdate(template, update.origin, {
+        includeBeneficiaryMapping: req.body?.includeBeneficiaryMapping === true,
+        userId: req.user.id,
+        transaction
+      });
+
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'FORM_TEMPLATE_BLUEPRINT_SYNC',
+        description: `Updated form template '${template.name}' from '${update.originName}' version ${update.latestVersion}`,
+        details: JSON.stringify({
+          templateId: id,
+          originTemplateId: update.originTemplateId,
+          fromOriginVersion: update.currentVersion,
+          toOriginVersion: update.latestVersion,
+          oldVersion: applied.previousVersion,
+          newVersion: applied.version,
+          schemaChanged: applied.schemaChanged,
+          beneficiaryMappingCopied: applied.mappingCopied,
+          diff: update.diff
+        }),
+        timestamp: new Date()
+      }, { transaction });
+
+      return { success: true, status: 200, data: { template, ...applied, diff: update.diff } };
+    });
+
+    if (!result.success) {
+      return res.status(result.status).json({ success: false, message: result.message });
+    }
+    return res.status(result.status).json({
+      success: true,
+      message: "Blueprint update applied",
+      data: result.data
+    });
+  } catch (error: any) {
+    logger.error('Error applying blueprint update', { templateId: id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default {
+  listBlueprints,
+  setBlueprint,
+  cloneTemplate,
+  getDerivedTemplates,
+  getTemplateBlueprintUpdate,
+  applyTemplateBlueprintUpdate,
+};
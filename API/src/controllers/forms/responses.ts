@@ -1,18 +1,20 @@
 import { Request, Response } from "express";
-import { FormTemplate, FormResponse, User, AuditLog, Beneficiary, ServiceAssignment, ServiceDelivery, Activity, Service, Subproject } from "../../models";
+import { FormTemplate, FormResponse, User, AuditLog, Beneficiary, ServiceAssignment, ServiceDelivery, Activity, Service, Subproject, FormResponseAttachment } from "../../models";
 import FormEntityAssociation from "../../models/FormEntityAssociation";
 import { v4 as uuidv4 } from "uuid";
 import { createLogger } from "../../utils/logger";
-import { Op, literal } from "sequelize";
+import { Op, Transaction, literal } from "sequelize";
 import sequelize from "../../db/connection";
 import validateFormResponse from "../../services/forms/validateFormResponse";
+import { resolveResponseAttachments, linkAttachmentsToResponse } from "../../services/forms/attachmentsService";
+import { recordConsentsFromForm, validateFormConsentSignature } from "../../services/beneficiaries/consentService";
 import { ROLES } from "../../constants/roles";
 
 // Create a logger instance for this module
 const logger = createLogger('forms-responses-controller');
 
 // Helper: get current user's role names. If not preloaded by middleware, load from DB.
-const getUserRoleNames = async (req: Request): Promise<string[]> => {
+export const getUserRoleNames = async (req: Request): Promise<string[]> => {
   const cached = (req as any).userRoles as any[] | undefined;
   if (Array.isArray(cached) && cached.length) {
     return cached.map((r: any) => (typeof r === 'string' ? r : r?.name)).filter(Boolean);
@@ -29,6 +31,210 @@ const getUserRoleNames = async (req: Request): Promise<string[]> => {
   }
 };
 
+/**
+ * RBAC check for a single form response: admins see all; managers see their allowed
+ * project scope; others only their own submissions.
+ */
+export const canAccessFormResponse = async (req: Request, response: FormResponse): Promise<boolean> => {
+  // Drafts are private to their author until submitted
+  if (response.get('status') === 'draft' && String(response.get('submittedBy')) !== String(req.user.id)) {
+    return false;
+  }
+
+  const roleNames = await getUserRoleNames(req);
+  const isAdmin = roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
+  const isManager = roleNames.includes(ROLES.PROGRAM_MANAGER) || roleNames.includes(ROLES.SUB_PROJECT_MANAGER);
+  if (!isAdmin && !isManager) {
+    const submittedBy = String(response.get('submittedBy'));
+    if (submittedBy !== String(req.user.id)) {
+      return false;
+    }
+  }
+
+  // Ensure user can access the entity associated with the response
+  if (!isAdmin && req.user && Array.isArray(req.user.allowedProgramIds) && req.user.allowedProgramIds.length > 0) {
+    const allowed = new Set<string>(req.user.allowedProgramIds as any);
+    const entityType = response.get('entityType') as 'project' | 'subproject' | 'activity';
+    const entityId = String(response.get('entityId'));
+    let projectIdToCheck: string | null = null;
+
+    if (entityType === 'project') {
+      projectIdToCheck = entityId;
+    } else if (entityType === 'subproject') {
+      const sub = await Subproject.findByPk(entityId, { attributes: ['projectId'] });
+      projectIdToCheck = sub ? String(sub.get('projectId')) : null;
+    } else if (entityType === 'activity') {
+      const act = await Activity.findByPk(entityId, { attributes: ['subprojectId'] });
+      const subId = act ? String(act.get('subprojectId')) : null;
+      if (subId) {
+        const sub = await Subproject.findByPk(subId, { attributes: ['projectId'] });
+        projectIdToCheck = sub ? String(sub.get('projectId')) : null;
+      }
+    }
+
+    if (!projectIdToCheck || !allowed.has(projectIdToCheck)) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * RBAC visibility rules for template response listings: admins see all; managers see their
+ * allowed project scope (including subprojects and activities); others only their own submissions.
+ */
+export const buildVisibilityFilters = async (req: Request): Promise<any[]> => {
+  const roleNames = await getUserRoleNames(req);
+  const isAdmin = roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
+  const isManager = roleNames.includes(ROLES.PROGRAM_MANAGER) || roleNames.includes(ROLES.SUB_PROJECT_MANAGER);
+  const allowed = (req.user && Array.isArray((req.user as any).allowedProgramIds)) ? ((req.user as any).allowedProgramIds as string[]) : [];
+  if (isAdmin) {
+    // no additional constraints
+    return [];
+  }
+  if (isManager && allowed.length) {
+    const esc = (v: string) => String(v).replace(/'/g, "''");
+    const list = allowed.map(id => `'${esc(id)}'`).join(',');
+    const scopeOr: any[] = [];
+    scopeOr.push(literal(`("entityType" = 'project' AND "entityId" IN (${list}))`));
+    scopeOr.push(literal(`("entityType" = 'subproject' AND "entityId" IN (SELECT id FROM subprojects WHERE "projectId" IN (${list})))`));
+    scopeOr.push(literal(`("entityType" = 'activity' AND "entityId" IN (SELECT a.id FROM activities a JOIN subprojects s ON a."subprojectId" = s.id WHERE s."projectId" IN (${list})))`));
+    return [{ [Op.or]: scopeOr }];
+  }
+  // Field Operator or other roles: only own submissions
+  return [{ submittedBy: req.user.id }];
+};
+
+/**
+ * Review status filters for response listings: optional `status` query (comma-separated)
+ * and drafts hidden from everyone but their author.
+ */
+export const buildStatusFilters = (req: Request): any[] => {
+  const ands: any[] = [{ [Op.or]: [{ status: { [Op.ne]: 'draft' } }, { submittedBy: req.user.id }] }];
+  if (req.query.status) {
+    const statuses = String(req.query.status).split(',').filter(Boolean);
+    ands.push({ status: { [Op.in]: statuses } });
+  }
+  return ands;
+};
+
+/**
+ * Record what a submission carries besides its data: the consents answered on the form and the
+ * services delivered to the linked beneficiary. Runs when a response is submitted directly and
+ * when a draft (or rejected response) is submitted for review. A `services` list replaces the
+ * deliveries recorded by an earlier submission of the response; without one they are kept.
+ */
+export const recordResponseSubmission = async (
+  formResponse: FormResponse,
+  services: any,
+  userId: string,
+  transaction: Transaction
+) => {
+  const { entityId, entityType } = formResponse;
+  const beneficiaryId = formResponse.beneficiaryId ?? undefined;
+
+  // Consents answered on the form (beneficiary mapping `consent` section)
+  if (beneficiaryId) {
+    await recordConsentsFromForm(formResponse.formTemplateId, beneficiaryId, formResponse.data, {
+      userId,
+      transaction,
+      source: 'form',
+      formResponseId: formResponse.id,
+    });
+  }
+
+  // If services were provided, they replace the deliveries of an earlier submission (resubmitted after rejection)
+  const servicesInput = Array.isArray(services) ? services : [];
+  const replacedDeliveries = Array.isArray(services)
+    ? await ServiceDelivery.destroy({ where: { formResponseId: formResponse.id }, transaction })
+    : 0;
+  let createdDeliveries = 0;
+  let skippedDeliveries: Array<{ serviceId: string; reason: string }> = [];
+  let unassignedNotBlocked = 0;
+
+  if (servicesInput.length > 0) {
+    // Determine allowed serviceIds for this entity, considering hierarchy
+    const allowedServiceIds = new Set<string>();
+
+    if (entityType === 'project') {
+      const assignments = await ServiceAssignment.findAll({ where: { entityId, entityType: 'project' }, transaction });
+      for (const a of assignments) allowedServiceIds.add(a.get('serviceId') as string);
+    } else if (entityType === 'subproject') {
+      // Include assignments at subproject level and parent project level
+      const [subAssignments, sub] = await Promise.all([
+        ServiceAssignment.findAll({ where: { entityId, entityType: 'subproject' }, transaction }),
+        Subproject.findByPk(entityId, { transaction }),
+      ]);
+      for (const a of subAssignments) allowedServiceIds.add(a.get('serviceId') as string);
+      const projectId = sub?.get('projectId') as string | undefined;
+      if (projectId) {
+        const projAssignments = await ServiceAssignment.findAll({ where: { entityId: projectId, entityType: 'project' }, transaction });
+        for (const a of projAssignments) allowedServiceIds.add(a.get('serviceId') as string);
+      }
+    } else if (entityType === 'activity') {
+      // Include assignments at the activity's subproject and its parent project
+      const activity = await Activity.findByPk(entityId, { transaction });
+      const subprojectId = activity?.get('subprojectId') as string | undefined;
+      if (subprojectId) {
+        const [subAssignments, sub] = await Promise.all([
+          ServiceAssignment.findAll({ where: { entityId: subprojectId, entityType: 'subproject' }, transaction }),
+          Subproject.findByPk(subprojectId, { transaction }),
+        ]);
+        for (const a of subAssignments) allowedServiceIds.add(a.get('serviceId') as string);
+        const projectId = sub?.get('projectId') as string | undefined;
+        if (projectId) {
+          const projAssignments = await ServiceAssignment.findAll({ where: { entityId: projectId, entityType: 'project' }, transaction });
+          for (const a of projAssignments) allowedServiceIds.add(a.get('serviceId') as string);
+        }
+      }
+    }
+
+    for (const item of servicesInput) {
+      const serviceId = item?.serviceId as string | undefined;
+      if (!serviceId) {
+        skippedDeliveries.push({ serviceId: 'unknown', reason: 'missing serviceId' });
+        continue;
+      }
+      if (!beneficiaryId) {
+        skippedDeliveries.push({ serviceId, reason: 'no beneficiary linked' });
+        continue;
+      }
+
+      // Previously we skipped if serviceId was not assigned to the entity when there were some assignments.
+      // Business decision: proceed to create delivery but log a warning for visibility.
+      if (allowedServiceIds.size > 0 && !allowedServiceIds.has(serviceId)) {
+        logger.warn('Service not assigned to entity; proceeding to create ServiceDelivery per relaxed policy', {
+          entityId,
+          entityType,
+          serviceId,
+          beneficiaryId,
+        });
+        unassignedNotBlocked += 1;
+      }
+
+      const deliveredAt = item?.deliveredAt ? new Date(item.deliveredAt) : new Date();
+      const staffUserId = (item?.staffUserId as string | undefined) || userId;
+      const notes = (item?.notes as string | undefined) || null;
+
+      await ServiceDelivery.create({
+        id: uuidv4(),
+        serviceId,
+        beneficiaryId,
+        entityId,
+        entityType,
+        formResponseId: formResponse.id,
+        staffUserId,
+        deliveredAt,
+        notes,
+      }, { transaction });
+      createdDeliveries += 1;
+    }
+  }
+
+  return { created: createdDeliveries, replaced: replacedDeliveries, skipped: skippedDeliveries, unassignedNotBlocked };
+};
+
 /**
  * Submit a form response
  */
@@ -84,10 +290,20 @@ export const submitFormResponse = async (req: Request, res: Response) => {
       }
 
       const data = req.body.data || req.body;
-      const { latitude, longitude } = req.body;
+      const { latitude, longitude, formTemplateVersion } = req.body;
+
+      // Responses can be saved as a draft (incomplete, not yet submitted for review)
+      const status = req.body.status ?? 'submitted';
+      if (status !== 'draft' && status !== 'submitted') {
+        return { success: false, status: 400, message: "status must be 'draft' or 'submitted'" };
+      }
+      const isDraft = status === 'draft';
+      if (isDraft && Array.isArray(req.body.services) && req.body.services.length > 0) {
+        return { success: false, status: 400, message: "Services can only be recorded when the response is submitted" };
+      }
 
-      // Use AJV for validation
-      const validationResult = await validateFormResponse(id, data);
+      // Use AJV for validation against the version the form was filled with (defaults to current)
+      const validationResult = await validateFormResponse(id, data, formTemplateVersion, { partial: isDraft });
       if (!validationResult.valid) {
         logger.warn('Form data validation errors', { errors: validationResult.errors });
         return { 
@@ -111,11 +327,39 @@ export const submitFormResponse = async (req: Request, res: Response) => {
       // No PII redaction needed now that we do not map PII from form fields
       const sanitizedData: any = validationResult.data;
 
+      // Attachments uploaded beforehand are referenced by Photo/Signature answers or attachmentIds
+      const attachments = await resolveResponseAttachments({
+        formTemplateId: id,
+        version: validationResult.version,
+        data: sanitizedData,
+        attachmentIds: req.body.attachmentIds,
+        userId: req.user.id,
+        transaction
+      });
+      if (attachments.invalid.length) {
+        logger.warn('Invalid attachment references', { invalid: attachments.invalid });
+        return {
+          success: false,
+          status: 400,
+          message: "Invalid attachment references",
+          errors: attachments.invalid.map(a => `Attachment '${a}' not found or already linked`)
+        };
+      }
+
+      // A consent signature must be the collector's own upload, checked before anything is recorded
+      if (!isDraft && beneficiaryId) {
+        const signatureError = await validateFormConsentSignature(id, sanitizedData, { userId: req.user.id, transaction });
+        if (signatureError) {
+          return { success: false, status: 400, message: "Form validation errors", errors: [signatureError] };
+        }
+      }
+
       // Create the form response
       logger.info('Creating form response', { templateId: id, userId: req.user.id });
       const formResponse = await FormResponse.create({
         id: uuidv4(),
         formTemplateId: id,
+        formTemplateVersion: validationResult.version,
         entityId,
         entityType,
         submittedBy: req.user.id,
@@ -123,112 +367,34 @@ export const submitFormResponse = async (req: Request, res: Response) => {
         data: sanitizedData,
         latitude,
         longitude,
+        status,
         submittedAt: new Date()
       }, { transaction });
 
-      // If services were provided, create service deliveries
-      const servicesInput = Array.isArray(req.body.services) ? req.body.services : [];
-      let createdDeliveries = 0;
-      let skippedDeliveries: Array<{ serviceId: string; reason: string }> = [];
-      let unassignedNotBlocked = 0;
-
-      if (servicesInput.length > 0) {
-        // Determine allowed serviceIds for this entity, considering hierarchy
-        const allowedServiceIds = new Set<string>();
-
-        if (entityType === 'project') {
-          const assignments = await ServiceAssignment.findAll({ where: { entityId, entityType: 'project' }, transaction });
-          for (const a of assignments) allowedServiceIds.add(a.get('serviceId') as string);
-        } else if (entityType === 'subproject') {
-          // Include assignments at subproject level and parent project level
-          const [subAssignments, sub] = await Promise.all([
-            ServiceAssignment.findAll({ where: { entityId, entityType: 'subproject' }, transaction }),
-            Subproject.findByPk(entityId, { transaction }),
-          ]);
-          for (const a of subAssignments) allowedServiceIds.add(a.get('serviceId') as string);
-          const projectId = sub?.get('projectId') as string | undefined;
-          if (projectId) {
-            const projAssignments = await ServiceAssignment.findAll({ where: { entityId: projectId, entityType: 'project' }, transaction });
-            for (const a of projAssignments) allowedServiceIds.add(a.get('serviceId') as string);
-          }
-        } else if (entityType === 'activity') {
-          // Include assignments at the activity's subproject and its parent project
-          const activity = await Activity.findByPk(entityId, { transaction });
-          const subprojectId = activity?.get('subprojectId') as string | undefined;
-          if (subprojectId) {
-            const [subAssignments, sub] = await Promise.all([
-              ServiceAssignment.findAll({ where: { entityId: subprojectId, entityType: 'subproject' }, transaction }),
-              Subproject.findByPk(subprojectId, { transaction }),
-            ]);
-            for (const a of subAssignments) allowedServiceIds.add(a.get('serviceId') as string);
-            const projectId = sub?.get('projectId') as string | undefined;
-            if (projectId) {
-              const projAssignments = await ServiceAssignment.findAll({ where: { entityId: projectId, entityType: 'project' }, transaction });
-              for (const a of projAssignments) allowedServiceIds.add(a.get('serviceId') as string);
-            }
-          }
-        }
-
-        for (const item of servicesInput) {
-          const serviceId = item?.serviceId as string | undefined;
-          if (!serviceId) {
-            skippedDeliveries.push({ serviceId: 'unknown', reason: 'missing serviceId' });
-            continue;
-          }
-          if (!beneficiaryId) {
-            skippedDeliveries.push({ serviceId, reason: 'no beneficiary linked' });
-            continue;
-          }
-
-          // Previously we skipped if serviceId was not assigned to the entity when there were some assignments.
-          // Business decision: proceed to create delivery but log a warning for visibility.
-          if (allowedServiceIds.size > 0 && !allowedServiceIds.has(serviceId)) {
-            logger.warn('Service not assigned to entity; proceeding to create ServiceDelivery per relaxed policy', {
-              entityId,
-              entityType,
-              serviceId,
-              beneficiaryId,
-            });
-            unassignedNotBlocked += 1;
-          }
+      await linkAttachmentsToResponse(formResponse.id, attachments.ids, transaction);
 
-          const deliveredAt = item?.deliveredAt ? new Date(item.deliveredAt) : new Date();
-          const staffUserId = (item?.staffUserId as string | undefined) || req.user.id;
-          const notes = (item?.notes as string | undefined) || null;
-
-          await ServiceDelivery.create({
-            id: uuidv4(),
-            serviceId,
-            beneficiaryId,
-            entityId,
-            entityType,
-            formResponseId: formResponse.id,
-            staffUserId,
-            deliveredAt,
-            notes,
-          }, { transaction });
-          createdDeliveries += 1;
-        }
-      }
+      // Consents and service deliveries are only recorded for submitted responses
+      const deliveries = isDraft
+        ? { created: 0, skipped: [], unassignedNotBlocked: 0 }
+        : await recordResponseSubmission(formResponse, req.body.services, req.user.id, transaction);
 
       // Create audit log entry
       await AuditLog.create({
         id: uuidv4(),
         userId: req.user.id,
-        action: 'FORM_RESPONSE_SUBMIT',
-        description: `Submitted response to form '${template.name}' for ${entityType} with ID ${entityId}`,
+        action: isDraft ? 'FORM_RESPONSE_DRAFT_SAVE' : 'FORM_RESPONSE_SUBMIT',
+        description: `${isDraft ? 'Saved draft' : 'Submitted'} response to form '${template.name}' for ${entityType} with ID ${entityId}`,
         details: JSON.stringify({
           templateId: id,
           responseId: formResponse.id,
           entityId,
           entityType,
           version: template.version,
+          status,
           beneficiaryId: beneficiaryId ?? null,
           services: {
             requested: Array.isArray(req.body.services) ? req.body.services.length : 0,
-            created: createdDeliveries,
-            skipped: skippedDeliveries,
-            unassignedNotBlocked,
+            ...deliveries,
           }
         }),
         timestamp: new Date()
@@ -246,7 +412,7 @@ export const submitFormResponse = async (req: Request, res: Response) => {
       return { 
         success: true, 
         status: 201, 
-        message: "Form response submitted successfully",
+        message: isDraft ? "Form response draft saved successfully" : "Form response submitted successfully",
         data: formResponse 
       };
     });
@@ -389,26 +555,7 @@ export const getFormResponses = async (req: Request, res: Response) => {
     if (beneficiaryId) whereClause.beneficiaryId = beneficiaryId;
     if (beneficiaryIds && beneficiaryIds.length) whereClause.beneficiaryId = { [Op.in]: beneficiaryIds };
 
-    const ands: any[] = [];
-    // RBAC visibility rules
-    const roleNames = await getUserRoleNames(req);
-    const isAdmin = roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
-    const isManager = roleNames.includes(ROLES.PROGRAM_MANAGER) || roleNames.includes(ROLES.SUB_PROJECT_MANAGER);
-    const allowed = (req.user && Array.isArray((req.user as any).allowedProgramIds)) ? ((req.user as any).allowedProgramIds as string[]) : [];
-    if (isAdmin) {
-      // no additional constraints
-    } else if (isManager && allowed.length) {
-      const esc = (v: string) => String(v).replace(/'/g, "''");
-      const list = allowed.map(id => `'${esc(id)}'`).join(',');
-      const scopeOr: any[] = [];
-      scopeOr.push(literal(`("entityType" = 'project' AND "entityId" IN (${list}))`));
-      scopeOr.push(literal(`("entityType" = 'subproject' AND "entityId" IN (SELECT id FROM subprojects WHERE "projectId" IN (${list})))`));
-      scopeOr.push(literal(`("entityType" = 'activity' AND "entityId" IN (SELECT a.id FROM activities a JOIN subprojects s ON a."subprojectId" = s.id WHERE s."projectId" IN (${list})))`));
-      ands.push({ [Op.or]: scopeOr });
-    } else {
-      // Field Operator or other roles: only own submissions
-      (whereClause as any).submittedBy = req.user.id;
-    }
+    const ands: any[] = await buildVisibilityFilters(req);
     if (serviceId) {
       ands.push(literal(`id IN (SELECT "formResponseId" FROM service_deliveries WHERE "serviceId" = '${String(serviceId).replace(/'/g, "''")}')`));
     }
@@ -416,6 +563,7 @@ export const getFormResponses = async (req: Request, res: Response) => {
       const list = serviceIds.map(id => `'${String(id).replace(/'/g, "''")}'`).join(',');
       ands.push(literal(`id IN (SELECT "formResponseId" FROM service_deliveries WHERE "serviceId" IN (${list}))`));
     }
+    ands.push(...buildStatusFilters(req));
     if (ands.length) {
       (whereClause as any)[Op.and] = [ ...(((whereClause as any)[Op.and] as any[]) || []), ...ands ];
     }
@@ -591,6 +739,7 @@ export const getResponsesByEntity = async (req: Request, res: Response) => {
       const list = serviceIds.map(id => `'${String(id).replace(/'/g, "''")}'`).join(',');
       ands.push(literal(`id IN (SELECT "formResponseId" FROM service_deliveries WHERE "serviceId" IN (${list}))`));
     }
+    ands.push(...buildStatusFilters(req));
     if (ands.length) {
       (whereClause as any)[Op.and] = [ ...(((whereClause as any)[Op.and] as any[]) || []), ...ands ];
     }
@@ -733,6 +882,7 @@ export const getAllResponses = async (req: Request, res: Response) => {
       }
     }
 
+    ands.push(...buildStatusFilters(req));
     if (ands.length) {
       (whereClause as any)[Op.and] = [ ...(((whereClause as any)[Op.and] as any[]) || []), ...ands ];
     }
@@ -795,6 +945,11 @@ export const getFormResponseById = async (req: Request, res: Response) => {
             { model: User, as: 'staff', attributes: ['id', 'firstName', 'lastName', 'email'] },
           ],
         },
+        {
+          model: FormResponseAttachment,
+          as: 'attachments',
+          attributes: ['id', 'fieldName', 'originalName', 'mimeType', 'sizeBytes', 'checksum', 'createdAt'],
+        },
       ],
     });
 
@@ -802,43 +957,8 @@ export const getFormResponseById = async (req: Request, res: Response) => {
       return res.status(404).json({ success: false, message: 'Form response not found' });
     }
 
-    // RBAC: admins see all; managers see allowed project scope; others only own submissions
-    const roleNames = await getUserRoleNames(req);
-    const isAdmin = roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
-    const isManager = roleNames.includes(ROLES.PROGRAM_MANAGER) || roleNames.includes(ROLES.SUB_PROJECT_MANAGER);
-    if (!isAdmin && !isManager) {
-      const submittedBy = String(response.get('submittedBy'));
-      if (submittedBy !== String(req.user.id)) {
-        return res.status(403).json({ success: false, message: 'You do not have access to this response' });
-      }
-    }
-
-    // RBAC: ensure user can access the entity associated with the response
-    const roleNamesId = await getUserRoleNames(req);
-    const isAdminId = roleNamesId.includes(ROLES.SUPER_ADMIN) || roleNamesId.includes(ROLES.SYSTEM_ADMINISTRATOR);
-    if (!isAdminId && req.user && Array.isArray(req.user.allowedProgramIds) && req.user.allowedProgramIds.length > 0) {
-      const allowed = new Set<string>(req.user.allowedProgramIds as any);
-      const entityType = response.get('entityType') as 'project' | 'subproject' | 'activity';
-      const entityId = String(response.get('entityId'));
-      let projectIdToCheck: string | null = null;
-
-      if (entityType === 'project') {
-        projectIdToCheck = entityId;
-      } else if (entityType === 'subproject') {
-        const sub = await Subproject.findByPk(entityId, { attributes: ['projectId'] });
-        projectIdToCheck = sub ? String(sub.get('projectId')) : null;
-      } else if (entityType === 'activity') {
-        const act = await Activity.findByPk(entityId, { attributes: ['subprojectId'] });
-        const subId = act ? String(act.get('subprojectId')) : null;
-        if (subId) {
-          const sub = await Subproject.findByPk(subId, { attributes: ['projectId'] });
-          projectIdToCheck = sub ? String(sub.get('projectId')) : null;
-        }
-      }
-
-      if (!projectIdToCheck || !allowed.has(projectIdToCheck)) {
-        return res.status(403).json({ success: false, message: 'You do not have access to this response' });
-      }
+    if (!(await canAccessFormResponse(req, response))) {
+      return res.status(403).json({ success: false, message: 'You do not have access to this response' });
     }
 
     return res.status(200).json({ success: true, data: response });
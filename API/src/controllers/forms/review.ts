@@ -0,0 +1,241 @@
+import { Request, Response } from "express";
+import { FormResponse, AuditLog } from "../../models";
+import { v4 as uuidv4 } from "uuid";
+import { createLogger } from "../../utils/logger";
+import sequelize from "../../db/connection";
+import validateFormResponse from "../../services/forms/validateFormResponse";
+import { resolveResponseAttachments, linkAttachmentsToResponse } from "../../services/forms/attachmentsService";
+import { EDITABLE_STATUSES, ResponseStatus, transitionFormResponse } from "../../services/forms/responseWorkflowService";
+import { canAccessFormResponse, getUserRoleNames, recordResponseSubmission } from "./responses";
+import { validateFormConsentSignature } from "../../services/beneficiaries/consentService";
+import { ROLES } from "../../constants/roles";
+
+// Create a logger instance for this module
+const logger = createLogger('forms-review-controller');
+
+/**
+ * Edit the data of a draft or rejected form response (author only).
+ * The data is re-validated against the response's template version, or `formTemplateVersion` if given.
+ */
+export const updateFormResponse = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  logger.info('Updating form response', { responseId: id, userId: req.user?.id });
+
+  try {
+    const result = await sequelize.transaction(async (transaction) => {
+      const response = await FormResponse.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!response) {
+        return { success: false, status: 404, message: "Form response not found" };
+      }
+      if (String(response.submittedBy) !== String(req.user.id)) {
+        return { success: false, status: 403, message: "Only the author can edit this response" };
+      }
+      if (!EDITABLE_STATUSES.includes(response.status)) {
+        return { success: false, status: 409, message: `Responses in status '${response.status}' cannot be edited` };
+      }
+
+      const data = req.body.data;
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { success: false, status: 400, message: "data must be an object" };
+      }
+
+      const version = req.body.formTemplateVersion ?? response.formTemplateVersion;
+      const validationResult = await validateFormResponse(response.formTemplateId, data, version, {
+        partial: response.status === 'draft'
+      });
+      if (!validationResult.valid) {
+        logger.warn('Form data validation errors', { errors: validationResult.errors });
+        return {
+          success: false,
+          status: 400,
+          message: "Form validation errors",
+          errors: validationResult.errors
+        };
+      }
+
+      const attachments = await resolveResponseAttachments({
+        formTemplateId: response.formTemplateId,
+        formResponseId: response.id,
+        version: validationResult.version,
+        data: validationResult.data,
+        attachmentIds: req.body.attachmentIds,
+        userId: req.user.id,
+        transaction
+      });
+      if (attachments.invalid.length) {
+        return {
+          success: false,
+          status: 400,
+          message: "Invalid attachment references",
+          errors: attachments.invalid.map(a => `Attachment '${a}' not found or already linked`)
+        };
+      }
+
+      const previous = response.data || {};
+      const changedFields = Array.from(new Set([...Object.keys(previous), ...Object.keys(validationResult.data)]))
+        .filter(key => JSON.stringify(previous[key]) !== JSON.stringify(validationResult.data[key]));
+
+      await response.update({
+        data: validationResult.data,
+        formTemplateVersion: validationResult.version
+      }, { transaction });
+      await linkAttachmentsToResponse(response.id, attachments.ids, transaction);
+
+      await AuditLog.create({
+        id: uuidv4(),
+        userId: req.user.id,
+        action: 'FORM_RESPONSE_UPDATE',
+        description: `Edited form response ${response.id}`,
+        details: JSON.stringify({
+          responseId: response.id,
+          templateId: response.formTemplateId,
+          status: response.status,
+          version: validationResult.version,
+          changedFields
+        }),
+        timestamp: new Date()
+      }, { transaction });
+
+      return { success: true, status: 200, message: "Form response updated successfully", data: response };
+    });
+
+    if (!result.success) {
+      return res.status(result.status).json({ success: false, message: result.message, errors: result.errors });
+    }
+    return res.status(result.status).json({ success: true, message: result.message, data: result.data });
+  } catch (error: any) {
+    logger.error('Error updating form response', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Submit a draft, or resubmit a rejected response, for review (author only).
+ * The stored data must pass full validation, including required fields. Like a direct
+ * submission, this records the consents answered on the form and the `services` delivered.
+ */
+export const submitForReview = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  logger.info('Submitting form response for review', { responseId: id, userId: req.user?.id });
+
+  try {
+    const result = await sequelize.transaction(async (transaction) => {
+      const response = await FormResponse.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!response) {
+        return { success: false, status: 404, message: "Form response not found" };
+      }
+      if (String(response.submittedBy) !== String(req.user.id)) {
+        return { success: false, status: 403, message: "Only the author can submit this response" };
+      }
+
+      const validationResult = await validateFormResponse(response.formTemplateId, response.data, response.formTemplateVersion);
+      if (!validationResult.valid) {
+        return {
+          success: false,
+          status: 400,
+          message: "Form validation errors",
+          errors: validationResult.errors
+        };
+      }
+
+      if (response.beneficiaryId) {
+        const signatureError = await validateFormConsentSignature(response.formTemplateId, response.data, {
+          userId: req.user.id,
+          transaction,
+          formResponseId: response.id,
+        });
+        if (signatureError) {
+          return { success: false, status: 400, message: "Form validation errors", errors: [signatureError] };
+        }
+      }
+
+      const error = await transitionFormResponse(response, 'submitted', { userId: req.user.id, transaction });
+      if (error) {
+        return { success: false, status: 409, message: error };
+      }
+
+      const deliveries = await recordResponseSubmission(response, req.body?.services, req.user.id, transaction);
+      if (deliveries.created || deliveries.replaced || deliveries.skipped.length) {
+        logger.info('Recorded services of submitted response', { responseId: id, ...deliveries });
+      }
+
+      return { success: true, status: 200, message: "Form response submitted for review", data: response };
+    });
+
+    if (!result.success) {
+      return res.status(result.status).json({ success: false, message: result.message, errors: result.errors });
+    }
+    return res.status(result.status).json({ success: true, message: result.message, data: result.data });
+  } catch (error: any) {
+    logger.error('Error submitting form response for review', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Approve or reject a submitted response. Reviewers must have access to the response;
+ * only administrators may review their own submissions.
+ */
+const reviewFormResponse = async (req: Request, res: Response, to: ResponseStatus) => {
+  const { id } = req.params;
+  logger.info('Reviewing form response', { responseId: id, to, userId: req.user?.id });
+
+  try {
+    const roleNames = await getUserRoleNames(req);
+    const isAdmin = roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
+
+    const result = await sequelize.transaction(async (transaction) => {
+      const response = await FormResponse.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!response) {
+        return { success: false, status: 404, message: "Form response not found" };
+      }
+      if (!(await canAccessFormResponse(req, response))) {
+        return { success: false, status: 403, message: "You do not have access to this response" };
+      }
+      if (!isAdmin && String(response.submittedBy) === String(req.user.id)) {
+        return { success: false, status: 403, message: "You cannot review your own submission" };
+      }
+
+      const error = await transitionFormResponse(response, to, {
+        userId: req.user.id,
+        comment: req.body?.comment,
+        transaction
+      });
+      if (error) {
+        return { success: false, status: to === 'rejected' && response.status === 'submitted' ? 400 : 409, message: error };
+      }
+
+      return {
+        success: true,
+        status: 200,
+        message: to === 'approved' ? "Form response approved" : "Form response rejected",
+        data: response
+      };
+    });
+
+    if (!result.success) {
+      return res.status(result.status).json({ success: false, message: result.message });
+    }
+    return res.status(result.status).json({ success: true, message: result.message, data: result.data });
+  } catch (error: any) {
+    logger.error('Error reviewing form response', { id, to, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Approve a submitted form response (optional `comment`)
+ */
+export const approveFormResponse = async (req: Request, res: Response) => reviewFormResponse(req, res, 'approved');
+
+/**
+ * Reject a submitted form response; `comment` is required and is shown to the author
+ */
+export const rejectFormResponse = async (req: Request, res: Response) => reviewFormResponse(req, res, 'rejected');
+
+export default {
+  updateFormResponse,
+  submitForReview,
+  approveFormResponse,
+  rejectFormResponse,
+};
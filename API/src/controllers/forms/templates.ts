@@ -6,6 +6,13 @@ import { Op } from "sequelize";
 import sequelize from "../../db/connection";
 import FormEntityAssociation from "../../models/FormEntityAssociation";
 import kpiCalculationService from "../../services/forms/kpiCalculationService";
+import {
+  snapshotTemplateVersion,
+  getTemplateVersionSchema,
+  listTemplateVersions,
+  diffTemplateSchemas
+} from "../../services/forms/templateVersionService";
+import { resolveLocale, localizeSchema } from "../../services/forms/formLocale";
 
 // Create a logger instance for this module
 const logger = createLogger('forms-templates-controller');
@@ -199,6 +206,9 @@ export const createFormTemplate = async (req: Request, res: Response) => {
         version: 1,
         includeBeneficiaries: includeBeneficiaries === true
       }, { transaction });
+
+      // Freeze the initial schema as version 1
+      await snapshotTemplateVersion(formTemplate, { transaction, userId: req.user.id });
       
       // Create associations with entities
       for (const entity of entities) {
@@ -357,6 +367,8 @@ export const updateFormTemplate = async (req: Request, res: Response) => {
       let newVersion = template.version;
       const isSchemaChanged = schema && JSON.stringify(schema) !== JSON.stringify(template.schema);
       if (isSchemaChanged) {
+        // Make sure the outgoing schema is frozen (templates created before versioning have no snapshot)
+        await snapshotTemplateVersion(template, { transaction });
         newVersion += 1; // Increment version if schema is changing
       }
 
@@ -386,6 +398,11 @@ export const updateFormTemplate = async (req: Request, res: Response) => {
         return { success: false, status: 500, message: "Failed to update form template" };
       }
 
+      // Freeze the new schema as its own version; existing responses stay pinned to theirs
+      if (isSchemaChanged) {
+        await snapshotTemplateVersion({ id, version: newVersion, schema }, { transaction, userId: req.user.id });
+      }
+
       // Update entity associations if provided
       if (entities && Array.isArray(entities)) {
         // Validate entities
@@ -491,6 +508,11 @@ export const getFormTemplatesByEntity = async (req: Request, res: Response) => {
 
   logger.info('Getting form templates', { projectId, subprojectId, activityId, entityType, page, limit });
 
+  const { locale, error: localeError } = resolveLocale(req.query.locale);
+  if (localeError) {
+    return res.status(400).json({ success: false, message: localeError });
+  }
+
   try {
     // Check if we need to filter by entity associations at all
     const hasEntityFilter = entityId || entityType;
@@ -689,6 +711,7 @@ export const getFormTemplatesByEntity = async (req: Request, res: Response) => {
       });
       return {
         ...tJson,
+        schema: locale ? localizeSchema(tJson.schema, locale) : tJson.schema,
         entityAssociations: enrichedAssociations,
       };
     });
@@ -720,6 +743,11 @@ export const getFormTemplatesByEntity = async (req: Request, res: Response) => {
 export const getFormTemplateById = async (req: Request, res: Response) => {
   const { id } = req.params;
   logger.info('Getting form template by ID', { templateId: id });
+
+  const { locale, error: localeError } = resolveLocale(req.query.locale);
+  if (localeError) {
+    return res.status(400).json({ success: false, message: localeError });
+  }
   
   try {
     // Find template with its entity associations
@@ -784,6 +812,7 @@ export const getFormTemplateById = async (req: Request, res: Response) => {
 
     const enrichedTemplate = {
       ...template.toJSON(),
+      schema: locale ? localizeSchema(template.schema, locale) : template.schema,
       entityAssociations: enrichedAssociations,
     };
 
@@ -800,6 +829,158 @@ export const getFormTemplateById = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Load a template and check the user has access to one of its associated entities
+ */
+const loadAccessibleTemplate = async (req: Request, id: string) => {
+  const template = await FormTemplate.findByPk(id, {
+    include: [{
+      model: FormEntityAssociation,
+      as: 'entityAssociations'
+    }]
+  });
+
+  if (!template) {
+    return { status: 404, message: "Form template not found" };
+  }
+
+  if (req.user && req.user.allowedProgramIds && template.entityAssociations) {
+    const hasAccess = template.entityAssociations.some(ea =>
+      req.user.allowedProgramIds!.includes(ea.entityId)
+    );
+    if (!hasAccess) {
+      return { status: 403, message: "You do not have access to any entities associated with this form template" };
+    }
+  }
+
+  return { status: 200, template };
+};
+
+/**
+ * List the frozen versions of a form template
+ */
+export const getFormTemplateVersions = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  logger.info('Listing form template versions', { templateId: id });
+
+  try {
+    const access = await loadAccessibleTemplate(req, id);
+    if (!access.template) {
+      return res.status(access.status).json({ success: false, message: access.message });
+    }
+
+    const versions = await listTemplateVersions(id);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        templateId: id,
+        currentVersion: access.template.version,
+        versions: versions || []
+      }
+    });
+  } catch (error) {
+    logger.error(`Error listing versions for form template with ID: ${id}`, error);
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+/**
+ * Get the schema of a specific form template version
+ */
+export const getFormTemplateVersion = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const version = parseInt(req.params.version, 10);
+  logger.info('Getting form template version', { templateId: id, version });
+
+  try {
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ success: false, message: "version must be a positive integer" });
+    }
+    const { locale, error: localeError } = resolveLocale(req.query.locale);
+    if (localeError) {
+      return res.status(400).json({ success: false, message: localeError });
+    }
+
+    const access = await loadAccessibleTemplate(req, id);
+    if (!access.template) {
+      return res.status(access.status).json({ success: false, message: access.message });
+    }
+
+    const schema = await getTemplateVersionSchema(id, version);
+    if (!schema) {
+      return res.status(404).json({ success: false, message: `Version ${version} not found for this form template` });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { templateId: id, version, schema: locale ? localizeSchema(schema, locale) : schema }
+    });
+  } catch (error) {
+    logger.error(`Error getting version for form template with ID: ${id}`, error);
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+/**
+ * Diff two versions of a form template (field additions, removals, renames and property changes)
+ */
+export const diffFormTemplateVersions = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const from = parseInt(String(req.query.from ?? ''), 10);
+  logger.info('Diffing form template versions', { templateId: id, from, to: req.query.to });
+
+  try {
+    if (!Number.isInteger(from) || from < 1) {
+      return res.status(400).json({ success: false, message: "Query parameter 'from' must be a positive integer" });
+    }
+
+    const access = await loadAccessibleTemplate(req, id);
+    if (!access.template) {
+      return res.status(access.status).json({ success: false, message: access.message });
+    }
+
+    // Default to diffing against the current version
+    const to = req.query.to !== undefined ? parseInt(String(req.query.to), 10) : access.template.version;
+    if (!Number.isInteger(to) || to < 1) {
+      return res.status(400).json({ success: false, message: "Query parameter 'to' must be a positive integer" });
+    }
+
+    const [fromSchema, toSchema] = await Promise.all([
+      getTemplateVersionSchema(id, from),
+      getTemplateVersionSchema(id, to)
+    ]);
+    if (!fromSchema || !toSchema) {
+      return res.status(404).json({
+        success: false,
+        message: `Version ${!fromSchema ? from : to} not found for this form template`
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        templateId: id,
+        from,
+        to,
+        ...diffTemplateSchemas(fromSchema, toSchema)
+      }
+    });
+  } catch (error) {
+    logger.error(`Error diffing versions for form template with ID: ${id}`, error);
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
 // Delete a form template (soft delete)
 export const deleteFormTemplate = async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -1034,6 +1215,9 @@ export default {
   updateFormTemplate,
   getFormTemplateById,
   getFormTemplatesByEntity,
+  getFormTemplateVersions,
+  getFormTemplateVersion,
+  diffFormTemplateVersions,
   deleteFormTemplate,
   setFormTemplateInactive,
   hardDeleteFormTemplate
@@ -3,8 +3,10 @@ import sequelize from '../../db/connection';
 import { v4 as uuidv4, validate as uuidValidate } from 'uuid';
 import { createLogger } from '../../utils/logger';
 import { AuditLog, Service, ServiceAssignment, ServiceDelivery, FormResponse, User, ProjectUser, SubprojectUser } from '../../models';
-import { Op, fn, col } from 'sequelize';
+import { Op, fn, col, literal } from 'sequelize';
 import { ROLES } from '../../constants/roles';
+import { CONDITION_CATEGORIES } from '../../services/beneficiaries/conditionCatalogService';
+import { beneficiaryIdsWithConditionSql, currentConditionsByBeneficiary } from '../../services/beneficiaries/healthProfileService';
 
 const logger = createLogger('services-controller');
 
@@ -159,6 +161,17 @@ const buildDeliveryWhere = async (q: any, userId?: string) => {
   // Entity type filtering
   if (q.entityType) where.entityType = q.entityType;
 
+  // Review workflow: deliveries recorded through a form response only count once it is approved
+  if (String(q.approvedOnly) === 'true') {
+    where[Op.and] = [literal(`("formResponseId" IS NULL OR "formResponseId" IN (SELECT id FROM form_responses WHERE status = 'approved'))`)];
+  }
+
+  // Health profile: deliveries to beneficiaries with a current condition of a category and/or code
+  if (q.conditionCategory || q.conditionCode) {
+    const sql = beneficiaryIdsWithConditionSql({ category: q.conditionCategory ? String(q.conditionCategory) : undefined, code: q.conditionCode ? String(q.conditionCode) : undefined });
+    where[Op.and] = [...(where[Op.and] || []), literal(`"ServiceDelivery"."beneficiaryId" IN (${sql})`)];
+  }
+
   return where;
 };
 
@@ -344,6 +357,41 @@ const metricsDeliveriesSummary = async (req: Request, res: Response) => {
   }
 };
 
+// GET /services/metrics/deliveries/by-condition-category
+const metricsDeliveriesByConditionCategory = async (req: Request, res: Response) => {
+  try {
+    const where = await buildDeliveryWhere(req.query, req.user?.id);
+    const include = buildFormTemplateInclude(req.query);
+    const rows = await ServiceDelivery.findAll({
+      where,
+      include,
+      attributes: ['beneficiaryId', [fn('COUNT', col('*')), 'count']],
+      group: ['beneficiaryId'],
+      raw: true,
+    }) as any[];
+
+    const conditions = await currentConditionsByBeneficiary(rows.map(r => r.beneficiaryId));
+    const titles = new Map(CONDITION_CATEGORIES.map(c => [c.category, c.title]));
+    const buckets = new Map<string | null, { deliveries: number; beneficiaries: number }>();
+    for (const row of rows) {
+      const categories = Array.from(new Set((conditions.get(row.beneficiaryId) || []).map(c => c.category)));
+      for (const category of categories.length ? categories : [null]) {
+        const bucket = buckets.get(category) || { deliveries: 0, beneficiaries: 0 };
+        bucket.deliveries += Number(row.count || 0);
+        bucket.beneficiaries++;
+        buckets.set(category, bucket);
+      }
+    }
+    const items = Array.from(buckets.entries())
+      .map(([category, bucket]) => ({ category, title: category ? titles.get(category) ?? category : null, ...bucket }))
+      .sort((a, b) => b.deliveries - a.deliveries);
+    return res.status(200).json({ success: true, items });
+  } catch (error: any) {
+    logger.error('Error computing deliveries by condition category', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
 const batchAssignToEntity = async (req: Request, res: Response) => {
   const { entityId, entityType, serviceIds, removeUnlisted } = req.body || {};
   if (!entityId || !entityType || !['project', 'subproject'].includes(entityType)) {
@@ -637,4 +685,5 @@ export default {
   metricsDeliveriesByFormTemplate,
   metricsDeliveriesSeries,
   metricsDeliveriesSummary,
+  metricsDeliveriesByConditionCategory,
 };
@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize from '../../db/connection';
+import { AuditLog } from '../../models';
+import { createLogger } from '../../utils/logger';
+import { SYNC_CONFLICT_STATUSES } from '../../constants/syncConflicts';
+import {
+  ConflictResult,
+  getSyncConflict,
+  isSyncConflictStatus,
+  listSyncConflicts,
+  resolveSyncConflict,
+} from '../../services/sync/conflictService';
+
+const logger = createLogger('sync-conflicts-controller');
+
+const sendResult = (res: Response, result: ConflictResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+const paging = (req: Request) => ({
+  page: req.query.page ? Math.max(parseInt(String(req.query.page), 10) || 1, 1) : 1,
+  limit: req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20,
+});
+
+/**
+ * Conflict inbox, oldest first. Query: `status` (open|resolved, default open), `beneficiaryId`,
+ * `page`, `limit`. Items list the conflicting fields without their values.
+ */
+const list = async (req: Request, res: Response) => {
+  const status = (req.query.status as string) || 'open';
+  const beneficiaryId = req.query.beneficiaryId ? String(req.query.beneficiaryId) : undefined;
+  if (!isSyncConflictStatus(status)) {
+    return res.status(400).json({ success: false, message: `status must be one of: ${SYNC_CONFLICT_STATUSES.join(', ')}` });
+  }
+  const { page, limit } = paging(req);
+  try {
+    const { items, totalItems } = await listSyncConflicts({ status, beneficiaryId }, page, limit);
+    return res.status(200).json({ success: true, items, page, limit, totalItems, totalPages: Math.ceil(totalItems / limit) });
+  } catch (error: any) {
+    logger.error('Error listing sync conflicts', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * One conflict with the base, device, server-at-detection and current value of each conflicting
+ * field. Reads are audited; never cached.
+ */
+const getById = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const result = await getSyncConflict(id);
+    if (result.success) {
+      try {
+        await AuditLog.create({
+          id: uuidv4(),
+          userId: req.user.id,
+          action: 'SYNC_CONFLICT_READ',
+          description: `Read sync conflict values of beneficiary '${result.data.pseudonym}'`,
+          details: JSON.stringify({ conflictId: id, beneficiaryId: result.data.beneficiaryId, fields: result.data.fields }),
+          timestamp: new Date(),
+        });
+      } catch (_) { /* ignore */ }
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('Pragma', 'no-cache');
+      res.setHeader('X-PII-Access', 'decrypt');
+    }
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error reading sync conflict', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Resolve a conflict. Body: `choices` mapping every conflicting field to 'client', 'server' or
+ * { value } (a merged value).
+ */
+const resolve = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      resolveSyncConflict(id, req.body?.choices, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error resolving sync conflict', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default { list, getById, resolve };
@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import sequelize from '../../db/connection';
+import { createLogger } from '../../utils/logger';
+import { SYNC_DEVICE_OPERATIONS, SYNC_DEVICE_STATUSES, SyncDeviceOperation } from '../../constants/syncDevices';
+import { resolveDeviceId } from '../../services/sync/idempotencyService';
+import {
+  DeviceResult,
+  acknowledgeWipe,
+  getDevice,
+  isSyncDeviceStatus,
+  listDeviceEvents,
+  listDevices,
+  rekeyDevice,
+  revokeDevice,
+  toSyncDeviceView,
+} from '../../services/sync/deviceService';
+
+const logger = createLogger('sync-devices-controller');
+
+const sendResult = (res: Response, result: DeviceResult) => {
+  if (!result.success) {
+    return res.status(result.status).json({ success: false, message: result.message });
+  }
+  return res.status(result.status).json({ success: true, data: result.data });
+};
+
+const paging = (req: Request) => ({
+  page: req.query.page ? Math.max(parseInt(String(req.query.page), 10) || 1, 1) : 1,
+  limit: req.query.limit ? Math.max(1, Math.min(parseInt(String(req.query.limit), 10) || 20, 100)) : 20,
+});
+
+/**
+ * Register the calling device or refresh its details. Runs behind trackSyncDevice('register'), which
+ * registers it (or refuses it when revoked).
+ */
+const register = async (req: Request, res: Response) => {
+  const device = res.locals.syncDevice;
+  if (!device) return res.status(400).json({ success: false, message: 'X-Device-Id header or deviceId is required' });
+  return res.status(200).json({ success: true, data: toSyncDeviceView(device) });
+};
+
+/**
+ * Registered devices, most recently synced first. Query: `userId`, `status` (active|revoked),
+ * `deviceId`, `page`, `limit`.
+ */
+const list = async (req: Request, res: Response) => {
+  const status = req.query.status ? String(req.query.status) : undefined;
+  if (status && !isSyncDeviceStatus(status)) {
+    return res.status(400).json({ success: false, message: `status must be one of: ${SYNC_DEVICE_STATUSES.join(', ')}` });
+  }
+  const userId = req.query.userId ? String(req.query.userId) : undefined;
+  const deviceId = req.query.deviceId ? String(req.query.deviceId) : undefined;
+  const { page, limit } = paging(req);
+  try {
+    const { items, totalItems } = await listDevices({ userId, status: status as any, deviceId }, page, limit);
+    return res.status(200).json({ success: true, items, page, limit, totalItems, totalPages: Math.ceil(totalItems / limit) });
+  } catch (error: any) {
+    logger.error('Error listing sync devices', { error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+const getById = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    return sendResult(res, await getDevice(id));
+  } catch (error: any) {
+    logger.error('Error reading sync device', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Sync history of a device, newest first. Query: `operation`, `page`, `limit`.
+ */
+const history = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const operation = req.query.operation ? String(req.query.operation) : undefined;
+  if (operation && !(SYNC_DEVICE_OPERATIONS as readonly string[]).includes(operation)) {
+    return res.status(400).json({ success: false, message: `operation must be one of: ${SYNC_DEVICE_OPERATIONS.join(', ')}` });
+  }
+  const { page, limit } = paging(req);
+  try {
+    const result = await listDeviceEvents(id, { operation: operation as SyncDeviceOperation | undefined }, page, limit);
+    if (!result.success) return sendResult(res, result);
+    const { items, totalItems } = result.data!;
+    return res.status(200).json({ success: true, items, page, limit, totalItems, totalPages: Math.ceil(totalItems / limit) });
+  } catch (error: any) {
+    logger.error('Error listing sync device history', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Revoke a device. Body: optional `reason`.
+ */
+const revoke = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : null;
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      revokeDevice(id, reason, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error revoking sync device', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Remove the pinned public key of a device, so its next bundle request pins a new one
+ */
+const rekey = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      rekeyDevice(id, req.user.id, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error re-keying sync device', { id, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * Confirmation from a revoked device (X-Device-Id) that its local data has been deleted
+ */
+const wipeConfirmation = async (req: Request, res: Response) => {
+  const deviceId = resolveDeviceId(req.header('x-device-id'), req.body?.deviceId);
+  if (!deviceId) return res.status(400).json({ success: false, message: 'X-Device-Id header or deviceId is required' });
+  try {
+    const result = await sequelize.transaction(async (transaction) =>
+      acknowledgeWipe(String(req.user.id), deviceId, req.ip || req.socket.remoteAddress || null, transaction)
+    );
+    return sendResult(res, result);
+  } catch (error: any) {
+    logger.error('Error confirming sync device wipe', { deviceId, error: error.message });
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+export default { register, list, getById, history, revoke, rekey, wipeConfirmation };
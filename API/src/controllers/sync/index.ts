@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { Op, literal } from 'sequelize';
+import { Op, Transaction, literal } from 'sequelize';
 import {
   User,
   Project,
@@ -31,11 +31,44 @@ import FormEntityAssociation from '../../models/FormEntityAssociation';
 import sequelize from '../../db/connection';
 import { decryptField } from '../../utils/crypto';
 import { ROLES } from '../../constants/roles';
+import { SYNC_ENTITY_TYPES, SyncEntityType } from '../../constants/syncChanges';
+import { SYNC_BUNDLE_SCHEMA_VERSION } from '../../constants/syncBundle';
 import validateFormResponse from '../../services/forms/validateFormResponse';
+import { resolveResponseAttachments, linkAttachmentsToResponse } from '../../services/forms/attachmentsService';
 import beneficiariesService from '../../services/beneficiaries/beneficiariesService';
-import fs from 'fs';
-import os from 'os';
-import path from 'path';
+import { getConsentedPurposes } from '../../services/beneficiaries/consentService';
+import { applyBeneficiaryChange } from '../../services/sync/conflictService';
+import {
+  DEFAULT_DELTA_PAGE_SIZE,
+  MAX_DELTA_PAGE_SIZE,
+  decodeCursor,
+  encodeCursor,
+  headCursor,
+  isCursorExpired,
+  readChanges,
+  syncEntityModel,
+} from '../../services/sync/changeLogService';
+import {
+  BUNDLE_USER_COLUMNS,
+  buildBundleDatabase,
+  bundleSchema,
+  bundleSigningKey,
+  isBundleAvailable,
+  parseDevicePublicKey,
+  schemaHash,
+  sealBundle,
+  signingKeyInfo,
+} from '../../services/sync/bundleService';
+import {
+  IdempotencyKey,
+  MAX_CLIENT_ID_LENGTH,
+  findIdempotentResult,
+  hashRequest,
+  isDuplicateKeyError,
+  recordIdempotentResult,
+  resolveDeviceId,
+} from '../../services/sync/idempotencyService';
+import { pinDevicePublicKey } from '../../services/sync/deviceService';
 
 const isUuid = (v: any) => typeof v === 'string' && v.length >= 8;
 
@@ -52,15 +85,210 @@ async function getRoleNames(req: Request): Promise<string[]> {
   }
 }
 
+const BENEFICIARY_PII_COLUMNS = [
+  'firstNameEnc', 'lastNameEnc', 'dobEnc', 'nationalIdEnc', 'phoneEnc', 'emailEnc', 'addressEnc', 'genderEnc',
+  'municipalityEnc', 'nationalityEnc', 'ethnicityEnc', 'residenceEnc', 'householdMembersEnc',
+];
+
+// Ids of the beneficiaries whose PII may go to devices: those who consented to data collection, as in the datadump
+const beneficiariesWithPii = async (rows: any[], transaction?: Transaction) => {
+  const ids = rows.map((b: any) => String(b.id));
+  const consented = await getConsentedPurposes(ids, transaction);
+  return new Set(ids.filter(id => consented.get(id)?.has('data_collection')));
+};
+
+// Beneficiary as synced to devices: decrypted PII next to the encrypted columns, or no PII without consent
+const toSyncBeneficiary = (b: any, withPii: boolean) => {
+  const base: any = {
+    id: String(b.id),
+    pseudonym: b.pseudonym,
+    status: b.status,
+    version: b.get('version'),
+    createdAt: b.get('createdAt'),
+    updatedAt: b.get('updatedAt'),
+  };
+  if (!withPii) return { ...base, consentRequired: 'data_collection' };
+  const enc: any = Object.fromEntries(BENEFICIARY_PII_COLUMNS.map(column => [column, b.get(column)]));
+  return {
+    ...base,
+    piiEnc: enc,
+    pii: {
+      firstName: decryptField(enc.firstNameEnc),
+      lastName: decryptField(enc.lastNameEnc),
+      dob: decryptField(enc.dobEnc),
+      nationalId: decryptField(enc.nationalIdEnc),
+      phone: decryptField(enc.phoneEnc),
+      email: decryptField(enc.emailEnc),
+      address: decryptField(enc.addressEnc),
+      gender: decryptField(enc.genderEnc),
+      municipality: decryptField(enc.municipalityEnc),
+      nationality: decryptField(enc.nationalityEnc),
+      ethnicity: decryptField(enc.ethnicityEnc),
+      residence: decryptField(enc.residenceEnc),
+      householdMembers: decryptField(enc.householdMembersEnc),
+    },
+  };
+};
+
+// Beneficiaries taken offline by snapshots and bundles: merged duplicates, erased and archived ones stay on the server
+const ACTIVE_BENEFICIARIES = { mergedIntoId: null, erasedAt: null, isArchived: false };
+
+// Why a beneficiary no longer belongs on devices (erased, merged into another record, archived), or null
+const retiredBeneficiaryReason = (b: any): 'erased' | 'merged' | 'archived' | null => {
+  if (b.get('erasedAt')) return 'erased';
+  if (b.get('mergedIntoId')) return 'merged';
+  if (b.get('isArchived')) return 'archived';
+  return null;
+};
+
+// Keep rows whose entityType/entityId (project, subproject or activity) belongs to an allowed program
+const scopeEntityRefs = async (rows: any[], allowedPrograms: Set<string>, transaction?: Transaction) => {
+  const subIds = new Set<string>();
+  const actIds = new Set<string>();
+  for (const r of rows) {
+    const t = String(r.get('entityType'));
+    const e = String(r.get('entityId'));
+    if (t === 'subproject') subIds.add(e);
+    if (t === 'activity') actIds.add(e);
+  }
+  const acts = actIds.size ? await Activity.findAll({ where: { id: { [Op.in]: Array.from(actIds) } }, attributes: ['id', 'subprojectId'], transaction }) : [];
+  for (const a of acts) subIds.add(String(a.subprojectId));
+  const subs = subIds.size ? await Subproject.findAll({ where: { id: { [Op.in]: Array.from(subIds) } }, attributes: ['id', 'projectId'], transaction }) : [];
+  const subToProj = new Map(subs.map((s: any) => [String(s.id), String(s.projectId)]));
+  const actToSub = new Map(acts.map((a: any) => [String(a.id), String(a.subprojectId)]));
+  return rows.filter((r: any) => {
+    const t = String(r.get('entityType'));
+    const e = String(r.get('entityId'));
+    if (t === 'project') return allowedPrograms.has(e);
+    if (t === 'subproject') return allowedPrograms.has(subToProj.get(e) || '');
+    if (t === 'activity') {
+      const subId = actToSub.get(e);
+      const projId = subId ? subToProj.get(String(subId)) : undefined;
+      return projId ? allowedPrograms.has(projId) : false;
+    }
+    return false;
+  });
+};
+
+// Keep rows pointing at an activity (activityId) of an allowed program
+const scopeActivityRefs = async (rows: any[], key: 'id' | 'activityId', allowedPrograms: Set<string>, transaction?: Transaction) => {
+  const activityIds = Array.from(new Set(rows.map((r: any) => String(r.get(key)))));
+  const acts = activityIds.length ? await Activity.findAll({ where: { id: { [Op.in]: activityIds } }, attributes: ['id', 'subprojectId'], transaction }) : [];
+  const subIds = Array.from(new Set(acts.map((a: any) => String(a.get('subprojectId')))));
+  const subs = subIds.length ? await Subproject.findAll({ where: { id: { [Op.in]: subIds } }, attributes: ['id', 'projectId'], transaction }) : [];
+  const subToProj = new Map(subs.map((s: any) => [String(s.id), String(s.projectId)]));
+  const actToSub = new Map(acts.map((a: any) => [String(a.id), String(a.subprojectId)]));
+  return rows.filter((r: any) => {
+    const subId = actToSub.get(String(r.get(key)));
+    const projId = subId ? subToProj.get(subId) : undefined;
+    return projId ? allowedPrograms.has(projId) : false;
+  });
+};
+
+const scopeActivityUsers = (rows: any[], allowedPrograms: Set<string>, transaction?: Transaction) =>
+  scopeActivityRefs(rows, 'activityId', allowedPrograms, transaction);
+
+// Delta rows of one entity type, limited to the allowed programs as the snapshot pull does
+const scopeDeltaRows = async (entityType: SyncEntityType, rows: any[], allowedPrograms: Set<string>, transaction: Transaction) => {
+  switch (entityType) {
+    case 'projects':
+      return rows.filter((r: any) => allowedPrograms.has(String(r.get('id'))));
+    case 'subprojects':
+    case 'projectUsers':
+      return rows.filter((r: any) => allowedPrograms.has(String(r.get('projectId'))));
+    case 'activities':
+      return scopeActivityRefs(rows, 'id', allowedPrograms, transaction);
+    case 'activityUsers':
+      return scopeActivityUsers(rows, allowedPrograms, transaction);
+    case 'serviceDeliveries':
+    case 'formResponses':
+      return scopeEntityRefs(rows, allowedPrograms, transaction);
+    default:
+      return rows;
+  }
+};
+
+/**
+ * Delta pull: one page of the change log after the cursor. Upserted rows are returned in their current
+ * state under the usual payload keys; deleted rows and revoked memberships come as tombstones.
+ */
+const pullChanges = async (req: Request, res: Response) => {
+  const cursor = decodeCursor(req.body?.cursor);
+  if (!cursor) return res.status(400).json({ success: false, message: 'Invalid cursor' });
+  if (isCursorExpired(cursor)) {
+    return res.status(410).json({ success: false, message: 'Cursor expired; pull a full snapshot', code: 'CURSOR_EXPIRED' });
+  }
+  const limitRaw = parseInt(String(req.body?.limit ?? ''), 10);
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(limitRaw, MAX_DELTA_PAGE_SIZE)) : DEFAULT_DELTA_PAGE_SIZE;
+  const entities = Array.isArray(req.body?.entities) ? (req.body.entities as string[]) : undefined;
+  const include = (name: string) => !entities || entities.includes(name);
+
+  const userId = (req as any).user?.id ? String((req as any).user.id) : '';
+  const roleNames = await getRoleNames(req);
+  const isAdmin = roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
+  const allowedPrograms = (req as any).user && Array.isArray((req as any).user.allowedProgramIds)
+    ? new Set<string>(((req as any).user.allowedProgramIds as any).map(String))
+    : null;
+  const scoped = !isAdmin && allowedPrograms && allowedPrograms.size ? allowedPrograms : null;
+
+  const page = await sequelize.transaction(
+    { isolationLevel: Transaction.ISOLATION_LEVELS.REPEATABLE_READ, readOnly: true },
+    async (transaction) => {
+      const changes = await readChanges(cursor, limit, transaction);
+      const data: Record<string, any[]> = {};
+      const retired: any[] = [];
+      for (const entityType of SYNC_ENTITY_TYPES) {
+        if (!include(entityType)) continue;
+        const ids = changes.upserts[entityType] || [];
+        let rows: any[] = ids.length ? await syncEntityModel(entityType).findAll({ where: { id: { [Op.in]: ids } }, transaction }) : [];
+        if (scoped) rows = await scopeDeltaRows(entityType, rows, scoped, transaction);
+        if (entityType === 'beneficiaries') {
+          // Retired beneficiaries come as tombstones; a merged one names the record that replaces it
+          for (const b of rows) {
+            const reason = retiredBeneficiaryReason(b);
+            if (!reason) continue;
+            const mergedIntoId = b.get('mergedIntoId');
+            retired.push({ entityType, id: String(b.id), operation: 'delete', reason, ...(mergedIntoId ? { mergedIntoId: String(mergedIntoId) } : {}) });
+          }
+          rows = rows.filter((b: any) => !retiredBeneficiaryReason(b));
+          const withPii = await beneficiariesWithPii(rows, transaction);
+          data[entityType] = rows.map((b: any) => toSyncBeneficiary(b, withPii.has(String(b.id))));
+        } else {
+          data[entityType] = rows;
+        }
+      }
+      // Revocations only concern the user who lost access; admins keep seeing everything
+      const tombstones = changes.tombstones
+        .filter(t => include(t.entityType))
+        .filter(t => t.operation !== 'revoke' || (!isAdmin && t.userId === userId))
+        .filter(t => !scoped || !t.projectId || scoped.has(t.projectId))
+        .map(({ entityType, id, operation }): any => ({ entityType, id, operation }))
+        .concat(retired);
+      return { data, tombstones, cursor: changes.cursor, hasMore: changes.hasMore };
+    }
+  );
+
+  return res.status(200).json({
+    success: true,
+    serverTime: new Date().toISOString(),
+    cursor: encodeCursor(page.cursor),
+    hasMore: page.hasMore,
+    data: page.data,
+    tombstones: page.tombstones,
+  });
+};
+
 export const pull = async (req: Request, res: Response) => {
   try {
     const sinceRaw = req.body?.since as string | undefined;
     const full = Boolean(req.body?.full);
     const entities = Array.isArray(req.body?.entities) ? (req.body.entities as string[]) : undefined;
+    if (!full && req.body?.cursor != null) return await pullChanges(req, res);
 
     const since = full || !sinceRaw ? undefined : new Date(sinceRaw);
   const whereUpdated = since ? { updatedAt: { [Op.gte]: since } } : {};
-
+    // Taken before reading, so changes made meanwhile come again with the first delta
+    const cursor = encodeCursor(await headCursor());
 
     const roleNames = await getRoleNames(req);
     const isAdmin = roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
@@ -93,31 +321,7 @@ export const pull = async (req: Request, res: Response) => {
       if (isAdmin || !allowedPrograms || !allowedPrograms.size) {
         serviceDeliveries = rows as any[];
       } else {
-        // Collect referenced entity ids
-        const subIds = new Set<string>();
-        const actIds = new Set<string>();
-        for (const d of rows) {
-          const t = String(d.get('entityType'));
-          const e = String(d.get('entityId'));
-          if (t === 'subproject') subIds.add(e);
-          if (t === 'activity') actIds.add(e);
-        }
-        const subs = subIds.size ? await Subproject.findAll({ where: { id: { [Op.in]: Array.from(subIds) } }, attributes: ['id', 'projectId'] }) : [];
-        const acts = actIds.size ? await Activity.findAll({ where: { id: { [Op.in]: Array.from(actIds) } }, attributes: ['id', 'subprojectId'] }) : [];
-        const subToProj = new Map(subs.map((s: any) => [String(s.id), String(s.projectId)]));
-        const actToSub = new Map(acts.map((a: any) => [String(a.id), String(a.subprojectId)]));
-        serviceDeliveries = (rows as any[]).filter((d: any) => {
-          const t = String(d.get('entityType'));
-          const e = String(d.get('entityId'));
-          if (t === 'project') return allowedPrograms.has(e);
-          if (t === 'subproject') return allowedPrograms.has(subToProj.get(e) || '');
-          if (t === 'activity') {
-            const subId = actToSub.get(e);
-            const projId = subId ? subToProj.get(String(subId)) : undefined;
-            return projId ? allowedPrograms.has(projId) : false;
-          }
-          return false;
-        });
+        serviceDeliveries = await scopeEntityRefs(rows, allowedPrograms);
       }
     }
 
@@ -151,30 +355,7 @@ export const pull = async (req: Request, res: Response) => {
       if (isAdmin || !allowedPrograms || !allowedPrograms.size) {
         formResponses = rows as any[];
       } else {
-        const subIds = new Set<string>();
-        const actIds = new Set<string>();
-        for (const r of rows) {
-          const t = String((r as any).get('entityType'));
-          const e = String((r as any).get('entityId'));
-          if (t === 'subproject') subIds.add(e);
-          if (t === 'activity') actIds.add(e);
-        }
-        const subs = subIds.size ? await Subproject.findAll({ where: { id: { [Op.in]: Array.from(subIds) } }, attributes: ['id', 'projectId'] }) : [];
-        const acts = actIds.size ? await Activity.findAll({ where: { id: { [Op.in]: Array.from(actIds) } }, attributes: ['id', 'subprojectId'] }) : [];
-        const subToProj = new Map(subs.map((s: any) => [String(s.id), String(s.projectId)]));
-        const actToSub = new Map(acts.map((a: any) => [String(a.id), String(a.subprojectId)]));
-        formResponses = (rows as any[]).filter((r: any) => {
-          const t = String(r.get('entityType'));
-          const e = String(r.get('entityId'));
-          if (t === 'project') return allowedPrograms.has(e);
-          if (t === 'subproject') return allowedPrograms.has(subToProj.get(e) || '');
-          if (t === 'activity') {
-            const subId = actToSub.get(e);
-            const projId = subId ? subToProj.get(String(subId)) : undefined;
-            return projId ? allowedPrograms.has(projId) : false;
-          }
-          return false;
-        });
+        formResponses = await scopeEntityRefs(rows, allowedPrograms);
       }
     }
 
@@ -223,17 +404,7 @@ export const pull = async (req: Request, res: Response) => {
         activityUsers = await ActivityUser.findAll({ where: { ...whereUpdated } });
       } else {
         const rows = await ActivityUser.findAll({ where: { ...whereUpdated } });
-        const activityIds = Array.from(new Set(rows.map((r: any) => String(r.get('activityId')))));
-        const acts = activityIds.length ? await Activity.findAll({ where: { id: { [Op.in]: activityIds } }, attributes: ['id', 'subprojectId'] }) : [];
-        const subIds = Array.from(new Set(acts.map((a: any) => String(a.get('subprojectId')))));
-        const subs = subIds.length ? await Subproject.findAll({ where: { id: { [Op.in]: subIds } }, attributes: ['id', 'projectId'] }) : [];
-        const subToProj = new Map(subs.map((s: any) => [String(s.id), String(s.projectId)]));
-        const actToSub = new Map(acts.map((a: any) => [String(a.id), String(a.subprojectId)]));
-        activityUsers = rows.filter((r: any) => {
-          const subId = actToSub.get(String(r.get('activityId')));
-          const projId = subId ? subToProj.get(subId) : undefined;
-          return projId ? allowedPrograms.has(projId) : false;
-        });
+        activityUsers = await scopeActivityUsers(rows, allowedPrograms);
       }
     }
 
@@ -255,62 +426,18 @@ export const pull = async (req: Request, res: Response) => {
     let beneficiaries: any[] = [];
     if (include('beneficiaries')) {
       const list = await Beneficiary.findAll({
-        where: { ...(whereUpdated as any) },
+        where: { ...(whereUpdated as any), ...ACTIVE_BENEFICIARIES },
         order: [['createdAt', 'DESC']],
       });
-      const canDecrypt = true; // relaxed policy currently used in beneficiaries controller
-      beneficiaries = list.map((b: any) => {
-        const base: any = {
-          id: String(b.id),
-          pseudonym: b.pseudonym,
-          status: b.status,
-          createdAt: b.get('createdAt'),
-          updatedAt: b.get('updatedAt'),
-        };
-        const enc = {
-          firstNameEnc: b.get('firstNameEnc'),
-          lastNameEnc: b.get('lastNameEnc'),
-          dobEnc: b.get('dobEnc'),
-          nationalIdEnc: b.get('nationalIdEnc'),
-          phoneEnc: b.get('phoneEnc'),
-          emailEnc: b.get('emailEnc'),
-          addressEnc: b.get('addressEnc'),
-          genderEnc: b.get('genderEnc'),
-          municipalityEnc: b.get('municipalityEnc'),
-          nationalityEnc: b.get('nationalityEnc'),
-          ethnicityEnc: b.get('ethnicityEnc'),
-          residenceEnc: b.get('residenceEnc'),
-          householdMembersEnc: b.get('householdMembersEnc'),
-        };
-        if (canDecrypt && (isAdmin || true)) {
-          return {
-            ...base,
-            piiEnc: enc,
-            pii: {
-              firstName: decryptField(enc.firstNameEnc as any),
-              lastName: decryptField(enc.lastNameEnc as any),
-              dob: decryptField(enc.dobEnc as any),
-              nationalId: decryptField(enc.nationalIdEnc as any),
-              phone: decryptField(enc.phoneEnc as any),
-              email: decryptField(enc.emailEnc as any),
-              address: decryptField(enc.addressEnc as any),
-              gender: decryptField(enc.genderEnc as any),
-              municipality: decryptField(enc.municipalityEnc as any),
-              nationality: decryptField(enc.nationalityEnc as any),
-              ethnicity: decryptField(enc.ethnicityEnc as any),
-              residence: decryptField(enc.residenceEnc as any),
-              householdMembers: decryptField(enc.householdMembersEnc as any),
-            },
-          };
-        }
-        return { ...base, piiEnc: enc };
-      });
+      const withPii = await beneficiariesWithPii(list);
+      beneficiaries = list.map((b: any) => toSyncBeneficiary(b, withPii.has(String(b.id))));
     }
 
     return res.status(200).json({
       success: true,
       snapshotId: uuidv4(),
       serverTime: new Date().toISOString(),
+      cursor,
       data: {
         projects,
         subprojects,
@@ -356,9 +483,17 @@ export const push = async (req: Request, res: Response) => {
   const roleNames = await getRoleNames(req);
   const isAdmin = roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
   const allowed = user && Array.isArray(user.allowedProgramIds) ? new Set<string>(user.allowedProgramIds.map(String)) : null;
+  const deviceId = resolveDeviceId(req.header('x-device-id'), body.deviceId, body.clientId);
 
   for (const change of changes) {
     const clientMutationId = change?.clientMutationId || uuidv4();
+    // Only ids the client sent can be replayed; generated ones are new on every attempt
+    const idempotencyKey: IdempotencyKey | null = change?.clientMutationId && user?.id
+      ? { scope: 'push', userId: String(user.id), deviceId: resolveDeviceId(change.deviceId, deviceId), clientId: String(clientMutationId) }
+      : null;
+    const requestHash = idempotencyKey ? hashRequest(change) : '';
+    const remember = <T>(result: T, transaction: Transaction): Promise<T> =>
+      idempotencyKey ? recordIdempotentResult(idempotencyKey, requestHash, result, transaction) : Promise.resolve(result);
     const method = (change?.method || '').toUpperCase();
     const endpoint = String(change?.endpoint || '');
     const entityType = String(change?.entityType || change?.entity || '');
@@ -366,6 +501,22 @@ export const push = async (req: Request, res: Response) => {
     const data = change?.data || {};
 
     try {
+      if (idempotencyKey) {
+        if (idempotencyKey.clientId.length > MAX_CLIENT_ID_LENGTH) {
+          results.push({ clientMutationId, status: 'error', error: `clientMutationId must be at most ${MAX_CLIENT_ID_LENGTH} characters` });
+          continue;
+        }
+        const previous = await findIdempotentResult(idempotencyKey, requestHash);
+        if (previous.state === 'replay') {
+          results.push(previous.result);
+          continue;
+        }
+        if (previous.state === 'conflict') {
+          results.push({ clientMutationId, status: 'error', error: 'clientMutationId was already used for a different change' });
+          continue;
+        }
+      }
+
       // Form submission support (either explicit entityType or known endpoint pattern)
       const match = endpoint.match(/^\/forms\/templates\/(.+?)\/responses$/);
       const isFormSubmission = entityType === 'formSubmission' || (method === 'POST' && !!match);
@@ -377,7 +528,7 @@ export const push = async (req: Request, res: Response) => {
         }
 
         // Transactionally apply like submitFormResponse
-        const result = await sequelize.transaction(async (transaction) => {
+        const applied = await sequelize.transaction(async (transaction) => {
           const template = await FormTemplate.findByPk(templateId, {
             include: [{ model: FormEntityAssociation, as: 'entityAssociations' }],
             transaction,
@@ -413,7 +564,7 @@ export const push = async (req: Request, res: Response) => {
 
           // Validate form data
           const formData = data.data || data;
-          const validation = await validateFormResponse(templateId, formData);
+          const validation = await validateFormResponse(templateId, formData, data.formTemplateVersion);
           if (!validation.valid) {
             throw new Error('Validation failed');
           }
@@ -430,6 +581,7 @@ export const push = async (req: Request, res: Response) => {
           const formResponse = await FormResponse.create({
             id: responseId,
             formTemplateId: templateId,
+            formTemplateVersion: validation.version,
             entityId,
             entityType: entityTypeVal,
             submittedBy: user?.id,
@@ -440,6 +592,18 @@ export const push = async (req: Request, res: Response) => {
             submittedAt: data.submittedAt ? new Date(data.submittedAt) : new Date(),
           }, { transaction });
 
+          // Link attachments uploaded beforehand
+          const attachments = await resolveResponseAttachments({
+            formTemplateId: templateId,
+            version: validation.version,
+            data: validation.data,
+            attachmentIds: data.attachmentIds,
+            userId: user?.id,
+            transaction,
+          });
+          if (attachments.invalid.length) throw new Error('Invalid attachment references');
+          await linkAttachmentsToResponse(formResponse.id, attachments.ids, transaction);
+
           // Create service deliveries if provided
           const servicesInput = Array.isArray(data.services) ? data.services : [];
           let createdDeliveries = 0;
@@ -508,10 +672,10 @@ export const push = async (req: Request, res: Response) => {
             timestamp: new Date(),
           }, { transaction });
 
-          return formResponse;
+          return remember({ clientMutationId, status: 'applied', entityType: 'formSubmission', serverId: formResponse.id }, transaction);
         });
 
-        results.push({ clientMutationId, status: 'applied', entityType: 'formSubmission', serverId: result.id });
+        results.push(applied);
         continue;
       }
 
@@ -520,7 +684,7 @@ export const push = async (req: Request, res: Response) => {
       if (entityType === 'beneficiary' || endpoint.startsWith('/beneficiaries')) {
         // Create
         if (method === 'POST' && (endpoint === '/beneficiaries' || op === 'create')) {
-          const created = await sequelize.transaction(async (transaction) => {
+          const applied = await sequelize.transaction(async (transaction) => {
             const safe = await beneficiariesService.createBeneficiary(data, { transaction, userId: user?.id });
             await AuditLog.create({
               id: uuidv4(),
@@ -530,9 +694,9 @@ export const push = async (req: Request, res: Response) => {
               details: JSON.stringify({ clientMutationId }),
               timestamp: new Date(),
             }, { transaction });
-            return safe;
+            return remember({ clientMutationId, status: 'applied', entityType: 'beneficiary', serverId: safe.id }, transaction);
           });
-          results.push({ clientMutationId, status: 'applied', entityType: 'beneficiary', serverId: created.id });
+          results.push(applied);
           continue;
         }
 
@@ -540,20 +704,47 @@ export const push = async (req: Request, res: Response) => {
         const updMatch = endpoint.match(/^\/beneficiaries\/(.+)$/);
         if ((method === 'PUT' || op === 'update') && updMatch) {
           const id = updMatch[1];
-          const updated = await sequelize.transaction(async (transaction) => {
-            const safe = await beneficiariesService.updateBeneficiary(id, data, { transaction, userId: user?.id });
-            if (!safe) throw new Error('Beneficiary not found');
+          const baseVersion = change?.baseVersion != null ? Number(change.baseVersion) : null;
+          const detailsBaseVersion = change?.detailsBaseVersion != null ? Number(change.detailsBaseVersion) : null;
+          if (Number.isNaN(baseVersion) || Number.isNaN(detailsBaseVersion)) {
+            results.push({ clientMutationId, status: 'error', error: 'baseVersion and detailsBaseVersion must be numbers' });
+            continue;
+          }
+          const applied = await sequelize.transaction(async (transaction) => {
+            const outcome = await applyBeneficiaryChange(id, {
+              data,
+              base: change?.base,
+              baseVersion,
+              detailsBaseVersion,
+              pushedBy: user?.id,
+              deviceId: idempotencyKey?.deviceId ?? resolveDeviceId(change?.deviceId, deviceId),
+              clientMutationId: change?.clientMutationId ?? null,
+            }, transaction);
+            if (!outcome.success) throw new Error(outcome.message);
+            const { applied: appliedFields, conflict, version, detailsVersion } = outcome.data!;
             await AuditLog.create({
               id: uuidv4(),
               userId: user?.id,
               action: 'BENEFICIARY_UPDATE_SYNC_PUSH',
               description: `Updated via /sync/push: ${id}`,
-              details: JSON.stringify({ clientMutationId }),
+              details: JSON.stringify({ clientMutationId, appliedFields, conflictId: conflict?.id ?? null }),
               timestamp: new Date(),
             }, { transaction });
-            return safe;
+            const result: any = {
+              clientMutationId,
+              status: conflict ? 'conflict' : 'applied',
+              entityType: 'beneficiary',
+              serverId: id,
+              version,
+              detailsVersion,
+            };
+            if (!conflict) return remember(result, transaction);
+            // The ledger keeps no PII: a replayed conflict lists its fields without values
+            Object.assign(result, { applied: appliedFields, conflictId: conflict.id });
+            await remember({ ...result, conflicts: conflict.fields.map(field => ({ field })) }, transaction);
+            return { ...result, conflicts: conflict.values };
           });
-          results.push({ clientMutationId, status: 'applied', entityType: 'beneficiary', serverId: updated.id });
+          results.push(applied);
           continue;
         }
 
@@ -561,7 +752,7 @@ export const push = async (req: Request, res: Response) => {
         const delMatch = endpoint.match(/^\/beneficiaries\/(.+)$/);
         if ((method === 'DELETE' || op === 'delete') && delMatch) {
           const id = delMatch[1];
-          await sequelize.transaction(async (transaction) => {
+          const applied = await sequelize.transaction(async (transaction) => {
             const safe = await beneficiariesService.setBeneficiaryStatus(id, 'inactive', { transaction, userId: user?.id });
             if (!safe) throw new Error('Beneficiary not found');
             await AuditLog.create({
@@ -572,8 +763,9 @@ export const push = async (req: Request, res: Response) => {
               details: JSON.stringify({ clientMutationId }),
               timestamp: new Date(),
             }, { transaction });
+            return remember({ clientMutationId, status: 'applied', entityType: 'beneficiary', serverId: id }, transaction);
           });
-          results.push({ clientMutationId, status: 'applied', entityType: 'beneficiary', serverId: id });
+          results.push(applied);
           continue;
         }
 
@@ -584,6 +776,14 @@ export const push = async (req: Request, res: Response) => {
 
       results.push({ clientMutationId, status: 'ignored', reason: 'unsupported_change' });
     } catch (err: any) {
+      // A concurrent retry applied the same change first: answer with its result
+      if (idempotencyKey && isDuplicateKeyError(err)) {
+        const previous = await findIdempotentResult(idempotencyKey, requestHash).catch(() => null);
+        if (previous?.state === 'replay') {
+          results.push(previous.result);
+          continue;
+        }
+      }
       results.push({ clientMutationId, status: 'error', error: err?.message || 'unknown' });
     }
   }
@@ -591,8 +791,47 @@ export const push = async (req: Request, res: Response) => {
   return res.status(200).json({ success: true, results });
 };
 
+/**
+ * Encrypted, signed SQLite bundle of the user's scope for a fresh device. Requires X-Device-Id and the
+ * device's RSA public key (X-Device-Public-Key), which must be the key pinned on the device by its first
+ * bundle request; see services/sync/bundleService for the format.
+ */
 export const full = async (req: Request, res: Response) => {
   try {
+    if (!isBundleAvailable()) {
+      return res.status(501).json({
+        success: false,
+        message: 'SQLite snapshot not available on this server. Missing better-sqlite3 dependency.',
+        hint: 'Install better-sqlite3 and use Node 20/22 LTS for prebuilt binaries.'
+      });
+    }
+    const signer = bundleSigningKey();
+    if (!signer) {
+      return res.status(503).json({ success: false, message: 'Offline bundles are not configured on this server (SYNC_BUNDLE_SIGNING_KEY)' });
+    }
+    const deviceId = resolveDeviceId(req.header('x-device-id'));
+    if (!deviceId) return res.status(400).json({ success: false, message: 'X-Device-Id header is required' });
+    const devicePublicKey = parseDevicePublicKey(req.header('x-device-public-key'));
+    if (!devicePublicKey) {
+      return res.status(400).json({
+        success: false,
+        message: 'X-Device-Public-Key must be an RSA public key of at least 2048 bits (SPKI, PEM or base64 DER)',
+      });
+    }
+    // Registered by trackSyncDevice('full')
+    const device = res.locals.syncDevice;
+    if (!device) return res.status(400).json({ success: false, message: 'X-Device-Id header is required' });
+    if (!(await pinDevicePublicKey(device, devicePublicKey))) {
+      return res.status(409).json({
+        success: false,
+        code: 'DEVICE_KEY_MISMATCH',
+        message: 'X-Device-Public-Key does not match the key pinned for this device. An administrator must re-key the device.',
+      });
+    }
+    const userId = String((req as any).user?.id ?? '');
+    // Taken before reading, so the device continues with delta pulls from here
+    const cursor = encodeCursor(await headCursor());
+
     const roleNames = await getRoleNames(req);
     const isAdmin = roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
     const allowedPrograms = (req as any).user && Array.isArray((req as any).user.allowedProgramIds)
@@ -618,7 +857,7 @@ export const full = async (req: Request, res: Response) => {
     const subprojectIds = new Set<string>((subprojects as any[]).map((s: any) => String(s.id)));
 
     const [users, projectUsers, subprojectUsers, formTemplates, formEntityAssociations, services, serviceAssignments] = await Promise.all([
-      User.findAll({}),
+      User.findAll({ attributes: BUNDLE_USER_COLUMNS }),
       ProjectUser.findAll({ where: projectIds.size ? { projectId: { [Op.in]: Array.from(projectIds) } } : {} }),
       SubprojectUser.findAll({ where: subprojectIds.size ? { subprojectId: { [Op.in]: Array.from(subprojectIds) } } : {} }),
       FormTemplate.findAll({}),
@@ -629,7 +868,7 @@ export const full = async (req: Request, res: Response) => {
 
     let beneficiariesRaw: any[] = [];
     if (isAdmin || !allowedPrograms || !allowedPrograms.size) {
-      beneficiariesRaw = await Beneficiary.findAll({}) as any[];
+      beneficiariesRaw = await Beneficiary.findAll({ where: ACTIVE_BENEFICIARIES }) as any[];
     } else {
       const allowedProjIds = Array.from(allowedPrograms);
       const allowedSubIds = Array.from(new Set((subprojects as any[]).map((s: any) => String(s.id))));
@@ -643,248 +882,74 @@ export const full = async (req: Request, res: Response) => {
         attributes: ['beneficiaryId'],
       }) as any[];
       const benIds = Array.from(new Set(assigns.map((a: any) => String(a.get('beneficiaryId')))));
-      beneficiariesRaw = benIds.length ? (await Beneficiary.findAll({ where: { id: { [Op.in]: benIds } } })) as any[] : [];
+      beneficiariesRaw = benIds.length ? (await Beneficiary.findAll({ where: { id: { [Op.in]: benIds }, ...ACTIVE_BENEFICIARIES } })) as any[] : [];
     }
-    const beneficiaries = (beneficiariesRaw as any[]).map((b: any) => ({
-      id: String(b.id),
-      pseudonym: b.pseudonym,
-      status: b.status,
-      createdAt: b.get('createdAt'),
-      updatedAt: b.get('updatedAt'),
-      firstNameEnc: b.get('firstNameEnc') ?? null,
-      lastNameEnc: b.get('lastNameEnc') ?? null,
-      dobEnc: b.get('dobEnc') ?? null,
-      genderEnc: b.get('genderEnc') ?? null,
-      addressEnc: b.get('addressEnc') ?? null,
-      municipalityEnc: b.get('municipalityEnc') ?? null,
-      nationalityEnc: b.get('nationalityEnc') ?? null,
-      nationalIdEnc: b.get('nationalIdEnc') ?? null,
-      phoneEnc: b.get('phoneEnc') ?? null,
-      emailEnc: b.get('emailEnc') ?? null,
-      ethnicityEnc: b.get('ethnicityEnc') ?? null,
-      residenceEnc: b.get('residenceEnc') ?? null,
-      householdMembersEnc: b.get('householdMembersEnc') ?? null,
-    }));
-
-    const filePath = path.join(os.tmpdir(), `sync_${uuidv4()}.sqlite`);
-    let BetterSqlite3: any;
+    // Without consent to data collection the bundle carries the beneficiary without its PII columns
+    const withPii = await beneficiariesWithPii(beneficiariesRaw);
+    beneficiariesRaw = beneficiariesRaw.map((b: any) => (withPii.has(String(b.id))
+      ? b
+      : { ...b.get({ plain: true }), ...Object.fromEntries(BENEFICIARY_PII_COLUMNS.map(column => [column, null])) }));
+    const tables: Record<string, any[]> = {
+      projects: projects as any[],
+      subprojects: subprojects as any[],
+      activities: activities as any[],
+      users,
+      project_users: projectUsers,
+      subproject_users: subprojectUsers,
+      form_templates: formTemplates,
+      form_entity_associations: formEntityAssociations,
+      services,
+      service_assignments: serviceAssignments,
+      beneficiaries: beneficiariesRaw,
+    };
+    const schema = bundleSchema();
+    const database = buildBundleDatabase(tables, { generatedAt: new Date().toISOString(), userId, deviceId, cursor });
+    const { bundle, header } = sealBundle(database, devicePublicKey, signer, { userId, deviceId, cursor, schemaHash: schemaHash(schema) });
+
     try {
-      // Lazy require to avoid crashing server if module is not installed yet
-      BetterSqlite3 = require('better-sqlite3');
-    } catch (e: any) {
-      return res.status(501).json({
-        success: false,
-        message: 'SQLite snapshot not available on this server. Missing better-sqlite3 dependency.',
-        hint: 'Install better-sqlite3 and use Node 20/22 LTS for prebuilt binaries.'
+      await AuditLog.create({
+        id: uuidv4(),
+        userId,
+        action: 'SYNC_BUNDLE_DOWNLOAD',
+        description: `Downloaded offline bundle for device '${deviceId}'`,
+        details: JSON.stringify({
+          deviceId,
+          schemaVersion: header.schemaVersion,
+          signingKeyId: signer.keyId,
+          counts: Object.fromEntries(Object.entries(tables).map(([table, rows]) => [table, rows.length])),
+        }),
+        timestamp: new Date(),
       });
-    }
-    const db = new BetterSqlite3(filePath);
-    try {
-      db.pragma('journal_mode = OFF');
-      db.pragma('synchronous = OFF');
-      db.exec('BEGIN TRANSACTION');
-
-      db.exec(`
-        CREATE TABLE IF NOT EXISTS projects (
-          id TEXT PRIMARY KEY,
-          name TEXT,
-          description TEXT,
-          category TEXT,
-          status TEXT,
-          createdAt TEXT,
-          updatedAt TEXT
-        );
-        CREATE TABLE IF NOT EXISTS subprojects (
-          id TEXT PRIMARY KEY,
-          projectId TEXT,
-          name TEXT,
-          description TEXT,
-          category TEXT,
-          status TEXT,
-          createdAt TEXT,
-          updatedAt TEXT
-        );
-        CREATE TABLE IF NOT EXISTS activities (
-          id TEXT PRIMARY KEY,
-          subprojectId TEXT,
-          name TEXT,
-          description TEXT,
-          category TEXT,
-          frequency TEXT,
-          reportingFields TEXT,
-          status TEXT,
-          createdAt TEXT,
-          updatedAt TEXT
-        );
-        CREATE TABLE IF NOT EXISTS users (
-          id TEXT PRIMARY KEY,
-          firstName TEXT,
-          lastName TEXT,
-          email TEXT,
-          status TEXT,
-          createdAt TEXT,
-          updatedAt TEXT
-        );
-        CREATE TABLE IF NOT EXISTS project_users (
-          id TEXT PRIMARY KEY,
-          projectId TEXT,
-          userId TEXT,
-          createdAt TEXT,
-          updatedAt TEXT
-        );
-        CREATE TABLE IF NOT EXISTS subproject_users (
-          id TEXT PRIMARY KEY,
-          subprojectId TEXT,
-          userId TEXT,
-          createdAt TEXT,
-          updatedAt TEXT
-        );
-        CREATE TABLE IF NOT EXISTS form_templates (
-          id TEXT PRIMARY KEY,
-          name TEXT,
-          schema TEXT,
-          version INTEGER,
-          status TEXT,
-          includeBeneficiaries INTEGER,
-          createdAt TEXT,
-          updatedAt TEXT
-        );
-        CREATE TABLE IF NOT EXISTS form_entity_associations (
-          id TEXT PRIMARY KEY,
-          formTemplateId TEXT,
-          entityId TEXT,
-          entityType TEXT,
-          createdAt TEXT,
-          updatedAt TEXT
-        );
-        CREATE TABLE IF NOT EXISTS services (
-          id TEXT PRIMARY KEY,
-          name TEXT,
-          description TEXT,
-          category TEXT,
-          status TEXT,
-          createdAt TEXT,
-          updatedAt TEXT
-        );
-        CREATE TABLE IF NOT EXISTS service_assignments (
-          id TEXT PRIMARY KEY,
-          serviceId TEXT,
-          entityId TEXT,
-          entityType TEXT,
-          createdAt TEXT,
-          updatedAt TEXT
-        );
-        CREATE TABLE IF NOT EXISTS beneficiaries (
-          id TEXT PRIMARY KEY,
-          pseudonym TEXT,
-          status TEXT,
-          createdAt TEXT,
-          updatedAt TEXT,
-          firstNameEnc TEXT,
-          lastNameEnc TEXT,
-          dobEnc TEXT,
-          genderEnc TEXT,
-          addressEnc TEXT,
-          municipalityEnc TEXT,
-          nationalityEnc TEXT,
-          nationalIdEnc TEXT,
-          phoneEnc TEXT,
-          emailEnc TEXT,
-          ethnicityEnc TEXT,
-          residenceEnc TEXT,
-          householdMembersEnc TEXT
-        );
-      `);
-
-      const projStmt = db.prepare('INSERT INTO projects (id, name, description, category, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)');
-      for (const p of projects as any[]) {
-        projStmt.run(String((p as any).id), (p as any).name || null, (p as any).description || null, (p as any).category || null, (p as any).status || null, String((p as any).get('createdAt')), String((p as any).get('updatedAt')));
-      }
+    } catch (_) { /* ignore */ }
 
-      const subStmt = db.prepare('INSERT INTO subprojects (id, projectId, name, description, category, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
-      for (const s of subprojects as any[]) {
-        subStmt.run(String((s as any).id), String((s as any).projectId), (s as any).name || null, (s as any).description || null, (s as any).category || null, (s as any).status || null, String((s as any).get('createdAt')), String((s as any).get('updatedAt')));
-      }
-
-      const actStmt = db.prepare('INSERT INTO activities (id, subprojectId, name, description, category, frequency, reportingFields, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
-      for (const a of activities as any[]) {
-        actStmt.run(String((a as any).id), String((a as any).subprojectId), (a as any).name || null, (a as any).description || null, (a as any).category || null, (a as any).frequency || null, JSON.stringify((a as any).get ? (a as any).get('reportingFields') : (a as any).reportingFields) || null, (a as any).status || null, String((a as any).get('createdAt')), String((a as any).get('updatedAt')));
-      }
-
-      const userStmt = db.prepare('INSERT INTO users (id, firstName, lastName, email, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)');
-      for (const u of users as any[]) {
-        userStmt.run(String((u as any).id), (u as any).firstName || null, (u as any).lastName || null, (u as any).email || null, (u as any).status || null, String((u as any).get('createdAt')), String((u as any).get('updatedAt')));
-      }
-
-      const puStmt = db.prepare('INSERT INTO project_users (id, projectId, userId, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)');
-      for (const pu of projectUsers as any[]) {
-        puStmt.run(String((pu as any).id), String((pu as any).projectId), String((pu as any).userId), String((pu as any).get('createdAt')), String((pu as any).get('updatedAt')));
-      }
-
-      const suStmt = db.prepare('INSERT INTO subproject_users (id, subprojectId, userId, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)');
-      for (const su of subprojectUsers as any[]) {
-        suStmt.run(String((su as any).id), String((su as any).subprojectId), String((su as any).userId), String((su as any).get('createdAt')), String((su as any).get('updatedAt')));
-      }
-
-      const ftStmt = db.prepare('INSERT INTO form_templates (id, name, schema, version, status, includeBeneficiaries, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
-      for (const ft of formTemplates as any[]) {
-        ftStmt.run(String((ft as any).id), (ft as any).name || null, JSON.stringify((ft as any).get('schema')) || null, Number((ft as any).version ?? 1), (ft as any).status || null, (ft as any).includeBeneficiaries ? 1 : 0, String((ft as any).get('createdAt')), String((ft as any).get('updatedAt')));
-      }
-
-      const feaStmt = db.prepare('INSERT INTO form_entity_associations (id, formTemplateId, entityId, entityType, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)');
-      for (const fea of formEntityAssociations as any[]) {
-        feaStmt.run(String((fea as any).id), String((fea as any).formTemplateId), String((fea as any).entityId), String((fea as any).entityType), String((fea as any).get('createdAt')), String((fea as any).get('updatedAt')));
-      }
-
-      const svcStmt = db.prepare('INSERT INTO services (id, name, description, category, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)');
-      for (const s of services as any[]) {
-        svcStmt.run(String((s as any).id), (s as any).name || null, (s as any).description || null, (s as any).category || null, (s as any).status || null, String((s as any).get('createdAt')), String((s as any).get('updatedAt')));
-      }
-
-      const saStmt = db.prepare('INSERT INTO service_assignments (id, serviceId, entityId, entityType, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)');
-      for (const sa of serviceAssignments as any[]) {
-        saStmt.run(String((sa as any).id), String((sa as any).serviceId), String((sa as any).entityId), String((sa as any).entityType), String((sa as any).get('createdAt')), String((sa as any).get('updatedAt')));
-      }
-
-      const benStmt = db.prepare('INSERT INTO beneficiaries (id, pseudonym, status, createdAt, updatedAt, firstNameEnc, lastNameEnc, dobEnc, genderEnc, addressEnc, municipalityEnc, nationalityEnc, nationalIdEnc, phoneEnc, emailEnc, ethnicityEnc, residenceEnc, householdMembersEnc) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
-      for (const b of beneficiaries as any[]) {
-        benStmt.run(
-          b.id, b.pseudonym || null, b.status || null, String(b.createdAt), String(b.updatedAt),
-          b.firstNameEnc ? JSON.stringify(b.firstNameEnc) : null,
-          b.lastNameEnc ? JSON.stringify(b.lastNameEnc) : null,
-          b.dobEnc ? JSON.stringify(b.dobEnc) : null,
-          b.genderEnc ? JSON.stringify(b.genderEnc) : null,
-          b.addressEnc ? JSON.stringify(b.addressEnc) : null,
-          b.municipalityEnc ? JSON.stringify(b.municipalityEnc) : null,
-          b.nationalityEnc ? JSON.stringify(b.nationalityEnc) : null,
-          b.nationalIdEnc ? JSON.stringify(b.nationalIdEnc) : null,
-          b.phoneEnc ? JSON.stringify(b.phoneEnc) : null,
-          b.emailEnc ? JSON.stringify(b.emailEnc) : null,
-          b.ethnicityEnc ? JSON.stringify(b.ethnicityEnc) : null,
-          b.residenceEnc ? JSON.stringify(b.residenceEnc) : null,
-          b.householdMembersEnc ? JSON.stringify(b.householdMembersEnc) : null
-        );
-      }
-
-      db.exec('COMMIT');
-    } catch (e) {
-      try { db.exec('ROLLBACK'); } catch {}
-      throw e;
-    } finally {
-      db.close();
-    }
-
-    const buffer = fs.readFileSync(filePath);
     res.setHeader('Content-Type', 'application/octet-stream');
-    res.setHeader('Content-Disposition', `attachment; filename="sync_${new Date().toISOString().replace(/[:.]/g, '-')}.sqlite"`);
-    res.status(200).send(buffer);
-    fs.unlink(filePath, () => {});
+    res.setHeader('Content-Disposition', `attachment; filename="sync_${header.generatedAt.replace(/[:.]/g, '-')}.bundle"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('X-Bundle-Schema-Version', String(header.schemaVersion));
+    res.setHeader('X-Bundle-Signing-Key-Id', signer.keyId);
+    return res.status(200).send(bundle);
   } catch (error: any) {
     console.error('SYNC full error:', error);
     return res.status(500).json({ success: false, message: 'Internal server error', error: error?.message });
   }
 };
 
+/**
+ * Public key devices verify bundle signatures with
+ */
+export const bundleSigningPublicKey = async (_req: Request, res: Response) => {
+  try {
+    const signer = bundleSigningKey();
+    if (!signer) {
+      return res.status(503).json({ success: false, message: 'Offline bundles are not configured on this server (SYNC_BUNDLE_SIGNING_KEY)' });
+    }
+    return res.status(200).json({ success: true, data: { ...signingKeyInfo(signer), schemaVersion: SYNC_BUNDLE_SCHEMA_VERSION } });
+  } catch (error: any) {
+    console.error('SYNC bundle key error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
 export const upload = async (req: Request, res: Response) => {
   try {
     const mutations = Array.isArray((req.body as any)?.mutations) ? (req.body as any).mutations : [];
@@ -1017,4 +1082,4 @@ export const entitySync = async (req: Request, res: Response) => {
   }
 };
 
-export default { pull, push, full, upload, entitySync };
+export default { pull, push, full, bundleSigningPublicKey, upload, entitySync };
@@ -18,14 +18,32 @@ import {
   SubprojectUser,
   ActivityUser,
   BeneficiaryAssignment,
-  ServiceAssignment
+  ServiceAssignment,
+  BeneficiaryCaseNote,
+  BeneficiaryFollowUpTask,
+  Icd10Code
 } from "../models";
 import FormEntityAssociation from "../models/FormEntityAssociation";
 import BeneficiaryMapping from "../models/BeneficiaryMapping";
 import { ROLES } from "../constants/roles";
 import { decryptField, encryptField } from "../utils/crypto";
 import { validateFormResponse } from "../services/forms/validateFormResponse";
+import { extractFieldLogic } from "../services/forms/formLogic";
+import { describeFieldTypes } from "../services/forms/fieldTypes";
+import { resolveLocale, localizeSchema } from "../services/forms/formLocale";
+import { resolveResponseAttachments, linkAttachmentsToResponse } from "../services/forms/attachmentsService";
 import { upsertFromFormResponse } from "../services/beneficiaries/beneficiariesService";
+import { getConsentedPurposes, recordConsent, recordConsentsFromForm } from "../services/beneficiaries/consentService";
+import { canReadCaseNote, toCaseNoteView, toFollowUpTaskView } from "../services/beneficiaries/caseManagementService";
+import {
+  IdempotencyKey,
+  MAX_CLIENT_ID_LENGTH,
+  findIdempotentResult,
+  hashRequest,
+  isDuplicateKeyError,
+  recordIdempotentResult,
+  resolveDeviceId
+} from "../services/sync/idempotencyService";
 import { v4 as uuidv4 } from "uuid";
 import sequelize from "../db/connection";
 
@@ -73,6 +91,12 @@ function generateStorageMapping(template: any, beneficiaryMapping: any) {
       responseFields[field.name] = field.name;
     });
     storageMapping.responseFields = responseFields;
+
+    // Field types and storage hints (text/integer/real/boolean/json/attachment) for the offline schema
+    storageMapping.fieldTypes = describeFieldTypes(template.schema.fields);
+
+    // Skip logic rules so offline clients can show/hide and require fields consistently
+    storageMapping.fieldLogic = extractFieldLogic(template.schema.fields);
   }
 
   return storageMapping;
@@ -106,6 +130,12 @@ async function getRoleNames(req: Request): Promise<string[]> {
 export async function dataDump(req: Request, res: Response) {
   try {
     const user = req.user;
+
+    // Optional locale: form labels, help texts and option texts are resolved server-side
+    const { locale, error: localeError } = resolveLocale(req.query.locale);
+    if (localeError) {
+      return res.status(400).json({ error: "Invalid locale", message: localeError });
+    }
     const roleNames = await getRoleNames(req);
     const isAdmin = roleNames.includes(ROLES.SUPER_ADMIN) || roleNames.includes(ROLES.SYSTEM_ADMINISTRATOR);
     
@@ -184,7 +214,9 @@ export async function dataDump(req: Request, res: Response) {
         services: [],
         beneficiaries: [],
         form_responses: [],
-        service_deliveries: []
+        service_deliveries: [],
+        follow_up_tasks: [],
+        case_notes: []
       });
     }
 
@@ -296,21 +328,36 @@ export async function dataDump(req: Request, res: Response) {
       })(),
     ]);
 
-    // Get form responses - only for accessible entities
+    // Get form responses - only for accessible entities (drafts only for their author)
     const formResponses = await FormResponse.findAll({
-      where: allowedPrograms && !isAdmin ? {
-        [Op.or]: [
-          { entityType: 'project', entityId: { [Op.in]: Array.from(allowedPrograms) } },
-          { entityType: 'subproject', entityId: { [Op.in]: Array.from(accessibleSubprojectIds) } },
-          { entityType: 'activity', entityId: { [Op.in]: Array.from(accessibleActivityIds) } }
+      where: {
+        [Op.and]: [
+          allowedPrograms && !isAdmin ? {
+            [Op.or]: [
+              { entityType: 'project', entityId: { [Op.in]: Array.from(allowedPrograms) } },
+              { entityType: 'subproject', entityId: { [Op.in]: Array.from(accessibleSubprojectIds) } },
+              { entityType: 'activity', entityId: { [Op.in]: Array.from(accessibleActivityIds) } }
+            ]
+          } : {},
+          { [Op.or]: [{ status: { [Op.ne]: 'draft' } }, { submittedBy: user.id }] }
         ]
-      } : {},
+      },
       include: [
         { model: FormTemplate, as: 'template', attributes: ['id', 'name', 'schema', 'version'] },
         { model: User, as: 'submitter', attributes: ['id', 'firstName', 'lastName', 'email'] }
       ]
     }) as any[];
 
+    // Rejected submissions of this user, so they can be corrected and resubmitted from the device
+    const rejectedResponses = await FormResponse.findAll({
+      where: { submittedBy: user.id, status: 'rejected' },
+      include: [
+        { model: FormTemplate, as: 'template', attributes: ['id', 'name', 'version'] },
+        { model: User, as: 'reviewer', attributes: ['id', 'firstName', 'lastName', 'email'] }
+      ],
+      order: [['reviewedAt', 'DESC']]
+    }) as any[];
+
     // Get service deliveries - only for accessible entities
     const serviceDeliveries = await ServiceDelivery.findAll({
       where: allowedPrograms && !isAdmin ? {
@@ -347,14 +394,21 @@ export async function dataDump(req: Request, res: Response) {
       }
     }
     
+    // Beneficiaries who did not consent to data collection are sent without PII
+    const consentedPurposes = await getConsentedPurposes((beneficiaries as any[]).map((b: any) => String(b.id)));
+
     const processedBeneficiaries = (beneficiaries as any[]).map((b: any) => {
       const base: any = {
         id: b.id,
         pseudonym: b.pseudonym,
         status: b.status,
+        version: b.version,
         createdAt: b.createdAt,
         updatedAt: b.updatedAt
       };
+      if (!consentedPurposes.get(String(b.id))?.has('data_collection')) {
+        return { ...base, consentRequired: 'data_collection' };
+      }
       
       const enc: any = {
         firstNameEnc: b.firstNameEnc,
@@ -408,6 +462,35 @@ export async function dataDump(req: Request, res: Response) {
       return { ...base, piiEnc: enc };
     });
 
+    // Case management: open follow-up tasks of the dumped beneficiaries, and the case notes this user may read.
+    // Note texts and task details are only sent where the beneficiary's PII is sent.
+    const dumpedBeneficiaryIds = (beneficiaries as any[]).map((b: any) => String(b.id));
+    const piiBeneficiaryIds = new Set(dumpedBeneficiaryIds.filter(id =>
+      accessibleBeneficiaryIds.has(id) && consentedPurposes.get(id)?.has('data_collection')
+    ));
+    const [followUpTasks, caseNotes] = dumpedBeneficiaryIds.length
+      ? await Promise.all([
+          BeneficiaryFollowUpTask.findAll({
+            where: { beneficiaryId: { [Op.in]: dumpedBeneficiaryIds }, status: 'open' },
+            order: [['dueDate', 'ASC']]
+          }),
+          piiBeneficiaryIds.size
+            ? BeneficiaryCaseNote.findAll({
+                where: { beneficiaryId: { [Op.in]: Array.from(piiBeneficiaryIds) } },
+                order: [['createdAt', 'DESC']]
+              })
+            : Promise.resolve([] as BeneficiaryCaseNote[])
+        ])
+      : [[], []];
+    const caseViewer = { id: user.id, roleNames };
+
+    // ICD-10 catalog for recording beneficiary conditions offline
+    const icd10Codes = await Icd10Code.findAll({
+      where: { isActive: true },
+      attributes: ['id', 'code', 'label', 'synonyms', 'category'],
+      order: [['code', 'ASC']]
+    });
+
     // Build association-aware form_templates for this user's scope
     const augmentedFormTemplates = [] as any[];
     for (const ft of (formTemplates as any[])) {
@@ -506,6 +589,7 @@ export async function dataDump(req: Request, res: Response) {
       
       augmentedFormTemplates.push({
         ...ft,
+        schema: locale ? localizeSchema(ft.schema, locale) : ft.schema,
         associations: formAssociations
       });
     }
@@ -521,7 +605,9 @@ export async function dataDump(req: Request, res: Response) {
         allowedPrograms: allowedPrograms ? Array.from(allowedPrograms) : null,
         accessibleBeneficiaries: accessibleBeneficiaryIds.size,
         totalBeneficiaries: (beneficiaries as any[]).length,
-        piiAccessPolicy: isAdminForPII ? 'full' : 'project-scoped'
+        piiAccessPolicy: isAdminForPII ? 'full' : 'project-scoped',
+        rejectedResponses: rejectedResponses.length,
+        locale
       },
       // Core entities - only what the user has access to
       projects: (projects as any[]).map(p => ({
@@ -565,15 +651,34 @@ export async function dataDump(req: Request, res: Response) {
         entityType: fr.entityType,
         submittedBy: fr.submittedBy,
         beneficiaryId: fr.beneficiaryId,
+        formTemplateVersion: fr.formTemplateVersion,
         data: fr.data,
         latitude: fr.latitude,
         longitude: fr.longitude,
         submittedAt: fr.submittedAt,
+        status: fr.status,
+        reviewedAt: fr.reviewedAt,
+        reviewComment: fr.reviewComment,
         template: fr.template,
         submitter: fr.submitter,
         createdAt: fr.createdAt,
         updatedAt: fr.updatedAt
       })),
+      // Own submissions rejected by a reviewer, with the reviewer's comment
+      rejected_responses: rejectedResponses.map(fr => ({
+        id: fr.id,
+        formTemplateId: fr.formTemplateId,
+        formTemplateVersion: fr.formTemplateVersion,
+        entityId: fr.entityId,
+        entityType: fr.entityType,
+        beneficiaryId: fr.beneficiaryId,
+        data: fr.data,
+        submittedAt: fr.submittedAt,
+        reviewedAt: fr.reviewedAt,
+        reviewComment: fr.reviewComment,
+        template: fr.template,
+        reviewer: fr.reviewer
+      })),
       
       // Services - only accessible ones
       services: (services as any[]).map(s => ({
@@ -603,7 +708,12 @@ export async function dataDump(req: Request, res: Response) {
       })),
       
       // Beneficiaries - only accessible ones with proper PII handling
-      beneficiaries: processedBeneficiaries
+      beneficiaries: processedBeneficiaries,
+
+      // Case management
+      follow_up_tasks: followUpTasks.map(t => toFollowUpTaskView(t, piiBeneficiaryIds.has(String(t.beneficiaryId)))),
+      case_notes: caseNotes.filter(n => canReadCaseNote(n, caseViewer)).map(toCaseNoteView),
+      icd10_codes: icd10Codes
     });
   } catch (err: any) {
     console.error(err);
@@ -651,6 +761,8 @@ export async function upload(req: Request, res: Response) {
     const manifestData: any[] = [];
 
     for (const survey of surveys) {
+      let idempotencyKey: IdempotencyKey | null = null;
+      let requestHash = '';
       try {
         // Log each individual survey
         console.log('--- PROCESSING SURVEY ---');
@@ -666,7 +778,10 @@ export async function upload(req: Request, res: Response) {
           beneficiaryIds: beneficiaryIdsArr, // new array contract
           serviceIds = [],
           answers = {},
-          metadata = {}
+          metadata = {},
+          formVersion, // template version the survey was captured with (optional)
+          attachmentIds = [], // attachments uploaded beforehand via /forms/attachments (optional)
+          consents = [] // consent records captured on the device (optional)
         } = survey;
 
         // Log parsed survey components
@@ -690,6 +805,37 @@ export async function upload(req: Request, res: Response) {
           });
           continue;
         }
+        if (String(clientRequestId).length > MAX_CLIENT_ID_LENGTH) {
+          results.push({
+            clientRequestId,
+            status: "error",
+            message: `clientRequestId must be at most ${MAX_CLIENT_ID_LENGTH} characters`
+          });
+          continue;
+        }
+
+        // A retry of an upload that was already applied gets the original result back
+        idempotencyKey = {
+          scope: 'upload',
+          userId: String(user.id),
+          deviceId: resolveDeviceId(req.header('x-device-id'), metadata?.deviceId),
+          clientId: String(clientRequestId)
+        };
+        requestHash = hashRequest(survey);
+        const previous = await findIdempotentResult(idempotencyKey, requestHash);
+        if (previous.state === 'replay') {
+          results.push(previous.result);
+          continue;
+        }
+        if (previous.state === 'conflict') {
+          results.push({
+            clientRequestId,
+            status: "error",
+            code: "IDEMPOTENCY_KEY_REUSED",
+            message: "clientRequestId was already used for a different submission"
+          });
+          continue;
+        }
 
         // Start transaction for this survey
         const transaction = await sequelize.transaction();
@@ -702,7 +848,7 @@ export async function upload(req: Request, res: Response) {
           }
 
           // Validate form data against schema
-          const validation = await validateFormResponse(formId, answers);
+          const validation = await validateFormResponse(formId, answers, formVersion ?? metadata.formVersion);
           if (!validation.valid) {
             throw new Error(`Form validation failed: ${validation.errors?.join(', ')}`);
           }
@@ -833,6 +979,7 @@ export async function upload(req: Request, res: Response) {
           const formResponseData = {
             id: uuidv4(),
             formTemplateId: formId,
+            formTemplateVersion: validation.version,
             entityId: subprojectId || projectId,
             entityType: subprojectId ? 'subproject' : 'project',
             submittedBy: user.id,
@@ -847,6 +994,46 @@ export async function upload(req: Request, res: Response) {
           const formResponse = await FormResponse.create(formResponseData, { transaction });
           console.log('Form Response created with ID:', formResponse.id);
 
+          // Link attachments referenced by Photo/Signature answers or attachmentIds
+          const attachments = await resolveResponseAttachments({
+            formTemplateId: formId,
+            version: validation.version,
+            data: formResponseData.data,
+            attachmentIds,
+            userId: user.id,
+            transaction
+          });
+          if (attachments.invalid.length) {
+            throw new Error(`Invalid attachment references: ${attachments.invalid.join(', ')}`);
+          }
+          await linkAttachmentsToResponse(formResponse.id, attachments.ids, transaction);
+
+          // Consents: answers mapped in the form's beneficiary mapping, plus explicit consent records
+          if (Array.isArray(consents) && consents.length && !finalBeneficiaryId) {
+            throw new Error('Consents provided for a survey without a beneficiary');
+          }
+          if (finalBeneficiaryId) {
+            const consentOpts = { userId: user.id, transaction, source: 'sync' as const };
+            await recordConsentsFromForm(formId, finalBeneficiaryId, formResponseData.data, {
+              ...consentOpts,
+              formResponseId: formResponse.id,
+              givenAt: formResponseData.submittedAt,
+            });
+            for (const consent of Array.isArray(consents) ? consents : []) {
+              const consentResult = await recordConsent(finalBeneficiaryId, {
+                purpose: consent?.purpose,
+                consentVersion: consent?.consentVersion,
+                givenAt: consent?.givenAt ?? formResponseData.submittedAt,
+                signatureAttachmentId: consent?.signatureAttachmentId ?? null,
+                formResponseId: formResponse.id,
+                granted: consent?.granted,
+              }, consentOpts);
+              if (!consentResult.success) {
+                throw new Error(`Invalid consent: ${consentResult.message}`);
+              }
+            }
+          }
+
           // 5. Create Service Deliveries
           const serviceDeliveries = [];
           const serviceDetails = new Map(); // Store service details for manifest
@@ -911,6 +1098,14 @@ export async function upload(req: Request, res: Response) {
             serviceDeliveries.push(serviceDelivery);
           }
 
+          const appliedResult = await recordIdempotentResult(idempotencyKey, requestHash, {
+            clientRequestId,
+            serverSurveyId: formResponse.id,
+            manifestId,
+            status: "applied",
+            entityType: "formSubmission"
+          }, transaction);
+
           await transaction.commit();
           console.log('Transaction committed successfully for survey:', clientRequestId);
 
@@ -989,13 +1184,7 @@ export async function upload(req: Request, res: Response) {
 
           manifestData.push(manifestEntry);
 
-        results.push({
-            clientRequestId,
-            serverSurveyId: formResponse.id,
-            manifestId,
-            status: "applied",
-            entityType: "formSubmission"
-          });
+          results.push(appliedResult);
 
         } catch (error: any) {
           await transaction.rollback();
@@ -1003,6 +1192,14 @@ export async function upload(req: Request, res: Response) {
         }
 
       } catch (err: any) {
+        // A concurrent retry applied the same survey first: answer with its result
+        if (idempotencyKey && isDuplicateKeyError(err)) {
+          const previous = await findIdempotentResult(idempotencyKey, requestHash).catch(() => null);
+          if (previous?.state === 'replay') {
+            results.push(previous.result);
+            continue;
+          }
+        }
         console.error(`Error processing survey ${survey.clientRequestId}:`, err);
         results.push({
           clientRequestId: survey.clientRequestId || 'unknown',
@@ -28,6 +28,10 @@ import {
   validateNoProtectedRoles,
 } from "../../utils/protectedRoles";
 import { ROLES } from "../../constants/roles";
+import {
+  countFollowUpTasks,
+  openTasksByBeneficiary,
+} from "../../services/beneficiaries/caseManagementService";
 
 // Create a logger instance for this module
 const logger = createLogger("users-controller");
@@ -2553,6 +2557,16 @@ export const getMyBeneficiaries = async (req: Request, res: Response) => {
       );
     }
 
+    // Open follow-up tasks of the listed beneficiaries, and the user's own task counts
+    const [openTasks, myTasks] = await Promise.all([
+      openTasksByBeneficiary(beneficiaries.map((b: any) => String(b.id))),
+      countFollowUpTasks({ assignedTo: userId }),
+    ]);
+    beneficiaries = beneficiaries.map((b: any) => ({
+      ...b,
+      followUpTasks: openTasks.get(String(b.id)) || [],
+    }));
+
     if (canDecrypt) {
       // Audit bulk PII read
       try {
@@ -2588,6 +2602,7 @@ export const getMyBeneficiaries = async (req: Request, res: Response) => {
       data: {
         beneficiaries,
         count: beneficiaries.length,
+        myFollowUpTasks: myTasks,
       },
       page,
       limit,
@@ -0,0 +1,23 @@
+'use strict';
+
+// Blocking keys (duplicate detection) are shared by many beneficiaries, so the
+// (keyType, keyHash) uniqueness only applies to exact match key types.
+const EXACT_TYPES = "('nationalId', 'phone+dob', 'name+dob')";
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    await queryInterface.sequelize.query('DROP INDEX IF EXISTS beneficiary_match_keys_type_hash_unique');
+    await queryInterface.sequelize.query('DROP INDEX IF EXISTS beneficiary_match_keys_key_type_key_hash');
+    await queryInterface.sequelize.query(
+      `CREATE UNIQUE INDEX beneficiary_match_keys_type_hash_unique ON beneficiary_match_keys ("keyType", "keyHash") WHERE "keyType" IN ${EXACT_TYPES}`
+    );
+    await queryInterface.addIndex('beneficiary_match_keys', ['keyType', 'keyHash'], { name: 'beneficiary_match_keys_type_hash' });
+  },
+
+  down: async (queryInterface, Sequelize) => {
+    await queryInterface.sequelize.query(`DELETE FROM beneficiary_match_keys WHERE "keyType" NOT IN ${EXACT_TYPES}`);
+    await queryInterface.removeIndex('beneficiary_match_keys', 'beneficiary_match_keys_type_hash');
+    await queryInterface.sequelize.query('DROP INDEX IF EXISTS beneficiary_match_keys_type_hash_unique');
+    await queryInterface.addIndex('beneficiary_match_keys', ['keyType', 'keyHash'], { unique: true, name: 'beneficiary_match_keys_type_hash_unique' });
+  }
+};
@@ -6,6 +6,11 @@ import initDatabase from "./db/init";
 import loggerMiddleware from "./middlewares/logger";
 import { swaggerUi, swaggerSpec } from "./config/swagger";
 import { seedDatabase } from "./db/seedDatabase";
+import { resumeInterruptedKeyRotations } from "./services/beneficiaries/keyRotationService";
+import { ensureIcd10Catalog } from "./services/beneficiaries/conditionCatalogService";
+import { purgeExpiredIdempotencyKeys } from "./services/sync/idempotencyService";
+import { purgeExpiredChanges, registerChangeLogHooks } from "./services/sync/changeLogService";
+import { purgeDeviceHistory } from "./services/sync/deviceService";
 
 // Load environment variables
 dotenv.config();
@@ -37,13 +42,35 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
   });
 });
 
+// Record writes to synced models in the change log read by delta pulls
+registerChangeLogHooks();
+
 // Initialize database and start server
 initDatabase()
+  // Seed the ICD-10 catalog and take over legacy condition codes on first start
+  .then(() => ensureIcd10Catalog())
   .then(() => {
     // Run seedDatabase to populate the empty database
     // seedDatabase();
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
+      // Continue beneficiary key rotations interrupted by a restart
+      resumeInterruptedKeyRotations().catch(err => console.error("Failed to resume key rotations:", err));
+      // Drop sync idempotency keys past their retention window, now and hourly
+      const purgeIdempotencyKeys = () =>
+        purgeExpiredIdempotencyKeys().catch(err => console.error("Failed to purge sync idempotency keys:", err));
+      purgeIdempotencyKeys();
+      setInterval(purgeIdempotencyKeys, 60 * 60 * 1000).unref();
+      // Drop change log entries past their retention window, now and hourly
+      const purgeChanges = () =>
+        purgeExpiredChanges().catch(err => console.error("Failed to purge sync change log:", err));
+      purgeChanges();
+      setInterval(purgeChanges, 60 * 60 * 1000).unref();
+      // Drop sync device history past its retention window, now and hourly
+      const purgeDeviceEvents = () =>
+        purgeDeviceHistory().catch(err => console.error("Failed to purge sync device history:", err));
+      purgeDeviceEvents();
+      setInterval(purgeDeviceEvents, 60 * 60 * 1000).unref();
     });
   })
   .catch(err => {
@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from 'express';
+import { SyncDeviceOperation } from '../constants/syncDevices';
+import { resolveDeviceId } from '../services/sync/idempotencyService';
+import { DeviceInfo, hasRegisteredDevice, recordDeviceEvent, touchDevice } from '../services/sync/deviceService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('sync-device-middleware');
+
+/**
+ * Sync calls must name their device unless SYNC_DEVICE_REQUIRED=false (for older apps). Even then, users
+ * with a registered device must send it, so a revoked tablet cannot sync by leaving the header out.
+ */
+export const isDeviceRequired = () => process.env.SYNC_DEVICE_REQUIRED !== 'false';
+
+/**
+ * Device details from the X-Device-Model, X-Device-Platform, X-Device-OS-Version and X-App-Version
+ * headers, falling back to a `device` object in the body
+ */
+const readDeviceInfo = (req: Request): DeviceInfo => {
+  const body = req.body?.device && typeof req.body.device === 'object' ? req.body.device : {};
+  return {
+    model: req.header('x-device-model') || body.model,
+    platform: req.header('x-device-platform') || body.platform,
+    osVersion: req.header('x-device-os-version') || body.osVersion,
+    appVersion: req.header('x-app-version') || body.appVersion,
+  };
+};
+
+const clientIp = (req: Request) => req.ip || req.socket.remoteAddress || null;
+
+/**
+ * Device tracking for device-facing sync routes; runs after `authenticate`.
+ * Registers the device named by X-Device-Id (or deviceId / clientId of the body) and records the call in
+ * its sync history once the response is sent. Calls without a device id get 428 (see isDeviceRequired).
+ * A revoked device is refused with 403, code DEVICE_REVOKED, `wipe: true` and the X-Device-Wipe header. The device is left on res.locals.syncDevice.
+ */
+export const trackSyncDevice = (operation: SyncDeviceOperation) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const deviceId = resolveDeviceId(req.header('x-device-id'), req.body?.deviceId, req.body?.clientId);
+    const started = Date.now();
+    const ip = clientIp(req);
+    try {
+      if (!deviceId) {
+        if (isDeviceRequired() || (await hasRegisteredDevice(String(req.user.id)))) {
+          res.status(428).json({ success: false, message: 'X-Device-Id header is required' });
+          return;
+        }
+        next();
+        return;
+      }
+
+      const device = await touchDevice(String(req.user.id), deviceId, readDeviceInfo(req), ip);
+
+      if (device.status === 'revoked') {
+        await recordDeviceEvent(device, { operation, outcome: 'refused', statusCode: 403, ip, durationMs: Date.now() - started });
+        res.setHeader('X-Device-Wipe', 'true');
+        res.status(403).json({
+          success: false,
+          code: 'DEVICE_REVOKED',
+          wipe: true,
+          message: 'This device has been revoked. Delete all local data, then confirm via /sync/devices/wipe-confirmation.',
+        });
+        return;
+      }
+
+      res.locals.syncDevice = device;
+      res.on('close', () => {
+        const finished = res.writableFinished;
+        recordDeviceEvent(device, {
+          operation,
+          outcome: finished && res.statusCode < 400 ? 'success' : 'failed',
+          statusCode: finished ? res.statusCode : null,
+          ip,
+          durationMs: Date.now() - started,
+        }).catch(error => logger.error('Error recording sync device event', { deviceId, operation, error: error.message }));
+      });
+      next();
+    } catch (error: any) {
+      logger.error('Error tracking sync device', { deviceId, operation, error: error.message });
+      res.status(500).json({ success: false, message: 'Internal server error' });
+    }
+  };
+
+export default trackSyncDevice;
@@ -11,6 +11,9 @@ class Beneficiary extends Model {
   public status!: 'active' | 'inactive';
   public isArchived!: boolean; // For soft delete/archiving
   public archivedAt!: Date | null; // When the record was archived
+  public mergedIntoId?: string | null; // Surviving beneficiary when this record was merged as a duplicate
+  public erasedAt?: Date | null; // PII destroyed on a data subject erasure request; the pseudonymous record remains
+  public version!: number; // row version, bumped on every update; offline edits name the version they started from
 
   // PII fields
   public firstNameEnc?: any | null;     
@@ -58,6 +61,14 @@ Beneficiary.init(
       type: DataTypes.DATE,
       allowNull: true,
     },
+    mergedIntoId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    erasedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
 
     firstNameEnc:     { type: DataTypes.JSONB, allowNull: true },
     lastNameEnc:     { type: DataTypes.JSONB, allowNull: true },
@@ -79,9 +90,11 @@ Beneficiary.init(
   {
     sequelize,
     tableName: 'beneficiaries',
+    version: true,
     indexes: [
       { fields: ['pseudonym'], unique: true },
       { fields: ['status'] },
+      { fields: ['mergedIntoId'] },
     ],
   }
 );
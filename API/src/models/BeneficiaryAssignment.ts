@@ -1,15 +1,20 @@
 import { Model, DataTypes } from 'sequelize';
 import sequelize from '../db/connection';
 import { v4 as uuidv4 } from 'uuid';
+import { ASSIGNMENT_LIFECYCLE_STATUSES, AssignmentLifecycleStatus, EXIT_REASONS, ExitReason } from '../constants/lifecycle';
 
 /**
- * Links a Beneficiary to an entity (project or subproject)
+ * Links a Beneficiary to an entity (project or subproject) and tracks the beneficiary's
+ * lifecycle status in that program. Status changes are kept in BeneficiaryAssignmentStatusChange.
  */
 class BeneficiaryAssignment extends Model {
   public id!: string;
   public beneficiaryId!: string;
   public entityId!: string;
   public entityType!: 'project' | 'subproject';
+  public lifecycleStatus!: AssignmentLifecycleStatus;
+  public statusEffectiveAt?: Date | null; // null: status held since the assignment was created
+  public exitReason?: ExitReason | null;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -36,6 +41,21 @@ BeneficiaryAssignment.init(
       allowNull: false,
       validate: { isIn: [["project", "subproject"]] },
     },
+    lifecycleStatus: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: 'enrolled',
+      validate: { isIn: [[...ASSIGNMENT_LIFECYCLE_STATUSES]] },
+    },
+    statusEffectiveAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    exitReason: {
+      type: DataTypes.STRING(32),
+      allowNull: true,
+      validate: { isIn: [[...EXIT_REASONS]] },
+    },
     createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
     updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
   },
@@ -45,6 +65,7 @@ BeneficiaryAssignment.init(
     indexes: [
       { unique: true, fields: ['beneficiaryId', 'entityId', 'entityType'] },
       { fields: ['entityId', 'entityType'] },
+      { fields: ['entityId', 'entityType', 'lifecycleStatus'] },
       { fields: ['beneficiaryId'] },
     ],
   }
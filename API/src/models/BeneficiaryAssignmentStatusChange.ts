@@ -0,0 +1,78 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { ASSIGNMENT_LIFECYCLE_STATUSES, AssignmentLifecycleStatus, EXIT_REASONS, ExitReason } from '../constants/lifecycle';
+
+/**
+ * History of lifecycle status changes of a beneficiary assignment. Reporting replays these
+ * (by effective date) to get the status of every assignment at any point in time.
+ */
+class BeneficiaryAssignmentStatusChange extends Model {
+  public id!: string;
+  public assignmentId!: string;
+  public fromStatus?: AssignmentLifecycleStatus | null; // null: the assignment was created with toStatus
+  public toStatus!: AssignmentLifecycleStatus;
+  public effectiveAt!: Date;
+  public exitReason?: ExitReason | null;
+  public note?: string | null;
+  public changedBy!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BeneficiaryAssignmentStatusChange.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    assignmentId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiary_assignments', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    fromStatus: {
+      type: DataTypes.STRING(16),
+      allowNull: true,
+      validate: { isIn: [[...ASSIGNMENT_LIFECYCLE_STATUSES]] },
+    },
+    toStatus: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      validate: { isIn: [[...ASSIGNMENT_LIFECYCLE_STATUSES]] },
+    },
+    effectiveAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    exitReason: {
+      type: DataTypes.STRING(32),
+      allowNull: true,
+      validate: { isIn: [[...EXIT_REASONS]] },
+    },
+    note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    changedBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'beneficiary_assignment_status_changes',
+    indexes: [
+      { fields: ['assignmentId', 'effectiveAt'] },
+      { fields: ['toStatus', 'effectiveAt'] },
+    ],
+  }
+);
+
+export default BeneficiaryAssignmentStatusChange;
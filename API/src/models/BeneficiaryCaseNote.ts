@@ -0,0 +1,66 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { CASE_NOTE_VISIBILITIES, CaseNoteVisibility } from '../constants/caseManagement';
+
+/**
+ * Case note written by a social worker about a beneficiary. The text is encrypted like PII.
+ */
+class BeneficiaryCaseNote extends Model {
+  public id!: string;
+  public beneficiaryId!: string;
+  public authorId!: string;
+  public visibility!: CaseNoteVisibility;
+  public bodyEnc?: any | null; // encrypted note text
+  public editedAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BeneficiaryCaseNote.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    beneficiaryId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    authorId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+    },
+    visibility: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: 'team',
+      validate: { isIn: [[...CASE_NOTE_VISIBILITIES]] },
+    },
+    bodyEnc: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    editedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'beneficiary_case_notes',
+    indexes: [
+      { fields: ['beneficiaryId', 'createdAt'] },
+      { fields: ['authorId'] },
+    ],
+  }
+);
+
+export default BeneficiaryCaseNote;
@@ -0,0 +1,84 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { CONDITION_STATUSES, ConditionStatus } from '../constants/conditions';
+
+/**
+ * Condition (ICD-10 diagnosis) of a beneficiary. The codes of current (not resolved) conditions are
+ * mirrored into BeneficiaryDetails.details.chronicConditionCodes for filtering and older clients.
+ */
+class BeneficiaryCondition extends Model {
+  public id!: string;
+  public beneficiaryId!: string;
+  public icd10CodeId!: string;
+  public status!: ConditionStatus;
+  public diagnosedAt?: string | null; // YYYY-MM-DD
+  public resolvedAt?: string | null; // YYYY-MM-DD
+  public notesEnc?: any | null; // encrypted clinical notes
+  public recordedBy?: string | null; // null: taken over from the legacy chronicConditionCodes
+  public updatedBy?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BeneficiaryCondition.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    beneficiaryId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    icd10CodeId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'icd10_codes', key: 'id' },
+    },
+    status: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: 'active',
+      validate: { isIn: [[...CONDITION_STATUSES]] },
+    },
+    diagnosedAt: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    resolvedAt: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    notesEnc: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    recordedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+    },
+    updatedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'beneficiary_conditions',
+    indexes: [
+      { unique: true, fields: ['beneficiaryId', 'icd10CodeId'] },
+      { fields: ['icd10CodeId', 'status'] },
+    ],
+  }
+);
+
+export default BeneficiaryCondition;
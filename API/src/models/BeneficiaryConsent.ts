@@ -0,0 +1,104 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { CONSENT_PURPOSES, CONSENT_SOURCES, ConsentPurpose, ConsentSource } from '../constants/consents';
+
+/**
+ * Consent given by a beneficiary for one purpose, against a version of the consent text.
+ * A consent is in force until it is withdrawn; withdrawn records are kept as evidence.
+ */
+class BeneficiaryConsent extends Model {
+  public id!: string;
+  public beneficiaryId!: string;
+  public purpose!: ConsentPurpose;
+  public consentVersion!: string; // version of the consent text shown to the person
+  public givenAt!: Date;
+  public collectedBy!: string;
+  public source!: ConsentSource;
+  public formResponseId?: string | null; // response the consent was captured with
+  public signatureAttachmentId?: string | null; // signature or scanned consent form
+  public withdrawnAt?: Date | null;
+  public withdrawnBy?: string | null;
+  public withdrawalReason?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BeneficiaryConsent.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    beneficiaryId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    purpose: {
+      type: DataTypes.STRING(32),
+      allowNull: false,
+      validate: { isIn: [[...CONSENT_PURPOSES]] },
+    },
+    consentVersion: {
+      type: DataTypes.STRING(32),
+      allowNull: false,
+    },
+    givenAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    collectedBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+    },
+    source: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: 'manual',
+      validate: { isIn: [[...CONSENT_SOURCES]] },
+    },
+    formResponseId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'form_responses', key: 'id' },
+      onDelete: 'SET NULL',
+    },
+    signatureAttachmentId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'form_response_attachments', key: 'id' },
+      onDelete: 'SET NULL',
+    },
+    withdrawnAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    withdrawnBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+    },
+    withdrawalReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'beneficiary_consents',
+    indexes: [
+      { fields: ['beneficiaryId', 'purpose'] },
+      { fields: ['beneficiaryId'], where: { withdrawnAt: null }, name: 'beneficiary_consents_active' },
+    ],
+  }
+);
+
+export default BeneficiaryConsent;
@@ -6,6 +6,7 @@ class BeneficiaryDetails extends Model {
   public id!: string;
   public beneficiaryId!: string;
   public details!: any;
+  public version!: number; // row version, bumped on every update
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -48,8 +49,11 @@ BeneficiaryDetails.init(
   {
     sequelize,
     tableName: "beneficiary_details",
+    version: true,
     indexes: [
       { unique: true, fields: ["beneficiaryId"] },
+      // Containment queries on details, e.g. { chronicConditionCodes: ["E11"] }
+      { fields: ["details"], using: "gin", operator: "jsonb_path_ops" },
     ],
   }
 );
@@ -0,0 +1,80 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+
+export const DUPLICATE_CANDIDATE_STATUSES = ['pending', 'dismissed', 'merged'] as const;
+export type DuplicateCandidateStatus = typeof DUPLICATE_CANDIDATE_STATUSES[number];
+
+/**
+ * A suspected duplicate pair of beneficiaries awaiting review.
+ * Pairs are stored once with beneficiaryAId < beneficiaryBId.
+ */
+class BeneficiaryDuplicateCandidate extends Model {
+  public id!: string;
+  public beneficiaryAId!: string;
+  public beneficiaryBId!: string;
+  public score!: number; // 0..1 similarity
+  public reasons!: any; // { blockingKeys: string[], name, dob, phone, nationalId } component scores
+  public status!: DuplicateCandidateStatus;
+  public reviewedBy?: string | null;
+  public reviewedAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BeneficiaryDuplicateCandidate.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    beneficiaryAId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+    },
+    beneficiaryBId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+    },
+    score: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+    },
+    reasons: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'pending',
+      validate: { isIn: [[...DUPLICATE_CANDIDATE_STATUSES]] },
+    },
+    reviewedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    reviewedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'beneficiary_duplicate_candidates',
+    indexes: [
+      { unique: true, fields: ['beneficiaryAId', 'beneficiaryBId'] },
+      { fields: ['beneficiaryBId'] },
+      { fields: ['status', 'score'] },
+    ],
+  }
+);
+
+export default BeneficiaryDuplicateCandidate;
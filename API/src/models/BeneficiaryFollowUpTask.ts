@@ -0,0 +1,97 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { FOLLOW_UP_TASK_STATUSES, FollowUpTaskStatus } from '../constants/caseManagement';
+
+/**
+ * Follow-up task for a beneficiary's case, assigned to a user with a due date. The title is shown
+ * in task lists; details are encrypted like case notes.
+ */
+class BeneficiaryFollowUpTask extends Model {
+  public id!: string;
+  public beneficiaryId!: string;
+  public caseNoteId?: string | null; // note the task was raised from
+  public title!: string;
+  public detailsEnc?: any | null; // encrypted task details
+  public dueDate!: string; // YYYY-MM-DD
+  public assignedTo!: string;
+  public createdBy!: string;
+  public status!: FollowUpTaskStatus;
+  public completedAt?: Date | null;
+  public completedBy?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BeneficiaryFollowUpTask.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    beneficiaryId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    caseNoteId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'beneficiary_case_notes', key: 'id' },
+      onDelete: 'SET NULL',
+    },
+    title: {
+      type: DataTypes.STRING(200),
+      allowNull: false,
+    },
+    detailsEnc: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    dueDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    assignedTo: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+    },
+    status: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: 'open',
+      validate: { isIn: [[...FOLLOW_UP_TASK_STATUSES]] },
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    completedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'beneficiary_follow_up_tasks',
+    indexes: [
+      { fields: ['beneficiaryId', 'status'] },
+      { fields: ['assignedTo', 'status', 'dueDate'] },
+      { fields: ['status', 'dueDate'] },
+    ],
+  }
+);
+
+export default BeneficiaryFollowUpTask;
@@ -16,7 +16,22 @@ import { v4 as uuidv4 } from 'uuid';
  *     email: 'email',
  *     address: 'address'
  *   },
- *   strategies: ['nationalId', 'phone+dob', 'name+dob']
+ *   strategies: ['nationalId', 'phone+dob', 'name+dob'],
+ *   household: {                          // optional: create or join a household
+ *     householdId: 'household_code',      // answer with an existing household's id or code
+ *     relationship: 'relation_to_head',   // head|spouse|child|dependent|parent|sibling|other
+ *     address: 'address',
+ *     municipality: 'municipality',
+ *     create: true                        // no household given: create one headed by the beneficiary
+ *   },
+ *   consent: {                            // optional: record consents captured on the form
+ *     version: '2025-01',                 // version of the consent text shown on the form
+ *     purposes: {                         // answer per purpose: yes/true gives, no/false withdraws
+ *       data_collection: 'consent_data',
+ *       data_sharing: 'consent_sharing'
+ *     },
+ *     signature: 'consent_signature'      // Signature/Photo answer holding the attachment id
+ *   }
  * }
  */
 class BeneficiaryMapping extends Model {
@@ -52,6 +67,17 @@ BeneficiaryMapping.init(
           if (!val || typeof val !== 'object' || !val.fields) {
             throw new Error('Mapping must contain a fields object');
           }
+          if (val.household !== undefined && (!val.household || typeof val.household !== 'object' || Array.isArray(val.household))) {
+            throw new Error('Mapping household must be an object');
+          }
+          if (val.consent !== undefined) {
+            if (!val.consent || typeof val.consent !== 'object' || Array.isArray(val.consent)) {
+              throw new Error('Mapping consent must be an object');
+            }
+            if (!val.consent.purposes || typeof val.consent.purposes !== 'object' || !val.consent.version) {
+              throw new Error('Mapping consent requires a version and a purposes object');
+            }
+          }
         }
       }
     },
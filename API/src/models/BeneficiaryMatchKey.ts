@@ -1,12 +1,15 @@
 import { Model, DataTypes } from 'sequelize';
 import sequelize from '../db/connection';
 import { v4 as uuidv4 } from 'uuid';
+import { getActiveKeyIds } from '../utils/crypto';
+import { EXACT_MATCH_KEY_TYPES } from '../constants/matchKeys';
 
 class BeneficiaryMatchKey extends Model {
   public id!: string;
   public beneficiaryId!: string;
-  public keyType!: string; // e.g., 'nationalId', 'phone+dob', 'name+dob'
+  public keyType!: string; // exact: 'nationalId', 'phone+dob', 'name+dob'; blocking: see BLOCKING_KEY_TYPES
   public keyHash!: string; // HMAC-SHA256 hex digest
+  public keyId?: string | null; // hash keyring id; null for keys hashed before rotation support
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -31,6 +34,11 @@ BeneficiaryMatchKey.init(
       type: DataTypes.STRING,
       allowNull: false,
     },
+    keyId: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      defaultValue: () => getActiveKeyIds().hashKeyId,
+    },
     createdAt: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -46,8 +54,16 @@ BeneficiaryMatchKey.init(
     sequelize,
     tableName: 'beneficiary_match_keys',
     indexes: [
-      { unique: true, fields: ['keyType', 'keyHash'] },
-      { fields: ['beneficiaryId'] }
+      // Exact keys identify a single beneficiary; blocking keys are shared by similar records
+      {
+        unique: true,
+        fields: ['keyType', 'keyHash'],
+        name: 'beneficiary_match_keys_type_hash_unique',
+        where: { keyType: [...EXACT_MATCH_KEY_TYPES] },
+      },
+      { fields: ['keyType', 'keyHash'], name: 'beneficiary_match_keys_type_hash' },
+      { fields: ['beneficiaryId'] },
+      { fields: ['keyId'] }
     ]
   }
 );
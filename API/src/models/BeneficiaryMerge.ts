@@ -0,0 +1,91 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+
+export const BENEFICIARY_MERGE_STATUSES = ['merged', 'undone'] as const;
+export type BeneficiaryMergeStatus = typeof BENEFICIARY_MERGE_STATUSES[number];
+
+/**
+ * Record of a duplicate merge. `changes` lists every row re-pointed to the survivor
+ * (and the state it replaced), so the merge can be undone exactly.
+ */
+class BeneficiaryMerge extends Model {
+  public id!: string;
+  public survivorId!: string;
+  public mergedId!: string;
+  public candidateId?: string | null;
+  public status!: BeneficiaryMergeStatus;
+  public changes!: any;
+  public mergedBy!: string;
+  public mergedAt!: Date;
+  public undoneBy?: string | null;
+  public undoneAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BeneficiaryMerge.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    survivorId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+    },
+    mergedId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+    },
+    candidateId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'beneficiary_duplicate_candidates', key: 'id' },
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'merged',
+      validate: { isIn: [[...BENEFICIARY_MERGE_STATUSES]] },
+    },
+    changes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+    },
+    mergedBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    mergedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    undoneBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    undoneAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'beneficiary_merges',
+    indexes: [
+      { fields: ['survivorId'] },
+      { fields: ['mergedId'] },
+    ],
+  }
+);
+
+export default BeneficiaryMerge;
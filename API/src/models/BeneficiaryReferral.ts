@@ -0,0 +1,142 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { REFERRAL_PARTY_TYPES, REFERRAL_STATUSES, ReferralPartyType, ReferralStatus } from '../constants/referrals';
+
+/**
+ * Referral of a beneficiary between program entities and/or partner organizations. The loop is
+ * closed when the referral is completed, ideally with the ServiceDelivery that fulfilled it.
+ */
+class BeneficiaryReferral extends Model {
+  public id!: string;
+  public beneficiaryId!: string;
+  public fromType!: ReferralPartyType;
+  public fromEntityId?: string | null; // project/subproject/activity id (null for organizations)
+  public fromOrganization?: string | null; // partner organization name (fromType organization)
+  public toType!: ReferralPartyType;
+  public toEntityId?: string | null;
+  public toOrganization?: string | null;
+  public serviceIds!: string[]; // services requested
+  public notesEnc?: any | null; // encrypted referral notes
+  public status!: ReferralStatus;
+  public sentAt!: Date;
+  public sentBy!: string;
+  public respondedAt?: Date | null; // accepted or declined
+  public respondedBy?: string | null;
+  public declineReasonEnc?: any | null; // encrypted reason given when declining
+  public completedAt?: Date | null;
+  public completedBy?: string | null;
+  public serviceDeliveryId?: string | null; // delivery that closed the loop
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BeneficiaryReferral.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    beneficiaryId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    fromType: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      validate: { isIn: [[...REFERRAL_PARTY_TYPES]] },
+    },
+    fromEntityId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    fromOrganization: {
+      type: DataTypes.STRING(200),
+      allowNull: true,
+    },
+    toType: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      validate: { isIn: [[...REFERRAL_PARTY_TYPES]] },
+    },
+    toEntityId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    toOrganization: {
+      type: DataTypes.STRING(200),
+      allowNull: true,
+    },
+    serviceIds: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    notesEnc: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: 'sent',
+      validate: { isIn: [[...REFERRAL_STATUSES]] },
+    },
+    sentAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    sentBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+    },
+    respondedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    respondedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+    },
+    declineReasonEnc: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    completedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+    },
+    serviceDeliveryId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'service_deliveries', key: 'id' },
+      onDelete: 'SET NULL',
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'beneficiary_referrals',
+    indexes: [
+      { fields: ['beneficiaryId'] },
+      { fields: ['fromType', 'fromEntityId'] },
+      { fields: ['toType', 'toEntityId', 'status'] },
+      { fields: ['status', 'sentAt'] },
+      { fields: ['serviceDeliveryId'] },
+    ],
+  }
+);
+
+export default BeneficiaryReferral;
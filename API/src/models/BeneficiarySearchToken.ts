@@ -0,0 +1,61 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { getActiveKeyIds } from '../utils/crypto';
+
+/**
+ * Blind index for beneficiary search. Each row is the HMAC of one normalized prefix of a name word,
+ * the phone number or the national ID, so searches run in SQL without decrypting PII.
+ */
+class BeneficiarySearchToken extends Model {
+  public id!: string;
+  public beneficiaryId!: string;
+  public field!: 'name' | 'phone' | 'nationalId';
+  public tokenHash!: string; // HMAC-SHA256 hex digest of `search:<field>:<prefix>`
+  public keyId?: string | null; // hash keyring id
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BeneficiarySearchToken.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    beneficiaryId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    field: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      validate: { isIn: [['name', 'phone', 'nationalId']] },
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    keyId: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      defaultValue: () => getActiveKeyIds().hashKeyId,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'beneficiary_search_tokens',
+    indexes: [
+      { fields: ['tokenHash', 'beneficiaryId'] },
+      { fields: ['beneficiaryId'] },
+    ],
+  }
+);
+
+export default BeneficiarySearchToken;
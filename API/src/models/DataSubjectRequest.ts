@@ -0,0 +1,77 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { DATA_SUBJECT_REQUEST_TYPES, DataSubjectRequestType } from '../constants/dataSubjectRequests';
+
+/**
+ * Register of data subject requests answered for a beneficiary: dossier exports (access),
+ * PII corrections (rectification log) and erasures. Holds field names and counts, never PII values.
+ */
+class DataSubjectRequest extends Model {
+  public id!: string;
+  public beneficiaryId!: string;
+  public type!: DataSubjectRequestType;
+  public reference?: string | null; // external request/ticket reference
+  public reason?: string | null;
+  public details!: any; // access: sections exported; rectification: fields changed; erasure: what was destroyed
+  public processedBy!: string;
+  public processedAt!: Date;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+DataSubjectRequest.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    beneficiaryId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+    },
+    type: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      validate: { isIn: [[...DATA_SUBJECT_REQUEST_TYPES]] },
+    },
+    reference: {
+      type: DataTypes.STRING(128),
+      allowNull: true,
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    details: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+    },
+    processedBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+    },
+    processedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'data_subject_requests',
+    indexes: [
+      { fields: ['beneficiaryId', 'processedAt'] },
+      { fields: ['type'] },
+    ],
+  }
+);
+
+export default DataSubjectRequest;
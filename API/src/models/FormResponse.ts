@@ -8,6 +8,7 @@ class FormResponse extends Model {
   // Define attributes
   public id!: string;
   public formTemplateId!: string; // foreign key to form_templates
+  public formTemplateVersion?: number | null; // template version the response was submitted against
   public entityId!: string; // ID of the entity this response is associated with
   public entityType!: string; // 'project', 'subproject', or 'activity'
   public submittedBy!: string; // foreign key to users
@@ -16,6 +17,10 @@ class FormResponse extends Model {
   public latitude?: number; // optional GPS latitude coordinate
   public longitude?: number; // optional GPS longitude coordinate
   public submittedAt!: Date;
+  public status!: 'draft' | 'submitted' | 'approved' | 'rejected'; // review workflow state
+  public reviewedBy?: string | null; // user who last approved/rejected the response
+  public reviewedAt?: Date | null;
+  public reviewComment?: string | null; // reviewer comment (required when rejecting)
 
   // Timestamps
   public readonly createdAt!: Date;
@@ -37,6 +42,10 @@ FormResponse.init(
         key: "id",
       },
     },
+    formTemplateVersion: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
     entityId: {
       type: DataTypes.UUID,
       allowNull: false,
@@ -82,6 +91,30 @@ FormResponse.init(
       allowNull: false,
       defaultValue: DataTypes.NOW,
     },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        isIn: [['draft', 'submitted', 'approved', 'rejected']]
+      },
+      defaultValue: 'submitted', // existing responses predate the review workflow
+    },
+    reviewedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    reviewedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    reviewComment: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
     createdAt: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -96,6 +129,9 @@ FormResponse.init(
   {
     sequelize,
     tableName: "form_responses",
+    indexes: [
+      { fields: ["status"] },
+    ],
   }
 );
 
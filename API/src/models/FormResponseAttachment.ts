@@ -0,0 +1,100 @@
+import { Model, DataTypes } from "sequelize";
+import sequelize from "../db/connection";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * A file (photo, scanned document, receipt, signature) attached to a form response.
+ * Attachments can be uploaded before the response exists (offline capture); they are
+ * linked to the response when it is submitted and referenced from Photo/Signature fields
+ * by attachment id.
+ */
+class FormResponseAttachment extends Model {
+  public id!: string;
+  public formResponseId!: string | null; // null until linked to a submitted response
+  public fieldName!: string | null; // form field the file was captured for, if any
+  public originalName!: string;
+  public mimeType!: string;
+  public sizeBytes!: number;
+  public checksum!: string; // sha256 hex of the stored content
+  public storageDriver!: string; // storage backend that holds the content ('local', ...)
+  public storageKey!: string; // backend specific key/path
+  public uploadedBy!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+FormResponseAttachment.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    formResponseId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "form_responses",
+        key: "id",
+      },
+    },
+    fieldName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    originalName: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    mimeType: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    sizeBytes: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    checksum: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    storageDriver: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: "local",
+    },
+    storageKey: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    uploadedBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "form_response_attachments",
+    indexes: [
+      { fields: ["formResponseId"] },
+      { fields: ["uploadedBy"] },
+    ],
+  }
+);
+
+export default FormResponseAttachment;
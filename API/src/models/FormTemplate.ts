@@ -3,6 +3,61 @@ import sequelize from "../db/connection";
 import { v4 as uuidv4 } from "uuid";
 import { JSONSchema7 } from "json-schema";
 import FormEntityAssociation from "./FormEntityAssociation";
+import { validateFieldLogic } from "../services/forms/formLogic";
+import { FIELD_TYPES, buildFieldJsonSchema, validateFieldTypeOptions } from "../services/forms/fieldTypes";
+import { validateFieldTranslations } from "../services/forms/formLocale";
+
+/**
+ * Validates field definitions, recursing into sections and repeat groups
+ */
+const validateTemplateFields = (fields: any[]) => {
+  for (const field of fields) {
+    if (!field.name || !field.label || !field.type) {
+      throw new Error("Each field must have name, label, and type properties");
+    }
+
+    // Validate field types
+    if (!FIELD_TYPES.includes(field.type)) {
+      throw new Error(`Field type must be one of: ${FIELD_TYPES.join(", ")}`);
+    }
+
+    // Validate type-specific options (dropdown options, numeric ranges, precision)
+    const optionsError = validateFieldTypeOptions(field);
+    if (optionsError) {
+      throw new Error(optionsError);
+    }
+
+    // Validate help text and per-locale labels
+    const translationError = validateFieldTranslations(field);
+    if (translationError) {
+      throw new Error(translationError);
+    }
+
+    // Validate rename lineage used to resolve fields across versions
+    if (field.renamedFrom !== undefined) {
+      const previous = Array.isArray(field.renamedFrom) ? field.renamedFrom : [field.renamedFrom];
+      if (previous.some((n: any) => typeof n !== "string" || !n)) {
+        throw new Error(`Field '${field.name}' renamedFrom must be a field name or an array of field names`);
+      }
+    }
+
+    // Validate sections and repeat groups have nested fields
+    if (field.type === "Section" || field.type === "RepeatGroup") {
+      if (!Array.isArray(field.fields) || field.fields.length === 0) {
+        throw new Error(`${field.type} '${field.name}' must include a non-empty 'fields' array`);
+      }
+      validateTemplateFields(field.fields);
+    }
+
+    if (field.type === "RepeatGroup") {
+      for (const bound of ["minItems", "maxItems"]) {
+        if (field[bound] !== undefined && (!Number.isInteger(field[bound]) || field[bound] < 0)) {
+          throw new Error(`RepeatGroup '${field.name}' ${bound} must be a non-negative integer`);
+        }
+      }
+    }
+  }
+};
 
 class FormTemplate extends Model {
   // Define attributes
@@ -12,6 +67,9 @@ class FormTemplate extends Model {
   public version!: number;
   public status!: string; // 'active' | 'inactive'
   public includeBeneficiaries!: boolean; // Whether this form should create/link beneficiaries
+  public isBlueprint!: boolean; // Published in the template library for cloning
+  public originTemplateId?: string | null; // blueprint/template this one was cloned from
+  public originVersion?: number | null; // origin version the schema was last taken from
 
   // Timestamps
   public readonly createdAt!: Date;
@@ -33,53 +91,57 @@ class FormTemplate extends Model {
       throw new Error("Invalid form schema format");
     }
     
+    const schema: JSONSchema7 = {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      ...FormTemplate.buildObjectSchema(templateSchema.fields)
+    };
+    
+    return schema;
+  }
+
+  /**
+   * Builds an object schema for a list of fields. Sections become nested objects
+   * and repeat groups become arrays of objects.
+   */
+  private static buildObjectSchema(fields: any[]): JSONSchema7 {
     const properties: Record<string, any> = {};
     const required: string[] = [];
     
-    for (const field of templateSchema.fields) {
+    for (const field of fields) {
       const { name, type, required: isRequired } = field;
       
-      if (isRequired) {
+      // Fields with visibleIf/requiredIf rules are checked by the form logic instead
+      if (isRequired && !field.visibleIf && !field.requiredIf) {
         required.push(name);
       }
       
-      let propSchema: Record<string, any> = {};
+      let propSchema: Record<string, any>;
       
       switch (type) {
-        case 'Text':
-          propSchema = { type: 'string' };
-          break;
-        case 'Number':
-          propSchema = { type: 'number' };
+        case 'Section':
+          propSchema = FormTemplate.buildObjectSchema(field.fields || []);
           break;
-        case 'Date':
-          propSchema = { type: 'string', format: 'date' };
-          break;
-        case 'Checkbox':
-          propSchema = { type: 'boolean' };
-          break;
-        case 'Dropdown':
+        case 'RepeatGroup':
           propSchema = {
-            type: 'string',
-            enum: field.options || []
+            type: 'array',
+            items: FormTemplate.buildObjectSchema(field.fields || [])
           };
+          if (field.minItems !== undefined) propSchema.minItems = field.minItems;
+          if (field.maxItems !== undefined) propSchema.maxItems = field.maxItems;
           break;
         default:
-          propSchema = { type: 'string' };
+          propSchema = buildFieldJsonSchema(field);
       }
       
       properties[name] = propSchema;
     }
     
-    const schema: JSONSchema7 = {
-      $schema: 'http://json-schema.org/draft-07/schema#',
+    return {
       type: 'object',
       properties,
       required: required.length > 0 ? required : undefined,
       additionalProperties: false
     };
-    
-    return schema;
   }
 }
 
@@ -104,22 +166,12 @@ FormTemplate.init(
             throw new Error("Schema must include a 'fields' array");
           }
 
-          // Validate each field has required properties
-          for (const field of value.fields) {
-            if (!field.name || !field.label || !field.type) {
-              throw new Error("Each field must have name, label, and type properties");
-            }
-
-            // Validate field types
-            const validTypes = ["Text", "Number", "Date", "Dropdown", "Checkbox"];
-            if (!validTypes.includes(field.type)) {
-              throw new Error(`Field type must be one of: ${validTypes.join(", ")}`);
-            }
-
-            // Validate dropdown fields have options
-            if (field.type === "Dropdown" && (!field.options || !Array.isArray(field.options) || field.options.length === 0)) {
-              throw new Error("Dropdown fields must include an 'options' array");
-            }
+          validateTemplateFields(value.fields);
+
+          // Validate conditional logic rules reference existing fields
+          const logicError = validateFieldLogic(value.fields);
+          if (logicError) {
+            throw new Error(logicError);
           }
         }
       }
@@ -142,6 +194,23 @@ FormTemplate.init(
       allowNull: false,
       defaultValue: false,
     },
+    isBlueprint: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    originTemplateId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "form_templates",
+        key: "id",
+      },
+    },
+    originVersion: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
     createdAt: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -157,6 +226,10 @@ FormTemplate.init(
     sequelize,
     tableName: "form_templates",
     paranoid: true,
+    indexes: [
+      { fields: ["isBlueprint"] },
+      { fields: ["originTemplateId"] },
+    ],
   }
 );
 
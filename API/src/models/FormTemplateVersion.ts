@@ -0,0 +1,77 @@
+import { Model, DataTypes } from "sequelize";
+import sequelize from "../db/connection";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * FormTemplateVersion is a frozen snapshot of a form template schema.
+ * A new row is written every time the template schema changes; rows are never updated,
+ * so responses pinned to a version can always be interpreted against the schema
+ * they were submitted with.
+ */
+class FormTemplateVersion extends Model {
+  public id!: string;
+  public formTemplateId!: string;
+  public version!: number;
+  public schema!: any; // JSONB snapshot of FormTemplate.schema
+  public createdBy?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+FormTemplateVersion.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    formTemplateId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "form_templates",
+        key: "id",
+      },
+    },
+    version: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    schema: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "form_template_versions",
+    indexes: [
+      { unique: true, fields: ["formTemplateId", "version"] },
+    ],
+    hooks: {
+      beforeUpdate: () => {
+        throw new Error("Form template versions are immutable");
+      },
+      beforeBulkUpdate: () => {
+        throw new Error("Form template versions are immutable");
+      },
+    },
+  }
+);
+
+export default FormTemplateVersion;
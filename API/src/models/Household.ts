@@ -0,0 +1,58 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * A household (family) of beneficiaries sharing an address. Members and the head of household
+ * are stored in HouseholdMember; the shared address is encrypted like beneficiary PII.
+ */
+class Household extends Model {
+  public id!: string;
+  public code!: string; // pseudonymous reference, e.g. H-1A2B3C4D
+  public status!: 'active' | 'inactive';
+  public addressEnc?: any | null;
+  public municipalityEnc?: any | null;
+  public createdBy?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Household.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    code: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'active',
+      validate: { isIn: [['active', 'inactive']] },
+    },
+    addressEnc:      { type: DataTypes.JSONB, allowNull: true },
+    municipalityEnc: { type: DataTypes.JSONB, allowNull: true },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'households',
+    indexes: [
+      { fields: ['status'] },
+    ],
+  }
+);
+
+export default Household;
@@ -0,0 +1,65 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { HOUSEHOLD_RELATIONSHIPS, HouseholdRelationship } from '../constants/households';
+
+/**
+ * Membership of a beneficiary in a household, with the relationship to the head of household.
+ * A beneficiary belongs to at most one household and a household has at most one head.
+ */
+class HouseholdMember extends Model {
+  public id!: string;
+  public householdId!: string;
+  public beneficiaryId!: string;
+  public relationship!: HouseholdRelationship;
+  public joinedAt!: Date;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+HouseholdMember.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    householdId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'households', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    beneficiaryId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    relationship: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: 'other',
+      validate: { isIn: [[...HOUSEHOLD_RELATIONSHIPS]] },
+    },
+    joinedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'household_members',
+    indexes: [
+      { unique: true, fields: ['beneficiaryId'] },
+      { fields: ['householdId'] },
+      { unique: true, fields: ['householdId'], where: { relationship: 'head' }, name: 'household_members_one_head' },
+    ],
+  }
+);
+
+export default HouseholdMember;
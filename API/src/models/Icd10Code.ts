@@ -0,0 +1,63 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Admin-editable ICD-10 catalog for beneficiary conditions. One row per code; alternative
+ * (local) labels of the same code are kept as synonyms for search.
+ */
+class Icd10Code extends Model {
+  public id!: string;
+  public code!: string; // e.g. E11, M17.9 (upper case)
+  public label!: string;
+  public synonyms!: string[];
+  public category!: string; // ICD-10 chapter by default, see ICD10_CHAPTERS
+  public isActive!: boolean; // inactive codes stay on existing records but cannot be recorded anew
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Icd10Code.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    code: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      unique: true,
+    },
+    label: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    synonyms: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    category: {
+      type: DataTypes.STRING(32),
+      allowNull: false,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'icd10_codes',
+    indexes: [
+      { fields: ['category'] },
+    ],
+  }
+);
+
+export default Icd10Code;
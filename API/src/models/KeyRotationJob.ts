@@ -0,0 +1,131 @@
+import { Model, DataTypes } from "sequelize";
+import sequelize from "../db/connection";
+import { v4 as uuidv4 } from "uuid";
+
+export const KEY_ROTATION_STATUSES = ["running", "paused", "completed", "failed"] as const;
+export type KeyRotationStatus = typeof KEY_ROTATION_STATUSES[number];
+
+export const KEY_ROTATION_PHASES = ["beneficiaries", "households"] as const;
+export type KeyRotationPhase = typeof KEY_ROTATION_PHASES[number];
+
+/**
+ * KeyRotationJob tracks re-encryption of beneficiary PII and re-hashing of match keys
+ * with the active keyring keys. Beneficiaries, then households are processed in id order; `cursor`
+ * holds the last processed id of the current phase so an interrupted job resumes where it stopped.
+ */
+class KeyRotationJob extends Model {
+  public id!: string;
+  public status!: KeyRotationStatus;
+  public encKeyId!: string; // target encryption key id
+  public hashKeyId!: string; // target hash key id
+  public phase!: KeyRotationPhase;
+  public cursor?: string | null; // last processed beneficiary or household id
+  public processed!: number;
+  public total!: number;
+  public reencryptedFields!: number;
+  public rehashedKeys!: number;
+  public errorCount!: number;
+  public lastError?: string | null;
+  public startedBy!: string;
+  public startedAt?: Date | null;
+  public finishedAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+KeyRotationJob.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    status: {
+      type: DataTypes.ENUM(...KEY_ROTATION_STATUSES),
+      allowNull: false,
+      defaultValue: "running",
+    },
+    encKeyId: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    hashKeyId: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    phase: {
+      type: DataTypes.ENUM(...KEY_ROTATION_PHASES),
+      allowNull: false,
+      defaultValue: "beneficiaries",
+    },
+    cursor: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    processed: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    total: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    reencryptedFields: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    rehashedKeys: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    errorCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    startedBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    startedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    finishedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "key_rotation_jobs",
+    indexes: [
+      { fields: ["status"] },
+    ],
+  }
+);
+
+export default KeyRotationJob;
@@ -6,6 +6,7 @@ class ServiceDelivery extends Model {
   public id!: string;
   public serviceId!: string;
   public beneficiaryId!: string;
+  public householdId?: string | null; // set for household-level deliveries (beneficiaryId is then the head)
   public entityId!: string;
   public entityType!: 'project' | 'subproject' | 'activity';
   public formResponseId?: string | null;
@@ -34,6 +35,11 @@ ServiceDelivery.init(
       allowNull: false,
       references: { model: 'beneficiaries', key: 'id' },
     },
+    householdId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'households', key: 'id' },
+    },
     entityId: {
       type: DataTypes.UUID,
       allowNull: false,
@@ -77,6 +83,7 @@ ServiceDelivery.init(
     tableName: 'service_deliveries',
     indexes: [
       { fields: ['beneficiaryId'] },
+      { fields: ['householdId'] },
       { fields: ['serviceId'] },
       { fields: ['entityId', 'entityType'] },
       { fields: ['deliveredAt'] },
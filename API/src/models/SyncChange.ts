@@ -0,0 +1,68 @@
+import { Model, DataTypes, literal } from 'sequelize';
+import sequelize from '../db/connection';
+import { SYNC_CHANGE_OPERATIONS, SyncChangeOperation } from '../constants/syncChanges';
+
+/**
+ * Change log read by delta pulls. Model hooks append one entry per created, updated or deleted row in
+ * the transaction that wrote it; seq orders the entries and txid lets a reader pick up entries of
+ * transactions that were still running when it last read. Entries expire after the retention window.
+ */
+class SyncChange extends Model {
+  public seq!: string; // BIGINT, returned as a string
+  public txid!: string;
+  public entityType!: string;
+  public entityId!: string;
+  public operation!: SyncChangeOperation;
+  public projectId!: string | null; // program of the row, when it is known on write
+  public userId!: string | null; // for 'revoke': the user who lost access
+
+  public readonly createdAt!: Date;
+}
+
+SyncChange.init(
+  {
+    seq: {
+      type: DataTypes.BIGINT,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    txid: {
+      type: DataTypes.BIGINT,
+      allowNull: false,
+      defaultValue: literal('pg_current_xact_id()::text::bigint'),
+    },
+    entityType: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    entityId: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    operation: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      validate: { isIn: [SYNC_CHANGE_OPERATIONS as unknown as string[]] },
+    },
+    projectId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'sync_changes',
+    updatedAt: false,
+    indexes: [
+      { fields: ['txid'] },
+      { fields: ['createdAt'] },
+    ],
+  }
+);
+
+export default SyncChange;
@@ -0,0 +1,115 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { SYNC_CONFLICT_STATUSES, SyncConflictStatus } from '../constants/syncConflicts';
+
+/**
+ * Offline beneficiary edit pushed against a newer server copy whose fields could not be merged.
+ * The edit's other fields were applied; the conflicting ones wait here until a manager resolves them.
+ */
+class SyncConflict extends Model {
+  public id!: string;
+  public beneficiaryId!: string;
+  public pushedBy!: string;
+  public deviceId!: string; // '' when the client sent none
+  public clientMutationId?: string | null;
+  public fields!: string[]; // conflicting fields, e.g. ['phone', 'details.maritalStatus']
+  public baseVersion!: number; // beneficiary version the device edited
+  public detailsBaseVersion?: number | null;
+  public serverVersion!: number; // beneficiary version when the conflict was detected
+  public detailsServerVersion?: number | null;
+  public valuesEnc?: any | null; // encrypted { base, client, server } values of the conflicting fields
+  public status!: SyncConflictStatus;
+  public resolution?: Record<string, 'client' | 'server' | 'custom'> | null;
+  public resolvedBy?: string | null;
+  public resolvedAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+SyncConflict.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    beneficiaryId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'beneficiaries', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    pushedBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+    },
+    deviceId: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+      defaultValue: '',
+    },
+    clientMutationId: {
+      type: DataTypes.STRING(128),
+      allowNull: true,
+    },
+    fields: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    baseVersion: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    detailsBaseVersion: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    serverVersion: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    detailsServerVersion: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    valuesEnc: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: 'open',
+      validate: { isIn: [[...SYNC_CONFLICT_STATUSES]] },
+    },
+    resolution: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    resolvedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+    },
+    resolvedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'sync_conflicts',
+    indexes: [
+      { fields: ['status', 'createdAt'] },
+      { fields: ['beneficiaryId'] },
+    ],
+  }
+);
+
+export default SyncConflict;
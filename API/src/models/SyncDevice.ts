@@ -0,0 +1,119 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import { SYNC_DEVICE_STATUSES, SyncDeviceStatus } from '../constants/syncDevices';
+
+/**
+ * Field device a user syncs from, registered on its first sync call. Revoking it makes the next sync
+ * answer with a wipe instruction; the device confirms once its local data is gone. Offline bundles are
+ * only encrypted to the public key pinned on the device.
+ */
+class SyncDevice extends Model {
+  public id!: string;
+  public userId!: string;
+  public deviceId!: string; // id the app sends in X-Device-Id
+  public model?: string | null;
+  public platform?: string | null;
+  public osVersion?: string | null;
+  public appVersion?: string | null;
+  public status!: SyncDeviceStatus;
+  public lastSyncAt?: Date | null; // last sync call that succeeded
+  public lastIp?: string | null;
+  public revokedAt?: Date | null;
+  public revokedBy?: string | null;
+  public revokeReason?: string | null;
+  public wipedAt?: Date | null; // when the device confirmed the wipe
+  public publicKeyFingerprint?: string | null; // SHA-256 of the bundle key pinned by the first GET /sync/full
+  public publicKeyPinnedAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+SyncDevice.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    deviceId: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+    },
+    model: {
+      type: DataTypes.STRING(128),
+      allowNull: true,
+    },
+    platform: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    osVersion: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    appVersion: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: 'active',
+      validate: { isIn: [[...SYNC_DEVICE_STATUSES]] },
+    },
+    lastSyncAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastIp: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    revokedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+    },
+    revokeReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    wipedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    publicKeyFingerprint: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    publicKeyPinnedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'sync_devices',
+    indexes: [
+      { unique: true, fields: ['userId', 'deviceId'] },
+      { fields: ['deviceId'] },
+      { fields: ['status'] },
+    ],
+  }
+);
+
+export default SyncDevice;
@@ -0,0 +1,84 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  SYNC_DEVICE_EVENT_OUTCOMES,
+  SYNC_DEVICE_OPERATIONS,
+  SyncDeviceEventOutcome,
+  SyncDeviceOperation,
+} from '../constants/syncDevices';
+
+/**
+ * One sync call of a registered device, kept for the retention window
+ */
+class SyncDeviceEvent extends Model {
+  public id!: string;
+  public syncDeviceId!: string;
+  public userId!: string;
+  public operation!: SyncDeviceOperation;
+  public outcome!: SyncDeviceEventOutcome;
+  public statusCode?: number | null; // null when the connection dropped before a response
+  public ip?: string | null;
+  public appVersion?: string | null;
+  public durationMs?: number | null;
+
+  public readonly createdAt!: Date;
+}
+
+SyncDeviceEvent.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    syncDeviceId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'sync_devices', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    operation: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      validate: { isIn: [[...SYNC_DEVICE_OPERATIONS]] },
+    },
+    outcome: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      validate: { isIn: [[...SYNC_DEVICE_EVENT_OUTCOMES]] },
+    },
+    statusCode: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    ip: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    appVersion: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    durationMs: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'sync_device_events',
+    updatedAt: false,
+    indexes: [
+      { fields: ['syncDeviceId', 'createdAt'] },
+      { fields: ['createdAt'] },
+    ],
+  }
+);
+
+export default SyncDeviceEvent;
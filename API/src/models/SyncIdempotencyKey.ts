@@ -0,0 +1,76 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../db/connection';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Outcome of an offline upload (/sync/uploads, clientRequestId) or push (/sync/push, clientMutationId),
+ * keyed by user, device and the client's id, so a retried request gets the original result back
+ * instead of creating the records again. Entries expire after the retention window.
+ */
+class SyncIdempotencyKey extends Model {
+  public id!: string;
+  public scope!: 'upload' | 'push';
+  public userId!: string;
+  public deviceId!: string; // '' when the client sent none
+  public clientId!: string;
+  public requestHash!: string; // sha256 of the item as first received
+  public result!: any;
+  public expiresAt!: Date;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+SyncIdempotencyKey.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: () => uuidv4(),
+    },
+    scope: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      validate: { isIn: [['upload', 'push']] },
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'id' },
+      onDelete: 'CASCADE',
+    },
+    deviceId: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+      defaultValue: '',
+    },
+    clientId: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+    },
+    requestHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    result: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+    updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+  },
+  {
+    sequelize,
+    tableName: 'sync_idempotency_keys',
+    indexes: [
+      { unique: true, fields: ['scope', 'userId', 'deviceId', 'clientId'] },
+      { fields: ['expiresAt'] },
+    ],
+  }
+);
+
+export default SyncIdempotencyKey;
@@ -11,7 +11,9 @@ import SubprojectUser from "./SubprojectUser";
 import Activity from "./Activity";
 import ActivityUser from "./ActivityUser";
 import FormTemplate from "./FormTemplate";
+import FormTemplateVersion from "./FormTemplateVersion";
 import FormResponse from "./FormResponse";
+import FormResponseAttachment from "./FormResponseAttachment";
 import AuditLog from "./AuditLog";
 import MfaTempToken from "./MfaTempToken";
 import FormField from "./FormField";
@@ -24,6 +26,25 @@ import ServiceAssignment from "./ServiceAssignment";
 import ServiceDelivery from "./ServiceDelivery";
 import BeneficiaryDetails from "./BeneficiaryDetails";
 import BeneficiaryAssignment from "./BeneficiaryAssignment";
+import KeyRotationJob from "./KeyRotationJob";
+import BeneficiaryDuplicateCandidate from "./BeneficiaryDuplicateCandidate";
+import BeneficiaryMerge from "./BeneficiaryMerge";
+import BeneficiarySearchToken from "./BeneficiarySearchToken";
+import Household from "./Household";
+import HouseholdMember from "./HouseholdMember";
+import DataSubjectRequest from "./DataSubjectRequest";
+import BeneficiaryConsent from "./BeneficiaryConsent";
+import BeneficiaryAssignmentStatusChange from "./BeneficiaryAssignmentStatusChange";
+import BeneficiaryCaseNote from "./BeneficiaryCaseNote";
+import BeneficiaryFollowUpTask from "./BeneficiaryFollowUpTask";
+import BeneficiaryReferral from "./BeneficiaryReferral";
+import Icd10Code from "./Icd10Code";
+import BeneficiaryCondition from "./BeneficiaryCondition";
+import SyncIdempotencyKey from "./SyncIdempotencyKey";
+import SyncConflict from "./SyncConflict";
+import SyncChange from "./SyncChange";
+import SyncDevice from "./SyncDevice";
+import SyncDeviceEvent from "./SyncDeviceEvent";
 
 // Set up associations
 
@@ -154,6 +175,40 @@ FormResponse.belongsTo(FormTemplate, {
   as: "template"
 });
 
+// FormTemplate-FormTemplateVersion associations
+FormTemplate.hasMany(FormTemplateVersion, {
+  foreignKey: "formTemplateId",
+  as: "versions"
+});
+FormTemplateVersion.belongsTo(FormTemplate, {
+  foreignKey: "formTemplateId",
+  as: "template"
+});
+
+// FormTemplate library: clones track the template they were derived from
+FormTemplate.belongsTo(FormTemplate, {
+  foreignKey: "originTemplateId",
+  as: "origin"
+});
+FormTemplate.hasMany(FormTemplate, {
+  foreignKey: "originTemplateId",
+  as: "derivedTemplates"
+});
+
+// FormResponse-Attachment associations
+FormResponse.hasMany(FormResponseAttachment, {
+  foreignKey: "formResponseId",
+  as: "attachments"
+});
+FormResponseAttachment.belongsTo(FormResponse, {
+  foreignKey: "formResponseId",
+  as: "formResponse"
+});
+FormResponseAttachment.belongsTo(User, {
+  foreignKey: "uploadedBy",
+  as: "uploader"
+});
+
 // FormResponse-User associations
 User.hasMany(FormResponse, {
   foreignKey: "submittedBy",
@@ -163,6 +218,10 @@ FormResponse.belongsTo(User, {
   foreignKey: "submittedBy",
   as: "submitter"
 });
+FormResponse.belongsTo(User, {
+  foreignKey: "reviewedBy",
+  as: "reviewer"
+});
 
 // FormResponse-Beneficiary associations
 Beneficiary.hasMany(FormResponse, {
@@ -214,6 +273,216 @@ BeneficiaryAssignment.belongsTo(Beneficiary, {
   as: 'beneficiary'
 });
 
+// Assignment lifecycle history
+BeneficiaryAssignment.hasMany(BeneficiaryAssignmentStatusChange, {
+  foreignKey: 'assignmentId',
+  as: 'statusChanges'
+});
+BeneficiaryAssignmentStatusChange.belongsTo(BeneficiaryAssignment, {
+  foreignKey: 'assignmentId',
+  as: 'assignment'
+});
+BeneficiaryAssignmentStatusChange.belongsTo(User, {
+  foreignKey: 'changedBy',
+  as: 'changer'
+});
+
+// Case management: notes and follow-up tasks
+Beneficiary.hasMany(BeneficiaryCaseNote, {
+  foreignKey: 'beneficiaryId',
+  as: 'caseNotes'
+});
+BeneficiaryCaseNote.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryId',
+  as: 'beneficiary'
+});
+BeneficiaryCaseNote.belongsTo(User, {
+  foreignKey: 'authorId',
+  as: 'author'
+});
+Beneficiary.hasMany(BeneficiaryFollowUpTask, {
+  foreignKey: 'beneficiaryId',
+  as: 'followUpTasks'
+});
+BeneficiaryFollowUpTask.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryId',
+  as: 'beneficiary'
+});
+BeneficiaryFollowUpTask.belongsTo(BeneficiaryCaseNote, {
+  foreignKey: 'caseNoteId',
+  as: 'caseNote'
+});
+BeneficiaryFollowUpTask.belongsTo(User, {
+  foreignKey: 'assignedTo',
+  as: 'assignee'
+});
+BeneficiaryFollowUpTask.belongsTo(User, {
+  foreignKey: 'createdBy',
+  as: 'creator'
+});
+
+// Referrals between program entities and partner organizations
+Beneficiary.hasMany(BeneficiaryReferral, {
+  foreignKey: 'beneficiaryId',
+  as: 'referrals'
+});
+BeneficiaryReferral.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryId',
+  as: 'beneficiary'
+});
+BeneficiaryReferral.belongsTo(ServiceDelivery, {
+  foreignKey: 'serviceDeliveryId',
+  as: 'serviceDelivery'
+});
+BeneficiaryReferral.belongsTo(User, {
+  foreignKey: 'sentBy',
+  as: 'sender'
+});
+
+// Health profile: conditions coded against the ICD-10 catalog
+Beneficiary.hasMany(BeneficiaryCondition, {
+  foreignKey: 'beneficiaryId',
+  as: 'conditions'
+});
+BeneficiaryCondition.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryId',
+  as: 'beneficiary'
+});
+Icd10Code.hasMany(BeneficiaryCondition, {
+  foreignKey: 'icd10CodeId',
+  as: 'conditions'
+});
+BeneficiaryCondition.belongsTo(Icd10Code, {
+  foreignKey: 'icd10CodeId',
+  as: 'icd10'
+});
+
+// Offline sync conflicts awaiting resolution
+Beneficiary.hasMany(SyncConflict, {
+  foreignKey: 'beneficiaryId',
+  as: 'syncConflicts'
+});
+SyncConflict.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryId',
+  as: 'beneficiary'
+});
+SyncConflict.belongsTo(User, {
+  foreignKey: 'pushedBy',
+  as: 'pusher'
+});
+
+// Registered sync devices and their sync history
+User.hasMany(SyncDevice, {
+  foreignKey: 'userId',
+  as: 'syncDevices'
+});
+SyncDevice.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user'
+});
+SyncDevice.belongsTo(User, {
+  foreignKey: 'revokedBy',
+  as: 'revoker'
+});
+SyncDevice.hasMany(SyncDeviceEvent, {
+  foreignKey: 'syncDeviceId',
+  as: 'events'
+});
+SyncDeviceEvent.belongsTo(SyncDevice, {
+  foreignKey: 'syncDeviceId',
+  as: 'device'
+});
+
+// Beneficiary-SearchToken associations (blind index)
+Beneficiary.hasMany(BeneficiarySearchToken, {
+  foreignKey: 'beneficiaryId',
+  as: 'searchTokens'
+});
+BeneficiarySearchToken.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryId',
+  as: 'beneficiary'
+});
+
+// Household associations
+Household.hasMany(HouseholdMember, {
+  foreignKey: 'householdId',
+  as: 'members'
+});
+HouseholdMember.belongsTo(Household, {
+  foreignKey: 'householdId',
+  as: 'household'
+});
+Beneficiary.hasOne(HouseholdMember, {
+  foreignKey: 'beneficiaryId',
+  as: 'householdMembership'
+});
+HouseholdMember.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryId',
+  as: 'beneficiary'
+});
+Household.hasMany(ServiceDelivery, {
+  foreignKey: 'householdId',
+  as: 'serviceDeliveries'
+});
+ServiceDelivery.belongsTo(Household, {
+  foreignKey: 'householdId',
+  as: 'household'
+});
+
+// Data subject requests (access, rectification, erasure)
+Beneficiary.hasMany(DataSubjectRequest, {
+  foreignKey: 'beneficiaryId',
+  as: 'dataSubjectRequests'
+});
+DataSubjectRequest.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryId',
+  as: 'beneficiary'
+});
+DataSubjectRequest.belongsTo(User, {
+  foreignKey: 'processedBy',
+  as: 'processor'
+});
+
+// Consent records
+Beneficiary.hasMany(BeneficiaryConsent, {
+  foreignKey: 'beneficiaryId',
+  as: 'consents'
+});
+BeneficiaryConsent.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryId',
+  as: 'beneficiary'
+});
+BeneficiaryConsent.belongsTo(User, {
+  foreignKey: 'collectedBy',
+  as: 'collector'
+});
+BeneficiaryConsent.belongsTo(FormResponseAttachment, {
+  foreignKey: 'signatureAttachmentId',
+  as: 'signature'
+});
+
+// Duplicate review associations
+BeneficiaryDuplicateCandidate.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryAId',
+  as: 'beneficiaryA'
+});
+BeneficiaryDuplicateCandidate.belongsTo(Beneficiary, {
+  foreignKey: 'beneficiaryBId',
+  as: 'beneficiaryB'
+});
+BeneficiaryMerge.belongsTo(Beneficiary, {
+  foreignKey: 'survivorId',
+  as: 'survivor'
+});
+BeneficiaryMerge.belongsTo(Beneficiary, {
+  foreignKey: 'mergedId',
+  as: 'merged'
+});
+BeneficiaryMerge.belongsTo(BeneficiaryDuplicateCandidate, {
+  foreignKey: 'candidateId',
+  as: 'candidate'
+});
+
 // Service associations
 Service.hasMany(ServiceAssignment, {
   foreignKey: 'serviceId',
@@ -285,7 +554,9 @@ export {
   Activity,
   ActivityUser,
   FormTemplate,
+  FormTemplateVersion,
   FormResponse,
+  FormResponseAttachment,
   AuditLog,
   MfaTempToken,
   FormField,
@@ -297,5 +568,24 @@ export {
   ServiceAssignment,
   ServiceDelivery,
   BeneficiaryDetails,
-  BeneficiaryAssignment
+  BeneficiaryAssignment,
+  KeyRotationJob,
+  BeneficiaryDuplicateCandidate,
+  BeneficiaryMerge,
+  BeneficiarySearchToken,
+  Household,
+  HouseholdMember,
+  DataSubjectRequest,
+  BeneficiaryConsent,
+  BeneficiaryAssignmentStatusChange,
+  BeneficiaryCaseNote,
+  BeneficiaryFollowUpTask,
+  BeneficiaryReferral,
+  Icd10Code,
+  BeneficiaryCondition,
+  SyncIdempotencyKey,
+  SyncConflict,
+  SyncChange,
+  SyncDevice,
+  SyncDeviceEvent
 };
@@ -1,5 +1,15 @@
 import { Router, Request, Response } from 'express';
 import beneficiariesController from '../../controllers/beneficiaries';
+import keyRotationController from '../../controllers/beneficiaries/keyRotation';
+import duplicatesController from '../../controllers/beneficiaries/duplicates';
+import searchIndexController from '../../controllers/beneficiaries/searchIndex';
+import householdsController from '../../controllers/beneficiaries/households';
+import dataSubjectController from '../../controllers/beneficiaries/dataSubject';
+import consentsController from '../../controllers/beneficiaries/consents';
+import lifecycleController from '../../controllers/beneficiaries/lifecycle';
+import caseManagementController from '../../controllers/beneficiaries/caseManagement';
+import referralsController from '../../controllers/beneficiaries/referrals';
+import conditionsController from '../../controllers/beneficiaries/conditions';
 import { authenticate, authorize } from '../../middlewares/auth';
 import loggerMiddleware from '../../middlewares/logger';
 import { ROLES } from '../../constants/roles';
@@ -36,6 +46,66 @@ router.use(loggerMiddleware);
  *         updatedAt:
  *           type: string
  *           format: date-time
+ *     KeyRotationJob:
+ *       type: object
+ *       properties:
+ *         id: { type: string, format: uuid }
+ *         status: { type: string, enum: [running, paused, completed, failed] }
+ *         phase: { type: string, enum: [beneficiaries, households] }
+ *         encKeyId: { type: string }
+ *         hashKeyId: { type: string }
+ *         processed: { type: integer }
+ *         total: { type: integer }
+ *         percent: { type: integer }
+ *         reencryptedFields: { type: integer }
+ *         rehashedKeys: { type: integer }
+ *         errorCount: { type: integer }
+ *         lastError: { type: string, nullable: true }
+ *         startedBy: { type: string, format: uuid }
+ *         startedAt: { type: string, format: date-time }
+ *         finishedAt: { type: string, format: date-time, nullable: true }
+ *     Household:
+ *       type: object
+ *       properties:
+ *         id: { type: string, format: uuid }
+ *         code: { type: string, example: H-1A2B3C4D }
+ *         status: { type: string, enum: [active, inactive] }
+ *         headBeneficiaryId: { type: string, format: uuid, nullable: true }
+ *         memberCount: { type: integer }
+ *         members:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id: { type: string, format: uuid }
+ *               beneficiaryId: { type: string, format: uuid }
+ *               pseudonym: { type: string }
+ *               relationship: { type: string, enum: [head, spouse, child, dependent, parent, sibling, other] }
+ *               joinedAt: { type: string, format: date-time }
+ *         address: { type: string, nullable: true, description: Only returned by GET /beneficiaries/households/{householdId} }
+ *         municipality: { type: string, nullable: true, description: Only returned by GET /beneficiaries/households/{householdId} }
+ *     BeneficiaryConsent:
+ *       type: object
+ *       properties:
+ *         id: { type: string, format: uuid }
+ *         beneficiaryId: { type: string, format: uuid }
+ *         purpose: { type: string, enum: [data_collection, data_sharing] }
+ *         consentVersion: { type: string }
+ *         givenAt: { type: string, format: date-time }
+ *         collectedBy: { type: string, format: uuid }
+ *         source: { type: string, enum: [form, sync, manual] }
+ *         formResponseId: { type: string, format: uuid, nullable: true }
+ *         signatureAttachmentId: { type: string, format: uuid, nullable: true }
+ *         withdrawnAt: { type: string, format: date-time, nullable: true }
+ *         withdrawnBy: { type: string, format: uuid, nullable: true }
+ *         withdrawalReason: { type: string, nullable: true }
+ *     ReferralParty:
+ *       type: object
+ *       required: [type]
+ *       properties:
+ *         type: { type: string, enum: [project, subproject, activity, organization] }
+ *         entityId: { type: string, format: uuid, description: Required for project, subproject and activity }
+ *         organization: { type: string, maxLength: 200, description: Partner organization name, required for organization }
  */
 
 /**
@@ -64,7 +134,7 @@ router.use(loggerMiddleware);
  *         name: search
  *         schema:
  *           type: string
- *         description: Search beneficiaries by pseudonym or any decrypted PII field (firstName, lastName, email, nationalId, phone, address, municipality, nationality, etc.)
+ *         description: Search beneficiaries by pseudonym (substring) or by prefix of a first/last name word, the phone number or the national ID. Every word must match; PII is matched through a blind index without decrypting records.
  *       - in: query
  *         name: chronicConditionCodes
  *         schema:
@@ -110,6 +180,11 @@ router.get(
  *           type: string
  *           enum: [active, inactive]
  *       - in: query
+ *         name: lifecycleStatus
+ *         schema:
+ *           type: string
+ *         description: Comma-separated lifecycle statuses in the entity (referred, enrolled, suspended, graduated, exited, deceased)
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
@@ -121,7 +196,7 @@ router.get(
  *         name: search
  *         schema:
  *           type: string
- *         description: Search beneficiaries by pseudonym or any decrypted PII field (firstName, lastName, email, nationalId, phone, address, municipality, nationality, etc.)
+ *         description: Search beneficiaries by pseudonym (substring) or by prefix of a first/last name word, the phone number or the national ID. Every word must match; PII is matched through a blind index without decrypting records.
  *     responses:
  *       200:
  *         description: Paginated list of beneficiaries associated to the entity
@@ -145,9 +220,24 @@ router.get(
  *     tags: [Beneficiaries]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: conditionCategory
+ *         schema:
+ *           type: string
+ *           example: endocrine
+ *         description: Only beneficiaries with a current condition of this category (see GET /conditions/categories)
+ *       - in: query
+ *         name: conditionCode
+ *         schema:
+ *           type: string
+ *           example: E11
+ *         description: Only beneficiaries with a current condition of this ICD-10 code
  *     responses:
  *       200:
  *         description: Demographics aggregates
+ *       400:
+ *         description: Unknown condition category
  *       403:
  *         description: Forbidden
  */
@@ -162,65 +252,152 @@ router.get(
 
 /**
  * @swagger
- * /beneficiaries/{id}:
+ * /beneficiaries/duplicates:
  *   get:
- *     summary: Get a beneficiary by ID
+ *     summary: Review queue of suspected duplicate beneficiaries
+ *     description: |
+ *       Pairs sharing a phonetic name, date of birth or phone blocking key and scoring at least 0.8,
+ *       highest score first, with the decrypted identifying fields of both records. Response is marked no-store.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, dismissed, merged]
+ *           default: pending
+ *       - in: query
+ *         name: minScore
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated candidate pairs with score, component scores (reasons) and both beneficiaries
+ *       400:
+ *         description: Invalid status or minScore
+ */
+router.get(
+  '/duplicates',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
+  (req: Request, res: Response): void => {
+    duplicatesController.listCandidates(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/duplicates/scan:
+ *   post:
+ *     summary: Rebuild duplicate blocking keys for all beneficiaries and queue new candidates
+ *     description: New and updated beneficiaries are checked automatically; use this to backfill existing records.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of beneficiaries processed, blocking keys and new candidates
+ */
+router.post(
+  '/duplicates/scan',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
+  (req: Request, res: Response): void => {
+    duplicatesController.scan(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/duplicates/{candidateId}/dismiss:
+ *   post:
+ *     summary: Mark a suspected pair as different people
  *     tags: [Beneficiaries]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: id
+ *         name: candidateId
  *         required: true
  *         schema:
  *           type: string
  *           format: uuid
  *     responses:
  *       200:
- *         description: Beneficiary data
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success: { type: boolean }
- *                 data:
- *                   allOf:
- *                     - $ref: '#/components/schemas/Beneficiary'
- *                     - type: object
- *                       properties:
- *                         details:
- *                           type: object
- *                           additionalProperties: true
- *                           description: Optional extended details JSON if present
+ *         description: Candidate dismissed
  *       404:
- *         description: Not found
+ *         description: Candidate not found
+ *       409:
+ *         description: Candidate is not pending
  */
-router.get(
-  '/:id',
+router.post(
+  '/duplicates/:candidateId/dismiss',
   authenticate,
-  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
   (req: Request, res: Response): void => {
-    beneficiariesController.getById(req, res);
+    duplicatesController.dismiss(req, res);
   }
 );
 
 /**
  * @swagger
- * /beneficiaries/{id}/services:
+ * /beneficiaries/merges:
+ *   post:
+ *     summary: Merge a duplicate beneficiary into a surviving record
+ *     description: |
+ *       Form responses, service deliveries, entity assignments, extended details and exact match keys
+ *       of the merged record are moved to the survivor. The merged record is archived with mergedIntoId set.
+ *       Every moved row is recorded so the merge can be undone.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [survivorId, mergedId]
+ *             properties:
+ *               survivorId: { type: string, format: uuid }
+ *               mergedId: { type: string, format: uuid }
+ *               candidateId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Duplicate candidate being resolved (found automatically when omitted)
+ *     responses:
+ *       201:
+ *         description: Merge record with the moved rows
+ *       400:
+ *         description: Missing or invalid ids
+ *       404:
+ *         description: Beneficiary or candidate not found
+ *       409:
+ *         description: One of the beneficiaries is archived or already merged
  *   get:
- *     summary: List services delivered to a beneficiary
- *     description: Returns paginated service deliveries with service info and the entity (project/subproject/activity) where delivered.
+ *     summary: List beneficiary merges
  *     tags: [Beneficiaries]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: path
- *         name: id
- *         required: true
+ *       - in: query
+ *         name: beneficiaryId
  *         schema:
  *           type: string
  *           format: uuid
+ *         description: Only merges where this beneficiary survived or was merged
  *       - in: query
  *         name: page
  *         schema:
@@ -229,47 +406,70 @@ router.get(
  *         name: limit
  *         schema:
  *           type: integer
- *       - in: query
- *         name: fromDate
- *         schema:
- *           type: string
- *           format: date-time
- *       - in: query
- *         name: toDate
- *         schema:
- *           type: string
- *           format: date-time
  *     responses:
  *       200:
- *         description: Paginated list of service deliveries
- *       404:
- *         description: Beneficiary not found
+ *         description: Paginated merge history
  */
+router.post(
+  '/merges',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
+  (req: Request, res: Response): void => {
+    duplicatesController.merge(req, res);
+  }
+);
+
 router.get(
-  '/:id/services',
+  '/merges',
   authenticate,
-  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
   (req: Request, res: Response): void => {
-    beneficiariesController.servicesForBeneficiary(req, res);
+    duplicatesController.listMerges(req, res);
   }
 );
 
 /**
  * @swagger
- * /beneficiaries/{id}/services/history:
- *   get:
- *     summary: Chronological service history for a beneficiary
- *     description: Returns paginated service deliveries ordered by deliveredAt ASC with service, staff, and entity details.
+ * /beneficiaries/merges/{mergeId}/undo:
+ *   post:
+ *     summary: Undo a beneficiary merge
+ *     description: Restores the merged record and moves the rows recorded in the merge back to it. Rows created for the survivor after the merge stay with the survivor.
  *     tags: [Beneficiaries]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: id
+ *         name: mergeId
  *         required: true
  *         schema:
  *           type: string
  *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Merge undone
+ *       404:
+ *         description: Merge not found
+ *       409:
+ *         description: Already undone, or the survivor was merged again afterwards
+ */
+router.post(
+  '/merges/:mergeId/undo',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
+  (req: Request, res: Response): void => {
+    duplicatesController.undoMerge(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/households:
+ *   get:
+ *     summary: List households with their members (pseudonyms only)
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
  *       - in: query
  *         name: page
  *         schema:
@@ -279,82 +479,1527 @@ router.get(
  *         schema:
  *           type: integer
  *       - in: query
- *         name: fromDate
+ *         name: status
  *         schema:
  *           type: string
- *           format: date-time
+ *           enum: [active, inactive]
  *       - in: query
- *         name: toDate
+ *         name: beneficiaryId
  *         schema:
  *           type: string
- *           format: date-time
+ *           format: uuid
+ *         description: Only the household the beneficiary belongs to
  *     responses:
  *       200:
- *         description: Paginated service history
+ *         description: Paginated list of households
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Household'
+ *   post:
+ *     summary: Create a household
+ *     description: A beneficiary can belong to one household only; a household has at most one head.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               headBeneficiaryId: { type: string, format: uuid }
+ *               members:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [beneficiaryId]
+ *                   properties:
+ *                     beneficiaryId: { type: string, format: uuid }
+ *                     relationship: { type: string, enum: [head, spouse, child, dependent, parent, sibling, other] }
+ *               address: { type: string, description: Shared address (stored encrypted) }
+ *               municipality: { type: string }
+ *     responses:
+ *       201:
+ *         description: Household created
  *       404:
  *         description: Beneficiary not found
+ *       409:
+ *         description: A beneficiary already belongs to a household
  */
 router.get(
-  '/:id/services/history',
+  '/households',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    householdsController.list(req, res);
+  }
+);
+router.post(
+  '/households',
   authenticate,
   authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
   (req: Request, res: Response): void => {
-    beneficiariesController.serviceHistoryForBeneficiary(req, res);
+    householdsController.create(req, res);
   }
 );
 
 /**
  * @swagger
- * /beneficiaries/{id}/entities:
+ * /beneficiaries/households/{householdId}:
  *   get:
- *     summary: List entities where the beneficiary has received services
- *     description: Returns distinct entities (project/subproject/activity) with counts and last delivery date.
+ *     summary: Get a household with members and its decrypted shared address (audited)
  *     tags: [Beneficiaries]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: id
+ *         name: householdId
  *         required: true
  *         schema:
  *           type: string
  *           format: uuid
  *     responses:
  *       200:
- *         description: List of entities with counts
+ *         description: Household
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Household'
  *       404:
- *         description: Beneficiary not found
+ *         description: Household not found
+ *   put:
+ *     summary: Update a household's shared address or status
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               address: { type: string, nullable: true }
+ *               municipality: { type: string, nullable: true }
+ *               status: { type: string, enum: [active, inactive] }
+ *     responses:
+ *       200:
+ *         description: Household updated
+ *       404:
+ *         description: Household not found
  */
 router.get(
-  '/:id/entities',
+  '/households/:householdId',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    householdsController.getById(req, res);
+  }
+);
+router.put(
+  '/households/:householdId',
   authenticate,
   authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
   (req: Request, res: Response): void => {
-    beneficiariesController.entitiesForBeneficiary(req, res);
+    householdsController.update(req, res);
   }
 );
 
 /**
  * @swagger
- * /beneficiaries/{id}/pii:
- *   get:
- *     summary: Get decrypted PII for a beneficiary (restricted)
- *     description: Returns decrypted PII fields. Access is restricted and all reads are audited. Responses are marked no-store.
+ * /beneficiaries/households/{householdId}/members:
+ *   post:
+ *     summary: Add a beneficiary to a household
  *     tags: [Beneficiaries]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: id
+ *         name: householdId
  *         required: true
  *         schema:
  *           type: string
  *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [beneficiaryId]
+ *             properties:
+ *               beneficiaryId: { type: string, format: uuid }
+ *               relationship: { type: string, enum: [head, spouse, child, dependent, parent, sibling, other], default: other }
  *     responses:
- *       200:
- *         description: Decrypted PII projection
- *       403:
- *         description: Forbidden
+ *       201:
+ *         description: Member added
+ *       404:
+ *         description: Household or beneficiary not found
+ *       409:
+ *         description: Beneficiary already belongs to a household, or the household already has a head
+ */
+router.post(
+  '/households/:householdId/members',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    householdsController.addMember(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/households/{householdId}/members/{beneficiaryId}:
+ *   put:
+ *     summary: Change a member's relationship to the head of household
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: beneficiaryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [relationship]
+ *             properties:
+ *               relationship: { type: string, enum: [head, spouse, child, dependent, parent, sibling, other] }
+ *     responses:
+ *       200:
+ *         description: Member updated
+ *       404:
+ *         description: Member not found
+ *       409:
+ *         description: The household already has a head
+ *   delete:
+ *     summary: Remove a beneficiary from a household
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: beneficiaryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       404:
+ *         description: Member not found
+ */
+router.put(
+  '/households/:householdId/members/:beneficiaryId',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    householdsController.updateMember(req, res);
+  }
+);
+router.delete(
+  '/households/:householdId/members/:beneficiaryId',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    householdsController.removeMember(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/households/{householdId}/services:
+ *   post:
+ *     summary: Record a service delivered to a household
+ *     description: The delivery is attributed to the head of household and counts towards "households reached".
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [serviceId, entityId, entityType]
+ *             properties:
+ *               serviceId: { type: string, format: uuid }
+ *               entityId: { type: string, format: uuid }
+ *               entityType: { type: string, enum: [project, subproject, activity] }
+ *               deliveredAt: { type: string, format: date-time }
+ *               staffUserId: { type: string, format: uuid }
+ *               notes: { type: string }
+ *     responses:
+ *       201:
+ *         description: Service delivery recorded
+ *       404:
+ *         description: Household or service not found
+ *       409:
+ *         description: Household has no head of household
+ */
+router.post(
+  '/households/:householdId/services',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    householdsController.recordDelivery(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/search-index/rebuild:
+ *   post:
+ *     summary: Rebuild the blind search index for all beneficiaries
+ *     description: New and updated beneficiaries are indexed automatically; use this to backfill existing records.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of beneficiaries processed and search tokens stored
+ */
+router.post(
+  '/search-index/rebuild',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    searchIndexController.rebuild(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/key-rotations:
+ *   post:
+ *     summary: Start re-encrypting beneficiary PII and match keys with the active keys
+ *     description: |
+ *       Add the new key to BENEFICIARY_ENC_KEYS / BENEFICIARY_HASH_KEYS and make it active first.
+ *       The job runs in the background in batches, beneficiaries first and then households, and resumes after restarts.
+ *       `processed` and `total` count both. Only one job can be running or paused.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Job started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data: { $ref: '#/components/schemas/KeyRotationJob' }
+ *       409:
+ *         description: A key rotation job is already in progress
+ *   get:
+ *     summary: List key rotation jobs with the configured key ids
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Active key ids, keyring ids and the most recent jobs
+ */
+router.post(
+  '/key-rotations',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    keyRotationController.start(req, res);
+  }
+);
+
+router.get(
+  '/key-rotations',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    keyRotationController.list(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/key-rotations/{jobId}:
+ *   get:
+ *     summary: Get the progress of a key rotation job
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Job progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data: { $ref: '#/components/schemas/KeyRotationJob' }
+ *       404:
+ *         description: Job not found
+ */
+router.get(
+  '/key-rotations/:jobId',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    keyRotationController.getById(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/key-rotations/{jobId}/pause:
+ *   post:
+ *     summary: Pause a running key rotation job after its current batch
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Job paused
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: Job is not running
+ */
+router.post(
+  '/key-rotations/:jobId/pause',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    keyRotationController.pause(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/key-rotations/{jobId}/resume:
+ *   post:
+ *     summary: Resume a paused or failed key rotation job from its last batch
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       202:
+ *         description: Job resumed
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: Job cannot be resumed (wrong status, active keys changed, or another job in progress)
+ */
+router.post(
+  '/key-rotations/:jobId/resume',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    keyRotationController.resume(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/data-subject-requests:
+ *   get:
+ *     summary: Register of data subject requests (access, rectification, erasure)
+ *     description: Records hold field names and counts only, never PII values.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: beneficiaryId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [access, rectification, erasure]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated list of data subject requests
+ */
+router.get(
+  '/data-subject-requests',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    dataSubjectController.listRequests(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/tasks:
+ *   get:
+ *     summary: List follow-up tasks across beneficiaries
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: assignedTo
+ *         schema:
+ *           type: string
+ *         description: User id, or `me` for the current user
+ *       - in: query
+ *         name: beneficiaryId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, done, cancelled]
+ *       - in: query
+ *         name: overdue
+ *         schema:
+ *           type: boolean
+ *         description: Only open tasks due before today
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated tasks, soonest due first (details included, decrypted)
+ */
+router.get(
+  '/tasks',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    caseManagementController.listTasks(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/referrals:
+ *   get:
+ *     summary: List referrals across beneficiaries
+ *     description: Users restricted to some programs must filter by an entity of their programs.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [sent, accepted, declined, completed]
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [project, subproject, activity]
+ *       - in: query
+ *         name: organization
+ *         schema:
+ *           type: string
+ *         description: Partner organization name
+ *       - in: query
+ *         name: direction
+ *         schema:
+ *           type: string
+ *           enum: [incoming, outgoing]
+ *         description: Referrals sent to (incoming) or from (outgoing) the entity/organization; both by default
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated referrals, most recent first
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/referrals',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    referralsController.list(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}:
+ *   get:
+ *     summary: Get a beneficiary by ID
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Beneficiary data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Beneficiary'
+ *                     - type: object
+ *                       properties:
+ *                         details:
+ *                           type: object
+ *                           additionalProperties: true
+ *                           description: Optional extended details JSON if present
+ *       404:
+ *         description: Not found
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    beneficiariesController.getById(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/services:
+ *   get:
+ *     summary: List services delivered to a beneficiary
+ *     description: Returns paginated service deliveries with service info and the entity (project/subproject/activity) where delivered.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: fromDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: toDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Paginated list of service deliveries
+ *       404:
+ *         description: Beneficiary not found
+ */
+router.get(
+  '/:id/services',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    beneficiariesController.servicesForBeneficiary(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/services/history:
+ *   get:
+ *     summary: Chronological service history for a beneficiary
+ *     description: Returns paginated service deliveries ordered by deliveredAt ASC with service, staff, and entity details.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: fromDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: toDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Paginated service history
+ *       404:
+ *         description: Beneficiary not found
+ */
+router.get(
+  '/:id/services/history',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    beneficiariesController.serviceHistoryForBeneficiary(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/entities:
+ *   get:
+ *     summary: List entities where the beneficiary has received services
+ *     description: Returns distinct entities (project/subproject/activity) with counts and last delivery date.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: List of entities with counts
+ *       404:
+ *         description: Beneficiary not found
+ */
+router.get(
+  '/:id/entities',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    beneficiariesController.entitiesForBeneficiary(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/assignments:
+ *   get:
+ *     summary: List the program assignments of a beneficiary with lifecycle status and history
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Assignments (project/subproject) with lifecycleStatus, statusEffectiveAt, exitReason and statusChanges
+ *       404:
+ *         description: Beneficiary not found
+ */
+router.get(
+  '/:id/assignments',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    lifecycleController.list(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/assignments/{assignmentId}/status:
+ *   post:
+ *     summary: Change the lifecycle status of a beneficiary in a project or subproject
+ *     description: |
+ *       Allowed changes: referred → enrolled/exited; enrolled → suspended/graduated/exited; suspended → enrolled/graduated/exited;
+ *       graduated → enrolled; exited → referred/enrolled. Any status can change to deceased, which is recorded on every
+ *       assignment of the beneficiary and makes the beneficiary inactive.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status: { type: string, enum: [referred, enrolled, suspended, graduated, exited, deceased] }
+ *               effectiveAt: { type: string, format: date-time, description: Defaults to now; cannot be in the future or before the current status }
+ *               exitReason: { type: string, enum: [completed, moved_away, declined, lost_to_follow_up, ineligible, transferred, other], description: Required when exiting }
+ *               note: { type: string }
+ *     responses:
+ *       200:
+ *         description: Status changed
+ *       400:
+ *         description: Invalid status, date or exit reason
+ *       403:
+ *         description: Forbidden for the assignment's project
+ *       404:
+ *         description: Assignment not found
+ *       409:
+ *         description: Status change not allowed from the current status
+ */
+router.post(
+  '/:id/assignments/:assignmentId/status',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    lifecycleController.changeStatus(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/case-notes:
+ *   get:
+ *     summary: List the case notes of a beneficiary visible to the current user
+ *     description: Notes are decrypted; reads are audited and responses are marked no-store. Refused (403, code CONSENT_REQUIRED) when the beneficiary has not consented to data collection.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Case notes, newest first
+ *       403:
+ *         description: No consent to data collection
+ *       404:
+ *         description: Beneficiary not found
+ *   post:
+ *     summary: Add a case note
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [body]
+ *             properties:
+ *               body: { type: string, maxLength: 20000 }
+ *               visibility:
+ *                 type: string
+ *                 enum: [team, managers, private]
+ *                 default: team
+ *                 description: team - staff who can open the beneficiary; managers - the author, managers and administrators; private - the author only
+ *     responses:
+ *       201:
+ *         description: Case note created
+ *       400:
+ *         description: Invalid body or visibility
+ *       403:
+ *         description: No consent to data collection
+ *       404:
+ *         description: Beneficiary not found
+ *       409:
+ *         description: Beneficiary data has been erased
+ */
+router.get(
+  '/:id/case-notes',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    caseManagementController.listNotes(req, res);
+  }
+);
+
+router.post(
+  '/:id/case-notes',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    caseManagementController.createNote(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/case-notes/{noteId}:
+ *   put:
+ *     summary: Edit a case note (author only)
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: noteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               body: { type: string }
+ *               visibility: { type: string, enum: [team, managers, private] }
+ *     responses:
+ *       200:
+ *         description: Case note updated
+ *       403:
+ *         description: Not the author
+ *       404:
+ *         description: Case note not found
+ *   delete:
+ *     summary: Delete a case note (author or administrator)
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: noteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Case note deleted
+ *       403:
+ *         description: Not the author or an administrator
+ *       404:
+ *         description: Case note not found
+ */
+router.put(
+  '/:id/case-notes/:noteId',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    caseManagementController.updateNote(req, res);
+  }
+);
+
+router.delete(
+  '/:id/case-notes/:noteId',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    caseManagementController.deleteNote(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/tasks:
+ *   get:
+ *     summary: List the follow-up tasks of a beneficiary
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, done, cancelled]
+ *       - in: query
+ *         name: overdue
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Paginated tasks, soonest due first
+ *       404:
+ *         description: Beneficiary not found
+ *   post:
+ *     summary: Create a follow-up task
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [title, dueDate]
+ *             properties:
+ *               title: { type: string, maxLength: 200, description: Shown in task lists and on devices; keep personal details in `details` }
+ *               details: { type: string, description: Stored encrypted }
+ *               dueDate: { type: string, format: date }
+ *               assignedTo: { type: string, format: uuid, description: Defaults to the current user }
+ *               caseNoteId: { type: string, format: uuid }
+ *     responses:
+ *       201:
+ *         description: Task created
+ *       400:
+ *         description: Invalid title, due date, assignee or case note
+ *       404:
+ *         description: Beneficiary not found
+ */
+router.get(
+  '/:id/tasks',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    caseManagementController.listTasks(req, res);
+  }
+);
+
+router.post(
+  '/:id/tasks',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    caseManagementController.createTask(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/tasks/{taskId}:
+ *   put:
+ *     summary: Update, reassign, complete, cancel or reopen a follow-up task
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title: { type: string }
+ *               details: { type: string, nullable: true }
+ *               dueDate: { type: string, format: date }
+ *               assignedTo: { type: string, format: uuid }
+ *               status: { type: string, enum: [open, done, cancelled] }
+ *     responses:
+ *       200:
+ *         description: Task updated
+ *       400:
+ *         description: Invalid update
+ *       404:
+ *         description: Task not found
+ */
+router.put(
+  '/:id/tasks/:taskId',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    caseManagementController.updateTask(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/referrals:
+ *   get:
+ *     summary: List the referrals of a beneficiary
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [sent, accepted, declined, completed]
+ *     responses:
+ *       200:
+ *         description: Paginated referrals, most recent first
+ *       404:
+ *         description: Beneficiary not found
+ *   post:
+ *     summary: Refer a beneficiary to another project, subproject, activity or partner organization
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [from, to]
+ *             properties:
+ *               from:
+ *                 $ref: '#/components/schemas/ReferralParty'
+ *               to:
+ *                 $ref: '#/components/schemas/ReferralParty'
+ *               serviceIds:
+ *                 type: array
+ *                 items: { type: string, format: uuid }
+ *                 description: Services requested
+ *               notes: { type: string }
+ *               sentAt: { type: string, format: date-time, description: Defaults to now }
+ *     responses:
+ *       201:
+ *         description: Referral sent
+ *       400:
+ *         description: Invalid parties, services or date
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Beneficiary or entity not found
+ *       409:
+ *         description: Beneficiary data has been erased
+ */
+router.get(
+  '/:id/referrals',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    referralsController.list(req, res);
+  }
+);
+
+router.post(
+  '/:id/referrals',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    referralsController.create(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/referrals/{referralId}/status:
+ *   post:
+ *     summary: Accept, decline or complete a referral
+ *     description: Completing a referral can link the service delivery that closed the loop; without `at` its delivery date becomes the completion date.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: referralId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status: { type: string, enum: [accepted, declined, completed] }
+ *               at: { type: string, format: date-time, description: Defaults to now }
+ *               declineReason: { type: string, maxLength: 500 }
+ *               serviceDeliveryId: { type: string, format: uuid, description: Delivery of a requested service to the beneficiary after the referral was sent }
+ *     responses:
+ *       200:
+ *         description: Referral updated
+ *       400:
+ *         description: Invalid status, date or service delivery
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Referral not found
+ *       409:
+ *         description: Change not allowed from the current status, or the delivery already closed another referral
+ */
+router.post(
+  '/:id/referrals/:referralId/status',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    referralsController.changeStatus(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/conditions:
+ *   get:
+ *     summary: Health profile of a beneficiary
+ *     description: Conditions coded against the ICD-10 catalog with status, dates and decrypted notes, current ones first. Reads are audited and marked no-store. Refused (403, code CONSENT_REQUIRED) without consent to data collection.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: includeResolved
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *     responses:
+ *       200:
+ *         description: Conditions of the beneficiary
+ *       403:
+ *         description: Forbidden or consent required
+ *       404:
+ *         description: Beneficiary not found
+ *   post:
+ *     summary: Record a condition of a beneficiary
+ *     description: The code must be an active code of the ICD-10 catalog. The codes of current conditions are mirrored into details.chronicConditionCodes.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code: { type: string, example: E11 }
+ *               status: { type: string, enum: [active, in_remission, resolved], default: active }
+ *               diagnosedAt: { type: string, format: date }
+ *               resolvedAt: { type: string, format: date, description: Only for resolved conditions }
+ *               notes: { type: string, maxLength: 5000, description: Stored encrypted }
+ *     responses:
+ *       201:
+ *         description: Condition recorded
+ *       400:
+ *         description: Unknown or inactive code, invalid status or dates
+ *       403:
+ *         description: Forbidden or consent required
+ *       404:
+ *         description: Beneficiary not found
+ *       409:
+ *         description: Condition already recorded, or beneficiary data has been erased
+ */
+router.get(
+  '/:id/conditions',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    conditionsController.list(req, res);
+  }
+);
+
+router.post(
+  '/:id/conditions',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    conditionsController.create(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/conditions/{conditionId}:
+ *   put:
+ *     summary: Update status, dates or notes of a condition
+ *     description: The code cannot be changed. Resolving without resolvedAt stamps today; reopening clears it.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: conditionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status: { type: string, enum: [active, in_remission, resolved] }
+ *               diagnosedAt: { type: string, format: date, nullable: true }
+ *               resolvedAt: { type: string, format: date, nullable: true }
+ *               notes: { type: string, nullable: true }
+ *     responses:
+ *       200:
+ *         description: Condition updated
+ *       400:
+ *         description: Invalid status or dates
+ *       404:
+ *         description: Condition not found
+ *       409:
+ *         description: Beneficiary data has been erased
+ *   delete:
+ *     summary: Remove a condition recorded in error
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: conditionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Condition removed
+ *       404:
+ *         description: Condition not found
+ */
+router.put(
+  '/:id/conditions/:conditionId',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    conditionsController.update(req, res);
+  }
+);
+
+router.delete(
+  '/:id/conditions/:conditionId',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    conditionsController.remove(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/pii:
+ *   get:
+ *     summary: Get decrypted PII for a beneficiary (restricted)
+ *     description: Returns decrypted PII fields. Access is restricted and all reads are audited. Responses are marked no-store. Refused (403, code CONSENT_REQUIRED) when the beneficiary has not consented to data collection.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Decrypted PII projection
+ *       403:
+ *         description: Forbidden
  *       404:
  *         description: Not found
  */
@@ -367,6 +2012,296 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /beneficiaries/{id}/consents:
+ *   get:
+ *     summary: List the consent records of a beneficiary
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Consents (newest first), purposes currently consented to and whether consent is enforced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     consents:
+ *                       type: array
+ *                       items: { $ref: '#/components/schemas/BeneficiaryConsent' }
+ *                     activePurposes:
+ *                       type: array
+ *                       items: { type: string, enum: [data_collection, data_sharing] }
+ *                     enforced: { type: boolean }
+ *       404:
+ *         description: Beneficiary not found
+ *   post:
+ *     summary: Record a consent (or a refusal) of a beneficiary
+ *     description: |
+ *       Without an active data_collection consent, beneficiary PII is redacted from lists and details and
+ *       GET /beneficiaries/{id}/pii is refused; without data_sharing consent, PII is left out of form response exports.
+ *       Recording the same purpose and consent text version again returns the consent already in force.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [purpose, consentVersion]
+ *             properties:
+ *               purpose: { type: string, enum: [data_collection, data_sharing] }
+ *               consentVersion: { type: string, description: Version of the consent text shown to the person }
+ *               givenAt: { type: string, format: date-time }
+ *               signatureAttachmentId: { type: string, format: uuid, description: Signature uploaded via /forms/attachments }
+ *               granted: { type: boolean, description: false records a refusal and withdraws earlier consent for the purpose }
+ *     responses:
+ *       201:
+ *         description: Consent recorded
+ *       200:
+ *         description: Consent already in force, or refusal recorded
+ *       400:
+ *         description: Invalid purpose, version, date or signature attachment
+ *       404:
+ *         description: Beneficiary not found
+ *       409:
+ *         description: Beneficiary data has been erased
+ */
+router.get(
+  '/:id/consents',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    consentsController.list(req, res);
+  }
+);
+
+router.post(
+  '/:id/consents',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    consentsController.create(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/consents/{consentId}/withdraw:
+ *   post:
+ *     summary: Withdraw a consent
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: consentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason: { type: string }
+ *     responses:
+ *       200:
+ *         description: Consent withdrawn
+ *       404:
+ *         description: Consent not found
+ *       409:
+ *         description: Consent was already withdrawn
+ */
+router.post(
+  '/:id/consents/:consentId/withdraw',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    consentsController.withdraw(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/dossier:
+ *   get:
+ *     summary: Export the complete dossier of a beneficiary (data subject access request)
+ *     description: |
+ *       Returns decrypted PII, extended details, household membership, entity assignments, form responses,
+ *       service deliveries, merges, earlier data subject requests and audit events for the beneficiary.
+ *       The export is recorded as an access request and audited. Responses are marked no-store.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: reference
+ *         schema:
+ *           type: string
+ *         description: External reference of the data subject request
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Beneficiary dossier
+ *       404:
+ *         description: Not found
+ */
+router.get(
+  '/:id/dossier',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    dataSubjectController.dossier(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/rectify:
+ *   post:
+ *     summary: Correct beneficiary PII (data subject rectification request)
+ *     description: Updates the given PII fields and logs which fields changed (names only) in the rectification log.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               firstName: { type: string }
+ *               lastName: { type: string }
+ *               dob: { type: string }
+ *               nationalId: { type: string }
+ *               phone: { type: string }
+ *               email: { type: string }
+ *               address: { type: string }
+ *               gender: { type: string, enum: [M, F] }
+ *               municipality: { type: string }
+ *               nationality: { type: string }
+ *               ethnicity: { type: string }
+ *               residence: { type: string }
+ *               householdMembers: { type: integer }
+ *               reference: { type: string }
+ *               reason: { type: string }
+ *     responses:
+ *       200:
+ *         description: Beneficiary corrected; `changedFields` lists the fields whose value changed
+ *       400:
+ *         description: No PII field given
+ *       404:
+ *         description: Not found
+ *       409:
+ *         description: Beneficiary data has been erased
+ */
+router.post(
+  '/:id/rectify',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    dataSubjectController.rectify(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /beneficiaries/{id}/erase:
+ *   post:
+ *     summary: Erase beneficiary PII (data subject erasure request)
+ *     description: |
+ *       Destroys every encrypted PII field, match key and search token of the beneficiary, removes mapped PII
+ *       answers from its form responses and deletes their attachments. The pseudonymous record, assignments
+ *       and service deliveries are kept so statistics stay intact. Database backups keep the old ciphertexts
+ *       until they expire. Irreversible.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [confirm]
+ *             properties:
+ *               confirm: { type: string, description: The beneficiary pseudonym, to confirm the erasure }
+ *               reference: { type: string }
+ *               reason: { type: string }
+ *     responses:
+ *       200:
+ *         description: PII erased; returns what was destroyed
+ *       400:
+ *         description: Erasure not confirmed
+ *       404:
+ *         description: Not found
+ *       409:
+ *         description: Already erased
+ */
+router.post(
+  '/:id/erase',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    dataSubjectController.erase(req, res);
+  }
+);
+
 /**
  * @swagger
  * /beneficiaries:
@@ -406,7 +2341,7 @@ router.get(
  *                     type: array
  *                     items:
  *                       type: string
- *                     description: Array of ICD-10 diagnosis codes (e.g., ["E11", "I10", "J45"])
+ *                     description: Array of ICD-10 diagnosis codes (e.g., ["E11", "I10", "J45"]); each must be an active code of the catalog (GET /conditions/codes) and is recorded as an active condition
  *                     example: ["E11", "I10"]
  *                   chronicConditions:
  *                     type: array
@@ -442,6 +2377,8 @@ router.get(
  *     responses:
  *       201:
  *         description: Created
+ *       400:
+ *         description: Unknown or inactive ICD-10 codes
  */
 router.post(
   '/',
@@ -598,6 +2535,8 @@ router.delete(
  *               properties:
  *                 entityId: { type: string, format: uuid }
  *                 entityType: { type: string, enum: [project, subproject] }
+ *                 status: { type: string, enum: [referred, enrolled, suspended, graduated, exited, deceased], description: Initial lifecycle status of a new association (default enrolled) }
+ *                 effectiveAt: { type: string, format: date-time, description: Date the initial status took effect }
  *           examples:
  *             batch:
  *               summary: Batch associations
@@ -0,0 +1,158 @@
+import { Router, Request, Response } from 'express';
+import conditionsController from '../../controllers/conditions';
+import { authenticate, authorize } from '../../middlewares/auth';
+import loggerMiddleware from '../../middlewares/logger';
+import { ROLES } from '../../constants/roles';
+
+const router = Router();
+
+router.use(loggerMiddleware);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Conditions
+ *   description: ICD-10 catalog of the conditions recorded in beneficiary health profiles
+ */
+
+/**
+ * @swagger
+ * /conditions/categories:
+ *   get:
+ *     summary: List condition categories
+ *     description: The ICD-10 chapters plus 'other' for diagnoses that could not be coded.
+ *     tags: [Conditions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Categories with their titles
+ */
+router.get('/categories', authenticate, (req: Request, res: Response): void => {
+  conditionsController.listCategories(req, res);
+});
+
+/**
+ * @swagger
+ * /conditions/codes:
+ *   get:
+ *     summary: Search the ICD-10 catalog
+ *     tags: [Conditions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Code prefix, or part of the label or a synonym (case-insensitive)
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated catalog entries in code order
+ *       400:
+ *         description: Unknown category
+ *   post:
+ *     summary: Add a code to the ICD-10 catalog
+ *     tags: [Conditions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, label]
+ *             properties:
+ *               code: { type: string, example: E11 }
+ *               label: { type: string, example: Type 2 diabetes mellitus }
+ *               synonyms:
+ *                 type: array
+ *                 items: { type: string }
+ *               category: { type: string, description: Defaults to the ICD-10 chapter of the code }
+ *               isActive: { type: boolean, default: true }
+ *     responses:
+ *       201:
+ *         description: Code added
+ *       400:
+ *         description: Invalid code, label, synonyms or category
+ *       409:
+ *         description: Code already in the catalog
+ */
+router.get('/codes', authenticate, (req: Request, res: Response): void => {
+  conditionsController.listCodes(req, res);
+});
+
+router.post(
+  '/codes',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    conditionsController.createEntry(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /conditions/codes/{id}:
+ *   put:
+ *     summary: Edit an ICD-10 catalog entry
+ *     description: The code itself cannot be changed. Inactive codes stay on recorded conditions but cannot be recorded anew.
+ *     tags: [Conditions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label: { type: string }
+ *               synonyms:
+ *                 type: array
+ *                 items: { type: string }
+ *               category: { type: string }
+ *               isActive: { type: boolean }
+ *     responses:
+ *       200:
+ *         description: Entry updated
+ *       400:
+ *         description: Invalid change
+ *       404:
+ *         description: Code not found
+ */
+router.put(
+  '/codes/:id',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    conditionsController.updateEntry(req, res);
+  }
+);
+
+export default router;
@@ -41,9 +41,11 @@ router.get("/cities", authenticate, (req: Request, res: Response): void => {
  * /constants/chronic-conditions:
  *   get:
  *     summary: Get all available chronic conditions / ICD-10 diagnoses
+ *     deprecated: true
  *     description: |
  *       Returns a predefined list of chronic conditions and ICD-10 diagnoses
  *       for use in beneficiary details dropdown selection.
+ *       Superseded by the editable catalog at GET /conditions/codes; kept for older clients.
  *     tags: [Constants]
  *     security:
  *       - bearerAuth: []
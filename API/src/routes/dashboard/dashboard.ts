@@ -1,6 +1,10 @@
 import { Router, Request, Response } from 'express';
-import { authenticate } from '../../middlewares/auth';
+import { authenticate, authorize } from '../../middlewares/auth';
+import { ROLES } from '../../constants/roles';
 import activitySummaryController from '../../controllers/dashboard/activitySummary';
+import lifecycleController from '../../controllers/dashboard/lifecycle';
+import referralsController from '../../controllers/dashboard/referrals';
+import conditionsController from '../../controllers/dashboard/conditions';
 
 const router = Router();
 
@@ -8,4 +12,31 @@ router.get('/activity-summary', authenticate, (req: Request, res: Response): voi
   activitySummaryController.getActivitySummary(req, res);
 });
 
+router.get(
+  '/beneficiary-lifecycle',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    lifecycleController.getLifecycleReport(req, res);
+  }
+);
+
+router.get(
+  '/referrals',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    referralsController.getReferralReport(req, res);
+  }
+);
+
+router.get(
+  '/conditions',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    conditionsController.getConditionReport(req, res);
+  }
+);
+
 export default router;
@@ -166,8 +166,8 @@ router.use(loggerMiddleware);
  *                           description: Display label for the field
  *                         type:
  *                           type: string
- *                           enum: [Text, Number, Date, Dropdown, Checkbox]
- *                           description: Field type
+ *                           enum: [Text, Number, Integer, Decimal, Date, Dropdown, MultiSelect, Checkbox, Email, Phone, GPS, Photo, Signature, Section, RepeatGroup]
+ *                           description: Field type (Section and RepeatGroup contain nested fields)
  *                         required:
  *                           type: boolean
  *                           description: Whether the field is required
@@ -175,7 +175,39 @@ router.use(loggerMiddleware);
  *                           type: array
  *                           items:
  *                             type: string
- *                           description: Options for dropdown fields
+ *                           description: Options for Dropdown and MultiSelect fields
+ *                         min:
+ *                           type: number
+ *                           description: Minimum value for Integer and Decimal fields
+ *                         max:
+ *                           type: number
+ *                           description: Maximum value for Integer and Decimal fields
+ *                         precision:
+ *                           type: integer
+ *                           description: Number of decimal places allowed for Decimal fields
+ *                         minSelections:
+ *                           type: integer
+ *                           description: Minimum number of selected options for MultiSelect fields
+ *                         maxSelections:
+ *                           type: integer
+ *                           description: Maximum number of selected options for MultiSelect fields
+ *                         fields:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                           description: Nested field definitions for Section and RepeatGroup fields
+ *                         minItems:
+ *                           type: integer
+ *                           description: Minimum number of items for RepeatGroup fields
+ *                         maxItems:
+ *                           type: integer
+ *                           description: Maximum number of items for RepeatGroup fields
+ *                         visibleIf:
+ *                           type: object
+ *                           description: Show the field only when the rule matches, e.g. { field, op, value } or { all | any: [rules] }. The rule may only reference earlier fields (or fields of an enclosing level). Hidden fields are dropped from the response data and are never required.
+ *                         requiredIf:
+ *                           type: object
+ *                           description: Require the field only when the rule matches (same rule format as visibleIf)
  *               includeBeneficiaries:
  *                 type: boolean
  *                 description: Whether this form should create/link beneficiaries on submission
@@ -299,9 +331,32 @@ router.patch(
 
 /**
  * @swagger
- * /forms/templates/{id}:
+ * /forms/templates/blueprints:
  *   get:
- *     summary: Get a form template by ID
+ *     summary: List the blueprints in the form template library
+ *     description: Active templates published as blueprints, with their derived templates and how many are behind the blueprint's current version.
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of blueprints
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  "/templates/blueprints",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.library.listBlueprints(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/blueprint:
+ *   put:
+ *     summary: Publish a form template as a blueprint or remove it from the library
  *     tags: [Forms]
  *     security:
  *       - bearerAuth: []
@@ -313,29 +368,45 @@ router.patch(
  *           format: uuid
  *         required: true
  *         description: The form template ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isBlueprint
+ *             properties:
+ *               isBlueprint:
+ *                 type: boolean
  *     responses:
  *       200:
- *         description: Form template details
- *       401:
- *         description: Unauthorized
+ *         description: Blueprint flag updated
+ *       400:
+ *         description: isBlueprint must be a boolean
  *       403:
  *         description: Forbidden - user does not have access
  *       404:
  *         description: Form template not found
  */
-router.get(
-  "/templates/:id",
+router.put(
+  "/templates/:id/blueprint",
   authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
   (req: Request, res: Response): void => {
-    formsController.templates.getFormTemplateById(req, res);
+    formsController.library.setBlueprint(req, res);
   }
 );
 
 /**
  * @swagger
- * /forms/templates/{id}/hard:
- *   delete:
- *     summary: Permanently delete a form template
+ * /forms/templates/{id}/clone:
+ *   post:
+ *     summary: Clone a form template into other projects, subprojects or activities
+ *     description: |
+ *       Creates a new template (version 1) with the source schema and, by default, its beneficiary mapping.
+ *       The clone records the source as its origin so later source versions can be offered as updates.
+ *       Blueprints can be cloned by anyone; other templates require access to one of their entities.
  *     tags: [Forms]
  *     security:
  *       - bearerAuth: []
@@ -347,241 +418,204 @@ router.get(
  *           format: uuid
  *         required: true
  *         description: The form template ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               entities:
+ *                 type: array
+ *                 description: Target entities (defaults to the source's entities)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                     type:
+ *                       type: string
+ *                       enum: [project, subproject, activity]
+ *               includeBeneficiaryMapping:
+ *                 type: boolean
+ *                 default: true
  *     responses:
- *       200:
- *         description: Form template permanently deleted
- *       401:
- *         description: Unauthorized
+ *       201:
+ *         description: Template cloned
+ *       400:
+ *         description: Invalid name or entities
  *       403:
- *         description: Forbidden - user does not have required permissions
+ *         description: Forbidden - user does not have access
  *       404:
  *         description: Form template not found
+ *       409:
+ *         description: A form template with this name already exists
  */
-router.delete(
-  "/templates/:id/hard",
+router.post(
+  "/templates/:id/clone",
   authenticate,
   authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
   (req: Request, res: Response): void => {
-    formsController.templates.hardDeleteFormTemplate(req, res);
+    formsController.library.cloneTemplate(req, res);
   }
 );
 
 /**
  * @swagger
- * /forms/templates:
+ * /forms/templates/{id}/derived:
  *   get:
- *     summary: Get form templates by entity (project, subproject, activity) with flexible filtering
+ *     summary: List templates cloned from a form template
  *     tags: [Forms]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: query
- *         name: projectId
- *         schema:
- *           type: string
- *           format: uuid
- *         required: false
- *         description: Filter templates by project ID
- *       - in: query
- *         name: subprojectId
- *         schema:
- *           type: string
- *           format: uuid
- *         required: false
- *         description: Filter templates by subproject ID
- *       - in: query
- *         name: activityId
+ *       - in: path
+ *         name: id
  *         schema:
  *           type: string
  *           format: uuid
- *         required: false
- *         description: Filter templates by activity ID
- *       - in: query
- *         name: entityType
- *         schema:
- *           type: string
- *         required: false
- *         description: Filter by entity types (comma-separated values of 'project', 'subproject', 'activity')
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           minimum: 1
- *           default: 1
- *         required: false
- *         description: Page number for pagination
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           minimum: 1
- *           maximum: 100
- *           default: 20
- *         required: false
- *         description: Number of items per page
+ *         required: true
+ *         description: The form template ID
  *     responses:
  *       200:
- *         description: List of form templates
- *       401:
- *         description: Unauthorized
+ *         description: Derived templates with an updateAvailable flag
  *       403:
  *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form template not found
  */
 router.get(
-  "/templates",
+  "/templates/:id/derived",
   authenticate,
   (req: Request, res: Response): void => {
-    formsController.templates.getFormTemplatesByEntity(req, res);
+    formsController.library.getDerivedTemplates(req, res);
   }
 );
 
 /**
  * @swagger
- * /forms/templates/{id}/beneficiary-mapping:
+ * /forms/templates/{id}/blueprint-update:
  *   get:
- *     summary: Get beneficiary mapping configuration for a form template
- *     tags: [Forms, Beneficiaries]
+ *     summary: Check whether the template's origin has a newer version
+ *     description: Returns the origin's latest version, the version last taken and a field diff from this template's schema to the origin's.
+ *     tags: [Forms]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
- *         required: true
  *         schema:
  *           type: string
  *           format: uuid
+ *         required: true
  *         description: The form template ID
  *     responses:
  *       200:
- *         description: Beneficiary mapping configuration
- *       401:
- *         description: Unauthorized
+ *         description: Update status and schema diff
+ *       403:
+ *         description: Forbidden - user does not have access
  *       404:
- *         description: Mapping not found
- */
-router.get(
-  "/templates/:id/beneficiary-mapping",
-  authenticate,
-  (req: Request, res: Response): void => {
-    formsController.beneficiaryMapping.getMapping(req, res);
-  }
-);
-
-/**
- * @swagger
- * /forms/templates/{id}/beneficiary-mapping:
+ *         description: Form template not found or has no origin
  *   post:
- *     summary: Create beneficiary mapping configuration for a form template
- *     tags: [Forms, Beneficiaries]
+ *     summary: Apply the origin's current schema to a derived template
+ *     description: Replaces the schema with the origin's (as a new template version; local changes are overwritten). Existing responses stay pinned to their versions.
+ *     tags: [Forms]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
- *         required: true
  *         schema:
  *           type: string
  *           format: uuid
+ *         required: true
  *         description: The form template ID
  *     requestBody:
- *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - mapping
  *             properties:
- *               mapping:
- *                 type: object
- *                 properties:
- *                   fields:
- *                     type: object
- *                     properties:
- *                       firstName: { type: string }
- *                       lastName: { type: string }
- *                       dob: { type: string }
- *                       nationalId: { type: string }
- *                       phone: { type: string }
- *                       email: { type: string }
- *                       address: { type: string }
- *                   strategies:
- *                     type: array
- *                     items:
- *                       type: string
- *                       enum: ["nationalId", "phone+dob", "name+dob"]
+ *               includeBeneficiaryMapping:
+ *                 type: boolean
+ *                 default: false
  *     responses:
- *       201:
- *         description: Mapping created
- *       400:
- *         description: Invalid input
- *       401:
- *         description: Unauthorized
+ *       200:
+ *         description: Update applied
  *       403:
- *         description: Forbidden
+ *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form template not found or has no origin
  *       409:
- *         description: Mapping already exists
+ *         description: Already up to date
  */
+router.get(
+  "/templates/:id/blueprint-update",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.library.getTemplateBlueprintUpdate(req, res);
+  }
+);
+
 router.post(
-  "/templates/:id/beneficiary-mapping",
+  "/templates/:id/blueprint-update",
   authenticate,
   authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
   (req: Request, res: Response): void => {
-    formsController.beneficiaryMapping.createMapping(req, res);
+    formsController.library.applyTemplateBlueprintUpdate(req, res);
   }
 );
 
 /**
  * @swagger
- * /forms/templates/{id}/beneficiary-mapping:
- *   put:
- *     summary: Update beneficiary mapping configuration for a form template
- *     tags: [Forms, Beneficiaries]
+ * /forms/templates/{id}:
+ *   get:
+ *     summary: Get a form template by ID
+ *     tags: [Forms]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
- *         required: true
  *         schema:
  *           type: string
  *           format: uuid
+ *         required: true
  *         description: The form template ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - mapping
- *             properties:
- *               mapping:
- *                 type: object
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           type: string
+ *           enum: [sq, sr, en]
+ *         description: Resolve labels, help texts and option texts for this locale (`optionLabels` per choice field)
  *     responses:
  *       200:
- *         description: Mapping updated
- *       400:
- *         description: Invalid input
+ *         description: Form template details
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden
+ *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form template not found
  */
-router.put(
-  "/templates/:id/beneficiary-mapping",
+router.get(
+  "/templates/:id",
   authenticate,
-  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
   (req: Request, res: Response): void => {
-    formsController.beneficiaryMapping.updateMapping(req, res);
+    formsController.templates.getFormTemplateById(req, res);
   }
 );
 
 /**
  * @swagger
- * /forms/templates/{id}/responses:
- *   post:
- *     summary: Submit a response to a form
+ * /forms/templates/{id}/versions:
+ *   get:
+ *     summary: List the frozen versions of a form template
  *     tags: [Forms]
  *     security:
  *       - bearerAuth: []
@@ -593,91 +627,1174 @@ router.put(
  *           format: uuid
  *         required: true
  *         description: The form template ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - entityId
- *               - entityType
+ *     responses:
+ *       200:
+ *         description: Versions of the form template, newest first
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form template not found
+ */
+router.get(
+  "/templates/:id/versions",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.templates.getFormTemplateVersions(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/versions/diff:
+ *   get:
+ *     summary: Diff two versions of a form template
+ *     description: Returns fields added, removed, renamed (via renamedFrom) and changed between two versions. Nested fields are identified by path (section.field, group[].field).
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form template ID
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Base version
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *         required: false
+ *         description: Target version (defaults to the current version)
+ *     responses:
+ *       200:
+ *         description: Field-level diff between the two versions
+ *       400:
+ *         description: Invalid version parameters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form template or version not found
+ */
+router.get(
+  "/templates/:id/versions/diff",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.templates.diffFormTemplateVersions(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/versions/{version}:
+ *   get:
+ *     summary: Get the schema of a form template version
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form template ID
+ *       - in: path
+ *         name: version
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: The version number
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           type: string
+ *           enum: [sq, sr, en]
+ *         description: Resolve labels, help texts and option texts for this locale
+ *     responses:
+ *       200:
+ *         description: Frozen schema of the version
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form template or version not found
+ */
+router.get(
+  "/templates/:id/versions/:version",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.templates.getFormTemplateVersion(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/hard:
+ *   delete:
+ *     summary: Permanently delete a form template
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form template ID
+ *     responses:
+ *       200:
+ *         description: Form template permanently deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - user does not have required permissions
+ *       404:
+ *         description: Form template not found
+ */
+router.delete(
+  "/templates/:id/hard",
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
+  (req: Request, res: Response): void => {
+    formsController.templates.hardDeleteFormTemplate(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates:
+ *   get:
+ *     summary: Get form templates by entity (project, subproject, activity) with flexible filtering
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Filter templates by project ID
+ *       - in: query
+ *         name: subprojectId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Filter templates by subproject ID
+ *       - in: query
+ *         name: activityId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Filter templates by activity ID
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Filter by entity types (comma-separated values of 'project', 'subproject', 'activity')
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         required: false
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         required: false
+ *         description: Number of items per page
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           type: string
+ *           enum: [sq, sr, en]
+ *         required: false
+ *         description: Resolve labels, help texts and option texts for this locale
+ *     responses:
+ *       200:
+ *         description: List of form templates
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - user does not have access
+ */
+router.get(
+  "/templates",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.templates.getFormTemplatesByEntity(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/beneficiary-mapping:
+ *   get:
+ *     summary: Get beneficiary mapping configuration for a form template
+ *     tags: [Forms, Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The form template ID
+ *     responses:
+ *       200:
+ *         description: Beneficiary mapping configuration
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Mapping not found
+ */
+router.get(
+  "/templates/:id/beneficiary-mapping",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.beneficiaryMapping.getMapping(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/beneficiary-mapping:
+ *   post:
+ *     summary: Create beneficiary mapping configuration for a form template
+ *     tags: [Forms, Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The form template ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mapping
+ *             properties:
+ *               mapping:
+ *                 type: object
+ *                 properties:
+ *                   fields:
+ *                     type: object
+ *                     properties:
+ *                       firstName: { type: string }
+ *                       lastName: { type: string }
+ *                       dob: { type: string }
+ *                       nationalId: { type: string }
+ *                       phone: { type: string }
+ *                       email: { type: string }
+ *                       address: { type: string }
+ *                   strategies:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                       enum: ["nationalId", "phone+dob", "name+dob"]
+ *     responses:
+ *       201:
+ *         description: Mapping created
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       409:
+ *         description: Mapping already exists
+ */
+router.post(
+  "/templates/:id/beneficiary-mapping",
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
+  (req: Request, res: Response): void => {
+    formsController.beneficiaryMapping.createMapping(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/beneficiary-mapping:
+ *   put:
+ *     summary: Update beneficiary mapping configuration for a form template
+ *     tags: [Forms, Beneficiaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The form template ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mapping
+ *             properties:
+ *               mapping:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Mapping updated
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.put(
+  "/templates/:id/beneficiary-mapping",
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
+  (req: Request, res: Response): void => {
+    formsController.beneficiaryMapping.updateMapping(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/responses:
+ *   post:
+ *     summary: Submit a response to a form
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form template ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - entityId
+ *               - entityType
+ *               - data
+ *             properties:
+ *               entityId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: ID of the entity (project, subproject, or activity) this response is associated with
+ *               entityType:
+ *                 type: string
+ *                 enum: [project, subproject, activity]
+ *                 description: Type of entity this response is associated with
+ *               data:
+ *                 type: object
+ *                 description: Form response data matching the template schema
+ *               latitude:
+ *                 type: number
+ *                 description: Optional latitude where the form was submitted
+ *               longitude:
+ *                 type: number
+ *                 description: Optional longitude where the form was submitted
+ *               beneficiaryId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Optional beneficiary to associate with this submission. If provided, must exist.
+ *               services:
+ *                 type: array
+ *                 description: Optional list of services delivered as part of this submission. Only services assigned to the entity are accepted.
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - serviceId
+ *                   properties:
+ *                     serviceId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: ID of the service delivered
+ *                     deliveredAt:
+ *                       type: string
+ *                       format: date-time
+ *                       description: When the service was delivered (defaults to now if omitted)
+ *                     staffUserId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: Staff user who delivered the service (defaults to the submitting user if omitted)
+ *                     notes:
+ *                       type: string
+ *                       description: Optional notes about the delivery
+ *               status:
+ *                 type: string
+ *                 enum: [draft, submitted]
+ *                 default: submitted
+ *                 description: Save as a draft (required fields may be missing, no services) or submit for review
+ *               attachmentIds:
+ *                 type: array
+ *                 description: Attachments uploaded via POST /forms/attachments to link to this response. Ids referenced by Photo/Signature answers are linked automatically.
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       201:
+ *         description: Form response submitted successfully
+ *       400:
+ *         description: Invalid input or validation errors
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - user does not have required permissions
+ *       404:
+ *         description: Form template not found
+ */
+router.post(
+  "/templates/:id/responses",
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.FIELD_OPERATOR]),
+  (req: Request, res: Response): void => {
+    formsController.responses.submitFormResponse(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/import:
+ *   post:
+ *     summary: Import historical form responses from a CSV or XLSX file
+ *     description: |
+ *       Each row of the first sheet becomes a form response for the given entity. Rows are validated against the
+ *       current template version, beneficiaries are linked through the template's beneficiary mapping and service
+ *       columns create service deliveries. By default the import is a dry run that only returns the report;
+ *       with `dryRun=false` all rows are written in one transaction, and nothing is written if any row is invalid.
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form template ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *               - mapping
+ *               - entityId
+ *               - entityType
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: .csv, .xlsx or .xls file with a header row (max 5000 rows)
+ *               mapping:
+ *                 type: string
+ *                 description: |
+ *                   JSON mapping, e.g. {"columns":{"Age":"age","Household size":"household.size"},
+ *                   "services":{"Food parcel":"<serviceId>"},"submittedAt":"Date","beneficiaryId":"Beneficiary ID"}.
+ *                   Service cells are yes/no or a delivery date.
+ *               entityId:
+ *                 type: string
+ *                 format: uuid
+ *               entityType:
+ *                 type: string
+ *                 enum: [project, subproject, activity]
+ *               dryRun:
+ *                 type: string
+ *                 enum: ["true", "false"]
+ *                 default: "true"
+ *     responses:
+ *       200:
+ *         description: Dry run report with per-row errors
+ *       201:
+ *         description: Import committed
+ *       400:
+ *         description: Invalid file, mapping or entity
+ *       403:
+ *         description: Forbidden - user does not have access to the entity
+ *       404:
+ *         description: Form template not found
+ *       413:
+ *         description: File exceeds the maximum size
+ *       422:
+ *         description: Import not committed because some rows are invalid; the report lists the errors
+ */
+router.post(
+  "/templates/:id/import",
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER]),
+  (req: Request, res: Response): void => {
+    formsController.imports.importFormResponsesFromFile(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/responses:
+ *   get:
+ *     summary: Get all responses for a form template
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Returns only the responses submitted by the authenticated user. Additional filters are available.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form template ID
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Optional entity id filter
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [project, subproject, activity]
+ *         required: false
+ *         description: Optional entity type filter
+ *       - in: query
+ *         name: beneficiaryId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Filter by a single beneficiaryId
+ *       - in: query
+ *         name: beneficiaryIds
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Comma-separated list of beneficiaryIds
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Comma-separated review statuses (draft, submitted, approved, rejected). Drafts are only visible to their author.
+ *       - in: query
+ *         name: serviceId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Filter responses that have a delivery for the given serviceId
+ *       - in: query
+ *         name: serviceIds
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Comma-separated list of serviceIds
+ *       - in: query
+ *         name: fromDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         required: false
+ *         description: Filter responses submitted on/after this timestamp
+ *       - in: query
+ *         name: toDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         required: false
+ *         description: Filter responses submitted on/before this timestamp
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         required: false
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         required: false
+ *         description: Number of items per page
+ *     responses:
+ *       200:
+ *         description: List of form responses
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form template not found
+ */
+router.get(
+  "/templates/:id/responses",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.responses.getFormResponses(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/templates/{id}/export:
+ *   get:
+ *     summary: Export form responses as CSV, XLSX or SPSS syntax
+ *     description: |
+ *       Flattens response data into one column per template field (sections as `section.field`,
+ *       GPS as latitude/longitude, dropdowns with a numeric `_code` column) after response metadata:
+ *       entity name, submitter, GPS coordinates and beneficiary pseudonym. CSV and SPSS are streamed;
+ *       the SPSS file is syntax with inline data, variable labels and value labels.
+ *       Visibility follows the response listing (RBAC scope, drafts only for their author).
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form template ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, spss]
+ *           default: csv
+ *       - in: query
+ *         name: headers
+ *         schema:
+ *           type: string
+ *           enum: [names, labels]
+ *           default: names
+ *         description: Use field names or field labels in the CSV/XLSX header row
+ *       - in: query
+ *         name: includePII
+ *         schema:
+ *           type: boolean
+ *         description: Add decrypted beneficiary PII columns (SuperAdmin and System Administrator only; audited)
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [project, subproject, activity]
+ *       - in: query
+ *         name: fromDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: toDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         description: Comma-separated review statuses (draft, submitted, approved, rejected)
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           type: string
+ *           enum: [sq, sr, en]
+ *         description: Language of column labels and option texts (column names never change)
+ *     responses:
+ *       200:
+ *         description: Export file (attachment)
+ *         content:
+ *           text/csv: {}
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet: {}
+ *           text/plain: {}
+ *       400:
+ *         description: Invalid format or entity, or too many rows for XLSX
+ *       403:
+ *         description: Not allowed to export PII
+ *       404:
+ *         description: Form template not found
+ */
+router.get(
+  "/templates/:id/export",
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    formsController.exports.exportFormResponses(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/responses/by-entity:
+ *   get:
+ *     summary: Get form responses by entity (project, subproject, activity)
+ *     description: Returns form responses for a specific entity and optionally filters by form template. Each response includes linked beneficiary, submitter, and service deliveries.
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     x-notes: Results are restricted to the authenticated user's own submissions.
+ *     parameters:
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The entity ID (project, subproject, or activity)
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [project, subproject, activity]
+ *         required: true
+ *         description: The entity type
+ *       - in: query
+ *         name: templateId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Optional filter to only include responses for a specific form template
+ *       - in: query
+ *         name: beneficiaryId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Filter by a single beneficiaryId
+ *       - in: query
+ *         name: beneficiaryIds
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Comma-separated list of beneficiaryIds
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Comma-separated review statuses (draft, submitted, approved, rejected). Drafts are only visible to their author.
+ *       - in: query
+ *         name: serviceId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Filter responses that have a delivery for the given serviceId
+ *       - in: query
+ *         name: serviceIds
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Comma-separated list of serviceIds
+ *       - in: query
+ *         name: fromDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         required: false
+ *         description: Filter responses submitted on/after this timestamp
+ *       - in: query
+ *         name: toDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         required: false
+ *         description: Filter responses submitted on/before this timestamp
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         required: false
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         required: false
+ *         description: Number of items per page
+ *     responses:
+ *       200:
+ *         description: List of form responses for the entity with service deliveries included
+ *       400:
+ *         description: Missing or invalid parameters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - user does not have access
+ */
+router.get(
+  "/responses/by-entity",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.responses.getResponsesByEntity(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/responses/{id}:
+ *   get:
+ *     summary: Get a single form response by ID
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form response ID
+ *     responses:
+ *       200:
+ *         description: Form response details
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form response not found
+ */
+router.get(
+  "/responses/:id",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.responses.getFormResponseById(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/responses/{id}:
+ *   put:
+ *     summary: Edit a draft or rejected form response
+ *     description: Only the author can edit, and only while the response is a draft or was rejected. The data is validated against the response's template version (or `formTemplateVersion`); drafts may omit required fields.
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form response ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
  *               - data
  *             properties:
- *               entityId:
- *                 type: string
- *                 format: uuid
- *                 description: ID of the entity (project, subproject, or activity) this response is associated with
- *               entityType:
- *                 type: string
- *                 enum: [project, subproject, activity]
- *                 description: Type of entity this response is associated with
  *               data:
  *                 type: object
- *                 description: Form response data matching the template schema
- *               latitude:
- *                 type: number
- *                 description: Optional latitude where the form was submitted
- *               longitude:
- *                 type: number
- *                 description: Optional longitude where the form was submitted
- *               beneficiaryId:
+ *                 description: Complete form response data
+ *               formTemplateVersion:
+ *                 type: integer
+ *                 description: Template version to validate against (defaults to the response's version)
+ *               attachmentIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Form response updated
+ *       400:
+ *         description: Validation errors
+ *       403:
+ *         description: Not the author
+ *       404:
+ *         description: Form response not found
+ *       409:
+ *         description: Response is not editable in its current status
+ */
+router.put(
+  "/responses/:id",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.review.updateFormResponse(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/responses/{id}/submit:
+ *   post:
+ *     summary: Submit a draft or resubmit a rejected response for review
+ *     description: Only the author can submit. The stored data must pass full validation. As on direct submission, consents answered on the form are recorded and `services` are recorded as deliveries to the linked beneficiary. Recorded in the audit log as FORM_RESPONSE_SUBMIT or FORM_RESPONSE_RESUBMIT.
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form response ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               services:
+ *                 type: array
+ *                 description: Optional list of services delivered as part of this submission; replaces the deliveries of an earlier submission of the response
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - serviceId
+ *                   properties:
+ *                     serviceId:
+ *                       type: string
+ *                       format: uuid
+ *                     deliveredAt:
+ *                       type: string
+ *                       format: date-time
+ *                     staffUserId:
+ *                       type: string
+ *                       format: uuid
+ *                     notes:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Response submitted for review
+ *       400:
+ *         description: Validation errors
+ *       403:
+ *         description: Not the author
+ *       404:
+ *         description: Form response not found
+ *       409:
+ *         description: Response is not a draft or rejected
+ */
+router.post(
+  "/responses/:id/submit",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.review.submitForReview(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/responses/{id}/approve:
+ *   post:
+ *     summary: Approve a submitted form response
+ *     description: Reviewers need access to the response's project; only administrators may review their own submissions. Recorded in the audit log as FORM_RESPONSE_APPROVE.
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form response ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Form response approved
+ *       403:
+ *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form response not found
+ *       409:
+ *         description: Response is not in status submitted
+ */
+router.post(
+  "/responses/:id/approve",
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    formsController.review.approveFormResponse(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/responses/{id}/reject:
+ *   post:
+ *     summary: Reject a submitted form response with a comment
+ *     description: The comment is returned to the author (including in /sync/datadump) so the response can be corrected and resubmitted. Recorded in the audit log as FORM_RESPONSE_REJECT.
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: true
+ *         description: The form response ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - comment
+ *             properties:
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Form response rejected
+ *       400:
+ *         description: Comment missing
+ *       403:
+ *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form response not found
+ *       409:
+ *         description: Response is not in status submitted
+ */
+router.post(
+  "/responses/:id/reject",
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    formsController.review.rejectFormResponse(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /forms/attachments:
+ *   post:
+ *     summary: Upload attachments ahead of a form submission
+ *     description: |
+ *       Streams photos, scanned documents or signatures to storage (multipart/form-data).
+ *       Uploaded attachments stay unlinked until a submission references them, either from a
+ *       Photo/Signature answer (the attachment id) or via `attachmentIds`.
+ *       Accepted types are JPEG, PNG, WebP, HEIC/HEIF and PDF, recognised from the file content; at most
+ *       5 files per request, each up to UPLOAD_MAX_SIZE (default 10 MB).
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               fieldName:
  *                 type: string
- *                 format: uuid
- *                 description: Optional beneficiary to associate with this submission. If provided, must exist.
- *               services:
+ *                 description: Form field the files were captured for (optional)
+ *               files:
  *                 type: array
- *                 description: Optional list of services delivered as part of this submission. Only services assigned to the entity are accepted.
  *                 items:
- *                   type: object
- *                   required:
- *                     - serviceId
- *                   properties:
- *                     serviceId:
- *                       type: string
- *                       format: uuid
- *                       description: ID of the service delivered
- *                     deliveredAt:
- *                       type: string
- *                       format: date-time
- *                       description: When the service was delivered (defaults to now if omitted)
- *                     staffUserId:
- *                       type: string
- *                       format: uuid
- *                       description: Staff user who delivered the service (defaults to the submitting user if omitted)
- *                     notes:
- *                       type: string
- *                       description: Optional notes about the delivery
+ *                   type: string
+ *                   format: binary
  *     responses:
  *       201:
- *         description: Form response submitted successfully
+ *         description: Attachments uploaded; rejected files are listed in `errors`
  *       400:
- *         description: Invalid input or validation errors
+ *         description: Not a multipart request, malformed body, no files or no accepted files
  *       401:
  *         description: Unauthorized
- *       403:
- *         description: Forbidden - user does not have required permissions
- *       404:
- *         description: Form template not found
+ *       413:
+ *         description: File exceeds the maximum size
  */
 router.post(
-  "/templates/:id/responses",
+  "/attachments",
   authenticate,
-  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.FIELD_OPERATOR]),
   (req: Request, res: Response): void => {
-    formsController.responses.submitFormResponse(req, res);
+    formsController.attachments.uploadAttachments(req, res);
   }
 );
 
 /**
  * @swagger
- * /forms/templates/{id}/responses:
- *   get:
- *     summary: Get all responses for a form template
+ * /forms/responses/{id}/attachments:
+ *   post:
+ *     summary: Upload attachments to an existing form response
  *     tags: [Forms]
  *     security:
  *       - bearerAuth: []
- *     description: Returns only the responses submitted by the authenticated user. Additional filters are available.
  *     parameters:
  *       - in: path
  *         name: id
@@ -685,208 +1802,115 @@ router.post(
  *           type: string
  *           format: uuid
  *         required: true
- *         description: The form template ID
- *       - in: query
- *         name: entityId
- *         schema:
- *           type: string
- *           format: uuid
- *         required: false
- *         description: Optional entity id filter
- *       - in: query
- *         name: entityType
- *         schema:
- *           type: string
- *           enum: [project, subproject, activity]
- *         required: false
- *         description: Optional entity type filter
- *       - in: query
- *         name: beneficiaryId
- *         schema:
- *           type: string
- *           format: uuid
- *         required: false
- *         description: Filter by a single beneficiaryId
- *       - in: query
- *         name: beneficiaryIds
- *         schema:
- *           type: string
- *         required: false
- *         description: Comma-separated list of beneficiaryIds
- *       - in: query
- *         name: serviceId
+ *         description: The form response ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               fieldName:
+ *                 type: string
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Attachments uploaded and linked to the response
+ *       400:
+ *         description: Not a multipart request, no files or no accepted files
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Form response not found
+ *       409:
+ *         description: The response is no longer editable (only draft and rejected responses accept attachments)
+ *       413:
+ *         description: File exceeds the maximum size
+ *   get:
+ *     summary: List attachments of a form response
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
  *         schema:
  *           type: string
  *           format: uuid
- *         required: false
- *         description: Filter responses that have a delivery for the given serviceId
- *       - in: query
- *         name: serviceIds
- *         schema:
- *           type: string
- *         required: false
- *         description: Comma-separated list of serviceIds
- *       - in: query
- *         name: fromDate
- *         schema:
- *           type: string
- *           format: date-time
- *         required: false
- *         description: Filter responses submitted on/after this timestamp
- *       - in: query
- *         name: toDate
- *         schema:
- *           type: string
- *           format: date-time
- *         required: false
- *         description: Filter responses submitted on/before this timestamp
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           minimum: 1
- *           default: 1
- *         required: false
- *         description: Page number for pagination
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           minimum: 1
- *           maximum: 100
- *           default: 20
- *         required: false
- *         description: Number of items per page
+ *         required: true
+ *         description: The form response ID
  *     responses:
  *       200:
- *         description: List of form responses
+ *         description: Attachment metadata
  *       401:
  *         description: Unauthorized
  *       403:
  *         description: Forbidden - user does not have access
  *       404:
- *         description: Form template not found
+ *         description: Form response not found
  */
+router.post(
+  "/responses/:id/attachments",
+  authenticate,
+  (req: Request, res: Response): void => {
+    formsController.attachments.uploadAttachments(req, res);
+  }
+);
+
 router.get(
-  "/templates/:id/responses",
+  "/responses/:id/attachments",
   authenticate,
   (req: Request, res: Response): void => {
-    formsController.responses.getFormResponses(req, res);
+    formsController.attachments.getResponseAttachments(req, res);
   }
 );
 
 /**
  * @swagger
- * /forms/responses/by-entity:
+ * /forms/attachments/{id}:
  *   get:
- *     summary: Get form responses by entity (project, subproject, activity)
- *     description: Returns form responses for a specific entity and optionally filters by form template. Each response includes linked beneficiary, submitter, and service deliveries.
+ *     summary: Get attachment metadata
+ *     description: Linked attachments follow the access rules of their form response; unlinked uploads are visible to the uploader and administrators.
  *     tags: [Forms]
  *     security:
  *       - bearerAuth: []
- *     x-notes: Results are restricted to the authenticated user's own submissions.
  *     parameters:
- *       - in: query
- *         name: entityId
+ *       - in: path
+ *         name: id
  *         schema:
  *           type: string
  *           format: uuid
  *         required: true
- *         description: The entity ID (project, subproject, or activity)
- *       - in: query
- *         name: entityType
- *         schema:
- *           type: string
- *           enum: [project, subproject, activity]
- *         required: true
- *         description: The entity type
- *       - in: query
- *         name: templateId
- *         schema:
- *           type: string
- *           format: uuid
- *         required: false
- *         description: Optional filter to only include responses for a specific form template
- *       - in: query
- *         name: beneficiaryId
- *         schema:
- *           type: string
- *           format: uuid
- *         required: false
- *         description: Filter by a single beneficiaryId
- *       - in: query
- *         name: beneficiaryIds
- *         schema:
- *           type: string
- *         required: false
- *         description: Comma-separated list of beneficiaryIds
- *       - in: query
- *         name: serviceId
- *         schema:
- *           type: string
- *           format: uuid
- *         required: false
- *         description: Filter responses that have a delivery for the given serviceId
- *       - in: query
- *         name: serviceIds
- *         schema:
- *           type: string
- *         required: false
- *         description: Comma-separated list of serviceIds
- *       - in: query
- *         name: fromDate
- *         schema:
- *           type: string
- *           format: date-time
- *         required: false
- *         description: Filter responses submitted on/after this timestamp
- *       - in: query
- *         name: toDate
- *         schema:
- *           type: string
- *           format: date-time
- *         required: false
- *         description: Filter responses submitted on/before this timestamp
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           minimum: 1
- *           default: 1
- *         required: false
- *         description: Page number for pagination
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           minimum: 1
- *           maximum: 100
- *           default: 20
- *         required: false
- *         description: Number of items per page
+ *         description: The attachment ID
  *     responses:
  *       200:
- *         description: List of form responses for the entity with service deliveries included
- *       400:
- *         description: Missing or invalid parameters
+ *         description: Attachment metadata
  *       401:
  *         description: Unauthorized
  *       403:
  *         description: Forbidden - user does not have access
+ *       404:
+ *         description: Attachment not found
  */
 router.get(
-  "/responses/by-entity",
+  "/attachments/:id",
   authenticate,
   (req: Request, res: Response): void => {
-    formsController.responses.getResponsesByEntity(req, res);
+    formsController.attachments.getAttachmentById(req, res);
   }
 );
 
 /**
  * @swagger
- * /forms/responses/{id}:
+ * /forms/attachments/{id}/download:
  *   get:
- *     summary: Get a single form response by ID
+ *     summary: Download attachment content
  *     tags: [Forms]
  *     security:
  *       - bearerAuth: []
@@ -897,22 +1921,27 @@ router.get(
  *           type: string
  *           format: uuid
  *         required: true
- *         description: The form response ID
+ *         description: The attachment ID
  *     responses:
  *       200:
- *         description: Form response details
+ *         description: File content
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
  *       401:
  *         description: Unauthorized
  *       403:
  *         description: Forbidden - user does not have access
  *       404:
- *         description: Form response not found
+ *         description: Attachment or its content not found
  */
 router.get(
-  "/responses/:id",
+  "/attachments/:id/download",
   authenticate,
   (req: Request, res: Response): void => {
-    formsController.responses.getFormResponseById(req, res);
+    formsController.attachments.downloadAttachment(req, res);
   }
 );
 
@@ -1001,6 +2030,12 @@ router.get(
  *         required: false
  *         description: Comma-separated list of beneficiaryIds
  *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Comma-separated review statuses (draft, submitted, approved, rejected). Drafts are only visible to their author.
+ *       - in: query
  *         name: serviceId
  *         schema:
  *           type: string
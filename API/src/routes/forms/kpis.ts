@@ -320,6 +320,11 @@ router.get(
  *         schema: { type: string }
  *         required: false
  *         description: Comma-separated form template IDs
+ *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean }
+ *         required: false
+ *         description: Only count approved form responses (and service deliveries recorded through them)
  *     responses:
  *       200:
  *         description: KPI calculation result
@@ -413,7 +418,7 @@ router.get(
  *         schema:
  *           type: string
  *         required: false
- *         description: JSON array string of ad-hoc filters, e.g. [{"field":"ginia","op":"eq","value":"M"}]
+ *         description: JSON array string of ad-hoc filters, e.g. [{"field":"ginia","op":"eq","value":"M"}]. Nested fields use paths such as "household.size" or "members[].age" (matches if any item matches)
  *       - in: query
  *         name: beneficiaryId
  *         schema: { type: string, format: uuid }
@@ -444,6 +449,11 @@ router.get(
  *         schema: { type: string }
  *         required: false
  *         description: Comma-separated form template IDs
+ *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean }
+ *         required: false
+ *         description: Only count approved form responses (and service deliveries recorded through them)
  *     responses:
  *       200:
  *         description: KPI time series result
@@ -527,6 +537,11 @@ router.get(
  *         schema: { type: string }
  *         required: false
  *         description: Comma-separated form template IDs
+ *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean }
+ *         required: false
+ *         description: Only count approved form responses (and service deliveries recorded through them)
  *     responses:
  *       200:
  *         description: Results of all KPI calculations for the entity
@@ -641,6 +656,11 @@ router.get(
  *         name: formTemplateIds
  *         schema: { type: string }
  *         description: Comma-separated form template IDs
+ *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean }
+ *         required: false
+ *         description: Only count approved form responses (and service deliveries recorded through them)
  *     responses:
  *       200:
  *         description: Summary including submissions, unique beneficiaries, service deliveries, etc.
@@ -657,7 +677,7 @@ router.get(
  * @swagger
  * /forms/metrics/series:
  *   get:
- *     summary: Dynamic metrics time series (submissions, serviceDeliveries, uniqueBeneficiaries)
+ *     summary: Dynamic metrics time series (submissions, serviceDeliveries, uniqueBeneficiaries, householdsReached)
  *     description: |
  *       Returns time series metrics for form submissions with automatic role-based filtering.
  *
@@ -679,7 +699,7 @@ router.get(
  *     parameters:
  *       - in: query
  *         name: metric
- *         schema: { type: string, enum: [submissions, serviceDeliveries, uniqueBeneficiaries] }
+ *         schema: { type: string, enum: [submissions, serviceDeliveries, uniqueBeneficiaries, householdsReached] }
  *         required: true
  *       - in: query
  *         name: groupBy
@@ -733,11 +753,16 @@ router.get(
  *         name: formTemplateIds
  *         schema: { type: string }
  *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean }
+ *         required: false
+ *         description: Only count approved form responses (and service deliveries recorded through them)
+ *       - in: query
  *         name: dataFilters
  *         schema:
  *           type: string
  *         required: false
- *         description: JSON array string of ad-hoc filters, e.g. [{"field":"gender","op":"eq","value":"F"}]
+ *         description: JSON array string of ad-hoc filters, e.g. [{"field":"gender","op":"eq","value":"F"}]. Nested fields use paths such as "household.size" or "members[].age"
  *     responses:
  *       200:
  *         description: Time series for the selected metric, with summary totals and most frequent services
@@ -753,7 +778,7 @@ router.get(
  *                   properties:
  *                     metric:
  *                       type: string
- *                       enum: [submissions, serviceDeliveries, uniqueBeneficiaries]
+ *                       enum: [submissions, serviceDeliveries, uniqueBeneficiaries, householdsReached]
  *                     granularity:
  *                       type: string
  *                       enum: [day, week, month, quarter, year]
@@ -776,6 +801,8 @@ router.get(
  *                           type: integer
  *                         totalUniqueBeneficiaries:
  *                           type: integer
+ *                         totalHouseholdsReached:
+ *                           type: integer
  *                         mostFrequentServices:
  *                           type: array
  *                           items:
@@ -18,6 +18,7 @@ import syncRouter from "./sync/sync";
 import syncServiceRouter from "./syncService";
 import dashboardRouter from "./dashboard/dashboard";
 import constantsRouter from "./constants/constants";
+import conditionsRouter from "./conditions/conditions";
 
 const router = Router();
 
@@ -102,4 +103,7 @@ router.use("/dashboard", dashboardRouter);
 // Constants routes
 router.use("/constants", constantsRouter);
 
+// ICD-10 catalog routes
+router.use("/conditions", conditionsRouter);
+
 export default router;
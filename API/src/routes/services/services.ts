@@ -367,6 +367,15 @@ router.post(
  *         name: formTemplateIds
  *         schema: { type: string, description: Comma-separated UUIDs }
  *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean, description: Only count deliveries whose form response is approved (deliveries without a response are included) }
+ *       - in: query
+ *         name: conditionCategory
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this category }
+ *       - in: query
+ *         name: conditionCode
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this ICD-10 code }
+ *       - in: query
  *         name: startDate
  *         schema: { type: string, format: date-time }
  *       - in: query
@@ -422,6 +431,15 @@ router.get(
  *         name: formTemplateIds
  *         schema: { type: string }
  *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean, description: Only count deliveries whose form response is approved (deliveries without a response are included) }
+ *       - in: query
+ *         name: conditionCategory
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this category }
+ *       - in: query
+ *         name: conditionCode
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this ICD-10 code }
+ *       - in: query
  *         name: startDate
  *         schema: { type: string, format: date-time }
  *       - in: query
@@ -477,6 +495,15 @@ router.get(
  *         name: formTemplateIds
  *         schema: { type: string }
  *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean, description: Only count deliveries whose form response is approved (deliveries without a response are included) }
+ *       - in: query
+ *         name: conditionCategory
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this category }
+ *       - in: query
+ *         name: conditionCode
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this ICD-10 code }
+ *       - in: query
  *         name: startDate
  *         schema: { type: string, format: date-time }
  *       - in: query
@@ -529,6 +556,15 @@ router.get(
  *         name: formTemplateIds
  *         schema: { type: string }
  *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean, description: Only count deliveries whose form response is approved (deliveries without a response are included) }
+ *       - in: query
+ *         name: conditionCategory
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this category }
+ *       - in: query
+ *         name: conditionCode
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this ICD-10 code }
+ *       - in: query
  *         name: startDate
  *         schema: { type: string, format: date-time }
  *       - in: query
@@ -587,6 +623,15 @@ router.get(
  *         name: formTemplateIds
  *         schema: { type: string }
  *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean, description: Only count deliveries whose form response is approved (deliveries without a response are included) }
+ *       - in: query
+ *         name: conditionCategory
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this category }
+ *       - in: query
+ *         name: conditionCode
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this ICD-10 code }
+ *       - in: query
  *         name: startDate
  *         schema: { type: string, format: date-time }
  *       - in: query
@@ -662,6 +707,15 @@ router.get(
  *         name: formTemplateIds
  *         schema: { type: string, description: Comma-separated UUIDs }
  *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean, description: Only count deliveries whose form response is approved (deliveries without a response are included) }
+ *       - in: query
+ *         name: conditionCategory
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this category }
+ *       - in: query
+ *         name: conditionCode
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this ICD-10 code }
+ *       - in: query
  *         name: startDate
  *         schema: { type: string, format: date-time }
  *       - in: query
@@ -729,6 +783,15 @@ router.get(
  *         name: formTemplateIds
  *         schema: { type: string, description: Comma-separated UUIDs }
  *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean, description: Only count deliveries whose form response is approved (deliveries without a response are included) }
+ *       - in: query
+ *         name: conditionCategory
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this category }
+ *       - in: query
+ *         name: conditionCode
+ *         schema: { type: string, description: Only deliveries to beneficiaries with a current condition of this ICD-10 code }
+ *       - in: query
  *         name: startDate
  *         schema: { type: string, format: date-time }
  *       - in: query
@@ -747,6 +810,54 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /services/metrics/deliveries/by-condition-category:
+ *   get:
+ *     summary: Service deliveries and beneficiaries served per condition category
+ *     description: |
+ *       Groups deliveries by the categories of the current (not resolved) conditions of their beneficiaries.
+ *       A beneficiary with conditions in several categories counts in each; deliveries to beneficiaries
+ *       without a recorded condition are reported with category null. Accepts the same filters and
+ *       role-based filtering as the other delivery metrics.
+ *     tags: [Services]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: serviceId
+ *         schema: { type: string, format: uuid }
+ *       - in: query
+ *         name: serviceIds
+ *         schema: { type: string, description: Comma-separated UUIDs }
+ *       - in: query
+ *         name: entityId
+ *         schema: { type: string, format: uuid }
+ *       - in: query
+ *         name: entityType
+ *         schema: { type: string, enum: [project, subproject, activity] }
+ *       - in: query
+ *         name: approvedOnly
+ *         schema: { type: boolean }
+ *       - in: query
+ *         name: startDate
+ *         schema: { type: string, format: date-time }
+ *       - in: query
+ *         name: endDate
+ *         schema: { type: string, format: date-time }
+ *     responses:
+ *       200:
+ *         description: Deliveries and unique beneficiaries per category, most deliveries first
+ */
+router.get(
+  '/metrics/deliveries/by-condition-category',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    servicesController.metricsDeliveriesByConditionCategory(req, res);
+  }
+);
+
 /**
  * @swagger
  * /services/assigned:
@@ -1,7 +1,11 @@
 import { Router, Request, Response } from 'express';
-import { authenticate } from '../../middlewares/auth';
+import { authenticate, authorize } from '../../middlewares/auth';
 import loggerMiddleware from '../../middlewares/logger';
 import syncController from '../../controllers/sync';
+import conflictsController from '../../controllers/sync/conflicts';
+import devicesController from '../../controllers/sync/devices';
+import { trackSyncDevice } from '../../middlewares/syncDevice';
+import { ROLES } from '../../constants/roles';
 
 const router = Router();
 
@@ -19,6 +23,14 @@ router.use(loggerMiddleware);
  * /sync/pull:
  *   post:
  *     summary: Pull a snapshot or delta for offline sync
+ *     description: |
+ *       Without `cursor` the full snapshot is returned (or, deprecated, the rows updated since `since`) together
+ *       with a `cursor` for the next delta. With `cursor` one page of the change log is returned: rows created or
+ *       updated since, in their current state, under the usual keys; deleted rows and removed memberships as
+ *       `tombstones` (operation `delete` or `revoke`); the next `cursor`; and `hasMore` while pages remain.
+ *       Erased, merged and archived beneficiaries come as `delete` tombstones with a `reason` (and `mergedIntoId`).
+ *       Entries may repeat across pages. A cursor older than SYNC_CHANGE_LOG_RETENTION_DAYS (default 90) yields
+ *       410 and the device pulls a full snapshot again.
  *     tags: [Sync]
  *     security:
  *       - bearerAuth: []
@@ -29,7 +41,9 @@ router.use(loggerMiddleware);
  *           schema:
  *             type: object
  *             properties:
- *               since: { type: string, format: date-time }
+ *               cursor: { type: string, description: Opaque cursor from the previous pull }
+ *               limit: { type: integer, minimum: 1, maximum: 2000, default: 500, description: Change log entries per delta page }
+ *               since: { type: string, format: date-time, deprecated: true }
  *               full: { type: boolean }
  *               entities:
  *                 type: array
@@ -37,8 +51,14 @@ router.use(loggerMiddleware);
  *     responses:
  *       200:
  *         description: Snapshot or delta payload
+ *       400:
+ *         description: Invalid cursor
+ *       403:
+ *         description: Device revoked; wipe local data (see /sync/devices/register)
+ *       410:
+ *         description: Cursor expired; pull a full snapshot
  */
-router.post('/pull', authenticate, (req: Request, res: Response) => {
+router.post('/pull', authenticate, trackSyncDevice('pull'), (req: Request, res: Response) => {
   syncController.pull(req, res);
 });
 
@@ -47,9 +67,26 @@ router.post('/pull', authenticate, (req: Request, res: Response) => {
  * /sync/push:
  *   post:
  *     summary: Push pending offline mutations
+ *     description: |
+ *       Changes carrying a clientMutationId are recorded per user, device and id once applied. Pushing the same
+ *       change again within SYNC_IDEMPOTENCY_RETENTION_HOURS (default 720) returns the original result with
+ *       `replayed: true`; reusing the id for a different change yields an error result.
+ *
+ *       Beneficiary updates may name the row versions they were edited from (`baseVersion`,
+ *       `detailsBaseVersion`) and the values they started from (`base`, same shape as `data`; extended details
+ *       under `details`). Against a newer server row, fields the server did not change since `base` are applied and
+ *       fields changed on both sides are held in the conflict inbox; the result then has status `conflict` with
+ *       `conflicts` [{ field, base, client, server }]. Without `base` every edited field of a newer row conflicts.
+ *       Updates without `baseVersion` are applied as before. A replayed conflict lists its fields without values.
  *     tags: [Sync]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: X-Device-Id
+ *         required: false
+ *         schema: { type: string }
+ *         description: Device the changes come from; falls back to deviceId, then clientId of the body
  *     requestBody:
  *       required: true
  *       content:
@@ -58,40 +95,203 @@ router.post('/pull', authenticate, (req: Request, res: Response) => {
  *             type: object
  *             properties:
  *               clientId: { type: string }
+ *               deviceId: { type: string }
  *               lastSyncedAt: { type: string, format: date-time }
  *               changes:
  *                 type: array
  *                 items:
  *                   type: object
+ *                   properties:
+ *                     clientMutationId: { type: string, maxLength: 128 }
+ *                     baseVersion: { type: integer, description: 'Beneficiary version the update was made on' }
+ *                     detailsBaseVersion: { type: integer, description: 'Version of the beneficiary details the update was made on' }
+ *                     base: { type: object, description: 'Values the update was made on' }
  *     responses:
  *       200:
  *         description: Push results
  */
-router.post('/push', authenticate, (req: Request, res: Response) => {
+router.post('/push', authenticate, trackSyncDevice('push'), (req: Request, res: Response) => {
   syncController.push(req, res);
 });
 
+/**
+ * @swagger
+ * /sync/conflicts:
+ *   get:
+ *     summary: Conflict inbox of offline beneficiary edits (oldest first, without values)
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema: { type: string, enum: [open, resolved], default: open }
+ *       - in: query
+ *         name: beneficiaryId
+ *         schema: { type: string, format: uuid }
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, default: 1 }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 20 }
+ *     responses:
+ *       200:
+ *         description: Paginated conflicts
+ *       400:
+ *         description: Invalid status
+ */
+router.get(
+  '/conflicts',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    conflictsController.list(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /sync/conflicts/{id}:
+ *   get:
+ *     summary: A conflict with the base, device, detected and current value of each field (PII, audited)
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Conflict with values
+ *       404:
+ *         description: Conflict not found
+ */
+router.get(
+  '/conflicts/:id',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    conflictsController.getById(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /sync/conflicts/{id}/resolve:
+ *   post:
+ *     summary: Resolve a conflict by picking or merging the value of each conflicting field (audited)
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [choices]
+ *             properties:
+ *               choices:
+ *                 type: object
+ *                 description: "Every conflicting field mapped to 'client' (device value), 'server' (keep the current value) or { value } (merged value)"
+ *                 additionalProperties: {}
+ *           example:
+ *             choices:
+ *               phone: client
+ *               address: server
+ *               details.maritalStatus: { value: married }
+ *     responses:
+ *       200:
+ *         description: Conflict resolved; returns the new row versions
+ *       400:
+ *         description: Missing or invalid choices
+ *       404:
+ *         description: Conflict not found
+ *       409:
+ *         description: Conflict already resolved or beneficiary erased
+ */
+router.post(
+  '/conflicts/:id/resolve',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER]),
+  (req: Request, res: Response): void => {
+    conflictsController.resolve(req, res);
+  }
+);
+
 /**
  * @swagger
  * /sync/full:
  *   get:
  *     summary: Download a full RBAC-scoped SQLite snapshot for offline use
+ *     description: |
+ *       The SQLite schema is generated from the server models; the database carries its schema version
+ *       (PRAGMA user_version, `_bundle_meta`), the migrations from older versions (`_bundle_migrations`) and a
+ *       cursor for `/sync/pull`. It is encrypted with AES-256-GCM under a fresh key wrapped with the device's RSA
+ *       public key (RSA-OAEP-256), and the header is signed with the server's Ed25519 key
+ *       (`GET /sync/bundle/signing-key`). Layout: `CSB1` | uint32 header length | JSON header | uint16 signature
+ *       length | signature | ciphertext + GCM tag.
  *     tags: [Sync]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: X-Device-Id
+ *         required: true
+ *         schema: { type: string }
+ *       - in: header
+ *         name: X-Device-Public-Key
+ *         required: true
+ *         schema: { type: string }
+ *         description: |
+ *           RSA public key (>= 2048 bits) of the device, SPKI as base64 DER or PEM with escaped newlines. The first
+ *           request pins it on the device; later requests must send the same key.
  *     responses:
  *       200:
- *         description: SQLite file
+ *         description: Encrypted, signed bundle
  *         content:
  *           application/octet-stream:
  *             schema:
  *               type: string
  *               format: binary
+ *       400:
+ *         description: Missing device id or unusable device key
+ *       409:
+ *         description: Key differs from the one pinned on the device (code DEVICE_KEY_MISMATCH)
+ *       503:
+ *         description: Bundle signing key not configured
  */
-router.get('/full', authenticate, (req: Request, res: Response) => {
+router.get('/full', authenticate, trackSyncDevice('full'), (req: Request, res: Response) => {
   syncController.full(req, res);
 });
 
+/**
+ * @swagger
+ * /sync/bundle/signing-key:
+ *   get:
+ *     summary: Public key that signs offline bundles
+ *     description: Ed25519 public key (SPKI, base64 DER and PEM) with its key id and the current bundle schema version.
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Signing key
+ *       503:
+ *         description: Bundle signing key not configured
+ */
+router.get('/bundle/signing-key', authenticate, (req: Request, res: Response) => {
+  syncController.bundleSigningPublicKey(req, res);
+});
+
 /**
  * @swagger
  * /sync/upload:
@@ -115,8 +315,259 @@ router.get('/full', authenticate, (req: Request, res: Response) => {
  *       200:
  *         description: Upload results per mutation
  */
-router.post('/upload', authenticate, (req: Request, res: Response) => {
+router.post('/upload', authenticate, trackSyncDevice('upload'), (req: Request, res: Response) => {
   syncController.upload(req, res);
 });
 
+/**
+ * @swagger
+ * /sync/devices/register:
+ *   post:
+ *     summary: Register the calling device or refresh its details
+ *     description: |
+ *       Devices are also registered on their first pull, push, full, upload, datadump or uploads call that names
+ *       a device (X-Device-Id, or deviceId / clientId of the body). Those calls refresh the model, app version
+ *       and IP from the X-Device-Model, X-Device-Platform, X-Device-OS-Version and X-App-Version headers and are
+ *       recorded in the device's sync history. A revoked device gets 403 with code `DEVICE_REVOKED`, `wipe: true`
+ *       and the header `X-Device-Wipe: true`: it must delete its local data and call
+ *       `/sync/devices/wipe-confirmation`. Calls without a device id get 428 unless SYNC_DEVICE_REQUIRED=false
+ *       and the user has no registered device.
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: X-Device-Id
+ *         required: false
+ *         schema: { type: string, maxLength: 128 }
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               deviceId: { type: string, maxLength: 128 }
+ *               device:
+ *                 type: object
+ *                 properties:
+ *                   model: { type: string }
+ *                   platform: { type: string }
+ *                   osVersion: { type: string }
+ *                   appVersion: { type: string }
+ *     responses:
+ *       200:
+ *         description: Registered device
+ *       400:
+ *         description: No device id
+ *       403:
+ *         description: Device revoked; wipe local data
+ */
+router.post('/devices/register', authenticate, trackSyncDevice('register'), (req: Request, res: Response): void => {
+  devicesController.register(req, res);
+});
+
+/**
+ * @swagger
+ * /sync/devices/wipe-confirmation:
+ *   post:
+ *     summary: Confirm that a revoked device deleted its local data
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: X-Device-Id
+ *         required: true
+ *         schema: { type: string }
+ *     responses:
+ *       200:
+ *         description: Wipe recorded
+ *       404:
+ *         description: Device not registered for the user
+ *       409:
+ *         description: Device has not been revoked
+ */
+router.post('/devices/wipe-confirmation', authenticate, (req: Request, res: Response): void => {
+  devicesController.wipeConfirmation(req, res);
+});
+
+/**
+ * @swagger
+ * /sync/devices:
+ *   get:
+ *     summary: Registered sync devices, most recently synced first
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema: { type: string, format: uuid }
+ *       - in: query
+ *         name: status
+ *         schema: { type: string, enum: [active, revoked] }
+ *       - in: query
+ *         name: deviceId
+ *         schema: { type: string }
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, default: 1 }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 20 }
+ *     responses:
+ *       200:
+ *         description: Paginated devices
+ *       400:
+ *         description: Invalid status
+ */
+router.get(
+  '/devices',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    devicesController.list(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /sync/devices/{id}:
+ *   get:
+ *     summary: A registered sync device
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Device
+ *       404:
+ *         description: Device not found
+ */
+router.get(
+  '/devices/:id',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    devicesController.getById(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /sync/devices/{id}/history:
+ *   get:
+ *     summary: Sync history of a device, newest first
+ *     description: Calls are kept for SYNC_DEVICE_HISTORY_RETENTION_DAYS (default 90).
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *       - in: query
+ *         name: operation
+ *         schema: { type: string, enum: [register, pull, push, full, upload, datadump, uploads, wipe] }
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, default: 1 }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 20 }
+ *     responses:
+ *       200:
+ *         description: Paginated calls with operation, outcome (success|failed|refused), status code, IP and duration
+ *       404:
+ *         description: Device not found
+ */
+router.get(
+  '/devices/:id/history',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    devicesController.history(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /sync/devices/{id}/revoke:
+ *   post:
+ *     summary: Revoke a device so its next sync is refused with a wipe instruction (audited)
+ *     description: Every registration of the same device id is revoked, whichever account signs in on it.
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason: { type: string }
+ *     responses:
+ *       200:
+ *         description: Device revoked
+ *       404:
+ *         description: Device not found
+ *       409:
+ *         description: Device already revoked
+ */
+router.post(
+  '/devices/:id/revoke',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    devicesController.revoke(req, res);
+  }
+);
+
+/**
+ * @swagger
+ * /sync/devices/{id}/rekey:
+ *   post:
+ *     summary: Remove the pinned public key of a device (audited)
+ *     description: |
+ *       Offline bundles are only encrypted to the key pinned by the device's first `GET /sync/full`. Re-keying
+ *       removes it from every registration of the device id, so the next bundle request pins the key it sends,
+ *       e.g. after the app was reinstalled.
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Pinned key removed
+ *       404:
+ *         description: Device not found
+ *       409:
+ *         description: Device has no pinned public key
+ */
+router.post(
+  '/devices/:id/rekey',
+  authenticate,
+  authorize([ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR]),
+  (req: Request, res: Response): void => {
+    devicesController.rekey(req, res);
+  }
+);
+
 export default router;
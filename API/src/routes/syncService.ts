@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { authenticate } from '../middlewares/auth';
 import loggerMiddleware from '../middlewares/logger';
+import { trackSyncDevice } from '../middlewares/syncDevice';
 import { dataDump, upload } from '../controllers/syncService';
 
 const router = Router();
@@ -23,6 +24,14 @@ router.use(loggerMiddleware);
  *     tags: [SyncService]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           type: string
+ *           enum: [sq, sr, en]
+ *         required: false
+ *         description: Resolve form labels, help texts and option texts for this locale. Without it templates keep all `translations`.
  *     responses:
  *       200:
  *         description: Complete dataset for offline use
@@ -187,6 +196,12 @@ router.use(loggerMiddleware);
  *                         format: date-time
  *                       submittedBy:
  *                         type: string
+ *                       status:
+ *                         type: string
+ *                         enum: [draft, submitted, approved, rejected]
+ *                       reviewComment:
+ *                         type: string
+ *                         nullable: true
  *                       formTemplate:
  *                         type: object
  *                       createdAt:
@@ -195,6 +210,25 @@ router.use(loggerMiddleware);
  *                       updatedAt:
  *                         type: string
  *                         format: date-time
+ *                 rejected_responses:
+ *                   type: array
+ *                   description: The user's own submissions rejected by a reviewer, to be corrected (PUT /forms/responses/{id}) and resubmitted (POST /forms/responses/{id}/submit)
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       formTemplateId:
+ *                         type: string
+ *                       data:
+ *                         type: object
+ *                       reviewComment:
+ *                         type: string
+ *                       reviewedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       reviewer:
+ *                         type: object
  *                 beneficiaries:
  *                   type: array
  *                   items:
@@ -285,22 +319,94 @@ router.use(loggerMiddleware);
  *                       updatedAt:
  *                         type: string
  *                         format: date-time
+ *                 follow_up_tasks:
+ *                   type: array
+ *                   description: Open follow-up tasks of the included beneficiaries; details only where the beneficiary's PII is included
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       beneficiaryId:
+ *                         type: string
+ *                       title:
+ *                         type: string
+ *                       details:
+ *                         type: string
+ *                       dueDate:
+ *                         type: string
+ *                         format: date
+ *                       assignedTo:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                       overdue:
+ *                         type: boolean
+ *                 case_notes:
+ *                   type: array
+ *                   description: Decrypted case notes visible to the user, for beneficiaries whose PII is included
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       beneficiaryId:
+ *                         type: string
+ *                       authorId:
+ *                         type: string
+ *                       visibility:
+ *                         type: string
+ *                         enum: [team, managers, private]
+ *                       body:
+ *                         type: string
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                 icd10_codes:
+ *                   type: array
+ *                   description: Active ICD-10 catalog entries for recording beneficiary conditions
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       code:
+ *                         type: string
+ *                       label:
+ *                         type: string
+ *                       synonyms:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       category:
+ *                         type: string
  *       401:
  *         description: Unauthorized
  *       500:
  *         description: Internal server error
  */
-router.get('/datadump', authenticate, dataDump);
+router.get('/datadump', authenticate, trackSyncDevice('datadump'), dataDump);
 
 /**
  * @swagger
  * /sync/uploads:
  *   post:
  *     summary: Upload offline survey responses from Flutter
- *     description: Processes completed survey responses from Flutter and stores them in the correct relational database tables
+ *     description: |
+ *       Processes completed survey responses from Flutter and stores them in the correct relational database tables.
+ *       Applied surveys are recorded per user, device and clientRequestId for SYNC_IDEMPOTENCY_RETENTION_HOURS
+ *       (default 720); a retry within that window returns the original result with `replayed: true` instead of
+ *       creating the records again. Reusing a clientRequestId for a different survey yields an error result with
+ *       code IDEMPOTENCY_KEY_REUSED.
  *     tags: [SyncService]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: X-Device-Id
+ *         required: false
+ *         schema: { type: string }
+ *         description: Device the uploads come from; falls back to metadata.deviceId of each survey
  *     requestBody:
  *       required: true
  *       content:
@@ -315,7 +421,8 @@ router.get('/datadump', authenticate, dataDump);
  *                   properties:
  *                     clientRequestId:
  *                       type: string
- *                       description: Unique identifier generated by Flutter for idempotency
+ *                       maxLength: 128
+ *                       description: Unique identifier generated by Flutter for idempotency; reuse it when retrying
  *                     projectId:
  *                       type: string
  *                       description: ID of the project this survey belongs to
@@ -341,6 +448,29 @@ router.get('/datadump', authenticate, dataDump);
  *                     answers:
  *                       type: object
  *                       description: The actual survey responses (field names match form schema)
+ *                     consents:
+ *                       type: array
+ *                       description: Consents captured on the device for the survey's beneficiary. Answers mapped in the form's beneficiary mapping (consent section) are recorded as well.
+ *                       items:
+ *                         type: object
+ *                         required: [purpose, consentVersion]
+ *                         properties:
+ *                           purpose:
+ *                             type: string
+ *                             enum: [data_collection, data_sharing]
+ *                           consentVersion:
+ *                             type: string
+ *                             description: Version of the consent text shown to the person
+ *                           givenAt:
+ *                             type: string
+ *                             format: date-time
+ *                             description: Defaults to the survey submission time
+ *                           signatureAttachmentId:
+ *                             type: string
+ *                             description: Signature uploaded beforehand via /forms/attachments
+ *                           granted:
+ *                             type: boolean
+ *                             description: false records a refusal and withdraws earlier consent for the purpose
  *                     metadata:
  *                       type: object
  *                       description: Additional context about the survey submission
@@ -622,6 +752,12 @@ router.get('/datadump', authenticate, dataDump);
  *                       status:
  *                         type: string
  *                         enum: [applied, error]
+ *                       replayed:
+ *                         type: boolean
+ *                         description: True when the survey was applied by an earlier request and its result is returned again
+ *                       code:
+ *                         type: string
+ *                         description: IDEMPOTENCY_KEY_REUSED when the clientRequestId belongs to a different survey
  *                       entityType:
  *                         type: string
  *                         description: Type of entity processed
@@ -752,6 +888,6 @@ router.get('/datadump', authenticate, dataDump);
  *       500:
  *         description: Internal server error
  */
-router.post('/uploads', authenticate, upload);
+router.post('/uploads', authenticate, trackSyncDevice('uploads'), upload);
 
 export default router;
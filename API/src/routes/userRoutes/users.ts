@@ -288,9 +288,34 @@ router.get("/my-team", authenticate, (req: Request, res: Response): void => {
  *                                 type: string
  *                               email:
  *                                 type: string
+ *                           followUpTasks:
+ *                             type: array
+ *                             description: Open follow-up tasks of the beneficiary, soonest due first (without details)
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 id:
+ *                                   type: string
+ *                                 title:
+ *                                   type: string
+ *                                 dueDate:
+ *                                   type: string
+ *                                   format: date
+ *                                 assignedTo:
+ *                                   type: string
+ *                                 overdue:
+ *                                   type: boolean
  *                     count:
  *                       type: integer
  *                       description: Number of beneficiaries in current page
+ *                     myFollowUpTasks:
+ *                       type: object
+ *                       description: Open and overdue follow-up tasks assigned to the current user
+ *                       properties:
+ *                         open:
+ *                           type: integer
+ *                         overdue:
+ *                           type: integer
  *                 page:
  *                   type: integer
  *                   description: Current page number
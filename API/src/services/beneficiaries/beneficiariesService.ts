@@ -1,14 +1,18 @@
-import { Transaction, Op, FindAndCountOptions } from 'sequelize';
+import { Transaction, Op, FindAndCountOptions, literal } from 'sequelize';
 import { v4 as uuidv4 } from 'uuid';
 import { Beneficiary, BeneficiaryMatchKey, BeneficiaryMapping, BeneficiaryDetails } from '../../models';
 import {
   encryptField,
   hmacSha256,
+  hmacSha256All,
   normalizeName,
   normalizeDob,
   normalizePhone,
   makePseudonym,
 } from '../../utils/crypto';
+import { refreshDuplicateCandidates } from './duplicateService';
+import { buildSearchCondition, refreshSearchTokens } from './searchIndexService';
+import { linkHouseholdFromMapping } from './householdService';
 
 export type UpsertOptions = {
   transaction: Transaction;
@@ -50,21 +54,37 @@ type BeneficiaryInput = {
   householdMembers?: number | null;
 };
 
-const buildCandidateKeysFromInput = (input: BeneficiaryInput): Array<{ keyType: string; keyHash: string }> => {
+/**
+ * Normalised plaintext behind each match key type (hashed with the hash keyring before storage)
+ */
+export const buildMatchKeyValues = (input: BeneficiaryInput): Array<{ keyType: string; value: string }> => {
   const normName = `${normalizeName(input.firstName)} ${normalizeName(input.lastName)}`.trim();
   const normDob = normalizeDob(input.dob);
   const normPhone = normalizePhone(input.phone);
-  const keys: Array<{ keyType: string; keyHash: string }> = [];
-  if (input.nationalId) keys.push({ keyType: 'nationalId', keyHash: hmacSha256(input.nationalId) });
-  if (normPhone && normDob) keys.push({ keyType: 'phone+dob', keyHash: hmacSha256(`${normPhone}|${normDob}`) });
-  if (normName && normDob) keys.push({ keyType: 'name+dob', keyHash: hmacSha256(`${normName}|${normDob}`) });
-  return keys;
+  const values: Array<{ keyType: string; value: string }> = [];
+  if (input.nationalId) values.push({ keyType: 'nationalId', value: input.nationalId });
+  if (normPhone && normDob) values.push({ keyType: 'phone+dob', value: `${normPhone}|${normDob}` });
+  if (normName && normDob) values.push({ keyType: 'name+dob', value: `${normName}|${normDob}` });
+  return values;
+};
+
+const buildCandidateKeysFromInput = (input: BeneficiaryInput): Array<{ keyType: string; keyHash: string }> =>
+  buildMatchKeyValues(input).map(({ keyType, value }) => ({ keyType, keyHash: hmacSha256(value) }));
+
+/**
+ * Rebuild what is derived from a beneficiary's PII after it changed: search tokens and duplicate candidates
+ */
+const refreshDerivedIndexes = async (beneficiary: Beneficiary, transaction: Transaction) => {
+  await refreshSearchTokens(beneficiary, transaction);
+  await refreshDuplicateCandidates(beneficiary, transaction);
 };
 
 const toSafe = (b: Beneficiary) => ({
   id: b.id,
   pseudonym: b.pseudonym,
   status: b.status,
+  mergedIntoId: b.mergedIntoId ?? null,
+  version: b.version,
   createdAt: b.get('createdAt'),
   updatedAt: b.get('updatedAt'),
 });
@@ -74,7 +94,7 @@ export async function upsertFromFormResponse(
   data: any,
   entity: UpsertEntity,
   opts: UpsertOptions
-): Promise<{ beneficiaryId?: string; created: boolean }>
+): Promise<{ beneficiaryId?: string; created: boolean; householdId?: string }>
 {
   // Load mapping
   const mapping = await BeneficiaryMapping.findOne({
@@ -111,27 +131,20 @@ export async function upsertFromFormResponse(
     ? (genderRaw.toUpperCase().startsWith('M') ? 'M' : genderRaw.toUpperCase().startsWith('F') ? 'F' : undefined)
     : undefined;
 
-  const normName = `${normalizeName(firstName)} ${normalizeName(lastName)}`.trim();
   const normDob = normalizeDob(dobRaw);
   const normPhone = normalizePhone(phoneRaw);
 
   // Build match keys
-  const candidateKeys: Array<{ keyType: string; keyHash: string }> = [];
-  if (strategies.includes('nationalId') && nationalId) {
-    candidateKeys.push({ keyType: 'nationalId', keyHash: hmacSha256(nationalId) });
-  }
-  if (strategies.includes('phone+dob') && normPhone && normDob) {
-    candidateKeys.push({ keyType: 'phone+dob', keyHash: hmacSha256(`${normPhone}|${normDob}`) });
-  }
-  if (strategies.includes('name+dob') && normName && normDob) {
-    candidateKeys.push({ keyType: 'name+dob', keyHash: hmacSha256(`${normName}|${normDob}`) });
-  }
+  const candidateValues = buildMatchKeyValues({ firstName, lastName, dob: dobRaw, nationalId, phone: phoneRaw })
+    .filter(k => strategies.includes(k.keyType));
+  const candidateKeys = candidateValues.map(({ keyType, value }) => ({ keyType, keyHash: hmacSha256(value) }));
 
   let existingBeneficiaryId: string | undefined;
-  if (candidateKeys.length > 0) {
+  if (candidateValues.length > 0) {
+    // Match against every key in the hash keyring so beneficiaries are still found during a key rotation
     const matches = await BeneficiaryMatchKey.findAll({
       where: {
-        [Op.or]: candidateKeys.map(k => ({ keyType: k.keyType, keyHash: k.keyHash }))
+        [Op.or]: candidateValues.map(k => ({ keyType: k.keyType, keyHash: { [Op.in]: hmacSha256All(k.value) } }))
       },
       transaction: opts.transaction,
     });
@@ -158,6 +171,8 @@ export async function upsertFromFormResponse(
       residenceEnc: residence ? encryptField(residence) : undefined,
       householdMembersEnc: householdMembers != null ? encryptField(String(householdMembers)) : undefined,
       genderEnc: gender ? encryptField(gender) : undefined,
+      // Bulk updates do not bump the row version themselves
+      version: literal('"version" + 1'),
     }, {
       where: { id: existingBeneficiaryId },
       transaction: opts.transaction,
@@ -176,7 +191,13 @@ export async function upsertFromFormResponse(
       }
     }
 
-    return { beneficiaryId: existingBeneficiaryId, created: false };
+    const existing = await Beneficiary.findByPk(existingBeneficiaryId, { transaction: opts.transaction });
+    if (existing) await refreshDerivedIndexes(existing, opts.transaction);
+
+    const householdId = map.household
+      ? await linkHouseholdFromMapping(existingBeneficiaryId, data, map.household, opts)
+      : undefined;
+    return { beneficiaryId: existingBeneficiaryId, created: false, householdId };
   }
 
   // Create new beneficiary
@@ -206,8 +227,12 @@ export async function upsertFromFormResponse(
       transaction: opts.transaction,
     });
   }
+  await refreshDerivedIndexes(created, opts.transaction);
 
-  return { beneficiaryId: created.id, created: true };
+  const householdId = map.household
+    ? await linkHouseholdFromMapping(created.id, data, map.household, opts)
+    : undefined;
+  return { beneficiaryId: created.id, created: true, householdId };
 }
 
 export default {
@@ -255,6 +280,7 @@ export default {
           throw keyErr;
         }
       }
+      await refreshDerivedIndexes(created, opts.transaction);
       return toSafe(created);
     } catch (err: any) {
       console.error('Error in createBeneficiary service:', err.message, err.sql);
@@ -308,6 +334,7 @@ export default {
         });
       } catch (_) { /* ignore */ }
     }
+    await refreshDerivedIndexes(existing, opts.transaction);
 
     return toSafe(existing);
   },
@@ -317,13 +344,24 @@ export default {
     return b ? toSafe(b) : null;
   },
 
-  async listBeneficiaries(params: { page?: number; limit?: number; status?: 'active' | 'inactive'; includeEnc?: boolean; includeDetails?: boolean }) {
+  async listBeneficiaries(params: {
+    page?: number;
+    limit?: number;
+    status?: 'active' | 'inactive';
+    includeEnc?: boolean;
+    includeDetails?: boolean;
+    search?: string;
+    chronicConditionCodes?: string[];
+  }) {
     const page = Math.max(1, params.page || 1);
     const limit = Math.min(100, Math.max(1, params.limit || 20));
     const offset = (page - 1) * limit;
-    const where: any = {};
+    // Archived records (merged duplicates) are not listed
+    const where: any = { isArchived: false };
     if (params.status) where.status = params.status;
-    const attributes: any = ['id', 'pseudonym', 'status', 'createdAt', 'updatedAt'];
+    if (params.search && params.search.trim()) where[Op.and] = [buildSearchCondition(params.search)];
+    const codes = (params.chronicConditionCodes || []).map(c => c.trim().toUpperCase()).filter(Boolean);
+    const attributes: any = ['id', 'pseudonym', 'status', 'version', 'createdAt', 'updatedAt'];
     if (params.includeEnc) {
       attributes.push(
         'firstNameEnc',
@@ -347,15 +385,20 @@ export default {
       offset,
       order: [['createdAt', 'DESC']],
       attributes,
-      include: params.includeDetails ? [{
+      include: params.includeDetails || codes.length ? [{
         model: BeneficiaryDetails,
         as: 'details',
         attributes: ['details'],
-        required: false,
+        // Any of the codes; containment queries use the GIN index on details
+        required: codes.length > 0,
+        where: codes.length
+          ? { [Op.or]: codes.map(code => ({ details: { [Op.contains]: { chronicConditionCodes: [code] } } })) }
+          : undefined,
       }] : [],
+      distinct: true,
     } as FindAndCountOptions);
     const items = rows.map(r => {
-      const base: any = { id: r.id, pseudonym: r.pseudonym, status: r.status, createdAt: r.get('createdAt'), updatedAt: r.get('updatedAt') };
+      const base: any = { id: r.id, pseudonym: r.pseudonym, status: r.status, version: r.version, createdAt: r.get('createdAt'), updatedAt: r.get('updatedAt') };
       if (params.includeEnc) {
         base.firstNameEnc = r.get('firstNameEnc');
         base.lastNameEnc = r.get('lastNameEnc');
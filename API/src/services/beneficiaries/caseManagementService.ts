@@ -0,0 +1,386 @@
+/**
+ * Case management: encrypted case notes with a visibility scope and follow-up tasks assigned to
+ * users with due dates. Note text and task details are encrypted with the beneficiary PII keys.
+ */
+
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditLog, Beneficiary, BeneficiaryCaseNote, BeneficiaryFollowUpTask, User } from '../../models';
+import {
+  CASE_NOTE_VISIBILITIES,
+  CaseNoteVisibility,
+  FOLLOW_UP_TASK_STATUSES,
+  FollowUpTaskStatus,
+} from '../../constants/caseManagement';
+import { ROLES } from '../../constants/roles';
+import { decryptField, encryptField } from '../../utils/crypto';
+
+export type CaseManagementResult<T = any> = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: T;
+};
+
+export type CaseViewer = {
+  id: string;
+  roleNames: string[];
+};
+
+export type CaseNoteInput = {
+  body?: string;
+  visibility?: string;
+};
+
+export type FollowUpTaskInput = {
+  title?: string;
+  details?: string | null;
+  dueDate?: string;
+  assignedTo?: string;
+  caseNoteId?: string | null;
+  status?: string;
+};
+
+export type FollowUpTaskFilter = {
+  beneficiaryId?: string;
+  assignedTo?: string;
+  status?: FollowUpTaskStatus;
+  overdue?: boolean;
+};
+
+export const MAX_CASE_NOTE_LENGTH = 20000;
+
+const MANAGER_ROLES = [ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR, ROLES.PROGRAM_MANAGER, ROLES.SUB_PROJECT_MANAGER];
+const ADMIN_ROLES = [ROLES.SUPER_ADMIN, ROLES.SYSTEM_ADMINISTRATOR];
+
+const isVisibility = (value: any): value is CaseNoteVisibility =>
+  (CASE_NOTE_VISIBILITIES as readonly string[]).includes(value);
+
+const isTaskStatus = (value: any): value is FollowUpTaskStatus =>
+  (FOLLOW_UP_TASK_STATUSES as readonly string[]).includes(value);
+
+const isDateOnly = (value: any) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+/** Today as YYYY-MM-DD (UTC); tasks due before today are overdue */
+export const today = () => new Date().toISOString().slice(0, 10);
+
+/** Where clause for open tasks past their due date */
+export const overdueTaskWhere = () => ({ status: 'open', dueDate: { [Op.lt]: today() } });
+
+const writeAudit = (userId: string, action: string, description: string, details: any, transaction: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(details),
+    timestamp: new Date(),
+  }, { transaction });
+
+export const canReadCaseNote = (note: Pick<BeneficiaryCaseNote, 'authorId' | 'visibility'>, viewer: CaseViewer) => {
+  if (note.authorId === viewer.id) return true;
+  if (note.visibility === 'private') return false;
+  if (note.visibility === 'managers') return viewer.roleNames.some(r => MANAGER_ROLES.includes(r));
+  return true;
+};
+
+export const toCaseNoteView = (note: BeneficiaryCaseNote) => ({
+  id: note.id,
+  beneficiaryId: note.beneficiaryId,
+  authorId: note.authorId,
+  author: (note as any).author ?? undefined,
+  visibility: note.visibility,
+  body: decryptField(note.bodyEnc),
+  editedAt: note.editedAt ?? null,
+  createdAt: note.createdAt,
+  updatedAt: note.updatedAt,
+});
+
+export const toFollowUpTaskView = (task: BeneficiaryFollowUpTask, includeDetails = true) => ({
+  id: task.id,
+  beneficiaryId: task.beneficiaryId,
+  caseNoteId: task.caseNoteId ?? null,
+  title: task.title,
+  ...(includeDetails ? { details: decryptField(task.detailsEnc) } : {}),
+  dueDate: task.dueDate,
+  assignedTo: task.assignedTo,
+  assignee: (task as any).assignee ?? undefined,
+  createdBy: task.createdBy,
+  status: task.status,
+  overdue: task.status === 'open' && task.dueDate < today(),
+  completedAt: task.completedAt ?? null,
+  completedBy: task.completedBy ?? null,
+  createdAt: task.createdAt,
+  updatedAt: task.updatedAt,
+});
+
+const findWritableBeneficiary = async (beneficiaryId: string, transaction: Transaction): Promise<CaseManagementResult<Beneficiary>> => {
+  const beneficiary = await Beneficiary.findByPk(beneficiaryId, { attributes: ['id', 'pseudonym', 'erasedAt'], transaction });
+  if (!beneficiary) return { success: false, status: 404, message: 'Beneficiary not found' };
+  if (beneficiary.erasedAt) return { success: false, status: 409, message: 'Beneficiary data has been erased' };
+  return { success: true, status: 200, data: beneficiary };
+};
+
+/**
+ * Case notes of a beneficiary the viewer may read, newest first, with decrypted text
+ */
+export const listCaseNotes = async (beneficiaryId: string, viewer: CaseViewer, transaction?: Transaction) => {
+  const notes = await BeneficiaryCaseNote.findAll({
+    where: { beneficiaryId },
+    include: [{ model: User, as: 'author', attributes: ['id', 'firstName', 'lastName'] }],
+    order: [['createdAt', 'DESC']],
+    transaction,
+  });
+  return notes.filter(note => canReadCaseNote(note, viewer)).map(toCaseNoteView);
+};
+
+export const createCaseNote = async (
+  beneficiaryId: string,
+  input: CaseNoteInput,
+  userId: string,
+  transaction: Transaction
+): Promise<CaseManagementResult> => {
+  const body = typeof input?.body === 'string' ? input.body.trim() : '';
+  if (!body || body.length > MAX_CASE_NOTE_LENGTH) {
+    return { success: false, status: 400, message: `body is required (max ${MAX_CASE_NOTE_LENGTH} characters)` };
+  }
+  const visibility = input.visibility ?? 'team';
+  if (!isVisibility(visibility)) {
+    return { success: false, status: 400, message: `visibility must be one of: ${CASE_NOTE_VISIBILITIES.join(', ')}` };
+  }
+  const found = await findWritableBeneficiary(beneficiaryId, transaction);
+  if (!found.success) return found;
+
+  const note = await BeneficiaryCaseNote.create({
+    id: uuidv4(),
+    beneficiaryId,
+    authorId: userId,
+    visibility,
+    bodyEnc: encryptField(body),
+  }, { transaction });
+
+  await writeAudit(userId, 'BENEFICIARY_CASE_NOTE_CREATE', `Added a case note for beneficiary '${found.data!.pseudonym}'`, {
+    beneficiaryId, noteId: note.id, visibility,
+  }, transaction);
+  return { success: true, status: 201, data: toCaseNoteView(note) };
+};
+
+/**
+ * Edit the text or visibility of a note. Only the author can edit a note.
+ */
+export const updateCaseNote = async (
+  beneficiaryId: string,
+  noteId: string,
+  input: CaseNoteInput,
+  userId: string,
+  transaction: Transaction
+): Promise<CaseManagementResult> => {
+  const note = await BeneficiaryCaseNote.findOne({ where: { id: noteId, beneficiaryId }, transaction });
+  if (!note) return { success: false, status: 404, message: 'Case note not found' };
+  if (note.authorId !== userId) return { success: false, status: 403, message: 'Only the author can edit a case note' };
+
+  const changes: any = {};
+  if (input?.body !== undefined) {
+    const body = typeof input.body === 'string' ? input.body.trim() : '';
+    if (!body || body.length > MAX_CASE_NOTE_LENGTH) {
+      return { success: false, status: 400, message: `body is required (max ${MAX_CASE_NOTE_LENGTH} characters)` };
+    }
+    changes.bodyEnc = encryptField(body);
+  }
+  if (input?.visibility !== undefined) {
+    if (!isVisibility(input.visibility)) {
+      return { success: false, status: 400, message: `visibility must be one of: ${CASE_NOTE_VISIBILITIES.join(', ')}` };
+    }
+    changes.visibility = input.visibility;
+  }
+  if (!Object.keys(changes).length) return { success: false, status: 400, message: 'Nothing to update' };
+
+  await note.update({ ...changes, editedAt: new Date() }, { transaction });
+  await writeAudit(userId, 'BENEFICIARY_CASE_NOTE_UPDATE', 'Edited a case note', {
+    beneficiaryId, noteId, fields: Object.keys(changes).map(f => (f === 'bodyEnc' ? 'body' : f)),
+  }, transaction);
+  return { success: true, status: 200, data: toCaseNoteView(note) };
+};
+
+/**
+ * Delete a note. Authors can delete their notes, administrators any note.
+ */
+export const deleteCaseNote = async (
+  beneficiaryId: string,
+  noteId: string,
+  viewer: CaseViewer,
+  transaction: Transaction
+): Promise<CaseManagementResult> => {
+  const note = await BeneficiaryCaseNote.findOne({ where: { id: noteId, beneficiaryId }, transaction });
+  if (!note) return { success: false, status: 404, message: 'Case note not found' };
+  if (note.authorId !== viewer.id && !viewer.roleNames.some(r => ADMIN_ROLES.includes(r))) {
+    return { success: false, status: 403, message: 'Only the author or an administrator can delete a case note' };
+  }
+
+  await note.destroy({ transaction });
+  await writeAudit(viewer.id, 'BENEFICIARY_CASE_NOTE_DELETE', 'Deleted a case note', { beneficiaryId, noteId, authorId: note.authorId }, transaction);
+  return { success: true, status: 200, data: { id: noteId } };
+};
+
+const validateAssignee = async (assignedTo: string, transaction: Transaction) => {
+  const user = await User.findByPk(assignedTo, { attributes: ['id', 'status'], transaction });
+  return !!user && user.status === 'active';
+};
+
+export const createFollowUpTask = async (
+  beneficiaryId: string,
+  input: FollowUpTaskInput,
+  userId: string,
+  transaction: Transaction
+): Promise<CaseManagementResult> => {
+  const title = typeof input?.title === 'string' ? input.title.trim() : '';
+  if (!title || title.length > 200) return { success: false, status: 400, message: 'title is required (max 200 characters)' };
+  if (!isDateOnly(input.dueDate)) return { success: false, status: 400, message: 'dueDate must be a date (YYYY-MM-DD)' };
+
+  const found = await findWritableBeneficiary(beneficiaryId, transaction);
+  if (!found.success) return found;
+
+  const assignedTo = input.assignedTo || userId;
+  if (!(await validateAssignee(assignedTo, transaction))) {
+    return { success: false, status: 400, message: 'assignedTo must be an active user' };
+  }
+  if (input.caseNoteId) {
+    const note = await BeneficiaryCaseNote.findOne({ where: { id: input.caseNoteId, beneficiaryId }, attributes: ['id'], transaction });
+    if (!note) return { success: false, status: 400, message: 'Case note not found for this beneficiary' };
+  }
+
+  const task = await BeneficiaryFollowUpTask.create({
+    id: uuidv4(),
+    beneficiaryId,
+    caseNoteId: input.caseNoteId ?? null,
+    title,
+    detailsEnc: input.details ? encryptField(String(input.details)) : null,
+    dueDate: input.dueDate,
+    assignedTo,
+    createdBy: userId,
+    status: 'open',
+  }, { transaction });
+
+  await writeAudit(userId, 'FOLLOW_UP_TASK_CREATE', `Created a follow-up task for beneficiary '${found.data!.pseudonym}'`, {
+    beneficiaryId, taskId: task.id, assignedTo, dueDate: input.dueDate,
+  }, transaction);
+  return { success: true, status: 201, data: toFollowUpTaskView(task) };
+};
+
+/**
+ * Update, reassign, complete (status done), cancel or reopen a task
+ */
+export const updateFollowUpTask = async (
+  beneficiaryId: string,
+  taskId: string,
+  input: FollowUpTaskInput,
+  userId: string,
+  transaction: Transaction
+): Promise<CaseManagementResult> => {
+  const task = await BeneficiaryFollowUpTask.findOne({ where: { id: taskId, beneficiaryId }, transaction });
+  if (!task) return { success: false, status: 404, message: 'Task not found' };
+
+  const changes: any = {};
+  if (input?.title !== undefined) {
+    const title = typeof input.title === 'string' ? input.title.trim() : '';
+    if (!title || title.length > 200) return { success: false, status: 400, message: 'title is required (max 200 characters)' };
+    changes.title = title;
+  }
+  if (input?.details !== undefined) changes.detailsEnc = input.details ? encryptField(String(input.details)) : null;
+  if (input?.dueDate !== undefined) {
+    if (!isDateOnly(input.dueDate)) return { success: false, status: 400, message: 'dueDate must be a date (YYYY-MM-DD)' };
+    changes.dueDate = input.dueDate;
+  }
+  if (input?.assignedTo !== undefined && input.assignedTo !== task.assignedTo) {
+    if (!(await validateAssignee(input.assignedTo, transaction))) {
+      return { success: false, status: 400, message: 'assignedTo must be an active user' };
+    }
+    changes.assignedTo = input.assignedTo;
+  }
+  if (input?.status !== undefined && input.status !== task.status) {
+    if (!isTaskStatus(input.status)) {
+      return { success: false, status: 400, message: `status must be one of: ${FOLLOW_UP_TASK_STATUSES.join(', ')}` };
+    }
+    changes.status = input.status;
+    changes.completedAt = input.status === 'open' ? null : new Date();
+    changes.completedBy = input.status === 'open' ? null : userId;
+  }
+  if (!Object.keys(changes).length) return { success: false, status: 400, message: 'Nothing to update' };
+
+  await task.update(changes, { transaction });
+  await writeAudit(userId, 'FOLLOW_UP_TASK_UPDATE', `Updated follow-up task '${task.title}'`, {
+    beneficiaryId, taskId, fields: Object.keys(changes).filter(f => !['completedAt', 'completedBy'].includes(f)).map(f => (f === 'detailsEnc' ? 'details' : f)),
+    status: task.status,
+  }, transaction);
+  return { success: true, status: 200, data: toFollowUpTaskView(task) };
+};
+
+export const listFollowUpTasks = async (filter: FollowUpTaskFilter, page: number, limit: number) => {
+  const where: any = {};
+  if (filter.beneficiaryId) where.beneficiaryId = filter.beneficiaryId;
+  if (filter.assignedTo) where.assignedTo = filter.assignedTo;
+  if (filter.status) where.status = filter.status;
+  if (filter.overdue) Object.assign(where, overdueTaskWhere());
+
+  const { rows, count } = await BeneficiaryFollowUpTask.findAndCountAll({
+    where,
+    include: [
+      { model: User, as: 'assignee', attributes: ['id', 'firstName', 'lastName', 'email'] },
+      { model: Beneficiary, as: 'beneficiary', attributes: ['id', 'pseudonym'] },
+    ],
+    order: [['dueDate', 'ASC'], ['createdAt', 'ASC']],
+    limit,
+    offset: (page - 1) * limit,
+  });
+  return {
+    items: rows.map(task => ({ ...toFollowUpTaskView(task), beneficiary: (task as any).beneficiary })),
+    totalItems: count,
+  };
+};
+
+/**
+ * Open and overdue task counts, optionally for one assignee and/or a set of beneficiaries
+ */
+export const countFollowUpTasks = async (scope: { assignedTo?: string; beneficiaryIds?: string[] } = {}) => {
+  const where: any = {};
+  if (scope.assignedTo) where.assignedTo = scope.assignedTo;
+  if (scope.beneficiaryIds) where.beneficiaryId = { [Op.in]: scope.beneficiaryIds };
+  const [open, overdue] = await Promise.all([
+    BeneficiaryFollowUpTask.count({ where: { ...where, status: 'open' } }),
+    BeneficiaryFollowUpTask.count({ where: { ...where, ...overdueTaskWhere() } }),
+  ]);
+  return { open, overdue };
+};
+
+/**
+ * Open tasks per beneficiary (titles and due dates, without details), soonest due first
+ */
+export const openTasksByBeneficiary = async (beneficiaryIds: string[], transaction?: Transaction) => {
+  const result = new Map<string, ReturnType<typeof toFollowUpTaskView>[]>();
+  if (!beneficiaryIds.length) return result;
+  const tasks = await BeneficiaryFollowUpTask.findAll({
+    where: { beneficiaryId: { [Op.in]: beneficiaryIds }, status: 'open' },
+    order: [['dueDate', 'ASC']],
+    transaction,
+  });
+  for (const task of tasks) {
+    const list = result.get(task.beneficiaryId) || [];
+    list.push(toFollowUpTaskView(task, false));
+    result.set(task.beneficiaryId, list);
+  }
+  return result;
+};
+
+export default {
+  canReadCaseNote,
+  listCaseNotes,
+  createCaseNote,
+  updateCaseNote,
+  deleteCaseNote,
+  createFollowUpTask,
+  updateFollowUpTask,
+  listFollowUpTasks,
+  countFollowUpTasks,
+  openTasksByBeneficiary,
+};
@@ -0,0 +1,265 @@
+/**
+ * ICD-10 catalog: the codes beneficiary conditions are recorded against. Admins add codes and edit
+ * labels, synonyms, categories and whether a code can still be recorded; codes themselves never change.
+ * On first start the catalog is seeded from the former CHRONIC_CONDITIONS constant and the condition
+ * codes stored in BeneficiaryDetails are taken over as condition records.
+ */
+
+import { Op, Transaction, cast, col, where as sqlWhere } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize from '../../db/connection';
+import { AuditLog, BeneficiaryCondition, BeneficiaryDetails, Icd10Code } from '../../models';
+import { ICD10_CHAPTERS, UNSPECIFIED_CONDITION_CODE } from '../../constants/conditions';
+import { CHRONIC_CONDITIONS } from '../../constants/chronicConditions';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('condition-catalog-service');
+
+export type CatalogResult<T = any> = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: T;
+};
+
+export type Icd10CodeInput = {
+  code?: string;
+  label?: string;
+  synonyms?: string[];
+  category?: string;
+  isActive?: boolean;
+};
+
+export type CatalogSearch = {
+  q?: string;
+  category?: string;
+  includeInactive?: boolean;
+};
+
+/** Categories of the catalog: the ICD-10 chapters plus 'other' for uncoded diagnoses */
+export const CONDITION_CATEGORIES = [
+  ...ICD10_CHAPTERS.map(c => ({ category: c.category as string, title: c.title as string })),
+  { category: 'other', title: 'Other / not coded' },
+];
+
+const CATEGORY_KEYS = new Set(CONDITION_CATEGORIES.map(c => c.category));
+
+const CODE_PATTERN = /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+
+const MAX_SYNONYMS = 20;
+
+/** Upper-cased, trimmed code */
+export const normalizeCode = (code: any) => String(code ?? '').trim().toUpperCase();
+
+export const isIcd10Code = (code: string) => code === UNSPECIFIED_CONDITION_CODE || CODE_PATTERN.test(code);
+
+export const isConditionCategory = (value: any) => typeof value === 'string' && CATEGORY_KEYS.has(value);
+
+/**
+ * ICD-10 chapter of a code, compared on its first three characters
+ */
+export const categoryOf = (code: string) => {
+  const prefix = normalizeCode(code).slice(0, 3);
+  if (!CODE_PATTERN.test(prefix)) return 'other';
+  const chapter = ICD10_CHAPTERS.find(c => prefix >= c.from && prefix <= c.to);
+  return chapter ? chapter.category : 'other';
+};
+
+const writeAudit = (userId: string, action: string, description: string, details: any, transaction: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(details),
+    timestamp: new Date(),
+  }, { transaction });
+
+const normalizeSynonyms = (synonyms: any, label: string): CatalogResult<string[]> => {
+  if (synonyms == null) return { success: true, status: 200, data: [] };
+  if (!Array.isArray(synonyms) || synonyms.some(s => typeof s !== 'string')) {
+    return { success: false, status: 400, message: 'synonyms must be an array of strings' };
+  }
+  const unique = Array.from(new Set(synonyms.map((s: string) => s.trim()).filter(s => s && s !== label)));
+  if (unique.length > MAX_SYNONYMS) return { success: false, status: 400, message: `At most ${MAX_SYNONYMS} synonyms are allowed` };
+  if (unique.some(s => s.length > 255)) return { success: false, status: 400, message: 'Synonyms must be at most 255 characters' };
+  return { success: true, status: 200, data: unique };
+};
+
+export const toIcd10CodeView = (code: Icd10Code) => ({
+  id: code.id,
+  code: code.code,
+  label: code.label,
+  synonyms: code.synonyms || [],
+  category: code.category,
+  isActive: code.isActive,
+  createdAt: code.createdAt,
+  updatedAt: code.updatedAt,
+});
+
+/**
+ * Search the catalog by code prefix, label or synonym (case-insensitive), codes in order
+ */
+export const searchCodes = async (search: CatalogSearch, page: number, limit: number) => {
+  const where: any = {};
+  if (!search.includeInactive) where.isActive = true;
+  if (search.category) where.category = search.category;
+  const q = (search.q || '').trim();
+  if (q) {
+    const like = `%${q.replace(/[\\%_]/g, m => `\\${m}`)}%`;
+    where[Op.or] = [
+      { code: { [Op.startsWith]: normalizeCode(q) } },
+      { label: { [Op.iLike]: like } },
+      // Synonyms are a JSON array of strings; match on its text form
+      sqlWhere(cast(col('synonyms'), 'text'), { [Op.iLike]: like }),
+    ];
+  }
+  const { rows, count } = await Icd10Code.findAndCountAll({
+    where,
+    order: [['code', 'ASC']],
+    limit,
+    offset: (page - 1) * limit,
+  });
+  return { items: rows.map(toIcd10CodeView), totalItems: count };
+};
+
+export const createCode = async (input: Icd10CodeInput, userId: string, transaction: Transaction): Promise<CatalogResult> => {
+  const code = normalizeCode(input.code);
+  if (!isIcd10Code(code)) {
+    return { success: false, status: 400, message: 'code must be an ICD-10 code such as E11 or M79.6' };
+  }
+  const label = typeof input.label === 'string' ? input.label.trim() : '';
+  if (!label || label.length > 255) return { success: false, status: 400, message: 'label is required (at most 255 characters)' };
+  const synonyms = normalizeSynonyms(input.synonyms, label);
+  if (!synonyms.success) return synonyms;
+  const category = input.category ?? categoryOf(code);
+  if (!isConditionCategory(category)) return { success: false, status: 400, message: 'Unknown category' };
+  if (input.isActive != null && typeof input.isActive !== 'boolean') return { success: false, status: 400, message: 'isActive must be a boolean' };
+
+  const existing = await Icd10Code.findOne({ where: { code }, attributes: ['id'], transaction });
+  if (existing) return { success: false, status: 409, message: `Code ${code} is already in the catalog` };
+
+  const created = await Icd10Code.create({
+    id: uuidv4(),
+    code,
+    label,
+    synonyms: synonyms.data,
+    category,
+    isActive: input.isActive ?? true,
+  }, { transaction });
+  await writeAudit(userId, 'ICD10_CODE_CREATE', `Added ICD-10 code ${code} to the catalog`, { icd10CodeId: created.id, code }, transaction);
+  return { success: true, status: 201, data: toIcd10CodeView(created) };
+};
+
+/**
+ * Edit a catalog entry. The code is immutable: recorded conditions refer to it.
+ */
+export const updateCode = async (id: string, input: Icd10CodeInput, userId: string, transaction: Transaction): Promise<CatalogResult> => {
+  const entry = await Icd10Code.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+  if (!entry) return { success: false, status: 404, message: 'Code not found' };
+  if (input.code !== undefined && normalizeCode(input.code) !== entry.code) {
+    return { success: false, status: 400, message: 'The code of a catalog entry cannot be changed' };
+  }
+
+  const changes: any = {};
+  if (input.label !== undefined) {
+    const label = typeof input.label === 'string' ? input.label.trim() : '';
+    if (!label || label.length > 255) return { success: false, status: 400, message: 'label is required (at most 255 characters)' };
+    changes.label = label;
+  }
+  if (input.synonyms !== undefined) {
+    const synonyms = normalizeSynonyms(input.synonyms, changes.label ?? entry.label);
+    if (!synonyms.success) return synonyms;
+    changes.synonyms = synonyms.data;
+  }
+  if (input.category !== undefined) {
+    if (!isConditionCategory(input.category)) return { success: false, status: 400, message: 'Unknown category' };
+    changes.category = input.category;
+  }
+  if (input.isActive !== undefined) {
+    if (typeof input.isActive !== 'boolean') return { success: false, status: 400, message: 'isActive must be a boolean' };
+    changes.isActive = input.isActive;
+  }
+
+  await entry.update(changes, { transaction });
+  await writeAudit(userId, 'ICD10_CODE_UPDATE', `Updated ICD-10 code ${entry.code}`, { icd10CodeId: entry.id, code: entry.code, changedFields: Object.keys(changes) }, transaction);
+  return { success: true, status: 200, data: toIcd10CodeView(entry) };
+};
+
+/**
+ * Catalog entries of the given codes, keyed by code
+ */
+export const findCodes = async (codes: string[], transaction?: Transaction) => {
+  const normalized = Array.from(new Set(codes.map(normalizeCode).filter(Boolean)));
+  if (!normalized.length) return new Map<string, Icd10Code>();
+  const entries = await Icd10Code.findAll({ where: { code: normalized }, transaction });
+  return new Map(entries.map(e => [e.code, e]));
+};
+
+/**
+ * Seed an empty catalog and take over the condition codes kept in beneficiary details. Codes sharing
+ * a label in the old constant become one entry with the other labels as synonyms; legacy codes that
+ * are not in the constant get an entry labelled with the code, unparseable ones map to 'OTHER'.
+ */
+export const ensureIcd10Catalog = async () => {
+  const existing = await Icd10Code.count();
+  if (existing > 0) return;
+
+  await sequelize.transaction(async (transaction) => {
+    const byCode = new Map<string, { label: string; synonyms: string[] }>();
+    for (const { code, label } of Object.values(CHRONIC_CONDITIONS)) {
+      const key = normalizeCode(code);
+      const entry = byCode.get(key);
+      if (entry) entry.synonyms.push(label);
+      else byCode.set(key, { label, synonyms: [] });
+    }
+    if (!byCode.has(UNSPECIFIED_CONDITION_CODE)) byCode.set(UNSPECIFIED_CONDITION_CODE, { label: 'Other / not coded', synonyms: [] });
+
+    const details = await BeneficiaryDetails.findAll({ attributes: ['beneficiaryId', 'details'], transaction });
+    const legacy = details
+      .map(d => ({
+        beneficiaryId: d.beneficiaryId,
+        codes: Array.isArray((d.details as any)?.chronicConditionCodes)
+          ? ((d.details as any).chronicConditionCodes as any[]).map(c => {
+              const code = normalizeCode(c);
+              return isIcd10Code(code) ? code : UNSPECIFIED_CONDITION_CODE;
+            })
+          : [],
+      }))
+      .filter(d => d.codes.length);
+    for (const { codes } of legacy) {
+      for (const code of codes) if (!byCode.has(code)) byCode.set(code, { label: code, synonyms: [] });
+    }
+
+    const entries = await Icd10Code.bulkCreate(Array.from(byCode.entries()).map(([code, { label, synonyms }]) => ({
+      id: uuidv4(),
+      code,
+      label,
+      synonyms,
+      category: categoryOf(code),
+      isActive: true,
+    })), { transaction });
+    const idOf = new Map(entries.map(e => [e.code, e.id]));
+
+    const records = legacy.flatMap(({ beneficiaryId, codes }) =>
+      Array.from(new Set(codes)).map(code => ({
+        id: uuidv4(),
+        beneficiaryId,
+        icd10CodeId: idOf.get(code)!,
+        status: 'active',
+        recordedBy: null,
+      }))
+    );
+    if (records.length) await BeneficiaryCondition.bulkCreate(records, { transaction });
+    logger.info('Seeded ICD-10 catalog', { codes: entries.length, conditions: records.length });
+  });
+};
+
+export default {
+  categoryOf,
+  searchCodes,
+  createCode,
+  updateCode,
+  findCodes,
+  ensureIcd10Catalog,
+};
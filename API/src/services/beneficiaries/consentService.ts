@@ -0,0 +1,318 @@
+/**
+ * Beneficiary consent: recording and withdrawing consents, and checking which purposes a
+ * beneficiary consented to before their personal data is decrypted or shared.
+ *
+ * Enforcement is opt-in with CONSENT_ENFORCEMENT=enforce, so that consents for existing beneficiaries can
+ * be collected before their PII is withheld; until then every purpose is treated as consented.
+ */
+
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditLog, Beneficiary, BeneficiaryConsent, BeneficiaryMapping, FormResponseAttachment } from '../../models';
+import { CONSENT_PURPOSES, ConsentPurpose, ConsentSource } from '../../constants/consents';
+
+export type ConsentResult<T = any> = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: T;
+};
+
+export type ConsentInput = {
+  purpose: string;
+  consentVersion: string;
+  givenAt?: string | Date | null;
+  signatureAttachmentId?: string | null;
+  formResponseId?: string | null;
+  granted?: boolean; // false records a refusal: active consents for the purpose are withdrawn
+};
+
+export type ConsentOptions = {
+  userId: string;
+  transaction: Transaction;
+  source: ConsentSource;
+};
+
+/**
+ * Consent section of a BeneficiaryMapping (`mapping.consent`): paths into the form data
+ */
+export type ConsentMappingConfig = {
+  version: string; // version of the consent text shown on the form
+  purposes: Partial<Record<ConsentPurpose, string>>; // answer per purpose
+  signature?: string; // Signature/Photo answer holding the attachment id
+};
+
+const YES_ANSWERS = new Set(['true', 'yes', 'y', '1', 'po', 'da']);
+const NO_ANSWERS = new Set(['false', 'no', 'n', '0', 'jo', 'ne']);
+
+export const isConsentEnforced = () => (process.env.CONSENT_ENFORCEMENT || '').toLowerCase() === 'enforce';
+
+export const isConsentPurpose = (value: any): value is ConsentPurpose =>
+  (CONSENT_PURPOSES as readonly string[]).includes(value);
+
+const getByPath = (obj: any, path?: string): any => {
+  if (!obj || !path) return undefined;
+  return path.split('.').reduce((cur, p) => (cur == null ? undefined : cur[p]), obj);
+};
+
+/** Interpret a consent answer: true (given), false (refused) or undefined (not answered) */
+export const parseConsentAnswer = (value: any): boolean | undefined => {
+  if (value === true || value === false) return value;
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim().toLowerCase();
+  if (YES_ANSWERS.has(text)) return true;
+  if (NO_ANSWERS.has(text)) return false;
+  return undefined;
+};
+
+const writeAudit = (userId: string, action: string, description: string, details: any, transaction: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(details),
+    timestamp: new Date(),
+  }, { transaction });
+
+/**
+ * Purposes each beneficiary currently consents to (consents that were not withdrawn)
+ */
+export const getConsentedPurposes = async (
+  beneficiaryIds: string[],
+  transaction?: Transaction
+): Promise<Map<string, Set<ConsentPurpose>>> => {
+  const ids = Array.from(new Set(beneficiaryIds.filter(Boolean)));
+  const result = new Map<string, Set<ConsentPurpose>>(ids.map(id => [id, new Set<ConsentPurpose>()]));
+  if (!ids.length) return result;
+
+  if (!isConsentEnforced()) {
+    for (const id of ids) result.set(id, new Set(CONSENT_PURPOSES));
+    return result;
+  }
+
+  const consents = await BeneficiaryConsent.findAll({
+    where: { beneficiaryId: { [Op.in]: ids }, withdrawnAt: null },
+    attributes: ['beneficiaryId', 'purpose'],
+    transaction,
+  });
+  for (const consent of consents) result.get(consent.beneficiaryId)?.add(consent.purpose);
+  return result;
+};
+
+export const hasConsent = async (beneficiaryId: string, purpose: ConsentPurpose, transaction?: Transaction) =>
+  (await getConsentedPurposes([beneficiaryId], transaction)).get(beneficiaryId)?.has(purpose) ?? false;
+
+/**
+ * Strip PII (decrypted and encrypted) from beneficiary list items whose beneficiary did not consent
+ * to `purpose`. Redacted items carry `consentRequired`. Returns the number of redacted items.
+ */
+export const redactItemsWithoutConsent = async (
+  items: Array<{ id: string; pii?: any; piiEnc?: any; [key: string]: any }>,
+  purpose: ConsentPurpose = 'data_collection',
+  transaction?: Transaction
+): Promise<number> => {
+  const consented = await getConsentedPurposes(items.map(item => String(item.id)), transaction);
+  let redacted = 0;
+  for (const item of items) {
+    if (consented.get(String(item.id))?.has(purpose)) continue;
+    delete item.pii;
+    if ('piiEnc' in item) item.piiEnc = null;
+    item.consentRequired = purpose;
+    redacted++;
+  }
+  return redacted;
+};
+
+export const listConsents = (beneficiaryId: string, transaction?: Transaction) =>
+  BeneficiaryConsent.findAll({
+    where: { beneficiaryId },
+    order: [['givenAt', 'DESC']],
+    transaction,
+  });
+
+const withdrawActive = async (
+  beneficiaryId: string,
+  where: any,
+  reason: string | null,
+  userId: string,
+  transaction: Transaction
+): Promise<BeneficiaryConsent[]> => {
+  const active = await BeneficiaryConsent.findAll({ where: { beneficiaryId, withdrawnAt: null, ...where }, transaction });
+  const now = new Date();
+  for (const consent of active) {
+    await consent.update({ withdrawnAt: now, withdrawnBy: userId, withdrawalReason: reason }, { transaction });
+  }
+  if (active.length) {
+    await writeAudit(userId, 'BENEFICIARY_CONSENT_WITHDRAW', `Withdrew ${active.length} consent(s) of a beneficiary`, {
+      beneficiaryId,
+      consentIds: active.map(c => c.id),
+      purposes: Array.from(new Set(active.map(c => c.purpose))),
+      reason,
+    }, transaction);
+  }
+  return active;
+};
+
+/**
+ * A signature must be an attachment of the consent's own form response, or an upload of the
+ * collector not yet linked to a response. Returns the validation error, if any.
+ */
+const checkSignatureAttachment = async (
+  attachmentId: string,
+  formResponseId: string | null,
+  userId: string,
+  transaction: Transaction
+): Promise<string | null> => {
+  const attachment = await FormResponseAttachment.findByPk(attachmentId, {
+    attributes: ['id', 'formResponseId', 'uploadedBy'],
+    transaction,
+  });
+  if (!attachment) return 'Signature attachment not found';
+  const onResponse = !!formResponseId && attachment.formResponseId === formResponseId;
+  const ownUpload = attachment.formResponseId == null && String(attachment.uploadedBy) === String(userId);
+  if (!onResponse && !ownUpload) return 'Signature attachment does not belong to this consent';
+  return null;
+};
+
+/**
+ * Record a consent (or a refusal when `granted` is false). Recording the same purpose and
+ * consent text version again returns the consent already in force.
+ */
+export const recordConsent = async (
+  beneficiaryId: string,
+  input: ConsentInput,
+  opts: ConsentOptions
+): Promise<ConsentResult> => {
+  const { userId, transaction, source } = opts;
+  if (!isConsentPurpose(input?.purpose)) {
+    return { success: false, status: 400, message: `purpose must be one of: ${CONSENT_PURPOSES.join(', ')}` };
+  }
+  const consentVersion = String(input.consentVersion ?? '').trim();
+  if (!consentVersion || consentVersion.length > 32) {
+    return { success: false, status: 400, message: 'consentVersion is required (max 32 characters)' };
+  }
+  const givenAt = input.givenAt ? new Date(input.givenAt) : new Date();
+  if (Number.isNaN(givenAt.getTime())) {
+    return { success: false, status: 400, message: 'givenAt must be a valid date' };
+  }
+
+  const beneficiary = await Beneficiary.findByPk(beneficiaryId, { attributes: ['id', 'pseudonym', 'erasedAt'], transaction });
+  if (!beneficiary) return { success: false, status: 404, message: 'Beneficiary not found' };
+  if (beneficiary.erasedAt) return { success: false, status: 409, message: 'Beneficiary data has been erased' };
+
+  if (input.granted === false) {
+    const withdrawn = await withdrawActive(beneficiaryId, { purpose: input.purpose }, 'Refused', userId, transaction);
+    return { success: true, status: 200, data: { withdrawn } };
+  }
+
+  if (input.signatureAttachmentId) {
+    const error = await checkSignatureAttachment(input.signatureAttachmentId, input.formResponseId ?? null, userId, transaction);
+    if (error) return { success: false, status: 400, message: error };
+  }
+
+  const existing = await BeneficiaryConsent.findOne({
+    where: { beneficiaryId, purpose: input.purpose, consentVersion, withdrawnAt: null },
+    transaction,
+  });
+  if (existing) return { success: true, status: 200, data: existing };
+
+  const consent = await BeneficiaryConsent.create({
+    id: uuidv4(),
+    beneficiaryId,
+    purpose: input.purpose,
+    consentVersion,
+    givenAt,
+    collectedBy: userId,
+    source,
+    formResponseId: input.formResponseId ?? null,
+    signatureAttachmentId: input.signatureAttachmentId ?? null,
+  }, { transaction });
+
+  await writeAudit(userId, 'BENEFICIARY_CONSENT_RECORD', `Recorded ${input.purpose} consent of beneficiary '${beneficiary.pseudonym}'`, {
+    beneficiaryId, consentId: consent.id, purpose: input.purpose, consentVersion, source,
+  }, transaction);
+
+  return { success: true, status: 201, data: consent };
+};
+
+export const withdrawConsent = async (
+  beneficiaryId: string,
+  consentId: string,
+  reason: string | null,
+  userId: string,
+  transaction: Transaction
+): Promise<ConsentResult> => {
+  const consent = await BeneficiaryConsent.findOne({ where: { id: consentId, beneficiaryId }, transaction });
+  if (!consent) return { success: false, status: 404, message: 'Consent not found' };
+  if (consent.withdrawnAt) return { success: false, status: 409, message: 'Consent was already withdrawn' };
+
+  await withdrawActive(beneficiaryId, { id: consentId }, reason, userId, transaction);
+  return { success: true, status: 200, data: consent };
+};
+
+/**
+ * Check the signature answered on a form before its consents are recorded, so that a bad
+ * reference is reported as a validation error. Returns the error, if any.
+ */
+export const validateFormConsentSignature = async (
+  formTemplateId: string,
+  data: any,
+  opts: { userId: string; transaction: Transaction; formResponseId?: string | null }
+): Promise<string | null> => {
+  const mapping = await BeneficiaryMapping.findOne({ where: { formTemplateId }, transaction: opts.transaction });
+  const config: ConsentMappingConfig | undefined = mapping?.mapping?.consent;
+  if (!config || !config.purposes) return null;
+
+  const signature = getByPath(data, config.signature);
+  const granted = Object.entries(config.purposes)
+    .some(([purpose, path]) => isConsentPurpose(purpose) && parseConsentAnswer(getByPath(data, path)) === true);
+  if (!granted || typeof signature !== 'string') return null;
+  return checkSignatureAttachment(signature, opts.formResponseId ?? null, opts.userId, opts.transaction);
+};
+
+/**
+ * Record the consents answered on a form, using the `consent` section of the template's
+ * beneficiary mapping. Returns the number of purposes given or refused.
+ */
+export const recordConsentsFromForm = async (
+  formTemplateId: string,
+  beneficiaryId: string,
+  data: any,
+  opts: ConsentOptions & { formResponseId?: string | null; givenAt?: string | Date | null }
+): Promise<number> => {
+  const mapping = await BeneficiaryMapping.findOne({ where: { formTemplateId }, transaction: opts.transaction });
+  const config: ConsentMappingConfig | undefined = mapping?.mapping?.consent;
+  if (!config || !config.purposes) return 0;
+
+  const signature = getByPath(data, config.signature);
+  let recorded = 0;
+  for (const [purpose, path] of Object.entries(config.purposes)) {
+    const granted = parseConsentAnswer(getByPath(data, path));
+    if (granted === undefined || !isConsentPurpose(purpose)) continue;
+
+    const result = await recordConsent(beneficiaryId, {
+      purpose,
+      consentVersion: String(config.version),
+      givenAt: opts.givenAt ?? null,
+      signatureAttachmentId: granted && typeof signature === 'string' ? signature : null,
+      formResponseId: opts.formResponseId ?? null,
+      granted,
+    }, opts);
+    if (!result.success) throw new Error(`Consent for ${purpose} could not be recorded: ${result.message}`);
+    recorded++;
+  }
+  return recorded;
+};
+
+export default {
+  isConsentEnforced,
+  getConsentedPurposes,
+  hasConsent,
+  redactItemsWithoutConsent,
+  listConsents,
+  recordConsent,
+  withdrawConsent,
+  validateFormConsentSignature,
+  recordConsentsFromForm,
+};
@@ -0,0 +1,517 @@
+/**
+ * Data subject requests for beneficiaries: a complete decrypted dossier (access), a log of PII
+ * corrections (rectification) and erasure.
+ *
+ * Erasure crypto-shreds the beneficiary: every PII ciphertext, match key and search token is
+ * destroyed, mapped PII answers are removed from linked form responses and their attachment files
+ * are deleted. Consent records are kept as evidence, withdrawn and without their signatures.
+ * Case notes, follow-up tasks and sync conflicts (copies of offline PII edits) are deleted outright; referrals
+ * are kept for completion statistics, without their notes, and so are coded health conditions (like the
+ * condition codes retained in the details) without their clinical notes. Merge snapshots lose the details and
+ * clinical notes they copied, and merge audit entries keep only counts.
+ * There is no per-record key, so "shredding" means the ciphertexts themselves are gone;
+ * copies in database backups remain until those backups expire. The Beneficiary row, its pseudonym,
+ * assignments, service deliveries and (stripped) form responses are kept, so pseudonymised
+ * statistics and KPIs stay intact.
+ */
+
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AuditLog,
+  Beneficiary,
+  BeneficiaryAssignment,
+  BeneficiaryAssignmentStatusChange,
+  BeneficiaryCaseNote,
+  BeneficiaryCondition,
+  BeneficiaryConsent,
+  BeneficiaryDetails,
+  BeneficiaryDuplicateCandidate,
+  BeneficiaryFollowUpTask,
+  BeneficiaryMapping,
+  BeneficiaryMatchKey,
+  BeneficiaryMerge,
+  BeneficiaryReferral,
+  BeneficiarySearchToken,
+  DataSubjectRequest,
+  FormResponse,
+  FormResponseAttachment,
+  FormTemplate,
+  Household,
+  HouseholdMember,
+  Service,
+  ServiceDelivery,
+  SyncConflict,
+} from '../../models';
+import { DataSubjectRequestType } from '../../constants/dataSubjectRequests';
+import beneficiariesService from './beneficiariesService';
+import { ENCRYPTED_BENEFICIARY_FIELDS } from './keyRotationService';
+import { toCaseNoteView, toFollowUpTaskView } from './caseManagementService';
+import { listConditions } from './healthProfileService';
+import { toReferralView } from './referralService';
+import { MergeChanges, countMergeChanges } from './mergeService';
+import { getStorage } from '../storage';
+import { decryptField } from '../../utils/crypto';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('data-subject-service');
+
+export type DataSubjectResult<T = any> = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: T;
+};
+
+export type DataSubjectRequestInfo = {
+  reference?: string | null; // external request/ticket reference
+  reason?: string | null;
+};
+
+/** Beneficiary input fields that can be rectified (plaintext name -> encrypted column) */
+export const RECTIFIABLE_FIELDS: Record<string, typeof ENCRYPTED_BENEFICIARY_FIELDS[number]> = {
+  firstName: 'firstNameEnc',
+  lastName: 'lastNameEnc',
+  dob: 'dobEnc',
+  nationalId: 'nationalIdEnc',
+  phone: 'phoneEnc',
+  email: 'emailEnc',
+  address: 'addressEnc',
+  gender: 'genderEnc',
+  municipality: 'municipalityEnc',
+  nationality: 'nationalityEnc',
+  ethnicity: 'ethnicityEnc',
+  residence: 'residenceEnc',
+  householdMembers: 'householdMembersEnc',
+};
+
+/** Extended detail keys kept on erasure: coded, non-identifying data used in statistics */
+export const RETAINED_DETAIL_KEYS = ['chronicConditionCodes'];
+
+const retainedDetails = (details: any) =>
+  Object.fromEntries(Object.entries(details || {}).filter(([key]) => RETAINED_DETAIL_KEYS.includes(key)));
+
+const writeAudit = (userId: string, action: string, description: string, details: any, transaction: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(details),
+    timestamp: new Date(),
+  }, { transaction });
+
+const recordRequest = (
+  beneficiaryId: string,
+  type: DataSubjectRequestType,
+  info: DataSubjectRequestInfo,
+  details: any,
+  userId: string,
+  transaction: Transaction
+) =>
+  DataSubjectRequest.create({
+    id: uuidv4(),
+    beneficiaryId,
+    type,
+    reference: info.reference ?? null,
+    reason: info.reason ?? null,
+    details,
+    processedBy: userId,
+    processedAt: new Date(),
+  }, { transaction });
+
+export const decryptBeneficiaryPii = (b: Beneficiary) =>
+  Object.fromEntries(
+    Object.entries(RECTIFIABLE_FIELDS).map(([name, column]) => [name, decryptField(b.get(column) as any)])
+  ) as Record<string, string | null>;
+
+/**
+ * Remove a dotted path from a JSON object. Returns true when something was removed.
+ */
+export const removeByPath = (obj: any, path?: string): boolean => {
+  if (!obj || typeof obj !== 'object' || !path) return false;
+  const parts = path.split('.');
+  const last = parts.pop() as string;
+  const parent = parts.reduce((cur, p) => (cur == null ? undefined : cur[p]), obj);
+  if (!parent || typeof parent !== 'object' || !(last in parent)) return false;
+  delete parent[last];
+  return true;
+};
+
+/**
+ * Paths of the answers a BeneficiaryMapping extracts PII from (`fields` plus household address paths)
+ */
+export const mappedPiiPaths = (mapping: any): string[] => {
+  const paths = Object.values(mapping?.fields || {}).filter((p): p is string => typeof p === 'string' && !!p);
+  const household = mapping?.household;
+  if (household && typeof household === 'object') {
+    for (const key of ['address', 'municipality']) {
+      if (typeof household[key] === 'string' && household[key]) paths.push(household[key]);
+    }
+  }
+  return Array.from(new Set(paths));
+};
+
+/**
+ * Everything held about a beneficiary, decrypted
+ */
+export const buildBeneficiaryDossier = async (beneficiaryId: string, transaction?: Transaction) => {
+  const beneficiary = await Beneficiary.findByPk(beneficiaryId, { transaction });
+  if (!beneficiary) return null;
+
+  const [
+    details, membership, assignments, formResponses, serviceDeliveries, merges, consents, caseNotes, followUpTasks, referrals, conditions,
+    requests, auditEvents,
+  ] = await Promise.all([
+    BeneficiaryDetails.findOne({ where: { beneficiaryId }, transaction }),
+    HouseholdMember.findOne({
+      where: { beneficiaryId },
+      include: [{ model: Household, as: 'household' }],
+      transaction,
+    }),
+    BeneficiaryAssignment.findAll({
+      where: { beneficiaryId },
+      include: [{ model: BeneficiaryAssignmentStatusChange, as: 'statusChanges' }],
+      order: [['createdAt', 'ASC']],
+      transaction,
+    }),
+    FormResponse.findAll({
+      where: { beneficiaryId },
+      include: [
+        { model: FormTemplate, as: 'template', attributes: ['id', 'name'] },
+        { model: FormResponseAttachment, as: 'attachments', attributes: ['id', 'fieldName', 'originalName', 'mimeType', 'sizeBytes', 'createdAt'] },
+      ],
+      order: [['submittedAt', 'ASC']],
+      transaction,
+    }),
+    ServiceDelivery.findAll({
+      where: { beneficiaryId },
+      include: [{ model: Service, as: 'service', attributes: ['id', 'name'] }],
+      order: [['deliveredAt', 'ASC']],
+      transaction,
+    }),
+    BeneficiaryMerge.findAll({
+      where: { [Op.or]: [{ survivorId: beneficiaryId }, { mergedId: beneficiaryId }] },
+      attributes: ['id', 'survivorId', 'mergedId', 'status', 'mergedAt', 'undoneAt'],
+      order: [['mergedAt', 'ASC']],
+      transaction,
+    }),
+    BeneficiaryConsent.findAll({ where: { beneficiaryId }, order: [['givenAt', 'ASC']], transaction }),
+    BeneficiaryCaseNote.findAll({ where: { beneficiaryId }, order: [['createdAt', 'ASC']], transaction }),
+    BeneficiaryFollowUpTask.findAll({ where: { beneficiaryId }, order: [['createdAt', 'ASC']], transaction }),
+    BeneficiaryReferral.findAll({ where: { beneficiaryId }, order: [['sentAt', 'ASC']], transaction }),
+    listConditions(beneficiaryId, {}, transaction),
+    DataSubjectRequest.findAll({ where: { beneficiaryId }, order: [['processedAt', 'ASC']], transaction }),
+    // Audit details are JSON text; every beneficiary-related entry records the beneficiary id
+    AuditLog.findAll({
+      where: { details: { [Op.like]: `%${beneficiaryId}%` } },
+      attributes: ['id', 'userId', 'action', 'description', 'timestamp'],
+      order: [['timestamp', 'ASC']],
+      transaction,
+    }),
+  ]);
+
+  const household = membership?.get('household') as Household | undefined;
+
+  return {
+    beneficiary: {
+      id: beneficiary.id,
+      pseudonym: beneficiary.pseudonym,
+      status: beneficiary.status,
+      isArchived: beneficiary.isArchived,
+      archivedAt: beneficiary.archivedAt,
+      mergedIntoId: beneficiary.mergedIntoId ?? null,
+      erasedAt: beneficiary.erasedAt ?? null,
+      createdAt: beneficiary.get('createdAt'),
+      updatedAt: beneficiary.get('updatedAt'),
+    },
+    pii: decryptBeneficiaryPii(beneficiary),
+    details: details?.details ?? null,
+    household: membership && household ? {
+      id: household.id,
+      code: household.code,
+      relationship: membership.relationship,
+      joinedAt: membership.joinedAt,
+      address: decryptField(household.addressEnc),
+      municipality: decryptField(household.municipalityEnc),
+    } : null,
+    assignments: assignments.map(a => ({
+      id: a.id,
+      entityId: a.entityId,
+      entityType: a.entityType,
+      createdAt: a.createdAt,
+    })),
+    formResponses: formResponses.map(r => {
+      const template = r.get('template') as FormTemplate | undefined;
+      return {
+        id: r.id,
+        formTemplateId: r.formTemplateId,
+        formTemplateName: template?.name ?? null,
+        formTemplateVersion: r.formTemplateVersion ?? null,
+        entityId: r.entityId,
+        entityType: r.entityType,
+        status: r.status,
+        submittedAt: r.submittedAt,
+        latitude: r.latitude ?? null,
+        longitude: r.longitude ?? null,
+        data: r.data,
+        attachments: r.get('attachments') || [],
+      };
+    }),
+    serviceDeliveries: serviceDeliveries.map(d => {
+      const service = d.get('service') as Service | undefined;
+      return {
+        id: d.id,
+        serviceId: d.serviceId,
+        serviceName: service?.name ?? null,
+        householdId: d.householdId ?? null,
+        entityId: d.entityId,
+        entityType: d.entityType,
+        deliveredAt: d.deliveredAt,
+        notes: d.notes ?? null,
+      };
+    }),
+    merges,
+    consents,
+    caseNotes: caseNotes.map(toCaseNoteView),
+    followUpTasks: followUpTasks.map(t => toFollowUpTaskView(t)),
+    referrals: referrals.map(toReferralView),
+    conditions,
+    dataSubjectRequests: requests,
+    auditEvents,
+    generatedAt: new Date(),
+  };
+};
+
+/**
+ * Access request: build the dossier and record that it was handed out
+ */
+export const exportBeneficiaryDossier = async (
+  beneficiaryId: string,
+  info: DataSubjectRequestInfo,
+  userId: string,
+  transaction: Transaction
+): Promise<DataSubjectResult> => {
+  const dossier = await buildBeneficiaryDossier(beneficiaryId, transaction);
+  if (!dossier) return { success: false, status: 404, message: 'Beneficiary not found' };
+
+  const counts = {
+    formResponses: dossier.formResponses.length,
+    serviceDeliveries: dossier.serviceDeliveries.length,
+    assignments: dossier.assignments.length,
+    caseNotes: dossier.caseNotes.length,
+    followUpTasks: dossier.followUpTasks.length,
+    referrals: dossier.referrals.length,
+    conditions: dossier.conditions.length,
+    auditEvents: dossier.auditEvents.length,
+  };
+  const request = await recordRequest(beneficiaryId, 'access', info, { counts }, userId, transaction);
+  await writeAudit(userId, 'BENEFICIARY_DOSSIER_EXPORT', `Exported data subject dossier of beneficiary '${dossier.beneficiary.pseudonym}'`, {
+    beneficiaryId, requestId: request.id, reference: info.reference ?? null, counts,
+  }, transaction);
+
+  return { success: true, status: 200, data: { ...dossier, requestId: request.id } };
+};
+
+/**
+ * Rectification request: correct PII and log which fields changed (names only, never values)
+ */
+export const rectifyBeneficiary = async (
+  beneficiaryId: string,
+  input: Record<string, any>,
+  info: DataSubjectRequestInfo,
+  userId: string,
+  transaction: Transaction
+): Promise<DataSubjectResult> => {
+  const beneficiary = await Beneficiary.findByPk(beneficiaryId, { transaction, lock: transaction.LOCK.UPDATE });
+  if (!beneficiary) return { success: false, status: 404, message: 'Beneficiary not found' };
+  if (beneficiary.erasedAt) return { success: false, status: 409, message: 'Beneficiary data has been erased' };
+
+  const supplied = Object.keys(input || {}).filter(name => name in RECTIFIABLE_FIELDS && input[name] !== undefined);
+  if (!supplied.length) {
+    return { success: false, status: 400, message: `Provide at least one of: ${Object.keys(RECTIFIABLE_FIELDS).join(', ')}` };
+  }
+
+  const before = decryptBeneficiaryPii(beneficiary);
+  const changes = Object.fromEntries(supplied.map(name => [name, input[name]]));
+  const safe = await beneficiariesService.updateBeneficiary(beneficiaryId, changes as any, { transaction, userId });
+  if (!safe) return { success: false, status: 404, message: 'Beneficiary not found' };
+
+  const after = decryptBeneficiaryPii(await beneficiary.reload({ transaction }));
+  const changedFields = supplied.filter(name => before[name] !== after[name]);
+
+  const request = await recordRequest(beneficiaryId, 'rectification', info, { changedFields }, userId, transaction);
+  await writeAudit(userId, 'BENEFICIARY_RECTIFY', `Rectified PII of beneficiary '${beneficiary.pseudonym}'`, {
+    beneficiaryId, requestId: request.id, reference: info.reference ?? null, changedFields,
+  }, transaction);
+
+  return { success: true, status: 200, data: { ...safe, changedFields, requestId: request.id } };
+};
+
+/**
+ * Erasure request: crypto-shred the beneficiary's PII while keeping the pseudonymous record.
+ * Attachment files are removed from storage once the transaction commits.
+ */
+export const eraseBeneficiary = async (
+  beneficiaryId: string,
+  info: DataSubjectRequestInfo,
+  userId: string,
+  transaction: Transaction
+): Promise<DataSubjectResult> => {
+  const beneficiary = await Beneficiary.findByPk(beneficiaryId, { transaction, lock: transaction.LOCK.UPDATE });
+  if (!beneficiary) return { success: false, status: 404, message: 'Beneficiary not found' };
+  if (beneficiary.erasedAt) return { success: false, status: 409, message: 'Beneficiary data has already been erased' };
+
+  const now = new Date();
+  const update: any = { status: 'inactive', isArchived: true, archivedAt: beneficiary.archivedAt ?? now, erasedAt: now };
+  for (const field of ENCRYPTED_BENEFICIARY_FIELDS) update[field] = null;
+  await beneficiary.update(update, { transaction });
+
+  const matchKeys = await BeneficiaryMatchKey.destroy({ where: { beneficiaryId }, transaction });
+  const searchTokens = await BeneficiarySearchToken.destroy({ where: { beneficiaryId }, transaction });
+  const duplicateCandidates = await BeneficiaryDuplicateCandidate.destroy({
+    where: {
+      status: 'pending',
+      [Op.or]: [{ beneficiaryAId: beneficiaryId }, { beneficiaryBId: beneficiaryId }],
+    },
+    transaction,
+  });
+
+  // Extended details: keep only coded, non-identifying keys
+  const details = await BeneficiaryDetails.findOne({ where: { beneficiaryId }, transaction });
+  if (details) {
+    await details.update({ details: retainedDetails(details.details) }, { transaction });
+  }
+
+  // Merge snapshots (undo is refused once erased) keep their ids but not the details and notes they copied
+  const merges = await BeneficiaryMerge.findAll({
+    where: { [Op.or]: [{ survivorId: beneficiaryId }, { mergedId: beneficiaryId }] },
+    transaction,
+  });
+  for (const merge of merges) {
+    const snapshot: MergeChanges = merge.changes;
+    await merge.update({
+      changes: {
+        ...snapshot,
+        survivorDetails: snapshot.survivorDetails ? retainedDetails(snapshot.survivorDetails) : null,
+        droppedConditions: (snapshot.droppedConditions || []).map(condition => ({ ...condition, notesEnc: null })),
+        droppedStatusChanges: (snapshot.droppedStatusChanges || []).map(change => ({ ...change, note: null })),
+      },
+    }, { transaction });
+
+    // Merge audit entries written before they were reduced to counts carry the whole snapshot
+    const audits = await AuditLog.findAll({
+      where: { action: 'BENEFICIARY_MERGE', details: { [Op.like]: `%"mergeId":"${merge.id}"%` } },
+      transaction,
+    });
+    for (const audit of audits) {
+      const { changes, ...rest } = JSON.parse(audit.details || '{}');
+      if (changes) await audit.update({ details: JSON.stringify({ ...rest, counts: countMergeChanges(changes) }) }, { transaction });
+    }
+  }
+
+  // The membership stays (households reached); a household with no other member loses its address
+  const membership = await HouseholdMember.findOne({ where: { beneficiaryId }, transaction });
+  let householdAddressErased = false;
+  if (membership) {
+    const others = await HouseholdMember.count({
+      where: { householdId: membership.householdId, beneficiaryId: { [Op.ne]: beneficiaryId } },
+      transaction,
+    });
+    if (!others) {
+      await Household.update({ addressEnc: null, municipalityEnc: null }, { where: { id: membership.householdId }, transaction });
+      householdAddressErased = true;
+    }
+  }
+
+  // Linked form responses: strip the answers the beneficiary mapping took PII from, drop attachments
+  const responses = await FormResponse.findAll({ where: { beneficiaryId }, transaction });
+  const templateIds = Array.from(new Set(responses.map(r => r.formTemplateId)));
+  const mappings = templateIds.length
+    ? await BeneficiaryMapping.findAll({ where: { formTemplateId: templateIds }, transaction })
+    : [];
+  const pathsByTemplate = new Map(mappings.map(m => [m.formTemplateId, mappedPiiPaths(m.mapping)]));
+
+  let strippedResponses = 0;
+  for (const response of responses) {
+    const paths = pathsByTemplate.get(response.formTemplateId) || [];
+    if (!paths.length || !response.data) continue;
+    const data = JSON.parse(JSON.stringify(response.data));
+    const removed = paths.filter(path => removeByPath(data, path)).length;
+    if (removed) {
+      await response.update({ data }, { transaction });
+      strippedResponses++;
+    }
+  }
+
+  // Consent records stay as evidence, withdrawn and without their signature files
+  const consents = await BeneficiaryConsent.findAll({ where: { beneficiaryId }, transaction });
+  const signatureIds = consents.map(c => c.signatureAttachmentId).filter(Boolean) as string[];
+  for (const consent of consents) {
+    const withdrawal = consent.withdrawnAt ? {} : { withdrawnAt: now, withdrawnBy: userId, withdrawalReason: 'Erasure' };
+    await consent.update({ signatureAttachmentId: null, ...withdrawal }, { transaction });
+  }
+
+  const caseNotes = await BeneficiaryCaseNote.destroy({ where: { beneficiaryId }, transaction });
+  const followUpTasks = await BeneficiaryFollowUpTask.destroy({ where: { beneficiaryId }, transaction });
+  const [referrals] = await BeneficiaryReferral.update(
+    { notesEnc: null, declineReasonEnc: null },
+    { where: { beneficiaryId }, transaction }
+  );
+  const [conditions] = await BeneficiaryCondition.update({ notesEnc: null }, { where: { beneficiaryId }, transaction });
+  const syncConflicts = await SyncConflict.destroy({ where: { beneficiaryId }, transaction });
+
+  const attachmentWhere: any[] = [];
+  if (responses.length) attachmentWhere.push({ formResponseId: responses.map(r => r.id) });
+  if (signatureIds.length) attachmentWhere.push({ id: signatureIds });
+  const attachments = attachmentWhere.length
+    ? await FormResponseAttachment.findAll({ where: { [Op.or]: attachmentWhere }, transaction })
+    : [];
+  if (attachments.length) {
+    await FormResponseAttachment.destroy({ where: { id: attachments.map(a => a.id) }, transaction });
+    const files = attachments.map(a => ({ driver: a.storageDriver, key: a.storageKey }));
+    transaction.afterCommit(async () => {
+      for (const file of files) {
+        try {
+          await getStorage(file.driver).delete(file.key);
+        } catch (error: any) {
+          logger.error('Error deleting erased attachment', { beneficiaryId, storageKey: file.key, error: error.message });
+        }
+      }
+    });
+  }
+
+  const counts = {
+    piiFields: ENCRYPTED_BENEFICIARY_FIELDS.length,
+    matchKeys,
+    searchTokens,
+    duplicateCandidates,
+    strippedResponses,
+    attachments: attachments.length,
+    consents: consents.length,
+    caseNotes,
+    followUpTasks,
+    referrals,
+    conditions,
+    syncConflicts,
+    mergeSnapshots: merges.length,
+    householdAddressErased,
+  };
+  const request = await recordRequest(beneficiaryId, 'erasure', info, { counts }, userId, transaction);
+  await writeAudit(userId, 'BENEFICIARY_ERASE', `Erased PII of beneficiary '${beneficiary.pseudonym}'`, {
+    beneficiaryId, requestId: request.id, reference: info.reference ?? null, counts,
+  }, transaction);
+
+  return {
+    success: true,
+    status: 200,
+    data: { id: beneficiary.id, pseudonym: beneficiary.pseudonym, erasedAt: now, counts, requestId: request.id },
+  };
+};
+
+export default {
+  buildBeneficiaryDossier,
+  exportBeneficiaryDossier,
+  rectifyBeneficiary,
+  eraseBeneficiary,
+};
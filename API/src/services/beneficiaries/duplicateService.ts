@@ -0,0 +1,313 @@
+/**
+ * Fuzzy duplicate detection for beneficiaries.
+ *
+ * Exact match keys only catch identical identifiers, so every beneficiary also gets blocking keys
+ * (phonetic name codes with birth year/date, and the phone number) stored as BeneficiaryMatchKey rows.
+ * Beneficiaries sharing a blocking key are compared field by field, and pairs scoring above
+ * DUPLICATE_SCORE_THRESHOLD are queued as BeneficiaryDuplicateCandidate rows for review.
+ */
+
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize from '../../db/connection';
+import { Beneficiary, BeneficiaryMatchKey, BeneficiaryDuplicateCandidate } from '../../models';
+import { decryptField, getActiveKeyIds, hmacSha256, normalizeDob, normalizeName, normalizePhone } from '../../utils/crypto';
+import { BLOCKING_KEY_TYPES } from '../../constants/matchKeys';
+
+/** Pairs scoring at least this are queued for review */
+export const DUPLICATE_SCORE_THRESHOLD = 0.8;
+
+/** Upper bound of records compared per beneficiary (very common blocking keys are not useful) */
+export const MAX_BLOCK_MATCHES = 200;
+
+const SCAN_BATCH_SIZE = 200;
+
+/** Plaintext fields used for matching */
+export type MatchFields = {
+  firstName?: string | null;
+  lastName?: string | null;
+  dob?: string | null;
+  nationalId?: string | null;
+  phone?: string | null;
+};
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+const toAsciiLetters = (value?: string | null) =>
+  (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * American Soundex code (e.g. 'Arben' and 'Arbenn' → 'A615'). Diacritics are stripped first.
+ */
+export const soundex = (value?: string | null): string => {
+  const letters = toAsciiLetters(value);
+  if (!letters) return '';
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] || '';
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const digit = SOUNDEX_CODES[letters[i]] || '';
+    if (digit && digit !== previous) code += digit;
+    // h and w do not separate letters with the same code
+    if (letters[i] !== 'h' && letters[i] !== 'w') previous = digit;
+  }
+  return code.padEnd(4, '0');
+};
+
+/**
+ * Jaro-Winkler similarity between 0 and 1
+ */
+export const jaroWinkler = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (!matches) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/** Last 8 digits, so +383 44 123 456 and 044 123 456 compare equal */
+const phoneTail = (phone?: string | null) => normalizePhone(phone).replace(/\D/g, '').slice(-8);
+
+/**
+ * Plaintext of each blocking key type (hashed before storage)
+ */
+export const buildBlockingKeyValues = (fields: MatchFields): Array<{ keyType: string; value: string }> => {
+  const first = soundex(fields.firstName);
+  const last = soundex(fields.lastName);
+  const dob = normalizeDob(fields.dob);
+  const phone = phoneTail(fields.phone);
+  const values: Array<{ keyType: string; value: string }> = [];
+  if (first && last && dob) values.push({ keyType: 'name-phonetic+yob', value: `${first}${last}|${dob.slice(0, 4)}` });
+  if (last && dob) values.push({ keyType: 'lastname-phonetic+dob', value: `${last}|${dob}` });
+  if (phone.length >= 6) values.push({ keyType: 'phone', value: phone });
+  return values;
+};
+
+const dobSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const [ya, ma, da] = a.split('-');
+  const [yb, mb, db] = b.split('-');
+  if (ya === yb && ma === db && da === mb) return 0.8; // day and month swapped
+  const differences = Array.from(a).filter((c, i) => c !== b[i]).length;
+  if (differences === 1) return 0.7; // single-digit typo
+  return ya === yb ? 0.3 : 0;
+};
+
+/**
+ * Similarity of two beneficiaries: weighted name (Jaro-Winkler, also with first/last swapped),
+ * date of birth and phone scores over the fields both records have.
+ * Equal national IDs make a pair a near-certain duplicate; different ones halve the score.
+ */
+export const scoreDuplicatePair = (a: MatchFields, b: MatchFields) => {
+  const nameA = `${normalizeName(a.firstName)} ${normalizeName(a.lastName)}`.trim();
+  const nameB = `${normalizeName(b.firstName)} ${normalizeName(b.lastName)}`.trim();
+  const swappedB = `${normalizeName(b.lastName)} ${normalizeName(b.firstName)}`.trim();
+  const dobA = normalizeDob(a.dob);
+  const dobB = normalizeDob(b.dob);
+  const phoneA = phoneTail(a.phone);
+  const phoneB = phoneTail(b.phone);
+
+  const reasons = {
+    name: nameA && nameB ? Math.max(jaroWinkler(nameA, nameB), jaroWinkler(nameA, swappedB)) : null,
+    dob: dobA && dobB ? dobSimilarity(dobA, dobB) : null,
+    phone: phoneA && phoneB ? Number(phoneA === phoneB) : null,
+    nationalId: a.nationalId && b.nationalId ? Number(a.nationalId.trim() === b.nationalId.trim()) : null,
+  };
+
+  const weighted: Array<[number | null, number]> = [[reasons.name, 0.55], [reasons.dob, 0.3], [reasons.phone, 0.15]];
+  const available = weighted.filter(([value]) => value !== null) as Array<[number, number]>;
+  let score = available.length
+    ? available.reduce((sum, [value, weight]) => sum + value * weight, 0) / available.reduce((sum, [, weight]) => sum + weight, 0)
+    : 0;
+  if (reasons.nationalId === 1) score = Math.max(score, 0.95);
+  if (reasons.nationalId === 0) score *= 0.5;
+
+  return { score: Math.round(score * 1000) / 1000, reasons };
+};
+
+/** Decrypted matching fields of a beneficiary */
+export const decryptMatchFields = (beneficiary: Beneficiary): MatchFields => ({
+  firstName: decryptField(beneficiary.firstNameEnc),
+  lastName: decryptField(beneficiary.lastNameEnc),
+  dob: decryptField(beneficiary.dobEnc),
+  nationalId: decryptField(beneficiary.nationalIdEnc),
+  phone: decryptField(beneficiary.phoneEnc),
+});
+
+/**
+ * Recompute a beneficiary's blocking keys from its current PII (hashed with the active hash key)
+ * @returns Number of blocking keys the beneficiary has
+ */
+export const refreshBlockingKeys = async (beneficiary: Beneficiary, transaction: Transaction): Promise<number> => {
+  const { hashKeyId } = getActiveKeyIds();
+  const wanted = buildBlockingKeyValues(decryptMatchFields(beneficiary))
+    .map(({ keyType, value }) => ({ keyType, keyHash: hmacSha256(value) }));
+  const existing = await BeneficiaryMatchKey.findAll({
+    where: { beneficiaryId: beneficiary.id, keyType: [...BLOCKING_KEY_TYPES] },
+    transaction,
+  });
+
+  const isWanted = (k: { keyType: string; keyHash: string }) => wanted.some(w => w.keyType === k.keyType && w.keyHash === k.keyHash);
+  const stale = existing.filter(k => !isWanted(k));
+  if (stale.length) {
+    await BeneficiaryMatchKey.destroy({ where: { id: stale.map(k => k.id) }, transaction });
+  }
+  for (const key of existing) {
+    if (isWanted(key) && key.keyId !== hashKeyId) await key.update({ keyId: hashKeyId }, { transaction });
+  }
+  for (const key of wanted) {
+    if (existing.some(k => k.keyType === key.keyType && k.keyHash === key.keyHash)) continue;
+    await BeneficiaryMatchKey.create({ id: uuidv4(), beneficiaryId: beneficiary.id, ...key, keyId: hashKeyId }, { transaction });
+  }
+  return wanted.length;
+};
+
+/**
+ * Compare a beneficiary with every active beneficiary sharing one of its blocking keys and queue
+ * likely duplicates. Existing pending pairs get their score refreshed; dismissed pairs stay dismissed.
+ * @returns Number of new candidate pairs
+ */
+export const detectDuplicateCandidates = async (beneficiaryId: string, transaction: Transaction): Promise<number> => {
+  const beneficiary = await Beneficiary.findByPk(beneficiaryId, { transaction });
+  if (!beneficiary || beneficiary.isArchived) return 0;
+
+  const keys = await BeneficiaryMatchKey.findAll({
+    where: { beneficiaryId, keyType: [...BLOCKING_KEY_TYPES] },
+    transaction,
+  });
+  if (!keys.length) return 0;
+
+  const shared = await BeneficiaryMatchKey.findAll({
+    where: {
+      beneficiaryId: { [Op.ne]: beneficiaryId },
+      [Op.or]: keys.map(k => ({ keyType: k.keyType, keyHash: k.keyHash })),
+    },
+    attributes: ['beneficiaryId', 'keyType'],
+    limit: MAX_BLOCK_MATCHES,
+    transaction,
+  });
+  const blockingKeysByBeneficiary = new Map<string, Set<string>>();
+  for (const key of shared) {
+    const types = blockingKeysByBeneficiary.get(key.beneficiaryId) || new Set<string>();
+    types.add(key.keyType);
+    blockingKeysByBeneficiary.set(key.beneficiaryId, types);
+  }
+  if (!blockingKeysByBeneficiary.size) return 0;
+
+  const others = await Beneficiary.findAll({
+    where: { id: Array.from(blockingKeysByBeneficiary.keys()), isArchived: false },
+    transaction,
+  });
+
+  const fields = decryptMatchFields(beneficiary);
+  let created = 0;
+  for (const other of others) {
+    const { score, reasons } = scoreDuplicatePair(fields, decryptMatchFields(other));
+    if (score < DUPLICATE_SCORE_THRESHOLD) continue;
+
+    const [beneficiaryAId, beneficiaryBId] = [beneficiaryId, other.id].sort();
+    const details = { ...reasons, blockingKeys: Array.from(blockingKeysByBeneficiary.get(other.id)!).sort() };
+    const [candidate, isNew] = await BeneficiaryDuplicateCandidate.findOrCreate({
+      where: { beneficiaryAId, beneficiaryBId },
+      defaults: { id: uuidv4(), beneficiaryAId, beneficiaryBId, score, reasons: details, status: 'pending' },
+      transaction,
+    });
+    if (isNew) created++;
+    else if (candidate.status === 'pending') await candidate.update({ score, reasons: details }, { transaction });
+  }
+  return created;
+};
+
+/**
+ * Keep a beneficiary's blocking keys and duplicate candidates current after its PII changed
+ */
+export const refreshDuplicateCandidates = async (beneficiary: Beneficiary, transaction: Transaction): Promise<number> => {
+  await refreshBlockingKeys(beneficiary, transaction);
+  return detectDuplicateCandidates(beneficiary.id, transaction);
+};
+
+const forEachBeneficiaryBatch = async (handle: (batch: Beneficiary[], transaction: Transaction) => Promise<void>) => {
+  let cursor: string | null = null;
+  for (;;) {
+    const done: boolean = await sequelize.transaction(async (transaction) => {
+      const batch = await Beneficiary.findAll({
+        where: { isArchived: false, ...(cursor ? { id: { [Op.gt]: cursor } } : {}) },
+        order: [['id', 'ASC']],
+        limit: SCAN_BATCH_SIZE,
+        transaction,
+      });
+      if (!batch.length) return true;
+      await handle(batch, transaction);
+      cursor = batch[batch.length - 1].id;
+      return false;
+    });
+    if (done) return;
+  }
+};
+
+/**
+ * Rebuild blocking keys for all active beneficiaries, then compare them.
+ * Used to backfill records created before duplicate detection and after tuning the scoring.
+ */
+export const scanForDuplicates = async (): Promise<{ processed: number; blockingKeys: number; candidatesCreated: number }> => {
+  let processed = 0;
+  let blockingKeys = 0;
+  let candidatesCreated = 0;
+
+  await forEachBeneficiaryBatch(async (batch, transaction) => {
+    for (const beneficiary of batch) {
+      blockingKeys += await refreshBlockingKeys(beneficiary, transaction);
+      processed++;
+    }
+  });
+  await forEachBeneficiaryBatch(async (batch, transaction) => {
+    for (const beneficiary of batch) {
+      candidatesCreated += await detectDuplicateCandidates(beneficiary.id, transaction);
+    }
+  });
+
+  return { processed, blockingKeys, candidatesCreated };
+};
+
+export default {
+  DUPLICATE_SCORE_THRESHOLD,
+  soundex,
+  jaroWinkler,
+  buildBlockingKeyValues,
+  scoreDuplicatePair,
+  decryptMatchFields,
+  refreshBlockingKeys,
+  detectDuplicateCandidates,
+  refreshDuplicateCandidates,
+  scanForDuplicates,
+};
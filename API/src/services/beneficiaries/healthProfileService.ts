@@ -0,0 +1,360 @@
+/**
+ * Health profile: a beneficiary's conditions coded against the ICD-10 catalog, with status,
+ * diagnosis/resolution dates and encrypted notes. The codes of current (not resolved) conditions
+ * are mirrored into BeneficiaryDetails.details.chronicConditionCodes, which list filters and older
+ * clients read.
+ */
+
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize from '../../db/connection';
+import { AuditLog, Beneficiary, BeneficiaryCondition, BeneficiaryDetails, Icd10Code } from '../../models';
+import { CONDITION_STATUSES, ConditionStatus } from '../../constants/conditions';
+import { decryptField, encryptField } from '../../utils/crypto';
+import { CONDITION_CATEGORIES, findCodes, normalizeCode } from './conditionCatalogService';
+
+export type HealthProfileResult<T = any> = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: T;
+};
+
+export type ConditionFilter = {
+  category?: string;
+  code?: string;
+};
+
+export type CurrentCondition = {
+  code: string;
+  label: string;
+  category: string;
+  status: ConditionStatus;
+};
+
+export type ConditionInput = {
+  code?: string;
+  status?: string;
+  diagnosedAt?: string | null;
+  resolvedAt?: string | null;
+  notes?: string | null;
+};
+
+export const MAX_CONDITION_NOTES_LENGTH = 5000;
+
+export const isConditionStatus = (value: any): value is ConditionStatus =>
+  (CONDITION_STATUSES as readonly string[]).includes(value);
+
+const isDateOnly = (value: any) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const writeAudit = (userId: string, action: string, description: string, details: any, transaction: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(details),
+    timestamp: new Date(),
+  }, { transaction });
+
+export const toConditionView = (condition: BeneficiaryCondition) => {
+  const icd10 = (condition as any).icd10 as Icd10Code | undefined;
+  return {
+    id: condition.id,
+    beneficiaryId: condition.beneficiaryId,
+    icd10CodeId: condition.icd10CodeId,
+    code: icd10?.code ?? null,
+    label: icd10?.label ?? null,
+    category: icd10?.category ?? null,
+    status: condition.status,
+    diagnosedAt: condition.diagnosedAt ?? null,
+    resolvedAt: condition.resolvedAt ?? null,
+    notes: decryptField(condition.notesEnc),
+    recordedBy: condition.recordedBy ?? null,
+    updatedBy: condition.updatedBy ?? null,
+    createdAt: condition.createdAt,
+    updatedAt: condition.updatedAt,
+  };
+};
+
+const icd10Include = { model: Icd10Code, as: 'icd10', attributes: ['id', 'code', 'label', 'category'] };
+
+/**
+ * Check status and dates of a condition as it would be after the change
+ */
+const validateState = (state: { status: any; diagnosedAt: any; resolvedAt: any }): string | null => {
+  if (!isConditionStatus(state.status)) return `status must be one of: ${CONDITION_STATUSES.join(', ')}`;
+  for (const field of ['diagnosedAt', 'resolvedAt'] as const) {
+    const value = state[field];
+    if (value == null) continue;
+    if (!isDateOnly(value)) return `${field} must be a date (YYYY-MM-DD)`;
+    if (value > today()) return `${field} cannot be in the future`;
+  }
+  if (state.resolvedAt && state.status !== 'resolved') return 'resolvedAt can only be set on resolved conditions';
+  if (state.resolvedAt && state.diagnosedAt && state.resolvedAt < state.diagnosedAt) return 'resolvedAt cannot be before diagnosedAt';
+  return null;
+};
+
+const normalizeNotes = (notes: any): HealthProfileResult<string | null> => {
+  if (notes == null || notes === '') return { success: true, status: 200, data: null };
+  if (typeof notes !== 'string' || notes.trim().length > MAX_CONDITION_NOTES_LENGTH) {
+    return { success: false, status: 400, message: `notes must be text (max ${MAX_CONDITION_NOTES_LENGTH} characters)` };
+  }
+  return { success: true, status: 200, data: notes.trim() || null };
+};
+
+const findWritableBeneficiary = async (beneficiaryId: string, transaction: Transaction): Promise<HealthProfileResult<Beneficiary>> => {
+  const beneficiary = await Beneficiary.findByPk(beneficiaryId, { attributes: ['id', 'pseudonym', 'erasedAt'], transaction });
+  if (!beneficiary) return { success: false, status: 404, message: 'Beneficiary not found' };
+  if (beneficiary.erasedAt) return { success: false, status: 409, message: 'Beneficiary data has been erased' };
+  return { success: true, status: 200, data: beneficiary };
+};
+
+/**
+ * Write the codes of the beneficiary's current conditions to details.chronicConditionCodes
+ */
+export const syncDetailsCodes = async (beneficiaryId: string, transaction: Transaction) => {
+  const current = await BeneficiaryCondition.findAll({
+    where: { beneficiaryId, status: { [Op.ne]: 'resolved' } },
+    include: [{ model: Icd10Code, as: 'icd10', attributes: ['code'] }],
+    transaction,
+  });
+  const codes = Array.from(new Set(current.map(c => (c as any).icd10?.code).filter(Boolean))).sort();
+  const row = await BeneficiaryDetails.findOne({ where: { beneficiaryId }, transaction });
+  if (row) {
+    await row.update({ details: { ...(row.details || {}), chronicConditionCodes: codes } }, { transaction });
+  } else if (codes.length) {
+    await BeneficiaryDetails.create({ id: uuidv4(), beneficiaryId, details: { chronicConditionCodes: codes } }, { transaction });
+  }
+  return codes;
+};
+
+/**
+ * Conditions of a beneficiary, current ones first, then by code
+ */
+export const listConditions = async (beneficiaryId: string, options: { includeResolved?: boolean } = {}, transaction?: Transaction) => {
+  const conditions = await BeneficiaryCondition.findAll({
+    where: { beneficiaryId, ...(options.includeResolved === false ? { status: { [Op.ne]: 'resolved' } } : {}) },
+    include: [icd10Include],
+    transaction,
+  });
+  return conditions
+    .map(toConditionView)
+    .sort((a, b) => Number(a.status === 'resolved') - Number(b.status === 'resolved') || String(a.code).localeCompare(String(b.code)));
+};
+
+export const createCondition = async (
+  beneficiaryId: string,
+  input: ConditionInput,
+  userId: string,
+  transaction: Transaction
+): Promise<HealthProfileResult> => {
+  const code = normalizeCode(input?.code);
+  if (!code) return { success: false, status: 400, message: 'code is required' };
+  const state = { status: input.status ?? 'active', diagnosedAt: input.diagnosedAt ?? null, resolvedAt: input.resolvedAt ?? null };
+  const invalid = validateState(state);
+  if (invalid) return { success: false, status: 400, message: invalid };
+  const notes = normalizeNotes(input.notes);
+  if (!notes.success) return notes;
+
+  const found = await findWritableBeneficiary(beneficiaryId, transaction);
+  if (!found.success) return found;
+
+  const entry = (await findCodes([code], transaction)).get(code);
+  if (!entry || !entry.isActive) return { success: false, status: 400, message: `Unknown or inactive ICD-10 code: ${code}` };
+  const existing = await BeneficiaryCondition.findOne({ where: { beneficiaryId, icd10CodeId: entry.id }, attributes: ['id'], transaction });
+  if (existing) return { success: false, status: 409, message: `Condition ${code} is already recorded for this beneficiary` };
+
+  const condition = await BeneficiaryCondition.create({
+    id: uuidv4(),
+    beneficiaryId,
+    icd10CodeId: entry.id,
+    ...state,
+    notesEnc: notes.data ? encryptField(notes.data) : null,
+    recordedBy: userId,
+    updatedBy: userId,
+  }, { transaction });
+  (condition as any).icd10 = entry;
+  await syncDetailsCodes(beneficiaryId, transaction);
+
+  await writeAudit(userId, 'BENEFICIARY_CONDITION_CREATE', `Recorded condition ${code} for beneficiary '${found.data!.pseudonym}'`, {
+    beneficiaryId, conditionId: condition.id, code, status: state.status,
+  }, transaction);
+  return { success: true, status: 201, data: toConditionView(condition) };
+};
+
+/**
+ * Change status, dates or notes of a condition. To change the code, delete the record and add another.
+ * Resolving without a resolvedAt stamps today; reopening clears it.
+ */
+export const updateCondition = async (
+  beneficiaryId: string,
+  conditionId: string,
+  input: ConditionInput,
+  userId: string,
+  transaction: Transaction
+): Promise<HealthProfileResult> => {
+  const condition = await BeneficiaryCondition.findOne({ where: { id: conditionId, beneficiaryId }, include: [icd10Include], transaction });
+  if (!condition) return { success: false, status: 404, message: 'Condition not found' };
+  const code = (condition as any).icd10?.code;
+  if (input?.code !== undefined && normalizeCode(input.code) !== code) {
+    return { success: false, status: 400, message: 'The code of a condition cannot be changed' };
+  }
+  const found = await findWritableBeneficiary(beneficiaryId, transaction);
+  if (!found.success) return found;
+
+  const changes: any = {};
+  if (input.status !== undefined) changes.status = input.status;
+  if (input.diagnosedAt !== undefined) changes.diagnosedAt = input.diagnosedAt;
+  if (input.resolvedAt !== undefined) changes.resolvedAt = input.resolvedAt;
+  if (changes.status === 'resolved' && condition.status !== 'resolved' && input.resolvedAt === undefined) changes.resolvedAt = today();
+  if (changes.status && changes.status !== 'resolved' && input.resolvedAt === undefined) changes.resolvedAt = null;
+  if (input.notes !== undefined) {
+    const notes = normalizeNotes(input.notes);
+    if (!notes.success) return notes;
+    changes.notesEnc = notes.data ? encryptField(notes.data) : null;
+  }
+  if (!Object.keys(changes).length) return { success: false, status: 400, message: 'Nothing to update' };
+
+  const invalid = validateState({
+    status: changes.status ?? condition.status,
+    diagnosedAt: changes.diagnosedAt !== undefined ? changes.diagnosedAt : condition.diagnosedAt,
+    resolvedAt: changes.resolvedAt !== undefined ? changes.resolvedAt : condition.resolvedAt,
+  });
+  if (invalid) return { success: false, status: 400, message: invalid };
+
+  await condition.update({ ...changes, updatedBy: userId }, { transaction });
+  if (changes.status) await syncDetailsCodes(beneficiaryId, transaction);
+  await writeAudit(userId, 'BENEFICIARY_CONDITION_UPDATE', `Updated condition ${code} of beneficiary '${found.data!.pseudonym}'`, {
+    beneficiaryId, conditionId, code, fields: Object.keys(changes).map(f => (f === 'notesEnc' ? 'notes' : f)),
+  }, transaction);
+  return { success: true, status: 200, data: toConditionView(condition) };
+};
+
+/**
+ * Remove a condition recorded in error. Conditions that ended should be resolved instead.
+ */
+export const deleteCondition = async (
+  beneficiaryId: string,
+  conditionId: string,
+  userId: string,
+  transaction: Transaction
+): Promise<HealthProfileResult> => {
+  const condition = await BeneficiaryCondition.findOne({ where: { id: conditionId, beneficiaryId }, include: [icd10Include], transaction });
+  if (!condition) return { success: false, status: 404, message: 'Condition not found' };
+  const code = (condition as any).icd10?.code;
+
+  await condition.destroy({ transaction });
+  await syncDetailsCodes(beneficiaryId, transaction);
+  await writeAudit(userId, 'BENEFICIARY_CONDITION_DELETE', `Removed condition ${code}`, { beneficiaryId, conditionId, code }, transaction);
+  return { success: true, status: 200, data: { id: conditionId } };
+};
+
+/**
+ * Record conditions given as codes when a beneficiary is created. All codes must be active catalog
+ * entries; nothing is recorded otherwise.
+ */
+export const recordConditionCodes = async (
+  beneficiaryId: string,
+  codes: string[],
+  userId: string,
+  transaction: Transaction
+): Promise<HealthProfileResult<string[]>> => {
+  const normalized = Array.from(new Set(codes.map(normalizeCode).filter(Boolean)));
+  const entries = await findCodes(normalized, transaction);
+  const unknown = normalized.filter(c => !entries.get(c)?.isActive);
+  if (unknown.length) return { success: false, status: 400, message: `Unknown or inactive ICD-10 codes: ${unknown.join(', ')}` };
+  if (!normalized.length) return { success: true, status: 200, data: [] };
+
+  const existing = await BeneficiaryCondition.findAll({ where: { beneficiaryId }, attributes: ['icd10CodeId'], transaction });
+  const recorded = new Set(existing.map(c => c.icd10CodeId));
+  const records = normalized
+    .map(c => entries.get(c)!)
+    .filter(e => !recorded.has(e.id))
+    .map(e => ({ id: uuidv4(), beneficiaryId, icd10CodeId: e.id, status: 'active', recordedBy: userId, updatedBy: userId }));
+  if (records.length) await BeneficiaryCondition.bulkCreate(records, { transaction });
+  return { success: true, status: 200, data: normalized };
+};
+
+/**
+ * Current (not resolved) conditions of the given beneficiaries, keyed by beneficiary
+ */
+export const currentConditionsByBeneficiary = async (beneficiaryIds?: string[]) => {
+  const conditions = await BeneficiaryCondition.findAll({
+    where: { status: { [Op.ne]: 'resolved' }, ...(beneficiaryIds ? { beneficiaryId: beneficiaryIds } : {}) },
+    attributes: ['beneficiaryId', 'status'],
+    include: [icd10Include],
+  });
+  const byBeneficiary = new Map<string, CurrentCondition[]>();
+  for (const c of conditions) {
+    const icd10 = (c as any).icd10 as Icd10Code;
+    const list = byBeneficiary.get(c.beneficiaryId) || [];
+    list.push({ code: icd10.code, label: icd10.label, category: icd10.category, status: c.status });
+    byBeneficiary.set(c.beneficiaryId, list);
+  }
+  return byBeneficiary;
+};
+
+/**
+ * SQL subquery of the ids of beneficiaries with a current condition of the category and/or code,
+ * for `"beneficiaryId" IN (...)` / `"id" IN (...)` filters
+ */
+export const beneficiaryIdsWithConditionSql = (filter: ConditionFilter) => {
+  const clauses = [`bc.status <> 'resolved'`];
+  if (filter.category) clauses.push(`ic.category = ${sequelize.escape(filter.category)}`);
+  if (filter.code) clauses.push(`ic.code = ${sequelize.escape(normalizeCode(filter.code))}`);
+  return `SELECT bc."beneficiaryId" FROM beneficiary_conditions bc JOIN icd10_codes ic ON ic.id = bc."icd10CodeId" WHERE ${clauses.join(' AND ')}`;
+};
+
+/**
+ * Beneficiaries per condition category (and per code within it), by condition status. A beneficiary
+ * with several conditions of a category counts once for the category; byStatus counts conditions.
+ */
+export const summarizeConditions = (beneficiaryIds: string[], byBeneficiary: Map<string, CurrentCondition[]>) => {
+  const categories = new Map<string, { beneficiaries: Set<string>; byStatus: Record<string, number>; codes: Map<string, { label: string; beneficiaries: number }> }>();
+  let withConditions = 0;
+  for (const id of beneficiaryIds) {
+    const conditions = byBeneficiary.get(id) || [];
+    if (conditions.length) withConditions++;
+    for (const c of conditions) {
+      const entry = categories.get(c.category) || { beneficiaries: new Set<string>(), byStatus: {} as Record<string, number>, codes: new Map() };
+      entry.beneficiaries.add(id);
+      entry.byStatus[c.status] = (entry.byStatus[c.status] || 0) + 1;
+      const code = entry.codes.get(c.code) || { label: c.label, beneficiaries: 0 };
+      code.beneficiaries++;
+      entry.codes.set(c.code, code);
+      categories.set(c.category, entry);
+    }
+  }
+  const titles = new Map(CONDITION_CATEGORIES.map(c => [c.category, c.title]));
+  return {
+    totalBeneficiaries: beneficiaryIds.length,
+    withConditions,
+    byCategory: Array.from(categories.entries())
+      .map(([category, entry]) => ({
+        category,
+        title: titles.get(category) ?? category,
+        beneficiaries: entry.beneficiaries.size,
+        byStatus: { active: entry.byStatus.active || 0, in_remission: entry.byStatus.in_remission || 0 },
+        codes: Array.from(entry.codes.entries())
+          .map(([code, { label, beneficiaries }]) => ({ code, label, beneficiaries }))
+          .sort((a, b) => b.beneficiaries - a.beneficiaries || a.code.localeCompare(b.code)),
+      }))
+      .sort((a, b) => b.beneficiaries - a.beneficiaries || a.category.localeCompare(b.category)),
+  };
+};
+
+export default {
+  listConditions,
+  createCondition,
+  updateCondition,
+  deleteCondition,
+  recordConditionCodes,
+  syncDetailsCodes,
+  currentConditionsByBeneficiary,
+  beneficiaryIdsWithConditionSql,
+  summarizeConditions,
+};
@@ -0,0 +1,386 @@
+/**
+ * Households: families of beneficiaries with a head of household, member relationships,
+ * a shared (encrypted) address and household-level service deliveries.
+ */
+
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditLog, Beneficiary, Household, HouseholdMember, Service, ServiceDelivery } from '../../models';
+import { HOUSEHOLD_RELATIONSHIPS, HouseholdRelationship } from '../../constants/households';
+import { decryptField, encryptField, makePseudonym } from '../../utils/crypto';
+
+export type HouseholdResult<T = any> = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: T;
+};
+
+export type HouseholdMemberInput = {
+  beneficiaryId: string;
+  relationship?: HouseholdRelationship;
+};
+
+/**
+ * Household section of a BeneficiaryMapping (`mapping.household`): paths into the form data
+ */
+export type HouseholdMappingConfig = {
+  householdId?: string; // answer holding an existing household's id or code to join
+  relationship?: string; // answer holding the relationship to the head of household
+  address?: string;
+  municipality?: string;
+  create?: boolean; // create a household headed by the beneficiary when none is linked (default true)
+};
+
+const isRelationship = (value: any): value is HouseholdRelationship =>
+  (HOUSEHOLD_RELATIONSHIPS as readonly string[]).includes(value);
+
+const getByPath = (obj: any, path?: string): any => {
+  if (!obj || !path) return undefined;
+  return path.split('.').reduce((cur, p) => (cur == null ? undefined : cur[p]), obj);
+};
+
+const writeAudit = (userId: string, action: string, description: string, details: any, transaction: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(details),
+    timestamp: new Date(),
+  }, { transaction });
+
+/**
+ * Household with its members (pseudonyms only). The shared address is decrypted on request.
+ */
+export const toHouseholdView = (household: Household, members: HouseholdMember[], includePii = false) => {
+  const view: any = {
+    id: household.id,
+    code: household.code,
+    status: household.status,
+    headBeneficiaryId: members.find(m => m.relationship === 'head')?.beneficiaryId ?? null,
+    memberCount: members.length,
+    members: members.map(m => {
+      const beneficiary = m.get('beneficiary') as Beneficiary | undefined;
+      return {
+        id: m.id,
+        beneficiaryId: m.beneficiaryId,
+        pseudonym: beneficiary?.pseudonym ?? null,
+        relationship: m.relationship,
+        joinedAt: m.joinedAt,
+      };
+    }),
+    createdBy: household.createdBy ?? null,
+    createdAt: household.createdAt,
+    updatedAt: household.updatedAt,
+  };
+  if (includePii) {
+    view.address = decryptField(household.addressEnc);
+    view.municipality = decryptField(household.municipalityEnc);
+  }
+  return view;
+};
+
+export const loadHouseholdMembers = (householdId: string, transaction?: Transaction) =>
+  HouseholdMember.findAll({
+    where: { householdId },
+    include: [{ model: Beneficiary, as: 'beneficiary', attributes: ['id', 'pseudonym'] }],
+    order: [['joinedAt', 'ASC']],
+    transaction,
+  });
+
+/**
+ * Check that beneficiaries can join a household: they exist, are not archived and are not members elsewhere
+ */
+const validateNewMembers = async (members: HouseholdMemberInput[], transaction: Transaction): Promise<HouseholdResult | null> => {
+  const ids = members.map(m => m.beneficiaryId);
+  if (new Set(ids).size !== ids.length) {
+    return { success: false, status: 400, message: 'A beneficiary can only be listed once' };
+  }
+  const invalid = members.find(m => m.relationship !== undefined && !isRelationship(m.relationship));
+  if (invalid) {
+    return { success: false, status: 400, message: `relationship must be one of: ${HOUSEHOLD_RELATIONSHIPS.join(', ')}` };
+  }
+  const beneficiaries = await Beneficiary.findAll({ where: { id: ids, isArchived: false }, attributes: ['id'], transaction });
+  if (beneficiaries.length !== ids.length) {
+    return { success: false, status: 404, message: 'Beneficiary not found' };
+  }
+  const existing = await HouseholdMember.findAll({ where: { beneficiaryId: ids }, transaction });
+  if (existing.length) {
+    return {
+      success: false,
+      status: 409,
+      message: 'Beneficiary already belongs to a household; remove it from that household first',
+      data: existing.map(m => ({ beneficiaryId: m.beneficiaryId, householdId: m.householdId })),
+    };
+  }
+  return null;
+};
+
+/**
+ * Create a household. `headBeneficiaryId` joins as head; further members join with their relationship.
+ */
+export const createHousehold = async (
+  input: { headBeneficiaryId?: string | null; members?: HouseholdMemberInput[]; address?: string | null; municipality?: string | null },
+  userId: string,
+  transaction: Transaction
+): Promise<HouseholdResult> => {
+  const members: HouseholdMemberInput[] = [
+    ...(input.headBeneficiaryId ? [{ beneficiaryId: input.headBeneficiaryId, relationship: 'head' as const }] : []),
+    ...(input.members || []),
+  ];
+  if (members.filter(m => m.relationship === 'head').length > 1) {
+    return { success: false, status: 400, message: 'A household can only have one head' };
+  }
+  const error = members.length ? await validateNewMembers(members, transaction) : null;
+  if (error) return error;
+
+  const household = await Household.create({
+    id: uuidv4(),
+    code: makePseudonym('H'),
+    status: 'active',
+    addressEnc: input.address ? encryptField(input.address) : null,
+    municipalityEnc: input.municipality ? encryptField(input.municipality) : null,
+    createdBy: userId,
+  }, { transaction });
+
+  for (const member of members) {
+    await HouseholdMember.create({
+      id: uuidv4(),
+      householdId: household.id,
+      beneficiaryId: member.beneficiaryId,
+      relationship: member.relationship ?? 'other',
+      joinedAt: new Date(),
+    }, { transaction });
+  }
+
+  await writeAudit(userId, 'HOUSEHOLD_CREATE', `Created household '${household.code}' with ${members.length} members`, {
+    householdId: household.id,
+    members: members.map(m => ({ beneficiaryId: m.beneficiaryId, relationship: m.relationship ?? 'other' })),
+  }, transaction);
+
+  return { success: true, status: 201, data: toHouseholdView(household, await loadHouseholdMembers(household.id, transaction)) };
+};
+
+/**
+ * Update the shared address or status of a household
+ */
+export const updateHousehold = async (
+  id: string,
+  input: { address?: string | null; municipality?: string | null; status?: 'active' | 'inactive' },
+  userId: string,
+  transaction: Transaction
+): Promise<HouseholdResult> => {
+  if (input.status !== undefined && !['active', 'inactive'].includes(input.status)) {
+    return { success: false, status: 400, message: "status must be 'active' or 'inactive'" };
+  }
+  const household = await Household.findByPk(id, { transaction });
+  if (!household) return { success: false, status: 404, message: 'Household not found' };
+
+  const update: any = {};
+  if (input.address !== undefined) update.addressEnc = encryptField(input.address || null);
+  if (input.municipality !== undefined) update.municipalityEnc = encryptField(input.municipality || null);
+  if (input.status !== undefined) update.status = input.status;
+  await household.update(update, { transaction });
+
+  await writeAudit(userId, 'HOUSEHOLD_UPDATE', `Updated household '${household.code}'`, {
+    householdId: household.id,
+    fields: Object.keys(input).filter(k => (input as any)[k] !== undefined),
+  }, transaction);
+
+  return { success: true, status: 200, data: toHouseholdView(household, await loadHouseholdMembers(household.id, transaction)) };
+};
+
+const findHeadConflict = (householdId: string, exceptBeneficiaryId: string, transaction: Transaction) =>
+  HouseholdMember.findOne({
+    where: { householdId, relationship: 'head', beneficiaryId: { [Op.ne]: exceptBeneficiaryId } },
+    transaction,
+  });
+
+export const addHouseholdMember = async (
+  householdId: string,
+  member: HouseholdMemberInput,
+  userId: string,
+  transaction: Transaction
+): Promise<HouseholdResult> => {
+  const household = await Household.findByPk(householdId, { transaction });
+  if (!household) return { success: false, status: 404, message: 'Household not found' };
+  const error = await validateNewMembers([member], transaction);
+  if (error) return error;
+  const relationship = member.relationship ?? 'other';
+  if (relationship === 'head' && await findHeadConflict(householdId, member.beneficiaryId, transaction)) {
+    return { success: false, status: 409, message: 'Household already has a head of household' };
+  }
+
+  const created = await HouseholdMember.create({
+    id: uuidv4(),
+    householdId,
+    beneficiaryId: member.beneficiaryId,
+    relationship,
+    joinedAt: new Date(),
+  }, { transaction });
+
+  await writeAudit(userId, 'HOUSEHOLD_MEMBER_ADD', `Added a ${relationship} to household '${household.code}'`, {
+    householdId, beneficiaryId: member.beneficiaryId, relationship,
+  }, transaction);
+
+  return { success: true, status: 201, data: created };
+};
+
+/**
+ * Change a member's relationship. Making a member head requires the current head to be changed first.
+ */
+export const updateHouseholdMember = async (
+  householdId: string,
+  beneficiaryId: string,
+  relationship: any,
+  userId: string,
+  transaction: Transaction
+): Promise<HouseholdResult> => {
+  if (!isRelationship(relationship)) {
+    return { success: false, status: 400, message: `relationship must be one of: ${HOUSEHOLD_RELATIONSHIPS.join(', ')}` };
+  }
+  const member = await HouseholdMember.findOne({ where: { householdId, beneficiaryId }, transaction });
+  if (!member) return { success: false, status: 404, message: 'Household member not found' };
+  if (relationship === 'head' && await findHeadConflict(householdId, beneficiaryId, transaction)) {
+    return { success: false, status: 409, message: 'Household already has a head of household; change the current head first' };
+  }
+
+  const previous = member.relationship;
+  await member.update({ relationship }, { transaction });
+  await writeAudit(userId, 'HOUSEHOLD_MEMBER_UPDATE', `Changed household member relationship from ${previous} to ${relationship}`, {
+    householdId, beneficiaryId, previous, relationship,
+  }, transaction);
+
+  return { success: true, status: 200, data: member };
+};
+
+export const removeHouseholdMember = async (
+  householdId: string,
+  beneficiaryId: string,
+  userId: string,
+  transaction: Transaction
+): Promise<HouseholdResult> => {
+  const member = await HouseholdMember.findOne({ where: { householdId, beneficiaryId }, transaction });
+  if (!member) return { success: false, status: 404, message: 'Household member not found' };
+
+  await member.destroy({ transaction });
+  await writeAudit(userId, 'HOUSEHOLD_MEMBER_REMOVE', `Removed a ${member.relationship} from a household`, {
+    householdId, beneficiaryId, relationship: member.relationship,
+  }, transaction);
+
+  return { success: true, status: 200, data: member };
+};
+
+/**
+ * Record a service delivered to the household as a whole. The delivery is attributed to the
+ * head of household, so beneficiary-level reports keep working.
+ */
+export const recordHouseholdDelivery = async (
+  householdId: string,
+  input: {
+    serviceId: string;
+    entityId: string;
+    entityType: 'project' | 'subproject' | 'activity';
+    deliveredAt?: string | Date;
+    staffUserId?: string;
+    notes?: string | null;
+  },
+  userId: string,
+  transaction: Transaction
+): Promise<HouseholdResult> => {
+  if (!input.serviceId || !input.entityId || !['project', 'subproject', 'activity'].includes(input.entityType)) {
+    return { success: false, status: 400, message: "serviceId, entityId and a valid entityType ('project'|'subproject'|'activity') are required" };
+  }
+  const deliveredAt = input.deliveredAt ? new Date(input.deliveredAt) : new Date();
+  if (Number.isNaN(deliveredAt.getTime())) {
+    return { success: false, status: 400, message: 'deliveredAt must be a valid date' };
+  }
+
+  const household = await Household.findByPk(householdId, { transaction });
+  if (!household) return { success: false, status: 404, message: 'Household not found' };
+  const service = await Service.findByPk(input.serviceId, { transaction });
+  if (!service) return { success: false, status: 404, message: 'Service not found' };
+  const head = await HouseholdMember.findOne({ where: { householdId, relationship: 'head' }, transaction });
+  if (!head) {
+    return { success: false, status: 409, message: 'Household has no head of household to attribute the delivery to' };
+  }
+
+  const delivery = await ServiceDelivery.create({
+    id: uuidv4(),
+    serviceId: input.serviceId,
+    beneficiaryId: head.beneficiaryId,
+    householdId,
+    entityId: input.entityId,
+    entityType: input.entityType,
+    staffUserId: input.staffUserId || userId,
+    deliveredAt,
+    notes: input.notes ?? null,
+  }, { transaction });
+
+  await writeAudit(userId, 'HOUSEHOLD_SERVICE_DELIVERY', `Recorded household service delivery for '${household.code}'`, {
+    householdId, deliveryId: delivery.id, serviceId: input.serviceId, entityId: input.entityId, entityType: input.entityType,
+  }, transaction);
+
+  return { success: true, status: 201, data: delivery };
+};
+
+/**
+ * Create or join a household for a beneficiary upserted from a form response, following `mapping.household`.
+ * A beneficiary that already belongs to a household only gets its relationship updated.
+ * @returns The household id, if the beneficiary belongs to one afterwards
+ */
+export const linkHouseholdFromMapping = async (
+  beneficiaryId: string,
+  data: any,
+  config: HouseholdMappingConfig,
+  opts: { transaction: Transaction; userId: string }
+): Promise<string | undefined> => {
+  const { transaction } = opts;
+  const rawRelationship = String(getByPath(data, config.relationship) ?? '').trim().toLowerCase();
+  const relationship = isRelationship(rawRelationship) ? rawRelationship : undefined;
+  const reference = String(getByPath(data, config.householdId) ?? '').trim();
+
+  const membership = await HouseholdMember.findOne({ where: { beneficiaryId }, transaction });
+  if (membership) {
+    if (relationship && relationship !== membership.relationship
+      && !(relationship === 'head' && await findHeadConflict(membership.householdId, beneficiaryId, transaction))) {
+      await membership.update({ relationship }, { transaction });
+    }
+    return membership.householdId;
+  }
+
+  if (reference) {
+    const household = await Household.findOne({
+      where: /^[0-9a-f-]{36}$/i.test(reference) ? { id: reference } : { code: reference.toUpperCase() },
+      transaction,
+    });
+    if (household) {
+      const asHead = relationship === 'head' && !(await findHeadConflict(household.id, beneficiaryId, transaction));
+      const result = await addHouseholdMember(household.id, {
+        beneficiaryId,
+        relationship: relationship === 'head' && !asHead ? 'other' : relationship,
+      }, opts.userId, transaction);
+      return result.success ? household.id : undefined;
+    }
+  }
+
+  if (config.create === false || (relationship && relationship !== 'head')) return undefined;
+
+  const address = String(getByPath(data, config.address) ?? '').trim() || null;
+  const municipality = String(getByPath(data, config.municipality) ?? '').trim() || null;
+  const result = await createHousehold({ headBeneficiaryId: beneficiaryId, address, municipality }, opts.userId, transaction);
+  return result.success ? result.data.id : undefined;
+};
+
+export default {
+  toHouseholdView,
+  loadHouseholdMembers,
+  createHousehold,
+  updateHousehold,
+  addHouseholdMember,
+  updateHouseholdMember,
+  removeHouseholdMember,
+  recordHouseholdDelivery,
+  linkHouseholdFromMapping,
+};
@@ -0,0 +1,420 @@
+/**
+ * Background re-encryption of beneficiary PII and re-hashing of match keys after a key rotation.
+ *
+ * Rotation procedure:
+ * 1. Add the new key to BENEFICIARY_ENC_KEYS / BENEFICIARY_HASH_KEYS and make it active
+ *    (old keys stay in the ring, so existing values can still be decrypted and matched).
+ * 2. Start a job: beneficiaries, then households (which may have no members) are processed in batches,
+ *    in id order, one transaction per batch.
+ * 3. Once the job completes without errors, the old keys can be removed from the ring.
+ */
+
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize from '../../db/connection';
+import {
+  AuditLog,
+  Beneficiary,
+  BeneficiaryCaseNote,
+  BeneficiaryCondition,
+  BeneficiaryFollowUpTask,
+  BeneficiaryMatchKey,
+  BeneficiaryMerge,
+  BeneficiaryReferral,
+  BeneficiarySearchToken,
+  Household,
+  KeyRotationJob,
+  SyncConflict,
+} from '../../models';
+import { decryptField, getActiveKeyIds, hmacSha256, needsReencryption, reencryptField } from '../../utils/crypto';
+import { buildMatchKeyValues } from './beneficiariesService';
+import { refreshBlockingKeys } from './duplicateService';
+import { refreshSearchTokens } from './searchIndexService';
+import { BLOCKING_KEY_TYPES, EXACT_MATCH_KEY_TYPES } from '../../constants/matchKeys';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('key-rotation-service');
+
+export const KEY_ROTATION_BATCH_SIZE = 100;
+
+/** Encrypted PII columns of Beneficiary */
+export const ENCRYPTED_BENEFICIARY_FIELDS = [
+  'firstNameEnc', 'lastNameEnc', 'dobEnc', 'genderEnc', 'addressEnc', 'municipalityEnc', 'nationalityEnc',
+  'nationalIdEnc', 'phoneEnc', 'emailEnc', 'ethnicityEnc', 'residenceEnc', 'householdMembersEnc',
+] as const;
+
+/** Encrypted columns of Household (re-encrypted in the household phase of a job) */
+export const ENCRYPTED_HOUSEHOLD_FIELDS = ['addressEnc', 'municipalityEnc'] as const;
+
+export type KeyRotationResult = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: ReturnType<typeof getKeyRotationProgress>;
+};
+
+// Jobs being processed by this API instance
+const runningJobs = new Set<string>();
+
+export const getKeyRotationProgress = (job: KeyRotationJob) => ({
+  id: job.id,
+  status: job.status,
+  phase: job.phase,
+  encKeyId: job.encKeyId,
+  hashKeyId: job.hashKeyId,
+  processed: job.processed,
+  total: job.total,
+  percent: job.total > 0 ? Math.min(100, Math.round((job.processed / job.total) * 100)) : (job.status === 'completed' ? 100 : 0),
+  reencryptedFields: job.reencryptedFields,
+  rehashedKeys: job.rehashedKeys,
+  errorCount: job.errorCount,
+  lastError: job.lastError ?? null,
+  startedBy: job.startedBy,
+  startedAt: job.startedAt ?? null,
+  finishedAt: job.finishedAt ?? null,
+});
+
+const writeAudit = (userId: string, action: string, description: string, job: KeyRotationJob, transaction?: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(getKeyRotationProgress(job)),
+    timestamp: new Date(),
+  }, { transaction });
+
+/**
+ * Re-encrypt one beneficiary's PII (including case notes, follow-up task details, condition notes,
+ * referral notes and decline reasons, sync conflict values and the condition notes kept in snapshots of its
+ * merges into other records) with the active encryption key and replace match keys hashed with other keys.
+ * Only match key types with stale keys are recomputed.
+ */
+export const rotateBeneficiaryKeys = async (
+  beneficiary: Beneficiary,
+  hashKeyId: string,
+  transaction: Transaction
+): Promise<{ reencryptedFields: number; rehashedKeys: number }> => {
+  const updates: Record<string, any> = {};
+  for (const field of ENCRYPTED_BENEFICIARY_FIELDS) {
+    const value = (beneficiary as any)[field];
+    if (needsReencryption(value)) updates[field] = reencryptField(value);
+  }
+  if (Object.keys(updates).length) {
+    await beneficiary.update(updates, { transaction });
+  }
+  let reencryptedFields = Object.keys(updates).length;
+
+  const notes = await BeneficiaryCaseNote.findAll({ where: { beneficiaryId: beneficiary.id }, attributes: ['id', 'bodyEnc'], transaction });
+  for (const note of notes.filter(n => needsReencryption(n.bodyEnc))) {
+    await note.update({ bodyEnc: reencryptField(note.bodyEnc) }, { transaction });
+    reencryptedFields++;
+  }
+  const tasks = await BeneficiaryFollowUpTask.findAll({ where: { beneficiaryId: beneficiary.id }, attributes: ['id', 'detailsEnc'], transaction });
+  for (const task of tasks.filter(t => needsReencryption(t.detailsEnc))) {
+    await task.update({ detailsEnc: reencryptField(task.detailsEnc) }, { transaction });
+    reencryptedFields++;
+  }
+  const conditions = await BeneficiaryCondition.findAll({ where: { beneficiaryId: beneficiary.id }, attributes: ['id', 'notesEnc'], transaction });
+  for (const condition of conditions.filter(c => needsReencryption(c.notesEnc))) {
+    await condition.update({ notesEnc: reencryptField(condition.notesEnc) }, { transaction });
+    reencryptedFields++;
+  }
+  const referrals = await BeneficiaryReferral.findAll({
+    where: { beneficiaryId: beneficiary.id },
+    attributes: ['id', 'notesEnc', 'declineReasonEnc'],
+    transaction,
+  });
+  for (const referral of referrals) {
+    const referralUpdates: Record<string, any> = {};
+    for (const field of ['notesEnc', 'declineReasonEnc'] as const) {
+      if (needsReencryption(referral[field])) referralUpdates[field] = reencryptField(referral[field]);
+    }
+    if (Object.keys(referralUpdates).length) {
+      await referral.update(referralUpdates, { transaction });
+      reencryptedFields += Object.keys(referralUpdates).length;
+    }
+  }
+  const conflicts = await SyncConflict.findAll({ where: { beneficiaryId: beneficiary.id }, attributes: ['id', 'valuesEnc'], transaction });
+  for (const conflict of conflicts.filter(c => needsReencryption(c.valuesEnc))) {
+    await conflict.update({ valuesEnc: reencryptField(conflict.valuesEnc) }, { transaction });
+    reencryptedFields++;
+  }
+  // Conditions dropped by a merge are kept in the merge for undo; they belonged to the merged record
+  const merges = await BeneficiaryMerge.findAll({ where: { mergedId: beneficiary.id }, attributes: ['id', 'changes'], transaction });
+  for (const merge of merges) {
+    const dropped: any[] = merge.changes?.droppedConditions || [];
+    const stale = dropped.filter(condition => needsReencryption(condition.notesEnc)).length;
+    if (!stale) continue;
+    const droppedConditions = dropped.map(condition => ({ ...condition, notesEnc: reencryptField(condition.notesEnc) }));
+    await merge.update({ changes: { ...merge.changes, droppedConditions } }, { transaction });
+    reencryptedFields += stale;
+  }
+
+  // Search tokens are rebuilt as a whole once any of them was hashed with an older key
+  const staleSearchTokens = await BeneficiarySearchToken.count({
+    where: { beneficiaryId: beneficiary.id, [Op.or]: [{ keyId: null }, { keyId: { [Op.ne]: hashKeyId } }] },
+    transaction,
+  });
+  if (staleSearchTokens) await refreshSearchTokens(beneficiary, transaction);
+
+  const keys = await BeneficiaryMatchKey.findAll({ where: { beneficiaryId: beneficiary.id }, transaction });
+  const stale = keys.filter(k => k.keyId !== hashKeyId);
+  if (!stale.length) {
+    return { reencryptedFields, rehashedKeys: 0 };
+  }
+
+  const keyTypes = new Set(stale.map(k => k.keyType));
+  const values = buildMatchKeyValues({
+    firstName: decryptField(beneficiary.firstNameEnc),
+    lastName: decryptField(beneficiary.lastNameEnc),
+    dob: decryptField(beneficiary.dobEnc),
+    nationalId: decryptField(beneficiary.nationalIdEnc),
+    phone: decryptField(beneficiary.phoneEnc),
+  }).filter(v => keyTypes.has(v.keyType));
+
+  const kept: string[] = [];
+  for (const { keyType, value } of values) {
+    const keyHash = hmacSha256(value);
+    const [key, created] = await BeneficiaryMatchKey.findOrCreate({
+      where: { keyType, keyHash },
+      defaults: { id: uuidv4(), beneficiaryId: beneficiary.id, keyType, keyHash, keyId: hashKeyId },
+      transaction,
+    });
+    // Keys hashed before key ids were recorded may already use the active key
+    if (!created && key.beneficiaryId === beneficiary.id && key.keyId !== hashKeyId) {
+      await key.update({ keyId: hashKeyId }, { transaction });
+    }
+    kept.push(key.id);
+  }
+
+  await BeneficiaryMatchKey.destroy({
+    where: {
+      beneficiaryId: beneficiary.id,
+      keyType: [...EXACT_MATCH_KEY_TYPES],
+      id: { [Op.notIn]: kept.length ? kept : [uuidv4()] },
+      [Op.or]: [{ keyId: null }, { keyId: { [Op.ne]: hashKeyId } }],
+    },
+    transaction,
+  });
+
+  // Blocking keys (duplicate detection) are rebuilt from the PII as a whole
+  const blockingTypes: readonly string[] = BLOCKING_KEY_TYPES;
+  const rehashedBlockingKeys = stale.some(k => blockingTypes.includes(k.keyType))
+    ? await refreshBlockingKeys(beneficiary, transaction)
+    : 0;
+
+  return { reencryptedFields, rehashedKeys: values.length + rehashedBlockingKeys };
+};
+
+/**
+ * Re-encrypt a household's address and municipality with the active encryption key
+ */
+export const rotateHouseholdKeys = async (household: Household, transaction: Transaction): Promise<number> => {
+  const updates: Record<string, any> = {};
+  for (const field of ENCRYPTED_HOUSEHOLD_FIELDS) {
+    if (needsReencryption(household[field])) updates[field] = reencryptField(household[field]);
+  }
+  if (Object.keys(updates).length) await household.update(updates, { transaction });
+  return Object.keys(updates).length;
+};
+
+const failJob = async (job: KeyRotationJob, message: string) => {
+  await job.update({ status: 'failed', lastError: message, finishedAt: new Date() });
+  await writeAudit(job.startedBy, 'KEY_ROTATION_FAIL', `Key rotation job failed: ${message}`, job);
+};
+
+/**
+ * Process a running job batch by batch until it completes, is paused, or fails.
+ * Progress is committed with each batch, so a restarted API continues after the last batch.
+ * Records that fail are counted in `errorCount` and skipped; start a new job to retry them.
+ */
+export const runKeyRotation = async (jobId: string): Promise<void> => {
+  if (runningJobs.has(jobId)) return;
+  runningJobs.add(jobId);
+
+  try {
+    for (;;) {
+      const job = await KeyRotationJob.findByPk(jobId);
+      if (!job || job.status !== 'running') return;
+
+      const active = getActiveKeyIds();
+      if (active.encKeyId !== job.encKeyId || active.hashKeyId !== job.hashKeyId) {
+        logger.warn('Active keys changed during key rotation', { jobId, ...active });
+        await failJob(job, `Active keys changed to ${active.encKeyId}/${active.hashKeyId} since the job started`);
+        return;
+      }
+
+      const done = await sequelize.transaction(async (transaction) => {
+        const households = job.phase === 'households';
+        const where = job.cursor ? { id: { [Op.gt]: job.cursor } } : {};
+        const batch: Array<Beneficiary | Household> = households
+          ? await Household.findAll({ where, order: [['id', 'ASC']], limit: KEY_ROTATION_BATCH_SIZE, transaction })
+          : await Beneficiary.findAll({ where, order: [['id', 'ASC']], limit: KEY_ROTATION_BATCH_SIZE, transaction });
+        if (!batch.length && !households) {
+          // Households are rotated on their own, including those without members
+          await job.update({ phase: 'households', cursor: null }, { transaction });
+          return false;
+        }
+        if (!batch.length) return true;
+
+        let reencryptedFields = 0;
+        let rehashedKeys = 0;
+        let errorCount = 0;
+        let lastError = job.lastError ?? null;
+        for (const record of batch) {
+          try {
+            // Savepoint per record, so one unreadable record does not roll back the batch
+            const counts = await sequelize.transaction({ transaction }, async (savepoint) => (households
+              ? { reencryptedFields: await rotateHouseholdKeys(record as Household, savepoint), rehashedKeys: 0 }
+              : rotateBeneficiaryKeys(record as Beneficiary, job.hashKeyId, savepoint)));
+            reencryptedFields += counts.reencryptedFields;
+            rehashedKeys += counts.rehashedKeys;
+          } catch (error: any) {
+            const kind = households ? 'Household' : 'Beneficiary';
+            errorCount += 1;
+            lastError = `${kind} ${record.id}: ${error.message}`;
+            logger.error(`Error rotating ${kind.toLowerCase()} keys`, { jobId, id: record.id, error: error.message });
+          }
+        }
+
+        await job.update({
+          cursor: batch[batch.length - 1].id,
+          processed: job.processed + batch.length,
+          reencryptedFields: job.reencryptedFields + reencryptedFields,
+          rehashedKeys: job.rehashedKeys + rehashedKeys,
+          errorCount: job.errorCount + errorCount,
+          lastError,
+        }, { transaction });
+        return false;
+      });
+
+      if (done) {
+        await job.update({ status: 'completed', total: Math.max(job.total, job.processed), finishedAt: new Date() });
+        await writeAudit(
+          job.startedBy,
+          'KEY_ROTATION_COMPLETE',
+          `Key rotation to ${job.encKeyId}/${job.hashKeyId} completed for ${job.processed} beneficiaries and households with ${job.errorCount} errors`,
+          job
+        );
+        logger.info('Key rotation completed', { jobId, processed: job.processed, errorCount: job.errorCount });
+        return;
+      }
+    }
+  } catch (error: any) {
+    logger.error('Key rotation job failed', { jobId, error: error.message });
+    const job = await KeyRotationJob.findByPk(jobId).catch(() => null);
+    if (job && job.status === 'running') await failJob(job, error.message).catch(() => undefined);
+  } finally {
+    runningJobs.delete(jobId);
+  }
+};
+
+const runInBackground = (jobId: string) => {
+  setImmediate(() => {
+    runKeyRotation(jobId).catch(error => logger.error('Key rotation job crashed', { jobId, error: error.message }));
+  });
+};
+
+/**
+ * Start a job that moves all beneficiaries and households to the active keys. Only one job may be running or paused.
+ */
+export const startKeyRotation = async (userId: string): Promise<KeyRotationResult> => {
+  const result = await sequelize.transaction(async (transaction): Promise<KeyRotationResult> => {
+    const inProgress = await KeyRotationJob.findOne({
+      where: { status: { [Op.in]: ['running', 'paused'] } },
+      transaction,
+    });
+    if (inProgress) {
+      return { success: false, status: 409, message: 'A key rotation job is already in progress', data: getKeyRotationProgress(inProgress) };
+    }
+
+    const { encKeyId, hashKeyId } = getActiveKeyIds();
+    const total = await Beneficiary.count({ transaction }) + await Household.count({ transaction });
+    const job = await KeyRotationJob.create({
+      id: uuidv4(),
+      status: 'running',
+      encKeyId,
+      hashKeyId,
+      total,
+      startedBy: userId,
+      startedAt: new Date(),
+    }, { transaction });
+
+    await writeAudit(userId, 'KEY_ROTATION_START', `Started key rotation to ${encKeyId}/${hashKeyId} for ${total} beneficiaries and households`, job, transaction);
+    return { success: true, status: 202, data: getKeyRotationProgress(job) };
+  });
+
+  if (result.success && result.data) runInBackground(result.data.id);
+  return result;
+};
+
+/**
+ * Pause a running job after its current batch
+ */
+export const pauseKeyRotation = async (jobId: string, userId: string): Promise<KeyRotationResult> => {
+  const job = await KeyRotationJob.findByPk(jobId);
+  if (!job) return { success: false, status: 404, message: 'Key rotation job not found' };
+  if (job.status !== 'running') {
+    return { success: false, status: 409, message: `Only running jobs can be paused (job is ${job.status})` };
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    await job.update({ status: 'paused' }, { transaction });
+    await writeAudit(userId, 'KEY_ROTATION_PAUSE', `Paused key rotation after ${job.processed} of ${job.total} records`, job, transaction);
+  });
+  return { success: true, status: 200, data: getKeyRotationProgress(job) };
+};
+
+/**
+ * Resume a paused or failed job from its cursor. The active keys must still be the job's target keys.
+ */
+export const resumeKeyRotation = async (jobId: string, userId: string): Promise<KeyRotationResult> => {
+  const job = await KeyRotationJob.findByPk(jobId);
+  if (!job) return { success: false, status: 404, message: 'Key rotation job not found' };
+  if (job.status !== 'paused' && job.status !== 'failed') {
+    return { success: false, status: 409, message: `Only paused or failed jobs can be resumed (job is ${job.status})` };
+  }
+  const { encKeyId, hashKeyId } = getActiveKeyIds();
+  if (encKeyId !== job.encKeyId || hashKeyId !== job.hashKeyId) {
+    return { success: false, status: 409, message: 'The active keys changed since this job started; start a new key rotation instead' };
+  }
+
+  const inProgress = await KeyRotationJob.findOne({
+    where: { id: { [Op.ne]: jobId }, status: { [Op.in]: ['running', 'paused'] } },
+  });
+  if (inProgress) {
+    return { success: false, status: 409, message: 'Another key rotation job is already in progress' };
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    await job.update({ status: 'running', finishedAt: null }, { transaction });
+    await writeAudit(userId, 'KEY_ROTATION_RESUME', `Resumed key rotation at ${job.processed} of ${job.total} records`, job, transaction);
+  });
+  runInBackground(job.id);
+  return { success: true, status: 202, data: getKeyRotationProgress(job) };
+};
+
+/**
+ * Continue jobs that were running when the API stopped. Called once on startup.
+ */
+export const resumeInterruptedKeyRotations = async (): Promise<void> => {
+  const jobs = await KeyRotationJob.findAll({ where: { status: 'running' } });
+  for (const job of jobs) {
+    logger.info('Resuming interrupted key rotation', { jobId: job.id, processed: job.processed, total: job.total });
+    runInBackground(job.id);
+  }
+};
+
+export default {
+  KEY_ROTATION_BATCH_SIZE,
+  ENCRYPTED_BENEFICIARY_FIELDS,
+  getKeyRotationProgress,
+  rotateBeneficiaryKeys,
+  rotateHouseholdKeys,
+  runKeyRotation,
+  startKeyRotation,
+  pauseKeyRotation,
+  resumeKeyRotation,
+  resumeInterruptedKeyRotations,
+};
@@ -0,0 +1,365 @@
+/**
+ * Beneficiary lifecycle per program (BeneficiaryAssignment): referral, enrollment, suspension,
+ * graduation, exit and death, with effective dates and history. Reporting replays the history to
+ * count the active caseload at any point in time and to build enrollment funnels.
+ *
+ * Assignments created without an explicit status (sync, imports) hold their status since creation.
+ */
+
+import { Op, Transaction, literal } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditLog, Beneficiary, BeneficiaryAssignment, BeneficiaryAssignmentStatusChange, Subproject } from '../../models';
+import { countFollowUpTasks } from './caseManagementService';
+import {
+  ACTIVE_CASELOAD_STATUSES,
+  ASSIGNMENT_LIFECYCLE_STATUSES,
+  ASSIGNMENT_LIFECYCLE_TRANSITIONS,
+  AssignmentLifecycleStatus,
+  EXIT_REASONS,
+  ExitReason,
+} from '../../constants/lifecycle';
+
+export type LifecycleResult<T = any> = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: T;
+};
+
+export type StatusChangeInput = {
+  status: string;
+  effectiveAt?: string | Date | null;
+  exitReason?: string | null;
+  note?: string | null;
+};
+
+type TimelineAssignment = {
+  id: string;
+  beneficiaryId: string;
+  lifecycleStatus: AssignmentLifecycleStatus;
+  createdAt: Date | string;
+};
+
+type TimelineChange = {
+  assignmentId: string;
+  fromStatus?: AssignmentLifecycleStatus | null;
+  toStatus: AssignmentLifecycleStatus;
+  effectiveAt: Date | string;
+  exitReason?: ExitReason | null;
+};
+
+export type TimelineEvent = { status: AssignmentLifecycleStatus; at: Date; exitReason?: ExitReason | null };
+
+// When a beneficiary has several assignments in scope (project and its subprojects), the most active status counts
+const STATUS_PRIORITY: AssignmentLifecycleStatus[] = ['enrolled', 'suspended', 'referred', 'graduated', 'exited', 'deceased'];
+
+export const isLifecycleStatus = (value: any): value is AssignmentLifecycleStatus =>
+  (ASSIGNMENT_LIFECYCLE_STATUSES as readonly string[]).includes(value);
+
+export const isExitReason = (value: any): value is ExitReason =>
+  (EXIT_REASONS as readonly string[]).includes(value);
+
+export const canTransition = (from: AssignmentLifecycleStatus, to: AssignmentLifecycleStatus) =>
+  ASSIGNMENT_LIFECYCLE_TRANSITIONS[from].includes(to);
+
+const writeAudit = (userId: string, action: string, description: string, details: any, transaction: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(details),
+    timestamp: new Date(),
+  }, { transaction });
+
+/**
+ * Status events of one assignment in effective order. The status held before the first recorded
+ * change (or the current status when nothing was recorded) starts when the assignment was created.
+ */
+export const buildTimeline = (assignment: TimelineAssignment, changes: TimelineChange[]): TimelineEvent[] => {
+  const sorted = [...changes].sort((a, b) => new Date(a.effectiveAt).getTime() - new Date(b.effectiveAt).getTime());
+  const initial = sorted.length ? sorted[0].fromStatus : assignment.lifecycleStatus;
+  // A backdated first change may precede the creation of the record
+  const start = Math.min(new Date(assignment.createdAt).getTime(), ...sorted.slice(0, 1).map(c => new Date(c.effectiveAt).getTime()));
+  const events: TimelineEvent[] = initial ? [{ status: initial, at: new Date(start) }] : [];
+  for (const change of sorted) {
+    events.push({ status: change.toStatus, at: new Date(change.effectiveAt), exitReason: change.exitReason ?? null });
+  }
+  return events;
+};
+
+/** Status at a point in time, or null when the beneficiary was not yet in the program */
+export const statusAt = (timeline: TimelineEvent[], at: Date): AssignmentLifecycleStatus | null => {
+  let status: AssignmentLifecycleStatus | null = null;
+  for (const event of timeline) {
+    if (event.at.getTime() > at.getTime()) break;
+    status = event.status;
+  }
+  return status;
+};
+
+const mostActive = (statuses: AssignmentLifecycleStatus[]) =>
+  STATUS_PRIORITY.find(s => statuses.includes(s)) ?? null;
+
+/**
+ * Caseload, status distribution, funnel and exits of a set of assignments over [from, to].
+ * Beneficiaries are counted once, however many assignments they have in scope.
+ */
+export const summarizeLifecycle = (
+  assignments: TimelineAssignment[],
+  changes: TimelineChange[],
+  range: { from?: Date | null; to: Date }
+) => {
+  const changesByAssignment = new Map<string, TimelineChange[]>();
+  for (const change of changes) {
+    const list = changesByAssignment.get(change.assignmentId) || [];
+    list.push(change);
+    changesByAssignment.set(change.assignmentId, list);
+  }
+  const timelines = assignments.map(a => [a, buildTimeline(a, changesByAssignment.get(a.id) || [])] as const);
+
+  const statusesAt = (at: Date) => {
+    const byBeneficiary = new Map<string, AssignmentLifecycleStatus[]>();
+    for (const [assignment, timeline] of timelines) {
+      const status = statusAt(timeline, at);
+      if (!status) continue;
+      byBeneficiary.set(assignment.beneficiaryId, [...(byBeneficiary.get(assignment.beneficiaryId) || []), status]);
+    }
+    const result = new Map<string, AssignmentLifecycleStatus>();
+    for (const [beneficiaryId, statuses] of byBeneficiary) result.set(beneficiaryId, mostActive(statuses)!);
+    return result;
+  };
+  const countActive = (statuses: Map<string, AssignmentLifecycleStatus>) =>
+    Array.from(statuses.values()).filter(s => ACTIVE_CASELOAD_STATUSES.includes(s)).length;
+
+  const from = range.from ?? null;
+  const inRange = (at: Date) => (!from || at.getTime() >= from.getTime()) && at.getTime() <= range.to.getTime();
+
+  // Beneficiaries who entered each status during the range
+  const entered = new Map<AssignmentLifecycleStatus, Set<string>>(ASSIGNMENT_LIFECYCLE_STATUSES.map(s => [s, new Set<string>()]));
+  const exitReasons: Record<string, Set<string>> = {};
+  for (const [assignment, timeline] of timelines) {
+    for (const event of timeline) {
+      if (!inRange(event.at)) continue;
+      entered.get(event.status)!.add(assignment.beneficiaryId);
+      if (event.status === 'exited') {
+        const reason = event.exitReason || 'other';
+        (exitReasons[reason] = exitReasons[reason] || new Set<string>()).add(assignment.beneficiaryId);
+      }
+    }
+  }
+
+  const atEnd = statusesAt(range.to);
+  const byStatus = Object.fromEntries(ASSIGNMENT_LIFECYCLE_STATUSES.map(s => [s, 0])) as Record<AssignmentLifecycleStatus, number>;
+  for (const status of atEnd.values()) byStatus[status]++;
+
+  return {
+    range: { from, to: range.to },
+    activeCaseload: {
+      atStart: from ? countActive(statusesAt(from)) : null,
+      atEnd: countActive(atEnd),
+    },
+    byStatus,
+    funnel: (['referred', 'enrolled', 'graduated'] as AssignmentLifecycleStatus[]).map(stage => ({ stage, count: entered.get(stage)!.size })),
+    exits: {
+      count: entered.get('exited')!.size,
+      byReason: Object.fromEntries(Object.entries(exitReasons).map(([reason, ids]) => [reason, ids.size])),
+    },
+    deceased: entered.get('deceased')!.size,
+  };
+};
+
+/**
+ * Assignments of a project (including its subprojects) or of a subproject
+ */
+export const loadScopeAssignments = async (entityId: string, entityType: 'project' | 'subproject') => {
+  const scope: any[] = [{ entityType, entityId }];
+  if (entityType === 'project') {
+    const subs = await Subproject.findAll({ where: { projectId: entityId }, attributes: ['id'] });
+    if (subs.length) scope.push({ entityType: 'subproject', entityId: subs.map(s => s.id) });
+  }
+  return BeneficiaryAssignment.findAll({
+    where: { [Op.or]: scope },
+    attributes: ['id', 'beneficiaryId', 'lifecycleStatus', 'createdAt'],
+  });
+};
+
+export const buildLifecycleReport = async (
+  entityId: string,
+  entityType: 'project' | 'subproject',
+  range: { from?: Date | null; to: Date }
+) => {
+  const assignments = await loadScopeAssignments(entityId, entityType);
+  const changes = assignments.length
+    ? await BeneficiaryAssignmentStatusChange.findAll({
+        where: { assignmentId: assignments.map(a => a.id), effectiveAt: { [Op.lte]: range.to } },
+        attributes: ['assignmentId', 'fromStatus', 'toStatus', 'effectiveAt', 'exitReason'],
+      })
+    : [];
+  const beneficiaryIds = Array.from(new Set(assignments.map(a => a.beneficiaryId)));
+  return {
+    entityId,
+    entityType,
+    followUpTasks: await countFollowUpTasks({ beneficiaryIds }),
+    ...summarizeLifecycle(
+      assignments.map(a => a.get({ plain: true }) as TimelineAssignment),
+      changes.map(c => c.get({ plain: true }) as TimelineChange),
+      range
+    ),
+  };
+};
+
+/**
+ * Assignments of a beneficiary with their status history
+ */
+export const listAssignmentLifecycles = (beneficiaryId: string, transaction?: Transaction) =>
+  BeneficiaryAssignment.findAll({
+    where: { beneficiaryId },
+    include: [{ model: BeneficiaryAssignmentStatusChange, as: 'statusChanges' }],
+    order: [['createdAt', 'ASC'], [{ model: BeneficiaryAssignmentStatusChange, as: 'statusChanges' }, 'effectiveAt', 'ASC']],
+    transaction,
+  });
+
+const validateInput = (input: StatusChangeInput): LifecycleResult<{ status: AssignmentLifecycleStatus; effectiveAt: Date; exitReason: ExitReason | null }> => {
+  if (!isLifecycleStatus(input?.status)) {
+    return { success: false, status: 400, message: `status must be one of: ${ASSIGNMENT_LIFECYCLE_STATUSES.join(', ')}` };
+  }
+  const effectiveAt = input.effectiveAt ? new Date(input.effectiveAt) : new Date();
+  if (Number.isNaN(effectiveAt.getTime())) {
+    return { success: false, status: 400, message: 'effectiveAt must be a valid date' };
+  }
+  if (effectiveAt.getTime() > Date.now()) {
+    return { success: false, status: 400, message: 'effectiveAt cannot be in the future' };
+  }
+  if (input.status === 'exited' && !isExitReason(input.exitReason)) {
+    return { success: false, status: 400, message: `exitReason is required when exiting (one of: ${EXIT_REASONS.join(', ')})` };
+  }
+  if (input.status !== 'exited' && input.exitReason) {
+    return { success: false, status: 400, message: 'exitReason only applies when exiting' };
+  }
+  return { success: true, status: 200, data: { status: input.status, effectiveAt, exitReason: (input.exitReason as ExitReason) ?? null } };
+};
+
+const applyStatus = async (
+  assignment: BeneficiaryAssignment,
+  change: { status: AssignmentLifecycleStatus; effectiveAt: Date; exitReason: ExitReason | null; note: string | null },
+  userId: string,
+  transaction: Transaction
+) => {
+  const row = await BeneficiaryAssignmentStatusChange.create({
+    id: uuidv4(),
+    assignmentId: assignment.id,
+    fromStatus: assignment.lifecycleStatus,
+    toStatus: change.status,
+    effectiveAt: change.effectiveAt,
+    exitReason: change.exitReason,
+    note: change.note,
+    changedBy: userId,
+  }, { transaction });
+  await assignment.update({
+    lifecycleStatus: change.status,
+    statusEffectiveAt: change.effectiveAt,
+    exitReason: change.exitReason,
+  }, { transaction });
+  return row;
+};
+
+/**
+ * Initial status of an assignment created with an explicit status (e.g. a referral)
+ */
+export const recordInitialStatus = async (
+  assignment: BeneficiaryAssignment,
+  input: StatusChangeInput,
+  userId: string,
+  transaction?: Transaction
+): Promise<LifecycleResult> => {
+  const validated = validateInput(input);
+  if (!validated.success) return validated;
+  const { status, effectiveAt, exitReason } = validated.data!;
+
+  await BeneficiaryAssignmentStatusChange.create({
+    id: uuidv4(),
+    assignmentId: assignment.id,
+    fromStatus: null,
+    toStatus: status,
+    effectiveAt,
+    exitReason,
+    note: input.note ?? null,
+    changedBy: userId,
+  }, { transaction });
+  await assignment.update({ lifecycleStatus: status, statusEffectiveAt: effectiveAt, exitReason }, { transaction });
+  return { success: true, status: 200, data: assignment };
+};
+
+/**
+ * Change the lifecycle status of one assignment. A death is recorded on every assignment of the
+ * beneficiary and makes the beneficiary inactive.
+ */
+export const changeAssignmentStatus = async (
+  beneficiaryId: string,
+  assignmentId: string,
+  input: StatusChangeInput,
+  userId: string,
+  transaction: Transaction
+): Promise<LifecycleResult> => {
+  const validated = validateInput(input);
+  if (!validated.success) return validated;
+  const { status, effectiveAt, exitReason } = validated.data!;
+  const note = input.note ? String(input.note) : null;
+
+  const assignment = await BeneficiaryAssignment.findOne({
+    where: { id: assignmentId, beneficiaryId },
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (!assignment) return { success: false, status: 404, message: 'Assignment not found' };
+
+  if (assignment.lifecycleStatus === status) {
+    return { success: false, status: 409, message: `Beneficiary is already ${status} in this program` };
+  }
+  if (!canTransition(assignment.lifecycleStatus, status)) {
+    return { success: false, status: 409, message: `Cannot change status from ${assignment.lifecycleStatus} to ${status}` };
+  }
+  if (assignment.statusEffectiveAt && effectiveAt.getTime() < new Date(assignment.statusEffectiveAt).getTime()) {
+    return { success: false, status: 400, message: 'effectiveAt cannot be earlier than the current status' };
+  }
+
+  const change = await applyStatus(assignment, { status, effectiveAt, exitReason, note }, userId, transaction);
+
+  const alsoChanged: string[] = [];
+  if (status === 'deceased') {
+    const others = await BeneficiaryAssignment.findAll({
+      where: { beneficiaryId, id: { [Op.ne]: assignmentId }, lifecycleStatus: { [Op.ne]: 'deceased' } },
+      transaction,
+    });
+    for (const other of others) {
+      await applyStatus(other, { status, effectiveAt, exitReason: null, note }, userId, transaction);
+      alsoChanged.push(other.id);
+    }
+    await Beneficiary.update({ status: 'inactive', version: literal('"version" + 1') }, { where: { id: beneficiaryId }, transaction });
+  }
+
+  await writeAudit(userId, 'BENEFICIARY_LIFECYCLE_CHANGE', `Changed beneficiary lifecycle status to ${status} in ${assignment.entityType} ${assignment.entityId}`, {
+    beneficiaryId,
+    assignmentId,
+    entityId: assignment.entityId,
+    entityType: assignment.entityType,
+    fromStatus: change.fromStatus,
+    toStatus: status,
+    effectiveAt,
+    exitReason,
+    alsoChanged,
+  }, transaction);
+
+  return { success: true, status: 200, data: { assignment, change, alsoChanged } };
+};
+
+export default {
+  buildTimeline,
+  statusAt,
+  summarizeLifecycle,
+  buildLifecycleReport,
+  listAssignmentLifecycles,
+  recordInitialStatus,
+  changeAssignmentStatus,
+};
@@ -0,0 +1,394 @@
+/**
+ * Merging duplicate beneficiaries.
+ *
+ * The merged record is kept (archived, `mergedIntoId` set) and everything linked to it is re-pointed
+ * to the survivor. BeneficiaryMerge.changes records each moved row and the state it replaced, so
+ * undoing a merge moves exactly those rows back; rows created for the survivor afterwards stay.
+ * The audit log only gets ids and counts: the snapshot holds health data (details, dropped conditions).
+ */
+
+import { Transaction, literal } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AuditLog,
+  Beneficiary,
+  BeneficiaryAssignment,
+  BeneficiaryAssignmentStatusChange,
+  BeneficiaryCaseNote,
+  BeneficiaryCondition,
+  BeneficiaryConsent,
+  BeneficiaryDetails,
+  BeneficiaryDuplicateCandidate,
+  BeneficiaryMatchKey,
+  BeneficiaryFollowUpTask,
+  BeneficiaryMerge,
+  BeneficiaryReferral,
+  FormResponse,
+  HouseholdMember,
+  ServiceDelivery,
+} from '../../models';
+import { BLOCKING_KEY_TYPES, EXACT_MATCH_KEY_TYPES } from '../../constants/matchKeys';
+import { refreshBlockingKeys } from './duplicateService';
+
+export type MergeResult = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: BeneficiaryMerge;
+};
+
+export type MergeChanges = {
+  formResponseIds: string[];
+  serviceDeliveryIds: string[];
+  movedAssignmentIds: string[];
+  droppedAssignments: any[]; // merged record's assignments to entities the survivor already had
+  droppedStatusChanges?: any[]; // lifecycle history of the dropped assignments
+  movedDetailsId: string | null;
+  survivorDetails: any | null; // survivor's details before merging in the merged record's details
+  matchKeyIds: string[]; // exact match keys moved to the survivor
+  householdMemberId?: string | null; // merged record's household membership taken over by the survivor
+  consentIds?: string[]; // consents given by the merged record, now held by the survivor
+  caseNoteIds?: string[];
+  followUpTaskIds?: string[];
+  referralIds?: string[];
+  conditionIds?: string[]; // health profile conditions moved to the survivor
+  droppedConditions?: any[]; // merged record's conditions with codes the survivor already had
+  mergedState: { status: string; isArchived: boolean; archivedAt: Date | null };
+};
+
+/** Number of rows of each kind a merge moved or dropped, for the audit log */
+export const countMergeChanges = (changes: MergeChanges) => ({
+  formResponses: changes.formResponseIds.length,
+  serviceDeliveries: changes.serviceDeliveryIds.length,
+  movedAssignments: changes.movedAssignmentIds.length,
+  droppedAssignments: changes.droppedAssignments.length,
+  details: changes.movedDetailsId ? 'moved' : changes.survivorDetails ? 'merged' : 'none',
+  matchKeys: changes.matchKeyIds.length,
+  householdMember: Boolean(changes.householdMemberId),
+  consents: changes.consentIds?.length ?? 0,
+  caseNotes: changes.caseNoteIds?.length ?? 0,
+  followUpTasks: changes.followUpTaskIds?.length ?? 0,
+  referrals: changes.referralIds?.length ?? 0,
+  conditions: changes.conditionIds?.length ?? 0,
+  droppedConditions: changes.droppedConditions?.length ?? 0,
+});
+
+const isBlank = (value: any) => value === undefined || value === null || value === '' || (Array.isArray(value) && !value.length);
+
+/**
+ * Combine extended details: the survivor's values win, blanks are filled from the merged record
+ * and arrays (e.g. chronicConditionCodes) are united.
+ */
+export const mergeDetails = (survivor: any, merged: any): any => {
+  const result: any = { ...(survivor || {}) };
+  for (const [key, value] of Object.entries(merged || {})) {
+    if (isBlank(result[key])) result[key] = value;
+    else if (Array.isArray(result[key]) && Array.isArray(value)) {
+      result[key] = Array.from(new Set([...result[key], ...value]));
+    }
+  }
+  return result;
+};
+
+/**
+ * Merge `mergedId` into `survivorId`. An optional duplicate candidate for the pair is marked merged.
+ */
+export const mergeBeneficiaries = async (
+  params: { survivorId: string; mergedId: string; candidateId?: string | null; userId: string },
+  transaction: Transaction
+): Promise<MergeResult> => {
+  const { survivorId, mergedId, candidateId, userId } = params;
+  if (survivorId === mergedId) {
+    return { success: false, status: 400, message: 'survivorId and mergedId must be different beneficiaries' };
+  }
+
+  const [survivor, merged] = await Promise.all([
+    Beneficiary.findByPk(survivorId, { transaction, lock: transaction.LOCK.UPDATE }),
+    Beneficiary.findByPk(mergedId, { transaction, lock: transaction.LOCK.UPDATE }),
+  ]);
+  if (!survivor || !merged) {
+    return { success: false, status: 404, message: 'Beneficiary not found' };
+  }
+  if (survivor.isArchived || merged.isArchived) {
+    return { success: false, status: 409, message: 'Archived or already merged beneficiaries cannot be merged' };
+  }
+
+  const [beneficiaryAId, beneficiaryBId] = [survivorId, mergedId].sort();
+  const candidate = candidateId
+    ? await BeneficiaryDuplicateCandidate.findByPk(candidateId, { transaction })
+    : await BeneficiaryDuplicateCandidate.findOne({ where: { beneficiaryAId, beneficiaryBId }, transaction });
+  if (candidateId && !candidate) {
+    return { success: false, status: 404, message: 'Duplicate candidate not found' };
+  }
+  if (candidate && (candidate.beneficiaryAId !== beneficiaryAId || candidate.beneficiaryBId !== beneficiaryBId)) {
+    return { success: false, status: 400, message: 'Duplicate candidate does not match the given beneficiaries' };
+  }
+
+  const changes: MergeChanges = {
+    formResponseIds: [],
+    serviceDeliveryIds: [],
+    movedAssignmentIds: [],
+    droppedAssignments: [],
+    movedDetailsId: null,
+    survivorDetails: null,
+    matchKeyIds: [],
+    householdMemberId: null,
+    consentIds: [],
+    caseNoteIds: [],
+    followUpTaskIds: [],
+    referralIds: [],
+    conditionIds: [],
+    droppedConditions: [],
+    mergedState: { status: merged.status, isArchived: merged.isArchived, archivedAt: merged.archivedAt ?? null },
+  };
+
+  // Form responses and service deliveries
+  const responses = await FormResponse.findAll({ where: { beneficiaryId: mergedId }, attributes: ['id'], transaction });
+  changes.formResponseIds = responses.map(r => r.id);
+  if (changes.formResponseIds.length) {
+    await FormResponse.update({ beneficiaryId: survivorId }, { where: { id: changes.formResponseIds }, transaction });
+  }
+  const deliveries = await ServiceDelivery.findAll({ where: { beneficiaryId: mergedId }, attributes: ['id'], transaction });
+  changes.serviceDeliveryIds = deliveries.map(d => d.id);
+  if (changes.serviceDeliveryIds.length) {
+    await ServiceDelivery.update({ beneficiaryId: survivorId }, { where: { id: changes.serviceDeliveryIds }, transaction });
+  }
+
+  // Entity assignments (one per entity)
+  const survivorAssignments = await BeneficiaryAssignment.findAll({ where: { beneficiaryId: survivorId }, transaction });
+  const assigned = new Set(survivorAssignments.map(a => `${a.entityType}:${a.entityId}`));
+  const mergedAssignments = await BeneficiaryAssignment.findAll({ where: { beneficiaryId: mergedId }, transaction });
+  for (const assignment of mergedAssignments) {
+    if (assigned.has(`${assignment.entityType}:${assignment.entityId}`)) {
+      changes.droppedAssignments.push(assignment.toJSON());
+      const history = await BeneficiaryAssignmentStatusChange.findAll({ where: { assignmentId: assignment.id }, transaction });
+      changes.droppedStatusChanges = [...(changes.droppedStatusChanges || []), ...history.map(h => h.toJSON())];
+      await assignment.destroy({ transaction });
+    } else {
+      changes.movedAssignmentIds.push(assignment.id);
+      await assignment.update({ beneficiaryId: survivorId }, { transaction });
+    }
+  }
+
+  // Extended details (one row per beneficiary)
+  const [survivorDetails, mergedDetails] = await Promise.all([
+    BeneficiaryDetails.findOne({ where: { beneficiaryId: survivorId }, transaction }),
+    BeneficiaryDetails.findOne({ where: { beneficiaryId: mergedId }, transaction }),
+  ]);
+  if (mergedDetails && !survivorDetails) {
+    changes.movedDetailsId = mergedDetails.id;
+    await mergedDetails.update({ beneficiaryId: survivorId }, { transaction });
+  } else if (mergedDetails && survivorDetails) {
+    changes.survivorDetails = survivorDetails.details;
+    await survivorDetails.update({ details: mergeDetails(survivorDetails.details, mergedDetails.details) }, { transaction });
+  }
+
+  // Exact match keys follow the survivor so future submissions match it; blocking keys are rebuilt on undo
+  const matchKeys = await BeneficiaryMatchKey.findAll({
+    where: { beneficiaryId: mergedId, keyType: [...EXACT_MATCH_KEY_TYPES] },
+    attributes: ['id'],
+    transaction,
+  });
+  changes.matchKeyIds = matchKeys.map(k => k.id);
+  if (changes.matchKeyIds.length) {
+    await BeneficiaryMatchKey.update({ beneficiaryId: survivorId }, { where: { id: changes.matchKeyIds }, transaction });
+  }
+  await BeneficiaryMatchKey.destroy({ where: { beneficiaryId: mergedId, keyType: [...BLOCKING_KEY_TYPES] }, transaction });
+
+  // Household membership: the survivor takes the merged record's place unless it already has a household
+  const [survivorMembership, mergedMembership] = await Promise.all([
+    HouseholdMember.findOne({ where: { beneficiaryId: survivorId }, transaction }),
+    HouseholdMember.findOne({ where: { beneficiaryId: mergedId }, transaction }),
+  ]);
+  if (mergedMembership && !survivorMembership) {
+    changes.householdMemberId = mergedMembership.id;
+    await mergedMembership.update({ beneficiaryId: survivorId }, { transaction });
+  }
+
+  // Consents were given by the same person, so they follow the survivor
+  const consents = await BeneficiaryConsent.findAll({ where: { beneficiaryId: mergedId }, attributes: ['id'], transaction });
+  changes.consentIds = consents.map(c => c.id);
+  if (changes.consentIds.length) {
+    await BeneficiaryConsent.update({ beneficiaryId: survivorId }, { where: { id: changes.consentIds }, transaction });
+  }
+
+  // Case notes and follow-up tasks
+  const notes = await BeneficiaryCaseNote.findAll({ where: { beneficiaryId: mergedId }, attributes: ['id'], transaction });
+  changes.caseNoteIds = notes.map(n => n.id);
+  if (changes.caseNoteIds.length) {
+    await BeneficiaryCaseNote.update({ beneficiaryId: survivorId }, { where: { id: changes.caseNoteIds }, transaction });
+  }
+  const tasks = await BeneficiaryFollowUpTask.findAll({ where: { beneficiaryId: mergedId }, attributes: ['id'], transaction });
+  changes.followUpTaskIds = tasks.map(t => t.id);
+  if (changes.followUpTaskIds.length) {
+    await BeneficiaryFollowUpTask.update({ beneficiaryId: survivorId }, { where: { id: changes.followUpTaskIds }, transaction });
+  }
+
+  const referrals = await BeneficiaryReferral.findAll({ where: { beneficiaryId: mergedId }, attributes: ['id'], transaction });
+  changes.referralIds = referrals.map(r => r.id);
+  if (changes.referralIds.length) {
+    await BeneficiaryReferral.update({ beneficiaryId: survivorId }, { where: { id: changes.referralIds }, transaction });
+  }
+
+  // Health profile (one condition per code): the survivor's record of a code wins
+  const survivorConditions = await BeneficiaryCondition.findAll({ where: { beneficiaryId: survivorId }, attributes: ['icd10CodeId'], transaction });
+  const recorded = new Set(survivorConditions.map(c => c.icd10CodeId));
+  const mergedConditions = await BeneficiaryCondition.findAll({ where: { beneficiaryId: mergedId }, transaction });
+  for (const condition of mergedConditions) {
+    if (recorded.has(condition.icd10CodeId)) {
+      changes.droppedConditions!.push(condition.toJSON());
+      await condition.destroy({ transaction });
+    } else {
+      changes.conditionIds!.push(condition.id);
+      await condition.update({ beneficiaryId: survivorId }, { transaction });
+    }
+  }
+
+  await merged.update({ status: 'inactive', isArchived: true, archivedAt: new Date(), mergedIntoId: survivorId }, { transaction });
+
+  if (candidate) {
+    await candidate.update({ status: 'merged', reviewedBy: userId, reviewedAt: new Date() }, { transaction });
+  }
+
+  const merge = await BeneficiaryMerge.create({
+    id: uuidv4(),
+    survivorId,
+    mergedId,
+    candidateId: candidate?.id ?? null,
+    status: 'merged',
+    changes,
+    mergedBy: userId,
+    mergedAt: new Date(),
+  }, { transaction });
+
+  await AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action: 'BENEFICIARY_MERGE',
+    description: `Merged beneficiary '${merged.pseudonym}' into '${survivor.pseudonym}'`,
+    details: JSON.stringify({ mergeId: merge.id, survivorId, mergedId, candidateId: candidate?.id ?? null, counts: countMergeChanges(changes) }),
+    timestamp: new Date(),
+  }, { transaction });
+
+  return { success: true, status: 201, data: merge };
+};
+
+/**
+ * Undo a merge: restore the merged record and move the rows recorded in the merge back to it.
+ * A survivor that was itself merged afterwards must be restored first; merges of erased records stay.
+ */
+export const undoBeneficiaryMerge = async (mergeId: string, userId: string, transaction: Transaction): Promise<MergeResult> => {
+  const merge = await BeneficiaryMerge.findByPk(mergeId, { transaction, lock: transaction.LOCK.UPDATE });
+  if (!merge) return { success: false, status: 404, message: 'Merge not found' };
+  if (merge.status !== 'merged') return { success: false, status: 409, message: 'Merge was already undone' };
+
+  const [survivor, merged] = await Promise.all([
+    Beneficiary.findByPk(merge.survivorId, { transaction }),
+    Beneficiary.findByPk(merge.mergedId, { transaction }),
+  ]);
+  if (!survivor || !merged) return { success: false, status: 404, message: 'Beneficiary not found' };
+  if (merged.mergedIntoId !== survivor.id) {
+    return { success: false, status: 409, message: 'The merged beneficiary was changed after the merge' };
+  }
+  if (survivor.isArchived) {
+    return { success: false, status: 409, message: 'The surviving beneficiary was merged again; undo that merge first' };
+  }
+  // Undoing would bring back the dropped conditions and details erasure removed
+  if (survivor.erasedAt || merged.erasedAt) {
+    return { success: false, status: 409, message: 'Merges of erased beneficiaries cannot be undone' };
+  }
+
+  const changes: MergeChanges = merge.changes;
+  const { survivorId, mergedId } = merge;
+
+  if (changes.formResponseIds.length) {
+    await FormResponse.update({ beneficiaryId: mergedId }, { where: { id: changes.formResponseIds, beneficiaryId: survivorId }, transaction });
+  }
+  if (changes.serviceDeliveryIds.length) {
+    await ServiceDelivery.update({ beneficiaryId: mergedId }, { where: { id: changes.serviceDeliveryIds, beneficiaryId: survivorId }, transaction });
+  }
+  if (changes.movedAssignmentIds.length) {
+    await BeneficiaryAssignment.update({ beneficiaryId: mergedId }, { where: { id: changes.movedAssignmentIds, beneficiaryId: survivorId }, transaction });
+  }
+  const restoredAssignmentIds: string[] = [];
+  for (const assignment of changes.droppedAssignments) {
+    const [, created] = await BeneficiaryAssignment.findOrCreate({
+      where: { beneficiaryId: mergedId, entityId: assignment.entityId, entityType: assignment.entityType },
+      defaults: assignment,
+      transaction,
+    });
+    if (created) restoredAssignmentIds.push(assignment.id);
+  }
+  const restoredHistory = (changes.droppedStatusChanges || []).filter(h => restoredAssignmentIds.includes(h.assignmentId));
+  if (restoredHistory.length) {
+    await BeneficiaryAssignmentStatusChange.bulkCreate(restoredHistory, { transaction });
+  }
+
+  if (changes.movedDetailsId) {
+    await BeneficiaryDetails.update({ beneficiaryId: mergedId, version: literal('"version" + 1') }, { where: { id: changes.movedDetailsId }, transaction });
+  } else if (changes.survivorDetails) {
+    await BeneficiaryDetails.update({ details: changes.survivorDetails, version: literal('"version" + 1') }, { where: { beneficiaryId: survivorId }, transaction });
+  }
+
+  if (changes.matchKeyIds.length) {
+    await BeneficiaryMatchKey.update({ beneficiaryId: mergedId }, { where: { id: changes.matchKeyIds, beneficiaryId: survivorId }, transaction });
+  }
+
+  if (changes.householdMemberId) {
+    await HouseholdMember.update({ beneficiaryId: mergedId }, { where: { id: changes.householdMemberId, beneficiaryId: survivorId }, transaction });
+  }
+
+  if (changes.consentIds?.length) {
+    await BeneficiaryConsent.update({ beneficiaryId: mergedId }, { where: { id: changes.consentIds, beneficiaryId: survivorId }, transaction });
+  }
+
+  if (changes.caseNoteIds?.length) {
+    await BeneficiaryCaseNote.update({ beneficiaryId: mergedId }, { where: { id: changes.caseNoteIds, beneficiaryId: survivorId }, transaction });
+  }
+  if (changes.followUpTaskIds?.length) {
+    await BeneficiaryFollowUpTask.update({ beneficiaryId: mergedId }, { where: { id: changes.followUpTaskIds, beneficiaryId: survivorId }, transaction });
+  }
+  if (changes.referralIds?.length) {
+    await BeneficiaryReferral.update({ beneficiaryId: mergedId }, { where: { id: changes.referralIds, beneficiaryId: survivorId }, transaction });
+  }
+  if (changes.conditionIds?.length) {
+    await BeneficiaryCondition.update({ beneficiaryId: mergedId }, { where: { id: changes.conditionIds, beneficiaryId: survivorId }, transaction });
+  }
+  for (const condition of changes.droppedConditions || []) {
+    await BeneficiaryCondition.findOrCreate({
+      where: { beneficiaryId: mergedId, icd10CodeId: condition.icd10CodeId },
+      defaults: condition,
+      transaction,
+    });
+  }
+
+  await merged.update({ ...changes.mergedState, mergedIntoId: null }, { transaction });
+  await refreshBlockingKeys(merged, transaction);
+
+  if (merge.candidateId) {
+    await BeneficiaryDuplicateCandidate.update(
+      { status: 'pending', reviewedBy: null, reviewedAt: null },
+      { where: { id: merge.candidateId }, transaction }
+    );
+  }
+
+  await merge.update({ status: 'undone', undoneBy: userId, undoneAt: new Date() }, { transaction });
+
+  await AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action: 'BENEFICIARY_MERGE_UNDO',
+    description: `Undid merge of beneficiary '${merged.pseudonym}' into '${survivor.pseudonym}'`,
+    details: JSON.stringify({ mergeId: merge.id, survivorId, mergedId, candidateId: merge.candidateId ?? null }),
+    timestamp: new Date(),
+  }, { transaction });
+
+  return { success: true, status: 200, data: merge };
+};
+
+export default {
+  countMergeChanges,
+  mergeDetails,
+  mergeBeneficiaries,
+  undoBeneficiaryMerge,
+};
@@ -0,0 +1,487 @@
+/**
+ * Referrals of beneficiaries between projects, subprojects, activities and partner organizations
+ * (e.g. outside clinics). The receiving side accepts or declines a referral; it is completed once the
+ * requested service was provided, linked to the ServiceDelivery that closed the loop when there is one.
+ */
+
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { Activity, AuditLog, Beneficiary, BeneficiaryReferral, Project, Service, ServiceDelivery, Subproject } from '../../models';
+import {
+  REFERRAL_PARTY_TYPES,
+  REFERRAL_STATUSES,
+  REFERRAL_TRANSITIONS,
+  ReferralPartyType,
+  ReferralStatus,
+} from '../../constants/referrals';
+import { decryptField, encryptField } from '../../utils/crypto';
+
+export type ReferralResult<T = any> = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: T;
+};
+
+export type ReferralPartyInput = {
+  type?: string;
+  entityId?: string | null;
+  organization?: string | null;
+};
+
+export type ReferralInput = {
+  from?: ReferralPartyInput;
+  to?: ReferralPartyInput;
+  serviceIds?: string[];
+  notes?: string | null;
+  sentAt?: string | Date | null;
+};
+
+export type ReferralStatusInput = {
+  status?: string;
+  at?: string | Date | null;
+  declineReason?: string | null;
+  serviceDeliveryId?: string | null;
+};
+
+export type ReferralParty = {
+  type: ReferralPartyType;
+  entityId: string | null;
+  organization: string | null;
+};
+
+export type ReferralFilter = {
+  beneficiaryId?: string;
+  status?: ReferralStatus;
+  entityId?: string;
+  entityType?: Exclude<ReferralPartyType, 'organization'>;
+  organization?: string;
+  direction?: 'incoming' | 'outgoing';
+};
+
+type ReferralSummaryRow = Pick<
+  BeneficiaryReferral,
+  'toType' | 'toEntityId' | 'toOrganization' | 'status' | 'sentAt' | 'completedAt' | 'serviceDeliveryId'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isReferralStatus = (value: any): value is ReferralStatus =>
+  (REFERRAL_STATUSES as readonly string[]).includes(value);
+
+const isPartyType = (value: any): value is ReferralPartyType =>
+  (REFERRAL_PARTY_TYPES as readonly string[]).includes(value);
+
+const writeAudit = (userId: string, action: string, description: string, details: any, transaction: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(details),
+    timestamp: new Date(),
+  }, { transaction });
+
+export const toReferralView = (referral: BeneficiaryReferral) => ({
+  id: referral.id,
+  beneficiaryId: referral.beneficiaryId,
+  beneficiary: (referral as any).beneficiary ?? undefined,
+  fromType: referral.fromType,
+  fromEntityId: referral.fromEntityId ?? null,
+  fromOrganization: referral.fromOrganization ?? null,
+  toType: referral.toType,
+  toEntityId: referral.toEntityId ?? null,
+  toOrganization: referral.toOrganization ?? null,
+  serviceIds: referral.serviceIds,
+  notes: decryptField(referral.notesEnc),
+  status: referral.status,
+  sentAt: referral.sentAt,
+  sentBy: referral.sentBy,
+  respondedAt: referral.respondedAt ?? null,
+  respondedBy: referral.respondedBy ?? null,
+  declineReason: decryptField(referral.declineReasonEnc),
+  completedAt: referral.completedAt ?? null,
+  completedBy: referral.completedBy ?? null,
+  serviceDeliveryId: referral.serviceDeliveryId ?? null,
+  serviceDelivery: (referral as any).serviceDelivery ?? undefined,
+  createdAt: referral.createdAt,
+  updatedAt: referral.updatedAt,
+});
+
+const findEntity = (type: Exclude<ReferralPartyType, 'organization'>, id: string, transaction?: Transaction) => {
+  const model: any = type === 'project' ? Project : type === 'subproject' ? Subproject : Activity;
+  return model.findByPk(id, { attributes: ['id'], transaction });
+};
+
+const describeParty = (party: ReferralParty) =>
+  party.type === 'organization' ? `organization '${party.organization}'` : `${party.type} ${party.entityId}`;
+
+export const fromParty = (referral: Pick<BeneficiaryReferral, 'fromType' | 'fromEntityId' | 'fromOrganization'>): ReferralParty => ({
+  type: referral.fromType,
+  entityId: referral.fromEntityId ?? null,
+  organization: referral.fromOrganization ?? null,
+});
+
+export const toParty = (referral: Pick<BeneficiaryReferral, 'toType' | 'toEntityId' | 'toOrganization'>): ReferralParty => ({
+  type: referral.toType,
+  entityId: referral.toEntityId ?? null,
+  organization: referral.toOrganization ?? null,
+});
+
+const resolveParty = async (
+  party: ReferralPartyInput | undefined,
+  side: 'from' | 'to',
+  transaction: Transaction
+): Promise<ReferralResult<ReferralParty>> => {
+  if (!party || !isPartyType(party.type)) {
+    return { success: false, status: 400, message: `${side}.type must be one of: ${REFERRAL_PARTY_TYPES.join(', ')}` };
+  }
+  if (party.type === 'organization') {
+    const organization = typeof party.organization === 'string' ? party.organization.trim() : '';
+    if (!organization || organization.length > 200) {
+      return { success: false, status: 400, message: `${side}.organization is required (max 200 characters)` };
+    }
+    return { success: true, status: 200, data: { type: 'organization', entityId: null, organization } };
+  }
+  if (!party.entityId) return { success: false, status: 400, message: `${side}.entityId is required` };
+  const entity = await findEntity(party.type, String(party.entityId), transaction);
+  if (!entity) return { success: false, status: 404, message: `${side} ${party.type} not found` };
+  return { success: true, status: 200, data: { type: party.type, entityId: String(party.entityId), organization: null } };
+};
+
+/**
+ * Parent project of each program entity (`type:id` -> project id), for RBAC on allowedProgramIds
+ */
+export const projectIdsOfParties = async (parties: ReferralParty[]) => {
+  const result = new Map<string, string>();
+  const ids = (type: ReferralPartyType) =>
+    Array.from(new Set(parties.filter(p => p.type === type && p.entityId).map(p => p.entityId as string)));
+
+  for (const id of ids('project')) result.set(`project:${id}`, id);
+  const activityIds = ids('activity');
+  const activities = activityIds.length
+    ? await Activity.findAll({ where: { id: activityIds }, attributes: ['id', 'subprojectId'] })
+    : [];
+  const subprojectIds = Array.from(new Set([...ids('subproject'), ...activities.map(a => String(a.subprojectId))]));
+  const subprojects = subprojectIds.length
+    ? await Subproject.findAll({ where: { id: subprojectIds }, attributes: ['id', 'projectId'] })
+    : [];
+  const projectOfSubproject = new Map(subprojects.map(s => [String(s.id), String(s.projectId)]));
+  for (const [id, projectId] of projectOfSubproject) result.set(`subproject:${id}`, projectId);
+  for (const activity of activities) {
+    const projectId = projectOfSubproject.get(String(activity.subprojectId));
+    if (projectId) result.set(`activity:${activity.id}`, projectId);
+  }
+  return result;
+};
+
+export const createReferral = async (
+  beneficiaryId: string,
+  input: ReferralInput,
+  userId: string,
+  transaction: Transaction
+): Promise<ReferralResult> => {
+  const beneficiary = await Beneficiary.findByPk(beneficiaryId, { attributes: ['id', 'pseudonym', 'erasedAt'], transaction });
+  if (!beneficiary) return { success: false, status: 404, message: 'Beneficiary not found' };
+  if (beneficiary.erasedAt) return { success: false, status: 409, message: 'Beneficiary data has been erased' };
+
+  const from = await resolveParty(input?.from, 'from', transaction);
+  if (!from.success) return from;
+  const to = await resolveParty(input?.to, 'to', transaction);
+  if (!to.success) return to;
+  if (from.data!.type === 'organization' && to.data!.type === 'organization') {
+    return { success: false, status: 400, message: 'A referral must be sent from or to a project, subproject or activity' };
+  }
+  if (describeParty(from.data!) === describeParty(to.data!)) {
+    return { success: false, status: 400, message: 'A referral cannot be sent to where it comes from' };
+  }
+
+  if (input.serviceIds !== undefined && !Array.isArray(input.serviceIds)) {
+    return { success: false, status: 400, message: 'serviceIds must be an array' };
+  }
+  const serviceIds = Array.from(new Set((input.serviceIds || []).map(String)));
+  if (serviceIds.length && (await Service.count({ where: { id: serviceIds }, transaction })) !== serviceIds.length) {
+    return { success: false, status: 400, message: 'serviceIds contains an unknown service' };
+  }
+
+  const sentAt = input.sentAt ? new Date(input.sentAt) : new Date();
+  if (Number.isNaN(sentAt.getTime()) || sentAt.getTime() > Date.now()) {
+    return { success: false, status: 400, message: 'sentAt must be a valid date, not in the future' };
+  }
+
+  const referral = await BeneficiaryReferral.create({
+    id: uuidv4(),
+    beneficiaryId,
+    fromType: from.data!.type,
+    fromEntityId: from.data!.entityId,
+    fromOrganization: from.data!.organization,
+    toType: to.data!.type,
+    toEntityId: to.data!.entityId,
+    toOrganization: to.data!.organization,
+    serviceIds,
+    notesEnc: encryptField(input.notes ?? null),
+    status: 'sent',
+    sentAt,
+    sentBy: userId,
+  }, { transaction });
+
+  await writeAudit(userId, 'BENEFICIARY_REFERRAL_CREATE', `Referred beneficiary '${beneficiary.pseudonym}' to ${describeParty(to.data!)}`, {
+    beneficiaryId, referralId: referral.id, from: from.data, to: to.data, serviceIds,
+  }, transaction);
+  return { success: true, status: 201, data: toReferralView(referral) };
+};
+
+/**
+ * A delivery closes a referral when it was made to the same beneficiary, after the referral was
+ * sent, for one of the requested services (any service when none was requested), and it has not
+ * closed another referral yet.
+ */
+const findClosingDelivery = async (
+  referral: BeneficiaryReferral,
+  serviceDeliveryId: string,
+  transaction: Transaction
+): Promise<ReferralResult<ServiceDelivery>> => {
+  const delivery = await ServiceDelivery.findByPk(serviceDeliveryId, {
+    attributes: ['id', 'beneficiaryId', 'serviceId', 'deliveredAt'],
+    transaction,
+  });
+  if (!delivery || delivery.beneficiaryId !== referral.beneficiaryId) {
+    return { success: false, status: 400, message: 'Service delivery not found for this beneficiary' };
+  }
+  if ((referral.serviceIds || []).length && !referral.serviceIds.includes(delivery.serviceId)) {
+    return { success: false, status: 400, message: 'The delivered service was not requested in this referral' };
+  }
+  if (new Date(delivery.deliveredAt).getTime() < new Date(referral.sentAt).getTime()) {
+    return { success: false, status: 400, message: 'The service was delivered before the referral was sent' };
+  }
+  const other = await BeneficiaryReferral.findOne({
+    where: { serviceDeliveryId, id: { [Op.ne]: referral.id } },
+    attributes: ['id'],
+    transaction,
+  });
+  if (other) return { success: false, status: 409, message: 'The service delivery already closed another referral' };
+  return { success: true, status: 200, data: delivery };
+};
+
+/**
+ * Accept, decline or complete a referral. Completing links the closing service delivery (optional)
+ * and, without an explicit date, takes the delivery date as completion date.
+ */
+export const changeReferralStatus = async (
+  beneficiaryId: string,
+  referralId: string,
+  input: ReferralStatusInput,
+  userId: string,
+  transaction: Transaction
+): Promise<ReferralResult> => {
+  const status = input?.status;
+  if (!isReferralStatus(status)) {
+    return { success: false, status: 400, message: `status must be one of: ${REFERRAL_STATUSES.join(', ')}` };
+  }
+  const referral = await BeneficiaryReferral.findOne({
+    where: { id: referralId, beneficiaryId },
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (!referral) return { success: false, status: 404, message: 'Referral not found' };
+  if (!REFERRAL_TRANSITIONS[referral.status].includes(status)) {
+    return { success: false, status: 409, message: `A ${referral.status} referral cannot be changed to ${status}` };
+  }
+  if (input.serviceDeliveryId && status !== 'completed') {
+    return { success: false, status: 400, message: 'serviceDeliveryId can only be given when completing a referral' };
+  }
+
+  const at = input.at ? new Date(input.at) : new Date();
+  if (Number.isNaN(at.getTime()) || at.getTime() > Date.now() || at.getTime() < new Date(referral.sentAt).getTime()) {
+    return { success: false, status: 400, message: 'at must be a valid date between the referral date and now' };
+  }
+
+  const changes: any = { status };
+  if (status === 'declined') {
+    const reason = typeof input.declineReason === 'string' ? input.declineReason.trim() : '';
+    if (reason.length > 500) return { success: false, status: 400, message: 'declineReason must be at most 500 characters' };
+    changes.declineReasonEnc = encryptField(reason || null);
+  }
+  // Completing a referral that was never answered implies it was accepted
+  if (status !== 'completed' || !referral.respondedAt) {
+    changes.respondedAt = at;
+    changes.respondedBy = userId;
+  }
+  if (status === 'completed') {
+    changes.completedAt = at;
+    changes.completedBy = userId;
+    if (input.serviceDeliveryId) {
+      const delivery = await findClosingDelivery(referral, input.serviceDeliveryId, transaction);
+      if (!delivery.success) return delivery;
+      changes.serviceDeliveryId = delivery.data!.id;
+      if (!input.at) {
+        changes.completedAt = delivery.data!.deliveredAt;
+        if (!referral.respondedAt) changes.respondedAt = delivery.data!.deliveredAt;
+      }
+    }
+  }
+
+  const fromStatus = referral.status;
+  await referral.update(changes, { transaction });
+  await writeAudit(userId, 'BENEFICIARY_REFERRAL_STATUS', `Referral ${referral.id} ${status}`, {
+    beneficiaryId, referralId, fromStatus, toStatus: status, serviceDeliveryId: changes.serviceDeliveryId ?? null,
+  }, transaction);
+  return { success: true, status: 200, data: toReferralView(referral) };
+};
+
+const partyWhere = (side: 'from' | 'to', filter: ReferralFilter) => {
+  const where: any = {};
+  if (filter.entityId) {
+    where[`${side}Type`] = filter.entityType;
+    where[`${side}EntityId`] = filter.entityId;
+  }
+  if (filter.organization) where[`${side}Organization`] = filter.organization;
+  return where;
+};
+
+export const listReferrals = async (filter: ReferralFilter, page: number, limit: number) => {
+  const where: any = {};
+  if (filter.beneficiaryId) where.beneficiaryId = filter.beneficiaryId;
+  if (filter.status) where.status = filter.status;
+  if (filter.entityId || filter.organization) {
+    if (filter.direction === 'incoming') Object.assign(where, partyWhere('to', filter));
+    else if (filter.direction === 'outgoing') Object.assign(where, partyWhere('from', filter));
+    else where[Op.or] = [partyWhere('from', filter), partyWhere('to', filter)];
+  }
+
+  const { rows, count } = await BeneficiaryReferral.findAndCountAll({
+    where,
+    include: [
+      { model: Beneficiary, as: 'beneficiary', attributes: ['id', 'pseudonym'] },
+      { model: ServiceDelivery, as: 'serviceDelivery', attributes: ['id', 'serviceId', 'entityId', 'entityType', 'deliveredAt'] },
+    ],
+    order: [['sentAt', 'DESC']],
+    limit,
+    offset: (page - 1) * limit,
+  });
+  return { items: rows.map(toReferralView), totalItems: count };
+};
+
+const rate = (count: number, total: number) => (total ? Math.round((count / total) * 1000) / 1000 : null);
+
+/**
+ * Referral counts and rates. Acceptance counts accepted and completed referrals among those answered;
+ * completion counts completed referrals among all sent.
+ */
+export const summarizeReferrals = (referrals: ReferralSummaryRow[]) => {
+  const byStatus = Object.fromEntries(REFERRAL_STATUSES.map(s => [s, 0])) as Record<ReferralStatus, number>;
+  const destinations = new Map<string, { toType: ReferralPartyType; toEntityId: string | null; toOrganization: string | null; total: number; completed: number }>();
+  let closedWithDelivery = 0;
+  let completionDays = 0;
+
+  for (const referral of referrals) {
+    byStatus[referral.status]++;
+    const key = `${referral.toType}:${referral.toEntityId ?? referral.toOrganization}`;
+    const destination = destinations.get(key)
+      || { toType: referral.toType, toEntityId: referral.toEntityId ?? null, toOrganization: referral.toOrganization ?? null, total: 0, completed: 0 };
+    destination.total++;
+    if (referral.status === 'completed') {
+      destination.completed++;
+      if (referral.serviceDeliveryId) closedWithDelivery++;
+      if (referral.completedAt) {
+        completionDays += (new Date(referral.completedAt).getTime() - new Date(referral.sentAt).getTime()) / DAY_MS;
+      }
+    }
+    destinations.set(key, destination);
+  }
+
+  const total = referrals.length;
+  return {
+    total,
+    byStatus,
+    acceptanceRate: rate(byStatus.accepted + byStatus.completed, total - byStatus.sent),
+    completionRate: rate(byStatus.completed, total),
+    closedWithDelivery,
+    averageDaysToCompletion: byStatus.completed ? Math.round((completionDays / byStatus.completed) * 10) / 10 : null,
+    byDestination: Array.from(destinations.values())
+      .map(d => ({ ...d, completionRate: rate(d.completed, d.total) }))
+      .sort((a, b) => b.total - a.total),
+  };
+};
+
+/**
+ * Program entities in scope: a project with its subprojects and their activities, a subproject with
+ * its activities, or a single activity
+ */
+const loadScopeEntities = async (entityId: string, entityType: Exclude<ReferralPartyType, 'organization'>) => {
+  const scope: Record<string, string[]> = { project: [], subproject: [], activity: [] };
+  scope[entityType].push(entityId);
+  if (entityType === 'project') {
+    const subs = await Subproject.findAll({ where: { projectId: entityId }, attributes: ['id'] });
+    scope.subproject.push(...subs.map(s => String(s.id)));
+  }
+  if (entityType !== 'activity' && scope.subproject.length) {
+    const activities = await Activity.findAll({ where: { subprojectId: scope.subproject }, attributes: ['id'] });
+    scope.activity.push(...activities.map(a => String(a.id)));
+  }
+  return scope;
+};
+
+/**
+ * Referral report over referrals sent in [from, to], optionally for a program entity (sent from or
+ * to it, split into outgoing and incoming) and/or a partner organization. Referrals outside
+ * `allowedProjectIds` (when given) are left out.
+ */
+export const buildReferralReport = async (options: {
+  entityId?: string;
+  entityType?: Exclude<ReferralPartyType, 'organization'>;
+  organization?: string;
+  from?: Date | null;
+  to: Date;
+  allowedProjectIds?: Set<string> | null;
+}) => {
+  const where: any = { sentAt: { [Op.lte]: options.to, ...(options.from ? { [Op.gte]: options.from } : {}) } };
+  const conditions: any[] = [];
+  let scope: Record<string, string[]> | null = null;
+  if (options.entityId && options.entityType) {
+    scope = await loadScopeEntities(options.entityId, options.entityType);
+    const sides = (side: 'from' | 'to') => Object.entries(scope!)
+      .filter(([, ids]) => ids.length)
+      .map(([type, ids]) => ({ [`${side}Type`]: type, [`${side}EntityId`]: ids }));
+    conditions.push({ [Op.or]: [...sides('from'), ...sides('to')] });
+  }
+  if (options.organization) {
+    conditions.push({ [Op.or]: [{ fromOrganization: options.organization }, { toOrganization: options.organization }] });
+  }
+  if (conditions.length) where[Op.and] = conditions;
+
+  let referrals = await BeneficiaryReferral.findAll({
+    where,
+    attributes: ['id', 'fromType', 'fromEntityId', 'fromOrganization', 'toType', 'toEntityId', 'toOrganization', 'status', 'sentAt', 'completedAt', 'serviceDeliveryId'],
+  });
+
+  if (options.allowedProjectIds) {
+    const projects = await projectIdsOfParties(referrals.flatMap(r => [fromParty(r), toParty(r)]));
+    const allowed = (party: ReferralParty) => {
+      const projectId = projects.get(`${party.type}:${party.entityId}`);
+      return !!projectId && options.allowedProjectIds!.has(projectId);
+    };
+    referrals = referrals.filter(r => allowed(fromParty(r)) || allowed(toParty(r)));
+  }
+
+  const inScope = (type: ReferralPartyType, id?: string | null) => !!scope && !!id && (scope[type] || []).includes(id);
+  return {
+    range: { from: options.from ?? null, to: options.to },
+    entityId: options.entityId ?? null,
+    entityType: options.entityType ?? null,
+    organization: options.organization ?? null,
+    ...summarizeReferrals(referrals),
+    outgoing: scope ? summarizeReferrals(referrals.filter(r => inScope(r.fromType, r.fromEntityId))) : null,
+    incoming: scope ? summarizeReferrals(referrals.filter(r => inScope(r.toType, r.toEntityId))) : null,
+  };
+};
+
+export default {
+  toReferralView,
+  createReferral,
+  changeReferralStatus,
+  listReferrals,
+  summarizeReferrals,
+  buildReferralReport,
+  projectIdsOfParties,
+};
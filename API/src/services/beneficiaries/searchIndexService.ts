@@ -0,0 +1,159 @@
+/**
+ * Blind-index search over encrypted beneficiary PII.
+ *
+ * For every word of the first/last name, the phone number and the national ID we store HMACs of
+ * the normalized prefixes (BeneficiarySearchToken). A search term is normalized and hashed the same
+ * way and matched in SQL, so PII stays encrypted at rest and listing never decrypts all records.
+ * Matching is by prefix: 'arb' finds 'Arben', '4412' finds '+383 44 123 456'.
+ */
+
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize from '../../db/connection';
+import { Beneficiary, BeneficiarySearchToken } from '../../models';
+import { decryptField, getActiveKeyIds, hmacSha256, hmacSha256All } from '../../utils/crypto';
+
+export type SearchField = 'name' | 'phone' | 'nationalId';
+
+export const MIN_NAME_PREFIX = 2;
+export const MIN_NUMBER_PREFIX = 3;
+/** Longer prefixes are not indexed; longer search terms are cut to this length */
+export const MAX_PREFIX = 16;
+
+/** At most this many words of a search are matched (all must match) */
+const MAX_SEARCH_TERMS = 5;
+const REBUILD_BATCH_SIZE = 200;
+
+const normalizeText = (value?: string | null) =>
+  (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const nameWords = (value?: string | null) => normalizeText(value).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/** National significant number: digits without international prefix, +383 and trunk 0 */
+const phoneDigits = (value?: string | null) =>
+  (value || '').replace(/\D/g, '').replace(/^00/, '').replace(/^383/, '').replace(/^0+/, '');
+
+const normalizeNationalId = (value?: string | null) => normalizeText(value).replace(/[^\p{L}\p{N}]/gu, '');
+
+const prefixes = (value: string, min: number) => {
+  const result: string[] = [];
+  for (let n = min; n <= Math.min(value.length, MAX_PREFIX); n++) result.push(value.slice(0, n));
+  return result;
+};
+
+const tokenInput = (field: SearchField, term: string) => `search:${field}:${term}`;
+
+/**
+ * Plaintext search terms of a beneficiary (hashed before storage)
+ */
+export const buildSearchTerms = (fields: {
+  firstName?: string | null;
+  lastName?: string | null;
+  phone?: string | null;
+  nationalId?: string | null;
+}): Array<{ field: SearchField; term: string }> => {
+  const terms = new Map<string, { field: SearchField; term: string }>();
+  const add = (field: SearchField, values: string[]) => values.forEach(term => terms.set(`${field}:${term}`, { field, term }));
+
+  for (const word of [...nameWords(fields.firstName), ...nameWords(fields.lastName)]) {
+    add('name', prefixes(word, MIN_NAME_PREFIX));
+  }
+  add('phone', prefixes(phoneDigits(fields.phone), MIN_NUMBER_PREFIX));
+  add('nationalId', prefixes(normalizeNationalId(fields.nationalId), MIN_NUMBER_PREFIX));
+  return Array.from(terms.values());
+};
+
+/**
+ * Replace a beneficiary's search tokens with tokens of its current PII (active hash key)
+ * @returns Number of tokens stored
+ */
+export const refreshSearchTokens = async (beneficiary: Beneficiary, transaction: Transaction): Promise<number> => {
+  const { hashKeyId } = getActiveKeyIds();
+  const terms = buildSearchTerms({
+    firstName: decryptField(beneficiary.firstNameEnc),
+    lastName: decryptField(beneficiary.lastNameEnc),
+    phone: decryptField(beneficiary.phoneEnc),
+    nationalId: decryptField(beneficiary.nationalIdEnc),
+  });
+
+  await BeneficiarySearchToken.destroy({ where: { beneficiaryId: beneficiary.id }, transaction });
+  if (terms.length) {
+    await BeneficiarySearchToken.bulkCreate(terms.map(({ field, term }) => ({
+      id: uuidv4(),
+      beneficiaryId: beneficiary.id,
+      field,
+      tokenHash: hmacSha256(tokenInput(field, term)),
+      keyId: hashKeyId,
+    })), { transaction });
+  }
+  return terms.length;
+};
+
+/** Token hashes (all keyring keys) that one search word may match */
+const searchTermHashes = (word: string): string[] => {
+  const candidates: Array<[SearchField, string]> = [];
+  const name = nameWords(word)[0];
+  if (name && name.length >= MIN_NAME_PREFIX) candidates.push(['name', name.slice(0, MAX_PREFIX)]);
+  const digits = phoneDigits(word);
+  if (/^[\d\s()+\-./]+$/.test(word) && digits.length >= MIN_NUMBER_PREFIX) candidates.push(['phone', digits.slice(0, MAX_PREFIX)]);
+  const nationalId = normalizeNationalId(word);
+  if (nationalId.length >= MIN_NUMBER_PREFIX) candidates.push(['nationalId', nationalId.slice(0, MAX_PREFIX)]);
+  return candidates.flatMap(([field, term]) => hmacSha256All(tokenInput(field, term)));
+};
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, c => `\\${c}`);
+
+/**
+ * Where condition on Beneficiary for a free-text search: the pseudonym contains the text, or every
+ * word prefixes a name word, the phone number or the national ID. Phone numbers may contain spaces.
+ */
+export const buildSearchCondition = (search: string): WhereOptions => {
+  const text = search.trim();
+  const words = /^[\d\s()+\-./]+$/.test(text) ? [text.replace(/\s+/g, '')] : text.split(/\s+/).slice(0, MAX_SEARCH_TERMS);
+
+  const termConditions: WhereOptions[] = [];
+  for (const word of words) {
+    const hashes = searchTermHashes(word);
+    if (!hashes.length) continue;
+    const subquery = `(SELECT "beneficiaryId" FROM beneficiary_search_tokens WHERE "tokenHash" IN (${hashes.map(h => sequelize.escape(h)).join(', ')}))`;
+    termConditions.push({ id: { [Op.in]: sequelize.literal(subquery) } });
+  }
+
+  const pseudonym = { pseudonym: { [Op.iLike]: `%${escapeLike(text)}%` } };
+  return termConditions.length ? { [Op.or]: [pseudonym, { [Op.and]: termConditions }] } : pseudonym;
+};
+
+/**
+ * Rebuild search tokens for all beneficiaries (records created before the index existed,
+ * or after a hash key rotation)
+ */
+export const rebuildSearchIndex = async (): Promise<{ processed: number; tokens: number }> => {
+  let processed = 0;
+  let tokens = 0;
+  let cursor: string | null = null;
+  for (;;) {
+    const done: boolean = await sequelize.transaction(async (transaction) => {
+      const batch = await Beneficiary.findAll({
+        where: cursor ? { id: { [Op.gt]: cursor } } : {},
+        order: [['id', 'ASC']],
+        limit: REBUILD_BATCH_SIZE,
+        transaction,
+      });
+      if (!batch.length) return true;
+      for (const beneficiary of batch) {
+        tokens += await refreshSearchTokens(beneficiary, transaction);
+        processed++;
+      }
+      cursor = batch[batch.length - 1].id;
+      return false;
+    });
+    if (done) return { processed, tokens };
+  }
+};
+
+export default {
+  buildSearchTerms,
+  refreshSearchTokens,
+  buildSearchCondition,
+  rebuildSearchIndex,
+};
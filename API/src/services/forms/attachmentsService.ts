@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import { Readable, Transform } from 'stream';
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { FormResponseAttachment } from '../../models';
+import { getStorage } from '../storage';
+import { getTemplateVersionSchema } from './templateVersionService';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('form-attachments-service');
+
+/** MIME types accepted for attachments (photos, scanned documents, signatures) */
+export const ALLOWED_ATTACHMENT_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'application/pdf',
+];
+
+/** Maximum size of a single attachment (UPLOAD_MAX_SIZE, default 10 MB) */
+export const MAX_ATTACHMENT_BYTES = parseInt(process.env.UPLOAD_MAX_SIZE || '', 10) || 10 * 1024 * 1024;
+
+/** Maximum number of files accepted in one upload request */
+export const MAX_ATTACHMENTS_PER_REQUEST = 5;
+
+/** Field types whose answers reference an attachment id */
+const ATTACHMENT_FIELD_TYPES = ['Photo', 'Signature'];
+
+/** Bytes read from the start of an upload to recognise its file type */
+const SNIFF_BYTES = 16;
+
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const HEIF_BRANDS = ['mif1', 'msf1', 'heif'];
+
+/**
+ * Recognise an accepted attachment type from the first bytes of a file (magic numbers), regardless of
+ * the MIME type the client declared
+ * @returns One of ALLOWED_ATTACHMENT_MIME_TYPES, or null when the content is of none of them
+ */
+export const sniffAttachmentMimeType = (head: Buffer): string | null => {
+  const ascii = (start: number, end: number) => head.toString('latin1', start, end);
+  if (head.length >= 3 && head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return 'image/jpeg';
+  if (head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+  if (ascii(4, 8) === 'ftyp') {
+    if (HEIC_BRANDS.includes(ascii(8, 12))) return 'image/heic';
+    if (HEIF_BRANDS.includes(ascii(8, 12))) return 'image/heif';
+  }
+  return null;
+};
+
+export type StoredAttachment =
+  | { id: string; rejected: 'too_large' | 'unsupported_type' }
+  | {
+      id: string;
+      rejected: null;
+      storageDriver: string;
+      storageKey: string;
+      sizeBytes: number;
+      checksum: string;
+      mimeType: string; // recognised from the content
+    };
+
+/**
+ * Stream an uploaded file into the storage backend while computing its checksum and recognising its
+ * type from the first bytes. The upload stream is drained whatever happens.
+ * @returns The stored object details, or the reason it was rejected (size limit hit, or content that is
+ *          not an accepted type), in which case nothing is kept in storage
+ */
+export const storeAttachmentStream = async (stream: Readable & { truncated?: boolean }): Promise<StoredAttachment> => {
+  const storage = getStorage();
+  const now = new Date();
+  const id = uuidv4();
+  const storageKey = `attachments/${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, '0')}/${id}`;
+
+  const hash = crypto.createHash('sha256');
+  let head = Buffer.alloc(0);
+  let mimeType: string | null | undefined; // undefined until the first bytes were seen
+  const sniff = () => {
+    mimeType = sniffAttachmentMimeType(head);
+    return mimeType;
+  };
+  const hasher = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      if (mimeType === undefined) {
+        head = Buffer.concat([head, chunk.subarray(0, SNIFF_BYTES - head.length)]);
+        if (head.length >= SNIFF_BYTES && !sniff()) return callback(new Error('Unsupported file content'));
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      if (mimeType === undefined && !sniff()) return callback(new Error('Unsupported file content'));
+      callback();
+    }
+  });
+  stream.on('error', (error) => hasher.destroy(error));
+  // Errors can come before the backend attaches its listeners; storage.put still rejects with them
+  hasher.on('error', () => undefined);
+
+  let sizeBytes: number;
+  try {
+    ({ sizeBytes } = await storage.put(storageKey, stream.pipe(hasher)));
+  } catch (error) {
+    stream.resume();
+    if (mimeType === null) return { id, rejected: 'unsupported_type' };
+    throw error;
+  }
+
+  if (stream.truncated) {
+    await storage.delete(storageKey);
+    return { id, rejected: 'too_large' };
+  }
+
+  return {
+    id,
+    rejected: null,
+    storageDriver: storage.driver,
+    storageKey,
+    sizeBytes,
+    checksum: hash.digest('hex'),
+    mimeType: mimeType as string,
+  };
+};
+
+/**
+ * Collect attachment ids referenced by Photo/Signature answers, including nested sections and repeat groups
+ */
+export const collectAttachmentIds = (fields: any[], data: any): string[] => {
+  const ids: string[] = [];
+  if (!data || typeof data !== 'object') return ids;
+
+  for (const field of fields || []) {
+    const value = data[field?.name];
+    if (value === undefined || value === null) continue;
+
+    if (ATTACHMENT_FIELD_TYPES.includes(field.type) && typeof value === 'string') {
+      ids.push(value);
+    } else if (field.type === 'Section') {
+      ids.push(...collectAttachmentIds(field.fields, value));
+    } else if (field.type === 'RepeatGroup' && Array.isArray(value)) {
+      for (const item of value) ids.push(...collectAttachmentIds(field.fields, item));
+    }
+  }
+  return ids;
+};
+
+/**
+ * Resolve the attachments referenced by a response being submitted (Photo/Signature answers
+ * plus any explicitly listed ids). Only unlinked attachments uploaded by the same user qualify;
+ * when editing an existing response (`formResponseId`), its own attachments are accepted too.
+ * @returns The attachment ids that can be linked, and the ids that are unknown, foreign or already linked
+ */
+export const resolveResponseAttachments = async (params: {
+  formTemplateId: string;
+  formResponseId?: string;
+  version?: number | null;
+  data: any;
+  attachmentIds?: string[];
+  userId: string;
+  transaction?: Transaction;
+}): Promise<{ ids: string[]; invalid: string[] }> => {
+  const { formTemplateId, version, data, userId, transaction } = params;
+
+  const schema = version != null ? await getTemplateVersionSchema(formTemplateId, version, transaction) : null;
+  const referenced = schema ? collectAttachmentIds(schema.fields, data) : [];
+  const requested = Array.isArray(params.attachmentIds) ? params.attachmentIds : [];
+  const ids = Array.from(new Set([...referenced, ...requested].map(String)));
+  if (!ids.length) return { ids: [], invalid: [] };
+
+  // Only look up well-formed ids; anything else is reported as invalid
+  const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  const candidates = ids.filter(id => uuidPattern.test(id));
+
+  const rows = candidates.length
+    ? await FormResponseAttachment.findAll({
+        where: {
+          id: { [Op.in]: candidates },
+          uploadedBy: userId,
+          formResponseId: params.formResponseId ? { [Op.or]: [null, params.formResponseId] } : null,
+        },
+        attributes: ['id'],
+        transaction,
+      })
+    : [];
+  const linkable = new Set(rows.map(r => r.id));
+
+  return {
+    ids: ids.filter(id => linkable.has(id)),
+    invalid: ids.filter(id => !linkable.has(id)),
+  };
+};
+
+/**
+ * Link resolved attachments to a newly created form response
+ */
+export const linkAttachmentsToResponse = async (formResponseId: string, ids: string[], transaction?: Transaction) => {
+  if (!ids.length) return 0;
+  const [count] = await FormResponseAttachment.update(
+    { formResponseId },
+    { where: { id: { [Op.in]: ids }, formResponseId: null }, transaction }
+  );
+  logger.info('Linked attachments to form response', { formResponseId, count });
+  return count;
+};
+
+export default {
+  ALLOWED_ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_REQUEST,
+  sniffAttachmentMimeType,
+  storeAttachmentStream,
+  collectAttachmentIds,
+  resolveResponseAttachments,
+  linkAttachmentsToResponse,
+};
@@ -0,0 +1,289 @@
+/**
+ * Flat-file exports of form responses (CSV, XLSX and SPSS syntax with inline data).
+ * Response data is flattened into one column per field of the template versions the responses were submitted on.
+ */
+
+import { FormLocale, getFieldLabel, getOptionLabel } from './formLocale';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'spss'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/** XLSX workbooks are built in memory, so larger exports must use CSV or SPSS */
+export const MAX_XLSX_EXPORT_ROWS = 50000;
+
+/** Decrypted beneficiary PII columns (only exported for roles allowed to read PII) */
+export const PII_EXPORT_FIELDS = [
+  'firstName', 'lastName', 'dob', 'nationalId', 'phone', 'email', 'address',
+  'gender', 'municipality', 'nationality', 'ethnicity', 'residence',
+] as const;
+
+/** One exported response with the names resolved by the caller */
+export interface ExportRow {
+  response: any; // plain FormResponse
+  entityName?: string | null;
+  submitterName?: string | null;
+  submitterEmail?: string | null;
+  pseudonym?: string | null;
+  pii?: Record<string, string | null> | null;
+}
+
+export interface ExportColumn {
+  name: string; // machine name, e.g. `household.size`
+  label: string;
+  measure: 'string' | 'numeric';
+  valueLabels?: Array<[number, string]>; // SPSS value labels for coded columns
+  value: (row: ExportRow) => any;
+}
+
+export interface ExportColumnOptions {
+  format: ExportFormat;
+  includePII?: boolean;
+  locale?: FormLocale | null; // language of labels and option texts; column names never change
+}
+
+const getPath = (data: any, path: string[]) =>
+  path.reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), data);
+
+const isEmpty = (value: any) => value === undefined || value === null || value === '';
+
+const toNumber = (value: any) => {
+  if (isEmpty(value)) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+const toIsoString = (value: any) => {
+  if (isEmpty(value)) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString();
+};
+
+/**
+ * Columns for a (possibly nested) list of template fields.
+ * Dropdowns get a text column and a 1-based `_code` column (SPSS: code with value labels only);
+ * multi-selects are `;`-joined (SPSS: one 0/1 column per option);
+ * GPS answers are split into latitude/longitude; repeat groups are JSON (SPSS: item count).
+ * Labels and option texts use the requested locale.
+ */
+const buildFieldColumns = (
+  fields: any[],
+  format: ExportFormat,
+  locale: FormLocale | null,
+  path: string[] = [],
+  labelPrefix = ''
+): ExportColumn[] => {
+  const columns: ExportColumn[] = [];
+  const spss = format === 'spss';
+
+  for (const field of fields || []) {
+    if (!field?.name) continue;
+    const fieldPath = [...path, field.name];
+    const name = fieldPath.join('.');
+    const label = `${labelPrefix}${getFieldLabel(field, locale)}`;
+    const read = (row: ExportRow) => getPath(row.response.data, fieldPath);
+    const options: string[] = Array.isArray(field.options) ? field.options.map(String) : [];
+    const optionText = (option: any) => getOptionLabel(field, String(option), locale);
+
+    switch (field.type) {
+      case 'Section':
+        columns.push(...buildFieldColumns(field.fields, format, locale, fieldPath, `${label} / `));
+        break;
+      case 'RepeatGroup':
+        if (spss) {
+          columns.push({
+            name: `${name}.count`,
+            label: `${label} (count)`,
+            measure: 'numeric',
+            value: row => (Array.isArray(read(row)) ? read(row).length : null),
+          });
+        } else {
+          columns.push({ name, label, measure: 'string', value: row => (isEmpty(read(row)) ? null : JSON.stringify(read(row))) });
+        }
+        break;
+      case 'Number':
+      case 'Integer':
+      case 'Decimal':
+        columns.push({ name, label, measure: 'numeric', value: row => toNumber(read(row)) });
+        break;
+      case 'Checkbox':
+        columns.push({
+          name,
+          label,
+          measure: spss ? 'numeric' : 'string',
+          valueLabels: spss ? [[0, 'No'], [1, 'Yes']] : undefined,
+          value: row => {
+            const v = read(row);
+            if (typeof v !== 'boolean') return null;
+            return spss ? Number(v) : (v ? 'yes' : 'no');
+          },
+        });
+        break;
+      case 'Dropdown': {
+        const code = (row: ExportRow) => {
+          const index = options.indexOf(String(read(row)));
+          return index === -1 ? null : index + 1;
+        };
+        const valueLabels = options.map((option, i) => [i + 1, optionText(option)] as [number, string]);
+        if (!spss) columns.push({ name, label, measure: 'string', value: row => (isEmpty(read(row)) ? null : optionText(read(row))) });
+        columns.push({ name: spss ? name : `${name}_code`, label: spss ? label : `${label} (code)`, measure: 'numeric', valueLabels, value: code });
+        break;
+      }
+      case 'MultiSelect':
+        if (spss) {
+          options.forEach((option, i) => {
+            columns.push({
+              name: `${name}_${i + 1}`,
+              label: `${label}: ${optionText(option)}`,
+              measure: 'numeric',
+              valueLabels: [[0, 'No'], [1, 'Yes']],
+              value: row => (Array.isArray(read(row)) ? Number(read(row).includes(option)) : null),
+            });
+          });
+        } else {
+          columns.push({ name, label, measure: 'string', value: row => (Array.isArray(read(row)) ? read(row).map(optionText).join('; ') : null) });
+        }
+        break;
+      case 'GPS':
+        columns.push(
+          { name: `${name}.latitude`, label: `${label} (latitude)`, measure: 'numeric', value: row => toNumber(read(row)?.latitude) },
+          { name: `${name}.longitude`, label: `${label} (longitude)`, measure: 'numeric', value: row => toNumber(read(row)?.longitude) },
+        );
+        break;
+      default:
+        // Text, Date, Email, Phone, and Photo/Signature attachment references
+        columns.push({ name, label, measure: 'string', value: row => (isEmpty(read(row)) ? null : String(read(row))) });
+    }
+  }
+  return columns;
+};
+
+/**
+ * Union of the fields of several template versions, newest first. A field keeps its place and definition
+ * from the newest version that has it; fields removed since are appended after it. Sections and repeat
+ * groups merge their fields the same way.
+ */
+export const mergeVersionFields = (fieldLists: any[][]): any[] => {
+  const merged: any[] = [];
+  for (const fields of fieldLists) {
+    for (const field of fields || []) {
+      if (!field?.name) continue;
+      const index = merged.findIndex(existing => existing.name === field.name);
+      if (index === -1) {
+        merged.push(field);
+      } else if (Array.isArray(merged[index].fields) && Array.isArray(field.fields)) {
+        merged[index] = { ...merged[index], fields: mergeVersionFields([merged[index].fields, field.fields]) };
+      }
+    }
+  }
+  return merged;
+};
+
+/**
+ * Build the export columns: response metadata, beneficiary (and optionally PII), then the template fields.
+ */
+export const buildExportColumns = (fields: any[], options: ExportColumnOptions): ExportColumn[] => {
+  const meta: ExportColumn[] = [
+    { name: 'response_id', label: 'Response ID', measure: 'string', value: row => row.response.id },
+    { name: 'submitted_at', label: 'Submitted at', measure: 'string', value: row => toIsoString(row.response.submittedAt) },
+    { name: 'status', label: 'Status', measure: 'string', value: row => row.response.status ?? null },
+    { name: 'template_version', label: 'Template version', measure: 'numeric', value: row => toNumber(row.response.formTemplateVersion) },
+    { name: 'entity_type', label: 'Entity type', measure: 'string', value: row => row.response.entityType },
+    { name: 'entity_id', label: 'Entity ID', measure: 'string', value: row => row.response.entityId },
+    { name: 'entity_name', label: 'Entity name', measure: 'string', value: row => row.entityName ?? null },
+    { name: 'submitted_by', label: 'Submitted by', measure: 'string', value: row => row.submitterName ?? null },
+    { name: 'submitter_email', label: 'Submitter email', measure: 'string', value: row => row.submitterEmail ?? null },
+    { name: 'latitude', label: 'Latitude', measure: 'numeric', value: row => toNumber(row.response.latitude) },
+    { name: 'longitude', label: 'Longitude', measure: 'numeric', value: row => toNumber(row.response.longitude) },
+    { name: 'beneficiary_id', label: 'Beneficiary ID', measure: 'string', value: row => row.response.beneficiaryId ?? null },
+    { name: 'beneficiary_pseudonym', label: 'Beneficiary pseudonym', measure: 'string', value: row => row.pseudonym ?? null },
+  ];
+
+  const pii: ExportColumn[] = options.includePII
+    ? PII_EXPORT_FIELDS.map(key => ({
+        name: `beneficiary_${key}`,
+        label: `Beneficiary ${key}`,
+        measure: 'string' as const,
+        value: (row: ExportRow) => row.pii?.[key] ?? null,
+      }))
+    : [];
+
+  return [...meta, ...pii, ...buildFieldColumns(fields, options.format, options.locale ?? null)];
+};
+
+/**
+ * Escape one CSV cell. Text starting with a formula character is prefixed with `'`
+ * so spreadsheet applications do not evaluate it.
+ */
+export const escapeCsvValue = (value: any): string => {
+  if (isEmpty(value)) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvLine = (values: any[]): string => `${values.map(escapeCsvValue).join(',')}\r\n`;
+
+/**
+ * SPSS variable names: letters, digits and underscores, starting with a letter, max 64 chars, unique
+ */
+export const toSpssVariableNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map(name => {
+    let base = name.replace(/[^A-Za-z0-9_]/g, '_').replace(/_+/g, '_').replace(/_$/, '');
+    if (!/^[A-Za-z]/.test(base)) base = `v_${base}`;
+    base = base.slice(0, 60);
+    let candidate = base;
+    for (let i = 2; used.has(candidate.toLowerCase()); i++) candidate = `${base}_${i}`;
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+const spssQuote = (text: string) => `'${text.replace(/'/g, "''").replace(/[\r\n]+/g, ' ')}'`;
+
+/**
+ * SPSS syntax that opens an inline data block; data lines follow, then `buildSpssFooter`
+ */
+export const buildSpssHeader = (columns: ExportColumn[], variables: string[]): string => {
+  const definitions = columns.map((c, i) => `  ${variables[i]} (${c.measure === 'numeric' ? 'F12.4' : 'A2000'})`).join('\n');
+  return `* Generated form response export.\nDATA LIST LIST(",")\n /\n${definitions}.\nBEGIN DATA\n`;
+};
+
+/**
+ * One inline data line: numbers as-is, strings double-quoted, missing values empty
+ */
+export const toSpssDataLine = (columns: ExportColumn[], values: any[]): string =>
+  `${values
+    .map((value, i) => {
+      if (isEmpty(value)) return '';
+      if (columns[i].measure === 'numeric') return String(value);
+      return `"${String(value).replace(/"/g, '""').replace(/[\r\n]+/g, ' ')}"`;
+    })
+    .join(',')}\n`;
+
+/**
+ * Close the data block and add variable and value labels
+ */
+export const buildSpssFooter = (columns: ExportColumn[], variables: string[]): string => {
+  const variableLabels = columns.map((c, i) => `  ${variables[i]} ${spssQuote(c.label)}`).join('\n');
+  const valueLabels = columns
+    .map((c, i) => (c.valueLabels?.length
+      ? `VALUE LABELS ${variables[i]} ${c.valueLabels.map(([code, text]) => `${code} ${spssQuote(text)}`).join(' ')}.`
+      : null))
+    .filter(Boolean)
+    .join('\n');
+  return `END DATA.\nVARIABLE LABELS\n${variableLabels}.\n${valueLabels ? `${valueLabels}\n` : ''}EXECUTE.\n`;
+};
+
+export default {
+  EXPORT_FORMATS,
+  MAX_XLSX_EXPORT_ROWS,
+  PII_EXPORT_FIELDS,
+  buildExportColumns,
+  escapeCsvValue,
+  toCsvLine,
+  toSpssVariableNames,
+  buildSpssHeader,
+  toSpssDataLine,
+  buildSpssFooter,
+};
@@ -0,0 +1,185 @@
+/**
+ * Supported form field types and their server/offline representations.
+ */
+
+export const FIELD_TYPES = [
+  'Text',
+  'Number',
+  'Integer',
+  'Decimal',
+  'Date',
+  'Dropdown',
+  'MultiSelect',
+  'Checkbox',
+  'Email',
+  'Phone',
+  'GPS',
+  'Photo',
+  'Signature',
+  'Section',
+  'RepeatGroup',
+];
+
+/** Field types whose answers can be aggregated or grouped in KPIs */
+const KPI_FIELD_TYPES = ['Number', 'Integer', 'Decimal', 'Checkbox', 'Dropdown', 'MultiSelect', 'number', 'boolean', 'select'];
+
+/** Column storage used by offline clients for each field type */
+const STORAGE_TYPES: Record<string, 'text' | 'integer' | 'real' | 'boolean' | 'json' | 'attachment'> = {
+  Text: 'text',
+  Email: 'text',
+  Phone: 'text',
+  Date: 'text',
+  Dropdown: 'text',
+  Number: 'real',
+  Decimal: 'real',
+  Integer: 'integer',
+  Checkbox: 'boolean',
+  MultiSelect: 'json',
+  GPS: 'json',
+  Section: 'json',
+  RepeatGroup: 'json',
+  Photo: 'attachment',
+  Signature: 'attachment',
+};
+
+/** Loose phone format: optional leading +, digits, spaces, dashes and parentheses */
+export const PHONE_PATTERN = '^\\+?[0-9 ()-]{6,20}$';
+
+export const isKpiFieldType = (type: string): boolean => KPI_FIELD_TYPES.includes(type);
+
+export const getStorageType = (type: string) => STORAGE_TYPES[type] || 'text';
+
+/**
+ * Validate type-specific field properties. Returns an error message or null.
+ */
+export const validateFieldTypeOptions = (field: any): string | null => {
+  const isInt = (v: any) => Number.isInteger(v);
+  const isNum = (v: any) => typeof v === 'number' && Number.isFinite(v);
+
+  switch (field.type) {
+    case 'Dropdown':
+    case 'MultiSelect':
+      if (!field.options || !Array.isArray(field.options) || field.options.length === 0) {
+        return `${field.type} fields must include an 'options' array`;
+      }
+      if (field.type === 'MultiSelect') {
+        for (const bound of ['minSelections', 'maxSelections']) {
+          if (field[bound] !== undefined && (!isInt(field[bound]) || field[bound] < 0)) {
+            return `MultiSelect '${field.name}' ${bound} must be a non-negative integer`;
+          }
+        }
+      }
+      return null;
+    case 'Integer':
+    case 'Decimal': {
+      const check = field.type === 'Integer' ? isInt : isNum;
+      for (const bound of ['min', 'max']) {
+        if (field[bound] !== undefined && !check(field[bound])) {
+          return `${field.type} '${field.name}' ${bound} must be ${field.type === 'Integer' ? 'an integer' : 'a number'}`;
+        }
+      }
+      if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+        return `${field.type} '${field.name}' min cannot be greater than max`;
+      }
+      if (field.type === 'Decimal' && field.precision !== undefined && (!isInt(field.precision) || field.precision < 0 || field.precision > 10)) {
+        return `Decimal '${field.name}' precision must be an integer between 0 and 10`;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Build the JSON Schema for a primitive (non-group) field
+ */
+export const buildFieldJsonSchema = (field: any): Record<string, any> => {
+  switch (field.type) {
+    case 'Text':
+      return { type: 'string' };
+    case 'Number':
+      return { type: 'number' };
+    case 'Integer':
+    case 'Decimal': {
+      const schema: Record<string, any> = { type: field.type === 'Integer' ? 'integer' : 'number' };
+      if (field.min !== undefined) schema.minimum = field.min;
+      if (field.max !== undefined) schema.maximum = field.max;
+      if (field.type === 'Decimal' && field.precision !== undefined) {
+        schema.multipleOf = Math.pow(10, -field.precision);
+      }
+      return schema;
+    }
+    case 'Date':
+      return { type: 'string', format: 'date' };
+    case 'Checkbox':
+      return { type: 'boolean' };
+    case 'Dropdown':
+      return { type: 'string', enum: field.options || [] };
+    case 'MultiSelect': {
+      const schema: Record<string, any> = {
+        type: 'array',
+        items: { type: 'string', enum: field.options || [] },
+        uniqueItems: true,
+      };
+      if (field.minSelections !== undefined) schema.minItems = field.minSelections;
+      if (field.maxSelections !== undefined) schema.maxItems = field.maxSelections;
+      return schema;
+    }
+    case 'Email':
+      return { type: 'string', format: 'email' };
+    case 'Phone':
+      return { type: 'string', pattern: PHONE_PATTERN };
+    case 'GPS':
+      return {
+        type: 'object',
+        properties: {
+          latitude: { type: 'number', minimum: -90, maximum: 90 },
+          longitude: { type: 'number', minimum: -180, maximum: 180 },
+          accuracy: { type: 'number', minimum: 0 },
+          altitude: { type: 'number' },
+        },
+        required: ['latitude', 'longitude'],
+        additionalProperties: false,
+      };
+    case 'Photo':
+    case 'Signature':
+      // Reference to the captured file (attachment id or uploaded file key)
+      return { type: 'string', minLength: 1 };
+    default:
+      return { type: 'string' };
+  }
+};
+
+/**
+ * Describe field types for offline clients, keyed by field path
+ * (`section.field`, `group[].field` for nested fields).
+ */
+export const describeFieldTypes = (fields: any[], prefix: string = ''): Record<string, any> => {
+  const types: Record<string, any> = {};
+  for (const field of fields || []) {
+    if (!field?.name) continue;
+    const path = `${prefix}${field.name}`;
+    const descriptor: Record<string, any> = { type: field.type, storage: getStorageType(field.type) };
+    for (const key of ['options', 'min', 'max', 'precision', 'minSelections', 'maxSelections', 'minItems', 'maxItems']) {
+      if (field[key] !== undefined) descriptor[key] = field[key];
+    }
+    if (field.type === 'Phone') descriptor.pattern = PHONE_PATTERN;
+    types[path] = descriptor;
+
+    if ((field.type === 'Section' || field.type === 'RepeatGroup') && Array.isArray(field.fields)) {
+      Object.assign(types, describeFieldTypes(field.fields, field.type === 'RepeatGroup' ? `${path}[].` : `${path}.`));
+    }
+  }
+  return types;
+};
+
+export default {
+  FIELD_TYPES,
+  PHONE_PATTERN,
+  isKpiFieldType,
+  getStorageType,
+  validateFieldTypeOptions,
+  buildFieldJsonSchema,
+  describeFieldTypes,
+};
@@ -0,0 +1,119 @@
+/**
+ * Per-locale labels for form templates.
+ *
+ * Fields keep a default `label` (and optional `helpText`) plus optional translations:
+ * {
+ *   name: 'gender', label: 'Gender', type: 'Dropdown', options: ['female', 'male'],
+ *   translations: {
+ *     sq: { label: 'Gjinia', options: { female: 'Femër', male: 'Mashkull' } },
+ *     sr: { label: 'Pol', helpText: '...', options: { female: 'Žensko', male: 'Muško' } }
+ *   }
+ * }
+ * Field names and option values stay the same in every locale, so FormResponse.data never changes.
+ */
+
+export const SUPPORTED_LOCALES = ['sq', 'sr', 'en'] as const;
+export type FormLocale = typeof SUPPORTED_LOCALES[number];
+
+const isPlainObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Normalise a locale parameter (`sq`, `SR`, `sr-Latn`, `en-GB`)
+ * @returns The locale, null when not given, or an error for unsupported values
+ */
+export const resolveLocale = (value: any): { locale: FormLocale | null; error?: string } => {
+  if (value === undefined || value === null || value === '') return { locale: null };
+  const locale = String(value).trim().toLowerCase().split(/[-_]/)[0];
+  if (!(SUPPORTED_LOCALES as readonly string[]).includes(locale)) {
+    return { locale: null, error: `locale must be one of: ${SUPPORTED_LOCALES.join(', ')}` };
+  }
+  return { locale: locale as FormLocale };
+};
+
+/**
+ * Validate a field's `helpText` and `translations`. Returns an error message or null.
+ */
+export const validateFieldTranslations = (field: any): string | null => {
+  if (field.helpText !== undefined && typeof field.helpText !== 'string') {
+    return `Field '${field.name}' helpText must be a string`;
+  }
+  if (field.translations === undefined) return null;
+  if (!isPlainObject(field.translations)) {
+    return `Field '${field.name}' translations must be an object keyed by locale`;
+  }
+
+  const options: string[] = Array.isArray(field.options) ? field.options.map(String) : [];
+  for (const [locale, translation] of Object.entries<any>(field.translations)) {
+    if (!(SUPPORTED_LOCALES as readonly string[]).includes(locale)) {
+      return `Field '${field.name}' has translations for unsupported locale '${locale}' (use ${SUPPORTED_LOCALES.join(', ')})`;
+    }
+    if (!isPlainObject(translation)) {
+      return `Field '${field.name}' translations.${locale} must be an object`;
+    }
+    for (const key of ['label', 'helpText']) {
+      if (translation[key] !== undefined && typeof translation[key] !== 'string') {
+        return `Field '${field.name}' translations.${locale}.${key} must be a string`;
+      }
+    }
+    if (translation.options !== undefined) {
+      if (!isPlainObject(translation.options)) {
+        return `Field '${field.name}' translations.${locale}.options must map option values to texts`;
+      }
+      for (const [option, text] of Object.entries(translation.options)) {
+        if (!options.includes(option)) {
+          return `Field '${field.name}' translations.${locale}.options has unknown option '${option}'`;
+        }
+        if (typeof text !== 'string') {
+          return `Field '${field.name}' translations.${locale}.options.${option} must be a string`;
+        }
+      }
+    }
+  }
+  return null;
+};
+
+/** Field label in a locale, falling back to the default label */
+export const getFieldLabel = (field: any, locale?: FormLocale | null): string =>
+  (locale && field?.translations?.[locale]?.label) || field?.label || field?.name;
+
+/** Option text in a locale, falling back to the option value */
+export const getOptionLabel = (field: any, option: string, locale?: FormLocale | null): string =>
+  (locale && field?.translations?.[locale]?.options?.[option]) || option;
+
+/**
+ * Resolve labels, help texts and option texts of a field list for one locale.
+ * Returns copies without `translations`; choice fields get `optionLabels` (value → text)
+ * while `options` keep the stored values.
+ */
+export const localizeFields = (fields: any[], locale: FormLocale): any[] =>
+  (fields || []).map(field => {
+    const { translations, ...rest } = field || {};
+    const localized: any = { ...rest, label: getFieldLabel(field, locale) };
+
+    const helpText = translations?.[locale]?.helpText ?? field?.helpText;
+    if (helpText !== undefined) localized.helpText = helpText;
+
+    if (Array.isArray(field?.options)) {
+      localized.optionLabels = Object.fromEntries(field.options.map((o: any) => [o, getOptionLabel(field, String(o), locale)]));
+    }
+    if (Array.isArray(field?.fields)) {
+      localized.fields = localizeFields(field.fields, locale);
+    }
+    return localized;
+  });
+
+/**
+ * Localize a template schema (`{ fields }`), keeping any other schema properties
+ */
+export const localizeSchema = (schema: any, locale: FormLocale) =>
+  schema && Array.isArray(schema.fields) ? { ...schema, fields: localizeFields(schema.fields, locale) } : schema;
+
+export default {
+  SUPPORTED_LOCALES,
+  resolveLocale,
+  validateFieldTranslations,
+  getFieldLabel,
+  getOptionLabel,
+  localizeFields,
+  localizeSchema,
+};
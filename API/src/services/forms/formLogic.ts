@@ -0,0 +1,290 @@
+/**
+ * Conditional logic for form template fields.
+ *
+ * A field may declare `visibleIf` and/or `requiredIf` rules. A rule is either a
+ * single condition or a group of conditions combined with `all` / `any`:
+ *
+ *   { field: 'gender', op: 'eq', value: 'F' }
+ *   { all: [{ field: 'age', op: 'gte', value: 15, type: 'number' }, { field: 'gender', op: 'eq', value: 'F' }] }
+ *
+ * The same rules are shipped to the mobile client in the storage mapping, so
+ * evaluation here must stay simple and deterministic.
+ */
+
+export type FieldConditionOp = 'eq' | 'ne' | 'in' | 'nin' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'not_exists';
+
+export interface FieldCondition {
+  field: string;
+  op: FieldConditionOp;
+  value?: string | number | boolean | Array<string | number | boolean>;
+  type?: 'string' | 'number' | 'boolean' | 'date';
+}
+
+export type FieldRule = FieldCondition | { all: FieldRule[] } | { any: FieldRule[] };
+
+export interface FieldLogic {
+  visibleIf?: FieldRule;
+  requiredIf?: FieldRule;
+}
+
+export const VALID_CONDITION_OPS: FieldConditionOp[] = ['eq', 'ne', 'in', 'nin', 'gt', 'gte', 'lt', 'lte', 'exists', 'not_exists'];
+
+const isEmpty = (v: any): boolean => v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0);
+
+const compare = (actual: any, expected: any, type?: FieldCondition['type']): number | null => {
+  if (type === 'number') {
+    const a = Number(actual);
+    const b = Number(expected);
+    if (Number.isNaN(a) || Number.isNaN(b)) return null;
+    return a - b;
+  }
+  if (type === 'date') {
+    const a = new Date(actual).getTime();
+    const b = new Date(expected).getTime();
+    if (Number.isNaN(a) || Number.isNaN(b)) return null;
+    return a - b;
+  }
+  const a = String(actual);
+  const b = String(expected);
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const evaluateCondition = (cond: FieldCondition, data: Record<string, any>): boolean => {
+  const actual = data ? data[cond.field] : undefined;
+  const expectedList = Array.isArray(cond.value) ? cond.value : cond.value !== undefined ? [cond.value] : [];
+
+  // Multi-select answers match equality/membership ops when any selected option matches
+  if (Array.isArray(actual) && ['eq', 'ne', 'in', 'nin'].includes(cond.op)) {
+    const matches = actual.some(v => expectedList.some(e => String(e) === String(v)));
+    return cond.op === 'eq' || cond.op === 'in' ? matches : !matches;
+  }
+
+  switch (cond.op) {
+    case 'exists':
+      return !isEmpty(actual);
+    case 'not_exists':
+      return isEmpty(actual);
+    case 'eq':
+      return !isEmpty(actual) && expectedList.length > 0 && String(actual) === String(expectedList[0]);
+    case 'ne':
+      return expectedList.length > 0 && (isEmpty(actual) || String(actual) !== String(expectedList[0]));
+    case 'in':
+      return !isEmpty(actual) && expectedList.some(v => String(v) === String(actual));
+    case 'nin':
+      return isEmpty(actual) || !expectedList.some(v => String(v) === String(actual));
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      if (isEmpty(actual) || cond.value === undefined) return false;
+      const diff = compare(actual, expectedList[0], cond.type);
+      if (diff === null) return false;
+      if (cond.op === 'gt') return diff > 0;
+      if (cond.op === 'gte') return diff >= 0;
+      if (cond.op === 'lt') return diff < 0;
+      return diff <= 0;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Evaluate a rule against response data. A missing rule evaluates to true.
+ */
+export const evaluateRule = (rule: FieldRule | undefined | null, data: Record<string, any>): boolean => {
+  if (!rule) return true;
+  if ('all' in rule && Array.isArray(rule.all)) {
+    return rule.all.every(r => evaluateRule(r, data));
+  }
+  if ('any' in rule && Array.isArray(rule.any)) {
+    return rule.any.some(r => evaluateRule(r, data));
+  }
+  return evaluateCondition(rule as FieldCondition, data);
+};
+
+/**
+ * Collect the field names a rule depends on
+ */
+export const getRuleDependencies = (rule: FieldRule | undefined | null): string[] => {
+  if (!rule) return [];
+  if ('all' in rule && Array.isArray(rule.all)) return rule.all.flatMap(getRuleDependencies);
+  if ('any' in rule && Array.isArray(rule.any)) return rule.any.flatMap(getRuleDependencies);
+  return [(rule as FieldCondition).field];
+};
+
+/**
+ * Validate rule structure. Returns an error message or null if the rule is valid.
+ */
+export const validateRule = (rule: any, knownFields: Set<string>, path: string): string | null => {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    return `${path} must be an object`;
+  }
+  if ('all' in rule || 'any' in rule) {
+    const list = rule.all ?? rule.any;
+    if (!Array.isArray(list) || list.length === 0) {
+      return `${path} must contain a non-empty 'all' or 'any' array`;
+    }
+    for (let i = 0; i < list.length; i++) {
+      const err = validateRule(list[i], knownFields, `${path}[${i}]`);
+      if (err) return err;
+    }
+    return null;
+  }
+  if (!rule.field || typeof rule.field !== 'string') {
+    return `${path} must reference a field`;
+  }
+  if (!knownFields.has(rule.field)) {
+    return `${path} references unknown field '${rule.field}'`;
+  }
+  if (!VALID_CONDITION_OPS.includes(rule.op)) {
+    return `${path} op must be one of: ${VALID_CONDITION_OPS.join(', ')}`;
+  }
+  if (rule.op !== 'exists' && rule.op !== 'not_exists' && rule.value === undefined) {
+    return `${path} requires a value for op '${rule.op}'`;
+  }
+  return null;
+};
+
+/** Field types that contain nested fields */
+export const GROUP_FIELD_TYPES = ['Section', 'RepeatGroup'];
+
+const isGroupField = (field: any): boolean =>
+  !!field && GROUP_FIELD_TYPES.includes(field.type) && Array.isArray(field.fields);
+
+/**
+ * Check that a list of fields has consistent logic rules: every referenced field exists
+ * and a field is only made visible by fields before it, so that visibility resolved in
+ * field order is final and rules cannot depend on each other in a cycle.
+ * Rules inside sections and repeat groups may reference fields of the same group or of
+ * any enclosing level.
+ */
+export const validateFieldLogic = (fields: any[], outerFields: Set<string> = new Set()): string | null => {
+  const levelFields = new Set<string>(fields.map(f => f?.name).filter(Boolean));
+  const knownFields = new Set<string>([...outerFields, ...levelFields]);
+  const earlierFields = new Set<string>();
+  for (const field of fields) {
+    for (const key of ['visibleIf', 'requiredIf'] as const) {
+      if (field[key] === undefined) continue;
+      const err = validateRule(field[key], knownFields, `Field '${field.name}' ${key}`);
+      if (err) return err;
+      if (key !== 'visibleIf') continue;
+      for (const dependency of getRuleDependencies(field[key])) {
+        if (dependency === field.name) return `Field '${field.name}' visibleIf cannot depend on itself`;
+        if (levelFields.has(dependency) && !earlierFields.has(dependency)) {
+          return `Field '${field.name}' visibleIf cannot depend on '${dependency}', which comes after it`;
+        }
+      }
+    }
+    if (field?.name) earlierFields.add(field.name);
+    if (isGroupField(field)) {
+      const err = validateFieldLogic(field.fields, knownFields);
+      if (err) return err;
+    }
+  }
+  return null;
+};
+
+const applyScopedLogic = (
+  fields: any[],
+  data: Record<string, any>,
+  outerScope: Record<string, any>,
+  path: string,
+  hidden: string[],
+  missingRequired: string[]
+): Record<string, any> => {
+  const visibleData: Record<string, any> = { ...(data || {}) };
+  const scope = () => ({ ...outerScope, ...visibleData });
+
+  for (const field of fields) {
+    if (field.visibleIf && !evaluateRule(field.visibleIf, scope())) {
+      hidden.push(`${path}${field.name}`);
+      delete visibleData[field.name];
+    }
+  }
+
+  for (const field of fields) {
+    const fieldPath = `${path}${field.name}`;
+    if (hidden.includes(fieldPath)) continue;
+
+    // Statically required fields without logic are enforced by the JSON schema itself
+    const isRequired = field.requiredIf
+      ? evaluateRule(field.requiredIf, scope())
+      : !!(field.required && field.visibleIf);
+    if (isRequired && isEmpty(visibleData[field.name])) {
+      missingRequired.push(fieldPath);
+      continue;
+    }
+
+    const value = visibleData[field.name];
+    if (!isGroupField(field) || value === undefined || value === null) continue;
+
+    if (field.type === 'Section' && typeof value === 'object' && !Array.isArray(value)) {
+      visibleData[field.name] = applyScopedLogic(field.fields, value, scope(), `${fieldPath}.`, hidden, missingRequired);
+    } else if (field.type === 'RepeatGroup' && Array.isArray(value)) {
+      const itemScope = scope();
+      visibleData[field.name] = value.map((item: any, index: number) =>
+        item && typeof item === 'object' && !Array.isArray(item)
+          ? applyScopedLogic(field.fields, item, itemScope, `${fieldPath}[${index}].`, hidden, missingRequired)
+          : item
+      );
+    }
+  }
+
+  return visibleData;
+};
+
+/**
+ * Apply visibility and required-if rules to response data, recursing into sections and
+ * repeat group items.
+ * Visibility is resolved in field order so that a field hidden by an earlier rule
+ * cannot keep a later dependent field visible.
+ * @returns The data with hidden fields removed, the hidden field paths, and the paths of
+ *          visible fields that are conditionally required but have no value
+ *          (e.g. `household.size`, `members[1].age`).
+ */
+export const applyFieldLogic = (fields: any[], data: Record<string, any>) => {
+  const hidden: string[] = [];
+  const missingRequired: string[] = [];
+  const visibleData = applyScopedLogic(fields, data, {}, '', hidden, missingRequired);
+  return { data: visibleData, hidden, missingRequired };
+};
+
+/**
+ * Whether a template schema declares any conditional logic
+ */
+export const hasFieldLogic = (fields: any[]): boolean =>
+  Array.isArray(fields) &&
+  fields.some(f => f && (f.visibleIf !== undefined || f.requiredIf !== undefined || (isGroupField(f) && hasFieldLogic(f.fields))));
+
+/**
+ * Extract logic rules per field, in the shape shipped to offline clients.
+ * Nested fields are keyed by path: `section.field` and `group[].field`.
+ */
+export const extractFieldLogic = (fields: any[], prefix: string = ''): Record<string, FieldLogic> => {
+  const logic: Record<string, FieldLogic> = {};
+  for (const field of fields || []) {
+    if (!field?.name) continue;
+    const path = `${prefix}${field.name}`;
+    if (field.visibleIf !== undefined || field.requiredIf !== undefined) {
+      logic[path] = {
+        ...(field.visibleIf !== undefined ? { visibleIf: field.visibleIf } : {}),
+        ...(field.requiredIf !== undefined ? { requiredIf: field.requiredIf } : {}),
+      };
+    }
+    if (isGroupField(field)) {
+      Object.assign(logic, extractFieldLogic(field.fields, field.type === 'RepeatGroup' ? `${path}[].` : `${path}.`));
+    }
+  }
+  return logic;
+};
+
+export default {
+  evaluateRule,
+  validateRule,
+  validateFieldLogic,
+  applyFieldLogic,
+  hasFieldLogic,
+  extractFieldLogic,
+  getRuleDependencies,
+};
@@ -0,0 +1,372 @@
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import { FormResponse, Beneficiary, BeneficiaryAssignment, Service, ServiceDelivery } from '../../models';
+import sequelize from '../../db/connection';
+import { createLogger } from '../../utils/logger';
+import { describeFieldTypes } from './fieldTypes';
+import { validateFormResponse } from './validateFormResponse';
+import { upsertFromFormResponse } from '../beneficiaries/beneficiariesService';
+
+const logger = createLogger('form-import-service');
+
+/** Maximum size of an uploaded import file (IMPORT_MAX_BYTES, default 5 MB) */
+export const MAX_IMPORT_BYTES = parseInt(process.env.IMPORT_MAX_BYTES || '', 10) || 5 * 1024 * 1024;
+
+/** Maximum number of data rows in one import */
+export const MAX_IMPORT_ROWS = 5000;
+
+/** Field types that cannot be filled from a spreadsheet cell */
+const NON_IMPORTABLE_TYPES = ['Section', 'RepeatGroup', 'Photo', 'Signature'];
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'po', 'da'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'jo', 'ne'];
+
+/**
+ * Column → field mapping supplied with an import.
+ * `columns` maps spreadsheet headers to field paths (`age`, `household.size`);
+ * `services` maps headers to service ids, a truthy cell or a date records a delivery.
+ */
+export interface ImportMapping {
+  columns: Record<string, string>;
+  services?: Record<string, string>;
+  submittedAt?: string; // column holding the submission date
+  beneficiaryId?: string; // column holding an existing beneficiary id
+}
+
+export interface ImportRowError {
+  row: number; // spreadsheet row number (header is row 1)
+  errors: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  responsesCreated: number;
+  beneficiariesCreated: number;
+  beneficiariesMatched: number;
+  serviceDeliveriesCreated: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * Parse a CSV or XLSX file into rows keyed by header (first sheet only).
+ * CSV cells are kept as text; XLSX cells keep their numeric/date types.
+ */
+export const parseImportFile = (buffer: Buffer, fileName: string): { headers: string[]; rows: Record<string, any>[] } => {
+  const isCsv = /\.csv$/i.test(fileName);
+  const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true, raw: isCsv });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) return { headers: [], rows: [] };
+
+  const sheet = workbook.Sheets[sheetName];
+  const matrix = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, defval: null, raw: true, blankrows: false });
+  const headers = (matrix[0] || []).map((h: any) => (h == null ? '' : String(h).trim()));
+  const rows = matrix.slice(1).map(cells => {
+    const row: Record<string, any> = {};
+    headers.forEach((header, i) => {
+      if (header) row[header] = cells[i] ?? null;
+    });
+    return row;
+  });
+  return { headers, rows };
+};
+
+/**
+ * Check a mapping against the file headers and the template fields
+ * @returns A list of mapping errors (empty when valid)
+ */
+export const validateImportMapping = (mapping: any, headers: string[], fields: any[]): string[] => {
+  if (!mapping || typeof mapping !== 'object' || !mapping.columns || typeof mapping.columns !== 'object') {
+    return ['mapping.columns must be an object of column → field path'];
+  }
+
+  const errors: string[] = [];
+  const headerSet = new Set(headers);
+  const types = describeFieldTypes(fields);
+
+  for (const [column, path] of Object.entries<any>(mapping.columns)) {
+    if (!headerSet.has(column)) errors.push(`Column '${column}' not found in file`);
+    const descriptor = types[path];
+    if (!descriptor) {
+      errors.push(`Column '${column}': unknown field '${path}'`);
+    } else if (String(path).includes('[]') || NON_IMPORTABLE_TYPES.includes(descriptor.type)) {
+      errors.push(`Column '${column}': field '${path}' (${descriptor.type}) cannot be imported`);
+    }
+  }
+
+  if (mapping.services !== undefined) {
+    if (typeof mapping.services !== 'object' || Array.isArray(mapping.services)) {
+      errors.push('mapping.services must be an object of column → serviceId');
+    } else {
+      for (const column of Object.keys(mapping.services)) {
+        if (!headerSet.has(column)) errors.push(`Service column '${column}' not found in file`);
+      }
+    }
+  }
+
+  for (const key of ['submittedAt', 'beneficiaryId'] as const) {
+    if (mapping[key] !== undefined && !headerSet.has(mapping[key])) {
+      errors.push(`${key} column '${mapping[key]}' not found in file`);
+    }
+  }
+  return errors;
+};
+
+const isBlank = (value: any) => value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseBoolean = (value: any): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (TRUE_VALUES.includes(text)) return true;
+  if (FALSE_VALUES.includes(text)) return false;
+  return null;
+};
+
+/**
+ * Convert a spreadsheet cell to the JSON value expected by a field type.
+ * Range and option checks are left to the template validator.
+ */
+export const coerceCellValue = (value: any, type: string): { value?: any; error?: string } => {
+  if (isBlank(value)) return {};
+
+  switch (type) {
+    case 'Number':
+    case 'Decimal':
+    case 'Integer': {
+      const num = typeof value === 'number' ? value : Number(String(value).trim());
+      if (!Number.isFinite(num)) return { error: `'${value}' is not a number` };
+      if (type === 'Integer' && !Number.isInteger(num)) return { error: `'${value}' is not a whole number` };
+      return { value: num };
+    }
+    case 'Checkbox': {
+      const bool = parseBoolean(value);
+      return bool === null ? { error: `'${value}' is not yes/no` } : { value: bool };
+    }
+    case 'MultiSelect':
+      return { value: String(value).split(/[;,]/).map(v => v.trim()).filter(Boolean) };
+    case 'GPS': {
+      const parts = String(value).split(/[,\s]+/).filter(Boolean).map(Number);
+      if (parts.length !== 2 || parts.some(n => !Number.isFinite(n))) {
+        return { error: `'${value}' is not a 'latitude, longitude' pair` };
+      }
+      return { value: { latitude: parts[0], longitude: parts[1] } };
+    }
+    case 'Date':
+      return { value: value instanceof Date ? formatDate(value) : String(value).trim() };
+    default:
+      return { value: value instanceof Date ? formatDate(value) : String(value).trim() };
+  }
+};
+
+/**
+ * Build form data for one spreadsheet row from the column mapping
+ */
+export const buildRowData = (row: Record<string, any>, columns: Record<string, string>, fields: any[]) => {
+  const types = describeFieldTypes(fields);
+  const data: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const [column, path] of Object.entries(columns)) {
+    const { value, error } = coerceCellValue(row[column], types[path]?.type);
+    if (error) {
+      errors.push(`Column '${column}': ${error}`);
+      continue;
+    }
+    if (value === undefined) continue;
+
+    // Nested section fields: household.size → { household: { size } }
+    const parts = path.split('.');
+    let target = data;
+    for (const part of parts.slice(0, -1)) {
+      target[part] = target[part] && typeof target[part] === 'object' ? target[part] : {};
+      target = target[part];
+    }
+    target[parts[parts.length - 1]] = value;
+  }
+  return { data, errors };
+};
+
+/**
+ * Parse the date of a service column: a date marks the delivery date, yes/no marks
+ * a delivery on the submission date; blank or "no" means not delivered.
+ */
+const parseDeliveryCell = (value: any, fallback: Date): { deliveredAt?: Date; error?: string } => {
+  if (isBlank(value)) return {};
+  if (value instanceof Date) return { deliveredAt: value };
+  const bool = parseBoolean(value);
+  if (bool !== null) return bool ? { deliveredAt: fallback } : {};
+  const date = new Date(String(value).trim());
+  return Number.isNaN(date.getTime()) ? { error: `'${value}' is not yes/no or a date` } : { deliveredAt: date };
+};
+
+/**
+ * Import spreadsheet rows as form responses for one entity.
+ * Every row is validated against the current template version; beneficiaries are linked through the
+ * template's beneficiary mapping and service columns create ServiceDelivery rows.
+ * All rows are written in a single transaction that is rolled back on a dry run or if any row fails,
+ * so the report always describes the full file.
+ */
+export const importFormResponses = async (params: {
+  template: { id: string; schema: any };
+  rows: Record<string, any>[];
+  mapping: ImportMapping;
+  entityId: string;
+  entityType: 'project' | 'subproject' | 'activity';
+  userId: string;
+  dryRun: boolean;
+}): Promise<ImportReport> => {
+  const { template, rows, mapping, entityId, entityType, userId, dryRun } = params;
+  const fields = template.schema?.fields || [];
+  const serviceColumns = Object.entries(mapping.services || {});
+
+  const report: ImportReport = {
+    dryRun,
+    committed: false,
+    totalRows: rows.length,
+    validRows: 0,
+    invalidRows: 0,
+    responsesCreated: 0,
+    beneficiariesCreated: 0,
+    beneficiariesMatched: 0,
+    serviceDeliveriesCreated: 0,
+    errors: [],
+  };
+
+  const transaction = await sequelize.transaction();
+  try {
+    // Mapped services must exist
+    const serviceIds = Array.from(new Set(serviceColumns.map(([, serviceId]) => String(serviceId))));
+    const services = serviceIds.length
+      ? await Service.findAll({ where: { id: serviceIds }, attributes: ['id'], transaction })
+      : [];
+    const knownServices = new Set(services.map(s => String(s.id)));
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const rowNumber = i + 2;
+      const { data, errors } = buildRowData(row, mapping.columns, fields);
+
+      let submittedAt = new Date();
+      if (mapping.submittedAt && !isBlank(row[mapping.submittedAt])) {
+        const raw = row[mapping.submittedAt];
+        submittedAt = raw instanceof Date ? raw : new Date(String(raw).trim());
+        if (Number.isNaN(submittedAt.getTime())) errors.push(`Column '${mapping.submittedAt}': '${raw}' is not a date`);
+      }
+
+      const deliveries: Array<{ serviceId: string; deliveredAt: Date }> = [];
+      for (const [column, serviceId] of serviceColumns) {
+        const { deliveredAt, error } = parseDeliveryCell(row[column], submittedAt);
+        if (error) errors.push(`Column '${column}': ${error}`);
+        else if (deliveredAt && !knownServices.has(String(serviceId))) errors.push(`Column '${column}': service ${serviceId} not found`);
+        else if (deliveredAt) deliveries.push({ serviceId: String(serviceId), deliveredAt });
+      }
+
+      const validation = await validateFormResponse(template.id, data);
+      if (!validation.valid) errors.push(...(validation.errors || []));
+
+      if (errors.length) {
+        report.invalidRows += 1;
+        report.errors.push({ row: rowNumber, errors });
+        continue;
+      }
+
+      // Beneficiary: explicit id column, otherwise match/create through the template's beneficiary mapping
+      let beneficiaryId: string | undefined;
+      const explicitId = mapping.beneficiaryId ? row[mapping.beneficiaryId] : null;
+      if (!isBlank(explicitId)) {
+        const exists = await Beneficiary.findByPk(String(explicitId).trim(), { attributes: ['id'], transaction });
+        if (!exists) {
+          report.invalidRows += 1;
+          report.errors.push({ row: rowNumber, errors: [`Beneficiary ${explicitId} not found`] });
+          continue;
+        }
+        beneficiaryId = exists.id;
+      } else {
+        const upsert = await upsertFromFormResponse(template.id, validation.data, { entityId, entityType }, { transaction, userId });
+        beneficiaryId = upsert.beneficiaryId;
+        if (upsert.created) report.beneficiariesCreated += 1;
+        else if (beneficiaryId) report.beneficiariesMatched += 1;
+      }
+
+      if (deliveries.length && !beneficiaryId) {
+        report.invalidRows += 1;
+        report.errors.push({ row: rowNumber, errors: ['Service deliveries require a linked beneficiary'] });
+        continue;
+      }
+
+      if (beneficiaryId) {
+        await BeneficiaryAssignment.findOrCreate({
+          where: { beneficiaryId, entityId, entityType },
+          defaults: { id: uuidv4(), beneficiaryId, entityId, entityType },
+          transaction
+        });
+      }
+
+      const response = await FormResponse.create({
+        id: uuidv4(),
+        formTemplateId: template.id,
+        formTemplateVersion: validation.version,
+        entityId,
+        entityType,
+        submittedBy: userId,
+        beneficiaryId: beneficiaryId ?? null,
+        data: validation.data,
+        status: 'submitted',
+        submittedAt
+      }, { transaction });
+      report.responsesCreated += 1;
+
+      for (const delivery of deliveries) {
+        await ServiceDelivery.create({
+          id: uuidv4(),
+          serviceId: delivery.serviceId,
+          beneficiaryId,
+          entityId,
+          entityType,
+          formResponseId: response.id,
+          staffUserId: userId,
+          deliveredAt: delivery.deliveredAt,
+          notes: null
+        }, { transaction });
+        report.serviceDeliveriesCreated += 1;
+      }
+
+      report.validRows += 1;
+    }
+
+    if (dryRun || report.invalidRows > 0) {
+      await transaction.rollback();
+    } else {
+      await transaction.commit();
+      report.committed = true;
+    }
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+
+  logger.info('Form response import finished', {
+    templateId: template.id,
+    dryRun,
+    committed: report.committed,
+    totalRows: report.totalRows,
+    invalidRows: report.invalidRows
+  });
+  return report;
+};
+
+export default {
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  parseImportFile,
+  validateImportMapping,
+  coerceCellValue,
+  buildRowData,
+  importFormResponses,
+};
@@ -1,10 +1,16 @@
 import { Op, fn, col, where, literal } from 'sequelize';
 import { FormResponse, FormField, Kpi, ServiceDelivery, Service } from '../../models';
 import { createLogger } from '../../utils/logger';
+import { isKpiFieldType } from './fieldTypes';
+import { resolveFieldAliases } from './templateVersionService';
 import { v4 as uuidv4 } from 'uuid';
 
 const logger = createLogger('kpi-calculation-service');
 
+// Household reached by a service delivery: the delivery's own household (household-level services)
+// or the current household of the beneficiary served
+const DELIVERY_HOUSEHOLD_SQL = `COALESCE("ServiceDelivery"."householdId", (SELECT hm."householdId" FROM household_members hm WHERE hm."beneficiaryId" = "ServiceDelivery"."beneficiaryId"))`;
+
 /**
  * Service for calculating KPIs from form responses
  */
@@ -105,6 +111,9 @@ class KpiCalculationService {
       (whereClause as any).submittedBy = { [Op.in]: filters.userIds };
     }
 
+    // Review status: drafts never count; optionally only approved responses
+    whereClause.status = this.responseStatusWhere(filters);
+
     // Service filters: constrain to FormResponses that have ServiceDeliveries for given service(s)
     // Use a subquery to avoid needing a join in COUNT/SUM style queries
     const serviceFilterLiterals: any[] = [];
@@ -145,55 +154,139 @@ class KpiCalculationService {
     return whereClause;
   }
 
+  /**
+   * Build SQL expressions for a KPI field, following renames across template versions
+   * so responses pinned to older versions are still counted. Renames only apply to
+   * responses of the template that declared them, within the templates the KPI is filtered to.
+   * Section fields are addressed by path (`household.size`); repeat group fields hold several
+   * values per response and cannot be aggregated.
+   */
+  private async resolveFieldSql(fieldName: string, filters: KpiFilterOptions): Promise<{ value: string; exists: string }> {
+    const templateIds = filters.formTemplateIds && filters.formTemplateIds.length
+      ? filters.formTemplateIds
+      : filters.formTemplateId ? [filters.formTemplateId] : undefined;
+    if (fieldName.includes('[]')) {
+      throw new Error(`Repeat group field '${fieldName}' cannot be aggregated by a KPI`);
+    }
+    const aliases = await resolveFieldAliases(fieldName, templateIds);
+
+    const coalesce = (names: string[]) => {
+      const paths = names.map(n => this.resolveDataPath(n));
+      return paths.length === 1
+        ? { value: paths[0].value, exists: paths[0].exists }
+        : { value: `COALESCE(${paths.map(p => p.value).join(', ')})`, exists: `(${paths.map(p => p.exists).join(' OR ')})` };
+    };
+
+    const plain = coalesce([fieldName]);
+    if (!aliases.size) return plain;
+
+    // Templates sharing the same rename lineage share a CASE branch
+    const lineages = new Map<string, { names: string[]; templateIds: string[] }>();
+    for (const [templateId, names] of aliases) {
+      const key = JSON.stringify(names);
+      if (!lineages.has(key)) lineages.set(key, { names: names.filter(n => !n.includes('[]')), templateIds: [] });
+      lineages.get(key)!.templateIds.push(this.esc(templateId));
+    }
+    const valueCases: string[] = [];
+    const existsCases: string[] = [];
+    for (const { names, templateIds: ids } of lineages.values()) {
+      const when = `WHEN "formTemplateId" IN (${ids.map(id => `'${id}'`).join(', ')})`;
+      const fx = coalesce(names);
+      valueCases.push(`${when} THEN ${fx.value}`);
+      existsCases.push(`${when} THEN ${fx.exists}`);
+    }
+    return {
+      value: `(CASE ${valueCases.join(' ')} ELSE ${plain.value} END)`,
+      exists: `(CASE ${existsCases.join(' ')} ELSE ${plain.exists} END)`,
+    };
+  }
+
   /** Escape single quotes for safe SQL string literals */
   private esc(value: string): string {
     return value.replace(/'/g, "''");
   }
 
+  /**
+   * Resolve a dataFilter field path to SQL expressions over the response data.
+   * Supports plain keys (`age`), section paths (`household.size`) and repeat group
+   * paths (`members[].age`), where a repeat group matches if any item matches.
+   */
+  private resolveDataPath(path: string): { value: string; exists: string; wrap: (cond: string) => string } {
+    const segments = path.split('.').filter(Boolean);
+    const arrays: string[] = [];
+    let base = 'data';
+    let keys: string[] = [];
+
+    const jsonPath = (k: string[]) => `'{${k.map(key => `"${this.esc(key.replace(/"/g, ''))}"`).join(',')}}'`;
+
+    segments.forEach((segment, index) => {
+      const isArray = segment.endsWith('[]');
+      keys.push(isArray ? segment.slice(0, -2) : segment);
+      if (isArray && index < segments.length - 1) {
+        // Iterate over the array items and continue resolving from each item
+        const alias = `item${arrays.length}`;
+        const expr = `(${base} #> ${jsonPath(keys)})`;
+        arrays.push(`jsonb_array_elements(CASE WHEN jsonb_typeof(${expr}) = 'array' THEN ${expr} ELSE '[]'::jsonb END) AS ${alias}(value)`);
+        base = `${alias}.value`;
+        keys = [];
+      }
+    });
+
+    const leaf = this.esc(keys[keys.length - 1] || '');
+    const value = keys.length === 1 ? `(${base}->>'${leaf}')` : `(${base} #>> ${jsonPath(keys)})`;
+    const exists = keys.length === 1
+      ? `(${base} ? '${leaf}')`
+      : `(coalesce(${base} #> ${jsonPath(keys.slice(0, -1))}, '{}'::jsonb) ? '${leaf}')`;
+    const wrap = (cond: string) =>
+      arrays.reduceRight((inner, from) => `EXISTS (SELECT 1 FROM ${from} WHERE ${inner})`, cond);
+
+    return { value, exists, wrap };
+  }
+
   /** Build SQL literals for dataFilters */
   private buildDataFilterLiterals(conds: DataFilterCondition[]): any[] {
     const parts: any[] = [];
     for (const c of conds) {
       if (!c || !c.field || !c.op) continue;
-      const f = this.esc(c.field);
+      const { value: fv, exists: existsCheck, wrap } = this.resolveDataPath(c.field);
       const t = c.type || 'string';
-      const existsCheck = `(data ? '${f}')`;
-      const isNumeric = `(data->>'${f}') ~ '^[-]?\\d+(\\.\\d+)?$'`;
-      const isDate = `(data->>'${f}') ~ '^\\d{4}-\\d{2}-\\d{2}'`;
+      const isNumeric = `${fv} ~ '^[-]?\\d+(\\.\\d+)?$'`;
+      const isDate = `${fv} ~ '^\\d{4}-\\d{2}-\\d{2}'`;
+      const push = (cond: string) => parts.push(literal(wrap(cond)));
 
       switch (c.op) {
         case 'exists':
-          parts.push(literal(`${existsCheck}`));
+          push(`${existsCheck}`);
           break;
         case 'not_exists':
-          parts.push(literal(`NOT ${existsCheck}`));
+          parts.push(literal(`NOT ${wrap(existsCheck)}`));
           break;
         case 'eq': {
           if (c.value === undefined) break;
           const v = Array.isArray(c.value) ? c.value[0] : c.value;
           const sv = typeof v === 'string' ? `'${this.esc(v)}'` : `'${this.esc(String(v))}'`;
-          parts.push(literal(`${existsCheck} AND (data->>'${f}') = ${sv}`));
+          push(`${existsCheck} AND ${fv} = ${sv}`);
           break;
         }
         case 'ne': {
           if (c.value === undefined) break;
           const v = Array.isArray(c.value) ? c.value[0] : c.value;
           const sv = typeof v === 'string' ? `'${this.esc(v)}'` : `'${this.esc(String(v))}'`;
-          parts.push(literal(`${existsCheck} AND (data->>'${f}') <> ${sv}`));
+          push(`${existsCheck} AND ${fv} <> ${sv}`);
           break;
         }
         case 'in': {
           const arr = Array.isArray(c.value) ? c.value : c.value !== undefined ? [c.value] : [];
           if (!arr.length) break;
           const list = arr.map(v => `'${this.esc(String(v))}'`).join(',');
-          parts.push(literal(`${existsCheck} AND (data->>'${f}') IN (${list})`));
+          push(`${existsCheck} AND ${fv} IN (${list})`);
           break;
         }
         case 'nin': {
           const arr = Array.isArray(c.value) ? c.value : c.value !== undefined ? [c.value] : [];
           if (!arr.length) break;
           const list = arr.map(v => `'${this.esc(String(v))}'`).join(',');
-          parts.push(literal(`${existsCheck} AND (data->>'${f}') NOT IN (${list})`));
+          push(`${existsCheck} AND ${fv} NOT IN (${list})`);
           break;
         }
         case 'gt':
@@ -203,14 +296,14 @@ class KpiCalculationService {
           if (c.value === undefined) break;
           const op = c.op === 'gt' ? '>' : c.op === 'gte' ? '>=' : c.op === 'lt' ? '<' : '<=';
           if (t === 'number') {
-            parts.push(literal(`${existsCheck} AND ${isNumeric} AND (data->>'${f}')::numeric ${op} ${Number(c.value)}`));
+            push(`${existsCheck} AND ${isNumeric} AND ${fv}::numeric ${op} ${Number(c.value)}`);
           } else if (t === 'date') {
             // Compare as date to support YYYY-MM-DD (common in forms)
             const sv = `'${this.esc(String(c.value))}'`;
-            parts.push(literal(`${existsCheck} AND ${isDate} AND (data->>'${f}')::date ${op} ${sv}::date`));
+            push(`${existsCheck} AND ${isDate} AND ${fv}::date ${op} ${sv}::date`);
           } else {
             const sv = `'${this.esc(String(c.value))}'`;
-            parts.push(literal(`${existsCheck} AND (data->>'${f}') ${op} ${sv}`));
+            push(`${existsCheck} AND ${fv} ${op} ${sv}`);
           }
           break;
         }
@@ -253,6 +346,9 @@ class KpiCalculationService {
 
       const fieldName = field.name;
 
+      // Resolve renamed fields across template versions
+      const fx = await this.resolveFieldSql(fieldName, filters);
+
       // Perform the calculation based on the KPI type
       let result: number;
 
@@ -264,7 +360,7 @@ class KpiCalculationService {
               ...whereClause,
               [Op.and]: [
                 ...(((whereClause as any)[Op.and] as any[]) || []),
-                literal(`(data ? '${fieldName}') AND NULLIF(data->>'${fieldName}','') IS NOT NULL`)
+                literal(`${fx.exists} AND NULLIF(${fx.value},'') IS NOT NULL`)
               ]
             }
           });
@@ -279,11 +375,11 @@ class KpiCalculationService {
               ...whereClause,
               [Op.and]: [
                 ...(((whereClause as any)[Op.and] as any[]) || []),
-                literal(`(data ? '${fieldName}') AND (data->>'${fieldName}') ~ '^[-]?\\d+(\\.\\d+)?$'`)
+                literal(`${fx.exists} AND ${fx.value} ~ '^[-]?\\d+(\\.\\d+)?$'`)
               ]
             },
             attributes: [
-              [literal(`COALESCE(SUM((data->>'${fieldName}')::numeric),0)`) as any, 'total']
+              [literal(`COALESCE(SUM(${fx.value}::numeric),0)`) as any, 'total']
             ],
             raw: true
           }) as any[];
@@ -298,11 +394,11 @@ class KpiCalculationService {
               ...whereClause,
               [Op.and]: [
                 ...(((whereClause as any)[Op.and] as any[]) || []),
-                literal(`(data ? '${fieldName}') AND (data->>'${fieldName}') ~ '^[-]?\\d+(\\.\\d+)?$'`)
+                literal(`${fx.exists} AND ${fx.value} ~ '^[-]?\\d+(\\.\\d+)?$'`)
               ]
             },
             attributes: [
-              [literal(`COALESCE(AVG((data->>'${fieldName}')::numeric),0)`) as any, 'average']
+              [literal(`COALESCE(AVG(${fx.value}::numeric),0)`) as any, 'average']
             ],
             raw: true
           }) as any[];
@@ -317,11 +413,11 @@ class KpiCalculationService {
               ...whereClause,
               [Op.and]: [
                 ...(((whereClause as any)[Op.and] as any[]) || []),
-                literal(`(data ? '${fieldName}') AND (data->>'${fieldName}') ~ '^[-]?\\d+(\\.\\d+)?$'`)
+                literal(`${fx.exists} AND ${fx.value} ~ '^[-]?\\d+(\\.\\d+)?$'`)
               ]
             },
             attributes: [
-              [literal(`COALESCE(MIN((data->>'${fieldName}')::numeric),0)`) as any, 'min']
+              [literal(`COALESCE(MIN(${fx.value}::numeric),0)`) as any, 'min']
             ],
             raw: true
           }) as any[];
@@ -336,11 +432,11 @@ class KpiCalculationService {
               ...whereClause,
               [Op.and]: [
                 ...(((whereClause as any)[Op.and] as any[]) || []),
-                literal(`(data ? '${fieldName}') AND (data->>'${fieldName}') ~ '^[-]?\\d+(\\.\\d+)?$'`)
+                literal(`${fx.exists} AND ${fx.value} ~ '^[-]?\\d+(\\.\\d+)?$'`)
               ]
             },
             attributes: [
-              [literal(`COALESCE(MAX((data->>'${fieldName}')::numeric),0)`) as any, 'max']
+              [literal(`COALESCE(MAX(${fx.value}::numeric),0)`) as any, 'max']
             ],
             raw: true
           }) as any[];
@@ -360,7 +456,7 @@ class KpiCalculationService {
                 ...whereClause,
                 [Op.and]: [
                   ...(((whereClause as any)[Op.and] as any[]) || []),
-                  literal(`(data ? '${fieldName}') AND (data->>'${fieldName}') = '${this.esc(String(expectedValue))}'`)
+                  literal(`${fx.exists} AND ${fx.value} = '${this.esc(String(expectedValue))}'`)
                 ]
               }
             });
@@ -417,6 +513,7 @@ class KpiCalculationService {
         throw new Error('Field not found for KPI calculation');
       }
       const fieldName = field.name;
+      const fx = await this.resolveFieldSql(fieldName, filters);
 
       const whereClause: any = this.buildBaseWhereClause(filters, kpi.filterCriteria || undefined);
       const unit = filters.groupBy;
@@ -425,24 +522,24 @@ class KpiCalculationService {
       let valueExpr = '';
       switch (kpi.calculationType) {
         case 'COUNT':
-          valueExpr = `COUNT(*) FILTER (WHERE (data ? '${this.esc(fieldName)}') AND NULLIF(data->>'${this.esc(fieldName)}','') IS NOT NULL)`;
+          valueExpr = `COUNT(*) FILTER (WHERE ${fx.exists} AND NULLIF(${fx.value},'') IS NOT NULL)`;
           break;
         case 'SUM':
-          valueExpr = `COALESCE(SUM(CASE WHEN (data ? '${this.esc(fieldName)}') AND (data->>'${this.esc(fieldName)}') ~ '^[-]?\\d+(\\.\\d+)?$' THEN (data->>'${this.esc(fieldName)}')::numeric ELSE 0 END),0)`;
+          valueExpr = `COALESCE(SUM(CASE WHEN ${fx.exists} AND ${fx.value} ~ '^[-]?\\d+(\\.\\d+)?$' THEN ${fx.value}::numeric ELSE 0 END),0)`;
           break;
         case 'AVERAGE':
-          valueExpr = `COALESCE(AVG(NULLIF((CASE WHEN (data ? '${this.esc(fieldName)}') AND (data->>'${this.esc(fieldName)}') ~ '^[-]?\\d+(\\.\\d+)?$' THEN (data->>'${this.esc(fieldName)}')::numeric ELSE NULL END),NULL)),0)`;
+          valueExpr = `COALESCE(AVG(NULLIF((CASE WHEN ${fx.exists} AND ${fx.value} ~ '^[-]?\\d+(\\.\\d+)?$' THEN ${fx.value}::numeric ELSE NULL END),NULL)),0)`;
           break;
         case 'MIN':
-          valueExpr = `COALESCE(MIN(CASE WHEN (data ? '${this.esc(fieldName)}') AND (data->>'${this.esc(fieldName)}') ~ '^[-]?\\d+(\\.\\d+)?$' THEN (data->>'${this.esc(fieldName)}')::numeric ELSE NULL END),0)`;
+          valueExpr = `COALESCE(MIN(CASE WHEN ${fx.exists} AND ${fx.value} ~ '^[-]?\\d+(\\.\\d+)?$' THEN ${fx.value}::numeric ELSE NULL END),0)`;
           break;
         case 'MAX':
-          valueExpr = `COALESCE(MAX(CASE WHEN (data ? '${this.esc(fieldName)}') AND (data->>'${this.esc(fieldName)}') ~ '^[-]?\\d+(\\.\\d+)?$' THEN (data->>'${this.esc(fieldName)}')::numeric ELSE NULL END),0)`;
+          valueExpr = `COALESCE(MAX(CASE WHEN ${fx.exists} AND ${fx.value} ~ '^[-]?\\d+(\\.\\d+)?$' THEN ${fx.value}::numeric ELSE NULL END),0)`;
           break;
         case 'PERCENTAGE': {
           const expectedValue = (kpi.filterCriteria as any)?.expectedValue ?? 'true';
           const expected = `'${this.esc(String(expectedValue))}'`;
-          valueExpr = `CASE WHEN COUNT(*) = 0 THEN 0 ELSE (SUM(CASE WHEN (data ? '${this.esc(fieldName)}') AND (data->>'${this.esc(fieldName)}') = ${expected} THEN 1 ELSE 0 END)::float / COUNT(*)::float) * 100 END`;
+          valueExpr = `CASE WHEN COUNT(*) = 0 THEN 0 ELSE (SUM(CASE WHEN ${fx.exists} AND ${fx.value} = ${expected} THEN 1 ELSE 0 END)::float / COUNT(*)::float) * 100 END`;
           break;
         }
         default:
@@ -522,7 +619,9 @@ class KpiCalculationService {
   }
 
   /**
-   * Register new form fields from a form template schema
+   * Register new form fields from a form template schema.
+   * Fields inside sections and repeat groups are registered by path (`household.size`,
+   * `members[].age`); repeat group fields are not KPI fields since a response holds several values.
    */
   async registerFormFields(template: any): Promise<void> {
     try {
@@ -531,33 +630,40 @@ class KpiCalculationService {
         return;
       }
 
-      const fields = template.schema.fields;
-
-      // Process each field in the schema
-      for (const field of fields) {
-        if (!field.name || !field.type) {
-          logger.warn('Field missing name or type, skipping', field);
-          continue;
-        }
+      const register = async (fields: any[], prefix: string, repeated: boolean): Promise<void> => {
+        for (const field of fields) {
+          if (!field || !field.name || !field.type) {
+            logger.warn('Field missing name or type, skipping', field);
+            continue;
+          }
+          const name = `${prefix}${field.name}`;
 
-        // Check if this field already exists
-        const existingField = await FormField.findOne({
-          where: { name: field.name }
-        });
-
-        if (!existingField) {
-          // Create a new field entry
-          await FormField.create({
-            id: uuidv4(),
-            name: field.name,
-            type: field.type,
-            description: field.label || `Field ${field.name}`,
-            isKpiField: field.type === 'number' || field.type === 'boolean' || field.type === 'select',
+          // Check if this field already exists
+          const existingField = await FormField.findOne({
+            where: { name }
           });
 
-          logger.info(`Registered new form field: ${field.name} (${field.type})`);
+          if (!existingField) {
+            // Create a new field entry
+            await FormField.create({
+              id: uuidv4(),
+              name,
+              type: field.type,
+              description: field.label || `Field ${name}`,
+              isKpiField: !repeated && isKpiFieldType(field.type),
+            });
+
+            logger.info(`Registered new form field: ${name} (${field.type})`);
+          }
+
+          if ((field.type === 'Section' || field.type === 'RepeatGroup') && Array.isArray(field.fields)) {
+            const isRepeat = field.type === 'RepeatGroup';
+            await register(field.fields, isRepeat ? `${name}[].` : `${name}.`, repeated || isRepeat);
+          }
         }
-      }
+      };
+
+      await register(template.schema.fields, '', false);
     } catch (error: any) {
       logger.error(`Error registering form fields: ${error.message}`);
       throw new Error(`Error registering form fields: ${error.message}`);
@@ -579,6 +685,13 @@ class KpiCalculationService {
     }
   }
 
+  /**
+   * Helper: review status condition for FormResponse queries
+   */
+  private responseStatusWhere(filters: KpiFilterOptions): any {
+    return filters.approvedOnly ? 'approved' : { [Op.ne]: 'draft' };
+  }
+
   /**
    * Helper: where clause for FormResponse-focused queries
    */
@@ -668,6 +781,7 @@ class KpiCalculationService {
     // Submitted-by filters
     if (filters.userId) whereClause.submittedBy = filters.userId;
     if (filters.userIds && filters.userIds.length) whereClause.submittedBy = { [Op.in]: filters.userIds };
+    whereClause.status = this.responseStatusWhere(filters);
 
     // Optional ad-hoc data filters
     const ands: any[] = [];
@@ -788,6 +902,11 @@ class KpiCalculationService {
       const list = filters.formTemplateIds.map(id => `'${this.esc(id)}'`).join(',');
       ands.push(literal(`"formResponseId" IN (SELECT id FROM form_responses WHERE "formTemplateId" IN (${list}))`));
     }
+    // Deliveries recorded through a form response only count once the response is approved;
+    // deliveries recorded without a response are not subject to review
+    if (filters.approvedOnly) {
+      ands.push(literal(`("formResponseId" IS NULL OR "formResponseId" IN (SELECT id FROM form_responses WHERE status = 'approved'))`));
+    }
 
     if (entityScopeOr.length) {
       ands.push({ [Op.or]: entityScopeOr });
@@ -831,6 +950,13 @@ class KpiCalculationService {
       }) as any[];
       const uniqueBeneficiariesByDeliveries = Number(uniqueBeneficiariesByDeliveriesRows[0]?.count ?? 0);
 
+      const householdsReachedRows = await ServiceDelivery.findAll({
+        where: delivWhere,
+        attributes: [[literal(`COUNT(DISTINCT ${DELIVERY_HOUSEHOLD_SQL})`) as any, 'count']],
+        raw: true,
+      }) as any[];
+      const householdsReached = Number(householdsReachedRows[0]?.count ?? 0);
+
       // Distincts
       const formTemplatesUsedRows = await FormResponse.findAll({
         where: respWhere,
@@ -851,6 +977,7 @@ class KpiCalculationService {
         uniqueBeneficiariesByResponses,
         serviceDeliveries,
         uniqueBeneficiariesByDeliveries,
+        householdsReached,
         formTemplatesUsed,
         servicesUsed,
         timestamp: new Date(),
@@ -865,7 +992,7 @@ class KpiCalculationService {
    * Dynamic time series for a given metric
    */
   async calculateDynamicSeries(
-    metric: 'submissions' | 'serviceDeliveries' | 'uniqueBeneficiaries',
+    metric: 'submissions' | 'serviceDeliveries' | 'uniqueBeneficiaries' | 'householdsReached',
     filters: KpiFilterOptions & { groupBy: 'day' | 'week' | 'month' | 'quarter' | 'year' }
   ): Promise<DynamicSeriesResult> {
     try {
@@ -898,6 +1025,20 @@ class KpiCalculationService {
           order: [[col('periodStart'), 'ASC']],
           raw: true,
         }) as any[];
+      } else if (metric === 'householdsReached') {
+        // householdsReached: count distinct households per bucket using ServiceDelivery (served)
+        const where = this.buildDeliveryWhere(filters);
+        const bucketExpr = fn('date_trunc', unit, col('deliveredAt'));
+        rows = await ServiceDelivery.findAll({
+          where,
+          attributes: [
+            [bucketExpr, 'periodStart'],
+            [literal(`COUNT(DISTINCT ${DELIVERY_HOUSEHOLD_SQL})`) as any, 'value'],
+          ],
+          group: [bucketExpr],
+          order: [[col('periodStart'), 'ASC']],
+          raw: true,
+        }) as any[];
       } else {
         // uniqueBeneficiaries: count distinct beneficiaryId per bucket using ServiceDelivery (served)
         const where = this.buildDeliveryWhere(filters, [literal('"beneficiaryId" IS NOT NULL')]);
@@ -928,6 +1069,7 @@ class KpiCalculationService {
           totalSubmissions: summaryTotals.submissions,
           totalServiceDeliveries: summaryTotals.serviceDeliveries,
           totalUniqueBeneficiaries: summaryTotals.uniqueBeneficiariesByDeliveries,
+          totalHouseholdsReached: summaryTotals.householdsReached,
           mostFrequentServices,
         }
       };
@@ -986,6 +1128,8 @@ export interface KpiFilterOptions {
   // Submitted-by filtering for form responses
   userId?: string;
   userIds?: string[];
+  // Only count approved form responses (and deliveries recorded through them)
+  approvedOnly?: boolean;
 }
 
 export interface KpiResult {
@@ -1000,7 +1144,7 @@ export interface KpiResult {
 }
 
 export interface DataFilterCondition {
-  field: string;
+  field: string; // key or path: 'age', 'household.size', 'members[].age'
   op: 'eq' | 'ne' | 'in' | 'nin' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'not_exists';
   value?: string | number | boolean | Array<string | number | boolean>;
   type?: 'string' | 'number' | 'boolean' | 'date';
@@ -1020,19 +1164,21 @@ export interface DynamicSummary {
   uniqueBeneficiariesByResponses: number;
   serviceDeliveries: number;
   uniqueBeneficiariesByDeliveries: number;
+  householdsReached: number;
   formTemplatesUsed: number;
   servicesUsed: number;
   timestamp: Date;
 }
 
 export interface DynamicSeriesResult {
-  metric: 'submissions' | 'serviceDeliveries' | 'uniqueBeneficiaries';
+  metric: 'submissions' | 'serviceDeliveries' | 'uniqueBeneficiaries' | 'householdsReached';
   granularity: 'day' | 'week' | 'month' | 'quarter' | 'year';
   series: Array<{ periodStart: Date; value: number }>;
   summary?: {
     totalSubmissions: number;
     totalServiceDeliveries: number;
     totalUniqueBeneficiaries: number;
+    totalHouseholdsReached: number;
     mostFrequentServices: Array<{ serviceId: string; name: string | null; count: number }>;
   };
 }
@@ -0,0 +1,90 @@
+import { Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { FormResponse, AuditLog } from '../../models';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('form-response-workflow-service');
+
+export const RESPONSE_STATUSES = ['draft', 'submitted', 'approved', 'rejected'] as const;
+export type ResponseStatus = typeof RESPONSE_STATUSES[number];
+
+/**
+ * Allowed review workflow transitions and the audit action recorded for each.
+ * draft → submitted → approved / rejected; rejected → submitted (resubmission).
+ */
+const TRANSITIONS: Record<ResponseStatus, Partial<Record<ResponseStatus, string>>> = {
+  draft: { submitted: 'FORM_RESPONSE_SUBMIT' },
+  submitted: { approved: 'FORM_RESPONSE_APPROVE', rejected: 'FORM_RESPONSE_REJECT' },
+  rejected: { submitted: 'FORM_RESPONSE_RESUBMIT' },
+  approved: {},
+};
+
+/** Statuses in which the submitter may still edit the response data */
+export const EDITABLE_STATUSES: ResponseStatus[] = ['draft', 'rejected'];
+
+export const isResponseStatus = (value: any): value is ResponseStatus =>
+  RESPONSE_STATUSES.includes(value);
+
+/**
+ * Get the audit action for a transition, or null when the transition is not allowed
+ */
+export const getTransitionAction = (from: ResponseStatus, to: ResponseStatus): string | null =>
+  TRANSITIONS[from]?.[to] ?? null;
+
+/**
+ * Move a form response to a new review status and record the transition in the audit log.
+ * Approvals and rejections store the reviewer; a rejection requires a comment.
+ * @returns An error message when the transition is not allowed, otherwise null
+ */
+export const transitionFormResponse = async (
+  response: FormResponse,
+  to: ResponseStatus,
+  options: { userId: string; comment?: string | null; transaction?: Transaction }
+): Promise<string | null> => {
+  const from = (response.status || 'submitted') as ResponseStatus;
+  const action = getTransitionAction(from, to);
+  if (!action) {
+    return `Cannot change status from '${from}' to '${to}'`;
+  }
+
+  const comment = typeof options.comment === 'string' ? options.comment.trim() : '';
+  if (to === 'rejected' && !comment) {
+    return 'A comment is required when rejecting a response';
+  }
+
+  const updates: Record<string, any> = { status: to };
+  if (to === 'approved' || to === 'rejected') {
+    updates.reviewedBy = options.userId;
+    updates.reviewedAt = new Date();
+    updates.reviewComment = comment || null;
+  } else if (to === 'submitted') {
+    updates.submittedAt = new Date();
+  }
+  await response.update(updates, { transaction: options.transaction });
+
+  await AuditLog.create({
+    id: uuidv4(),
+    userId: options.userId,
+    action,
+    description: `Form response ${response.id} changed from ${from} to ${to}`,
+    details: JSON.stringify({
+      responseId: response.id,
+      templateId: response.formTemplateId,
+      from,
+      to,
+      comment: comment || null,
+    }),
+    timestamp: new Date()
+  }, { transaction: options.transaction });
+
+  logger.info('Form response status changed', { responseId: response.id, from, to, userId: options.userId });
+  return null;
+};
+
+export default {
+  RESPONSE_STATUSES,
+  EDITABLE_STATUSES,
+  isResponseStatus,
+  getTransitionAction,
+  transitionFormResponse,
+};
@@ -0,0 +1,165 @@
+import { Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { FormTemplate, BeneficiaryMapping, Project, Subproject, Activity } from '../../models';
+import FormEntityAssociation from '../../models/FormEntityAssociation';
+import { createLogger } from '../../utils/logger';
+import { snapshotTemplateVersion, diffTemplateSchemas } from './templateVersionService';
+import kpiCalculationService from './kpiCalculationService';
+
+const logger = createLogger('form-template-library-service');
+
+export interface TemplateEntity {
+  id: string;
+  type: 'project' | 'subproject' | 'activity';
+}
+
+const ENTITY_MODELS: Record<string, any> = { project: Project, subproject: Subproject, activity: Activity };
+
+/**
+ * Check that every target entity exists
+ * @returns An error message, or null when all entities are valid
+ */
+export const validateTemplateEntities = async (entities: any, transaction?: Transaction): Promise<string | null> => {
+  if (!Array.isArray(entities) || entities.length === 0) {
+    return 'entities must be a non-empty array';
+  }
+  for (const entity of entities) {
+    const model = ENTITY_MODELS[entity?.type];
+    if (!entity?.id || !model) {
+      return `Each entity must have an id and a type of: ${Object.keys(ENTITY_MODELS).join(', ')}`;
+    }
+    if (!(await model.findByPk(entity.id, { attributes: ['id'], transaction }))) {
+      return `${entity.type} with ID ${entity.id} not found`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Clone a template into a new one that records its origin.
+ * The schema is copied as version 1 of the clone; entity associations are the given
+ * entities, or the source's associations when none are given.
+ */
+export const cloneFormTemplate = async (
+  source: FormTemplate,
+  options: {
+    name: string;
+    entities?: TemplateEntity[];
+    includeBeneficiaryMapping?: boolean;
+    userId: string;
+    transaction: Transaction;
+  }
+) => {
+  const { transaction } = options;
+  const entities: TemplateEntity[] = options.entities?.length
+    ? options.entities
+    : (source.entityAssociations || []).map(ea => ({ id: ea.entityId, type: ea.entityType as TemplateEntity['type'] }));
+
+  const clone = await FormTemplate.create({
+    id: uuidv4(),
+    name: options.name,
+    schema: source.schema,
+    version: 1,
+    status: 'active',
+    includeBeneficiaries: source.includeBeneficiaries,
+    isBlueprint: false,
+    originTemplateId: source.id,
+    originVersion: source.version,
+  }, { transaction });
+  await snapshotTemplateVersion(clone, { transaction, userId: options.userId });
+
+  for (const entity of entities) {
+    await FormEntityAssociation.create({
+      id: uuidv4(),
+      formTemplateId: clone.id,
+      entityId: entity.id,
+      entityType: entity.type,
+    }, { transaction });
+  }
+
+  let mappingCopied = false;
+  if (options.includeBeneficiaryMapping !== false) {
+    const mapping = await BeneficiaryMapping.findOne({ where: { formTemplateId: source.id }, transaction });
+    if (mapping) {
+      await BeneficiaryMapping.create({ id: uuidv4(), formTemplateId: clone.id, mapping: mapping.mapping }, { transaction });
+      mappingCopied = true;
+    }
+  }
+
+  logger.info('Cloned form template', { sourceId: source.id, cloneId: clone.id, entities: entities.length, mappingCopied });
+  return { clone, entities, mappingCopied };
+};
+
+/**
+ * Describe the blueprint update available to a derived template: the origin's current version
+ * and what applying it would change in the derived template's schema.
+ * @returns null when the template has no origin (or the origin was deleted)
+ */
+export const getBlueprintUpdate = async (template: FormTemplate, transaction?: Transaction) => {
+  if (!template.originTemplateId) return null;
+  const origin = await FormTemplate.findByPk(template.originTemplateId, { transaction });
+  if (!origin) return null;
+
+  const currentVersion = template.originVersion ?? 0;
+  return {
+    originTemplateId: origin.id,
+    originName: origin.name,
+    originIsBlueprint: origin.isBlueprint,
+    currentVersion: template.originVersion ?? null,
+    latestVersion: origin.version,
+    updateAvailable: origin.version > currentVersion,
+    diff: diffTemplateSchemas(template.schema, origin.schema),
+    origin,
+  };
+};
+
+/**
+ * Replace a derived template's schema with its origin's current schema (a new template version)
+ * and optionally its beneficiary mapping. Local schema changes are overwritten.
+ */
+export const applyBlueprintUpdate = async (
+  template: FormTemplate,
+  origin: FormTemplate,
+  options: { includeBeneficiaryMapping?: boolean; userId: string; transaction: Transaction }
+) => {
+  const { transaction } = options;
+  const schemaChanged = JSON.stringify(template.schema) !== JSON.stringify(origin.schema);
+  const previousVersion = template.version;
+
+  if (schemaChanged) {
+    // Make sure the outgoing schema is frozen before replacing it
+    await snapshotTemplateVersion(template, { transaction });
+    await template.update({ schema: origin.schema, version: template.version + 1, originVersion: origin.version }, { transaction });
+    await snapshotTemplateVersion(template, { transaction, userId: options.userId });
+  } else {
+    await template.update({ originVersion: origin.version }, { transaction });
+  }
+
+  let mappingCopied = false;
+  if (options.includeBeneficiaryMapping) {
+    const mapping = await BeneficiaryMapping.findOne({ where: { formTemplateId: origin.id }, transaction });
+    if (mapping) {
+      const existing = await BeneficiaryMapping.findOne({ where: { formTemplateId: template.id }, transaction });
+      if (existing) {
+        await existing.update({ mapping: mapping.mapping }, { transaction });
+      } else {
+        await BeneficiaryMapping.create({ id: uuidv4(), formTemplateId: template.id, mapping: mapping.mapping }, { transaction });
+      }
+      mappingCopied = true;
+    }
+  }
+
+  if (schemaChanged) {
+    await kpiCalculationService.registerFormFields(template);
+  }
+
+  logger.info('Applied blueprint update', { templateId: template.id, originId: origin.id, originVersion: origin.version, schemaChanged });
+  return { schemaChanged, previousVersion, version: template.version, mappingCopied };
+};
+
+export default {
+  validateTemplateEntities,
+  cloneFormTemplate,
+  getBlueprintUpdate,
+  applyBlueprintUpdate,
+};
@@ -0,0 +1,227 @@
+import { Op, Transaction, literal } from 'sequelize';
+import { FormTemplate, FormTemplateVersion } from '../../models';
+import { createLogger } from '../../utils/logger';
+import { v4 as uuidv4 } from 'uuid';
+
+const logger = createLogger('form-template-version-service');
+
+/**
+ * Freeze the current schema of a template as a version row.
+ * Idempotent: returns the existing row if the version was already snapshotted.
+ */
+export const snapshotTemplateVersion = async (
+  template: { id: string; version: number; schema: any },
+  options: { transaction?: Transaction; userId?: string | null } = {}
+) => {
+  const [row, created] = await FormTemplateVersion.findOrCreate({
+    where: { formTemplateId: template.id, version: template.version },
+    defaults: {
+      id: uuidv4(),
+      formTemplateId: template.id,
+      version: template.version,
+      schema: template.schema,
+      createdBy: options.userId ?? null,
+    },
+    transaction: options.transaction,
+  });
+  if (created) {
+    logger.info('Created form template version snapshot', { templateId: template.id, version: template.version });
+  }
+  return row;
+};
+
+/**
+ * Get the schema of a specific template version.
+ * Templates created before versioning have no snapshot rows; their current schema is
+ * used when the requested version is the current one.
+ * @returns The schema, or null if the version does not exist
+ */
+export const getTemplateVersionSchema = async (templateId: string, version: number, transaction?: Transaction) => {
+  const row = await FormTemplateVersion.findOne({
+    where: { formTemplateId: templateId, version },
+    transaction,
+  });
+  if (row) return row.schema;
+
+  const template = await FormTemplate.findByPk(templateId, { attributes: ['id', 'version', 'schema'], transaction });
+  if (template && template.version === version) return template.schema;
+  return null;
+};
+
+/**
+ * List versions of a template (newest first), including the current version when it has no snapshot yet
+ */
+export const listTemplateVersions = async (templateId: string) => {
+  const template = await FormTemplate.findByPk(templateId, { attributes: ['id', 'version', 'schema', 'updatedAt'] });
+  if (!template) return null;
+
+  const rows = await FormTemplateVersion.findAll({
+    where: { formTemplateId: templateId },
+    order: [['version', 'DESC']],
+  });
+  const versions = rows.map(r => ({
+    version: r.version,
+    createdBy: r.createdBy ?? null,
+    createdAt: r.createdAt,
+    fieldCount: Array.isArray(r.schema?.fields) ? r.schema.fields.length : 0,
+    current: r.version === template.version,
+  }));
+  if (!versions.some(v => v.version === template.version)) {
+    versions.unshift({
+      version: template.version,
+      createdBy: null,
+      createdAt: template.updatedAt,
+      fieldCount: Array.isArray(template.schema?.fields) ? template.schema.fields.length : 0,
+      current: true,
+    });
+  }
+  return versions;
+};
+
+/** Flatten fields to a path-keyed map (`section.field`, `group[].field`) */
+const flattenFields = (fields: any[], prefix: string = '', out: Map<string, any> = new Map()) => {
+  for (const field of fields || []) {
+    if (!field?.name) continue;
+    const path = `${prefix}${field.name}`;
+    out.set(path, field);
+    if ((field.type === 'Section' || field.type === 'RepeatGroup') && Array.isArray(field.fields)) {
+      flattenFields(field.fields, field.type === 'RepeatGroup' ? `${path}[].` : `${path}.`, out);
+    }
+  }
+  return out;
+};
+
+const renamedFromList = (field: any): string[] =>
+  field?.renamedFrom === undefined ? [] : Array.isArray(field.renamedFrom) ? field.renamedFrom : [field.renamedFrom];
+
+/**
+ * Compute a field-level diff between two template schemas.
+ * Fields declaring `renamedFrom` are reported as renames instead of remove + add.
+ */
+export const diffTemplateSchemas = (fromSchema: any, toSchema: any) => {
+  const fromFields = flattenFields(fromSchema?.fields || []);
+  const toFields = flattenFields(toSchema?.fields || []);
+
+  const added: Array<{ path: string; field: any }> = [];
+  const removed: Array<{ path: string; field: any }> = [];
+  const renamed: Array<{ from: string; to: string }> = [];
+  const changed: Array<{ path: string; changes: Record<string, { from: any; to: any }> }> = [];
+
+  const compareFields = (path: string, before: any, after: any) => {
+    const changes: Record<string, { from: any; to: any }> = {};
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      // Nested fields are compared individually by path
+      if (key === 'fields' || key === 'name' || key === 'renamedFrom') continue;
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changes[key] = { from: before[key], to: after[key] };
+      }
+    }
+    if (Object.keys(changes).length) changed.push({ path, changes });
+  };
+
+  const consumed = new Set<string>();
+  for (const [path, field] of toFields) {
+    const before = fromFields.get(path);
+    if (before) {
+      consumed.add(path);
+      compareFields(path, before, field);
+      continue;
+    }
+    const prefix = path.slice(0, path.length - field.name.length);
+    const previous = renamedFromList(field).map(n => `${prefix}${n}`).find(p => fromFields.has(p) && !toFields.has(p));
+    if (previous) {
+      consumed.add(previous);
+      renamed.push({ from: previous, to: path });
+      compareFields(path, fromFields.get(previous), field);
+    } else {
+      added.push({ path, field });
+    }
+  }
+  for (const [path, field] of fromFields) {
+    if (!consumed.has(path)) removed.push({ path, field });
+  }
+
+  return { added, removed, renamed, changed };
+};
+
+// Rename links of a template across its versions, keyed by templateId@version.
+// Versions are immutable, so a new version means a new key and entries never go stale.
+const renameLinksCache = new Map<string, Map<string, Set<string>>>();
+
+/** Link the paths of renamed fields to their previous paths, in either direction */
+const buildRenameLinks = (schemas: any[]) => {
+  const edges = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (!edges.has(a)) edges.set(a, new Set());
+    if (!edges.has(b)) edges.set(b, new Set());
+    edges.get(a)!.add(b);
+    edges.get(b)!.add(a);
+  };
+  for (const schema of schemas) {
+    for (const [path, field] of flattenFields(schema?.fields || [])) {
+      const prefix = path.slice(0, path.length - field.name.length);
+      for (const previous of renamedFromList(field)) {
+        if (previous) link(path, `${prefix}${previous}`);
+      }
+    }
+  }
+  return edges;
+};
+
+/**
+ * Resolve every name a field has had across the versions of each template,
+ * following `renamedFrom` declarations in either direction. Renames are only
+ * followed within the template that declares them.
+ * @param templateIds Templates to resolve in (defaults to every template)
+ * @returns Per template id, the field names with the requested name first; templates
+ * where the field was never renamed are left out
+ */
+export const resolveFieldAliases = async (fieldName: string, templateIds?: string[]): Promise<Map<string, string[]>> => {
+  const templates = await FormTemplate.findAll({
+    attributes: ['id', 'version'],
+    where: templateIds ? { id: templateIds } : undefined,
+  });
+
+  const missing = templates.filter(t => !renameLinksCache.has(`${t.id}@${t.version}`));
+  if (missing.length) {
+    const rows = await FormTemplateVersion.findAll({
+      attributes: ['formTemplateId', 'schema'],
+      where: {
+        formTemplateId: missing.map(t => t.id),
+        [Op.and]: literal(`schema::text LIKE '%"renamedFrom"%'`),
+      },
+    });
+    for (const template of missing) {
+      const schemas = rows.filter(r => r.formTemplateId === template.id).map(r => r.schema);
+      renameLinksCache.set(`${template.id}@${template.version}`, buildRenameLinks(schemas));
+    }
+  }
+
+  const aliases = new Map<string, string[]>();
+  for (const template of templates) {
+    const edges = renameLinksCache.get(`${template.id}@${template.version}`)!;
+    if (!edges.has(fieldName)) continue;
+    const names = [fieldName];
+    const queue = [fieldName];
+    while (queue.length) {
+      const current = queue.shift()!;
+      for (const next of edges.get(current) || []) {
+        if (!names.includes(next)) {
+          names.push(next);
+          queue.push(next);
+        }
+      }
+    }
+    aliases.set(template.id, names);
+  }
+  return aliases;
+};
+
+export default {
+  snapshotTemplateVersion,
+  getTemplateVersionSchema,
+  listTemplateVersions,
+  diffTemplateSchemas,
+  resolveFieldAliases,
+};
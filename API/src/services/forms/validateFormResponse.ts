@@ -2,81 +2,129 @@ import Ajv, { ErrorObject } from 'ajv';
 import addFormats from 'ajv-formats';
 import { FormTemplate } from '../../models';
 import { createLogger } from '../../utils/logger';
+import { applyFieldLogic } from './formLogic';
+import { getTemplateVersionSchema } from './templateVersionService';
 
 const logger = createLogger('form-validation-service');
 
-// Initialize Ajv
-const ajv = new Ajv({ allErrors: true });
+// Initialize Ajv (multipleOfPrecision avoids float rounding errors for Decimal precision checks)
+const ajv = new Ajv({ allErrors: true, multipleOfPrecision: 10 });
 addFormats(ajv);
 
-// Schema cache to avoid recompilation
-const schemaCache = new Map<string, any>();
+// Schema cache to avoid recompilation, keyed by templateId@version.
+// Versions are immutable, so cached validators never go stale.
+const schemaCache = new Map<string, { validator: any; fields: any[] }>();
 
 /**
  * Validates form data against a template's schema
  * @param templateId The ID of the form template
  * @param data The form response data to validate
- * @returns Object containing validation result and any errors
+ * @param version Optional template version the data was captured with (defaults to the current version)
+ * @param options.partial Skip required checks (drafts may be incomplete)
+ * @returns Object containing validation result, the version validated against and any errors
  */
-export const validateFormResponse = async (templateId: string, data: any) => {
+export const validateFormResponse = async (
+  templateId: string,
+  data: any,
+  version?: number | null,
+  options: { partial?: boolean } = {}
+) => {
   try {
+    const template = await FormTemplate.findByPk(templateId, { attributes: ['id', 'version'] });
+    
+    if (!template) {
+      logger.error(`Template not found for validation: ${templateId}`);
+      return { 
+        valid: false, 
+        errors: ['Form template not found'] 
+      };
+    }
+    
+    // Version 0 is an explicit (invalid) version, not a missing one
+    const targetVersion = version != null ? Number(version) : template.version;
+    if (!Number.isInteger(targetVersion) || targetVersion < 1 || targetVersion > template.version) {
+      return {
+        valid: false,
+        errors: [`Form template version ${version} not found`]
+      };
+    }
+    
     // Try to get the validator from cache
-    let validator: any = schemaCache.get(templateId);
+    const cacheKey = `${templateId}@${targetVersion}`;
+    let cached = schemaCache.get(cacheKey);
     
-    if (!validator) {
-      // If not in cache, retrieve the template and compile schema
-      const template = await FormTemplate.findByPk(templateId);
+    if (!cached) {
+      // If not in cache, retrieve the version schema and compile it
+      const schema = await getTemplateVersionSchema(templateId, targetVersion);
       
-      if (!template) {
-        logger.error(`Template not found for validation: ${templateId}`);
-        return { 
-          valid: false, 
-          errors: ['Form template not found'] 
+      if (!schema) {
+        logger.error(`Template version not found for validation: ${cacheKey}`);
+        return {
+          valid: false,
+          errors: [`Form template version ${targetVersion} not found`]
         };
       }
       
       // Generate JSON Schema from template schema
-      const jsonSchema = FormTemplate.generateJsonSchema(template.schema);
+      const jsonSchema = FormTemplate.generateJsonSchema(schema);
       
       // Compile the schema
-      validator = ajv.compile(jsonSchema);
+      const validator = ajv.compile(jsonSchema);
       
       // Cache the validator
-      schemaCache.set(templateId, validator);
+      cached = { validator, fields: schema.fields };
+      schemaCache.set(cacheKey, cached);
       
-      logger.info(`Compiled and cached schema for template: ${templateId}`);
+      logger.info(`Compiled and cached schema for template: ${cacheKey}`);
     }
     
+    const { validator, fields } = cached;
+
+    // Apply skip logic: hidden fields are dropped and exempt from required checks
+    const logic = applyFieldLogic(fields, data);
+    
     // Validate the data
-    const valid = validator(data);
+    const valid = validator(logic.data);
+    const schemaErrors: ErrorObject[] = (valid ? [] : validator.errors || [])
+      .filter((error: ErrorObject) => !(options.partial && error.keyword === 'required'));
+    const missingRequired = options.partial ? [] : logic.missingRequired;
     
-    if (!valid) {
+    if (schemaErrors.length > 0 || missingRequired.length > 0) {
       // Format error messages
-      const errors = (validator.errors || []).map((error: ErrorObject) => {
+      const errors = schemaErrors.map((error: ErrorObject) => {
         let message = error.message || 'Invalid data';
         
-        // Add path information if available
+        // Add path information if available (nested paths as section.field / group[0].field)
         if (error.instancePath) {
-          const fieldName = error.instancePath.replace(/^\//, '');
+          const fieldName = error.instancePath
+            .replace(/^\//, '')
+            .replace(/\/(\d+)(?=\/|$)/g, '[$1]')
+            .replace(/\//g, '.');
           message = `Field '${fieldName}': ${message}`;
         }
         
         return message;
       });
+
+      for (const fieldName of missingRequired) {
+        errors.push(`Field '${fieldName}': is required`);
+      }
       
       logger.warn(`Validation failed for template ${templateId}`, { errors });
       
       return {
         valid: false,
+        version: targetVersion,
         errors
       };
     }
     
     // Sanitize input to prevent XSS
-    const sanitizedData = sanitizeFormData(data);
+    const sanitizedData = sanitizeFormData(logic.data);
     
     return {
       valid: true,
+      version: targetVersion,
       data: sanitizedData
     };
     
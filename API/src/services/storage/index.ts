@@ -0,0 +1,41 @@
+import { Readable } from 'stream';
+import LocalDiskStorage from './localDiskStorage';
+
+/**
+ * Blob storage backend used for form attachments and other uploaded files.
+ * Backends are selected with STORAGE_DRIVER; only 'local' is available for now,
+ * an S3-compatible backend can be added by implementing this interface.
+ */
+export interface StorageBackend {
+  /** Driver name persisted alongside stored objects */
+  readonly driver: string;
+  /** Store a stream under the given key; resolves with the number of bytes written */
+  put(key: string, stream: Readable): Promise<{ sizeBytes: number }>;
+  /** Open a read stream for a stored object */
+  get(key: string): Promise<Readable>;
+  /** Remove a stored object; missing objects are ignored */
+  delete(key: string): Promise<void>;
+}
+
+const backends = new Map<string, StorageBackend>();
+
+/**
+ * Get a storage backend by driver name (defaults to STORAGE_DRIVER or 'local')
+ */
+export const getStorage = (driver: string = process.env.STORAGE_DRIVER || 'local'): StorageBackend => {
+  let backend = backends.get(driver);
+  if (backend) return backend;
+
+  switch (driver) {
+    case 'local':
+      backend = new LocalDiskStorage(process.env.UPLOAD_PATH || 'uploads');
+      break;
+    default:
+      throw new Error(`Unsupported storage driver: ${driver}`);
+  }
+
+  backends.set(driver, backend);
+  return backend;
+};
+
+export default getStorage;
@@ -0,0 +1,59 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { StorageBackend } from './index';
+
+/**
+ * Stores objects as files below a root directory. Keys are relative paths
+ * (e.g. 'attachments/2025/01/<uuid>').
+ */
+class LocalDiskStorage implements StorageBackend {
+  public readonly driver = 'local';
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  /** Resolve a key to an absolute path, refusing keys that escape the root */
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, key);
+    if (target !== this.root && !target.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return target;
+  }
+
+  async put(key: string, stream: Readable): Promise<{ sizeBytes: number }> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+    let sizeBytes = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        sizeBytes += chunk.length;
+        callback(null, chunk);
+      }
+    });
+    try {
+      await pipeline(stream, counter, fs.createWriteStream(target, { flags: 'wx' }));
+    } catch (error) {
+      await this.delete(key);
+      throw error;
+    }
+    return { sizeBytes };
+  }
+
+  async get(key: string): Promise<Readable> {
+    const target = this.resolve(key);
+    await fs.promises.access(target, fs.constants.R_OK);
+    return fs.createReadStream(target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export default LocalDiskStorage;
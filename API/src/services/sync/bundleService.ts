@@ -0,0 +1,354 @@
+/**
+ * Offline SQLite bundle served by /sync/full. Tables are generated from the Sequelize models; the
+ * database carries its schema version (PRAGMA user_version and _bundle_meta) and the statements that
+ * bring an older local database up to it (_bundle_migrations).
+ *
+ * The database never leaves the server in the clear. It is encrypted with a fresh AES-256-GCM key,
+ * which is wrapped with the requesting device's RSA public key (RSA-OAEP-256), and the header is
+ * signed with the server's Ed25519 key. Container layout:
+ *
+ *   "CSB1" | header length (uint32 BE) | header (UTF-8 JSON) | signature length (uint16 BE) | signature |
+ *   ciphertext + 16-byte GCM tag
+ *
+ * The signature covers "CSB1" followed by the header bytes; the header holds the SHA-256 of the
+ * ciphertext, so verifying both proves the whole bundle came from this server unchanged.
+ */
+
+import crypto, { KeyObject } from 'crypto';
+import { Model, ModelStatic } from 'sequelize';
+import {
+  Activity,
+  Beneficiary,
+  FormTemplate,
+  Project,
+  ProjectUser,
+  Service,
+  ServiceAssignment,
+  Subproject,
+  SubprojectUser,
+  User,
+} from '../../models';
+import FormEntityAssociation from '../../models/FormEntityAssociation';
+import { SYNC_BUNDLE_PAST_SCHEMAS, SYNC_BUNDLE_SCHEMA_VERSION } from '../../constants/syncBundle';
+
+export const BUNDLE_FORMAT = 'caritas-sync-bundle';
+export const BUNDLE_FORMAT_VERSION = 1;
+
+const MAGIC = Buffer.from('CSB1', 'ascii');
+
+const MIN_DEVICE_KEY_BITS = 2048;
+
+export type BundleColumn = { name: string; type: 'TEXT' | 'INTEGER' | 'REAL'; primaryKey: boolean };
+
+export type BundleTableSchema = { table: string; columns: BundleColumn[] };
+
+export type BundleMigration = { fromVersion: number; statements: string[] };
+
+export type BundleSigningKey = { keyId: string; privateKey: KeyObject; publicKey: KeyObject };
+
+export type BundleHeader = {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  schemaHash: string;
+  generatedAt: string;
+  userId: string;
+  deviceId: string;
+  cursor: string;
+  encryption: { alg: 'A256GCM'; keyAlg: 'RSA-OAEP-256'; wrappedKey: string; iv: string };
+  ciphertextSha256: string;
+  signature: { alg: 'Ed25519'; keyId: string };
+};
+
+type BundleTable = { model: ModelStatic<Model>; columns?: string[] };
+
+/** Columns of the users table; other user attributes (credentials, tokens, login history) stay on the server */
+export const BUNDLE_USER_COLUMNS = ['id', 'firstName', 'lastName', 'email', 'status', 'createdAt', 'updatedAt'];
+
+/** Tables of the bundle in creation order; every model attribute becomes a column unless `columns` lists them */
+const BUNDLE_TABLES: BundleTable[] = [
+  { model: Project },
+  { model: Subproject },
+  { model: Activity },
+  { model: User, columns: BUNDLE_USER_COLUMNS },
+  { model: ProjectUser },
+  { model: SubprojectUser },
+  { model: FormTemplate },
+  { model: FormEntityAssociation },
+  { model: Service },
+  { model: ServiceAssignment },
+  { model: Beneficiary },
+];
+
+const INTEGER_TYPES = new Set(['INTEGER', 'BIGINT', 'SMALLINT', 'TINYINT', 'MEDIUMINT', 'BOOLEAN']);
+const REAL_TYPES = new Set(['FLOAT', 'DOUBLE', 'REAL', 'DECIMAL']);
+
+const sqliteType = (attribute: any): BundleColumn['type'] => {
+  const key = String(attribute?.type?.key ?? '');
+  if (INTEGER_TYPES.has(key)) return 'INTEGER';
+  if (REAL_TYPES.has(key)) return 'REAL';
+  return 'TEXT';
+};
+
+const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const tableNameOf = (model: ModelStatic<Model>) => {
+  const name = model.getTableName() as any;
+  return typeof name === 'string' ? name : String(name.tableName);
+};
+
+/**
+ * Tables and columns of the bundle, from the model definitions
+ */
+export const bundleSchema = (): BundleTableSchema[] =>
+  BUNDLE_TABLES.map(({ model, columns }) => ({
+    table: tableNameOf(model),
+    columns: Object.entries(model.getAttributes())
+      .filter(([name]) => !columns || columns.includes(name))
+      .map(([name, attribute]) => ({ name, type: sqliteType(attribute), primaryKey: Boolean((attribute as any).primaryKey) })),
+  }));
+
+const columnDefinition = (column: BundleColumn) =>
+  `${quote(column.name)} ${column.type}${column.primaryKey ? ' PRIMARY KEY' : ''}`;
+
+const createTable = (schema: BundleTableSchema) =>
+  `CREATE TABLE IF NOT EXISTS ${quote(schema.table)} (${schema.columns.map(columnDefinition).join(', ')})`;
+
+export const schemaStatements = (schema: BundleTableSchema[]) => schema.map(createTable);
+
+/** SHA-256 of the generated DDL; changes whenever a bundled model changes */
+export const schemaHash = (schema: BundleTableSchema[]) =>
+  crypto.createHash('sha256').update(schemaStatements(schema).join(';\n')).digest('hex');
+
+/**
+ * Statements that bring a local database of each past schema version to the current one: missing
+ * tables are created and missing columns added. Columns dropped since are left in place.
+ */
+export const migrationStatements = (schema: BundleTableSchema[]): BundleMigration[] =>
+  Object.entries(SYNC_BUNDLE_PAST_SCHEMAS)
+    .map(([version, tables]) => ({
+      fromVersion: Number(version),
+      statements: schema.flatMap(table => {
+        const existing = tables[table.table];
+        if (!existing) return [createTable(table)];
+        return table.columns
+          .filter(column => !existing.includes(column.name))
+          .map(column => `ALTER TABLE ${quote(table.table)} ADD COLUMN ${quote(column.name)} ${column.type}`);
+      }),
+    }))
+    .filter(migration => migration.fromVersion < SYNC_BUNDLE_SCHEMA_VERSION)
+    .sort((a, b) => a.fromVersion - b.fromVersion);
+
+const toSqliteValue = (value: any) => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'bigint') return value;
+  return JSON.stringify(value);
+};
+
+const valueOf = (row: any, key: string) => (typeof row?.get === 'function' ? row.get(key) : row?.[key]);
+
+const loadSqlite = () => {
+  try {
+    // Lazy require to avoid crashing the server if the native module is not installed
+    return require('better-sqlite3');
+  } catch {
+    return null;
+  }
+};
+
+export const isBundleAvailable = () => loadSqlite() !== null;
+
+/**
+ * Build the SQLite database in memory (no plaintext copy on disk). Rows are keyed by table name.
+ */
+export const buildBundleDatabase = (rows: Record<string, any[]>, meta: Record<string, string>): Buffer => {
+  const BetterSqlite3 = loadSqlite();
+  if (!BetterSqlite3) throw new Error('better-sqlite3 is not installed');
+  const schema = bundleSchema();
+  const db = new BetterSqlite3(':memory:');
+  try {
+    db.exec('BEGIN TRANSACTION');
+    for (const statement of schemaStatements(schema)) db.exec(statement);
+    db.exec('CREATE TABLE "_bundle_meta" ("key" TEXT PRIMARY KEY, "value" TEXT)');
+    db.exec('CREATE TABLE "_bundle_migrations" ("fromVersion" INTEGER NOT NULL, "toVersion" INTEGER NOT NULL, "step" INTEGER NOT NULL, "statement" TEXT NOT NULL)');
+
+    for (const table of schema) {
+      const names = table.columns.map(c => c.name);
+      const insert = db.prepare(`INSERT INTO ${quote(table.table)} (${names.map(quote).join(', ')}) VALUES (${names.map(() => '?').join(', ')})`);
+      for (const row of rows[table.table] || []) {
+        insert.run(...names.map(name => toSqliteValue(valueOf(row, name))));
+      }
+    }
+
+    const metaInsert = db.prepare('INSERT INTO "_bundle_meta" ("key", "value") VALUES (?, ?)');
+    const entries: Record<string, string> = {
+      ...meta,
+      format: BUNDLE_FORMAT,
+      schemaVersion: String(SYNC_BUNDLE_SCHEMA_VERSION),
+      schemaHash: schemaHash(schema),
+    };
+    for (const [key, value] of Object.entries(entries)) metaInsert.run(key, value);
+
+    const migrationInsert = db.prepare('INSERT INTO "_bundle_migrations" ("fromVersion", "toVersion", "step", "statement") VALUES (?, ?, ?, ?)');
+    for (const { fromVersion, statements } of migrationStatements(schema)) {
+      statements.forEach((statement, step) => migrationInsert.run(fromVersion, SYNC_BUNDLE_SCHEMA_VERSION, step, statement));
+    }
+
+    db.exec('COMMIT');
+    db.pragma(`user_version = ${SYNC_BUNDLE_SCHEMA_VERSION}`);
+    return db.serialize();
+  } catch (e) {
+    if (db.inTransaction) db.exec('ROLLBACK');
+    throw e;
+  } finally {
+    db.close();
+  }
+};
+
+const readKey = (value: string, type: 'private' | 'public') => {
+  const text = value.trim();
+  if (text.startsWith('-----BEGIN')) {
+    return type === 'private' ? crypto.createPrivateKey(text) : crypto.createPublicKey(text);
+  }
+  const der = Buffer.from(text, 'base64');
+  return type === 'private'
+    ? crypto.createPrivateKey({ key: der, format: 'der', type: 'pkcs8' })
+    : crypto.createPublicKey({ key: der, format: 'der', type: 'spki' });
+};
+
+/**
+ * Device public key from the X-Device-Public-Key header: RSA, at least 2048 bits, SPKI as PEM or
+ * base64 DER. Null when missing or unusable.
+ */
+export const parseDevicePublicKey = (value: any): KeyObject | null => {
+  if (typeof value !== 'string' || !value.trim() || value.length > 8192) return null;
+  try {
+    // Headers cannot carry newlines; accept PEM with escaped ones
+    const key = readKey(value.replace(/\\n/g, '\n'), 'public');
+    if (key.asymmetricKeyType !== 'rsa') return null;
+    if ((key.asymmetricKeyDetails?.modulusLength ?? 0) < MIN_DEVICE_KEY_BITS) return null;
+    return key;
+  } catch {
+    return null;
+  }
+};
+
+const signingKeyCache = new Map<string, BundleSigningKey>();
+
+/**
+ * Ed25519 key that signs bundles: SYNC_BUNDLE_SIGNING_KEY (PKCS#8, PEM or base64 DER). Its id is
+ * SYNC_BUNDLE_SIGNING_KEY_ID or the first 16 hex digits of the public key's SHA-256. Null when unset.
+ */
+export const bundleSigningKey = (): BundleSigningKey | null => {
+  const value = process.env.SYNC_BUNDLE_SIGNING_KEY;
+  if (!value) return null;
+  const cacheKey = `${value}|${process.env.SYNC_BUNDLE_SIGNING_KEY_ID ?? ''}`;
+  const cached = signingKeyCache.get(cacheKey);
+  if (cached) return cached;
+
+  const privateKey = readKey(value.replace(/\\n/g, '\n'), 'private');
+  if (privateKey.asymmetricKeyType !== 'ed25519') throw new Error('SYNC_BUNDLE_SIGNING_KEY must be an Ed25519 private key');
+  const publicKey = crypto.createPublicKey(privateKey);
+  const keyId = process.env.SYNC_BUNDLE_SIGNING_KEY_ID
+    || crypto.createHash('sha256').update(publicKey.export({ format: 'der', type: 'spki' })).digest('hex').slice(0, 16);
+  const key = { keyId, privateKey, publicKey };
+  signingKeyCache.set(cacheKey, key);
+  return key;
+};
+
+/** Public half of the signing key, for devices to pin */
+export const signingKeyInfo = (key: BundleSigningKey) => ({
+  alg: 'Ed25519' as const,
+  keyId: key.keyId,
+  publicKey: key.publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+  pem: String(key.publicKey.export({ format: 'pem', type: 'spki' })),
+});
+
+/**
+ * Encrypt the database for the device and sign it
+ */
+export const sealBundle = (
+  database: Buffer,
+  devicePublicKey: KeyObject,
+  signer: BundleSigningKey,
+  info: { userId: string; deviceId: string; cursor: string; schemaHash: string }
+) => {
+  const dataKey = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(database), cipher.final(), cipher.getAuthTag()]);
+  const wrappedKey = crypto.publicEncrypt(
+    { key: devicePublicKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    dataKey
+  );
+
+  const header: BundleHeader = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    schemaVersion: SYNC_BUNDLE_SCHEMA_VERSION,
+    schemaHash: info.schemaHash,
+    generatedAt: new Date().toISOString(),
+    userId: info.userId,
+    deviceId: info.deviceId,
+    cursor: info.cursor,
+    encryption: { alg: 'A256GCM', keyAlg: 'RSA-OAEP-256', wrappedKey: wrappedKey.toString('base64'), iv: iv.toString('base64') },
+    ciphertextSha256: crypto.createHash('sha256').update(ciphertext).digest('hex'),
+    signature: { alg: 'Ed25519', keyId: signer.keyId },
+  };
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+  const signature = crypto.sign(null, Buffer.concat([MAGIC, headerBytes]), signer.privateKey);
+
+  const headerLength = Buffer.alloc(4);
+  headerLength.writeUInt32BE(headerBytes.length);
+  const signatureLength = Buffer.alloc(2);
+  signatureLength.writeUInt16BE(signature.length);
+  return {
+    header,
+    bundle: Buffer.concat([MAGIC, headerLength, headerBytes, signatureLength, signature, ciphertext]),
+  };
+};
+
+/**
+ * Verify and decrypt a bundle, as a device does. Throws when the bundle is malformed, the signature
+ * or checksum does not match, or the key cannot unwrap it.
+ */
+export const openBundle = (bundle: Buffer, devicePrivateKey: KeyObject, signingPublicKey: KeyObject) => {
+  if (bundle.length < 10 || !bundle.subarray(0, 4).equals(MAGIC)) throw new Error('Not a sync bundle');
+  const headerLength = bundle.readUInt32BE(4);
+  const headerBytes = bundle.subarray(8, 8 + headerLength);
+  const signatureLength = bundle.readUInt16BE(8 + headerLength);
+  const signatureStart = 10 + headerLength;
+  const signature = bundle.subarray(signatureStart, signatureStart + signatureLength);
+  const ciphertext = bundle.subarray(signatureStart + signatureLength);
+
+  if (!crypto.verify(null, Buffer.concat([MAGIC, headerBytes]), signingPublicKey, signature)) {
+    throw new Error('Bundle signature does not verify');
+  }
+  const header = JSON.parse(headerBytes.toString('utf8')) as BundleHeader;
+  if (crypto.createHash('sha256').update(ciphertext).digest('hex') !== header.ciphertextSha256) {
+    throw new Error('Bundle checksum does not match');
+  }
+
+  const dataKey = crypto.privateDecrypt(
+    { key: devicePrivateKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    Buffer.from(header.encryption.wrappedKey, 'base64')
+  );
+  const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, Buffer.from(header.encryption.iv, 'base64'));
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const database = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  return { header, database };
+};
+
+export default {
+  bundleSchema,
+  migrationStatements,
+  isBundleAvailable,
+  buildBundleDatabase,
+  parseDevicePublicKey,
+  bundleSigningKey,
+  signingKeyInfo,
+  sealBundle,
+  openBundle,
+};
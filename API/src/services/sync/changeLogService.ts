@@ -0,0 +1,314 @@
+/**
+ * Change log behind delta pulls. Hooks on the synced models append an entry for every row created,
+ * updated or deleted, in the transaction that wrote it, plus a 'revoke' entry for the user whose
+ * program, subproject or activity membership was removed. Devices page through the log with an
+ * opaque cursor instead of a timestamp, so neither clock skew nor deletions are lost.
+ *
+ * A cursor holds the last seq read and the transactions that were still running at the time: their
+ * entries may carry a lower seq and only become visible once they commit, so the next read picks
+ * them up by transaction id. Entries may therefore repeat across pages; applying them is idempotent.
+ */
+
+import { Model, ModelStatic, Op, QueryTypes, Transaction } from 'sequelize';
+import sequelize from '../../db/connection';
+import {
+  Activity,
+  ActivityUser,
+  Beneficiary,
+  BeneficiaryAssignment,
+  BeneficiaryDetails,
+  BeneficiaryMapping,
+  BeneficiaryMatchKey,
+  FormField,
+  FormResponse,
+  FormTemplate,
+  Kpi,
+  Permission,
+  Project,
+  ProjectUser,
+  Role,
+  RolePermission,
+  Service,
+  ServiceAssignment,
+  ServiceDelivery,
+  Subproject,
+  SubprojectUser,
+  SyncChange,
+  User,
+  UserRole,
+} from '../../models';
+import FormEntityAssociation from '../../models/FormEntityAssociation';
+import { SYNC_ENTITY_TYPES, SyncChangeOperation, SyncEntityType } from '../../constants/syncChanges';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('sync-change-log-service');
+
+/** Days change log entries are kept (SYNC_CHANGE_LOG_RETENTION_DAYS, default 90); older cursors must pull a full snapshot */
+export const CHANGE_LOG_RETENTION_DAYS = parseInt(process.env.SYNC_CHANGE_LOG_RETENTION_DAYS || '', 10) || 90;
+
+export const DEFAULT_DELTA_PAGE_SIZE = 500;
+export const MAX_DELTA_PAGE_SIZE = 2000;
+
+export type ChangeCursor = {
+  seq: string;
+  pending: string[]; // ids of transactions running when the cursor was issued
+  issuedAt: number;
+};
+
+export type Tombstone = {
+  entityType: SyncEntityType;
+  id: string;
+  operation: Exclude<SyncChangeOperation, 'upsert'>;
+  projectId: string | null;
+  userId?: string;
+};
+
+export type ChangePage = {
+  upserts: Partial<Record<SyncEntityType, string[]>>;
+  tombstones: Tombstone[];
+  cursor: ChangeCursor;
+  hasMore: boolean;
+};
+
+type ChangeEntry = {
+  entityType: SyncEntityType;
+  entityId: string;
+  operation: SyncChangeOperation;
+  projectId: string | null;
+  userId: string | null;
+};
+
+type TrackedEntity = {
+  model: ModelStatic<Model>;
+  /** Columns needed to build the entries of a row */
+  attributes: string[];
+  projectOf?: (row: any) => string | null;
+  /** Entity a removed membership row grants access to */
+  revokes?: { entityType: SyncEntityType; idOf: (row: any) => string };
+};
+
+const valueOf = (row: any, key: string) => (typeof row?.get === 'function' ? row.get(key) : row?.[key]);
+
+const membership = (entityType: SyncEntityType, key: string): TrackedEntity['revokes'] => ({
+  entityType,
+  idOf: row => String(valueOf(row, key)),
+});
+
+const TRACKED: Record<SyncEntityType, TrackedEntity> = {
+  projects: { model: Project, attributes: ['id'], projectOf: row => String(valueOf(row, 'id')) },
+  subprojects: { model: Subproject, attributes: ['id', 'projectId'], projectOf: row => valueOf(row, 'projectId') ?? null },
+  activities: { model: Activity, attributes: ['id'] },
+  users: { model: User, attributes: ['id'] },
+  projectUsers: {
+    model: ProjectUser,
+    attributes: ['id', 'projectId', 'userId'],
+    projectOf: row => valueOf(row, 'projectId') ?? null,
+    revokes: membership('projects', 'projectId'),
+  },
+  subprojectUsers: { model: SubprojectUser, attributes: ['id', 'subprojectId', 'userId'], revokes: membership('subprojects', 'subprojectId') },
+  activityUsers: { model: ActivityUser, attributes: ['id', 'activityId', 'userId'], revokes: membership('activities', 'activityId') },
+  formTemplates: { model: FormTemplate, attributes: ['id'] },
+  formEntityAssociations: { model: FormEntityAssociation, attributes: ['id'] },
+  services: { model: Service, attributes: ['id'] },
+  entityServices: { model: ServiceAssignment, attributes: ['id'] },
+  beneficiaries: { model: Beneficiary, attributes: ['id'] },
+  serviceDeliveries: { model: ServiceDelivery, attributes: ['id'] },
+  roles: { model: Role, attributes: ['id'] },
+  permissions: { model: Permission, attributes: ['id'] },
+  rolePermissions: { model: RolePermission, attributes: ['id'] },
+  userRoles: { model: UserRole, attributes: ['id'] },
+  formFields: { model: FormField, attributes: ['id'] },
+  kpis: { model: Kpi, attributes: ['id'] },
+  beneficiaryDetails: { model: BeneficiaryDetails, attributes: ['id'] },
+  beneficiaryAssignments: { model: BeneficiaryAssignment, attributes: ['id'] },
+  beneficiaryMappings: { model: BeneficiaryMapping, attributes: ['id'] },
+  beneficiaryMatchKeys: { model: BeneficiaryMatchKey, attributes: ['id'] },
+  formResponses: { model: FormResponse, attributes: ['id'] },
+};
+
+/** Model behind each entity type of the pull payload */
+export const syncEntityModel = (entityType: SyncEntityType) => TRACKED[entityType].model;
+
+export const isSyncEntityType = (value: any): value is SyncEntityType =>
+  typeof value === 'string' && (SYNC_ENTITY_TYPES as readonly string[]).includes(value);
+
+/**
+ * Entries for rows of one entity type
+ */
+export const changeEntries = (entityType: SyncEntityType, rows: any[], operation: 'upsert' | 'delete'): ChangeEntry[] => {
+  const spec = TRACKED[entityType];
+  return rows.flatMap(row => {
+    const projectId = spec.projectOf ? spec.projectOf(row) : null;
+    const entries: ChangeEntry[] = [{ entityType, entityId: String(valueOf(row, 'id')), operation, projectId, userId: null }];
+    const userId = valueOf(row, 'userId');
+    if (operation === 'delete' && spec.revokes && userId) {
+      entries.push({ entityType: spec.revokes.entityType, entityId: spec.revokes.idOf(row), operation: 'revoke', projectId, userId: String(userId) });
+    }
+    return entries;
+  });
+};
+
+const record = async (entries: ChangeEntry[], transaction?: Transaction | null) => {
+  if (!entries.length) return;
+  await SyncChange.bulkCreate(entries, { transaction: transaction ?? undefined });
+};
+
+const HOOK_NAME = 'syncChangeLog';
+
+// Rows matched by a bulk update or destroy, read before the statement runs
+const bulkRows = new WeakMap<object, any[]>();
+
+let hooksRegistered = false;
+
+/**
+ * Register the change log hooks on every synced model. Bulk updates and deletes read the matched rows
+ * first; statements issued through raw queries are not logged.
+ */
+export const registerChangeLogHooks = () => {
+  if (hooksRegistered) return;
+  hooksRegistered = true;
+
+  for (const entityType of SYNC_ENTITY_TYPES) {
+    const { model, attributes } = TRACKED[entityType];
+    const hooks = model as any;
+    const readMatched = async (options: any) => {
+      if (options.individualHooks) return;
+      bulkRows.set(options, await model.findAll({ where: options.where, attributes, transaction: options.transaction, raw: true }));
+    };
+    const recordMatched = (operation: 'upsert' | 'delete') => async (options: any) => {
+      const rows = bulkRows.get(options);
+      bulkRows.delete(options);
+      if (rows) await record(changeEntries(entityType, rows, operation), options.transaction);
+    };
+
+    hooks.addHook('afterCreate', HOOK_NAME, (row: any, options: any) => record(changeEntries(entityType, [row], 'upsert'), options.transaction));
+    hooks.addHook('afterUpdate', HOOK_NAME, (row: any, options: any) => record(changeEntries(entityType, [row], 'upsert'), options.transaction));
+    hooks.addHook('afterRestore', HOOK_NAME, (row: any, options: any) => record(changeEntries(entityType, [row], 'upsert'), options.transaction));
+    hooks.addHook('afterDestroy', HOOK_NAME, (row: any, options: any) => record(changeEntries(entityType, [row], 'delete'), options.transaction));
+    hooks.addHook('afterUpsert', HOOK_NAME, ([row]: any[], options: any) => record(changeEntries(entityType, [row], 'upsert'), options.transaction));
+    hooks.addHook('afterBulkCreate', HOOK_NAME, (rows: any[], options: any) =>
+      options.individualHooks ? undefined : record(changeEntries(entityType, rows, 'upsert'), options.transaction));
+    hooks.addHook('beforeBulkUpdate', HOOK_NAME, readMatched);
+    hooks.addHook('afterBulkUpdate', HOOK_NAME, recordMatched('upsert'));
+    hooks.addHook('beforeBulkDestroy', HOOK_NAME, readMatched);
+    hooks.addHook('afterBulkDestroy', HOOK_NAME, recordMatched('delete'));
+  }
+};
+
+export const encodeCursor = (cursor: ChangeCursor) =>
+  Buffer.from(JSON.stringify({ v: 1, s: cursor.seq, p: cursor.pending, t: cursor.issuedAt })).toString('base64url');
+
+/**
+ * Cursor of a token, or null when it is not one of ours
+ */
+export const decodeCursor = (token: any): ChangeCursor | null => {
+  if (typeof token !== 'string' || !token || token.length > 16384) return null;
+  try {
+    const raw = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    const digits = (v: any) => typeof v === 'string' && /^\d{1,20}$/.test(v);
+    if (raw?.v !== 1 || !digits(raw.s) || !Array.isArray(raw.p) || !raw.p.every(digits) || !Number.isFinite(raw.t)) return null;
+    return { seq: raw.s, pending: raw.p, issuedAt: raw.t };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether entries after the cursor may already have been purged. An hour of margin covers entries
+ * written before the cursor was issued by transactions that committed after it.
+ */
+export const isCursorExpired = (cursor: ChangeCursor, now = Date.now()) =>
+  cursor.issuedAt < now - (CHANGE_LOG_RETENTION_DAYS * 24 - 1) * 3600 * 1000;
+
+/**
+ * Cursor at the end of the log as seen by the transaction (or a fresh statement). Issued before a full
+ * snapshot is read, so changes made while it is read are delivered again by the next delta.
+ */
+export const headCursor = async (transaction?: Transaction): Promise<ChangeCursor> => {
+  const [head] = await sequelize.query<{ seq: string; pending: string[] }>(
+    `SELECT COALESCE(MAX(seq), 0)::text AS seq,
+            ARRAY(SELECT x::text FROM pg_snapshot_xip(pg_current_snapshot()) AS x) AS pending
+       FROM sync_changes`,
+    { type: QueryTypes.SELECT, transaction }
+  );
+  return { seq: head.seq, pending: head.pending || [], issuedAt: Date.now() };
+};
+
+/**
+ * Collapse entries to the last operation per row; revocations are kept per user
+ */
+export const collapseEntries = (entries: Array<Pick<SyncChange, 'entityType' | 'entityId' | 'operation' | 'projectId' | 'userId'>>) => {
+  const latest = new Map<string, typeof entries[number]>();
+  for (const entry of entries) {
+    const key = entry.operation === 'revoke'
+      ? `revoke:${entry.entityType}:${entry.entityId}:${entry.userId}`
+      : `${entry.entityType}:${entry.entityId}`;
+    latest.delete(key);
+    latest.set(key, entry);
+  }
+  const upserts: Partial<Record<SyncEntityType, string[]>> = {};
+  const tombstones: Tombstone[] = [];
+  for (const entry of latest.values()) {
+    if (!isSyncEntityType(entry.entityType)) continue;
+    if (entry.operation === 'upsert') {
+      (upserts[entry.entityType] ||= []).push(entry.entityId);
+    } else {
+      tombstones.push({
+        entityType: entry.entityType,
+        id: entry.entityId,
+        operation: entry.operation,
+        projectId: entry.projectId,
+        ...(entry.operation === 'revoke' && entry.userId ? { userId: entry.userId } : {}),
+      });
+    }
+  }
+  return { upserts, tombstones };
+};
+
+/**
+ * Next page of changes after the cursor. Run it in a REPEATABLE READ transaction so the head, the
+ * entries and the rows the caller loads afterwards share one snapshot.
+ */
+export const readChanges = async (cursor: ChangeCursor, limit: number, transaction: Transaction): Promise<ChangePage> => {
+  const head = await headCursor(transaction);
+  const after: any[] = [{ seq: { [Op.gt]: cursor.seq } }];
+  if (cursor.pending.length) after.push({ txid: { [Op.in]: cursor.pending } });
+  const entries = await SyncChange.findAll({
+    where: { [Op.or]: after },
+    order: [['seq', 'ASC']],
+    limit: limit + 1,
+    transaction,
+  });
+
+  const hasMore = entries.length > limit;
+  const page = hasMore ? entries.slice(0, limit) : entries;
+  // A full page resumes after its last entry; otherwise the cursor moves to the head
+  const seq = hasMore
+    ? String(page[page.length - 1].seq)
+    : (BigInt(head.seq) > BigInt(cursor.seq) ? head.seq : cursor.seq);
+  return {
+    ...collapseEntries(page),
+    cursor: { seq, pending: head.pending, issuedAt: head.issuedAt },
+    hasMore,
+  };
+};
+
+/**
+ * Remove entries past their retention window
+ */
+export const purgeExpiredChanges = async () => {
+  const cutoff = new Date(Date.now() - CHANGE_LOG_RETENTION_DAYS * 24 * 3600 * 1000);
+  const removed = await SyncChange.destroy({ where: { createdAt: { [Op.lt]: cutoff } } });
+  if (removed) logger.info('Purged expired sync change log entries', { removed });
+  return removed;
+};
+
+export default {
+  registerChangeLogHooks,
+  encodeCursor,
+  decodeCursor,
+  isCursorExpired,
+  headCursor,
+  readChanges,
+  purgeExpiredChanges,
+};
@@ -0,0 +1,391 @@
+/**
+ * Conflict detection for offline beneficiary edits pushed through /sync/push, and the inbox where
+ * managers resolve them.
+ *
+ * Beneficiary and BeneficiaryDetails carry a row version. A device names the versions it edited
+ * (baseVersion, detailsBaseVersion) and may send the values it edited from (base). When the server
+ * row moved on, each edited field is merged three-way: a field the server did not change since the
+ * base is applied, a field changed on both sides becomes a conflict. Fields missing from the base
+ * values were empty on the device; without base values every edited field of a stale row is a conflict.
+ * Edits without a baseVersion are applied as before (last write wins).
+ */
+
+import { Transaction } from 'sequelize';
+import { isDeepStrictEqual } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditLog, Beneficiary, BeneficiaryDetails, SyncConflict, User } from '../../models';
+import {
+  SYNC_BENEFICIARY_FIELDS,
+  SYNC_CONFLICT_STATUSES,
+  SYNC_DERIVED_DETAIL_KEYS,
+  SyncBeneficiaryField,
+  SyncConflictStatus,
+} from '../../constants/syncConflicts';
+import { decryptField, encryptField, normalizeDob, normalizePhone } from '../../utils/crypto';
+import beneficiariesService from '../beneficiaries/beneficiariesService';
+
+export type ConflictResult<T = any> = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: T;
+};
+
+export type BeneficiaryChange = {
+  data: any; // edited values; extended details under `details`
+  base?: any; // values the device edited from, same shape as data
+  baseVersion?: number | null;
+  detailsBaseVersion?: number | null;
+  pushedBy: string;
+  deviceId: string;
+  clientMutationId?: string | null;
+};
+
+export type ConflictChoice = 'client' | 'server' | { value: any };
+
+type FieldValues = Record<string, any>;
+
+type ConflictValues = { base: FieldValues; client: FieldValues; server: FieldValues };
+
+const ENCRYPTED_COLUMNS: Record<Exclude<SyncBeneficiaryField, 'status'>, string> = {
+  firstName: 'firstNameEnc',
+  lastName: 'lastNameEnc',
+  dob: 'dobEnc',
+  gender: 'genderEnc',
+  address: 'addressEnc',
+  municipality: 'municipalityEnc',
+  nationality: 'nationalityEnc',
+  nationalId: 'nationalIdEnc',
+  phone: 'phoneEnc',
+  email: 'emailEnc',
+  ethnicity: 'ethnicityEnc',
+  residence: 'residenceEnc',
+  householdMembers: 'householdMembersEnc',
+};
+
+const DETAIL_PREFIX = 'details.';
+
+const writeAudit = (userId: string, action: string, description: string, details: any, transaction: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(details),
+    timestamp: new Date(),
+  }, { transaction });
+
+/**
+ * Value of a field as the server stores it: dates and phone numbers normalised, PII as strings,
+ * empty values as null
+ */
+const normalizeValue = (field: string, value: any) => {
+  if (value === undefined || value === null || value === '') return null;
+  if (field.startsWith(DETAIL_PREFIX)) return value;
+  if (field === 'dob') return normalizeDob(String(value)) || null;
+  if (field === 'phone') return normalizePhone(String(value)) || null;
+  return String(value);
+};
+
+const sameValue = (a: any, b: any) => isDeepStrictEqual(a ?? null, b ?? null);
+
+/**
+ * Editable fields present in a pushed payload, keyed as in SYNC_BENEFICIARY_FIELDS / 'details.<key>'
+ */
+const toFieldValues = (input: any): FieldValues => {
+  const values: FieldValues = {};
+  if (!input || typeof input !== 'object') return values;
+  for (const field of SYNC_BENEFICIARY_FIELDS) {
+    if (input[field] !== undefined) values[field] = normalizeValue(field, input[field]);
+  }
+  if (input.details && typeof input.details === 'object' && !Array.isArray(input.details)) {
+    for (const [key, value] of Object.entries(input.details)) {
+      if (value === undefined || SYNC_DERIVED_DETAIL_KEYS.includes(key)) continue;
+      values[DETAIL_PREFIX + key] = normalizeValue(DETAIL_PREFIX + key, value);
+    }
+  }
+  return values;
+};
+
+const currentValues = (beneficiary: Beneficiary, details: BeneficiaryDetails | null): FieldValues => {
+  const values: FieldValues = { status: beneficiary.status };
+  for (const [field, column] of Object.entries(ENCRYPTED_COLUMNS)) {
+    values[field] = decryptField((beneficiary as any)[column]);
+  }
+  for (const [key, value] of Object.entries(details?.details || {})) values[DETAIL_PREFIX + key] = value;
+  return values;
+};
+
+const pick = (values: FieldValues, fields: string[]) =>
+  Object.fromEntries(fields.filter(f => values[f] !== undefined).map(f => [f, values[f]]));
+
+const validateValues = (values: FieldValues): string | null => {
+  if (values.status != null && values.status !== 'active' && values.status !== 'inactive') {
+    return "status must be 'active' or 'inactive'";
+  }
+  return null;
+};
+
+/**
+ * Write field values to the beneficiary and its details. Null detail values remove the key.
+ */
+const applyValues = async (
+  beneficiary: Beneficiary,
+  details: BeneficiaryDetails | null,
+  values: FieldValues,
+  userId: string,
+  transaction: Transaction
+) => {
+  const input: any = {};
+  const detailChanges: FieldValues = {};
+  for (const [field, value] of Object.entries(values)) {
+    if (field.startsWith(DETAIL_PREFIX)) detailChanges[field.slice(DETAIL_PREFIX.length)] = value;
+    else input[field] = value;
+  }
+
+  let version = beneficiary.version;
+  if (Object.keys(input).length) {
+    const safe = await beneficiariesService.updateBeneficiary(beneficiary.id, input, { transaction, userId });
+    if (safe) version = safe.version;
+  }
+
+  if (Object.keys(detailChanges).length) {
+    const merged = { ...(details?.details || {}) };
+    for (const [key, value] of Object.entries(detailChanges)) {
+      if (value === null) delete merged[key];
+      else merged[key] = value;
+    }
+    if (details) await details.update({ details: merged }, { transaction });
+    else details = await BeneficiaryDetails.create({ id: uuidv4(), beneficiaryId: beneficiary.id, details: merged }, { transaction });
+  }
+  return { version, detailsVersion: details ? details.version : null };
+};
+
+const readConflictValues = (conflict: SyncConflict): ConflictValues => {
+  const plain = decryptField(conflict.valuesEnc);
+  return plain ? JSON.parse(plain) : { base: {}, client: {}, server: {} };
+};
+
+export const toSyncConflictView = (conflict: SyncConflict, values?: ConflictValues, current?: FieldValues) => {
+  const beneficiary = conflict.get('beneficiary') as Beneficiary | undefined;
+  const pusher = conflict.get('pusher') as User | undefined;
+  return {
+    id: conflict.id,
+    beneficiaryId: conflict.beneficiaryId,
+    pseudonym: beneficiary?.pseudonym ?? null,
+    pushedBy: conflict.pushedBy,
+    pushedByName: pusher ? `${pusher.firstName} ${pusher.lastName}`.trim() : null,
+    deviceId: conflict.deviceId,
+    clientMutationId: conflict.clientMutationId ?? null,
+    fields: conflict.fields,
+    baseVersion: conflict.baseVersion,
+    detailsBaseVersion: conflict.detailsBaseVersion ?? null,
+    serverVersion: conflict.serverVersion,
+    detailsServerVersion: conflict.detailsServerVersion ?? null,
+    status: conflict.status,
+    resolution: conflict.resolution ?? null,
+    resolvedBy: conflict.resolvedBy ?? null,
+    resolvedAt: conflict.resolvedAt ?? null,
+    createdAt: conflict.createdAt,
+    ...(values ? {
+      values: conflict.fields.map(field => ({
+        field,
+        base: values.base[field] ?? null,
+        client: values.client[field] ?? null,
+        server: values.server[field] ?? null,
+        ...(current ? { current: current[field] ?? null } : {}),
+      })),
+    } : {}),
+  };
+};
+
+export type SyncConflictView = ReturnType<typeof toSyncConflictView>;
+
+export type BeneficiaryChangeOutcome = {
+  id: string;
+  version: number;
+  detailsVersion: number | null;
+  applied: string[];
+  conflict: SyncConflictView | null;
+};
+
+/**
+ * Apply an offline edit of a beneficiary. Fields that merge cleanly are written; the others are
+ * recorded as an open conflict, returned with the device's, the base and the server values.
+ */
+export const applyBeneficiaryChange = async (
+  beneficiaryId: string,
+  change: BeneficiaryChange,
+  transaction: Transaction
+): Promise<ConflictResult<BeneficiaryChangeOutcome>> => {
+  const beneficiary = await Beneficiary.findByPk(beneficiaryId, { transaction, lock: transaction.LOCK.UPDATE });
+  if (!beneficiary) return { success: false, status: 404, message: 'Beneficiary not found' };
+  if (beneficiary.erasedAt) return { success: false, status: 409, message: 'Beneficiary data has been erased' };
+
+  const proposed = toFieldValues(change.data);
+  const invalid = validateValues(proposed);
+  if (invalid) return { success: false, status: 400, message: invalid };
+
+  const details = await BeneficiaryDetails.findOne({ where: { beneficiaryId }, transaction, lock: transaction.LOCK.UPDATE });
+  const current = currentValues(beneficiary, details);
+  const checked = change.baseVersion != null;
+  const stale = checked && beneficiary.version !== change.baseVersion;
+  const detailsStale = checked && (details ? details.version !== change.detailsBaseVersion : change.detailsBaseVersion != null);
+  // A field missing from the base values was empty on the device
+  const hasBase = !!change.base && typeof change.base === 'object';
+  const base = toFieldValues(change.base);
+
+  const accepted: FieldValues = {};
+  const conflicting: string[] = [];
+  for (const [field, value] of Object.entries(proposed)) {
+    if (sameValue(current[field], value)) continue;
+    const fieldStale = field.startsWith(DETAIL_PREFIX) ? detailsStale : stale;
+    if (!fieldStale || (hasBase && sameValue(base[field], current[field]))) accepted[field] = value;
+    else conflicting.push(field);
+  }
+
+  const serverVersion = beneficiary.version;
+  const detailsServerVersion = details ? details.version : null;
+  const versions = await applyValues(beneficiary, details, accepted, change.pushedBy, transaction);
+
+  let conflict: SyncConflictView | null = null;
+  if (conflicting.length) {
+    const values: ConflictValues = {
+      base: pick(base, conflicting),
+      client: pick(proposed, conflicting),
+      server: pick(current, conflicting),
+    };
+    const created = await SyncConflict.create({
+      id: uuidv4(),
+      beneficiaryId,
+      pushedBy: change.pushedBy,
+      deviceId: change.deviceId,
+      clientMutationId: change.clientMutationId ?? null,
+      fields: conflicting,
+      baseVersion: change.baseVersion,
+      detailsBaseVersion: change.detailsBaseVersion ?? null,
+      serverVersion,
+      detailsServerVersion,
+      valuesEnc: encryptField(JSON.stringify(values)),
+      status: 'open',
+    }, { transaction });
+    conflict = toSyncConflictView(created, values);
+  }
+
+  return {
+    success: true,
+    status: 200,
+    data: { id: beneficiaryId, ...versions, applied: Object.keys(accepted), conflict },
+  };
+};
+
+export const listSyncConflicts = async (
+  filters: { status?: SyncConflictStatus; beneficiaryId?: string },
+  page: number,
+  limit: number
+) => {
+  const where: any = {};
+  if (filters.status) where.status = filters.status;
+  if (filters.beneficiaryId) where.beneficiaryId = filters.beneficiaryId;
+  const { rows, count } = await SyncConflict.findAndCountAll({
+    where,
+    include: [
+      { model: Beneficiary, as: 'beneficiary', attributes: ['id', 'pseudonym'] },
+      { model: User, as: 'pusher', attributes: ['id', 'firstName', 'lastName'] },
+    ],
+    order: [['createdAt', 'ASC']],
+    limit,
+    offset: (page - 1) * limit,
+  });
+  return { items: rows.map(c => toSyncConflictView(c)), totalItems: count };
+};
+
+/**
+ * A conflict with its values and the beneficiary's current value of each conflicting field
+ */
+export const getSyncConflict = async (id: string): Promise<ConflictResult> => {
+  const conflict = await SyncConflict.findByPk(id, {
+    include: [
+      { model: Beneficiary, as: 'beneficiary' },
+      { model: User, as: 'pusher', attributes: ['id', 'firstName', 'lastName'] },
+    ],
+  });
+  if (!conflict) return { success: false, status: 404, message: 'Conflict not found' };
+  const beneficiary = conflict.get('beneficiary') as Beneficiary;
+  const details = await BeneficiaryDetails.findOne({ where: { beneficiaryId: conflict.beneficiaryId } });
+  return {
+    success: true,
+    status: 200,
+    data: toSyncConflictView(conflict, readConflictValues(conflict), currentValues(beneficiary, details)),
+  };
+};
+
+/**
+ * Resolve an open conflict field by field: 'client' writes the device's value, 'server' keeps the
+ * current value, { value } writes a merged value.
+ */
+export const resolveSyncConflict = async (
+  id: string,
+  choices: Record<string, ConflictChoice> | undefined,
+  userId: string,
+  transaction: Transaction
+): Promise<ConflictResult> => {
+  const conflict = await SyncConflict.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+  if (!conflict) return { success: false, status: 404, message: 'Conflict not found' };
+  if (conflict.status !== 'open') return { success: false, status: 409, message: 'Conflict has already been resolved' };
+
+  if (!choices || typeof choices !== 'object' || Array.isArray(choices)) {
+    return { success: false, status: 400, message: 'choices must map each conflicting field to a choice' };
+  }
+  const unknown = Object.keys(choices).filter(f => !conflict.fields.includes(f));
+  if (unknown.length) return { success: false, status: 400, message: `Not conflicting fields: ${unknown.join(', ')}` };
+  const isChoice = (c: any) => c === 'client' || c === 'server' || (c && typeof c === 'object' && 'value' in c);
+  const missing = conflict.fields.filter(f => !isChoice(choices[f]));
+  if (missing.length) {
+    return { success: false, status: 400, message: `Choose 'client', 'server' or { value } for: ${missing.join(', ')}` };
+  }
+
+  const beneficiary = await Beneficiary.findByPk(conflict.beneficiaryId, { transaction, lock: transaction.LOCK.UPDATE });
+  if (!beneficiary) return { success: false, status: 404, message: 'Beneficiary not found' };
+  if (beneficiary.erasedAt) return { success: false, status: 409, message: 'Beneficiary data has been erased' };
+
+  const values = readConflictValues(conflict);
+  const chosen: FieldValues = {};
+  const resolution: Record<string, 'client' | 'server' | 'custom'> = {};
+  for (const field of conflict.fields) {
+    const choice = choices[field];
+    if (choice === 'server') {
+      resolution[field] = 'server';
+    } else if (choice === 'client') {
+      chosen[field] = values.client[field] ?? null;
+      resolution[field] = 'client';
+    } else {
+      chosen[field] = normalizeValue(field, choice.value);
+      resolution[field] = 'custom';
+    }
+  }
+  const invalid = validateValues(chosen);
+  if (invalid) return { success: false, status: 400, message: invalid };
+
+  const details = await BeneficiaryDetails.findOne({ where: { beneficiaryId: beneficiary.id }, transaction, lock: transaction.LOCK.UPDATE });
+  const versions = await applyValues(beneficiary, details, chosen, userId, transaction);
+  await conflict.update({ status: 'resolved', resolution, resolvedBy: userId, resolvedAt: new Date() }, { transaction });
+  await writeAudit(userId, 'SYNC_CONFLICT_RESOLVE', `Resolved sync conflict on beneficiary '${beneficiary.pseudonym}'`, {
+    conflictId: conflict.id,
+    beneficiaryId: beneficiary.id,
+    resolution,
+    appliedFields: Object.keys(chosen),
+  }, transaction);
+
+  return { success: true, status: 200, data: { ...toSyncConflictView(conflict), ...versions } };
+};
+
+export const isSyncConflictStatus = (value: any): value is SyncConflictStatus =>
+  (SYNC_CONFLICT_STATUSES as readonly string[]).includes(value);
+
+export default {
+  applyBeneficiaryChange,
+  listSyncConflicts,
+  getSyncConflict,
+  resolveSyncConflict,
+};
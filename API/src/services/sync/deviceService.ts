@@ -0,0 +1,345 @@
+/**
+ * Registry of the field devices users sync from, with remote wipe and per-device sync history.
+ *
+ * A device is registered under (user, X-Device-Id) on its first sync call; each call refreshes its model,
+ * app version and IP and is recorded in its history. Revoking a device revokes every registration of
+ * that device id, whoever signed in on it, so a lost tablet is refused for all accounts. Refused calls
+ * are told to wipe local data; the device confirms the wipe through a call that is still accepted.
+ * The public key of the first offline bundle request is pinned on the device id; bundles for another key
+ * are refused until an administrator re-keys the device.
+ */
+
+import crypto, { KeyObject } from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditLog, SyncDevice, SyncDeviceEvent, User } from '../../models';
+import {
+  SYNC_DEVICE_STATUSES,
+  SyncDeviceEventOutcome,
+  SyncDeviceOperation,
+  SyncDeviceStatus,
+} from '../../constants/syncDevices';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('sync-device-service');
+
+/** Days a device's sync history is kept (SYNC_DEVICE_HISTORY_RETENTION_DAYS, default 90) */
+export const DEVICE_HISTORY_RETENTION_DAYS = parseInt(process.env.SYNC_DEVICE_HISTORY_RETENTION_DAYS || '', 10) || 90;
+
+export type DeviceResult<T = any> = {
+  success: boolean;
+  status: number;
+  message?: string;
+  data?: T;
+};
+
+export type DeviceInfo = {
+  model?: string | null;
+  platform?: string | null;
+  osVersion?: string | null;
+  appVersion?: string | null;
+};
+
+export type DeviceEventInput = {
+  operation: SyncDeviceOperation;
+  outcome: SyncDeviceEventOutcome;
+  statusCode?: number | null;
+  ip?: string | null;
+  durationMs?: number | null;
+};
+
+/** Calls that do not count as a sync for lastSyncAt */
+const NON_SYNC_OPERATIONS: SyncDeviceOperation[] = ['register', 'wipe'];
+
+const writeAudit = (userId: string, action: string, description: string, details: any, transaction: Transaction) =>
+  AuditLog.create({
+    id: uuidv4(),
+    userId,
+    action,
+    description,
+    details: JSON.stringify(details),
+    timestamp: new Date(),
+  }, { transaction });
+
+const fullName = (user?: User | null) => (user ? `${user.firstName} ${user.lastName}`.trim() : null);
+
+export const toSyncDeviceView = (device: SyncDevice) => {
+  const user = device.get('user') as User | undefined;
+  const revoker = device.get('revoker') as User | undefined;
+  return {
+    id: device.id,
+    userId: device.userId,
+    userName: fullName(user),
+    userEmail: user?.email ?? null,
+    deviceId: device.deviceId,
+    model: device.model ?? null,
+    platform: device.platform ?? null,
+    osVersion: device.osVersion ?? null,
+    appVersion: device.appVersion ?? null,
+    status: device.status,
+    lastSyncAt: device.lastSyncAt ?? null,
+    lastIp: device.lastIp ?? null,
+    revokedAt: device.revokedAt ?? null,
+    revokedBy: device.revokedBy ?? null,
+    revokedByName: fullName(revoker),
+    revokeReason: device.revokeReason ?? null,
+    wipedAt: device.wipedAt ?? null,
+    publicKeyFingerprint: device.publicKeyFingerprint ?? null,
+    publicKeyPinnedAt: device.publicKeyPinnedAt ?? null,
+    createdAt: device.createdAt,
+    updatedAt: device.updatedAt,
+  };
+};
+
+export type SyncDeviceView = ReturnType<typeof toSyncDeviceView>;
+
+/**
+ * Reported device details, trimmed to the column sizes; missing values keep what is stored
+ */
+const infoValues = (info: DeviceInfo) => {
+  const values: Record<string, string> = {};
+  const limits: Record<keyof DeviceInfo, number> = { model: 128, platform: 64, osVersion: 64, appVersion: 64 };
+  for (const [key, max] of Object.entries(limits)) {
+    const value = info[key as keyof DeviceInfo];
+    if (typeof value === 'string' && value.trim()) values[key] = value.trim().slice(0, max);
+  }
+  return values;
+};
+
+/**
+ * Register the device of a sync call or refresh its details and last IP. A new registration of a
+ * device id that is revoked for another account starts out revoked, and one whose key is pinned for
+ * another account starts out with that key. Callers refuse the call when the returned device is revoked.
+ */
+export const touchDevice = async (userId: string, deviceId: string, info: DeviceInfo, ip: string | null) => {
+  const registrations = await SyncDevice.findAll({ where: { deviceId } });
+  const own = registrations.find(d => d.userId === userId);
+  const revoked = own?.status === 'revoked' ? null : registrations.find(d => d.status === 'revoked');
+  const keyed = own ? null : registrations.find(d => d.publicKeyFingerprint);
+
+  const values: any = { ...infoValues(info), lastIp: ip ? ip.slice(0, 64) : null };
+  if (revoked) {
+    Object.assign(values, {
+      status: 'revoked',
+      revokedAt: revoked.revokedAt,
+      revokedBy: revoked.revokedBy,
+      revokeReason: revoked.revokeReason,
+    });
+  }
+
+  if (own) return own.update(values);
+  const defaults = keyed
+    ? { ...values, publicKeyFingerprint: keyed.publicKeyFingerprint, publicKeyPinnedAt: keyed.publicKeyPinnedAt }
+    : values;
+  const [device, created] = await SyncDevice.findOrCreate({ where: { userId, deviceId }, defaults });
+  if (created) logger.info('Registered sync device', { userId, deviceId, syncDeviceId: device.id });
+  return created ? device : device.update(values);
+};
+
+/** SHA-256 (hex) of a device public key in SPKI DER */
+export const publicKeyFingerprint = (key: KeyObject) =>
+  crypto.createHash('sha256').update(key.export({ format: 'der', type: 'spki' })).digest('hex');
+
+/**
+ * Pin the key offline bundles of the device are encrypted to. The first key is pinned on every
+ * registration of the device id; returns false when a different key is already pinned.
+ */
+export const pinDevicePublicKey = async (device: SyncDevice, key: KeyObject) => {
+  const fingerprint = publicKeyFingerprint(key);
+  if (device.publicKeyFingerprint) return device.publicKeyFingerprint === fingerprint;
+
+  // Conditional, so that of two first requests with different keys only one is pinned
+  const [pinned] = await SyncDevice.update(
+    { publicKeyFingerprint: fingerprint, publicKeyPinnedAt: new Date() },
+    { where: { deviceId: device.deviceId, publicKeyFingerprint: null } }
+  );
+  if (pinned) logger.info('Pinned sync device public key', { deviceId: device.deviceId, fingerprint });
+  await device.reload();
+  return device.publicKeyFingerprint === fingerprint;
+};
+
+/**
+ * Whether the user has signed in on a registered device, active or revoked
+ */
+export const hasRegisteredDevice = async (userId: string) =>
+  (await SyncDevice.count({ where: { userId } })) > 0;
+
+/**
+ * Append a call to the device's history; a successful sync also moves lastSyncAt
+ */
+export const recordDeviceEvent = async (device: SyncDevice, input: DeviceEventInput, transaction?: Transaction) => {
+  const event = await SyncDeviceEvent.create({
+    syncDeviceId: device.id,
+    userId: device.userId,
+    operation: input.operation,
+    outcome: input.outcome,
+    statusCode: input.statusCode ?? null,
+    ip: input.ip ? input.ip.slice(0, 64) : null,
+    appVersion: device.appVersion ?? null,
+    durationMs: input.durationMs ?? null,
+  }, { transaction });
+  if (input.outcome === 'success' && !NON_SYNC_OPERATIONS.includes(input.operation)) {
+    await device.update({ lastSyncAt: event.createdAt }, { transaction });
+  }
+  return event;
+};
+
+export const listDevices = async (
+  filters: { userId?: string; status?: SyncDeviceStatus; deviceId?: string },
+  page: number,
+  limit: number
+) => {
+  const where: any = {};
+  if (filters.userId) where.userId = filters.userId;
+  if (filters.status) where.status = filters.status;
+  if (filters.deviceId) where.deviceId = filters.deviceId;
+  const { rows, count } = await SyncDevice.findAndCountAll({
+    where,
+    include: [{ model: User, as: 'user', attributes: ['id', 'firstName', 'lastName', 'email'] }],
+    order: [['lastSyncAt', 'DESC NULLS LAST'], ['createdAt', 'DESC']],
+    limit,
+    offset: (page - 1) * limit,
+  });
+  return { items: rows.map(toSyncDeviceView), totalItems: count };
+};
+
+export const getDevice = async (id: string): Promise<DeviceResult<SyncDeviceView>> => {
+  const device = await SyncDevice.findByPk(id, {
+    include: [
+      { model: User, as: 'user', attributes: ['id', 'firstName', 'lastName', 'email'] },
+      { model: User, as: 'revoker', attributes: ['id', 'firstName', 'lastName'] },
+    ],
+  });
+  if (!device) return { success: false, status: 404, message: 'Device not found' };
+  return { success: true, status: 200, data: toSyncDeviceView(device) };
+};
+
+/**
+ * Sync history of a device, newest first, optionally for one operation
+ */
+export const listDeviceEvents = async (
+  id: string,
+  filters: { operation?: SyncDeviceOperation },
+  page: number,
+  limit: number
+): Promise<DeviceResult<{ items: SyncDeviceEvent[]; totalItems: number }>> => {
+  const device = await SyncDevice.findByPk(id, { attributes: ['id'] });
+  if (!device) return { success: false, status: 404, message: 'Device not found' };
+  const where: any = { syncDeviceId: id };
+  if (filters.operation) where.operation = filters.operation;
+  const { rows, count } = await SyncDeviceEvent.findAndCountAll({
+    where,
+    attributes: ['id', 'operation', 'outcome', 'statusCode', 'ip', 'appVersion', 'durationMs', 'createdAt'],
+    order: [['createdAt', 'DESC']],
+    limit,
+    offset: (page - 1) * limit,
+  });
+  return { success: true, status: 200, data: { items: rows, totalItems: count } };
+};
+
+/**
+ * Revoke a device: every active registration of its device id is revoked, so the next sync call from
+ * it is refused with a wipe instruction whoever is signed in
+ */
+export const revokeDevice = async (
+  id: string,
+  reason: string | null,
+  adminId: string,
+  transaction: Transaction
+): Promise<DeviceResult<SyncDeviceView>> => {
+  const device = await SyncDevice.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+  if (!device) return { success: false, status: 404, message: 'Device not found' };
+  if (device.status === 'revoked') return { success: false, status: 409, message: 'Device has already been revoked' };
+
+  const [revoked] = await SyncDevice.update(
+    { status: 'revoked', revokedAt: new Date(), revokedBy: adminId, revokeReason: reason },
+    { where: { deviceId: device.deviceId, status: 'active' }, transaction }
+  );
+  await device.reload({ transaction });
+  await writeAudit(adminId, 'SYNC_DEVICE_REVOKE', `Revoked sync device '${device.deviceId}'`, {
+    syncDeviceId: device.id,
+    deviceId: device.deviceId,
+    userId: device.userId,
+    registrations: revoked,
+    reason,
+  }, transaction);
+
+  return { success: true, status: 200, data: toSyncDeviceView(device) };
+};
+
+/**
+ * Re-key a device: the pinned public key is removed from every registration of its device id, so the
+ * next bundle request pins the key it sends (e.g. after the app was reinstalled)
+ */
+export const rekeyDevice = async (
+  id: string,
+  adminId: string,
+  transaction: Transaction
+): Promise<DeviceResult<SyncDeviceView>> => {
+  const device = await SyncDevice.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+  if (!device) return { success: false, status: 404, message: 'Device not found' };
+  if (!device.publicKeyFingerprint) return { success: false, status: 409, message: 'Device has no pinned public key' };
+
+  const previous = device.publicKeyFingerprint;
+  await SyncDevice.update(
+    { publicKeyFingerprint: null, publicKeyPinnedAt: null },
+    { where: { deviceId: device.deviceId }, transaction }
+  );
+  await device.reload({ transaction });
+  await writeAudit(adminId, 'SYNC_DEVICE_REKEY', `Removed the pinned public key of sync device '${device.deviceId}'`, {
+    syncDeviceId: device.id,
+    deviceId: device.deviceId,
+    userId: device.userId,
+    previousFingerprint: previous,
+  }, transaction);
+
+  return { success: true, status: 200, data: toSyncDeviceView(device) };
+};
+
+/**
+ * Record that a revoked device deleted its local data. Only the first confirmation sets wipedAt.
+ */
+export const acknowledgeWipe = async (
+  userId: string,
+  deviceId: string,
+  ip: string | null,
+  transaction: Transaction
+): Promise<DeviceResult<SyncDeviceView>> => {
+  const device = await SyncDevice.findOne({ where: { userId, deviceId }, transaction, lock: transaction.LOCK.UPDATE });
+  if (!device) return { success: false, status: 404, message: 'Device not registered' };
+  if (device.status !== 'revoked') return { success: false, status: 409, message: 'Device has not been revoked' };
+
+  if (!device.wipedAt) {
+    await device.update({ wipedAt: new Date() }, { transaction });
+    await writeAudit(userId, 'SYNC_DEVICE_WIPE', `Device '${deviceId}' confirmed the wipe of its local data`, {
+      syncDeviceId: device.id,
+      deviceId,
+    }, transaction);
+  }
+  await recordDeviceEvent(device, { operation: 'wipe', outcome: 'success', statusCode: 200, ip }, transaction);
+  return { success: true, status: 200, data: toSyncDeviceView(device) };
+};
+
+export const purgeDeviceHistory = async () => {
+  const cutoff = new Date(Date.now() - DEVICE_HISTORY_RETENTION_DAYS * 24 * 3600 * 1000);
+  const removed = await SyncDeviceEvent.destroy({ where: { createdAt: { [Op.lt]: cutoff } } });
+  if (removed) logger.info('Purged expired sync device history', { removed });
+  return removed;
+};
+
+export const isSyncDeviceStatus = (value: any): value is SyncDeviceStatus =>
+  (SYNC_DEVICE_STATUSES as readonly string[]).includes(value);
+
+export default {
+  touchDevice,
+  hasRegisteredDevice,
+  recordDeviceEvent,
+  listDevices,
+  getDevice,
+  listDeviceEvents,
+  revokeDevice,
+  pinDevicePublicKey,
+  rekeyDevice,
+  acknowledgeWipe,
+  purgeDeviceHistory,
+};
@@ -0,0 +1,109 @@
+/**
+ * Idempotency ledger for offline sync. A phone that loses its connection after the server applied an
+ * upload retries it with the same client id; the ledger hands back the original result instead of
+ * creating the FormResponse and ServiceDeliveries a second time. Results are recorded in the
+ * transaction that applied the item, so a rolled-back item leaves no entry and can be retried.
+ */
+
+import crypto from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import { SyncIdempotencyKey } from '../../models';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('sync-idempotency-service');
+
+/** Hours a recorded result is replayed (SYNC_IDEMPOTENCY_RETENTION_HOURS, default 30 days) */
+export const IDEMPOTENCY_RETENTION_HOURS = parseInt(process.env.SYNC_IDEMPOTENCY_RETENTION_HOURS || '', 10) || 720;
+
+export const MAX_CLIENT_ID_LENGTH = 128;
+
+export type IdempotencyKey = {
+  scope: 'upload' | 'push';
+  userId: string;
+  deviceId: string;
+  clientId: string;
+};
+
+export type IdempotencyLookup =
+  | { state: 'new' }
+  | { state: 'replay'; result: any }
+  | { state: 'conflict' };
+
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/** sha256 of the item, independent of key order */
+export const hashRequest = (item: any) => crypto.createHash('sha256').update(stableStringify(item)).digest('hex');
+
+/**
+ * First non-empty candidate (X-Device-Id header, then payload fields), trimmed; '' when there is none
+ */
+export const resolveDeviceId = (...candidates: any[]) => {
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && candidate.trim()) return candidate.trim().slice(0, 128);
+  }
+  return '';
+};
+
+const keyWhere = (key: IdempotencyKey) => ({
+  scope: key.scope,
+  userId: key.userId,
+  deviceId: key.deviceId,
+  clientId: key.clientId,
+});
+
+/**
+ * Result recorded for the key. Expired entries are removed and treated as new; a key recorded for a
+ * different payload is a conflict.
+ */
+export const findIdempotentResult = async (key: IdempotencyKey, requestHash: string): Promise<IdempotencyLookup> => {
+  const entry = await SyncIdempotencyKey.findOne({ where: keyWhere(key) });
+  if (!entry) return { state: 'new' };
+  if (entry.expiresAt.getTime() <= Date.now()) {
+    await entry.destroy();
+    return { state: 'new' };
+  }
+  if (entry.requestHash !== requestHash) return { state: 'conflict' };
+  return { state: 'replay', result: { ...entry.result, replayed: true } };
+};
+
+/**
+ * Record the result of an applied item in the transaction that applied it. Returns the result.
+ */
+export const recordIdempotentResult = async <T>(key: IdempotencyKey, requestHash: string, result: T, transaction: Transaction): Promise<T> => {
+  await SyncIdempotencyKey.create({
+    ...keyWhere(key),
+    requestHash,
+    result,
+    expiresAt: new Date(Date.now() + IDEMPOTENCY_RETENTION_HOURS * 3600 * 1000),
+  }, { transaction });
+  return result;
+};
+
+/**
+ * Whether an error is the unique violation raised when a concurrent retry recorded the key first
+ */
+export const isDuplicateKeyError = (err: any) => err?.name === 'SequelizeUniqueConstraintError';
+
+/**
+ * Remove entries past their retention window
+ */
+export const purgeExpiredIdempotencyKeys = async () => {
+  const removed = await SyncIdempotencyKey.destroy({ where: { expiresAt: { [Op.lte]: new Date() } } });
+  if (removed) logger.info('Purged expired sync idempotency keys', { removed });
+  return removed;
+};
+
+export default {
+  hashRequest,
+  resolveDeviceId,
+  findIdempotentResult,
+  recordIdempotentResult,
+  isDuplicateKeyError,
+  purgeExpiredIdempotencyKeys,
+};
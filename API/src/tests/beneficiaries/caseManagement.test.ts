@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import {
+  canReadCaseNote,
+  createCaseNote,
+  createFollowUpTask,
+  toFollowUpTaskView,
+  updateCaseNote,
+  updateFollowUpTask,
+} from '../../services/beneficiaries/caseManagementService';
+import { AuditLog, Beneficiary, BeneficiaryCaseNote, BeneficiaryFollowUpTask, User } from '../../models';
+import { decryptField } from '../../utils/crypto';
+import { mockRow, mockTransaction } from '../helpers/mockRows';
+
+jest.mock('../../models', () => ({
+  AuditLog: { create: jest.fn() },
+  Beneficiary: { findByPk: jest.fn() },
+  BeneficiaryCaseNote: { create: jest.fn(async (values: any) => values), findOne: jest.fn() },
+  BeneficiaryFollowUpTask: { create: jest.fn(async (values: any) => values), findOne: jest.fn() },
+  User: { findByPk: jest.fn() },
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+const transaction = mockTransaction();
+
+const makeTask = (values: any = {}) =>
+  mockRow({ id: 't-1', beneficiaryId: 'b-1', title: 'Home visit', assignedTo: 'u-1', status: 'open', dueDate: '2024-01-10' }, values);
+
+describe('Case management', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.BENEFICIARY_ENC_KEYS;
+    process.env.BENEFICIARY_ENC_KEY = crypto.randomBytes(32).toString('base64');
+    (Beneficiary.findByPk as jest.Mock).mockResolvedValue({ id: 'b-1', pseudonym: 'B-1', erasedAt: null });
+    (User.findByPk as jest.Mock).mockResolvedValue({ id: 'u-2', status: 'active' });
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('limits who can read a note by its visibility', () => {
+    const worker = { id: 'u-2', roleNames: ['Field Operator'] };
+    const manager = { id: 'u-3', roleNames: ['Program Manager'] };
+
+    expect(canReadCaseNote({ authorId: 'u-1', visibility: 'team' }, worker)).toBe(true);
+    expect(canReadCaseNote({ authorId: 'u-1', visibility: 'managers' }, worker)).toBe(false);
+    expect(canReadCaseNote({ authorId: 'u-1', visibility: 'managers' }, manager)).toBe(true);
+    expect(canReadCaseNote({ authorId: 'u-1', visibility: 'private' }, manager)).toBe(false);
+    expect(canReadCaseNote({ authorId: 'u-2', visibility: 'private' }, worker)).toBe(true);
+  });
+
+  describe('case notes', () => {
+    it('stores the text encrypted and keeps it out of the audit log', async () => {
+      const result = await createCaseNote('b-1', { body: 'Discussed school enrolment', visibility: 'managers' }, 'u-1', transaction);
+
+      expect(result.status).toBe(201);
+      const stored = (BeneficiaryCaseNote.create as jest.Mock).mock.calls[0][0];
+      expect(stored).toEqual(expect.objectContaining({ beneficiaryId: 'b-1', authorId: 'u-1', visibility: 'managers' }));
+      expect(JSON.stringify(stored.bodyEnc)).not.toContain('school');
+      expect(decryptField(stored.bodyEnc)).toBe('Discussed school enrolment');
+      expect(result.data.body).toBe('Discussed school enrolment');
+
+      const audit = (AuditLog.create as jest.Mock).mock.calls[0][0];
+      expect(audit.action).toBe('BENEFICIARY_CASE_NOTE_CREATE');
+      expect(audit.details).not.toContain('school');
+    });
+
+    it('rejects empty notes, unknown visibilities and erased beneficiaries', async () => {
+      expect((await createCaseNote('b-1', { body: '  ' }, 'u-1', transaction)).status).toBe(400);
+      expect((await createCaseNote('b-1', { body: 'Note', visibility: 'public' }, 'u-1', transaction)).status).toBe(400);
+
+      (Beneficiary.findByPk as jest.Mock).mockResolvedValue({ id: 'b-1', erasedAt: new Date() });
+      expect((await createCaseNote('b-1', { body: 'Note' }, 'u-1', transaction)).status).toBe(409);
+      expect(BeneficiaryCaseNote.create).not.toHaveBeenCalled();
+    });
+
+    it('lets only the author edit a note', async () => {
+      const note: any = { id: 'n-1', beneficiaryId: 'b-1', authorId: 'u-1', visibility: 'team', update: jest.fn() };
+      (BeneficiaryCaseNote.findOne as jest.Mock).mockResolvedValue(note);
+
+      expect((await updateCaseNote('b-1', 'n-1', { body: 'Changed' }, 'u-2', transaction)).status).toBe(403);
+      expect(note.update).not.toHaveBeenCalled();
+
+      expect((await updateCaseNote('b-1', 'n-1', { visibility: 'private' }, 'u-1', transaction)).status).toBe(200);
+      expect(note.update).toHaveBeenCalledWith({ visibility: 'private', editedAt: expect.any(Date) }, { transaction });
+    });
+  });
+
+  describe('follow-up tasks', () => {
+    it('assigns new tasks to the creator by default', async () => {
+      (User.findByPk as jest.Mock).mockResolvedValue({ id: 'u-1', status: 'active' });
+
+      const result = await createFollowUpTask('b-1', { title: 'Call back', details: 'About rent support', dueDate: '2024-05-01' }, 'u-1', transaction);
+
+      expect(result.status).toBe(201);
+      const stored = (BeneficiaryFollowUpTask.create as jest.Mock).mock.calls[0][0];
+      expect(stored).toEqual(expect.objectContaining({ assignedTo: 'u-1', createdBy: 'u-1', status: 'open', dueDate: '2024-05-01' }));
+      expect(decryptField(stored.detailsEnc)).toBe('About rent support');
+      expect((AuditLog.create as jest.Mock).mock.calls[0][0].action).toBe('FOLLOW_UP_TASK_CREATE');
+    });
+
+    it('rejects invalid due dates and inactive assignees', async () => {
+      expect((await createFollowUpTask('b-1', { title: 'Call back', dueDate: '01/05/2024' }, 'u-1', transaction)).status).toBe(400);
+
+      (User.findByPk as jest.Mock).mockResolvedValue({ id: 'u-2', status: 'inactive' });
+      expect((await createFollowUpTask('b-1', { title: 'Call back', dueDate: '2024-05-01', assignedTo: 'u-2' }, 'u-1', transaction)).status).toBe(400);
+      expect(BeneficiaryFollowUpTask.create).not.toHaveBeenCalled();
+    });
+
+    it('records who completed a task and clears it when reopened', async () => {
+      const task = makeTask();
+      (BeneficiaryFollowUpTask.findOne as jest.Mock).mockResolvedValue(task);
+
+      await updateFollowUpTask('b-1', 't-1', { status: 'done' }, 'u-2', transaction);
+      expect(task).toEqual(expect.objectContaining({ status: 'done', completedAt: expect.any(Date), completedBy: 'u-2' }));
+
+      await updateFollowUpTask('b-1', 't-1', { status: 'open' }, 'u-2', transaction);
+      expect(task).toEqual(expect.objectContaining({ status: 'open', completedAt: null, completedBy: null }));
+    });
+
+    it('flags open tasks past their due date as overdue', () => {
+      expect(toFollowUpTaskView(makeTask({ dueDate: '2000-01-01' })).overdue).toBe(true);
+      expect(toFollowUpTaskView(makeTask({ dueDate: '2999-01-01' })).overdue).toBe(false);
+      expect(toFollowUpTaskView(makeTask({ dueDate: '2000-01-01', status: 'done' })).overdue).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  parseConsentAnswer,
+  recordConsent,
+  recordConsentsFromForm,
+  redactItemsWithoutConsent,
+  validateFormConsentSignature,
+} from '../../services/beneficiaries/consentService';
+import { AuditLog, Beneficiary, BeneficiaryConsent, BeneficiaryMapping, FormResponseAttachment } from '../../models';
+
+jest.mock('../../models', () => ({
+  AuditLog: { create: jest.fn() },
+  Beneficiary: { findByPk: jest.fn() },
+  BeneficiaryConsent: { findAll: jest.fn(), findOne: jest.fn(), create: jest.fn(async (values: any) => values) },
+  BeneficiaryMapping: { findOne: jest.fn() },
+  FormResponseAttachment: { findByPk: jest.fn() },
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+const transaction: any = {};
+const opts = { userId: 'u-1', transaction, source: 'manual' as const };
+
+describe('Beneficiary consent', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.CONSENT_ENFORCEMENT = 'enforce';
+    (Beneficiary.findByPk as jest.Mock).mockResolvedValue({ id: 'b-1', pseudonym: 'B-1', erasedAt: null });
+    (BeneficiaryConsent.findAll as jest.Mock).mockResolvedValue([]);
+    (BeneficiaryConsent.findOne as jest.Mock).mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('interprets consent answers', () => {
+    expect(parseConsentAnswer(true)).toBe(true);
+    expect(parseConsentAnswer('Po')).toBe(true);
+    expect(parseConsentAnswer('no')).toBe(false);
+    expect(parseConsentAnswer(0)).toBe(false);
+    expect(parseConsentAnswer('maybe')).toBeUndefined();
+    expect(parseConsentAnswer(null)).toBeUndefined();
+  });
+
+  describe('recordConsent', () => {
+    it('records a consent and audits it', async () => {
+      const result = await recordConsent('b-1', { purpose: 'data_collection', consentVersion: 'v1' }, opts);
+
+      expect(result.status).toBe(201);
+      expect(BeneficiaryConsent.create).toHaveBeenCalledWith(expect.objectContaining({
+        beneficiaryId: 'b-1', purpose: 'data_collection', consentVersion: 'v1', collectedBy: 'u-1', source: 'manual',
+      }), { transaction });
+      expect((AuditLog.create as jest.Mock).mock.calls[0][0].action).toBe('BENEFICIARY_CONSENT_RECORD');
+    });
+
+    it('returns the consent in force when the same version is recorded again', async () => {
+      const existing = { id: 'c-1', purpose: 'data_collection', consentVersion: 'v1' };
+      (BeneficiaryConsent.findOne as jest.Mock).mockResolvedValue(existing);
+
+      const result = await recordConsent('b-1', { purpose: 'data_collection', consentVersion: 'v1' }, opts);
+
+      expect(result).toEqual({ success: true, status: 200, data: existing });
+      expect(BeneficiaryConsent.create).not.toHaveBeenCalled();
+    });
+
+    it('withdraws active consents when consent is refused', async () => {
+      const active = { id: 'c-1', purpose: 'data_sharing', update: jest.fn() };
+      (BeneficiaryConsent.findAll as jest.Mock).mockResolvedValue([active]);
+
+      const result = await recordConsent('b-1', { purpose: 'data_sharing', consentVersion: 'v2', granted: false }, opts);
+
+      expect(result.status).toBe(200);
+      expect(active.update).toHaveBeenCalledWith(
+        { withdrawnAt: expect.any(Date), withdrawnBy: 'u-1', withdrawalReason: 'Refused' },
+        { transaction }
+      );
+      expect(BeneficiaryConsent.create).not.toHaveBeenCalled();
+      expect((AuditLog.create as jest.Mock).mock.calls[0][0].action).toBe('BENEFICIARY_CONSENT_WITHDRAW');
+    });
+
+    it('rejects unknown purposes, missing signatures and erased beneficiaries', async () => {
+      expect((await recordConsent('b-1', { purpose: 'marketing', consentVersion: 'v1' }, opts)).status).toBe(400);
+
+      (FormResponseAttachment.findByPk as jest.Mock).mockResolvedValue(null);
+      expect((await recordConsent('b-1', { purpose: 'data_collection', consentVersion: 'v1', signatureAttachmentId: 'a-1' }, opts)).status).toBe(400);
+
+      (Beneficiary.findByPk as jest.Mock).mockResolvedValue({ id: 'b-1', erasedAt: new Date() });
+      expect((await recordConsent('b-1', { purpose: 'data_collection', consentVersion: 'v1' }, opts)).status).toBe(409);
+    });
+
+    it('accepts only signatures on the consent\'s response or unlinked uploads of the collector', async () => {
+      const input = { purpose: 'data_collection', consentVersion: 'v1', signatureAttachmentId: 'a-1' };
+
+      (FormResponseAttachment.findByPk as jest.Mock).mockResolvedValue({ id: 'a-1', formResponseId: 'r-other', uploadedBy: 'u-1' });
+      const other = await recordConsent('b-1', { ...input, formResponseId: 'r-1' }, opts);
+      expect(other).toEqual({ success: false, status: 400, message: 'Signature attachment does not belong to this consent' });
+
+      (FormResponseAttachment.findByPk as jest.Mock).mockResolvedValue({ id: 'a-1', formResponseId: null, uploadedBy: 'u-2' });
+      expect((await recordConsent('b-1', input, opts)).status).toBe(400);
+      expect(BeneficiaryConsent.create).not.toHaveBeenCalled();
+
+      (FormResponseAttachment.findByPk as jest.Mock).mockResolvedValue({ id: 'a-1', formResponseId: 'r-1', uploadedBy: 'u-2' });
+      expect((await recordConsent('b-1', { ...input, formResponseId: 'r-1' }, opts)).status).toBe(201);
+
+      (FormResponseAttachment.findByPk as jest.Mock).mockResolvedValue({ id: 'a-1', formResponseId: null, uploadedBy: 'u-1' });
+      expect((await recordConsent('b-1', input, opts)).status).toBe(201);
+    });
+  });
+
+  it('records consents answered on a form using the template mapping', async () => {
+    (BeneficiaryMapping.findOne as jest.Mock).mockResolvedValue({
+      mapping: {
+        fields: { firstName: 'first' },
+        consent: { version: '2024-03', purposes: { data_collection: 'consent.collect', data_sharing: 'consent.share' }, signature: 'consent.signature' },
+      },
+    });
+    (FormResponseAttachment.findByPk as jest.Mock).mockResolvedValue({ id: 'a-1', formResponseId: 'r-1', uploadedBy: 'u-1' });
+
+    const recorded = await recordConsentsFromForm('t-1', 'b-1', {
+      first: 'Arta',
+      consent: { collect: 'yes', signature: 'a-1' },
+    }, { ...opts, source: 'form', formResponseId: 'r-1' });
+
+    expect(recorded).toBe(1);
+    expect(BeneficiaryConsent.create).toHaveBeenCalledTimes(1);
+    expect(BeneficiaryConsent.create).toHaveBeenCalledWith(expect.objectContaining({
+      purpose: 'data_collection', consentVersion: '2024-03', source: 'form', formResponseId: 'r-1', signatureAttachmentId: 'a-1',
+    }), { transaction });
+  });
+
+  it('reports a form consent signature that is not the collector\'s as a validation error', async () => {
+    (BeneficiaryMapping.findOne as jest.Mock).mockResolvedValue({
+      mapping: { consent: { version: '2024-03', purposes: { data_collection: 'consent.collect' }, signature: 'consent.signature' } },
+    });
+    const data = { consent: { collect: 'yes', signature: 'a-9' } };
+
+    (FormResponseAttachment.findByPk as jest.Mock).mockResolvedValue(null);
+    expect(await validateFormConsentSignature('t-1', data, { userId: 'u-1', transaction })).toBe('Signature attachment not found');
+
+    (FormResponseAttachment.findByPk as jest.Mock).mockResolvedValue({ id: 'a-9', formResponseId: null, uploadedBy: 'u-1' });
+    expect(await validateFormConsentSignature('t-1', data, { userId: 'u-1', transaction })).toBeNull();
+
+    // A refused consent keeps no signature, so it is not checked
+    (FormResponseAttachment.findByPk as jest.Mock).mockClear();
+    expect(await validateFormConsentSignature('t-1', { consent: { collect: 'no', signature: 'a-9' } }, { userId: 'u-1', transaction })).toBeNull();
+    expect(FormResponseAttachment.findByPk).not.toHaveBeenCalled();
+  });
+
+  describe('redactItemsWithoutConsent', () => {
+    it('strips PII from beneficiaries without consent', async () => {
+      (BeneficiaryConsent.findAll as jest.Mock).mockResolvedValue([{ beneficiaryId: 'b-1', purpose: 'data_collection' }]);
+      const items: any[] = [
+        { id: 'b-1', pii: { firstName: 'Arta' } },
+        { id: 'b-2', pii: { firstName: 'Besa' }, piiEnc: { firstNameEnc: 'x' } },
+      ];
+
+      const redacted = await redactItemsWithoutConsent(items);
+
+      expect(redacted).toBe(1);
+      expect(items[0].pii).toEqual({ firstName: 'Arta' });
+      expect(items[1]).toEqual({ id: 'b-2', piiEnc: null, consentRequired: 'data_collection' });
+    });
+
+    it('redacts nothing unless enforcement is switched on', async () => {
+      delete process.env.CONSENT_ENFORCEMENT;
+      const items: any[] = [{ id: 'b-2', pii: { firstName: 'Besa' } }];
+
+      expect(await redactItemsWithoutConsent(items)).toBe(0);
+      expect(items[0].pii).toEqual({ firstName: 'Besa' });
+      expect(BeneficiaryConsent.findAll).not.toHaveBeenCalled();
+    });
+  });
+});
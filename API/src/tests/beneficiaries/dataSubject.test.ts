@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import { eraseBeneficiary, mappedPiiPaths, rectifyBeneficiary } from '../../services/beneficiaries/dataSubjectService';
+import {
+  AuditLog,
+  Beneficiary,
+  BeneficiaryDetails,
+  BeneficiaryMapping,
+  BeneficiaryMatchKey,
+  BeneficiaryMerge,
+  BeneficiarySearchToken,
+  DataSubjectRequest,
+  FormResponse,
+  FormResponseAttachment,
+  Household,
+  HouseholdMember,
+} from '../../models';
+import { encryptField } from '../../utils/crypto';
+import { mockRow, mockTransaction } from '../helpers/mockRows';
+
+const storageDelete = jest.fn();
+
+jest.mock('../../models', () => ({
+  AuditLog: { create: jest.fn(), findAll: jest.fn() },
+  Beneficiary: { findByPk: jest.fn() },
+  BeneficiaryCaseNote: { destroy: jest.fn().mockResolvedValue(2) },
+  BeneficiaryCondition: { findAll: jest.fn().mockResolvedValue([]), update: jest.fn().mockResolvedValue([1]) },
+  BeneficiaryConsent: { findAll: jest.fn().mockResolvedValue([]) },
+  BeneficiaryDetails: { findOne: jest.fn() },
+  BeneficiaryDuplicateCandidate: { destroy: jest.fn().mockResolvedValue(1) },
+  BeneficiaryFollowUpTask: { destroy: jest.fn().mockResolvedValue(1) },
+  BeneficiaryMapping: { findAll: jest.fn().mockResolvedValue([]) },
+  BeneficiaryMatchKey: { destroy: jest.fn().mockResolvedValue(3), findAll: jest.fn().mockResolvedValue([]), findOrCreate: jest.fn() },
+  BeneficiaryMerge: { findAll: jest.fn() },
+  BeneficiaryReferral: { update: jest.fn().mockResolvedValue([1]) },
+  BeneficiarySearchToken: { destroy: jest.fn().mockResolvedValue(5), findAll: jest.fn().mockResolvedValue([]), bulkCreate: jest.fn() },
+  DataSubjectRequest: { create: jest.fn(async (values: any) => values) },
+  FormResponse: { findAll: jest.fn().mockResolvedValue([]) },
+  FormResponseAttachment: { findAll: jest.fn().mockResolvedValue([]), destroy: jest.fn() },
+  Household: { update: jest.fn() },
+  HouseholdMember: { findOne: jest.fn(), count: jest.fn() },
+  SyncConflict: { destroy: jest.fn().mockResolvedValue(1) },
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+jest.mock('../../services/storage', () => ({ getStorage: () => ({ delete: storageDelete }) }));
+jest.mock('../../services/beneficiaries/beneficiariesService', () => ({
+  __esModule: true,
+  default: { updateBeneficiary: jest.fn(async (id: string) => ({ id, pseudonym: 'B-1' })) },
+}));
+
+const afterCommit: Array<() => Promise<void>> = [];
+const transaction = mockTransaction({ afterCommit: (fn: () => Promise<void>) => afterCommit.push(fn) });
+
+const makeBeneficiary = (values: any = {}) => mockRow({
+  id: 'b-1',
+  pseudonym: 'B-1',
+  archivedAt: null,
+  erasedAt: null,
+  firstNameEnc: encryptField('Arta'),
+  phoneEnc: encryptField('+38344111222'),
+}, values);
+
+describe('Data subject requests', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    afterCommit.length = 0;
+    delete process.env.BENEFICIARY_ENC_KEYS;
+    process.env.BENEFICIARY_ENC_KEY = crypto.randomBytes(32).toString('base64');
+    process.env.BENEFICIARY_HASH_KEY = 'test-hash-key';
+    (HouseholdMember.findOne as jest.Mock).mockResolvedValue(null);
+    (BeneficiaryDetails.findOne as jest.Mock).mockResolvedValue(null);
+    (FormResponse.findAll as jest.Mock).mockResolvedValue([]);
+    (FormResponseAttachment.findAll as jest.Mock).mockResolvedValue([]);
+    (BeneficiaryMapping.findAll as jest.Mock).mockResolvedValue([]);
+    (BeneficiaryMerge.findAll as jest.Mock).mockResolvedValue([]);
+    (AuditLog.findAll as jest.Mock).mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('collects mapped PII paths including household address answers', () => {
+    expect(mappedPiiPaths({
+      fields: { firstName: 'person.first', phone: 'phone' },
+      household: { householdId: 'household.code', address: 'home.address' },
+    })).toEqual(['person.first', 'phone', 'home.address']);
+  });
+
+  describe('eraseBeneficiary', () => {
+    it('destroys PII, match keys and search tokens but keeps the pseudonymous record', async () => {
+      const beneficiary = makeBeneficiary();
+      (Beneficiary.findByPk as jest.Mock).mockResolvedValue(beneficiary);
+      const details = { details: { chronicConditionCodes: ['E11'], notes: 'Lives with sister' }, update: jest.fn() };
+      (BeneficiaryDetails.findOne as jest.Mock).mockResolvedValue(details);
+
+      const result = await eraseBeneficiary('b-1', { reference: 'DSR-7' }, 'u-1', transaction);
+
+      expect(result.status).toBe(200);
+      const changes = beneficiary.update.mock.calls[0][0];
+      expect(changes.firstNameEnc).toBeNull();
+      expect(changes.householdMembersEnc).toBeNull();
+      expect(changes).toEqual(expect.objectContaining({ status: 'inactive', isArchived: true, erasedAt: expect.any(Date) }));
+      expect(BeneficiaryMatchKey.destroy).toHaveBeenCalledWith({ where: { beneficiaryId: 'b-1' }, transaction });
+      expect(BeneficiarySearchToken.destroy).toHaveBeenCalledWith({ where: { beneficiaryId: 'b-1' }, transaction });
+      expect(details.update).toHaveBeenCalledWith({ details: { chronicConditionCodes: ['E11'] } }, { transaction });
+
+      const request = (DataSubjectRequest.create as jest.Mock).mock.calls[0][0];
+      expect(request).toEqual(expect.objectContaining({ type: 'erasure', reference: 'DSR-7', processedBy: 'u-1' }));
+      expect(request.details.counts).toEqual(expect.objectContaining({ matchKeys: 3, searchTokens: 5, caseNotes: 2, followUpTasks: 1, conditions: 1, syncConflicts: 1 }));
+      expect((AuditLog.create as jest.Mock).mock.calls[0][0].action).toBe('BENEFICIARY_ERASE');
+    });
+
+    it('strips mapped answers from linked responses and deletes attachment files after commit', async () => {
+      (Beneficiary.findByPk as jest.Mock).mockResolvedValue(makeBeneficiary());
+      const response = {
+        id: 'r-1',
+        formTemplateId: 't-1',
+        data: { person: { first: 'Arta', age: 34 }, visits: 2 },
+        update: jest.fn(),
+      };
+      (FormResponse.findAll as jest.Mock).mockResolvedValue([response]);
+      (BeneficiaryMapping.findAll as jest.Mock).mockResolvedValue([{ formTemplateId: 't-1', mapping: { fields: { firstName: 'person.first' } } }]);
+      (FormResponseAttachment.findAll as jest.Mock).mockResolvedValue([{ id: 'a-1', storageDriver: 'local', storageKey: 'attachments/a-1' }]);
+
+      await eraseBeneficiary('b-1', {}, 'u-1', transaction);
+
+      expect(response.update).toHaveBeenCalledWith({ data: { person: { age: 34 }, visits: 2 } }, { transaction });
+      expect(FormResponseAttachment.destroy).toHaveBeenCalledWith({ where: { id: ['a-1'] }, transaction });
+      expect(storageDelete).not.toHaveBeenCalled();
+      await Promise.all(afterCommit.map(fn => fn()));
+      expect(storageDelete).toHaveBeenCalledWith('attachments/a-1');
+    });
+
+    it('clears the address of a household the beneficiary was the only member of', async () => {
+      (Beneficiary.findByPk as jest.Mock).mockResolvedValue(makeBeneficiary());
+      (HouseholdMember.findOne as jest.Mock).mockResolvedValue({ householdId: 'h-1', beneficiaryId: 'b-1' });
+      (HouseholdMember.count as jest.Mock).mockResolvedValue(0);
+
+      await eraseBeneficiary('b-1', {}, 'u-1', transaction);
+
+      expect(Household.update).toHaveBeenCalledWith({ addressEnc: null, municipalityEnc: null }, { where: { id: 'h-1' }, transaction });
+    });
+
+    it('scrubs the details and clinical notes copied into merge snapshots and their audit entries', async () => {
+      (Beneficiary.findByPk as jest.Mock).mockResolvedValue(makeBeneficiary());
+      const changes = {
+        formResponseIds: ['r-1'],
+        serviceDeliveryIds: [],
+        movedAssignmentIds: [],
+        droppedAssignments: [{ id: 'a-2', entityType: 'project', entityId: 'p-1' }],
+        droppedStatusChanges: [{ id: 'sc-1', assignmentId: 'a-2', note: 'Moved to Prizren' }],
+        movedDetailsId: null,
+        survivorDetails: { chronicConditionCodes: ['E11'], notes: 'Lives with sister' },
+        matchKeyIds: [],
+        droppedConditions: [{ id: 'c-1', icd10CodeId: 'E11', notesEnc: encryptField('Insulin twice daily') }],
+        mergedState: { status: 'active', isArchived: false, archivedAt: null },
+      };
+      const merge = { id: 'm-1', changes, update: jest.fn() };
+      (BeneficiaryMerge.findAll as jest.Mock).mockResolvedValue([merge]);
+      const audit = { details: JSON.stringify({ mergeId: 'm-1', survivorId: 'b-1', mergedId: 'b-2', changes }), update: jest.fn() };
+      (AuditLog.findAll as jest.Mock).mockResolvedValue([audit]);
+
+      await eraseBeneficiary('b-1', {}, 'u-1', transaction);
+
+      const scrubbed = merge.update.mock.calls[0][0].changes;
+      expect(scrubbed.survivorDetails).toEqual({ chronicConditionCodes: ['E11'] });
+      expect(scrubbed.droppedConditions).toEqual([{ id: 'c-1', icd10CodeId: 'E11', notesEnc: null }]);
+      expect(scrubbed.droppedStatusChanges[0].note).toBeNull();
+      expect(scrubbed.formResponseIds).toEqual(['r-1']);
+      const details = JSON.parse(audit.update.mock.calls[0][0].details);
+      expect(details).toEqual(expect.objectContaining({ mergeId: 'm-1', counts: expect.objectContaining({ droppedConditions: 1 }) }));
+      expect(details).not.toHaveProperty('changes');
+      expect((DataSubjectRequest.create as jest.Mock).mock.calls[0][0].details.counts.mergeSnapshots).toBe(1);
+    });
+
+    it('refuses to erase twice', async () => {
+      (Beneficiary.findByPk as jest.Mock).mockResolvedValue(makeBeneficiary({ erasedAt: new Date() }));
+
+      const result = await eraseBeneficiary('b-1', {}, 'u-1', transaction);
+
+      expect(result.status).toBe(409);
+      expect(BeneficiaryMatchKey.destroy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rectifyBeneficiary', () => {
+    it('logs the names of changed fields without their values', async () => {
+      const beneficiary = makeBeneficiary();
+      beneficiary.reload = jest.fn(async () => Object.assign(beneficiary, { firstNameEnc: encryptField('Arta B.') }));
+      (Beneficiary.findByPk as jest.Mock).mockResolvedValue(beneficiary);
+
+      const result = await rectifyBeneficiary('b-1', { firstName: 'Arta B.', phone: '+38344111222', note: 'x' }, {}, 'u-1', transaction);
+
+      expect(result.status).toBe(200);
+      expect(result.data.changedFields).toEqual(['firstName']);
+      const request = (DataSubjectRequest.create as jest.Mock).mock.calls[0][0];
+      expect(request).toEqual(expect.objectContaining({ type: 'rectification', details: { changedFields: ['firstName'] } }));
+      expect(JSON.stringify(request)).not.toContain('Arta');
+      expect((AuditLog.create as jest.Mock).mock.calls[0][0].action).toBe('BENEFICIARY_RECTIFY');
+    });
+
+    it('rejects corrections without PII fields', async () => {
+      (Beneficiary.findByPk as jest.Mock).mockResolvedValue(makeBeneficiary());
+
+      const result = await rectifyBeneficiary('b-1', { status: 'inactive' }, {}, 'u-1', transaction);
+
+      expect(result.status).toBe(400);
+    });
+  });
+});
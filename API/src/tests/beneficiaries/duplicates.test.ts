@@ -0,0 +1,160 @@
+import { soundex, jaroWinkler, buildBlockingKeyValues, scoreDuplicatePair } from '../../services/beneficiaries/duplicateService';
+import { mergeDetails, mergeBeneficiaries, undoBeneficiaryMerge } from '../../services/beneficiaries/mergeService';
+import {
+  AuditLog,
+  Beneficiary,
+  BeneficiaryAssignment,
+  BeneficiaryDetails,
+  BeneficiaryDuplicateCandidate,
+  BeneficiaryMatchKey,
+  BeneficiaryMerge,
+  FormResponse,
+  HouseholdMember,
+  ServiceDelivery,
+} from '../../models';
+import { mockTransaction } from '../helpers/mockRows';
+
+jest.mock('../../models', () => {
+  const rows = () => ({ findAll: jest.fn().mockResolvedValue([]), findOne: jest.fn(), update: jest.fn(), destroy: jest.fn() });
+  return {
+    AuditLog: { create: jest.fn() },
+    Beneficiary: { findByPk: jest.fn() },
+    BeneficiaryAssignment: rows(),
+    BeneficiaryAssignmentStatusChange: rows(),
+    BeneficiaryCaseNote: rows(),
+    BeneficiaryCondition: rows(),
+    BeneficiaryConsent: rows(),
+    BeneficiaryDetails: rows(),
+    BeneficiaryDuplicateCandidate: { findByPk: jest.fn(), findOne: jest.fn() },
+    BeneficiaryFollowUpTask: rows(),
+    BeneficiaryMatchKey: rows(),
+    BeneficiaryMerge: { create: jest.fn(async (values: any) => values), findByPk: jest.fn() },
+    BeneficiaryReferral: rows(),
+    FormResponse: rows(),
+    HouseholdMember: rows(),
+    ServiceDelivery: rows(),
+  };
+});
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+describe('Beneficiary duplicates', () => {
+  it('codes names phonetically and compares them with Jaro-Winkler', () => {
+    expect(soundex('Arben')).toBe('A615');
+    expect(soundex('Arbenn')).toBe('A615');
+    expect(soundex('Shaqiri')).toBe(soundex('Shaqirë'));
+    expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler('arben', 'xyz')).toBe(0);
+  });
+
+  it('builds blocking keys from phonetic names, birth date and phone', () => {
+    expect(buildBlockingKeyValues({ firstName: 'Arben', lastName: 'Krasniqi', dob: '1990-01-02', phone: '+383 44 123 456' })).toEqual([
+      { keyType: 'name-phonetic+yob', value: 'A615K625|1990' },
+      { keyType: 'lastname-phonetic+dob', value: 'K625|1990-01-02' },
+      { keyType: 'phone', value: '44123456' },
+    ]);
+    expect(buildBlockingKeyValues({ firstName: 'Arben' })).toEqual([]);
+  });
+
+  it('scores typos as likely duplicates and different national IDs as unlikely', () => {
+    const arben = { firstName: 'Arben', lastName: 'Krasniqi', dob: '1990-01-02', phone: '044123456' };
+
+    const typo = scoreDuplicatePair(arben, { firstName: 'Arbenn', lastName: 'Krasniqi', dob: '1990-02-01', phone: '+38344123456' });
+    expect(typo.score).toBeGreaterThanOrEqual(0.8);
+    expect(typo.reasons).toMatchObject({ dob: 0.8, phone: 1, nationalId: null });
+
+    const swapped = scoreDuplicatePair(arben, { firstName: 'Krasniqi', lastName: 'Arben', dob: '1990-01-02' });
+    expect(swapped.reasons.name).toBe(1);
+
+    const otherId = scoreDuplicatePair({ ...arben, nationalId: '111' }, { ...arben, nationalId: '222' });
+    expect(otherId.score).toBe(0.5);
+  });
+
+  it('fills blank details from the merged record and unites arrays', () => {
+    expect(mergeDetails(
+      { bloodType: 'A+', chronicConditionCodes: ['I10'], notes: '' },
+      { bloodType: 'B+', chronicConditionCodes: ['E11', 'I10'], notes: 'diabetic', allergies: ['penicillin'] }
+    )).toEqual({ bloodType: 'A+', chronicConditionCodes: ['I10', 'E11'], notes: 'diabetic', allergies: ['penicillin'] });
+  });
+
+  describe('mergeBeneficiaries', () => {
+    const transaction = mockTransaction();
+    const survivor: any = { id: 'b-1', pseudonym: 'B-1', isArchived: false };
+    let merged: any;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      merged = { id: 'b-2', pseudonym: 'B-2', status: 'active', isArchived: false, archivedAt: null, update: jest.fn() };
+      (Beneficiary.findByPk as jest.Mock).mockImplementation(async (id: string) => (id === 'b-1' ? survivor : merged));
+    });
+
+    it('moves linked rows to the survivor and records them for undo', async () => {
+      const candidate = { id: 'c-1', beneficiaryAId: 'b-1', beneficiaryBId: 'b-2', update: jest.fn() };
+      (BeneficiaryDuplicateCandidate.findByPk as jest.Mock).mockResolvedValue(candidate);
+      (FormResponse.findAll as jest.Mock).mockResolvedValue([{ id: 'r-1' }, { id: 'r-2' }]);
+      (ServiceDelivery.findAll as jest.Mock).mockResolvedValue([{ id: 's-1' }]);
+      (BeneficiaryAssignment.findAll as jest.Mock).mockImplementation(async ({ where }: any) => (where.beneficiaryId === 'b-1'
+        ? [{ id: 'a-1', entityType: 'project', entityId: 'p-1' }]
+        : [
+            { id: 'a-2', entityType: 'project', entityId: 'p-1', toJSON: () => ({ id: 'a-2', entityType: 'project', entityId: 'p-1' }), destroy: jest.fn() },
+            { id: 'a-3', entityType: 'subproject', entityId: 's-9', update: jest.fn() },
+          ]));
+      (BeneficiaryDetails.findOne as jest.Mock).mockResolvedValue(null);
+      (BeneficiaryMatchKey.findAll as jest.Mock).mockResolvedValue([{ id: 'k-1' }]);
+      const membership = { id: 'h-m-2', update: jest.fn() };
+      (HouseholdMember.findOne as jest.Mock).mockImplementation(async ({ where }: any) => (where.beneficiaryId === 'b-2' ? membership : null));
+
+      const result = await mergeBeneficiaries({ survivorId: 'b-1', mergedId: 'b-2', candidateId: 'c-1', userId: 'u-1' }, transaction);
+
+      expect(result.status).toBe(201);
+      expect(FormResponse.update).toHaveBeenCalledWith({ beneficiaryId: 'b-1' }, { where: { id: ['r-1', 'r-2'] }, transaction });
+      expect(merged.update).toHaveBeenCalledWith(expect.objectContaining({ isArchived: true, mergedIntoId: 'b-1' }), { transaction });
+      expect(candidate.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'merged' }), { transaction });
+      expect(membership.update).toHaveBeenCalledWith({ beneficiaryId: 'b-1' }, { transaction });
+      expect((BeneficiaryMerge.create as jest.Mock).mock.calls[0][0].changes).toMatchObject({
+        formResponseIds: ['r-1', 'r-2'],
+        serviceDeliveryIds: ['s-1'],
+        movedAssignmentIds: ['a-3'],
+        droppedAssignments: [{ id: 'a-2' }],
+        matchKeyIds: ['k-1'],
+        householdMemberId: 'h-m-2',
+        mergedState: { status: 'active', isArchived: false },
+      });
+    });
+
+    it('audits ids and counts but not the health data of the snapshot', async () => {
+      (BeneficiaryDuplicateCandidate.findOne as jest.Mock).mockResolvedValue(null);
+      const survivorDetails = { beneficiaryId: 'b-1', details: { chronicConditionCodes: ['E11'] }, update: jest.fn() };
+      (BeneficiaryDetails.findOne as jest.Mock).mockImplementation(async ({ where }: any) => (where.beneficiaryId === 'b-1'
+        ? survivorDetails
+        : { beneficiaryId: 'b-2', details: { bloodType: 'A+' } }));
+
+      await mergeBeneficiaries({ survivorId: 'b-1', mergedId: 'b-2', userId: 'u-1' }, transaction);
+
+      expect((BeneficiaryMerge.create as jest.Mock).mock.calls[0][0].changes.survivorDetails).toEqual({ chronicConditionCodes: ['E11'] });
+      const details = JSON.parse((AuditLog.create as jest.Mock).mock.calls[0][0].details);
+      expect(details).not.toHaveProperty('changes');
+      expect(details.counts).toEqual(expect.objectContaining({ details: 'merged', droppedConditions: 0 }));
+      expect(JSON.stringify(details)).not.toContain('E11');
+    });
+
+    it('refuses to undo the merge of an erased record', async () => {
+      const merge = { id: 'm-1', survivorId: 'b-1', mergedId: 'b-2', status: 'merged', changes: {}, update: jest.fn() };
+      (BeneficiaryMerge.findByPk as jest.Mock).mockResolvedValue(merge);
+      Object.assign(merged, { isArchived: true, mergedIntoId: 'b-1', erasedAt: new Date() });
+
+      const result = await undoBeneficiaryMerge('m-1', 'u-1', transaction);
+
+      expect(result).toEqual(expect.objectContaining({ success: false, status: 409 }));
+      expect(merge.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses to merge archived records', async () => {
+      merged.isArchived = true;
+
+      const result = await mergeBeneficiaries({ survivorId: 'b-1', mergedId: 'b-2', userId: 'u-1' }, transaction);
+
+      expect(result.status).toBe(409);
+      expect(BeneficiaryMerge.create).not.toHaveBeenCalled();
+    });
+  });
+});
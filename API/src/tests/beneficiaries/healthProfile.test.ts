@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { categoryOf, createCode, updateCode } from '../../services/beneficiaries/conditionCatalogService';
+import {
+  createCondition,
+  recordConditionCodes,
+  summarizeConditions,
+  updateCondition,
+} from '../../services/beneficiaries/healthProfileService';
+import { AuditLog, Beneficiary, BeneficiaryCondition, BeneficiaryDetails, Icd10Code } from '../../models';
+import { decryptField } from '../../utils/crypto';
+import { mockRow, mockTransaction } from '../helpers/mockRows';
+
+jest.mock('../../models', () => ({
+  AuditLog: { create: jest.fn() },
+  Beneficiary: { findByPk: jest.fn() },
+  BeneficiaryCondition: {
+    bulkCreate: jest.fn(),
+    create: jest.fn(async (values: any) => values),
+    findAll: jest.fn().mockResolvedValue([]),
+    findOne: jest.fn(),
+  },
+  BeneficiaryDetails: { create: jest.fn(), findOne: jest.fn() },
+  Icd10Code: { create: jest.fn(async (values: any) => values), findAll: jest.fn(), findByPk: jest.fn(), findOne: jest.fn() },
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+const transaction = mockTransaction();
+
+const E11 = { id: 'c-e11', code: 'E11', label: 'Diabetes mellitus tip II', category: 'endocrine', isActive: true };
+
+const makeCondition = (values: any = {}) => mockRow({
+  id: 'bc-1', beneficiaryId: 'b-1', icd10CodeId: 'c-e11', icd10: E11, status: 'active', diagnosedAt: '2020-05-01', resolvedAt: null,
+}, values);
+
+describe('Health profile', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.BENEFICIARY_ENC_KEYS;
+    process.env.BENEFICIARY_ENC_KEY = crypto.randomBytes(32).toString('base64');
+    (Beneficiary.findByPk as jest.Mock).mockResolvedValue({ id: 'b-1', pseudonym: 'B-1', erasedAt: null });
+    (Icd10Code.findAll as jest.Mock).mockResolvedValue([E11]);
+    (Icd10Code.findOne as jest.Mock).mockResolvedValue(null);
+    (BeneficiaryCondition.findOne as jest.Mock).mockResolvedValue(null);
+    (BeneficiaryCondition.findAll as jest.Mock).mockResolvedValue([]);
+    (BeneficiaryDetails.findOne as jest.Mock).mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('catalog', () => {
+    it('files codes under their ICD-10 chapter', () => {
+      expect(categoryOf('E11')).toBe('endocrine');
+      expect(categoryOf('m79.6')).toBe('musculoskeletal');
+      expect(categoryOf('H66')).toBe('ear');
+      expect(categoryOf('T14')).toBe('injury');
+      expect(categoryOf('OTHER')).toBe('other');
+    });
+
+    it('adds codes with their chapter as category and refuses duplicates or malformed codes', async () => {
+      const result = await createCode({ code: ' j45.0 ', label: 'Predominantly allergic asthma', synonyms: ['Allergic asthma', 'Allergic asthma'] }, 'u-1', transaction);
+
+      expect(result.status).toBe(201);
+      expect(Icd10Code.create).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'J45.0', category: 'respiratory', synonyms: ['Allergic asthma'], isActive: true,
+      }), { transaction });
+      expect((AuditLog.create as jest.Mock).mock.calls[0][0].action).toBe('ICD10_CODE_CREATE');
+
+      expect((await createCode({ code: 'Diabetes', label: 'Diabetes' }, 'u-1', transaction)).status).toBe(400);
+      (Icd10Code.findOne as jest.Mock).mockResolvedValue({ id: 'c-j45' });
+      expect((await createCode({ code: 'J45.0', label: 'Asthma' }, 'u-1', transaction)).status).toBe(409);
+    });
+
+    it('keeps the code of an entry immutable', async () => {
+      const entry: any = { ...E11, synonyms: [], update: jest.fn() };
+      (Icd10Code.findByPk as jest.Mock).mockResolvedValue(entry);
+
+      expect((await updateCode('c-e11', { code: 'E10' }, 'u-1', transaction)).status).toBe(400);
+      expect((await updateCode('c-e11', { isActive: false }, 'u-1', transaction)).status).toBe(200);
+      expect(entry.update).toHaveBeenCalledWith({ isActive: false }, { transaction });
+    });
+  });
+
+  describe('conditions', () => {
+    it('records a catalog code with encrypted notes and mirrors current codes into the details', async () => {
+      (BeneficiaryCondition.findAll as jest.Mock).mockResolvedValue([{ icd10: { code: 'E11' } }]);
+
+      const result = await createCondition('b-1', { code: 'e11', diagnosedAt: '2020-05-01', notes: 'Insulin since 2021' }, 'u-1', transaction);
+
+      expect(result.status).toBe(201);
+      const stored = (BeneficiaryCondition.create as jest.Mock).mock.calls[0][0];
+      expect(stored).toEqual(expect.objectContaining({ beneficiaryId: 'b-1', icd10CodeId: 'c-e11', status: 'active', recordedBy: 'u-1' }));
+      expect(decryptField(stored.notesEnc)).toBe('Insulin since 2021');
+      expect(result.data).toEqual(expect.objectContaining({ code: 'E11', category: 'endocrine', notes: 'Insulin since 2021' }));
+      expect(BeneficiaryDetails.create).toHaveBeenCalledWith(expect.objectContaining({ details: { chronicConditionCodes: ['E11'] } }), { transaction });
+      expect((AuditLog.create as jest.Mock).mock.calls[0][0].details).not.toContain('Insulin');
+    });
+
+    it('rejects unknown codes, duplicates and inconsistent dates', async () => {
+      expect((await createCondition('b-1', { code: 'E11', diagnosedAt: '2999-01-01' }, 'u-1', transaction)).status).toBe(400);
+      expect((await createCondition('b-1', { code: 'E11', resolvedAt: '2021-01-01' }, 'u-1', transaction)).status).toBe(400);
+      expect((await createCondition('b-1', { code: 'E11', status: 'resolved', diagnosedAt: '2021-01-01', resolvedAt: '2020-01-01' }, 'u-1', transaction)).status).toBe(400);
+
+      (Icd10Code.findAll as jest.Mock).mockResolvedValue([]);
+      expect((await createCondition('b-1', { code: 'E99' }, 'u-1', transaction)).status).toBe(400);
+
+      (Icd10Code.findAll as jest.Mock).mockResolvedValue([E11]);
+      (BeneficiaryCondition.findOne as jest.Mock).mockResolvedValue({ id: 'bc-1' });
+      expect((await createCondition('b-1', { code: 'E11' }, 'u-1', transaction)).status).toBe(409);
+      expect(BeneficiaryCondition.create).not.toHaveBeenCalled();
+    });
+
+    it('stamps the resolution date when resolving and clears it when reopening', async () => {
+      const condition = makeCondition();
+      (BeneficiaryCondition.findOne as jest.Mock).mockResolvedValue(condition);
+
+      await updateCondition('b-1', 'bc-1', { status: 'resolved' }, 'u-2', transaction);
+      expect(condition).toEqual(expect.objectContaining({ status: 'resolved', resolvedAt: new Date().toISOString().slice(0, 10), updatedBy: 'u-2' }));
+
+      await updateCondition('b-1', 'bc-1', { status: 'in_remission' }, 'u-2', transaction);
+      expect(condition).toEqual(expect.objectContaining({ status: 'in_remission', resolvedAt: null }));
+    });
+
+    it('refuses unknown or inactive codes given on registration', async () => {
+      (Icd10Code.findAll as jest.Mock).mockResolvedValue([E11, { id: 'c-x', code: 'J44', isActive: false }]);
+
+      expect((await recordConditionCodes('b-1', ['E11', 'J44', 'Z99'], 'u-1', transaction)).message).toBe('Unknown or inactive ICD-10 codes: J44, Z99');
+      expect(BeneficiaryCondition.bulkCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  it('counts beneficiaries per category and code', () => {
+    const diabetes = { code: 'E11', label: 'Diabetes', category: 'endocrine', status: 'active' as const };
+    const summary = summarizeConditions(['b-1', 'b-2', 'b-3'], new Map([
+      ['b-1', [diabetes, { code: 'E66', label: 'Obesity', category: 'endocrine', status: 'in_remission' as const }]],
+      ['b-2', [diabetes, { code: 'I10', label: 'Hypertension', category: 'circulatory', status: 'active' as const }]],
+      ['b-9', [diabetes]],
+    ]));
+
+    expect(summary.totalBeneficiaries).toBe(3);
+    expect(summary.withConditions).toBe(2);
+    expect(summary.byCategory[0]).toEqual(expect.objectContaining({
+      category: 'endocrine', beneficiaries: 2, byStatus: { active: 2, in_remission: 1 },
+    }));
+    expect(summary.byCategory[0].codes[0]).toEqual({ code: 'E11', label: 'Diabetes', beneficiaries: 2 });
+    expect(summary.byCategory[1]).toEqual(expect.objectContaining({ category: 'circulatory', beneficiaries: 1 }));
+  });
+});
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import {
+  addHouseholdMember,
+  createHousehold,
+  linkHouseholdFromMapping,
+  recordHouseholdDelivery,
+} from '../../services/beneficiaries/householdService';
+import { AuditLog, Beneficiary, Household, HouseholdMember, Service, ServiceDelivery } from '../../models';
+import { decryptField } from '../../utils/crypto';
+
+jest.mock('../../models', () => ({
+  AuditLog: { create: jest.fn() },
+  Beneficiary: { findAll: jest.fn() },
+  Household: { create: jest.fn(async (values: any) => values), findByPk: jest.fn(), findOne: jest.fn() },
+  HouseholdMember: {
+    create: jest.fn(async (values: any) => values),
+    findAll: jest.fn().mockResolvedValue([]),
+    findOne: jest.fn(),
+  },
+  Service: { findByPk: jest.fn() },
+  ServiceDelivery: { create: jest.fn(async (values: any) => values) },
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+const transaction: any = {};
+const opts = { transaction, userId: 'u-1' };
+
+describe('Households', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.BENEFICIARY_ENC_KEYS;
+    process.env.BENEFICIARY_ENC_KEY = crypto.randomBytes(32).toString('base64');
+    (Beneficiary.findAll as jest.Mock).mockImplementation(async ({ where }: any) => where.id.map((id: string) => ({ id })));
+    (HouseholdMember.findAll as jest.Mock).mockResolvedValue([]);
+    (HouseholdMember.findOne as jest.Mock).mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('creates a household with a head, members and an encrypted shared address', async () => {
+    const result = await createHousehold({
+      headBeneficiaryId: 'b-1',
+      members: [{ beneficiaryId: 'b-2', relationship: 'spouse' }, { beneficiaryId: 'b-3' }],
+      address: 'Rruga A 1',
+    }, 'u-1', transaction);
+
+    expect(result.status).toBe(201);
+    const household = (Household.create as jest.Mock).mock.calls[0][0];
+    expect(household.code).toMatch(/^H-[0-9A-F]{8}$/);
+    expect(decryptField(household.addressEnc)).toBe('Rruga A 1');
+    expect((HouseholdMember.create as jest.Mock).mock.calls.map(([m]) => [m.beneficiaryId, m.relationship])).toEqual([
+      ['b-1', 'head'],
+      ['b-2', 'spouse'],
+      ['b-3', 'other'],
+    ]);
+    expect((AuditLog.create as jest.Mock).mock.calls[0][0].action).toBe('HOUSEHOLD_CREATE');
+  });
+
+  it('refuses beneficiaries that already belong to a household', async () => {
+    (HouseholdMember.findAll as jest.Mock).mockResolvedValue([{ beneficiaryId: 'b-1', householdId: 'h-9' }]);
+
+    const result = await createHousehold({ headBeneficiaryId: 'b-1' }, 'u-1', transaction);
+
+    expect(result.status).toBe(409);
+    expect(Household.create).not.toHaveBeenCalled();
+  });
+
+  it('allows one head per household', async () => {
+    (Household.findByPk as jest.Mock).mockResolvedValue({ id: 'h-1', code: 'H-1' });
+    (HouseholdMember.findOne as jest.Mock).mockResolvedValue({ beneficiaryId: 'b-1', relationship: 'head' });
+
+    const result = await addHouseholdMember('h-1', { beneficiaryId: 'b-2', relationship: 'head' }, 'u-1', transaction);
+
+    expect(result.status).toBe(409);
+    expect(HouseholdMember.create).not.toHaveBeenCalled();
+  });
+
+  it('attributes household-level deliveries to the head of household', async () => {
+    (Household.findByPk as jest.Mock).mockResolvedValue({ id: 'h-1', code: 'H-1' });
+    (Service.findByPk as jest.Mock).mockResolvedValue({ id: 's-1' });
+    (HouseholdMember.findOne as jest.Mock).mockResolvedValue({ beneficiaryId: 'b-1', relationship: 'head' });
+
+    const result = await recordHouseholdDelivery('h-1', { serviceId: 's-1', entityId: 'p-1', entityType: 'project' }, 'u-1', transaction);
+
+    expect(result.status).toBe(201);
+    expect(ServiceDelivery.create).toHaveBeenCalledWith(
+      expect.objectContaining({ beneficiaryId: 'b-1', householdId: 'h-1', serviceId: 's-1', staffUserId: 'u-1' }),
+      { transaction }
+    );
+  });
+
+  describe('linkHouseholdFromMapping', () => {
+    const config = { householdId: 'household.code', relationship: 'household.relation', address: 'address' };
+
+    it('joins the household referenced by code with the mapped relationship', async () => {
+      (Household.findOne as jest.Mock).mockResolvedValue({ id: 'h-1', code: 'H-1A2B3C4D' });
+      (Household.findByPk as jest.Mock).mockResolvedValue({ id: 'h-1', code: 'H-1A2B3C4D' });
+
+      const householdId = await linkHouseholdFromMapping('b-2', { household: { code: 'h-1a2b3c4d', relation: 'Child' } }, config, opts);
+
+      expect(householdId).toBe('h-1');
+      expect(Household.findOne).toHaveBeenCalledWith({ where: { code: 'H-1A2B3C4D' }, transaction });
+      expect(HouseholdMember.create).toHaveBeenCalledWith(expect.objectContaining({ beneficiaryId: 'b-2', relationship: 'child' }), { transaction });
+    });
+
+    it('creates a household headed by the beneficiary when none is referenced', async () => {
+      const householdId = await linkHouseholdFromMapping('b-1', { address: 'Rruga B 2' }, config, opts);
+
+      expect(householdId).toBeDefined();
+      expect(HouseholdMember.create).toHaveBeenCalledWith(expect.objectContaining({ beneficiaryId: 'b-1', relationship: 'head' }), { transaction });
+    });
+
+    it('does not create a household for a member that is not the head', async () => {
+      const householdId = await linkHouseholdFromMapping('b-3', { household: { relation: 'spouse' } }, config, opts);
+
+      expect(householdId).toBeUndefined();
+      expect(Household.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import { encryptField, decryptField, hmacSha256, hmacSha256All, reencryptField, getActiveKeyIds } from '../../utils/crypto';
+import { rotateBeneficiaryKeys, rotateHouseholdKeys } from '../../services/beneficiaries/keyRotationService';
+import { BeneficiaryMatchKey, BeneficiaryMerge, BeneficiaryReferral } from '../../models';
+
+jest.mock('../../models', () => ({
+  AuditLog: { create: jest.fn() },
+  Beneficiary: {},
+  BeneficiaryCaseNote: { findAll: jest.fn().mockResolvedValue([]) },
+  BeneficiaryCondition: { findAll: jest.fn().mockResolvedValue([]) },
+  BeneficiaryFollowUpTask: { findAll: jest.fn().mockResolvedValue([]) },
+  BeneficiaryMatchKey: { findAll: jest.fn(), findOrCreate: jest.fn(), destroy: jest.fn() },
+  BeneficiaryMapping: {},
+  BeneficiaryMerge: { findAll: jest.fn().mockResolvedValue([]) },
+  BeneficiaryReferral: { findAll: jest.fn().mockResolvedValue([]) },
+  BeneficiaryDetails: {},
+  BeneficiarySearchToken: { count: jest.fn().mockResolvedValue(0) },
+  Household: {},
+  KeyRotationJob: {},
+  SyncConflict: { findAll: jest.fn().mockResolvedValue([]) },
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../../utils/logger', () => ({
+  createLogger: () => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+describe('Beneficiary key rotation', () => {
+  const oldKey = crypto.randomBytes(32).toString('base64');
+  const newKey = crypto.randomBytes(32).toString('base64');
+  const env = { ...process.env };
+
+  const useLegacyKeys = () => {
+    delete process.env.BENEFICIARY_ENC_KEYS;
+    delete process.env.BENEFICIARY_HASH_KEYS;
+    delete process.env.BENEFICIARY_ENC_ACTIVE_KEY_ID;
+    delete process.env.BENEFICIARY_HASH_ACTIVE_KEY_ID;
+    process.env.BENEFICIARY_ENC_KEY = oldKey;
+    process.env.BENEFICIARY_HASH_KEY = 'old-hash-key-0123456789';
+  };
+
+  const useRotatedKeys = () => {
+    process.env.BENEFICIARY_ENC_KEYS = `v2:${newKey},v1:${oldKey}`;
+    process.env.BENEFICIARY_HASH_KEYS = 'v2:new-hash-key-0123456789,v1:old-hash-key-0123456789';
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useLegacyKeys();
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('records key ids and decrypts values from every key in the ring', () => {
+    const legacy = encryptField('Ana')!;
+    const { kid, ...withoutKid } = legacy;
+    expect(kid).toBe('v1');
+
+    useRotatedKeys();
+    const current = encryptField('Ana')!;
+
+    expect(current.kid).toBe('v2');
+    expect(decryptField(legacy)).toBe('Ana');
+    expect(decryptField(withoutKid)).toBe('Ana');
+    expect(reencryptField(legacy)!.kid).toBe('v2');
+    expect(reencryptField(current)).toBe(current);
+    expect(() => decryptField({ ...current, kid: 'v9' })).toThrow(/not in the keyring/);
+  });
+
+  it('hashes with the active key and matches with all keys', () => {
+    const oldHash = hmacSha256('123');
+
+    useRotatedKeys();
+    process.env.BENEFICIARY_HASH_ACTIVE_KEY_ID = 'v1';
+    expect(getActiveKeyIds().hashKeyId).toBe('v1');
+    delete process.env.BENEFICIARY_HASH_ACTIVE_KEY_ID;
+
+    expect(getActiveKeyIds()).toEqual({ encKeyId: 'v2', hashKeyId: 'v2' });
+    expect(hmacSha256('123')).not.toBe(oldHash);
+    expect(hmacSha256All('123')).toEqual([hmacSha256('123'), oldHash]);
+  });
+
+  it('re-encrypts PII and replaces stale match keys of a beneficiary', async () => {
+    const beneficiary: any = {
+      id: 'ben-1',
+      firstNameEnc: encryptField('Ana'),
+      lastNameEnc: encryptField('Berisha'),
+      dobEnc: encryptField('1990-01-02'),
+      nationalIdEnc: encryptField('123'),
+      phoneEnc: null,
+      update: jest.fn(async (values: any) => Object.assign(beneficiary, values)),
+    };
+    const referral: any = {
+      id: 'ref-1',
+      notesEnc: encryptField('Needs a wheelchair-accessible clinic'),
+      declineReasonEnc: null,
+      update: jest.fn(async (values: any) => Object.assign(referral, values)),
+    };
+    (BeneficiaryReferral.findAll as jest.Mock).mockResolvedValueOnce([referral]);
+    useRotatedKeys();
+
+    (BeneficiaryMatchKey.findAll as jest.Mock).mockResolvedValue([
+      { id: 'k1', keyType: 'nationalId', keyId: null },
+      { id: 'k2', keyType: 'name+dob', keyId: 'v1' },
+    ]);
+    (BeneficiaryMatchKey.findOrCreate as jest.Mock).mockImplementation(async ({ defaults }: any) => [{ ...defaults }, true]);
+
+    const counts = await rotateBeneficiaryKeys(beneficiary, 'v2', {} as any);
+
+    expect(counts).toEqual({ reencryptedFields: 5, rehashedKeys: 2 });
+    expect(beneficiary.firstNameEnc.kid).toBe('v2');
+    expect(decryptField(beneficiary.firstNameEnc)).toBe('Ana');
+    expect(referral.update).toHaveBeenCalledWith({ notesEnc: expect.objectContaining({ kid: 'v2' }) }, expect.anything());
+    expect(decryptField(referral.notesEnc)).toBe('Needs a wheelchair-accessible clinic');
+    expect((BeneficiaryMatchKey.findOrCreate as jest.Mock).mock.calls.map(c => c[0].where)).toEqual([
+      { keyType: 'nationalId', keyHash: hmacSha256('123') },
+      { keyType: 'name+dob', keyHash: hmacSha256('ana berisha|1990-01-02') },
+    ]);
+    expect(BeneficiaryMatchKey.destroy).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-encrypts the condition notes kept in snapshots of merges into other records', async () => {
+    const dropped = { id: 'c-1', icd10CodeId: 'E11', notesEnc: encryptField('Insulin twice daily') };
+    const merge: any = { id: 'm-1', changes: { formResponseIds: ['r-1'], droppedConditions: [dropped] }, update: jest.fn() };
+    (BeneficiaryMerge.findAll as jest.Mock).mockResolvedValueOnce([merge]);
+    (BeneficiaryMatchKey.findAll as jest.Mock).mockResolvedValue([]);
+    useRotatedKeys();
+
+    const counts = await rotateBeneficiaryKeys({ id: 'ben-2', update: jest.fn() } as any, 'v2', {} as any);
+
+    expect(BeneficiaryMerge.findAll).toHaveBeenCalledWith(expect.objectContaining({ where: { mergedId: 'ben-2' } }));
+    expect(counts.reencryptedFields).toBe(1);
+    const { changes } = merge.update.mock.calls[0][0];
+    expect(changes.formResponseIds).toEqual(['r-1']);
+    expect(changes.droppedConditions[0].notesEnc.kid).toBe('v2');
+    expect(decryptField(changes.droppedConditions[0].notesEnc)).toBe('Insulin twice daily');
+  });
+
+  it('re-encrypts households on their own, with or without members', async () => {
+    const household: any = {
+      id: 'h-1',
+      addressEnc: encryptField('Rruga e Dibrës 12'),
+      municipalityEnc: null,
+      update: jest.fn(async (values: any) => Object.assign(household, values)),
+    };
+    useRotatedKeys();
+
+    expect(await rotateHouseholdKeys(household, {} as any)).toBe(1);
+    expect(household.addressEnc.kid).toBe('v2');
+    expect(decryptField(household.addressEnc)).toBe('Rruga e Dibrës 12');
+    expect(await rotateHouseholdKeys(household, {} as any)).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  buildTimeline,
+  changeAssignmentStatus,
+  statusAt,
+  summarizeLifecycle,
+} from '../../services/beneficiaries/lifecycleService';
+import { AuditLog, Beneficiary, BeneficiaryAssignment, BeneficiaryAssignmentStatusChange } from '../../models';
+import { mockRow, mockTransaction } from '../helpers/mockRows';
+
+jest.mock('../../models', () => ({
+  AuditLog: { create: jest.fn() },
+  Beneficiary: { update: jest.fn() },
+  BeneficiaryAssignment: { findOne: jest.fn(), findAll: jest.fn() },
+  BeneficiaryAssignmentStatusChange: { create: jest.fn(async (values: any) => values), findAll: jest.fn() },
+  Subproject: { findAll: jest.fn() },
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+const transaction = mockTransaction();
+
+const makeAssignment = (values: any = {}) =>
+  mockRow({ id: 'a-1', beneficiaryId: 'b-1', entityId: 'p-1', entityType: 'project', lifecycleStatus: 'enrolled', statusEffectiveAt: null }, values);
+
+const d = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('Beneficiary lifecycle', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (BeneficiaryAssignment.findAll as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('timeline', () => {
+    it('replays status changes by effective date', () => {
+      const timeline = buildTimeline(
+        { id: 'a-1', beneficiaryId: 'b-1', lifecycleStatus: 'graduated', createdAt: d('2024-01-10') },
+        [
+          { assignmentId: 'a-1', fromStatus: 'enrolled', toStatus: 'graduated', effectiveAt: d('2024-06-01') },
+          { assignmentId: 'a-1', fromStatus: 'referred', toStatus: 'enrolled', effectiveAt: d('2024-02-01') },
+        ]
+      );
+
+      expect(statusAt(timeline, d('2024-01-01'))).toBeNull();
+      expect(statusAt(timeline, d('2024-01-15'))).toBe('referred');
+      expect(statusAt(timeline, d('2024-03-01'))).toBe('enrolled');
+      expect(statusAt(timeline, d('2024-06-01'))).toBe('graduated');
+    });
+
+    it('treats assignments without history as holding their status since creation', () => {
+      const timeline = buildTimeline({ id: 'a-1', beneficiaryId: 'b-1', lifecycleStatus: 'enrolled', createdAt: d('2024-01-10') }, []);
+
+      expect(statusAt(timeline, d('2024-01-09'))).toBeNull();
+      expect(statusAt(timeline, d('2025-01-01'))).toBe('enrolled');
+    });
+  });
+
+  it('summarizes caseload, funnel and exits counting each beneficiary once', () => {
+    const assignments = [
+      { id: 'a-1', beneficiaryId: 'b-1', lifecycleStatus: 'enrolled' as const, createdAt: d('2023-12-01') },
+      { id: 'a-1s', beneficiaryId: 'b-1', lifecycleStatus: 'enrolled' as const, createdAt: d('2024-01-05') },
+      { id: 'a-2', beneficiaryId: 'b-2', lifecycleStatus: 'exited' as const, createdAt: d('2024-01-01') },
+      { id: 'a-3', beneficiaryId: 'b-3', lifecycleStatus: 'graduated' as const, createdAt: d('2024-02-01') },
+    ];
+    const changes = [
+      { assignmentId: 'a-2', fromStatus: null, toStatus: 'referred' as const, effectiveAt: d('2024-01-01') },
+      { assignmentId: 'a-2', fromStatus: 'referred' as const, toStatus: 'enrolled' as const, effectiveAt: d('2024-01-20') },
+      { assignmentId: 'a-2', fromStatus: 'enrolled' as const, toStatus: 'exited' as const, effectiveAt: d('2024-03-01'), exitReason: 'moved_away' as const },
+      { assignmentId: 'a-3', fromStatus: 'referred' as const, toStatus: 'enrolled' as const, effectiveAt: d('2024-02-10') },
+      { assignmentId: 'a-3', fromStatus: 'enrolled' as const, toStatus: 'graduated' as const, effectiveAt: d('2024-05-01') },
+    ];
+
+    const report = summarizeLifecycle(assignments, changes, { from: d('2024-01-01'), to: d('2024-04-01') });
+
+    expect(report.activeCaseload).toEqual({ atStart: 1, atEnd: 2 });
+    expect(report.byStatus).toEqual(expect.objectContaining({ enrolled: 2, exited: 1, graduated: 0 }));
+    expect(report.funnel).toEqual([
+      { stage: 'referred', count: 2 },
+      { stage: 'enrolled', count: 3 },
+      { stage: 'graduated', count: 0 },
+    ]);
+    expect(report.exits).toEqual({ count: 1, byReason: { moved_away: 1 } });
+  });
+
+  describe('changeAssignmentStatus', () => {
+    it('records the change with its effective date and audits it', async () => {
+      const assignment = makeAssignment();
+      (BeneficiaryAssignment.findOne as jest.Mock).mockResolvedValue(assignment);
+
+      const result = await changeAssignmentStatus('b-1', 'a-1', { status: 'suspended', effectiveAt: '2024-03-01', note: 'Hospitalised' }, 'u-1', transaction);
+
+      expect(result.status).toBe(200);
+      expect(BeneficiaryAssignmentStatusChange.create).toHaveBeenCalledWith(expect.objectContaining({
+        assignmentId: 'a-1', fromStatus: 'enrolled', toStatus: 'suspended', effectiveAt: new Date('2024-03-01'), note: 'Hospitalised', changedBy: 'u-1',
+      }), { transaction });
+      expect(assignment.lifecycleStatus).toBe('suspended');
+      expect((AuditLog.create as jest.Mock).mock.calls[0][0].action).toBe('BENEFICIARY_LIFECYCLE_CHANGE');
+    });
+
+    it('requires an exit reason and rejects changes not allowed from the current status', async () => {
+      (BeneficiaryAssignment.findOne as jest.Mock).mockResolvedValue(makeAssignment({ lifecycleStatus: 'graduated' }));
+
+      expect((await changeAssignmentStatus('b-1', 'a-1', { status: 'exited' }, 'u-1', transaction)).status).toBe(400);
+      expect((await changeAssignmentStatus('b-1', 'a-1', { status: 'suspended' }, 'u-1', transaction)).status).toBe(409);
+      expect((await changeAssignmentStatus('b-1', 'a-1', { status: 'enrolled', effectiveAt: '2999-01-01' }, 'u-1', transaction)).status).toBe(400);
+      expect(BeneficiaryAssignmentStatusChange.create).not.toHaveBeenCalled();
+    });
+
+    it('records a death on every assignment and makes the beneficiary inactive', async () => {
+      (BeneficiaryAssignment.findOne as jest.Mock).mockResolvedValue(makeAssignment());
+      const other = makeAssignment({ id: 'a-2', entityType: 'subproject', lifecycleStatus: 'exited' });
+      (BeneficiaryAssignment.findAll as jest.Mock).mockResolvedValue([other]);
+
+      const result = await changeAssignmentStatus('b-1', 'a-1', { status: 'deceased' }, 'u-1', transaction);
+
+      expect(result.data.alsoChanged).toEqual(['a-2']);
+      expect(other.lifecycleStatus).toBe('deceased');
+      expect(Beneficiary.update).toHaveBeenCalledWith({ status: 'inactive', version: expect.anything() }, { where: { id: 'b-1' }, transaction });
+    });
+  });
+});
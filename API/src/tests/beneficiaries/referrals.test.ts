@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import {
+  changeReferralStatus,
+  createReferral,
+  summarizeReferrals,
+} from '../../services/beneficiaries/referralService';
+import { AuditLog, Beneficiary, BeneficiaryReferral, Project, Service, ServiceDelivery } from '../../models';
+import { decryptField } from '../../utils/crypto';
+import { mockRow, mockTransaction } from '../helpers/mockRows';
+
+jest.mock('../../models', () => ({
+  Activity: { findByPk: jest.fn(), findAll: jest.fn() },
+  AuditLog: { create: jest.fn() },
+  Beneficiary: { findByPk: jest.fn() },
+  BeneficiaryReferral: { create: jest.fn(async (values: any) => values), findOne: jest.fn() },
+  Project: { findByPk: jest.fn() },
+  Service: { count: jest.fn() },
+  ServiceDelivery: { findByPk: jest.fn() },
+  Subproject: { findByPk: jest.fn(), findAll: jest.fn() },
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+const transaction = mockTransaction();
+
+const makeReferral = (values: any = {}) => mockRow({
+  id: 'r-1', beneficiaryId: 'b-1', status: 'sent', serviceIds: ['s-1'], sentAt: new Date('2024-03-01T00:00:00Z'), respondedAt: null,
+}, values);
+
+const d = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('Referrals', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.BENEFICIARY_ENC_KEYS;
+    process.env.BENEFICIARY_ENC_KEY = crypto.randomBytes(32).toString('base64');
+    (Beneficiary.findByPk as jest.Mock).mockResolvedValue({ id: 'b-1', pseudonym: 'B-1', erasedAt: null });
+    (Project.findByPk as jest.Mock).mockResolvedValue({ id: 'p-1' });
+    (Service.count as jest.Mock).mockResolvedValue(1);
+    (BeneficiaryReferral.findOne as jest.Mock).mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('createReferral', () => {
+    it('sends a referral from a project to a partner organization and audits it', async () => {
+      const result = await createReferral('b-1', {
+        from: { type: 'project', entityId: 'p-1' },
+        to: { type: 'organization', organization: ' City Clinic ' },
+        serviceIds: ['s-1', 's-1'],
+      }, 'u-1', transaction);
+
+      expect(result.status).toBe(201);
+      expect(BeneficiaryReferral.create).toHaveBeenCalledWith(expect.objectContaining({
+        fromType: 'project', fromEntityId: 'p-1', toType: 'organization', toOrganization: 'City Clinic', toEntityId: null,
+        serviceIds: ['s-1'], status: 'sent', sentBy: 'u-1',
+      }), { transaction });
+      expect((AuditLog.create as jest.Mock).mock.calls[0][0].action).toBe('BENEFICIARY_REFERRAL_CREATE');
+    });
+
+    it('stores the notes encrypted and returns them decrypted', async () => {
+      const result = await createReferral('b-1', {
+        from: { type: 'project', entityId: 'p-1' },
+        to: { type: 'organization', organization: 'City Clinic' },
+        notes: 'Suspected tuberculosis, needs an X-ray',
+      }, 'u-1', transaction);
+
+      const stored = (BeneficiaryReferral.create as jest.Mock).mock.calls[0][0];
+      expect(stored).not.toHaveProperty('notes');
+      expect(JSON.stringify(stored.notesEnc)).not.toContain('tuberculosis');
+      expect(decryptField(stored.notesEnc)).toBe('Suspected tuberculosis, needs an X-ray');
+      expect(result.data).toEqual(expect.objectContaining({ notes: 'Suspected tuberculosis, needs an X-ray', declineReason: null }));
+    });
+
+    it('rejects referrals between organizations, to their origin or for unknown services', async () => {
+      const clinic = { type: 'organization', organization: 'City Clinic' };
+      const project = { type: 'project', entityId: 'p-1' };
+
+      expect((await createReferral('b-1', { from: clinic, to: { type: 'organization', organization: 'Other' } }, 'u-1', transaction)).status).toBe(400);
+      expect((await createReferral('b-1', { from: project, to: project }, 'u-1', transaction)).status).toBe(400);
+      (Service.count as jest.Mock).mockResolvedValue(0);
+      expect((await createReferral('b-1', { from: project, to: clinic, serviceIds: ['s-9'] }, 'u-1', transaction)).status).toBe(400);
+      (Project.findByPk as jest.Mock).mockResolvedValue(null);
+      expect((await createReferral('b-1', { from: project, to: clinic }, 'u-1', transaction)).status).toBe(404);
+      expect(BeneficiaryReferral.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeReferralStatus', () => {
+    it('completes a referral with the delivery that closed the loop', async () => {
+      const referral = makeReferral();
+      (BeneficiaryReferral.findOne as jest.Mock).mockResolvedValueOnce(referral).mockResolvedValueOnce(null);
+      (ServiceDelivery.findByPk as jest.Mock).mockResolvedValue({ id: 'sd-1', beneficiaryId: 'b-1', serviceId: 's-1', deliveredAt: d('2024-03-05') });
+
+      const result = await changeReferralStatus('b-1', 'r-1', { status: 'completed', serviceDeliveryId: 'sd-1' }, 'u-2', transaction);
+
+      expect(result.status).toBe(200);
+      expect(referral).toEqual(expect.objectContaining({
+        status: 'completed', serviceDeliveryId: 'sd-1', completedAt: d('2024-03-05'), respondedAt: d('2024-03-05'), completedBy: 'u-2',
+      }));
+      expect((AuditLog.create as jest.Mock).mock.calls[0][0].action).toBe('BENEFICIARY_REFERRAL_STATUS');
+    });
+
+    it('rejects deliveries of services that were not requested or made before the referral', async () => {
+      (BeneficiaryReferral.findOne as jest.Mock).mockResolvedValue(makeReferral());
+
+      (ServiceDelivery.findByPk as jest.Mock).mockResolvedValue({ id: 'sd-1', beneficiaryId: 'b-1', serviceId: 's-2', deliveredAt: d('2024-03-05') });
+      expect((await changeReferralStatus('b-1', 'r-1', { status: 'completed', serviceDeliveryId: 'sd-1' }, 'u-2', transaction)).status).toBe(400);
+
+      (ServiceDelivery.findByPk as jest.Mock).mockResolvedValue({ id: 'sd-1', beneficiaryId: 'b-1', serviceId: 's-1', deliveredAt: d('2024-02-01') });
+      expect((await changeReferralStatus('b-1', 'r-1', { status: 'completed', serviceDeliveryId: 'sd-1' }, 'u-2', transaction)).status).toBe(400);
+    });
+
+    it('stores the decline reason encrypted', async () => {
+      const referral = makeReferral();
+      (BeneficiaryReferral.findOne as jest.Mock).mockResolvedValue(referral);
+
+      const result = await changeReferralStatus('b-1', 'r-1', { status: 'declined', declineReason: ' No capacity for HIV care ' }, 'u-2', transaction);
+
+      expect(result.status).toBe(200);
+      expect(referral).not.toHaveProperty('declineReason');
+      expect(decryptField(referral.declineReasonEnc)).toBe('No capacity for HIV care');
+      expect(result.data.declineReason).toBe('No capacity for HIV care');
+    });
+
+    it('does not reopen closed referrals', async () => {
+      const referral = makeReferral({ status: 'declined' });
+      (BeneficiaryReferral.findOne as jest.Mock).mockResolvedValue(referral);
+
+      expect((await changeReferralStatus('b-1', 'r-1', { status: 'accepted' }, 'u-2', transaction)).status).toBe(409);
+      expect(referral.update).not.toHaveBeenCalled();
+    });
+  });
+
+  it('summarizes acceptance, completion and time to completion per destination', () => {
+    const clinic = { toType: 'organization' as const, toEntityId: null, toOrganization: 'City Clinic' };
+    const project = { toType: 'project' as const, toEntityId: 'p-2', toOrganization: null };
+    const summary = summarizeReferrals([
+      { ...clinic, status: 'completed', sentAt: d('2024-03-01'), completedAt: d('2024-03-05'), serviceDeliveryId: 'sd-1' },
+      { ...clinic, status: 'completed', sentAt: d('2024-03-01'), completedAt: d('2024-03-03'), serviceDeliveryId: null },
+      { ...clinic, status: 'declined', sentAt: d('2024-03-02'), completedAt: null, serviceDeliveryId: null },
+      { ...project, status: 'sent', sentAt: d('2024-03-10'), completedAt: null, serviceDeliveryId: null },
+    ]);
+
+    expect(summary.byStatus).toEqual({ sent: 1, accepted: 0, declined: 1, completed: 2 });
+    expect(summary.acceptanceRate).toBe(0.667);
+    expect(summary.completionRate).toBe(0.5);
+    expect(summary.closedWithDelivery).toBe(1);
+    expect(summary.averageDaysToCompletion).toBe(3);
+    expect(summary.byDestination[0]).toEqual(expect.objectContaining({ toOrganization: 'City Clinic', total: 3, completed: 2, completionRate: 0.667 }));
+  });
+});
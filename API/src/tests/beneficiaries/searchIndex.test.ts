@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { Op } from 'sequelize';
+import { buildSearchTerms, buildSearchCondition, refreshSearchTokens } from '../../services/beneficiaries/searchIndexService';
+import { BeneficiarySearchToken } from '../../models';
+import { encryptField, hmacSha256 } from '../../utils/crypto';
+
+jest.mock('../../models', () => ({
+  Beneficiary: { findAll: jest.fn() },
+  BeneficiarySearchToken: { destroy: jest.fn(), bulkCreate: jest.fn() },
+}));
+jest.mock('../../db/connection', () => ({
+  __esModule: true,
+  default: {
+    escape: (value: string) => `'${value.replace(/'/g, "''")}'`,
+    literal: (sql: string) => ({ sql }),
+  },
+}));
+
+const subqueries = (condition: any): string[] =>
+  condition[Op.or][1][Op.and].map((c: any) => c.id[Op.in].sql);
+
+describe('Beneficiary search index', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.BENEFICIARY_ENC_KEYS;
+    delete process.env.BENEFICIARY_HASH_KEYS;
+    process.env.BENEFICIARY_ENC_KEY = crypto.randomBytes(32).toString('base64');
+    process.env.BENEFICIARY_HASH_KEY = 'search-hash-key-0123456789';
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('indexes prefixes of name words, phone digits and national ID', () => {
+    const terms = buildSearchTerms({ firstName: 'Arbër', lastName: 'Krasniqi-Berisha', phone: '+383 44 123', nationalId: '12-345' });
+
+    const byField = (field: string) => terms.filter(t => t.field === field).map(t => t.term);
+    expect(byField('name')).toEqual(expect.arrayContaining(['ar', 'arb', 'arbe', 'arber', 'kr', 'krasniqi', 'be', 'berisha']));
+    expect(byField('name')).not.toContain('a');
+    expect(byField('phone')).toEqual(['441', '4412', '44123']);
+    expect(byField('nationalId')).toEqual(['123', '1234', '12345']);
+    expect(buildSearchTerms({})).toEqual([]);
+  });
+
+  it('replaces stored tokens with hashes of the current PII', async () => {
+    const beneficiary: any = { id: 'b1', firstNameEnc: encryptField('Ana'), lastNameEnc: null, phoneEnc: null, nationalIdEnc: null };
+
+    const count = await refreshSearchTokens(beneficiary, {} as any);
+
+    expect(count).toBe(2);
+    expect(BeneficiarySearchToken.destroy).toHaveBeenCalledWith({ where: { beneficiaryId: 'b1' }, transaction: {} });
+    const rows = (BeneficiarySearchToken.bulkCreate as jest.Mock).mock.calls[0][0];
+    expect(rows.map((r: any) => r.tokenHash)).toEqual([hmacSha256('search:name:an'), hmacSha256('search:name:ana')]);
+    expect(JSON.stringify(rows)).not.toContain('ana');
+  });
+
+  it('matches every search word against the token table and the pseudonym', () => {
+    const condition: any = buildSearchCondition('Arbër Kras');
+
+    expect(condition[Op.or][0]).toEqual({ pseudonym: { [Op.iLike]: '%Arbër Kras%' } });
+    const [first, second] = subqueries(condition);
+    expect(first).toContain(hmacSha256('search:name:arber'));
+    expect(second).toContain(hmacSha256('search:name:kras'));
+    expect(second).toContain(hmacSha256('search:nationalId:kras'));
+  });
+
+  it('treats a spaced phone number as one term', () => {
+    const condition: any = buildSearchCondition('044 123');
+
+    const [only, ...rest] = subqueries(condition);
+    expect(rest).toEqual([]);
+    expect(only).toContain(hmacSha256('search:phone:44123'));
+  });
+
+  it('falls back to the pseudonym for short searches and escapes LIKE wildcards', () => {
+    expect(buildSearchCondition('a_%')).toEqual({ pseudonym: { [Op.iLike]: '%a\\_\\%%' } });
+  });
+});
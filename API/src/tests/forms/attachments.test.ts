@@ -0,0 +1,210 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { downloadAttachment, uploadAttachments } from '../../controllers/forms/attachments';
+import { canAccessFormResponse } from '../../controllers/forms/responses';
+import { sniffAttachmentMimeType } from '../../services/forms/attachmentsService';
+import { getStorage } from '../../services/storage';
+import { AuditLog, FormResponse, FormResponseAttachment } from '../../models';
+
+jest.mock('../../models', () => ({
+  AuditLog: { create: jest.fn() },
+  FormResponse: { findByPk: jest.fn() },
+  FormResponseAttachment: { create: jest.fn(), findByPk: jest.fn(), findAll: jest.fn() },
+  User: { findByPk: jest.fn() },
+}));
+jest.mock('../../db/connection', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn((run: any) => run({})) },
+}));
+jest.mock('../../controllers/forms/responses', () => ({
+  canAccessFormResponse: jest.fn(),
+  getUserRoleNames: jest.fn(async (req: any) => req.userRoles ?? []),
+}));
+jest.mock('../../utils/logger', () => ({
+  createLogger: () => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(64, 1)]);
+const BOUNDARY = 'test-boundary';
+
+type Part = { name: string; filename?: string; type?: string; content: Buffer | string };
+
+const multipart = (parts: Part[], { close = true } = {}) => Buffer.concat([
+  ...parts.map(part => Buffer.concat([
+    Buffer.from(`--${BOUNDARY}\r\nContent-Disposition: form-data; name="${part.name}"`
+      + (part.filename ? `; filename="${part.filename}"\r\nContent-Type: ${part.type}` : '')
+      + '\r\n\r\n'),
+    Buffer.from(part.content),
+    Buffer.from('\r\n'),
+  ])),
+  Buffer.from(close ? `--${BOUNDARY}--\r\n` : ''),
+]);
+
+const uploadRequest = (body: Buffer, params: Record<string, string> = {}) => {
+  const req: any = Readable.from([body]);
+  req.headers = { 'content-type': `multipart/form-data; boundary=${BOUNDARY}`, 'content-length': String(body.length) };
+  req.params = params;
+  req.user = { id: 'u-1' };
+  req.complete = true;
+  return req;
+};
+
+const response = () => {
+  const res: any = new PassThrough();
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  res.setHeader = jest.fn();
+  return res;
+};
+
+const storedFiles = (root: string): string[] => {
+  if (!fs.existsSync(root)) return [];
+  return fs.readdirSync(root, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? storedFiles(path.join(root, entry.name)) : [path.join(root, entry.name)]);
+};
+
+describe('Form attachments', () => {
+  const env = { ...process.env };
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-test-'));
+
+  beforeAll(() => {
+    process.env.UPLOAD_PATH = root;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+    (FormResponseAttachment.create as jest.Mock).mockImplementation(async (values: any) => values);
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    process.env = env;
+  });
+
+  it('recognises accepted file types from their first bytes', () => {
+    expect(sniffAttachmentMimeType(PNG)).toBe('image/png');
+    expect(sniffAttachmentMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]))).toBe('image/jpeg');
+    expect(sniffAttachmentMimeType(Buffer.from('%PDF-1.7\n%âãÏÓ', 'latin1'))).toBe('application/pdf');
+    expect(sniffAttachmentMimeType(Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1'))).toBe('image/webp');
+    expect(sniffAttachmentMimeType(Buffer.from('\x00\x00\x00\x18ftypheic\x00\x00\x00\x00', 'latin1'))).toBe('image/heic');
+    expect(sniffAttachmentMimeType(Buffer.from('<html><script>alert(1)</script>'))).toBeNull();
+    expect(sniffAttachmentMimeType(Buffer.alloc(0))).toBeNull();
+  });
+
+  it('stores files whose content matches an accepted type and rejects disguised ones', async () => {
+    const res = response();
+    await uploadAttachments(uploadRequest(multipart([
+      { name: 'fieldName', content: 'photo' },
+      { name: 'file', filename: 'photo.jpg', type: 'image/jpeg', content: PNG },
+      { name: 'file', filename: 'page.png', type: 'image/png', content: '<html><script>alert(1)</script></html>' },
+    ])), res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    const body = res.json.mock.calls[0][0];
+    expect(body.data).toEqual([expect.objectContaining({ originalName: 'photo.jpg', mimeType: 'image/png', fieldName: 'photo', sizeBytes: PNG.length })]);
+    expect(body.errors).toEqual([{ fileName: 'page.png', reason: 'File content is not of a supported type' }]);
+    expect(storedFiles(root)).toHaveLength(1);
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'FORM_ATTACHMENT_UPLOAD' }), { transaction: {} });
+  });
+
+  it('answers a malformed body with 400 and keeps nothing it stored', async () => {
+    const res = response();
+    const body = multipart([{ name: 'file', filename: 'photo.png', type: 'image/png', content: PNG }], { close: false });
+
+    await uploadAttachments(uploadRequest(body), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].message).toMatch(/^Malformed multipart request/);
+    expect(FormResponseAttachment.create).not.toHaveBeenCalled();
+    expect(storedFiles(root)).toHaveLength(0);
+  });
+
+  it('removes the stored files when the attachments cannot be recorded', async () => {
+    (FormResponseAttachment.create as jest.Mock).mockRejectedValue(new Error('database down'));
+    const res = response();
+
+    await uploadAttachments(uploadRequest(multipart([
+      { name: 'file', filename: 'a.png', type: 'image/png', content: PNG },
+      { name: 'file', filename: 'b.png', type: 'image/png', content: PNG },
+    ])), res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(storedFiles(root)).toHaveLength(0);
+  });
+
+  it('removes the files already stored when storing another one fails', async () => {
+    const storage = getStorage();
+    const put = storage.put.bind(storage);
+    const spy = jest.spyOn(storage, 'put')
+      .mockImplementationOnce(put)
+      .mockImplementationOnce(async () => { throw new Error('disk full'); });
+    const res = response();
+
+    await uploadAttachments(uploadRequest(multipart([
+      { name: 'file', filename: 'a.png', type: 'image/png', content: PNG },
+      { name: 'file', filename: 'b.png', type: 'image/png', content: PNG },
+    ])), res);
+    spy.mockRestore();
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(FormResponseAttachment.create).not.toHaveBeenCalled();
+    expect(storedFiles(root)).toHaveLength(0);
+  });
+
+  it('refuses uploads to responses the user cannot access', async () => {
+    (FormResponse.findByPk as jest.Mock).mockResolvedValue({ id: 'r-1', status: 'draft' });
+    (canAccessFormResponse as jest.Mock).mockResolvedValue(false);
+    const res = response();
+
+    await uploadAttachments(uploadRequest(multipart([{ name: 'file', filename: 'a.png', type: 'image/png', content: PNG }]), { id: 'r-1' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(storedFiles(root)).toHaveLength(0);
+  });
+
+  it('refuses uploads to responses that can no longer be edited', async () => {
+    (canAccessFormResponse as jest.Mock).mockResolvedValue(true);
+    const body = multipart([{ name: 'file', filename: 'a.png', type: 'image/png', content: PNG }]);
+
+    for (const status of ['submitted', 'approved']) {
+      (FormResponse.findByPk as jest.Mock).mockResolvedValue({ id: 'r-1', status });
+      const res = response();
+      await uploadAttachments(uploadRequest(body, { id: 'r-1' }), res);
+      expect(res.status).toHaveBeenCalledWith(409);
+    }
+
+    (FormResponse.findByPk as jest.Mock).mockResolvedValue({ id: 'r-1', status: 'rejected' });
+    const res = response();
+    await uploadAttachments(uploadRequest(body, { id: 'r-1' }), res);
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(FormResponseAttachment.create).toHaveBeenCalledWith(expect.objectContaining({ formResponseId: 'r-1' }), expect.anything());
+  });
+
+  it('streams an attachment to its uploader only while it is unlinked', async () => {
+    const upload = response();
+    await uploadAttachments(uploadRequest(multipart([{ name: 'file', filename: 'a.png', type: 'image/png', content: PNG }])), upload);
+    const stored = (FormResponseAttachment.create as jest.Mock).mock.calls[0][0];
+    (FormResponseAttachment.findByPk as jest.Mock).mockResolvedValue({ ...stored, formResponseId: null });
+
+    const res = response();
+    const chunks: Buffer[] = [];
+    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+    await downloadAttachment({ params: { id: stored.id }, user: { id: 'u-1' }, userRoles: ['Field Operator'] } as any, res);
+    await new Promise(resolve => res.on('end', resolve));
+
+    expect(Buffer.concat(chunks).equals(PNG)).toBe(true);
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'image/png');
+    expect(res.setHeader).toHaveBeenCalledWith('X-Content-Type-Options', 'nosniff');
+
+    const other = response();
+    await downloadAttachment({ params: { id: stored.id }, user: { id: 'u-2' }, userRoles: ['Field Operator'] } as any, other);
+    expect(other.status).toHaveBeenCalledWith(403);
+  });
+});
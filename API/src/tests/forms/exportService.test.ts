@@ -0,0 +1,134 @@
+import {
+  buildExportColumns,
+  mergeVersionFields,
+  escapeCsvValue,
+  toSpssVariableNames,
+  buildSpssHeader,
+  toSpssDataLine,
+  buildSpssFooter,
+  ExportRow,
+} from '../../services/forms/exportService';
+
+describe('Form response export', () => {
+  const fields = [
+    { name: 'age', label: 'Age', type: 'Integer' },
+    { name: 'gender', label: 'Gender', type: 'Dropdown', options: ['female', 'male'] },
+    { name: 'needs', label: 'Needs', type: 'MultiSelect', options: ['food', 'shelter'] },
+    { name: 'consent', label: 'Consent', type: 'Checkbox' },
+    { name: 'household', label: 'Household', type: 'Section', fields: [{ name: 'size', label: 'Size', type: 'Number' }] },
+    { name: 'members', label: 'Members', type: 'RepeatGroup', fields: [{ name: 'name', label: 'Name', type: 'Text' }] },
+    { name: 'location', label: 'Location', type: 'GPS' },
+  ];
+
+  const row: ExportRow = {
+    response: {
+      id: 'resp-1',
+      submittedAt: new Date('2024-03-05T10:00:00Z'),
+      status: 'approved',
+      formTemplateVersion: 2,
+      entityType: 'activity',
+      entityId: 'act-1',
+      latitude: 42.6,
+      longitude: 21.1,
+      beneficiaryId: 'ben-1',
+      data: {
+        age: 34,
+        gender: 'male',
+        needs: ['food', 'shelter'],
+        consent: true,
+        household: { size: 4 },
+        members: [{ name: 'A' }, { name: 'B' }],
+        location: { latitude: 42.66, longitude: 21.16 },
+      },
+    },
+    entityName: 'Food distribution',
+    submitterName: 'Ana Berisha',
+    pseudonym: 'BNF-0001',
+  };
+
+  const valuesByName = (format: 'csv' | 'spss') => {
+    const columns = buildExportColumns(fields, { format });
+    return Object.fromEntries(columns.map(c => [c.name, c.value(row)]));
+  };
+
+  it('flattens response data into CSV columns with dropdown codes', () => {
+    expect(valuesByName('csv')).toMatchObject({
+      response_id: 'resp-1',
+      submitted_at: '2024-03-05T10:00:00.000Z',
+      entity_name: 'Food distribution',
+      beneficiary_pseudonym: 'BNF-0001',
+      age: 34,
+      gender: 'male',
+      gender_code: 2,
+      needs: 'food; shelter',
+      consent: 'yes',
+      'household.size': 4,
+      members: JSON.stringify([{ name: 'A' }, { name: 'B' }]),
+      'location.latitude': 42.66,
+      'location.longitude': 21.16,
+    });
+  });
+
+  it('codes categorical answers for SPSS', () => {
+    const values = valuesByName('spss');
+
+    expect(values).toMatchObject({ gender: 2, needs_1: 1, needs_2: 1, consent: 1, 'members.count': 2 });
+    expect(values).not.toHaveProperty('gender_code');
+  });
+
+  it('uses labels and option texts of the requested locale', () => {
+    const translated = [{
+      ...fields[1],
+      translations: { sq: { label: 'Gjinia', options: { female: 'Femër', male: 'Mashkull' } } },
+    }];
+    const columns = buildExportColumns(translated, { format: 'csv', locale: 'sq' });
+    const gender = columns.find(c => c.name === 'gender')!;
+
+    expect(gender.label).toBe('Gjinia');
+    expect(gender.value(row)).toBe('Mashkull');
+    expect(columns.find(c => c.name === 'gender_code')!.value(row)).toBe(2);
+  });
+
+  it('adds PII columns only when requested', () => {
+    const names = (includePII: boolean) => buildExportColumns(fields, { format: 'csv', includePII }).map(c => c.name);
+
+    expect(names(false)).not.toContain('beneficiary_firstName');
+    expect(names(true)).toContain('beneficiary_firstName');
+  });
+
+  it('exports the fields of every pinned template version', () => {
+    const current = [
+      { name: 'age', label: 'Age in years', type: 'Integer' },
+      { name: 'household', label: 'Household', type: 'Section', fields: [{ name: 'size', label: 'Size', type: 'Number' }] },
+    ];
+    const older = [
+      { name: 'village', label: 'Village', type: 'Text' },
+      { name: 'age', label: 'Age', type: 'Number' },
+      { name: 'household', label: 'Household', type: 'Section', fields: [{ name: 'head', label: 'Head', type: 'Text' }] },
+    ];
+
+    const merged = mergeVersionFields([current, older]);
+    expect(merged.find(f => f.name === 'age')).toBe(current[0]);
+
+    const names = buildExportColumns(merged, { format: 'csv' }).map(c => c.name);
+    expect(names.slice(names.indexOf('age'))).toEqual(['age', 'household.size', 'household.head', 'village']);
+  });
+
+  it('escapes CSV cells and neutralises formulas', () => {
+    expect(escapeCsvValue('a,b')).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('=SUM(A1)')).toBe("'=SUM(A1)");
+    expect(escapeCsvValue(-5)).toBe('-5');
+    expect(escapeCsvValue(null)).toBe('');
+  });
+
+  it('builds SPSS syntax with valid variable names and labels', () => {
+    const columns = buildExportColumns([fields[1]], { format: 'spss' }).filter(c => ['response_id', 'gender'].includes(c.name));
+    const variables = toSpssVariableNames(columns.map(c => c.name));
+
+    expect(toSpssVariableNames(['household.size', '1st', 'a.b', 'a_b'])).toEqual(['household_size', 'v_1st', 'a_b', 'a_b_2']);
+    expect(buildSpssHeader(columns, variables)).toContain('response_id (A2000)\n  gender (F12.4).');
+    expect(toSpssDataLine(columns, ['resp-1', 2])).toBe('"resp-1",2\n');
+    expect(buildSpssFooter(columns, variables)).toContain("VALUE LABELS gender 1 'female' 2 'male'.");
+  });
+});
@@ -0,0 +1,95 @@
+import { validateFieldTypeOptions } from '../../services/forms/fieldTypes';
+import { validateFormResponse } from '../../services/forms/validateFormResponse';
+import { FormTemplate, FormTemplateVersion } from '../../models';
+
+jest.mock('../../models', () => {
+  const FormTemplate = jest.requireActual('../../models/FormTemplate').default;
+  FormTemplate.findByPk = jest.fn();
+  return { FormTemplate, FormTemplateVersion: { findOne: jest.fn() } };
+});
+
+jest.mock('../../utils/logger', () => ({
+  createLogger: () => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+describe('Form field type validation', () => {
+  let templateCount = 0;
+
+  // Each case gets its own template so cached validators do not leak between cases
+  const validate = async (field: any, value: any) => {
+    const templateId = `t-${++templateCount}`;
+    (FormTemplate.findByPk as jest.Mock).mockResolvedValue({ id: templateId, version: 1 });
+    (FormTemplateVersion.findOne as jest.Mock).mockResolvedValue({ schema: { fields: [{ name: 'answer', ...field }] } });
+    return validateFormResponse(templateId, { answer: value });
+  };
+
+  it('checks Decimal precision and bounds', async () => {
+    const field = { type: 'Decimal', precision: 2, min: 0, max: 100 };
+
+    expect((await validate(field, 12.34)).valid).toBe(true);
+    // Float rounding (0.30000000000000004) is not a precision error
+    expect((await validate(field, 0.1 + 0.2)).valid).toBe(true);
+    expect((await validate(field, 12.345)).valid).toBe(false);
+    expect((await validate(field, 100.01)).valid).toBe(false);
+  });
+
+  it('checks Integer bounds', async () => {
+    const field = { type: 'Integer', min: 1, max: 10 };
+
+    expect((await validate(field, 10)).valid).toBe(true);
+    expect((await validate(field, 0)).valid).toBe(false);
+    expect((await validate(field, 2.5)).valid).toBe(false);
+  });
+
+  it('checks GPS coordinates', async () => {
+    const field = { type: 'GPS' };
+
+    expect((await validate(field, { latitude: -1.95, longitude: 30.06, accuracy: 5 })).valid).toBe(true);
+    expect((await validate(field, { latitude: 91, longitude: 30 })).valid).toBe(false);
+    expect((await validate(field, { latitude: 10, longitude: -181 })).valid).toBe(false);
+    expect((await validate(field, { latitude: 10 })).valid).toBe(false);
+    expect((await validate(field, { latitude: 10, longitude: 20, accuracy: -1 })).valid).toBe(false);
+    expect((await validate(field, { latitude: 10, longitude: 20, address: 'Kigali' })).valid).toBe(false);
+  });
+
+  it('checks Phone numbers against the phone pattern', async () => {
+    const field = { type: 'Phone' };
+
+    expect((await validate(field, '+250 788 123 456')).valid).toBe(true);
+    expect((await validate(field, '(0788) 123-456')).valid).toBe(true);
+    expect((await validate(field, '12345')).valid).toBe(false);
+    expect((await validate(field, '0788-CALL-ME')).valid).toBe(false);
+  });
+
+  it('checks Email addresses', async () => {
+    const field = { type: 'Email' };
+
+    expect((await validate(field, 'field.officer@example.org')).valid).toBe(true);
+    expect((await validate(field, 'not-an-email')).valid).toBe(false);
+  });
+
+  it('checks MultiSelect options and selection counts', async () => {
+    const field = { type: 'MultiSelect', options: ['water', 'food', 'shelter'], minSelections: 1, maxSelections: 2 };
+
+    expect((await validate(field, ['water', 'food'])).valid).toBe(true);
+    expect((await validate(field, [])).valid).toBe(false);
+    expect((await validate(field, ['water', 'food', 'shelter'])).valid).toBe(false);
+    expect((await validate(field, ['water', 'water'])).valid).toBe(false);
+    expect((await validate(field, ['cash'])).valid).toBe(false);
+  });
+
+  it('rejects invalid type options when a template is saved', () => {
+    expect(validateFieldTypeOptions({ name: 'tags', type: 'MultiSelect', options: ['a'], maxSelections: -1 }))
+      .toBe("MultiSelect 'tags' maxSelections must be a non-negative integer");
+    expect(validateFieldTypeOptions({ name: 'tags', type: 'MultiSelect' })).toBe("MultiSelect fields must include an 'options' array");
+    expect(validateFieldTypeOptions({ name: 'weight', type: 'Decimal', precision: 11 }))
+      .toBe("Decimal 'weight' precision must be an integer between 0 and 10");
+    expect(validateFieldTypeOptions({ name: 'age', type: 'Integer', min: 1.5 })).toBe("Integer 'age' min must be an integer");
+    expect(validateFieldTypeOptions({ name: 'age', type: 'Integer', min: 10, max: 1 })).toBe("Integer 'age' min cannot be greater than max");
+    expect(validateFieldTypeOptions({ name: 'weight', type: 'Decimal', precision: 2, min: 0.5 })).toBeNull();
+  });
+});
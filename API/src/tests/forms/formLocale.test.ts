@@ -0,0 +1,49 @@
+import { resolveLocale, validateFieldTranslations, localizeFields } from '../../services/forms/formLocale';
+
+describe('Form template locales', () => {
+  const gender = {
+    name: 'gender',
+    label: 'Gender',
+    type: 'Dropdown',
+    options: ['female', 'male'],
+    helpText: 'As stated by the beneficiary',
+    translations: {
+      sq: { label: 'Gjinia', options: { female: 'Femër', male: 'Mashkull' } },
+      sr: { label: 'Pol', helpText: 'Kako je naveo korisnik', options: { female: 'Žensko' } },
+    },
+  };
+
+  it('normalises locale parameters', () => {
+    expect(resolveLocale(undefined)).toEqual({ locale: null });
+    expect(resolveLocale('SQ')).toEqual({ locale: 'sq' });
+    expect(resolveLocale('sr-Latn')).toEqual({ locale: 'sr' });
+    expect(resolveLocale('de').error).toMatch(/locale must be one of/);
+  });
+
+  it('validates translations against supported locales and options', () => {
+    expect(validateFieldTranslations(gender)).toBeNull();
+    expect(validateFieldTranslations({ ...gender, translations: { de: { label: 'Geschlecht' } } }))
+      .toMatch(/unsupported locale 'de'/);
+    expect(validateFieldTranslations({ ...gender, translations: { sq: { options: { other: 'Tjetër' } } } }))
+      .toMatch(/unknown option 'other'/);
+    expect(validateFieldTranslations({ ...gender, helpText: 5 })).toMatch(/helpText must be a string/);
+  });
+
+  it('resolves labels, help texts and option texts with fallbacks', () => {
+    const section = { name: 'household', label: 'Household', type: 'Section', fields: [gender] };
+
+    const [localized] = localizeFields([section], 'sr');
+    const field = localized.fields[0];
+
+    expect(localized.label).toBe('Household');
+    expect(field).toMatchObject({
+      name: 'gender',
+      label: 'Pol',
+      helpText: 'Kako je naveo korisnik',
+      options: ['female', 'male'],
+      optionLabels: { female: 'Žensko', male: 'male' },
+    });
+    expect(field).not.toHaveProperty('translations');
+    expect(localizeFields([gender], 'sq')[0].helpText).toBe('As stated by the beneficiary');
+  });
+});
@@ -0,0 +1,100 @@
+import { applyFieldLogic, evaluateRule, validateFieldLogic } from '../../services/forms/formLogic';
+
+describe('Form conditional logic', () => {
+  const fields = [
+    { name: 'gender', label: 'Gender', type: 'Dropdown', options: ['M', 'F'] },
+    { name: 'age', label: 'Age', type: 'Number' },
+    {
+      name: 'pregnant',
+      label: 'Pregnant',
+      type: 'Checkbox',
+      visibleIf: { all: [{ field: 'gender', op: 'eq', value: 'F' }, { field: 'age', op: 'gte', value: 15, type: 'number' }] },
+    },
+    { name: 'weeks', label: 'Weeks', type: 'Number', required: true, visibleIf: { field: 'pregnant', op: 'eq', value: true } },
+    { name: 'phone', label: 'Phone', type: 'Text', requiredIf: { field: 'age', op: 'lt', value: 18, type: 'number' } },
+  ];
+
+  it('evaluates single conditions and groups', () => {
+    expect(evaluateRule({ field: 'a', op: 'in', value: ['x', 'y'] }, { a: 'y' })).toBe(true);
+    expect(evaluateRule({ field: 'a', op: 'not_exists' }, { a: '' })).toBe(true);
+    expect(evaluateRule({ any: [{ field: 'a', op: 'eq', value: 1 }, { field: 'b', op: 'exists' }] }, { b: 0 })).toBe(true);
+    expect(evaluateRule({ field: 'a', op: 'gt', value: 10, type: 'number' }, { a: '9' })).toBe(false);
+    expect(evaluateRule({ field: 'tags', op: 'eq', value: 'b' }, { tags: ['a', 'b'] })).toBe(true);
+    expect(evaluateRule({ field: 'tags', op: 'nin', value: ['b'] }, { tags: ['a', 'b'] })).toBe(false);
+  });
+
+  it('strips hidden fields and cascades hidden dependencies', () => {
+    const result = applyFieldLogic(fields, { gender: 'M', age: 30, pregnant: true, weeks: 12 });
+
+    expect(result.hidden).toEqual(['pregnant', 'weeks']);
+    expect(result.data).toEqual({ gender: 'M', age: 30 });
+    expect(result.missingRequired).toEqual([]);
+  });
+
+  it('reports required fields only when visible or when requiredIf matches', () => {
+    const result = applyFieldLogic(fields, { gender: 'F', age: 16, pregnant: true });
+
+    expect(result.hidden).toEqual([]);
+    expect(result.missingRequired).toEqual(['weeks', 'phone']);
+  });
+
+  it('applies rules per repeat group item with access to outer fields', () => {
+    const nested = [
+      { name: 'hasMembers', label: 'Has members', type: 'Checkbox' },
+      {
+        name: 'members',
+        label: 'Members',
+        type: 'RepeatGroup',
+        visibleIf: { field: 'hasMembers', op: 'eq', value: true },
+        fields: [
+          { name: 'age', label: 'Age', type: 'Number' },
+          { name: 'school', label: 'School', type: 'Text', required: true, visibleIf: { field: 'age', op: 'lt', value: 18, type: 'number' } },
+        ],
+      },
+    ];
+
+    const result = applyFieldLogic(nested, { hasMembers: true, members: [{ age: 40, school: 'x' }, { age: 10 }] });
+
+    expect(result.data.members).toEqual([{ age: 40 }, { age: 10 }]);
+    expect(result.hidden).toEqual(['members[0].school']);
+    expect(result.missingRequired).toEqual(['members[1].school']);
+    expect(validateFieldLogic(nested)).toBeNull();
+    expect(applyFieldLogic(nested, { hasMembers: false, members: [{ age: 10 }] }).data).toEqual({ hasMembers: false });
+  });
+
+  it('rejects rules referencing unknown fields or invalid ops', () => {
+    expect(validateFieldLogic(fields)).toBeNull();
+    expect(validateFieldLogic([{ name: 'a', visibleIf: { field: 'b', op: 'eq', value: 1 } }])).toContain("unknown field 'b'");
+    expect(validateFieldLogic([{ name: 'a' }, { name: 'b', requiredIf: { field: 'a', op: 'like', value: 1 } }])).toContain('op must be one of');
+  });
+
+  it('rejects visibility rules that depend on later fields', () => {
+    const forward = [
+      { name: 'school', type: 'Text', visibleIf: { field: 'age', op: 'lt', value: 18, type: 'number' } },
+      { name: 'age', type: 'Number' },
+    ];
+    expect(validateFieldLogic(forward)).toBe("Field 'school' visibleIf cannot depend on 'age', which comes after it");
+
+    const nested = [
+      { name: 'members', type: 'RepeatGroup', fields: [{ name: 'school', type: 'Text', visibleIf: { field: 'age', op: 'exists' } }, { name: 'age', type: 'Number' }] },
+    ];
+    expect(validateFieldLogic(nested)).toContain("cannot depend on 'age'");
+
+    // requiredIf does not change visibility, and nested rules may use any field of an enclosing level
+    expect(validateFieldLogic([{ name: 'phone', requiredIf: { field: 'age', op: 'exists' } }, { name: 'age' }])).toBeNull();
+    expect(validateFieldLogic([
+      { name: 'members', type: 'RepeatGroup', fields: [{ name: 'school', visibleIf: { field: 'hasMembers', op: 'eq', value: true } }] },
+      { name: 'hasMembers', type: 'Checkbox' },
+    ])).toBeNull();
+  });
+
+  it('rejects visibility rules that depend on each other in a cycle', () => {
+    const cycle = [
+      { name: 'a', type: 'Checkbox', visibleIf: { field: 'c', op: 'eq', value: true } },
+      { name: 'b', type: 'Checkbox', visibleIf: { field: 'a', op: 'eq', value: true } },
+      { name: 'c', type: 'Checkbox', visibleIf: { any: [{ field: 'b', op: 'eq', value: true }] } },
+    ];
+    expect(validateFieldLogic(cycle)).toBe("Field 'a' visibleIf cannot depend on 'c', which comes after it");
+    expect(validateFieldLogic([{ name: 'a', visibleIf: { field: 'a', op: 'exists' } }])).toContain('cannot depend on itself');
+  });
+});
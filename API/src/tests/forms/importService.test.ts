@@ -0,0 +1,81 @@
+import * as XLSX from 'xlsx';
+import { buildRowData, coerceCellValue, parseImportFile, validateImportMapping } from '../../services/forms/importService';
+
+jest.mock('../../models', () => ({}));
+jest.mock('../../db/connection', () => ({}));
+jest.mock('../../services/beneficiaries/beneficiariesService', () => ({ upsertFromFormResponse: jest.fn() }));
+jest.mock('../../services/forms/validateFormResponse', () => ({ validateFormResponse: jest.fn() }));
+
+jest.mock('../../utils/logger', () => ({
+  createLogger: () => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+describe('Form response import', () => {
+  const fields = [
+    { name: 'age', label: 'Age', type: 'Integer' },
+    { name: 'needs', label: 'Needs', type: 'MultiSelect', options: ['food', 'shelter'] },
+    { name: 'consent', label: 'Consent', type: 'Checkbox' },
+    { name: 'household', label: 'Household', type: 'Section', fields: [{ name: 'size', label: 'Size', type: 'Number' }] },
+    { name: 'members', label: 'Members', type: 'RepeatGroup', fields: [{ name: 'name', label: 'Name', type: 'Text' }] },
+    { name: 'photo', label: 'Photo', type: 'Photo' },
+  ];
+
+  it('parses CSV files into rows keyed by header', () => {
+    const csv = 'Age,Needs,Consent\n34,food;shelter,yes\n,food,no\n';
+    const { headers, rows } = parseImportFile(Buffer.from(csv), 'people.csv');
+
+    expect(headers).toEqual(['Age', 'Needs', 'Consent']);
+    expect(rows).toEqual([
+      { Age: '34', Needs: 'food;shelter', Consent: 'yes' },
+      { Age: null, Needs: 'food', Consent: 'no' },
+    ]);
+  });
+
+  it('parses XLSX files keeping numeric cells', () => {
+    const sheet = XLSX.utils.aoa_to_sheet([['Age', 'Household size'], [41, 5]]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Sheet1');
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    expect(parseImportFile(buffer, 'people.xlsx').rows).toEqual([{ Age: 41, 'Household size': 5 }]);
+  });
+
+  it('coerces cells to field types', () => {
+    expect(coerceCellValue('12', 'Integer')).toEqual({ value: 12 });
+    expect(coerceCellValue('12.5', 'Integer').error).toBeDefined();
+    expect(coerceCellValue('Po', 'Checkbox')).toEqual({ value: true });
+    expect(coerceCellValue('maybe', 'Checkbox').error).toBeDefined();
+    expect(coerceCellValue('42.66, 21.16', 'GPS')).toEqual({ value: { latitude: 42.66, longitude: 21.16 } });
+    expect(coerceCellValue(new Date(2024, 2, 5), 'Date')).toEqual({ value: '2024-03-05' });
+    expect(coerceCellValue('  ', 'Text')).toEqual({});
+  });
+
+  it('builds nested form data from a row and reports cell errors', () => {
+    const columns = { Age: 'age', Needs: 'needs', Size: 'household.size', Consent: 'consent' };
+
+    expect(buildRowData({ Age: '34', Needs: 'food; shelter', Size: 4, Consent: 'no' }, columns, fields)).toEqual({
+      data: { age: 34, needs: ['food', 'shelter'], household: { size: 4 }, consent: false },
+      errors: [],
+    });
+    expect(buildRowData({ Age: 'old' }, columns, fields).errors).toEqual(["Column 'Age': 'old' is not a number"]);
+  });
+
+  it('rejects mappings to unknown, repeated or attachment fields', () => {
+    const errors = validateImportMapping(
+      { columns: { Age: 'age', Missing: 'age', Name: 'members[].name', Photo: 'photo', Other: 'unknown' } },
+      ['Age', 'Name', 'Photo', 'Other'],
+      fields
+    );
+
+    expect(errors).toEqual([
+      "Column 'Missing' not found in file",
+      "Column 'Name': field 'members[].name' (Text) cannot be imported",
+      "Column 'Photo': field 'photo' (Photo) cannot be imported",
+      "Column 'Other': unknown field 'unknown'",
+    ]);
+  });
+});
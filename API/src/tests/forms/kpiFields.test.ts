@@ -0,0 +1,85 @@
+import { Op } from 'sequelize';
+import kpiCalculationService from '../../services/forms/kpiCalculationService';
+import { FormField, FormResponse, FormTemplate, FormTemplateVersion, Kpi } from '../../models';
+
+jest.mock('../../models', () => ({
+  FormResponse: { count: jest.fn() },
+  FormField: { findOne: jest.fn(), create: jest.fn(), findByPk: jest.fn() },
+  FormTemplate: { findAll: jest.fn() },
+  FormTemplateVersion: { findAll: jest.fn() },
+  Kpi: { findByPk: jest.fn() },
+  ServiceDelivery: {},
+  Service: {},
+}));
+
+jest.mock('../../utils/logger', () => ({
+  createLogger: () => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+const countCondition = () => {
+  const { where } = (FormResponse.count as jest.Mock).mock.calls[0][0];
+  const and = where[Op.and] as any[];
+  return and[and.length - 1].val as string;
+};
+
+describe('KPI fields', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (FormTemplate.findAll as jest.Mock).mockResolvedValue([]);
+    (FormTemplateVersion.findAll as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('registers fields inside sections and repeat groups by path', async () => {
+    (FormField.findOne as jest.Mock).mockResolvedValue(null);
+
+    await kpiCalculationService.registerFormFields({
+      schema: {
+        fields: [
+          { name: 'age', type: 'Integer', label: 'Age' },
+          {
+            name: 'household',
+            type: 'Section',
+            fields: [{ name: 'size', type: 'Integer', label: 'Household size' }],
+          },
+          {
+            name: 'members',
+            type: 'RepeatGroup',
+            fields: [{ name: 'age', type: 'Integer' }],
+          },
+        ],
+      },
+    });
+
+    const created = (FormField.create as jest.Mock).mock.calls.map(([values]) => [values.name, values.isKpiField]);
+    expect(created).toEqual([
+      ['age', true],
+      ['household', false],
+      ['household.size', true],
+      ['members', false],
+      ['members[].age', false],
+    ]);
+  });
+
+  it('aggregates a section field by its path', async () => {
+    (Kpi.findByPk as jest.Mock).mockResolvedValue({ id: 'k-1', name: 'Households', calculationType: 'COUNT', fieldId: 'f-1' });
+    (FormField.findByPk as jest.Mock).mockResolvedValue({ id: 'f-1', name: 'household.size' });
+    (FormResponse.count as jest.Mock).mockResolvedValue(4);
+
+    const result = await kpiCalculationService.calculateKpi('k-1', {});
+
+    expect(result.result).toBe(4);
+    expect(countCondition()).toContain(`data #>> '{"household","size"}'`);
+  });
+
+  it('refuses to aggregate a repeat group field', async () => {
+    (Kpi.findByPk as jest.Mock).mockResolvedValue({ id: 'k-1', name: 'Ages', calculationType: 'SUM', fieldId: 'f-2' });
+    (FormField.findByPk as jest.Mock).mockResolvedValue({ id: 'f-2', name: 'members[].age' });
+
+    await expect(kpiCalculationService.calculateKpi('k-1', {})).rejects.toThrow(/cannot be aggregated/);
+    expect(FormResponse.count).not.toHaveBeenCalled();
+  });
+});
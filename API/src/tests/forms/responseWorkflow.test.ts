@@ -0,0 +1,200 @@
+import { getTransitionAction, transitionFormResponse } from '../../services/forms/responseWorkflowService';
+import { submitForReview } from '../../controllers/forms/review';
+import { recordConsentsFromForm, validateFormConsentSignature } from '../../services/beneficiaries/consentService';
+import { AuditLog, FormResponse, ServiceAssignment, ServiceDelivery } from '../../models';
+
+jest.mock('../../models', () => ({
+  FormResponse: { findByPk: jest.fn() },
+  AuditLog: { create: jest.fn() },
+  ServiceAssignment: { findAll: jest.fn() },
+  ServiceDelivery: { create: jest.fn(), destroy: jest.fn() },
+  User: {},
+}));
+jest.mock('../../models/FormEntityAssociation', () => ({ __esModule: true, default: {} }));
+jest.mock('../../db/connection', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn((run: any) => run({ LOCK: { UPDATE: 'UPDATE' } })) },
+}));
+jest.mock('../../services/forms/validateFormResponse', () => ({
+  __esModule: true,
+  default: jest.fn(async (_templateId: string, data: any, version: number) => ({ valid: true, version, data })),
+}));
+jest.mock('../../services/beneficiaries/consentService', () => ({
+  recordConsentsFromForm: jest.fn(),
+  validateFormConsentSignature: jest.fn(async () => null),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  createLogger: () => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+describe('Form response review workflow', () => {
+  const makeResponse = (status: string) => {
+    const response: any = {
+      id: 'resp-1',
+      formTemplateId: 'tpl-1',
+      status,
+      update: jest.fn(async (values: any) => Object.assign(response, values)),
+    };
+    return response;
+  };
+
+  beforeEach(() => {
+    (AuditLog.create as jest.Mock).mockReset();
+  });
+
+  it('allows only the documented transitions', () => {
+    expect(getTransitionAction('draft', 'submitted')).toBe('FORM_RESPONSE_SUBMIT');
+    expect(getTransitionAction('submitted', 'approved')).toBe('FORM_RESPONSE_APPROVE');
+    expect(getTransitionAction('submitted', 'rejected')).toBe('FORM_RESPONSE_REJECT');
+    expect(getTransitionAction('rejected', 'submitted')).toBe('FORM_RESPONSE_RESUBMIT');
+    expect(getTransitionAction('draft', 'approved')).toBeNull();
+    expect(getTransitionAction('approved', 'rejected')).toBeNull();
+    expect(getTransitionAction('rejected', 'approved')).toBeNull();
+  });
+
+  it('records the reviewer, comment and an audit entry on rejection', async () => {
+    const response = makeResponse('submitted');
+
+    const error = await transitionFormResponse(response, 'rejected', { userId: 'reviewer-1', comment: ' Age is missing ' });
+
+    expect(error).toBeNull();
+    expect(response.status).toBe('rejected');
+    expect(response.reviewedBy).toBe('reviewer-1');
+    expect(response.reviewComment).toBe('Age is missing');
+    expect(AuditLog.create).toHaveBeenCalledTimes(1);
+    const entry = (AuditLog.create as jest.Mock).mock.calls[0][0];
+    expect(entry.action).toBe('FORM_RESPONSE_REJECT');
+    expect(JSON.parse(entry.details)).toMatchObject({ responseId: 'resp-1', from: 'submitted', to: 'rejected', comment: 'Age is missing' });
+  });
+
+  it('requires a comment when rejecting', async () => {
+    const response = makeResponse('submitted');
+
+    const error = await transitionFormResponse(response, 'rejected', { userId: 'reviewer-1', comment: '  ' });
+
+    expect(error).toMatch(/comment is required/);
+    expect(response.update).not.toHaveBeenCalled();
+    expect(AuditLog.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects transitions that are not allowed', async () => {
+    const response = makeResponse('approved');
+
+    const error = await transitionFormResponse(response, 'submitted', { userId: 'user-1' });
+
+    expect(error).toBe("Cannot change status from 'approved' to 'submitted'");
+    expect(response.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('Submitting a draft for review', () => {
+  const draft = () => {
+    const response: any = {
+      id: 'resp-1',
+      formTemplateId: 'tpl-1',
+      formTemplateVersion: 2,
+      entityId: 'proj-1',
+      entityType: 'project',
+      beneficiaryId: 'ben-1',
+      submittedBy: 'u-1',
+      data: { consent_data: 'yes' },
+      status: 'draft',
+      update: jest.fn(async (values: any) => Object.assign(response, values)),
+    };
+    return response;
+  };
+
+  const response = () => {
+    const res: any = {};
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    return res;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ServiceAssignment.findAll as jest.Mock).mockResolvedValue([{ get: () => 'svc-1' }]);
+  });
+
+  it('records the consents and services like a direct submission', async () => {
+    const stored = draft();
+    (FormResponse.findByPk as jest.Mock).mockResolvedValue(stored);
+    const res = response();
+
+    await submitForReview({
+      params: { id: 'resp-1' },
+      user: { id: 'u-1' },
+      body: { services: [{ serviceId: 'svc-1', notes: 'Food parcel' }] },
+    } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(stored.status).toBe('submitted');
+    expect(recordConsentsFromForm).toHaveBeenCalledWith('tpl-1', 'ben-1', stored.data, expect.objectContaining({
+      userId: 'u-1',
+      source: 'form',
+      formResponseId: 'resp-1',
+    }));
+    expect(ServiceDelivery.create).toHaveBeenCalledWith(expect.objectContaining({
+      serviceId: 'svc-1',
+      beneficiaryId: 'ben-1',
+      formResponseId: 'resp-1',
+      staffUserId: 'u-1',
+      notes: 'Food parcel',
+    }), expect.anything());
+  });
+
+  it('replaces the deliveries of an earlier submission when a rejected response is resubmitted', async () => {
+    const delivered: any[] = [];
+    (ServiceDelivery.create as jest.Mock).mockImplementation(async (values: any) => delivered.push(values));
+    (ServiceDelivery.destroy as jest.Mock).mockImplementation(async ({ where }: any) => {
+      const kept = delivered.filter(d => d.formResponseId !== where.formResponseId);
+      const removed = delivered.length - kept.length;
+      delivered.splice(0, delivered.length, ...kept);
+      return removed;
+    });
+    const stored = draft();
+    (FormResponse.findByPk as jest.Mock).mockResolvedValue(stored);
+    const body = { services: [{ serviceId: 'svc-1', notes: 'Food parcel' }] };
+
+    await submitForReview({ params: { id: 'resp-1' }, user: { id: 'u-1' }, body } as any, response());
+    stored.status = 'rejected';
+    const res = response();
+    await submitForReview({ params: { id: 'resp-1' }, user: { id: 'u-1' }, body } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(ServiceDelivery.destroy).toHaveBeenLastCalledWith({ where: { formResponseId: 'resp-1' }, transaction: expect.anything() });
+    expect(delivered).toHaveLength(1);
+
+    stored.status = 'rejected';
+    await submitForReview({ params: { id: 'resp-1' }, user: { id: 'u-1' }, body: {} } as any, response());
+    expect(delivered).toHaveLength(1);
+  });
+
+  it('records nothing when the response cannot be submitted', async () => {
+    (FormResponse.findByPk as jest.Mock).mockResolvedValue({ ...draft(), status: 'approved' });
+    const res = response();
+
+    await submitForReview({ params: { id: 'resp-1' }, user: { id: 'u-1' }, body: {} } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(recordConsentsFromForm).not.toHaveBeenCalled();
+  });
+
+  it('rejects a consent signature that is not an attachment of the response', async () => {
+    const stored = draft();
+    (FormResponse.findByPk as jest.Mock).mockResolvedValue(stored);
+    (validateFormConsentSignature as jest.Mock).mockResolvedValueOnce('Signature attachment not found');
+    const res = response();
+
+    await submitForReview({ params: { id: 'resp-1' }, user: { id: 'u-1' }, body: {} } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(stored.status).toBe('draft');
+    expect(recordConsentsFromForm).not.toHaveBeenCalled();
+  });
+});
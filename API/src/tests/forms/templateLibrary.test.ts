@@ -0,0 +1,113 @@
+import { cloneFormTemplate, getBlueprintUpdate, applyBlueprintUpdate } from '../../services/forms/templateLibraryService';
+import { FormTemplate, BeneficiaryMapping } from '../../models';
+import FormEntityAssociation from '../../models/FormEntityAssociation';
+import { snapshotTemplateVersion } from '../../services/forms/templateVersionService';
+
+jest.mock('../../models', () => ({
+  FormTemplate: { create: jest.fn(), findByPk: jest.fn() },
+  BeneficiaryMapping: { findOne: jest.fn(), create: jest.fn() },
+  Project: {},
+  Subproject: {},
+  Activity: {},
+}));
+jest.mock('../../models/FormEntityAssociation', () => ({ __esModule: true, default: { create: jest.fn() } }));
+jest.mock('../../services/forms/kpiCalculationService', () => ({ __esModule: true, default: { registerFormFields: jest.fn() } }));
+jest.mock('../../services/forms/templateVersionService', () => ({
+  snapshotTemplateVersion: jest.fn(),
+  diffTemplateSchemas: jest.requireActual('../../services/forms/templateVersionService').diffTemplateSchemas,
+}));
+
+jest.mock('../../utils/logger', () => ({
+  createLogger: () => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+describe('Form template library', () => {
+  const transaction: any = {};
+  const schemaV1 = { fields: [{ name: 'age', label: 'Age', type: 'Integer' }] };
+  const schemaV2 = { fields: [{ name: 'age', label: 'Age', type: 'Integer' }, { name: 'phone', label: 'Phone', type: 'Phone' }] };
+
+  const source: any = {
+    id: 'bp-1',
+    name: 'Intake',
+    schema: schemaV2,
+    version: 2,
+    includeBeneficiaries: true,
+    entityAssociations: [{ entityId: 'proj-1', entityType: 'project' }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (FormTemplate.create as jest.Mock).mockImplementation(async (values: any) => values);
+  });
+
+  it('clones the schema, mapping and entities and records the origin', async () => {
+    (BeneficiaryMapping.findOne as jest.Mock).mockResolvedValue({ mapping: { fields: { firstName: 'first_name' } } });
+
+    const result = await cloneFormTemplate(source, { name: 'Intake (Mitrovica)', userId: 'user-1', transaction });
+
+    expect(FormTemplate.create).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'Intake (Mitrovica)',
+      schema: schemaV2,
+      version: 1,
+      includeBeneficiaries: true,
+      isBlueprint: false,
+      originTemplateId: 'bp-1',
+      originVersion: 2,
+    }), { transaction });
+    expect(snapshotTemplateVersion).toHaveBeenCalledWith(result.clone, { transaction, userId: 'user-1' });
+    expect(FormEntityAssociation.create).toHaveBeenCalledWith(
+      expect.objectContaining({ formTemplateId: result.clone.id, entityId: 'proj-1', entityType: 'project' }),
+      { transaction }
+    );
+    expect(BeneficiaryMapping.create).toHaveBeenCalledWith(
+      expect.objectContaining({ formTemplateId: result.clone.id, mapping: { fields: { firstName: 'first_name' } } }),
+      { transaction }
+    );
+    expect(result.mappingCopied).toBe(true);
+  });
+
+  it('associates the clone with the given entities only', async () => {
+    const result = await cloneFormTemplate(source, {
+      name: 'Intake copy',
+      entities: [{ id: 'sub-9', type: 'subproject' }],
+      includeBeneficiaryMapping: false,
+      userId: 'user-1',
+      transaction,
+    });
+
+    expect(FormEntityAssociation.create).toHaveBeenCalledTimes(1);
+    expect((FormEntityAssociation.create as jest.Mock).mock.calls[0][0]).toMatchObject({ entityId: 'sub-9', entityType: 'subproject' });
+    expect(BeneficiaryMapping.findOne).not.toHaveBeenCalled();
+    expect(result.mappingCopied).toBe(false);
+  });
+
+  it('offers newer origin versions with a schema diff', async () => {
+    (FormTemplate.findByPk as jest.Mock).mockResolvedValue({ ...source, isBlueprint: true });
+
+    const update = await getBlueprintUpdate({ originTemplateId: 'bp-1', originVersion: 1, schema: schemaV1 } as any);
+
+    expect(update).toMatchObject({ currentVersion: 1, latestVersion: 2, updateAvailable: true });
+    expect(update!.diff.added.map(a => a.path)).toEqual(['phone']);
+    expect(await getBlueprintUpdate({ originTemplateId: null } as any)).toBeNull();
+  });
+
+  it('applies the origin schema as a new version', async () => {
+    const template: any = {
+      id: 'tpl-1',
+      schema: schemaV1,
+      version: 3,
+      originVersion: 1,
+      update: jest.fn(async (values: any) => Object.assign(template, values)),
+    };
+
+    const applied = await applyBlueprintUpdate(template, source, { userId: 'user-1', transaction });
+
+    expect(applied).toEqual({ schemaChanged: true, previousVersion: 3, version: 4, mappingCopied: false });
+    expect(template).toMatchObject({ schema: schemaV2, version: 4, originVersion: 2 });
+    expect(snapshotTemplateVersion).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,109 @@
+import { diffTemplateSchemas, resolveFieldAliases } from '../../services/forms/templateVersionService';
+import { validateFormResponse } from '../../services/forms/validateFormResponse';
+import { FormTemplate, FormTemplateVersion } from '../../models';
+
+jest.mock('../../models', () => ({
+  FormTemplate: { findByPk: jest.fn(), findAll: jest.fn() },
+  FormTemplateVersion: { findAll: jest.fn() },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  createLogger: () => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+describe('Form template version diff', () => {
+  const v1 = {
+    fields: [
+      { name: 'age', label: 'Age', type: 'Number' },
+      { name: 'sex', label: 'Sex', type: 'Dropdown', options: ['M', 'F'] },
+      { name: 'notes', label: 'Notes', type: 'Text' },
+      { name: 'members', label: 'Members', type: 'RepeatGroup', fields: [{ name: 'name', label: 'Name', type: 'Text' }] },
+    ],
+  };
+  const v2 = {
+    fields: [
+      { name: 'age', label: 'Age (years)', type: 'Integer', min: 0 },
+      { name: 'gender', label: 'Sex', type: 'Dropdown', options: ['M', 'F'], renamedFrom: 'sex' },
+      { name: 'phone', label: 'Phone', type: 'Phone' },
+      {
+        name: 'members',
+        label: 'Members',
+        type: 'RepeatGroup',
+        fields: [
+          { name: 'name', label: 'Name', type: 'Text' },
+          { name: 'age', label: 'Age', type: 'Integer' },
+        ],
+      },
+    ],
+  };
+
+  it('reports added, removed, renamed and changed fields by path', () => {
+    const diff = diffTemplateSchemas(v1, v2);
+
+    expect(diff.added.map(a => a.path)).toEqual(['phone', 'members[].age']);
+    expect(diff.removed.map(r => r.path)).toEqual(['notes']);
+    expect(diff.renamed).toEqual([{ from: 'sex', to: 'gender' }]);
+    expect(diff.changed).toEqual([
+      {
+        path: 'age',
+        changes: {
+          label: { from: 'Age', to: 'Age (years)' },
+          type: { from: 'Number', to: 'Integer' },
+          min: { from: undefined, to: 0 },
+        },
+      },
+    ]);
+  });
+
+  it('returns an empty diff for identical schemas', () => {
+    expect(diffTemplateSchemas(v1, v1)).toEqual({ added: [], removed: [], renamed: [], changed: [] });
+  });
+});
+
+describe('Form response version pinning', () => {
+  it('rejects version 0 instead of falling back to the current version', async () => {
+    (FormTemplate.findByPk as jest.Mock).mockResolvedValue({ id: 't-1', version: 3 });
+
+    const result = await validateFormResponse('t-1', { age: 4 }, 0);
+
+    expect(result).toEqual({ valid: false, errors: ['Form template version 0 not found'] });
+  });
+});
+
+describe('Field aliases across template versions', () => {
+  const versions = [
+    { formTemplateId: 't-1', schema: { fields: [{ name: 'gender', type: 'Dropdown', renamedFrom: 'sex' }] } },
+    { formTemplateId: 't-1', schema: { fields: [{ name: 'sex_at_birth', type: 'Dropdown', renamedFrom: 'gender' }] } },
+    { formTemplateId: 't-2', schema: { fields: [{ name: 'gender', type: 'Text', renamedFrom: 'genre' }] } },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (FormTemplateVersion.findAll as jest.Mock).mockImplementation(async ({ where }) =>
+      versions.filter(v => where.formTemplateId.includes(v.formTemplateId)));
+  });
+
+  it('follows renames only within the template that declared them', async () => {
+    (FormTemplate.findAll as jest.Mock).mockResolvedValue([{ id: 't-1', version: 3 }, { id: 't-2', version: 2 }, { id: 't-3', version: 1 }]);
+
+    const aliases = await resolveFieldAliases('sex');
+
+    expect(aliases).toEqual(new Map([['t-1', ['sex', 'gender', 'sex_at_birth']]]));
+  });
+
+  it('only looks at the requested templates and reuses the links of known versions', async () => {
+    (FormTemplate.findAll as jest.Mock).mockResolvedValue([{ id: 't-2', version: 2 }]);
+
+    expect(await resolveFieldAliases('gender', ['t-2'])).toEqual(new Map([['t-2', ['gender', 'genre']]]));
+    expect(FormTemplate.findAll).toHaveBeenCalledWith(expect.objectContaining({ where: { id: ['t-2'] } }));
+    expect(FormTemplateVersion.findAll).not.toHaveBeenCalled();
+
+    (FormTemplate.findAll as jest.Mock).mockResolvedValue([{ id: 't-2', version: 3 }]);
+    await resolveFieldAliases('gender', ['t-2']);
+    expect(FormTemplateVersion.findAll).toHaveBeenCalledTimes(1);
+  });
+});
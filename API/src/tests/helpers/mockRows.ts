@@ -0,0 +1,18 @@
+/**
+ * Stand-ins for model instances and transactions in tests that mock '../../models'
+ */
+
+/** Transaction for services that lock rows with `transaction.LOCK.UPDATE` */
+export const mockTransaction = (extra: Record<string, any> = {}): any => ({ LOCK: { UPDATE: 'UPDATE' }, ...extra });
+
+/**
+ * Row with the given defaults overridden by `values`. `update` assigns the changes, `reload`
+ * resolves to the row and `get(key)` reads a value (the whole row without a key).
+ */
+export const mockRow = (defaults: Record<string, any>, values: Record<string, any> = {}): any => {
+  const row: any = { ...defaults, ...values };
+  row.get = (key?: any) => (typeof key === 'string' ? row[key] : row);
+  row.update = jest.fn(async (changes: any) => Object.assign(row, changes));
+  row.reload = jest.fn(async () => row);
+  return row;
+};
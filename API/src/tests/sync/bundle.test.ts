@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import BetterSqlite3 from 'better-sqlite3';
+import {
+  buildBundleDatabase,
+  bundleSchema,
+  bundleSigningKey,
+  migrationStatements,
+  openBundle,
+  parseDevicePublicKey,
+  schemaHash,
+  sealBundle,
+} from '../../services/sync/bundleService';
+
+jest.mock('../../models', () => {
+  const { DataTypes } = jest.requireActual('sequelize');
+  const model = (table: string, attributes: Record<string, any>) => ({
+    getTableName: () => table,
+    getAttributes: () => ({
+      id: { type: DataTypes.UUID, primaryKey: true },
+      ...attributes,
+      createdAt: { type: DataTypes.DATE },
+      updatedAt: { type: DataTypes.DATE },
+    }),
+  });
+  return {
+    Project: model('projects', { name: { type: DataTypes.STRING }, status: { type: DataTypes.STRING } }),
+    Subproject: model('subprojects', { projectId: { type: DataTypes.UUID } }),
+    Activity: model('activities', { subprojectId: { type: DataTypes.UUID }, reportingFields: { type: DataTypes.JSONB } }),
+    User: model('users', { email: { type: DataTypes.STRING }, password: { type: DataTypes.STRING }, twoFactorSecret: { type: DataTypes.STRING }, lastLogin: { type: DataTypes.DATE } }),
+    ProjectUser: model('project_users', { projectId: { type: DataTypes.UUID }, userId: { type: DataTypes.UUID } }),
+    SubprojectUser: model('subproject_users', { subprojectId: { type: DataTypes.UUID }, userId: { type: DataTypes.UUID } }),
+    FormTemplate: model('form_templates', { schema: { type: DataTypes.JSONB }, includeBeneficiaries: { type: DataTypes.BOOLEAN } }),
+    Service: model('services', { name: { type: DataTypes.STRING } }),
+    ServiceAssignment: model('service_assignments', { serviceId: { type: DataTypes.UUID } }),
+    Beneficiary: model('beneficiaries', {
+      pseudonym: { type: DataTypes.STRING },
+      firstNameEnc: { type: DataTypes.JSONB },
+      version: { type: DataTypes.INTEGER },
+    }),
+  };
+});
+jest.mock('../../models/FormEntityAssociation', () => {
+  const { DataTypes } = jest.requireActual('sequelize');
+  return {
+    __esModule: true,
+    default: {
+      getTableName: () => 'form_entity_associations',
+      getAttributes: () => ({ id: { type: DataTypes.UUID, primaryKey: true }, formTemplateId: { type: DataTypes.UUID } }),
+    },
+  };
+});
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+const rsaKeys = (modulusLength: number) => crypto.generateKeyPairSync('rsa', { modulusLength });
+
+describe('Sync bundle', () => {
+  const env = { ...process.env };
+  const device = rsaKeys(2048);
+  const signing = crypto.generateKeyPairSync('ed25519');
+
+  beforeEach(() => {
+    process.env.SYNC_BUNDLE_SIGNING_KEY = String(signing.privateKey.export({ format: 'pem', type: 'pkcs8' }));
+    delete process.env.SYNC_BUNDLE_SIGNING_KEY_ID;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('generates tables from the models without secrets', () => {
+    const schema = bundleSchema();
+    const users = schema.find(t => t.table === 'users')!;
+    const activities = schema.find(t => t.table === 'activities')!;
+
+    expect(users.columns.map(c => c.name)).toEqual(['id', 'email', 'createdAt', 'updatedAt']);
+    expect(activities.columns).toContainEqual({ name: 'reportingFields', type: 'TEXT', primaryKey: false });
+    expect(schema.find(t => t.table === 'form_templates')!.columns).toContainEqual({ name: 'includeBeneficiaries', type: 'INTEGER', primaryKey: false });
+    expect(schemaHash(schema)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('migrates the hand-written first schema by adding the missing columns', () => {
+    const [migration] = migrationStatements(bundleSchema());
+
+    expect(migration.fromVersion).toBe(1);
+    expect(migration.statements).toContain('ALTER TABLE "beneficiaries" ADD COLUMN "version" INTEGER');
+    expect(migration.statements.some(s => s.includes('"pseudonym"'))).toBe(false);
+  });
+
+  it('builds a versioned database that only the device can open', () => {
+    const database = buildBundleDatabase({
+      projects: [{ id: 'p-1', name: 'Shelter', status: 'active', createdAt: new Date('2024-01-01T00:00:00Z'), updatedAt: new Date('2024-01-02T00:00:00Z') }],
+      users: [{ id: 'u-1', email: 'field@example.org', password: 'hash' }],
+      beneficiaries: [{ id: 'b-1', pseudonym: 'BEN-1', firstNameEnc: { alg: 'aes-256-gcm', iv: 'a', tag: 'b', data: 'c' }, version: 3 }],
+    }, { userId: 'u-1', deviceId: 'android-1', cursor: 'cursor-1' });
+    const signer = bundleSigningKey()!;
+
+    const { bundle, header } = sealBundle(database, device.publicKey, signer, { userId: 'u-1', deviceId: 'android-1', cursor: 'cursor-1', schemaHash: 'h' });
+    expect(bundle.includes(Buffer.from('field@example.org'))).toBe(false);
+    expect(header).toEqual(expect.objectContaining({ schemaVersion: 2, deviceId: 'android-1', cursor: 'cursor-1' }));
+
+    const opened = openBundle(bundle, device.privateKey, signing.publicKey);
+    const db = new BetterSqlite3(opened.database);
+    try {
+      expect(db.pragma('user_version', { simple: true })).toBe(2);
+      expect(db.prepare('SELECT value FROM _bundle_meta WHERE key = ?').get('deviceId')).toEqual({ value: 'android-1' });
+      expect(db.prepare('SELECT * FROM projects').get()).toEqual(expect.objectContaining({ name: 'Shelter', createdAt: '2024-01-01T00:00:00.000Z' }));
+      expect(db.prepare('SELECT * FROM beneficiaries').get()).toEqual(expect.objectContaining({ version: 3, firstNameEnc: expect.stringContaining('aes-256-gcm') }));
+      expect(Object.keys(db.prepare('SELECT * FROM users').get() as any)).not.toContain('password');
+      expect((db.prepare('SELECT COUNT(*) AS n FROM _bundle_migrations WHERE fromVersion = 1').get() as any).n).toBeGreaterThan(0);
+    } finally {
+      db.close();
+    }
+
+    const tampered = Buffer.from(bundle);
+    tampered[tampered.length - 20] ^= 1;
+    expect(() => openBundle(tampered, device.privateKey, signing.publicKey)).toThrow('checksum');
+    expect(() => openBundle(bundle, device.privateKey, crypto.generateKeyPairSync('ed25519').publicKey)).toThrow('signature');
+    expect(() => openBundle(bundle, rsaKeys(2048).privateKey, signing.publicKey)).toThrow();
+  });
+
+  it('accepts only RSA device keys of at least 2048 bits', () => {
+    const pem = String(device.publicKey.export({ format: 'pem', type: 'spki' }));
+
+    expect(parseDevicePublicKey(pem.replace(/\n/g, '\\n'))).not.toBeNull();
+    expect(parseDevicePublicKey(device.publicKey.export({ format: 'der', type: 'spki' }).toString('base64'))).not.toBeNull();
+    expect(parseDevicePublicKey(rsaKeys(1024).publicKey.export({ format: 'pem', type: 'spki' }))).toBeNull();
+    expect(parseDevicePublicKey(signing.publicKey.export({ format: 'pem', type: 'spki' }))).toBeNull();
+    expect(parseDevicePublicKey('not a key')).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { Op } from 'sequelize';
+import {
+  collapseEntries,
+  decodeCursor,
+  encodeCursor,
+  isCursorExpired,
+  readChanges,
+  registerChangeLogHooks,
+} from '../../services/sync/changeLogService';
+import sequelize from '../../db/connection';
+import { ProjectUser, SyncChange } from '../../models';
+
+jest.mock('../../models', () => {
+  const model = () => ({ addHook: jest.fn(), findAll: jest.fn() });
+  const names = [
+    'Activity', 'ActivityUser', 'Beneficiary', 'BeneficiaryAssignment', 'BeneficiaryDetails', 'BeneficiaryMapping',
+    'BeneficiaryMatchKey', 'FormField', 'FormResponse', 'FormTemplate', 'Kpi', 'Permission', 'Project', 'ProjectUser',
+    'Role', 'RolePermission', 'Service', 'ServiceAssignment', 'ServiceDelivery', 'Subproject', 'SubprojectUser',
+    'User', 'UserRole',
+  ];
+  return {
+    ...Object.fromEntries(names.map(name => [name, model()])),
+    SyncChange: { bulkCreate: jest.fn(), destroy: jest.fn(), findAll: jest.fn() },
+  };
+});
+jest.mock('../../models/FormEntityAssociation', () => ({ __esModule: true, default: { addHook: jest.fn(), findAll: jest.fn() } }));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: { query: jest.fn() } }));
+
+const transaction: any = {};
+
+const entry = (seq: number, values: any) => ({ seq: String(seq), txid: '900', projectId: null, userId: null, ...values });
+
+const hook = (model: any, name: string) =>
+  (model.addHook as jest.Mock).mock.calls.find(([hookName]) => hookName === name)[2];
+
+describe('Sync change log', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('round-trips cursors and rejects foreign tokens', () => {
+    const cursor = { seq: '42', pending: ['1001', '1003'], issuedAt: 1_700_000_000_000 };
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    expect(decodeCursor('2024-01-01T00:00:00Z')).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ v: 1, s: '1; DROP TABLE', p: [], t: 1 })).toString('base64url'))).toBeNull();
+    expect(decodeCursor(undefined)).toBeNull();
+  });
+
+  it('expires cursors issued before the retention window', () => {
+    const now = Date.now();
+    expect(isCursorExpired({ seq: '1', pending: [], issuedAt: now - 24 * 3600 * 1000 }, now)).toBe(false);
+    expect(isCursorExpired({ seq: '1', pending: [], issuedAt: now - 90 * 24 * 3600 * 1000 }, now)).toBe(true);
+  });
+
+  it('keeps the last operation per row and revocations per user', () => {
+    const { upserts, tombstones } = collapseEntries([
+      entry(1, { entityType: 'projects', entityId: 'p-1', operation: 'upsert', projectId: 'p-1' }),
+      entry(2, { entityType: 'formTemplates', entityId: 'ft-1', operation: 'upsert' }),
+      entry(3, { entityType: 'formTemplates', entityId: 'ft-1', operation: 'delete' }),
+      entry(4, { entityType: 'projectUsers', entityId: 'pu-1', operation: 'delete', projectId: 'p-1' }),
+      entry(5, { entityType: 'projects', entityId: 'p-1', operation: 'revoke', projectId: 'p-1', userId: 'u-1' }),
+      entry(6, { entityType: 'projects', entityId: 'p-1', operation: 'upsert', projectId: 'p-1' }),
+    ] as any[]);
+
+    expect(upserts).toEqual({ projects: ['p-1'] });
+    expect(tombstones).toEqual([
+      { entityType: 'formTemplates', id: 'ft-1', operation: 'delete', projectId: null },
+      { entityType: 'projectUsers', id: 'pu-1', operation: 'delete', projectId: 'p-1' },
+      { entityType: 'projects', id: 'p-1', operation: 'revoke', projectId: 'p-1', userId: 'u-1' },
+    ]);
+  });
+
+  it('pages after the cursor and picks up transactions that were still running', async () => {
+    (sequelize.query as jest.Mock).mockResolvedValue([{ seq: '60', pending: ['1200'] }]);
+    (SyncChange.findAll as jest.Mock).mockResolvedValue([
+      entry(48, { txid: '1100', entityType: 'services', entityId: 's-1', operation: 'upsert' }),
+      entry(51, { entityType: 'services', entityId: 's-2', operation: 'upsert' }),
+      entry(52, { entityType: 'services', entityId: 's-3', operation: 'upsert' }),
+    ]);
+
+    const page = await readChanges({ seq: '50', pending: ['1100'], issuedAt: 0 }, 2, transaction);
+
+    const { where, limit } = (SyncChange.findAll as jest.Mock).mock.calls[0][0];
+    expect(limit).toBe(3);
+    expect(where[Op.or]).toEqual([{ seq: { [Op.gt]: '50' } }, { txid: { [Op.in]: ['1100'] } }]);
+    expect(page.hasMore).toBe(true);
+    expect(page.upserts).toEqual({ services: ['s-1', 's-2'] });
+    expect(page.cursor).toEqual(expect.objectContaining({ seq: '51', pending: ['1200'] }));
+
+    (SyncChange.findAll as jest.Mock).mockResolvedValue([entry(52, { entityType: 'services', entityId: 's-3', operation: 'upsert' })]);
+    const last = await readChanges(page.cursor, 2, transaction);
+    expect(last.hasMore).toBe(false);
+    expect(last.cursor.seq).toBe('60');
+  });
+
+  it('logs removed memberships as a delete and a revocation for the user', async () => {
+    registerChangeLogHooks();
+    const beforeBulkDestroy = hook(ProjectUser, 'beforeBulkDestroy');
+    const afterBulkDestroy = hook(ProjectUser, 'afterBulkDestroy');
+    (ProjectUser.findAll as jest.Mock).mockResolvedValue([{ id: 'pu-1', projectId: 'p-1', userId: 'u-1' }]);
+
+    const options = { where: { projectId: 'p-1', userId: 'u-1' }, transaction };
+    await beforeBulkDestroy(options);
+    await afterBulkDestroy(options);
+
+    expect(ProjectUser.findAll).toHaveBeenCalledWith(expect.objectContaining({ where: options.where, transaction, raw: true }));
+    expect(SyncChange.bulkCreate).toHaveBeenCalledWith([
+      { entityType: 'projectUsers', entityId: 'pu-1', operation: 'delete', projectId: 'p-1', userId: null },
+      { entityType: 'projects', entityId: 'p-1', operation: 'revoke', projectId: 'p-1', userId: 'u-1' },
+    ], { transaction });
+  });
+});
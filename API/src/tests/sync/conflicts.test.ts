@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { applyBeneficiaryChange, resolveSyncConflict } from '../../services/sync/conflictService';
+import { AuditLog, Beneficiary, BeneficiaryDetails, SyncConflict } from '../../models';
+import beneficiariesService from '../../services/beneficiaries/beneficiariesService';
+import { decryptField, encryptField } from '../../utils/crypto';
+import { mockRow, mockTransaction } from '../helpers/mockRows';
+
+jest.mock('../../models', () => ({
+  AuditLog: { create: jest.fn() },
+  Beneficiary: { findByPk: jest.fn() },
+  BeneficiaryDetails: { create: jest.fn(async (values: any) => ({ ...values, version: 0 })), findOne: jest.fn() },
+  SyncConflict: { create: jest.fn(async (values: any) => ({ ...values, get: () => undefined })), findByPk: jest.fn() },
+  User: {},
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+jest.mock('../../services/beneficiaries/beneficiariesService', () => ({
+  __esModule: true,
+  default: { updateBeneficiary: jest.fn(async (id: string) => ({ id, version: 8 })) },
+}));
+
+const transaction = mockTransaction();
+
+const makeBeneficiary = (values: any = {}) => ({
+  id: 'b-1',
+  pseudonym: 'B-1',
+  status: 'active',
+  version: 7,
+  erasedAt: null,
+  firstNameEnc: encryptField('Arben'),
+  phoneEnc: encryptField('+38344111222'),
+  addressEnc: encryptField('Rruga A 1'),
+  ...values,
+});
+
+const makeDetails = (details: any, version = 3) => {
+  const row = mockRow({ beneficiaryId: 'b-1', details, version });
+  row.update = jest.fn(async (changes: any) => Object.assign(row, changes, { version: row.version + 1 }));
+  return row;
+};
+
+const change = (values: any) => ({ pushedBy: 'u-1', deviceId: 'android-xyz', clientMutationId: 'm-1', ...values });
+
+describe('Sync conflicts', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.BENEFICIARY_ENC_KEYS;
+    process.env.BENEFICIARY_ENC_KEY = crypto.randomBytes(32).toString('base64');
+    (Beneficiary.findByPk as jest.Mock).mockResolvedValue(makeBeneficiary());
+    (BeneficiaryDetails.findOne as jest.Mock).mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('applyBeneficiaryChange', () => {
+    it('applies edits without a base version as before', async () => {
+      const result = await applyBeneficiaryChange('b-1', change({ data: { phone: '+38344999888', address: 'Rruga B 2' } }), transaction);
+
+      expect(result.data).toEqual(expect.objectContaining({ applied: ['address', 'phone'], conflict: null, version: 8 }));
+      expect(beneficiariesService.updateBeneficiary).toHaveBeenCalledWith('b-1', { address: 'Rruga B 2', phone: '+38344999888' }, { transaction, userId: 'u-1' });
+      expect(SyncConflict.create).not.toHaveBeenCalled();
+    });
+
+    it('merges fields the server did not change since the base and holds the others', async () => {
+      const result = await applyBeneficiaryChange('b-1', change({
+        baseVersion: 5,
+        base: { firstName: 'Arben', phone: '+38344000000' },
+        data: { firstName: 'Arbeni', phone: '+38344999888' },
+      }), transaction);
+
+      expect(result.data!.applied).toEqual(['firstName']);
+      expect(beneficiariesService.updateBeneficiary).toHaveBeenCalledWith('b-1', { firstName: 'Arbeni' }, expect.anything());
+      expect(result.data!.conflict!.values).toEqual([{ field: 'phone', base: '+38344000000', client: '+38344999888', server: '+38344111222' }]);
+
+      const stored = (SyncConflict.create as jest.Mock).mock.calls[0][0];
+      expect(stored).toEqual(expect.objectContaining({ beneficiaryId: 'b-1', fields: ['phone'], baseVersion: 5, serverVersion: 7, status: 'open' }));
+      expect(JSON.parse(decryptField(stored.valuesEnc)!).client).toEqual({ phone: '+38344999888' });
+    });
+
+    it('holds every edited field of a newer row when no base values are sent', async () => {
+      const result = await applyBeneficiaryChange('b-1', change({
+        baseVersion: 5,
+        data: { firstName: 'Arbeni', phone: '+38344111222' },
+      }), transaction);
+
+      // The phone already has the pushed value, so only the name conflicts
+      expect(result.data!.applied).toEqual([]);
+      expect(result.data!.conflict!.fields).toEqual(['firstName']);
+      expect(beneficiariesService.updateBeneficiary).not.toHaveBeenCalled();
+    });
+
+    it('versions the details separately and ignores derived keys', async () => {
+      const details = makeDetails({ maritalStatus: 'single', chronicConditionCodes: ['E11'] });
+      (BeneficiaryDetails.findOne as jest.Mock).mockResolvedValue(details);
+
+      const result = await applyBeneficiaryChange('b-1', change({
+        baseVersion: 7,
+        detailsBaseVersion: 2,
+        base: { details: { maritalStatus: 'single' } },
+        data: { details: { maritalStatus: 'married', occupation: 'Teacher', chronicConditionCodes: [] } },
+      }), transaction);
+
+      expect(result.data).toEqual(expect.objectContaining({ applied: ['details.maritalStatus', 'details.occupation'], conflict: null, detailsVersion: 4 }));
+      expect(details.update).toHaveBeenCalledWith({
+        details: { maritalStatus: 'married', occupation: 'Teacher', chronicConditionCodes: ['E11'] },
+      }, { transaction });
+    });
+  });
+
+  describe('resolveSyncConflict', () => {
+    const makeConflict = (values: any = {}) => mockRow({
+      id: 'sc-1',
+      beneficiaryId: 'b-1',
+      fields: ['phone', 'address'],
+      status: 'open',
+      valuesEnc: encryptField(JSON.stringify({
+        base: {}, client: { phone: '+38344999888', address: 'Rruga B 2' }, server: { phone: '+38344111222', address: 'Rruga A 1' },
+      })),
+    }, values);
+
+    it('applies the picked and merged values and audits the resolution', async () => {
+      const conflict = makeConflict();
+      (SyncConflict.findByPk as jest.Mock).mockResolvedValue(conflict);
+
+      const result = await resolveSyncConflict('sc-1', { phone: 'client', address: { value: 'Rruga A 1, hyrja 2' } }, 'u-9', transaction);
+
+      expect(result.status).toBe(200);
+      expect(beneficiariesService.updateBeneficiary).toHaveBeenCalledWith('b-1', { phone: '+38344999888', address: 'Rruga A 1, hyrja 2' }, { transaction, userId: 'u-9' });
+      expect(conflict).toEqual(expect.objectContaining({ status: 'resolved', resolution: { phone: 'client', address: 'custom' }, resolvedBy: 'u-9' }));
+      const audit = (AuditLog.create as jest.Mock).mock.calls[0][0];
+      expect(audit.action).toBe('SYNC_CONFLICT_RESOLVE');
+      expect(audit.details).not.toContain('Rruga');
+    });
+
+    it('needs a choice for every conflicting field and resolves only once', async () => {
+      (SyncConflict.findByPk as jest.Mock).mockResolvedValue(makeConflict());
+      expect((await resolveSyncConflict('sc-1', { phone: 'server' }, 'u-9', transaction)).status).toBe(400);
+      expect((await resolveSyncConflict('sc-1', { phone: 'server', address: 'server', email: 'client' }, 'u-9', transaction)).status).toBe(400);
+
+      (SyncConflict.findByPk as jest.Mock).mockResolvedValue(makeConflict({ status: 'resolved' }));
+      expect((await resolveSyncConflict('sc-1', { phone: 'server', address: 'server' }, 'u-9', transaction)).status).toBe(409);
+      expect(beneficiariesService.updateBeneficiary).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import {
+  acknowledgeWipe,
+  pinDevicePublicKey,
+  publicKeyFingerprint,
+  rekeyDevice,
+  revokeDevice,
+  touchDevice,
+} from '../../services/sync/deviceService';
+import { trackSyncDevice } from '../../middlewares/syncDevice';
+import { AuditLog, SyncDevice, SyncDeviceEvent } from '../../models';
+import { mockRow, mockTransaction } from '../helpers/mockRows';
+
+jest.mock('../../models', () => ({
+  AuditLog: { create: jest.fn() },
+  SyncDevice: { findAll: jest.fn(), findOrCreate: jest.fn(), findByPk: jest.fn(), findOne: jest.fn(), update: jest.fn(), count: jest.fn() },
+  SyncDeviceEvent: { create: jest.fn(), destroy: jest.fn() },
+  User: {},
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+const transaction = mockTransaction();
+
+const device = (values: any) =>
+  mockRow({ id: 'sd-1', userId: 'u-1', deviceId: 'tablet-7', status: 'active', appVersion: '2.3.0' }, values);
+
+const request = (headers: Record<string, string>, body: any = {}) => ({
+  header: (name: string) => headers[name.toLowerCase()],
+  body,
+  ip: '10.0.0.5',
+  socket: {},
+  user: { id: 'u-1' },
+});
+
+const response = () => {
+  const res: any = new EventEmitter();
+  res.locals = {};
+  res.statusCode = 200;
+  res.writableFinished = false;
+  res.setHeader = jest.fn();
+  res.status = jest.fn((code: number) => { res.statusCode = code; return res; });
+  res.json = jest.fn(() => res);
+  return res;
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Sync device registry', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.SYNC_DEVICE_REQUIRED;
+    (SyncDeviceEvent.create as jest.Mock).mockImplementation(async (values: any) => ({ ...values, createdAt: new Date() }));
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('registers a new device under a revoked device id as revoked', async () => {
+    const revokedAt = new Date('2024-05-01T00:00:00Z');
+    (SyncDevice.findAll as jest.Mock).mockResolvedValue([
+      device({ id: 'sd-0', userId: 'u-0', status: 'revoked', revokedAt, revokedBy: 'admin-1', revokeReason: 'Stolen' }),
+    ]);
+    (SyncDevice.findOrCreate as jest.Mock).mockImplementation(async ({ defaults }) => [device({ id: 'sd-2', ...defaults }), true]);
+
+    const registered = await touchDevice('u-1', 'tablet-7', { model: ' SM-T505 ', appVersion: '2.4.0' }, '10.0.0.5');
+
+    expect(SyncDevice.findOrCreate).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'u-1', deviceId: 'tablet-7' } }));
+    expect(registered).toEqual(expect.objectContaining({
+      model: 'SM-T505',
+      appVersion: '2.4.0',
+      lastIp: '10.0.0.5',
+      status: 'revoked',
+      revokedAt,
+      revokeReason: 'Stolen',
+    }));
+  });
+
+  it('refuses a revoked device with a wipe instruction and records the refusal', async () => {
+    (SyncDevice.findAll as jest.Mock).mockResolvedValue([device({ status: 'revoked' })]);
+    const req = request({ 'x-device-id': 'tablet-7', 'x-app-version': '2.4.0' });
+    const res = response();
+    const next = jest.fn();
+
+    await trackSyncDevice('pull')(req as any, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.setHeader).toHaveBeenCalledWith('X-Device-Wipe', 'true');
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: false, code: 'DEVICE_REVOKED', wipe: true }));
+    expect(SyncDeviceEvent.create).toHaveBeenCalledWith(expect.objectContaining({
+      syncDeviceId: 'sd-1',
+      operation: 'pull',
+      outcome: 'refused',
+      statusCode: 403,
+      appVersion: '2.4.0',
+    }), expect.anything());
+  });
+
+  it('records the sync of an active device once the response is sent', async () => {
+    const active = device({});
+    (SyncDevice.findAll as jest.Mock).mockResolvedValue([active]);
+    const req = request({}, { deviceId: 'tablet-7', changes: [] });
+    const res = response();
+    const next = jest.fn();
+
+    await trackSyncDevice('push')(req as any, res, next);
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.syncDevice).toBe(active);
+    expect(SyncDeviceEvent.create).not.toHaveBeenCalled();
+
+    res.writableFinished = true;
+    res.emit('close');
+    await flush();
+
+    expect(SyncDeviceEvent.create).toHaveBeenCalledWith(expect.objectContaining({ operation: 'push', outcome: 'success', statusCode: 200, ip: '10.0.0.5' }), expect.anything());
+    expect(active.update).toHaveBeenLastCalledWith({ lastSyncAt: expect.any(Date) }, expect.anything());
+  });
+
+  it('requires a device id unless disabled for users without a registered device', async () => {
+    const call = async () => {
+      const res = response();
+      const next = jest.fn();
+      await trackSyncDevice('pull')(request({}) as any, res, next);
+      return { status: res.statusCode, next: next.mock.calls.length > 0 };
+    };
+
+    expect(await call()).toEqual({ status: 428, next: false });
+
+    process.env.SYNC_DEVICE_REQUIRED = 'false';
+    (SyncDevice.count as jest.Mock).mockResolvedValue(0);
+    expect(await call()).toEqual({ status: 200, next: true });
+    expect(SyncDevice.findAll).not.toHaveBeenCalled();
+
+    (SyncDevice.count as jest.Mock).mockResolvedValue(1);
+    expect(await call()).toEqual({ status: 428, next: false });
+    expect(SyncDevice.count).toHaveBeenLastCalledWith({ where: { userId: 'u-1' } });
+  });
+
+  it('revokes every registration of the device id and audits it', async () => {
+    (SyncDevice.findByPk as jest.Mock).mockResolvedValue(device({}));
+    (SyncDevice.update as jest.Mock).mockResolvedValue([2]);
+
+    const result = await revokeDevice('sd-1', 'Lost in the field', 'admin-1', transaction);
+
+    expect(result.success).toBe(true);
+    expect(SyncDevice.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'revoked', revokedBy: 'admin-1', revokeReason: 'Lost in the field' }),
+      { where: { deviceId: 'tablet-7', status: 'active' }, transaction }
+    );
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ userId: 'admin-1', action: 'SYNC_DEVICE_REVOKE' }), { transaction });
+
+    (SyncDevice.findByPk as jest.Mock).mockResolvedValue(device({ status: 'revoked' }));
+    expect(await revokeDevice('sd-1', null, 'admin-1', transaction)).toEqual(expect.objectContaining({ success: false, status: 409 }));
+  });
+
+  it('pins the first bundle key on the device id and refuses another one', async () => {
+    const { publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const { publicKey: otherKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const fingerprint = publicKeyFingerprint(publicKey);
+    const registered = device({ publicKeyFingerprint: null });
+    registered.reload.mockImplementation(async () => Object.assign(registered, { publicKeyFingerprint: fingerprint }));
+    (SyncDevice.update as jest.Mock).mockResolvedValue([2]);
+
+    expect(await pinDevicePublicKey(registered, publicKey)).toBe(true);
+    expect(SyncDevice.update).toHaveBeenCalledWith(
+      { publicKeyFingerprint: fingerprint, publicKeyPinnedAt: expect.any(Date) },
+      { where: { deviceId: 'tablet-7', publicKeyFingerprint: null } }
+    );
+
+    expect(await pinDevicePublicKey(registered, publicKey)).toBe(true);
+    expect(await pinDevicePublicKey(registered, otherKey)).toBe(false);
+    expect(SyncDevice.update).toHaveBeenCalledTimes(1);
+
+    // Another account signing in on the device inherits the pinned key
+    (SyncDevice.findAll as jest.Mock).mockResolvedValue([registered]);
+    (SyncDevice.findOrCreate as jest.Mock).mockImplementation(async ({ defaults }) => [device({ id: 'sd-2', userId: 'u-2', ...defaults }), true]);
+    const second = await touchDevice('u-2', 'tablet-7', {}, null);
+    expect(await pinDevicePublicKey(second, otherKey)).toBe(false);
+  });
+
+  it('re-keys every registration of the device id and audits it', async () => {
+    const keyed = device({ publicKeyFingerprint: 'abc' });
+    keyed.reload.mockImplementation(async () => Object.assign(keyed, { publicKeyFingerprint: null, publicKeyPinnedAt: null }));
+    (SyncDevice.findByPk as jest.Mock).mockResolvedValue(keyed);
+
+    const result = await rekeyDevice('sd-1', 'admin-1', transaction);
+
+    expect(result.data).toEqual(expect.objectContaining({ publicKeyFingerprint: null }));
+    expect(SyncDevice.update).toHaveBeenCalledWith(
+      { publicKeyFingerprint: null, publicKeyPinnedAt: null },
+      { where: { deviceId: 'tablet-7' }, transaction }
+    );
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ userId: 'admin-1', action: 'SYNC_DEVICE_REKEY' }), { transaction });
+
+    expect(await rekeyDevice('sd-1', 'admin-1', transaction)).toEqual(expect.objectContaining({ success: false, status: 409 }));
+  });
+
+  it('records the wipe confirmation of a revoked device once', async () => {
+    const revoked = device({ status: 'revoked' });
+    (SyncDevice.findOne as jest.Mock).mockResolvedValue(revoked);
+
+    const result = await acknowledgeWipe('u-1', 'tablet-7', '10.0.0.5', transaction);
+
+    expect(result.data).toEqual(expect.objectContaining({ status: 'revoked', wipedAt: expect.any(Date) }));
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'SYNC_DEVICE_WIPE' }), { transaction });
+    expect(SyncDeviceEvent.create).toHaveBeenCalledWith(expect.objectContaining({ operation: 'wipe', outcome: 'success' }), { transaction });
+    expect(revoked.update).not.toHaveBeenCalledWith({ lastSyncAt: expect.any(Date) }, expect.anything());
+
+    await acknowledgeWipe('u-1', 'tablet-7', '10.0.0.5', transaction);
+    expect(AuditLog.create).toHaveBeenCalledTimes(1);
+
+    (SyncDevice.findOne as jest.Mock).mockResolvedValue(device({}));
+    expect(await acknowledgeWipe('u-1', 'tablet-7', null, transaction)).toEqual(expect.objectContaining({ success: false, status: 409 }));
+  });
+});
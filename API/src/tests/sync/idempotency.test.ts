@@ -0,0 +1,75 @@
+import {
+  findIdempotentResult,
+  hashRequest,
+  isDuplicateKeyError,
+  purgeExpiredIdempotencyKeys,
+  recordIdempotentResult,
+  resolveDeviceId,
+} from '../../services/sync/idempotencyService';
+import { SyncIdempotencyKey } from '../../models';
+
+jest.mock('../../models', () => ({
+  SyncIdempotencyKey: { create: jest.fn(), destroy: jest.fn(), findOne: jest.fn() },
+}));
+jest.mock('../../db/connection', () => ({ __esModule: true, default: {} }));
+
+const transaction: any = {};
+
+const key = { scope: 'upload' as const, userId: 'u-1', deviceId: 'android-xyz', clientId: 'local-uuid-123' };
+
+const survey = { clientRequestId: 'local-uuid-123', formId: 'f-1', answers: { a: 1, b: [1, 2] } };
+
+const applied = { clientRequestId: 'local-uuid-123', serverSurveyId: 'fr-1', manifestId: 'manifest-1', status: 'applied' };
+
+describe('Sync idempotency', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('hashes payloads independently of key order', () => {
+    expect(hashRequest({ formId: 'f-1', answers: { b: [1, 2], a: 1 }, clientRequestId: 'local-uuid-123' })).toBe(hashRequest(survey));
+    expect(hashRequest({ ...survey, answers: { a: 2, b: [1, 2] } })).not.toBe(hashRequest(survey));
+    expect(hashRequest({ ...survey, answers: { a: 1, b: [2, 1] } })).not.toBe(hashRequest(survey));
+  });
+
+  it('takes the first device id given', () => {
+    expect(resolveDeviceId(undefined, '  ', ' android-xyz ', 'ios-1')).toBe('android-xyz');
+    expect(resolveDeviceId(undefined, null)).toBe('');
+  });
+
+  it('records the result with its expiry in the applying transaction', async () => {
+    const result = await recordIdempotentResult(key, hashRequest(survey), applied, transaction);
+
+    expect(result).toBe(applied);
+    const [values, options] = (SyncIdempotencyKey.create as jest.Mock).mock.calls[0];
+    expect(values).toEqual(expect.objectContaining({ ...key, requestHash: hashRequest(survey), result: applied }));
+    expect(values.expiresAt.getTime() - Date.now()).toBeGreaterThan(719 * 3600 * 1000);
+    expect(options).toEqual({ transaction });
+  });
+
+  it('replays the stored result for the same payload and refuses a different one', async () => {
+    (SyncIdempotencyKey.findOne as jest.Mock).mockResolvedValue({
+      requestHash: hashRequest(survey), result: applied, expiresAt: new Date(Date.now() + 3600 * 1000),
+    });
+
+    expect(await findIdempotentResult(key, hashRequest(survey))).toEqual({ state: 'replay', result: { ...applied, replayed: true } });
+    expect(await findIdempotentResult(key, hashRequest({ ...survey, formId: 'f-2' }))).toEqual({ state: 'conflict' });
+    expect((SyncIdempotencyKey.findOne as jest.Mock).mock.calls[0][0].where).toEqual(key);
+  });
+
+  it('treats expired entries as new and removes them', async () => {
+    const entry = { requestHash: hashRequest(survey), result: applied, expiresAt: new Date(Date.now() - 1000), destroy: jest.fn() };
+    (SyncIdempotencyKey.findOne as jest.Mock).mockResolvedValue(entry);
+
+    expect(await findIdempotentResult(key, hashRequest(survey))).toEqual({ state: 'new' });
+    expect(entry.destroy).toHaveBeenCalled();
+
+    (SyncIdempotencyKey.destroy as jest.Mock).mockResolvedValue(3);
+    expect(await purgeExpiredIdempotencyKeys()).toBe(3);
+  });
+
+  it('recognizes the unique violation of a concurrent retry', () => {
+    expect(isDuplicateKeyError({ name: 'SequelizeUniqueConstraintError' })).toBe(true);
+    expect(isDuplicateKeyError(new Error('Validation failed'))).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+import syncController from '../../controllers/sync';
+import { Beneficiary, BeneficiaryConsent, User } from '../../models';
+import { buildBundleDatabase } from '../../services/sync/bundleService';
+import { readChanges, syncEntityModel } from '../../services/sync/changeLogService';
+import { pinDevicePublicKey } from '../../services/sync/deviceService';
+
+jest.mock('../../models', () => {
+  const model = () => ({ findAll: jest.fn().mockResolvedValue([]), addHook: jest.fn() });
+  const names = [
+    'User', 'Project', 'Subproject', 'Activity', 'FormTemplate', 'Service', 'ServiceAssignment', 'ProjectUser',
+    'SubprojectUser', 'Beneficiary', 'FormResponse', 'ServiceDelivery', 'AuditLog', 'ActivityUser', 'Role',
+    'Permission', 'RolePermission', 'UserRole', 'FormField', 'Kpi', 'BeneficiaryDetails', 'BeneficiaryAssignment',
+    'BeneficiaryMapping', 'BeneficiaryMatchKey', 'BeneficiaryConsent',
+  ];
+  return Object.fromEntries(names.map(name => [name, model()]));
+});
+jest.mock('../../models/FormEntityAssociation', () => ({ __esModule: true, default: { findAll: jest.fn().mockResolvedValue([]) } }));
+jest.mock('../../db/connection', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn((_options: any, run: any) => run({})) },
+}));
+jest.mock('../../services/sync/changeLogService', () => ({
+  ...jest.requireActual('../../services/sync/changeLogService'),
+  headCursor: jest.fn().mockResolvedValue({ seq: '10', pending: [], issuedAt: Date.now() }),
+  readChanges: jest.fn(),
+  syncEntityModel: jest.fn(),
+}));
+jest.mock('../../services/sync/bundleService', () => ({
+  BUNDLE_USER_COLUMNS: ['id', 'email'],
+  isBundleAvailable: () => true,
+  bundleSigningKey: () => ({ keyId: 'bundle-test' }),
+  parseDevicePublicKey: () => ({}),
+  bundleSchema: () => [],
+  schemaHash: () => 'hash',
+  buildBundleDatabase: jest.fn(() => Buffer.from('db')),
+  sealBundle: () => ({ bundle: Buffer.from('sealed'), header: { schemaVersion: 2, generatedAt: '2025-01-01T00:00:00.000Z' } }),
+  signingKeyInfo: jest.fn(),
+}));
+jest.mock('../../services/sync/deviceService', () => ({ pinDevicePublicKey: jest.fn() }));
+
+const row = (values: any) => ({ ...values, get: (key: any) => (typeof key === 'string' ? values[key] : values) });
+
+const beneficiaries = [
+  row({ id: 'b-1', pseudonym: 'BEN-1', status: 'active', version: 1, firstNameEnc: null }),
+  row({ id: 'b-2', pseudonym: 'BEN-2', status: 'active', version: 4, firstNameEnc: { alg: 'aes-256-gcm', data: 'x' } }),
+];
+
+const request = (body: any, headers: Record<string, string> = {}) => ({
+  body,
+  user: { id: 'u-1' },
+  userRoles: [{ name: 'SuperAdmin' }],
+  header: (name: string) => headers[name.toLowerCase()],
+});
+
+const response = () => {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  res.send = jest.fn(() => res);
+  res.setHeader = jest.fn();
+  res.locals = { syncDevice: { id: 'sd-1', deviceId: 'tablet-7' } };
+  return res;
+};
+
+describe('Sync payloads and beneficiary consent', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.CONSENT_ENFORCEMENT = 'enforce';
+    (BeneficiaryConsent.findAll as jest.Mock).mockResolvedValue([{ beneficiaryId: 'b-1', purpose: 'data_collection' }]);
+    (pinDevicePublicKey as jest.Mock).mockResolvedValue(true);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('sends snapshot beneficiaries without consent without PII', async () => {
+    (Beneficiary.findAll as jest.Mock).mockResolvedValue(beneficiaries);
+    const res = response();
+
+    await syncController.pull(request({ entities: ['beneficiaries'] }) as any, res);
+
+    const { data } = res.json.mock.calls[0][0];
+    expect(data.beneficiaries[0]).toEqual(expect.objectContaining({ id: 'b-1', pii: expect.any(Object) }));
+    expect(data.beneficiaries[1]).toEqual(expect.objectContaining({ id: 'b-2', consentRequired: 'data_collection' }));
+    expect(data.beneficiaries[1]).not.toHaveProperty('piiEnc');
+  });
+
+  it('leaves merged, erased and archived beneficiaries out of snapshots', async () => {
+    await syncController.pull(request({ entities: ['beneficiaries'] }) as any, response());
+
+    expect((Beneficiary.findAll as jest.Mock).mock.calls[0][0].where).toEqual({ mergedIntoId: null, erasedAt: null, isArchived: false });
+  });
+
+  it('sends delta beneficiaries without consent without PII', async () => {
+    (readChanges as jest.Mock).mockResolvedValue({
+      upserts: { beneficiaries: ['b-1', 'b-2'] },
+      tombstones: [],
+      cursor: { seq: '12', pending: [], issuedAt: Date.now() },
+      hasMore: false,
+    });
+    (syncEntityModel as jest.Mock).mockReturnValue({ findAll: jest.fn().mockResolvedValue(beneficiaries) });
+    const cursor = Buffer.from(JSON.stringify({ v: 1, s: '10', p: [], t: Date.now() })).toString('base64url');
+    const res = response();
+
+    await syncController.pull(request({ cursor, entities: ['beneficiaries'] }) as any, res);
+
+    const { data } = res.json.mock.calls[0][0];
+    expect(data.beneficiaries.map((b: any) => Boolean(b.pii))).toEqual([true, false]);
+    expect(data.beneficiaries[1].consentRequired).toBe('data_collection');
+  });
+
+  it('sends merged, erased and archived beneficiaries as delta tombstones', async () => {
+    (readChanges as jest.Mock).mockResolvedValue({
+      upserts: { beneficiaries: ['b-1', 'b-3', 'b-4', 'b-5'] },
+      tombstones: [],
+      cursor: { seq: '12', pending: [], issuedAt: Date.now() },
+      hasMore: false,
+    });
+    (syncEntityModel as jest.Mock).mockReturnValue({
+      findAll: jest.fn().mockResolvedValue([
+        beneficiaries[0],
+        row({ id: 'b-3', pseudonym: 'BEN-3', isArchived: true, mergedIntoId: 'b-1' }),
+        row({ id: 'b-4', pseudonym: 'BEN-4', isArchived: true, erasedAt: new Date() }),
+        row({ id: 'b-5', pseudonym: 'BEN-5', isArchived: true }),
+      ]),
+    });
+    const cursor = Buffer.from(JSON.stringify({ v: 1, s: '10', p: [], t: Date.now() })).toString('base64url');
+    const res = response();
+
+    await syncController.pull(request({ cursor, entities: ['beneficiaries'] }) as any, res);
+
+    const { data, tombstones } = res.json.mock.calls[0][0];
+    expect(data.beneficiaries.map((b: any) => b.id)).toEqual(['b-1']);
+    expect(tombstones).toEqual([
+      { entityType: 'beneficiaries', id: 'b-3', operation: 'delete', reason: 'merged', mergedIntoId: 'b-1' },
+      { entityType: 'beneficiaries', id: 'b-4', operation: 'delete', reason: 'erased' },
+      { entityType: 'beneficiaries', id: 'b-5', operation: 'delete', reason: 'archived' },
+    ]);
+  });
+
+  it('bundles beneficiaries without consent without their PII columns', async () => {
+    (Beneficiary.findAll as jest.Mock).mockResolvedValue(beneficiaries);
+    const res = response();
+
+    await syncController.full(request({}, { 'x-device-id': 'tablet-7', 'x-device-public-key': 'key' }) as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    const [tables] = (buildBundleDatabase as jest.Mock).mock.calls[0];
+    expect(tables.beneficiaries[0]).toBe(beneficiaries[0]);
+    expect(tables.beneficiaries[1]).toEqual(expect.objectContaining({ id: 'b-2', pseudonym: 'BEN-2', firstNameEnc: null, phoneEnc: null }));
+  });
+
+  it('bundles active beneficiaries and only the listed user columns', async () => {
+    const res = response();
+
+    await syncController.full(request({}, { 'x-device-id': 'tablet-7', 'x-device-public-key': 'key' }) as any, res);
+
+    expect(Beneficiary.findAll).toHaveBeenCalledWith({ where: { mergedIntoId: null, erasedAt: null, isArchived: false } });
+    expect(User.findAll).toHaveBeenCalledWith({ attributes: ['id', 'email'] });
+  });
+
+  it('refuses a bundle for a key other than the one pinned on the device', async () => {
+    (pinDevicePublicKey as jest.Mock).mockResolvedValue(false);
+    const res = response();
+
+    await syncController.full(request({}, { 'x-device-id': 'tablet-7', 'x-device-public-key': 'key' }) as any, res);
+
+    expect(pinDevicePublicKey).toHaveBeenCalledWith(res.locals.syncDevice, expect.anything());
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'DEVICE_KEY_MISMATCH' }));
+    expect(buildBundleDatabase).not.toHaveBeenCalled();
+  });
+});
@@ -1,17 +1,27 @@
 import crypto from 'crypto';
 
-// AES-256-GCM encryption/decryption and HMAC-SHA256 hashing utilities
+// AES-256-GCM encryption/decryption and HMAC-SHA256 hashing utilities with key rotation
 // Env vars:
-// - BENEFICIARY_ENC_KEY: 32-byte key in base64 or hex
-// - BENEFICIARY_HASH_KEY: key for HMAC (any length), base64 or hex or utf8
+// - BENEFICIARY_ENC_KEYS: keyring of 32-byte keys as `id:key,id:key` (base64 or hex)
+// - BENEFICIARY_ENC_ACTIVE_KEY_ID: key used for new encryptions (default: first key in the ring)
+// - BENEFICIARY_HASH_KEYS / BENEFICIARY_HASH_ACTIVE_KEY_ID: same for HMAC keys (>= 16 bytes)
+// - BENEFICIARY_ENC_KEY / BENEFICIARY_HASH_KEY: single-key setup, used as key id LEGACY_KEY_ID
+//   when no keyring is configured
+// Every key in a ring can decrypt/match; only the active key encrypts/hashes new values.
 
 export type EncryptedField = {
   alg: 'aes-256-gcm';
+  kid?: string; // keyring id of the encryption key (missing on values encrypted before rotation)
   iv: string; // base64
   tag: string; // base64
   data: string; // base64
 };
 
+/** Key id given to BENEFICIARY_ENC_KEY / BENEFICIARY_HASH_KEY when no keyring is configured */
+export const LEGACY_KEY_ID = 'v1';
+
+type Keyring = { activeId: string; keys: Map<string, Buffer> };
+
 const getBufferFromEnv = (value?: string): Buffer | null => {
   if (!value) return null;
   // Try base64, then hex, else utf8
@@ -20,42 +30,89 @@ const getBufferFromEnv = (value?: string): Buffer | null => {
   return Buffer.from(value, 'utf8');
 };
 
-const getAesKey = (): Buffer => {
-  const keyStr = process.env.BENEFICIARY_ENC_KEY;
-  const key = getBufferFromEnv(keyStr);
-  if (!key || key.length !== 32) {
-    throw new Error('BENEFICIARY_ENC_KEY must be a 32-byte key (provide as base64 or hex)');
+const keyringCache = new Map<string, Keyring>();
+
+/**
+ * Parse a keyring from env. Cached per env value, so changed env (e.g. in tests) is picked up.
+ */
+const loadKeyring = (
+  ringVar: string,
+  activeVar: string,
+  singleVar: string,
+  isValid: (key: Buffer) => boolean,
+  requirement: string
+): Keyring => {
+  const ring = process.env[ringVar];
+  const single = process.env[singleVar];
+  const active = process.env[activeVar];
+  const cacheKey = `${ringVar}|${ring ?? ''}|${active ?? ''}|${single ?? ''}`;
+  const cached = keyringCache.get(cacheKey);
+  if (cached) return cached;
+
+  const keys = new Map<string, Buffer>();
+  if (ring) {
+    for (const entry of ring.split(',').map(e => e.trim()).filter(Boolean)) {
+      const sep = entry.indexOf(':');
+      const id = sep > 0 ? entry.slice(0, sep).trim() : '';
+      const key = getBufferFromEnv(sep > 0 ? entry.slice(sep + 1).trim() : '');
+      if (!id || !key || !isValid(key)) {
+        throw new Error(`${ringVar} entries must be id:key where each key ${requirement}`);
+      }
+      keys.set(id, key);
+    }
+  } else {
+    const key = getBufferFromEnv(single);
+    if (!key || !isValid(key)) {
+      throw new Error(`${singleVar} ${requirement} (or configure ${ringVar})`);
+    }
+    keys.set(LEGACY_KEY_ID, key);
   }
-  return key;
-};
 
-const getHmacKey = (): Buffer => {
-  const keyStr = process.env.BENEFICIARY_HASH_KEY;
-  const key = getBufferFromEnv(keyStr);
-  if (!key || key.length < 16) {
-    throw new Error('BENEFICIARY_HASH_KEY must be provided (>=16 bytes recommended)');
+  const activeId = active || keys.keys().next().value!;
+  if (!keys.has(activeId)) {
+    throw new Error(`${activeVar} '${activeId}' is not in ${ringVar}`);
   }
-  return key;
+  const keyring = { activeId, keys };
+  keyringCache.set(cacheKey, keyring);
+  return keyring;
 };
 
+const getEncKeyring = () => loadKeyring(
+  'BENEFICIARY_ENC_KEYS', 'BENEFICIARY_ENC_ACTIVE_KEY_ID', 'BENEFICIARY_ENC_KEY',
+  key => key.length === 32, 'must be a 32-byte key (provide as base64 or hex)'
+);
+
+const getHashKeyring = () => loadKeyring(
+  'BENEFICIARY_HASH_KEYS', 'BENEFICIARY_HASH_ACTIVE_KEY_ID', 'BENEFICIARY_HASH_KEY',
+  key => key.length >= 16, 'must be provided (>=16 bytes recommended)'
+);
+
+/** Ids of the keys used for new encryptions and match-key hashes */
+export const getActiveKeyIds = () => ({ encKeyId: getEncKeyring().activeId, hashKeyId: getHashKeyring().activeId });
+
+/** Ids of all keys in both keyrings */
+export const getKeyringIds = () => ({
+  encKeyIds: Array.from(getEncKeyring().keys.keys()),
+  hashKeyIds: Array.from(getHashKeyring().keys.keys()),
+});
+
 export const encryptField = (plaintext: string | null | undefined): EncryptedField | null => {
   if (plaintext === undefined || plaintext === null || plaintext === '') return null;
-  const key = getAesKey();
+  const { activeId, keys } = getEncKeyring();
   const iv = crypto.randomBytes(12); // GCM standard
-  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const cipher = crypto.createCipheriv('aes-256-gcm', keys.get(activeId)!, iv);
   const enc = Buffer.concat([cipher.update(String(plaintext), 'utf8'), cipher.final()]);
   const tag = cipher.getAuthTag();
   return {
     alg: 'aes-256-gcm',
+    kid: activeId,
     iv: iv.toString('base64'),
     tag: tag.toString('base64'),
     data: enc.toString('base64'),
   };
 };
 
-export const decryptField = (encrypted: EncryptedField | null | undefined): string | null => {
-  if (!encrypted) return null;
-  const key = getAesKey();
+const decryptWithKey = (encrypted: EncryptedField, key: Buffer): string => {
   const iv = Buffer.from(encrypted.iv, 'base64');
   const tag = Buffer.from(encrypted.tag, 'base64');
   const data = Buffer.from(encrypted.data, 'base64');
@@ -65,13 +122,49 @@ export const decryptField = (encrypted: EncryptedField | null | undefined): stri
   return dec.toString('utf8');
 };
 
-export const hmacSha256 = (value: string): string => {
-  const key = getHmacKey();
+export const decryptField = (encrypted: EncryptedField | null | undefined): string | null => {
+  if (!encrypted) return null;
+  const { keys } = getEncKeyring();
+  if (encrypted.kid) {
+    const key = keys.get(encrypted.kid);
+    if (!key) throw new Error(`Encryption key '${encrypted.kid}' is not in the keyring`);
+    return decryptWithKey(encrypted, key);
+  }
+  // Values without a key id predate rotation: the GCM tag identifies the right key
+  for (const key of keys.values()) {
+    try { return decryptWithKey(encrypted, key); } catch {}
+  }
+  throw new Error('Unable to decrypt field with any key in the keyring');
+};
+
+/** Whether an encrypted value needs re-encryption with the active key */
+export const needsReencryption = (encrypted: EncryptedField | null | undefined): boolean =>
+  !!encrypted && encrypted.kid !== getEncKeyring().activeId;
+
+/** Re-encrypt a value with the active key (unchanged when it already uses it) */
+export const reencryptField = (encrypted: EncryptedField | null | undefined): EncryptedField | null => {
+  if (!encrypted || !needsReencryption(encrypted)) return encrypted ?? null;
+  return encryptField(decryptField(encrypted));
+};
+
+const hmacWithKey = (value: string, key: Buffer): string => {
   const h = crypto.createHmac('sha256', key);
   h.update(value, 'utf8');
   return h.digest('hex');
 };
 
+/** HMAC with the active hash key */
+export const hmacSha256 = (value: string): string => {
+  const { activeId, keys } = getHashKeyring();
+  return hmacWithKey(value, keys.get(activeId)!);
+};
+
+/** HMACs with every key in the hash keyring (active first), for lookups during a rotation */
+export const hmacSha256All = (value: string): string[] => {
+  const { activeId, keys } = getHashKeyring();
+  return [activeId, ...Array.from(keys.keys()).filter(id => id !== activeId)].map(id => hmacWithKey(value, keys.get(id)!));
+};
+
 // Normalizers for deterministic keys
 export const normalizeName = (s?: string | null): string => {
   if (!s) return '';
@@ -98,15 +191,21 @@ export const normalizePhone = (s?: string | null): string => {
   return plus + digits;
 };
 
-export const makePseudonym = (): string => {
-  // Generate short pseudonymized code
-  return 'B-' + crypto.randomBytes(4).toString('hex').toUpperCase();
+export const makePseudonym = (prefix: string = 'B'): string => {
+  // Generate short pseudonymized code (B- for beneficiaries, H- for households)
+  return `${prefix}-` + crypto.randomBytes(4).toString('hex').toUpperCase();
 };
 
 export default {
+  LEGACY_KEY_ID,
+  getActiveKeyIds,
+  getKeyringIds,
   encryptField,
   decryptField,
+  needsReencryption,
+  reencryptField,
   hmacSha256,
+  hmacSha256All,
   normalizeName,
   normalizeDob,
   normalizePhone,